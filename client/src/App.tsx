@@ -16,6 +16,7 @@ import ProjectsRubbish from "./pages/ProjectsRubbish";
 import ProjectDetail from "./pages/ProjectDetail";
 import ProjectJobDetail from "./pages/ProjectJobDetail";
 import ProjectNew from "./pages/ProjectNew";
+import ProjectTemplates from "./pages/ProjectTemplates";
 import Reports from "./pages/Reports";
 import ReportsArchived from "./pages/ReportsArchived";
 import ReportsRubbish from "./pages/ReportsRubbish";
@@ -24,8 +25,18 @@ import Contacts from "./pages/Contacts";
 import ContactsArchived from "./pages/ContactsArchived";
 import ContactsRubbish from "./pages/ContactsRubbish";
 import Invoices from "./pages/Invoices";
+import Quotes from "./pages/Quotes";
 import InvoicesArchived from "./pages/InvoicesArchived";
 import InvoicesRubbish from "./pages/InvoicesRubbish";
+import InvoicesDunning from "./pages/InvoicesDunning";
+import InvoicesRecurring from "./pages/InvoicesRecurring";
+import BankReconciliation from "./pages/BankReconciliation";
+import Mileage from "./pages/Mileage";
+import PerDiem from "./pages/PerDiem";
+import Subscriptions from "./pages/Subscriptions";
+import Timesheets from "./pages/Timesheets";
+import Team from "./pages/Team";
+import Timeline from "./pages/Timeline";
 import InvoiceCreate from "./pages/InvoiceCreate";
 import InvoiceView from "./pages/InvoiceView";
 import Notes from "./pages/Notes";
@@ -428,6 +439,11 @@ function Router() {
           <ProjectNew />
         </DashboardLayout>
       </Route>
+      <Route path="/projects/templates">
+        <DashboardLayout>
+          <ProjectTemplates />
+        </DashboardLayout>
+      </Route>
       <Route path="/projects/:id">
         <DashboardLayout>
           <ProjectDetail />
@@ -513,6 +529,16 @@ function Router() {
           <InvoicesRubbish />
         </DashboardLayout>
       </Route>
+      <Route path="/invoices/dunning">
+        <DashboardLayout>
+          <InvoicesDunning />
+        </DashboardLayout>
+      </Route>
+      <Route path="/invoices/recurring">
+        <DashboardLayout>
+          <InvoicesRecurring />
+        </DashboardLayout>
+      </Route>
       <Route path="/invoices/:id">
         <DashboardLayout>
           <InvoiceView />
@@ -523,6 +549,11 @@ function Router() {
           <Invoices />
         </DashboardLayout>
       </Route>
+      <Route path="/quotes">
+        <DashboardLayout>
+          <Quotes />
+        </DashboardLayout>
+      </Route>
       <Route path="/notes">
         <DashboardLayout>
           <Notes />
@@ -578,6 +609,41 @@ function Router() {
           <Weather />
         </DashboardLayout>
       </Route>
+      <Route path="/bank">
+        <DashboardLayout>
+          <BankReconciliation />
+        </DashboardLayout>
+      </Route>
+      <Route path="/mileage">
+        <DashboardLayout>
+          <Mileage />
+        </DashboardLayout>
+      </Route>
+      <Route path="/per-diem">
+        <DashboardLayout>
+          <PerDiem />
+        </DashboardLayout>
+      </Route>
+      <Route path="/subscriptions">
+        <DashboardLayout>
+          <Subscriptions />
+        </DashboardLayout>
+      </Route>
+      <Route path="/timesheets">
+        <DashboardLayout>
+          <Timesheets />
+        </DashboardLayout>
+      </Route>
+      <Route path="/team">
+        <DashboardLayout>
+          <Team />
+        </DashboardLayout>
+      </Route>
+      <Route path="/timeline">
+        <DashboardLayout>
+          <Timeline />
+        </DashboardLayout>
+      </Route>
       <Route path="/expenses">
         <DashboardLayout>
           <Expenses />
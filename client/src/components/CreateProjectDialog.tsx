@@ -8,6 +8,7 @@
  * - Address
  * - Date range
  * - Status
+ * - Optional project template with its start date
  */
 
 import { useEffect, useState } from "react";
@@ -34,6 +35,7 @@ import { trpc } from "@/lib/trpc";
 import { toast } from "sonner";
 import { Loader2 } from "@/components/ui/Icon";
 import { DatePicker } from "@/components/DatePicker";
+import { ProjectTemplateFields, parseTemplateStartDate } from "@/components/ProjectTemplateFields";
 
 interface CreateProjectDialogProps {
   open: boolean;
@@ -61,6 +63,8 @@ export function CreateProjectDialog({
   const [address, setAddress] = useState("");
   const [status, setStatus] = useState<ProjectStatus>("planned");
   const [selectedDates, setSelectedDates] = useState<Date[]>([]);
+  const [templateId, setTemplateId] = useState<number | null>(null);
+  const [templateStartDate, setTemplateStartDate] = useState("");
 
   const shouldLoadContacts = open || Boolean(prefillClientId);
   const { data: contacts = [] } = trpc.contacts.list.useQuery(undefined, {
@@ -78,6 +82,20 @@ export function CreateProjectDialog({
       toast.error("Failed to create project: " + error.message);
     },
   });
+  const createFromTemplate = trpc.projectTemplates.createProject.useMutation({
+    onSuccess: (data) => {
+      toast.success(`Project created with ${data.jobCount} ${data.jobCount === 1 ? "job" : "jobs"}`);
+      if (data.quoteSkippedReason) {
+        toast.warning(`No quote created: ${data.quoteSkippedReason}`);
+      }
+      utils.projects.list.invalidate();
+      onOpenChange(false);
+      resetForm();
+    },
+    onError: (error) => {
+      toast.error("Failed to create project: " + error.message);
+    },
+  });
 
   const resetForm = () => {
     setName("");
@@ -87,6 +105,8 @@ export function CreateProjectDialog({
     setAddress("");
     setStatus("planned");
     setSelectedDates([]);
+    setTemplateId(null);
+    setTemplateStartDate("");
   };
 
   useEffect(() => {
@@ -124,6 +144,8 @@ export function CreateProjectDialog({
     }
   };
 
+  const isSubmitting = createProject.isPending || createFromTemplate.isPending;
+
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
     if (!name.trim()) {
@@ -131,6 +153,24 @@ export function CreateProjectDialog({
       return;
     }
 
+    if (templateId) {
+      if (!templateStartDate) {
+        toast.error("Start date is required for a template");
+        return;
+      }
+      createFromTemplate.mutate({
+        templateId,
+        name: name.trim(),
+        client: clientName.trim() || undefined,
+        clientId: clientId ?? undefined,
+        description: description.trim() || undefined,
+        address: address.trim() || undefined,
+        status,
+        startDate: parseTemplateStartDate(templateStartDate),
+      });
+      return;
+    }
+
     // Determine dates
     const hasSelectedDates = selectedDates.length > 0;
     const sortedDates = [...selectedDates].sort((a, b) => a.getTime() - b.getTime());
@@ -163,6 +203,13 @@ export function CreateProjectDialog({
         </DialogHeader>
         <form onSubmit={handleSubmit}>
           <div className="grid gap-4 py-4">
+            <ProjectTemplateFields
+              templateId={templateId}
+              onTemplateChange={setTemplateId}
+              startDate={templateStartDate}
+              onStartDateChange={setTemplateStartDate}
+              enabled={open}
+            />
             <div className="grid gap-2">
               <Label htmlFor="name">Project Name *</Label>
               <Input
@@ -239,17 +286,19 @@ export function CreateProjectDialog({
                 </SelectContent>
               </Select>
             </div>
-            <div className="grid gap-2">
-              <Label>Project Dates</Label>
-              <DatePicker selectedDates={selectedDates} onChange={setSelectedDates} />
-            </div>
+            {!templateId && (
+              <div className="grid gap-2">
+                <Label>Project Dates</Label>
+                <DatePicker selectedDates={selectedDates} onChange={setSelectedDates} />
+              </div>
+            )}
           </div>
           <DialogFooter>
             <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
               Cancel
             </Button>
-            <Button type="submit" disabled={createProject.isPending}>
-              {createProject.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            <Button type="submit" disabled={isSubmitting}>
+              {isSubmitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
               Create Project
             </Button>
           </DialogFooter>
@@ -166,6 +166,7 @@ function MantoAssistantWrapper() {
   const pageNames: Record<string, string> = {
     "/projects": "Projects",
     "/invoices": "Invoices",
+    "/quotes": "Quotes",
     "/contacts": "Contacts",
     "/notes": "Notes",
     "/calendar": "Calendar",
@@ -173,6 +174,14 @@ function MantoAssistantWrapper() {
     "/maps": "Maps",
     "/settings": "Settings",
     "/expenses": "Expenses",
+    "/bank": "Bank Reconciliation",
+    "/mileage": "Mileage",
+    "/per-diem": "Per Diem",
+    "/subscriptions": "Subscriptions",
+    "/timesheets": "Timesheets",
+    "/timeline": "Timeline",
+    "/team": "Team",
+    "/statements": "Statements",
     "/reports": "Reports",
   };
   
@@ -26,6 +26,11 @@ import { trpc } from "@/lib/trpc";
 import { toast } from "sonner";
 import { Loader2, ArrowLeft } from "@/components/ui/Icon";
 import { DatePicker } from "@/components/DatePicker";
+import {
+  DEFAULT_GEOFENCE_RADIUS_METERS,
+  MAX_GEOFENCE_RADIUS_METERS,
+  MIN_GEOFENCE_RADIUS_METERS,
+} from "@shared/geofence";
 
 interface Project {
   id: number;
@@ -34,6 +39,8 @@ interface Project {
   clientId: number | null;
   description: string | null;
   address: string | null;
+  geo?: { lat: number; lng: number } | null;
+  geofenceRadiusMeters?: number | null;
   status: "planned" | "active" | "completed" | "archived";
   startDate: Date | null;
   endDate: Date | null;
@@ -55,6 +62,7 @@ export function EditProjectDialog({ open, onOpenChange, project, onRequestAddCon
   const [clientId, setClientId] = useState<number | null>(project.clientId);
   const [description, setDescription] = useState(project.description || "");
   const [address, setAddress] = useState(project.address || "");
+  const [geofenceRadius, setGeofenceRadius] = useState(project.geofenceRadiusMeters?.toString() ?? "");
   const [status, setStatus] = useState<ProjectStatus>(project.status === "archived" ? "active" : project.status);
   const [selectedDates, setSelectedDates] = useState<Date[]>([]);
   const { data: contacts = [] } = trpc.contacts.list.useQuery(undefined, {
@@ -84,6 +92,7 @@ export function EditProjectDialog({ open, onOpenChange, project, onRequestAddCon
     setClientId(project.clientId);
     setDescription(project.description || "");
     setAddress(project.address || "");
+    setGeofenceRadius(project.geofenceRadiusMeters?.toString() ?? "");
     setStatus(project.status === "archived" ? "active" : project.status);
 
     const explicitDates = coerceScheduledDates(project.scheduledDates)
@@ -119,6 +128,15 @@ export function EditProjectDialog({ open, onOpenChange, project, onRequestAddCon
       return;
     }
 
+    const radius = geofenceRadius.trim() === "" ? null : Number(geofenceRadius);
+    if (
+      radius !== null &&
+      (!Number.isInteger(radius) || radius < MIN_GEOFENCE_RADIUS_METERS || radius > MAX_GEOFENCE_RADIUS_METERS)
+    ) {
+      toast.error(`Check-in radius must be between ${MIN_GEOFENCE_RADIUS_METERS} and ${MAX_GEOFENCE_RADIUS_METERS} m`);
+      return;
+    }
+
     // Determine dates
     const hasSelectedDates = selectedDates.length > 0;
     const sortedDates = [...selectedDates].sort((a, b) => a.getTime() - b.getTime());
@@ -132,6 +150,7 @@ export function EditProjectDialog({ open, onOpenChange, project, onRequestAddCon
       clientId: clientId ?? null,
       description: description.trim() || undefined,
       address: address.trim() || undefined,
+      geofenceRadiusMeters: radius,
       status,
       startDate,
       endDate,
@@ -259,6 +278,24 @@ export function EditProjectDialog({ open, onOpenChange, project, onRequestAddCon
                 placeholder="e.g., 123 Main St, City, State"
               />
             </div>
+            <div className="grid gap-2">
+              <Label htmlFor="geofenceRadius">Check-in radius (m)</Label>
+              <Input
+                id="geofenceRadius"
+                type="number"
+                min={MIN_GEOFENCE_RADIUS_METERS}
+                max={MAX_GEOFENCE_RADIUS_METERS}
+                step={25}
+                value={geofenceRadius}
+                onChange={(e) => setGeofenceRadius(e.target.value)}
+                placeholder={String(DEFAULT_GEOFENCE_RADIUS_METERS)}
+              />
+              <p className="text-xs text-muted-foreground">
+                {project.geo
+                  ? "Check-ins farther from the site are flagged, and site reminders trigger within this distance."
+                  : "Takes effect once the project has a location on the map."}
+              </p>
+            </div>
             <div className="grid gap-2">
               <Label htmlFor="status">Status</Label>
               <Select value={status} onValueChange={(value: ProjectStatus) => setStatus(value)}>
@@ -0,0 +1,188 @@
+/**
+ * ProjectBillableHoursCard Component
+ *
+ * Hourly rates of a project and its jobs, and the approved billable hours
+ * that aren't invoiced yet with the action to invoice them.
+ */
+
+import { useEffect, useState } from "react";
+import { useLocation } from "wouter";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { trpc } from "@/lib/trpc";
+import { formatCurrency } from "@/lib/currencyFormat";
+import { toast } from "sonner";
+import { AlertTriangle, FileText, Loader2 } from "@/components/ui/Icon";
+
+interface ProjectBillableHoursCardProps {
+  projectId: number;
+  jobs: Array<{ id: number; title: string; hourlyRate: string | null }>;
+}
+
+const formatHours = (hours: number) =>
+  `${hours.toLocaleString("de-DE", { maximumFractionDigits: 2 })} h`;
+
+interface RateInputProps {
+  label: string;
+  value: string | number | null;
+  placeholder?: string;
+  disabled: boolean;
+  onSave: (hourlyRate: number | null) => void;
+}
+
+function RateInput({ label, value, placeholder, disabled, onSave }: RateInputProps) {
+  const initial = value === null ? "" : String(Number(value));
+  const [draft, setDraft] = useState(initial);
+  useEffect(() => setDraft(initial), [initial]);
+
+  const commit = () => {
+    if (draft === initial) return;
+    const rate = draft.trim() === "" ? null : Number(draft.replace(",", "."));
+    if (rate !== null && (!Number.isFinite(rate) || rate < 0)) {
+      toast.error("Enter a valid hourly rate");
+      setDraft(initial);
+      return;
+    }
+    onSave(rate);
+  };
+
+  return (
+    <div className="flex items-center justify-between gap-2 text-sm">
+      <span className="truncate">{label}</span>
+      <div className="flex items-center gap-1">
+        <Input
+          className="h-8 w-24 text-right"
+          inputMode="decimal"
+          placeholder={placeholder}
+          value={draft}
+          disabled={disabled}
+          onChange={(e) => setDraft(e.target.value)}
+          onBlur={commit}
+          onKeyDown={(e) => e.key === "Enter" && commit()}
+        />
+        <span className="text-muted-foreground">€ / h</span>
+      </div>
+    </div>
+  );
+}
+
+export function ProjectBillableHoursCard({ projectId, jobs }: ProjectBillableHoursCardProps) {
+  const utils = trpc.useUtils();
+  const [, setLocation] = useLocation();
+  const { data: unbilled, isLoading } = trpc.timesheets.unbilled.useQuery({ projectId });
+
+  const rateMutation = trpc.timesheets.setHourlyRate.useMutation({
+    onSuccess: () => {
+      toast.success("Hourly rate saved");
+      utils.timesheets.unbilled.invalidate({ projectId });
+      utils.projects.jobs.list.invalidate({ projectId });
+    },
+    onError: (error) => toast.error(error.message || "Failed to save hourly rate"),
+  });
+
+  const invoiceMutation = trpc.timesheets.createInvoice.useMutation({
+    onSuccess: (result) => {
+      toast.success(
+        result.skippedEntryIds.length > 0
+          ? `Invoice created, ${result.skippedEntryIds.length} entries without hourly rate were left out`
+          : "Invoice created"
+      );
+      utils.timesheets.unbilled.invalidate({ projectId });
+      utils.invoices.list.invalidate();
+      setLocation(`/invoices/${result.invoiceId}`);
+    },
+    onError: (error) => toast.error(error.message || "Failed to create invoice"),
+  });
+
+  if (isLoading || !unbilled) {
+    return (
+      <Card>
+        <CardContent className="flex items-center justify-center py-12">
+          <Loader2 className="h-8 w-8 animate-spin text-primary" />
+        </CardContent>
+      </Card>
+    );
+  }
+
+  const totalHours = unbilled.lines.reduce((sum, line) => sum + line.quantity, 0);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Billable hours</CardTitle>
+        <CardDescription>
+          Approved, billable timesheet hours that aren't invoiced yet. A job's rate overrides the project rate.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="space-y-2">
+          <h3 className="text-sm font-medium">Hourly rates (net)</h3>
+          <RateInput
+            label="Project"
+            value={unbilled.projectRate}
+            disabled={rateMutation.isPending}
+            onSave={(hourlyRate) => rateMutation.mutate({ projectId, hourlyRate })}
+          />
+          {jobs.map((job) => (
+            <RateInput
+              key={job.id}
+              label={job.title}
+              value={job.hourlyRate}
+              placeholder={unbilled.projectRate === null ? undefined : String(unbilled.projectRate)}
+              disabled={rateMutation.isPending}
+              onSave={(hourlyRate) => rateMutation.mutate({ projectId, jobId: job.id, hourlyRate })}
+            />
+          ))}
+        </div>
+
+        <div className="space-y-2">
+          <h3 className="text-sm font-medium">Unbilled</h3>
+          {unbilled.lines.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No approved hours waiting to be invoiced.</p>
+          ) : (
+            unbilled.lines.map((line) => (
+              <div key={`${line.name}:${line.unitPrice}`} className="flex justify-between gap-2 text-sm">
+                <div className="min-w-0">
+                  <p className="truncate">{line.name}</p>
+                  <p className="text-xs text-muted-foreground">
+                    {line.description} · {formatHours(line.quantity)} × {formatCurrency(line.unitPrice, "EUR")}
+                  </p>
+                </div>
+                <span>{formatCurrency(line.quantity * line.unitPrice, "EUR")}</span>
+              </div>
+            ))
+          )}
+          {unbilled.withoutRateCount > 0 && (
+            <div className="flex items-start gap-2 rounded-md border border-yellow-500/30 bg-yellow-500/10 p-3 text-sm">
+              <AlertTriangle className="mt-0.5 h-4 w-4 shrink-0 text-yellow-700 dark:text-yellow-400" />
+              <span>
+                {unbilled.withoutRateCount} approved entries have no hourly rate and can't be invoiced until you set one.
+              </span>
+            </div>
+          )}
+        </div>
+
+        {unbilled.lines.length > 0 && (
+          <div className="flex flex-wrap items-center justify-between gap-2">
+            <span className="text-sm">
+              {formatHours(totalHours)} · <span className="font-medium">{formatCurrency(unbilled.netTotal, "EUR")}</span> net
+            </span>
+            <Button
+              type="button"
+              disabled={invoiceMutation.isPending}
+              onClick={() => invoiceMutation.mutate({ projectId })}
+            >
+              {invoiceMutation.isPending ? (
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              ) : (
+                <FileText className="mr-2 h-4 w-4" />
+              )}
+              Create invoice from unbilled hours
+            </Button>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
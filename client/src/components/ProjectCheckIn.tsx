@@ -4,23 +4,73 @@
  * Allows users to check in/out of projects with optional geolocation.
  * Displays current check-in status and history.
  * Mobile-first design for field technicians.
+ * With site reminders on, watches the position while the page is open and
+ * prompts to check in or out when entering or leaving the project's geofence.
  */
 
 import { useEffect, useState } from "react";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
 import { trpc } from "@/lib/trpc";
 import { Clock, MapPin, LogOut, LogIn, Loader2, History } from "@/components/ui/Icon";
 import { toast } from "sonner";
+import { useGeofence } from "@/hooks/useGeofence";
+import { formatDistance, getGeofenceRadius } from "@shared/geofence";
 
 interface ProjectCheckInProps {
   projectId: number;
 }
 
+const SITE_REMINDERS_KEY = "mantodeus-site-reminders";
+
+interface DevicePosition {
+  latitude?: number;
+  longitude?: number;
+  accuracy?: number;
+}
+
+/** Current position, or nothing when it's unavailable or denied */
+async function getDevicePosition(): Promise<DevicePosition> {
+  if (!navigator.geolocation) return {};
+  try {
+    const position = await new Promise<GeolocationPosition>((resolve, reject) => {
+      navigator.geolocation.getCurrentPosition(resolve, reject, { timeout: 5000, enableHighAccuracy: true });
+    });
+    return {
+      latitude: position.coords.latitude,
+      longitude: position.coords.longitude,
+      accuracy: position.coords.accuracy,
+    };
+  } catch (error) {
+    // Geolocation failed, continue without it
+    console.log("Geolocation not available or denied");
+    return {};
+  }
+}
+
+const warnIfAway = (
+  action: string,
+  result: { outsideGeofence: boolean; locationMissing: boolean; distanceMeters: number | null }
+) => {
+  if (result.locationMissing) {
+    toast.warning(`${action} without your location`, {
+      description: "The check-in is flagged for the timesheet review.",
+    });
+    return;
+  }
+  if (!result.outsideGeofence || result.distanceMeters === null) return;
+  toast.warning(`${action} ${formatDistance(result.distanceMeters)} away from the site`, {
+    description: "The check-in is flagged for the timesheet review.",
+  });
+};
+
 export function ProjectCheckIn({ projectId }: ProjectCheckInProps) {
   const [isCheckingIn, setIsCheckingIn] = useState(false);
   const [isCheckingOut, setIsCheckingOut] = useState(false);
+  const [siteReminders, setSiteReminders] = useState(() => localStorage.getItem(SITE_REMINDERS_KEY) === "on");
   const utils = trpc.useUtils();
   const isValidProjectId = Number.isFinite(projectId) && projectId > 0;
 
@@ -39,11 +89,15 @@ export function ProjectCheckIn({ projectId }: ProjectCheckInProps) {
     { enabled: isValidProjectId }
   );
 
+  const { data: project } = trpc.projects.getById.useQuery({ id: projectId }, { enabled: isValidProjectId });
+  const radiusMeters = getGeofenceRadius(project?.geofenceRadiusMeters);
+
   const checkInMutation = trpc.projects.checkIn.useMutation({
-    onSuccess: () => {
+    onSuccess: (result) => {
       utils.projects.getActiveCheckin.invalidate({ projectId });
       utils.projects.getCheckins.invalidate({ projectId });
       toast.success("Checked in successfully");
+      warnIfAway("Checked in", result);
       setIsCheckingIn(false);
     },
     onError: (error) => {
@@ -53,10 +107,11 @@ export function ProjectCheckIn({ projectId }: ProjectCheckInProps) {
   });
 
   const checkOutMutation = trpc.projects.checkOut.useMutation({
-    onSuccess: () => {
+    onSuccess: (result) => {
       utils.projects.getActiveCheckin.invalidate({ projectId });
       utils.projects.getCheckins.invalidate({ projectId });
       toast.success("Checked out successfully");
+      warnIfAway("Checked out", result);
       setIsCheckingOut(false);
     },
     onError: (error) => {
@@ -74,27 +129,11 @@ export function ProjectCheckIn({ projectId }: ProjectCheckInProps) {
     }
     setIsCheckingIn(true);
     try {
-      // Try to get geolocation (optional)
-      let latitude: number | undefined;
-      let longitude: number | undefined;
-
-      if (navigator.geolocation) {
-        try {
-          const position = await new Promise<GeolocationPosition>((resolve, reject) => {
-            navigator.geolocation.getCurrentPosition(resolve, reject, { timeout: 5000 });
-          });
-          latitude = position.coords.latitude;
-          longitude = position.coords.longitude;
-        } catch (error) {
-          // Geolocation failed, continue without it
-          console.log("Geolocation not available or denied");
-        }
-      }
-
+      // Geolocation is optional; without it the distance to the site isn't checked
+      const position = await getDevicePosition();
       await checkInMutation.mutateAsync({
         projectId,
-        latitude,
-        longitude,
+        ...position,
       });
     } catch (error) {
       // Error already handled in mutation
@@ -110,9 +149,41 @@ export function ProjectCheckIn({ projectId }: ProjectCheckInProps) {
     }
     if (!activeCheckin) return;
     setIsCheckingOut(true);
-    await checkOutMutation.mutateAsync({
-      projectId,
-    });
+    try {
+      const position = await getDevicePosition();
+      await checkOutMutation.mutateAsync({
+        projectId,
+        ...position,
+      });
+    } catch (error) {
+      // Error already handled in mutation
+    }
+  };
+
+  const geofence = useGeofence({
+    site: project?.geo ?? null,
+    radiusMeters,
+    enabled: siteReminders && isValidProjectId,
+    onTransition: (state) => {
+      if (state === "inside" && !activeCheckin) {
+        toast(`You arrived at ${project?.name ?? "the site"}`, {
+          description: "Check in to start tracking your time.",
+          duration: 60000,
+          action: { label: "Check in", onClick: () => void handleCheckIn() },
+        });
+      } else if (state === "outside" && activeCheckin) {
+        toast(`You left ${project?.name ?? "the site"}`, {
+          description: "Check out if you're done for now.",
+          duration: 60000,
+          action: { label: "Check out", onClick: () => void handleCheckOut() },
+        });
+      }
+    },
+  });
+
+  const toggleSiteReminders = (enabled: boolean) => {
+    setSiteReminders(enabled);
+    localStorage.setItem(SITE_REMINDERS_KEY, enabled ? "on" : "off");
   };
 
   const formatTime = (date: Date | null) => {
@@ -212,6 +283,30 @@ export function ProjectCheckIn({ projectId }: ProjectCheckInProps) {
               )}
             </Button>
           )}
+
+          {/* Site reminders */}
+          <div className="space-y-1 border-t pt-4">
+            <div className="flex items-center justify-between gap-2">
+              <Label htmlFor="site-reminders">Site reminders</Label>
+              <Switch
+                id="site-reminders"
+                checked={siteReminders}
+                disabled={!project?.geo}
+                onCheckedChange={toggleSiteReminders}
+              />
+            </div>
+            <p className="text-xs text-muted-foreground">
+              {!project?.geo
+                ? "Set the project's location to get reminded on arrival and departure."
+                : !siteReminders
+                  ? `Reminds you to check in or out within ${formatDistance(radiusMeters)} of the site while this page is open.`
+                  : geofence.error
+                    ? geofence.error
+                    : geofence.distance === null
+                      ? "Locating…"
+                      : `${geofence.state === "inside" ? "On site" : "Away from site"} (${formatDistance(geofence.distance)})`}
+            </p>
+          </div>
         </CardContent>
       </Card>
 
@@ -251,6 +346,22 @@ export function ProjectCheckIn({ projectId }: ProjectCheckInProps) {
                       <p className="text-xs text-muted-foreground">
                         Duration: {getDuration(checkin.checkInTime, checkin.checkOutTime)}
                       </p>
+                      {checkin.outsideGeofence && (
+                        <p className="flex items-center gap-1 text-xs text-yellow-700 dark:text-yellow-400">
+                          <MapPin className="h-3 w-3" />
+                          Away from site
+                          {[checkin.checkInDistanceMeters, checkin.checkOutDistanceMeters]
+                            .filter((meters): meters is number => meters !== null)
+                            .map((meters) => ` · ${formatDistance(meters)}`)
+                            .join("")}
+                        </p>
+                      )}
+                      {checkin.locationMissing && (
+                        <p className="flex items-center gap-1 text-xs text-yellow-700 dark:text-yellow-400">
+                          <MapPin className="h-3 w-3" />
+                          No location
+                        </p>
+                      )}
                     </div>
                     {checkin.checkOutTime ? (
                       <Badge variant="secondary" className="text-xs">
@@ -0,0 +1,126 @@
+/**
+ * ProjectCostCard Component
+ *
+ * Job costing of a project: net revenue from issued invoices, net costs of
+ * the assigned expenses and check-in hours, combined into the margin.
+ */
+
+import { Link } from "wouter";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { trpc } from "@/lib/trpc";
+import { formatCurrency } from "@/lib/currencyFormat";
+import { Loader2 } from "@/components/ui/Icon";
+import { cn } from "@/lib/utils";
+import { EXPENSE_CATEGORY_LABELS } from "@shared/expenseCategories";
+
+interface ProjectCostCardProps {
+  projectId: number;
+  jobs: Array<{ id: number; title: string }>;
+}
+
+const formatHours = (hours: number) =>
+  `${hours.toLocaleString("de-DE", { maximumFractionDigits: 2 })} h`;
+
+export function ProjectCostCard({ projectId, jobs }: ProjectCostCardProps) {
+  const { data: costs, isLoading } = trpc.projects.costs.useQuery({ projectId });
+
+  if (isLoading || !costs) {
+    return (
+      <Card>
+        <CardContent className="flex items-center justify-center py-12">
+          <Loader2 className="h-8 w-8 animate-spin text-primary" />
+        </CardContent>
+      </Card>
+    );
+  }
+
+  const jobTitles = new Map(jobs.map((job) => [job.id, job.title]));
+  const figures = [
+    { label: "Revenue (net)", value: formatCurrency(costs.revenue.net, "EUR"), hint: `${costs.revenue.invoiceCount} invoices` },
+    { label: "Costs (net)", value: formatCurrency(costs.costs.net, "EUR"), hint: `${costs.costs.lines.length} expense lines` },
+    {
+      label: "Hours",
+      value: formatHours(costs.hours.total),
+      hint: costs.hours.openCheckins > 0
+        ? `${costs.hours.checkinCount} check-ins, ${costs.hours.openCheckins} running`
+        : `${costs.hours.checkinCount} check-ins`,
+    },
+    {
+      label: "Margin",
+      value: formatCurrency(costs.margin, "EUR"),
+      hint: [
+        costs.marginPct !== null ? `${costs.marginPct.toLocaleString("de-DE")} %` : null,
+        costs.marginPerHour !== null ? `${formatCurrency(costs.marginPerHour, "EUR")} / h` : null,
+      ].filter(Boolean).join(" · ") || "No revenue yet",
+      negative: costs.margin < 0,
+    },
+  ];
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Project costs</CardTitle>
+        <CardDescription>
+          Issued invoices minus the business share of assigned expenses, excluding deductible VAT.
+          {costs.costs.pendingReviewCount > 0 &&
+            ` ${costs.costs.pendingReviewCount} expense lines still need review.`}
+          {costs.costs.unconvertedCount > 0 &&
+            ` ${costs.costs.unconvertedCount} foreign-currency expenses are left out until their exchange rate is entered.`}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-4">
+          {figures.map((figure) => (
+            <div key={figure.label} className="rounded-md border p-3">
+              <p className="text-sm text-muted-foreground">{figure.label}</p>
+              <p className={cn("text-xl font-medium", figure.negative && "text-destructive")}>{figure.value}</p>
+              <p className="text-xs text-muted-foreground">{figure.hint}</p>
+            </div>
+          ))}
+        </div>
+
+        {costs.costs.byCategory.length > 0 && (
+          <div className="space-y-2">
+            <h3 className="text-sm font-medium">Costs by category</h3>
+            {costs.costs.byCategory.map((entry) => (
+              <div key={entry.category ?? "none"} className="flex justify-between text-sm">
+                <span>{entry.category ? EXPENSE_CATEGORY_LABELS[entry.category] : "Uncategorized"}</span>
+                <span>{formatCurrency(entry.net, "EUR")}</span>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <div className="space-y-2">
+          <h3 className="text-sm font-medium">Expenses</h3>
+          {costs.costs.lines.length === 0 ? (
+            <p className="text-sm text-muted-foreground">
+              No expenses assigned yet. Assign them to this project on the expense page.
+            </p>
+          ) : (
+            costs.costs.lines.map((line, index) => (
+              <Link key={`${line.expenseId}-${index}`} href={`/expenses/${line.expenseId}`}>
+                <div className="flex items-center justify-between gap-2 rounded-md border p-2 text-sm hover:bg-muted/50 cursor-pointer">
+                  <div className="min-w-0">
+                    <p className="truncate">{line.supplierName}</p>
+                    <p className="text-xs text-muted-foreground">
+                      {new Date(line.expenseDate).toLocaleDateString()}
+                      {line.category && ` · ${EXPENSE_CATEGORY_LABELS[line.category]}`}
+                      {line.jobId !== null && jobTitles.has(line.jobId) && ` · ${jobTitles.get(line.jobId)}`}
+                    </p>
+                  </div>
+                  <div className="flex shrink-0 items-center gap-2">
+                    {line.isSplit && <Badge variant="outline">Split</Badge>}
+                    {line.status === "needs_review" && <Badge variant="secondary">Review</Badge>}
+                    <span>{formatCurrency(line.net, "EUR")}</span>
+                  </div>
+                </div>
+              </Link>
+            ))
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,130 @@
+/**
+ * ProjectMembersCard Component
+ *
+ * Workspace members working on a project. Foremen and field workers only
+ * see the projects they're members of; assigning them to a job adds them too.
+ */
+
+import { useState } from "react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { trpc } from "@/lib/trpc";
+import { toast } from "sonner";
+import { Plus, Users, X } from "@/components/ui/Icon";
+import { WORKSPACE_ROLE_LABELS, getRoleAccess, isLimitedToProjectMembership } from "@shared/workspaces";
+
+interface ProjectMembersCardProps {
+  projectId: number;
+}
+
+export function ProjectMembersCard({ projectId }: ProjectMembersCardProps) {
+  const utils = trpc.useUtils();
+  const [selectedUserId, setSelectedUserId] = useState("");
+  const { data: current } = trpc.workspaces.current.useQuery();
+  const { data: workspaceMembers = [] } = trpc.workspaces.members.useQuery(undefined, { enabled: !!current });
+  const { data: members = [] } = trpc.projects.members.list.useQuery({ projectId }, { enabled: !!current });
+
+  const invalidate = () => utils.projects.members.list.invalidate({ projectId });
+  const addMutation = trpc.projects.members.add.useMutation({
+    onSuccess: () => {
+      toast.success("Member added to the project");
+      setSelectedUserId("");
+      invalidate();
+    },
+    onError: (error) => toast.error(error.message || "Failed to add member"),
+  });
+  const removeMutation = trpc.projects.members.remove.useMutation({
+    onSuccess: () => {
+      toast.success("Member removed from the project");
+      invalidate();
+    },
+    onError: (error) => toast.error(error.message || "Failed to remove member"),
+  });
+
+  if (!current) return null;
+
+  const canEdit = getRoleAccess(current.role, "projects") === "edit";
+  const memberIds = new Set(members.map((member) => member.userId));
+  const roleByUser = new Map(workspaceMembers.map((member) => [member.userId, member.role]));
+  const candidates = workspaceMembers.filter(
+    (member) => member.role !== "owner" && !memberIds.has(member.userId)
+  );
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center gap-2">
+          <Users className="h-5 w-5 text-primary" />
+          <CardTitle>Project members</CardTitle>
+        </div>
+        <CardDescription>
+          Owner, office and accountants see every project; foremen and field workers only those listed here.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {members.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No members yet.</p>
+        ) : (
+          members.map((member) => {
+            const role = roleByUser.get(member.userId);
+            return (
+              <div key={member.userId} className="flex items-center justify-between gap-2 text-sm">
+                <span className="truncate">{member.name || member.email || `User ${member.userId}`}</span>
+                <div className="flex items-center gap-1">
+                  {role && (
+                    <Badge variant={isLimitedToProjectMembership(role) ? "default" : "outline"}>
+                      {WORKSPACE_ROLE_LABELS[role]}
+                    </Badge>
+                  )}
+                  {canEdit && (
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-8 w-8"
+                      disabled={removeMutation.isPending}
+                      onClick={() => removeMutation.mutate({ projectId, userId: member.userId })}
+                    >
+                      <X className="w-4 h-4" />
+                    </Button>
+                  )}
+                </div>
+              </div>
+            );
+          })
+        )}
+
+        {canEdit && candidates.length > 0 && (
+          <div className="flex gap-2 border-t border-border pt-3">
+            <Select value={selectedUserId} onValueChange={setSelectedUserId}>
+              <SelectTrigger className="flex-1">
+                <SelectValue placeholder="Add a workspace member" />
+              </SelectTrigger>
+              <SelectContent>
+                {candidates.map((member) => (
+                  <SelectItem key={member.userId} value={String(member.userId)}>
+                    {member.name || member.email} · {WORKSPACE_ROLE_LABELS[member.role]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button
+              onClick={() => addMutation.mutate({ projectId, userId: Number(selectedUserId) })}
+              disabled={!selectedUserId || addMutation.isPending}
+            >
+              <Plus className="w-4 h-4 mr-1" />
+              Add
+            </Button>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
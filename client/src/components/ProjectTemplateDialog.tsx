@@ -0,0 +1,398 @@
+/**
+ * ProjectTemplateDialog Component
+ *
+ * Create or edit a project template: jobs with category, checklist and day
+ * offsets from the project start, default tags, inspection templates and
+ * the standard line items that become a draft quote.
+ */
+
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { trpc } from "@/lib/trpc";
+import type { InspectionTemplate } from "drizzle/schema";
+import { toast } from "sonner";
+import { Loader2, Plus, Trash2 } from "@/components/ui/Icon";
+import {
+  MAX_TEMPLATE_OFFSET_DAYS,
+  normalizeTags,
+  validateTemplateJob,
+  type ProjectTemplateJob,
+  type ProjectTemplateLineItem,
+} from "@shared/projectTemplates";
+
+interface JobDraft {
+  title: string;
+  category: string;
+  description: string;
+  /** One checklist item per line */
+  checklist: string;
+  startOffsetDays: string;
+  endOffsetDays: string;
+}
+
+interface LineItemDraft {
+  name: string;
+  quantity: string;
+  unitPrice: string;
+  /** Empty uses the company's default VAT rate */
+  vatRate: string;
+}
+
+export interface ProjectTemplateDialogTemplate {
+  id: number;
+  name: string;
+  description: string | null;
+  jobs: ProjectTemplateJob[];
+  tags: string[];
+  inspectionTemplateIds: number[];
+  lineItems: ProjectTemplateLineItem[];
+}
+
+interface ProjectTemplateDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  /** Template to edit; a new one is created without */
+  template?: ProjectTemplateDialogTemplate | null;
+}
+
+const emptyJob = (): JobDraft => ({
+  title: "",
+  category: "",
+  description: "",
+  checklist: "",
+  startOffsetDays: "0",
+  endOffsetDays: "0",
+});
+
+const emptyLineItem = (): LineItemDraft => ({ name: "", quantity: "1", unitPrice: "0", vatRate: "" });
+
+const toJobDraft = (job: ProjectTemplateJob): JobDraft => ({
+  title: job.title,
+  category: job.category ?? "",
+  description: job.description ?? "",
+  checklist: job.checklist.join("\n"),
+  startOffsetDays: String(job.startOffsetDays),
+  endOffsetDays: String(job.endOffsetDays),
+});
+
+const toLineItemDraft = (item: ProjectTemplateLineItem): LineItemDraft => ({
+  name: item.name,
+  quantity: String(item.quantity),
+  unitPrice: String(item.unitPrice),
+  vatRate: item.vatRate === null ? "" : String(item.vatRate),
+});
+
+const parseNumber = (value: string) => Number(value.replace(",", "."));
+
+export function ProjectTemplateDialog({ open, onOpenChange, template }: ProjectTemplateDialogProps) {
+  const utils = trpc.useUtils();
+  const [name, setName] = useState("");
+  const [description, setDescription] = useState("");
+  const [jobs, setJobs] = useState<JobDraft[]>([]);
+  const [tags, setTags] = useState("");
+  const [inspectionTemplateIds, setInspectionTemplateIds] = useState<number[]>([]);
+  const [lineItems, setLineItems] = useState<LineItemDraft[]>([]);
+
+  const { data: inspectionTemplates = [] } = trpc.inspections.templates.list.useQuery(undefined, {
+    enabled: open,
+  });
+
+  useEffect(() => {
+    if (!open) return;
+    setName(template?.name ?? "");
+    setDescription(template?.description ?? "");
+    setJobs(template ? template.jobs.map(toJobDraft) : [emptyJob()]);
+    setTags(template?.tags.join(", ") ?? "");
+    setInspectionTemplateIds(template?.inspectionTemplateIds ?? []);
+    setLineItems(template ? template.lineItems.map(toLineItemDraft) : []);
+  }, [open, template]);
+
+  const onSuccess = () => {
+    toast.success(template ? "Template updated" : "Template created");
+    utils.projectTemplates.list.invalidate();
+    onOpenChange(false);
+  };
+  const onError = (error: { message: string }) => toast.error(error.message || "Failed to save template");
+  const createMutation = trpc.projectTemplates.create.useMutation({ onSuccess, onError });
+  const updateMutation = trpc.projectTemplates.update.useMutation({ onSuccess, onError });
+  const isSaving = createMutation.isPending || updateMutation.isPending;
+
+  const updateJob = (index: number, patch: Partial<JobDraft>) =>
+    setJobs((current) => current.map((job, i) => (i === index ? { ...job, ...patch } : job)));
+  const updateLineItem = (index: number, patch: Partial<LineItemDraft>) =>
+    setLineItems((current) => current.map((item, i) => (i === index ? { ...item, ...patch } : item)));
+  const toggleInspectionTemplate = (id: number, checked: boolean) =>
+    setInspectionTemplateIds((current) =>
+      checked ? [...current, id] : current.filter((existing) => existing !== id)
+    );
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim()) {
+      toast.error("Template name is required");
+      return;
+    }
+
+    const templateJobs: ProjectTemplateJob[] = jobs
+      .filter((job) => job.title.trim())
+      .map((job) => ({
+        title: job.title.trim(),
+        category: job.category.trim() || null,
+        description: job.description.trim() || null,
+        checklist: job.checklist.split("\n").map((item) => item.trim()).filter(Boolean),
+        startOffsetDays: parseInt(job.startOffsetDays, 10) || 0,
+        endOffsetDays: parseInt(job.endOffsetDays, 10) || 0,
+      }));
+    for (const job of templateJobs) {
+      const error = validateTemplateJob(job);
+      if (error) {
+        toast.error(error);
+        return;
+      }
+    }
+
+    const templateLineItems: ProjectTemplateLineItem[] = lineItems
+      .filter((item) => item.name.trim())
+      .map((item) => ({
+        name: item.name.trim(),
+        description: null,
+        category: null,
+        quantity: parseNumber(item.quantity),
+        unitPrice: parseNumber(item.unitPrice),
+        vatRate: item.vatRate.trim() ? parseNumber(item.vatRate) : null,
+      }));
+    if (templateLineItems.some((item) => !(item.quantity > 0) || !(item.unitPrice >= 0))) {
+      toast.error("Line items need a quantity above 0 and a price");
+      return;
+    }
+
+    const data = {
+      name: name.trim(),
+      description: description.trim() || null,
+      jobs: templateJobs,
+      tags: normalizeTags(tags.split(",")),
+      inspectionTemplateIds,
+      lineItems: templateLineItems,
+    };
+    if (template) {
+      updateMutation.mutate({ id: template.id, ...data });
+    } else {
+      createMutation.mutate(data);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[720px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{template ? "Edit Template" : "New Template"}</DialogTitle>
+          <DialogDescription>
+            Days count from the project start, so day 0 is the first day of the project.
+          </DialogDescription>
+        </DialogHeader>
+        <form onSubmit={handleSubmit} className="space-y-6">
+          <div className="grid gap-4">
+            <div className="grid gap-2">
+              <Label htmlFor="template-name">Name *</Label>
+              <Input
+                id="template-name"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder="e.g., Anchor testing"
+                required
+              />
+            </div>
+            <div className="grid gap-2">
+              <Label htmlFor="template-description">Description</Label>
+              <Textarea
+                id="template-description"
+                value={description}
+                onChange={(e) => setDescription(e.target.value)}
+                placeholder="Used as project description unless one is entered"
+                rows={2}
+              />
+            </div>
+            <div className="grid gap-2">
+              <Label htmlFor="template-tags">Tags</Label>
+              <Input
+                id="template-tags"
+                value={tags}
+                onChange={(e) => setTags(e.target.value)}
+                placeholder="e.g., Facade, Annual"
+              />
+              <p className="text-xs text-muted-foreground">Separate tags with commas.</p>
+            </div>
+          </div>
+
+          <div className="space-y-3">
+            <div className="flex items-center justify-between">
+              <Label>Jobs</Label>
+              <Button type="button" variant="outline" size="sm" onClick={() => setJobs((current) => [...current, emptyJob()])}>
+                <Plus className="w-4 h-4 mr-1" />
+                Add job
+              </Button>
+            </div>
+            {jobs.length === 0 && <p className="text-sm text-muted-foreground">No jobs yet.</p>}
+            {jobs.map((job, index) => (
+              <div key={index} className="rounded-md border border-border p-3 space-y-3">
+                <div className="flex gap-2">
+                  <Input
+                    value={job.title}
+                    onChange={(e) => updateJob(index, { title: e.target.value })}
+                    placeholder="Job title"
+                    className="flex-1"
+                  />
+                  <Input
+                    value={job.category}
+                    onChange={(e) => updateJob(index, { category: e.target.value })}
+                    placeholder="Category"
+                    className="w-40"
+                  />
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => setJobs((current) => current.filter((_, i) => i !== index))}
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                </div>
+                <div className="grid grid-cols-2 gap-2">
+                  <div className="grid gap-1">
+                    <Label className="text-xs text-muted-foreground">Start day</Label>
+                    <Input
+                      type="number"
+                      min={0}
+                      max={MAX_TEMPLATE_OFFSET_DAYS}
+                      value={job.startOffsetDays}
+                      onChange={(e) => updateJob(index, { startOffsetDays: e.target.value })}
+                    />
+                  </div>
+                  <div className="grid gap-1">
+                    <Label className="text-xs text-muted-foreground">End day</Label>
+                    <Input
+                      type="number"
+                      min={0}
+                      max={MAX_TEMPLATE_OFFSET_DAYS}
+                      value={job.endOffsetDays}
+                      onChange={(e) => updateJob(index, { endOffsetDays: e.target.value })}
+                    />
+                  </div>
+                </div>
+                <Textarea
+                  value={job.description}
+                  onChange={(e) => updateJob(index, { description: e.target.value })}
+                  placeholder="Description"
+                  rows={2}
+                />
+                <Textarea
+                  value={job.checklist}
+                  onChange={(e) => updateJob(index, { checklist: e.target.value })}
+                  placeholder="Checklist, one item per line"
+                  rows={3}
+                />
+              </div>
+            ))}
+          </div>
+
+          {inspectionTemplates.length > 0 && (
+            <div className="space-y-3">
+              <Label>Inspections</Label>
+              {inspectionTemplates.map((inspectionTemplate: InspectionTemplate) => (
+                <div key={inspectionTemplate.id} className="flex items-center gap-3">
+                  <Checkbox
+                    id={`inspection-template-${inspectionTemplate.id}`}
+                    checked={inspectionTemplateIds.includes(inspectionTemplate.id)}
+                    onCheckedChange={(checked) => toggleInspectionTemplate(inspectionTemplate.id, checked === true)}
+                  />
+                  <Label htmlFor={`inspection-template-${inspectionTemplate.id}`} className="font-normal cursor-pointer">
+                    {inspectionTemplate.name}
+                  </Label>
+                </div>
+              ))}
+            </div>
+          )}
+
+          <div className="space-y-3">
+            <div className="flex items-center justify-between">
+              <Label>Standard line items</Label>
+              <Button
+                type="button"
+                variant="outline"
+                size="sm"
+                onClick={() => setLineItems((current) => [...current, emptyLineItem()])}
+              >
+                <Plus className="w-4 h-4 mr-1" />
+                Add item
+              </Button>
+            </div>
+            <p className="text-xs text-muted-foreground">
+              Line items become a draft quote for the new project. Leave VAT empty for the default rate.
+            </p>
+            {lineItems.map((item, index) => (
+              <div key={index} className="flex gap-2">
+                <Input
+                  value={item.name}
+                  onChange={(e) => updateLineItem(index, { name: e.target.value })}
+                  placeholder="Item"
+                  className="flex-1"
+                />
+                <Input
+                  value={item.quantity}
+                  onChange={(e) => updateLineItem(index, { quantity: e.target.value })}
+                  placeholder="Qty"
+                  inputMode="decimal"
+                  className="w-20"
+                />
+                <Input
+                  value={item.unitPrice}
+                  onChange={(e) => updateLineItem(index, { unitPrice: e.target.value })}
+                  placeholder="Price €"
+                  inputMode="decimal"
+                  className="w-24"
+                />
+                <Input
+                  value={item.vatRate}
+                  onChange={(e) => updateLineItem(index, { vatRate: e.target.value })}
+                  placeholder="VAT %"
+                  inputMode="decimal"
+                  className="w-20"
+                />
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => setLineItems((current) => current.filter((_, i) => i !== index))}
+                >
+                  <Trash2 className="w-4 h-4" />
+                </Button>
+              </div>
+            ))}
+          </div>
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={isSaving}>
+              {isSaving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              {template ? "Save Template" : "Create Template"}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
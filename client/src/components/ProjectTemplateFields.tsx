@@ -0,0 +1,106 @@
+/**
+ * ProjectTemplateFields Component
+ *
+ * Template picker for the new project forms. With a template chosen the
+ * project gets the template's jobs, tags, inspections and standard line
+ * items, placed relative to the start date entered here.
+ */
+
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { trpc } from "@/lib/trpc";
+import { addDays } from "@shared/recurringInvoice";
+import { getTemplateSpanDays } from "@shared/projectTemplates";
+
+const NO_TEMPLATE_VALUE = "none";
+
+const formatDate = (value: Date) =>
+  value.toLocaleDateString("de-DE", { day: "2-digit", month: "2-digit", year: "numeric" });
+
+/** Start date of a `yyyy-mm-dd` input as local midnight */
+export const parseTemplateStartDate = (value: string) => new Date(`${value}T00:00:00`);
+
+interface ProjectTemplateFieldsProps {
+  templateId: number | null;
+  onTemplateChange: (templateId: number | null) => void;
+  startDate: string;
+  onStartDateChange: (value: string) => void;
+  enabled?: boolean;
+}
+
+export function ProjectTemplateFields({
+  templateId,
+  onTemplateChange,
+  startDate,
+  onStartDateChange,
+  enabled = true,
+}: ProjectTemplateFieldsProps) {
+  const { data: templates = [] } = trpc.projectTemplates.list.useQuery(undefined, { enabled });
+  const selected = templates.find((template) => template.id === templateId);
+
+  if (templates.length === 0) return null;
+
+  const endDate = selected && startDate
+    ? addDays(parseTemplateStartDate(startDate), getTemplateSpanDays(selected.jobs))
+    : null;
+
+  return (
+    <>
+      <div className="grid gap-2">
+        <Label htmlFor="project-template">Template</Label>
+        <Select
+          value={templateId?.toString() ?? NO_TEMPLATE_VALUE}
+          onValueChange={(value) => onTemplateChange(value === NO_TEMPLATE_VALUE ? null : Number(value))}
+        >
+          <SelectTrigger id="project-template">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={NO_TEMPLATE_VALUE}>Blank project</SelectItem>
+            {templates.map((template) => (
+              <SelectItem key={template.id} value={template.id.toString()}>
+                {template.name}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+      {selected && (
+        <div className="grid gap-2">
+          <Label htmlFor="template-start-date">Start Date *</Label>
+          <Input
+            id="template-start-date"
+            type="date"
+            value={startDate}
+            onChange={(e) => onStartDateChange(e.target.value)}
+            required
+          />
+          <div className="rounded-md border border-border p-3 text-sm text-muted-foreground space-y-2">
+            <p>
+              {selected.jobs.length} {selected.jobs.length === 1 ? "job" : "jobs"}
+              {selected.inspectionTemplateIds.length > 0 &&
+                ` · ${selected.inspectionTemplateIds.length} ${selected.inspectionTemplateIds.length === 1 ? "inspection" : "inspections"}`}
+              {selected.lineItems.length > 0 && ` · draft quote with ${selected.lineItems.length} line items`}
+              {endDate && ` · ends ${formatDate(endDate)}`}
+            </p>
+            {selected.tags.length > 0 && (
+              <div className="flex flex-wrap gap-1">
+                {selected.tags.map((tag) => (
+                  <Badge key={tag} variant="outline">{tag}</Badge>
+                ))}
+              </div>
+            )}
+          </div>
+        </div>
+      )}
+    </>
+  );
+}
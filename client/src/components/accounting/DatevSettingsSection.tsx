@@ -0,0 +1,164 @@
+/**
+ * DatevSettingsSection - consultant/client number, chart of accounts and
+ * account overrides for the DATEV export
+ */
+
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Separator } from "@/components/ui/separator";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { trpc } from "@/lib/trpc";
+import { Loader2, Save } from "@/components/ui/Icon";
+import { toast } from "sonner";
+import {
+  DATEV_ACCOUNT_KEYS,
+  DATEV_ACCOUNT_LABELS,
+  DATEV_BALANCE_ACCOUNT_KEYS,
+  DATEV_CHARTS,
+  DATEV_REVENUE_ACCOUNT_KEYS,
+  DEFAULT_DATEV_ACCOUNTS,
+  isDatevChart,
+  type DatevAccountKey,
+  type DatevChart,
+} from "@shared/datev";
+import { EXPENSE_CATEGORIES } from "@shared/expenseCategories";
+
+const ACCOUNT_GROUPS: Array<{ title: string; keys: readonly DatevAccountKey[] }> = [
+  { title: "Revenue", keys: DATEV_REVENUE_ACCOUNT_KEYS },
+  { title: "Expense categories", keys: EXPENSE_CATEGORIES },
+  { title: "Balance accounts", keys: DATEV_BALANCE_ACCOUNT_KEYS },
+];
+
+export function DatevSettingsSection() {
+  const utils = trpc.useUtils();
+  const { data: settings, isLoading } = trpc.settings.get.useQuery();
+  const [chart, setChart] = useState<DatevChart>("SKR03");
+  const [consultantNumber, setConsultantNumber] = useState("");
+  const [clientNumber, setClientNumber] = useState("");
+  const [accounts, setAccounts] = useState<Record<string, string>>({});
+
+  useEffect(() => {
+    if (settings) {
+      setChart(isDatevChart(settings.datevChartOfAccounts) ? settings.datevChartOfAccounts : "SKR03");
+      setConsultantNumber(settings.datevConsultantNumber || "");
+      setClientNumber(settings.datevClientNumber || "");
+      setAccounts(settings.datevAccounts || {});
+    }
+  }, [settings]);
+
+  const updateMutation = trpc.settings.update.useMutation({
+    onSuccess: async () => {
+      toast.success("DATEV settings saved");
+      await utils.settings.get.invalidate();
+    },
+    onError: (error) => toast.error(error.message || "Failed to save DATEV settings"),
+  });
+
+  const handleSave = () => {
+    const overrides: Record<string, string> = {};
+    for (const key of DATEV_ACCOUNT_KEYS) {
+      const account = accounts[key]?.trim();
+      // Entries equal to the chart default are not stored, so switching charts keeps working
+      if (account && account !== DEFAULT_DATEV_ACCOUNTS[chart][key]) overrides[key] = account;
+    }
+    updateMutation.mutate({
+      datevChartOfAccounts: chart,
+      datevConsultantNumber: consultantNumber,
+      datevClientNumber: clientNumber,
+      datevAccounts: overrides,
+    });
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center py-6">
+        <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="grid gap-4 md:grid-cols-3">
+        <div className="space-y-2">
+          <Label htmlFor="datevConsultantNumber">Beraternummer</Label>
+          <Input
+            id="datevConsultantNumber"
+            inputMode="numeric"
+            value={consultantNumber}
+            onChange={(e) => setConsultantNumber(e.target.value.replace(/\D/g, ""))}
+            placeholder="1234567"
+            maxLength={7}
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="datevClientNumber">Mandantennummer</Label>
+          <Input
+            id="datevClientNumber"
+            inputMode="numeric"
+            value={clientNumber}
+            onChange={(e) => setClientNumber(e.target.value.replace(/\D/g, ""))}
+            placeholder="10001"
+            maxLength={5}
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="datevChart">Chart of accounts</Label>
+          <Select value={chart} onValueChange={(value) => setChart(value as DatevChart)}>
+            <SelectTrigger id="datevChart">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {DATEV_CHARTS.map((value) => (
+                <SelectItem key={value} value={value}>
+                  {value}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      {ACCOUNT_GROUPS.map((group) => (
+        <div key={group.title} className="space-y-4">
+          <Separator />
+          <p className="text-sm font-medium">{group.title}</p>
+          <div className="grid gap-4 grid-cols-2 md:grid-cols-3">
+            {group.keys.map((key) => (
+              <div key={key} className="space-y-2">
+                <Label htmlFor={`datev-account-${key}`} className="text-xs">
+                  {DATEV_ACCOUNT_LABELS[key]}
+                </Label>
+                <Input
+                  id={`datev-account-${key}`}
+                  inputMode="numeric"
+                  value={accounts[key] ?? ""}
+                  onChange={(e) => setAccounts((prev) => ({ ...prev, [key]: e.target.value.replace(/\D/g, "") }))}
+                  placeholder={DEFAULT_DATEV_ACCOUNTS[chart][key]}
+                  maxLength={5}
+                />
+              </div>
+            ))}
+          </div>
+        </div>
+      ))}
+
+      <p className="text-xs text-muted-foreground">
+        Leave an account empty to use the {chart} standard account shown as placeholder.
+      </p>
+
+      <div className="flex justify-end">
+        <Button type="button" onClick={handleSave} disabled={updateMutation.isPending}>
+          {updateMutation.isPending ? (
+            <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+          ) : (
+            <Save className="h-4 w-4 mr-2" />
+          )}
+          Save DATEV Settings
+        </Button>
+      </div>
+    </div>
+  );
+}
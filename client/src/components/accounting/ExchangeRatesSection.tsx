@@ -0,0 +1,103 @@
+/**
+ * ExchangeRatesSection - import of the ECB euro reference rates used to
+ * convert foreign-currency expenses
+ */
+
+import { useRef } from "react";
+import { Button } from "@/components/ui/button";
+import { trpc } from "@/lib/trpc";
+import { Loader2, Upload } from "@/components/ui/Icon";
+import { toast } from "sonner";
+
+function fileToBase64(file: File): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve((reader.result as string).split(",")[1] ?? "");
+    reader.onerror = reject;
+    reader.readAsDataURL(file);
+  });
+}
+
+const formatDate = (value: string) =>
+  new Date(`${value}T00:00:00`).toLocaleDateString("de-DE", { day: "2-digit", month: "2-digit", year: "numeric" });
+
+export function ExchangeRatesSection() {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const utils = trpc.useUtils();
+  const { data: coverage = [], isLoading } = trpc.exchangeRates.coverage.useQuery();
+
+  const importMutation = trpc.exchangeRates.import.useMutation({
+    onSuccess: (result) => {
+      toast.success(
+        `${result.rateCount} rates for ${result.currencyCount} currencies imported` +
+          (result.convertedExpenses > 0
+            ? `, ${result.convertedExpenses} expense${result.convertedExpenses === 1 ? "" : "s"} converted`
+            : "")
+      );
+      if (result.unconvertedExpenses > 0) {
+        toast.warning(
+          `${result.unconvertedExpenses} expense${result.unconvertedExpenses === 1 ? " is" : "s are"} still missing a rate`
+        );
+      }
+      utils.exchangeRates.coverage.invalidate();
+      utils.expenses.invalidate();
+    },
+    onError: (error) => toast.error(error.message || "Failed to import exchange rates"),
+  });
+
+  const handleFileSelected = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (!file) return;
+    try {
+      const base64Data = await fileToBase64(file);
+      importMutation.mutate({ filename: file.name, base64Data });
+    } catch {
+      toast.error("Could not read the file");
+    }
+  };
+
+  const firstDate = coverage.reduce<string | null>(
+    (min, row) => (min === null || row.firstDate < min ? row.firstDate : min),
+    null
+  );
+  const lastDate = coverage.reduce<string | null>(
+    (max, row) => (max === null || row.lastDate > max ? row.lastDate : max),
+    null
+  );
+
+  return (
+    <div className="space-y-4">
+      <p className="text-sm text-muted-foreground">
+        Download the reference rates from the ECB website (eurofxref-hist.csv or eurofxref-daily.xml, unzipped) and
+        import them here. Expenses in other currencies are converted with the rate of their expense date.
+      </p>
+
+      {isLoading ? (
+        <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+      ) : coverage.length === 0 ? (
+        <p className="text-sm">No rates imported yet.</p>
+      ) : (
+        <p className="text-sm">
+          {coverage.length} currencies from {firstDate && formatDate(firstDate)} to {lastDate && formatDate(lastDate)}
+        </p>
+      )}
+
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept=".csv,.xml"
+        className="hidden"
+        onChange={handleFileSelected}
+      />
+      <Button variant="outline" onClick={() => fileInputRef.current?.click()} disabled={importMutation.isPending}>
+        {importMutation.isPending ? (
+          <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+        ) : (
+          <Upload className="mr-2 h-4 w-4" />
+        )}
+        Import ECB rates
+      </Button>
+    </div>
+  );
+}
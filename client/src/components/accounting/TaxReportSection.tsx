@@ -0,0 +1,287 @@
+/**
+ * TaxReportSection - EÜR result, VAT and UStVA Kennzahlen of a month,
+ * quarter or year, following the accounting and VAT method from the settings
+ */
+
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { trpc } from "@/lib/trpc";
+import { formatCurrency } from "@/lib/currencyFormat";
+import { AlertTriangle, Download, FileText, Loader2 } from "@/components/ui/Icon";
+import { toast } from "sonner";
+import { formatVatLabel } from "@shared/invoiceVat";
+import {
+  TAX_REPORT_PERIOD_TYPES,
+  TAX_REPORT_PERIOD_TYPE_LABELS,
+  type TaxReportPeriodType,
+} from "@shared/taxReport";
+
+const MONTH_LABELS = Array.from({ length: 12 }, (_, i) =>
+  new Date(2000, i, 1).toLocaleDateString("en-US", { month: "long" })
+);
+
+function downloadBlob(blob: Blob, filename: string) {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+}
+
+/** The last completed month or quarter, where reports are usually due */
+function getInitialPeriod(type: TaxReportPeriodType) {
+  const now = new Date();
+  if (type === "month") {
+    const previous = new Date(now.getFullYear(), now.getMonth() - 1, 1);
+    return { year: previous.getFullYear(), index: previous.getMonth() + 1 };
+  }
+  if (type === "quarter") {
+    const quarter = Math.floor(now.getMonth() / 3);
+    return quarter === 0 ? { year: now.getFullYear() - 1, index: 4 } : { year: now.getFullYear(), index: quarter };
+  }
+  return { year: now.getFullYear(), index: 1 };
+}
+
+export function TaxReportSection() {
+  const [type, setType] = useState<TaxReportPeriodType>("quarter");
+  const [year, setYear] = useState(() => getInitialPeriod("quarter").year);
+  const [index, setIndex] = useState(() => getInitialPeriod("quarter").index);
+  const [isDownloadingPdf, setIsDownloadingPdf] = useState(false);
+
+  const input = { type, year, index };
+  const { data: report, isLoading } = trpc.taxReport.period.useQuery(input);
+
+  const csvMutation = trpc.taxReport.exportCsv.useMutation({
+    onSuccess: (result) => {
+      downloadBlob(new Blob([result.content], { type: "text/csv;charset=utf-8" }), result.filename);
+    },
+    onError: (error) => toast.error(error.message || "CSV export failed"),
+  });
+
+  const currentYear = new Date().getFullYear();
+  const years = Array.from({ length: 6 }, (_, i) => currentYear - i);
+
+  const changeType = (value: TaxReportPeriodType) => {
+    const initial = getInitialPeriod(value);
+    setType(value);
+    setYear(initial.year);
+    setIndex(initial.index);
+  };
+
+  const handleDownloadPdf = async () => {
+    setIsDownloadingPdf(true);
+    try {
+      const { data: { session } } = await import("@/lib/supabase").then(m => m.supabase.auth.getSession());
+      if (!session?.access_token) {
+        toast.error("Please log in to download the report");
+        return;
+      }
+      const params = new URLSearchParams({ type, year: String(year), index: String(index) });
+      const response = await fetch(`/api/tax-report/pdf?${params}`, {
+        headers: {
+          "Authorization": `Bearer ${session.access_token}`,
+        },
+        credentials: "include",
+      });
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({ error: "Unknown error" }));
+        toast.error(errorData.error || "Failed to generate PDF");
+        return;
+      }
+      const disposition = response.headers.get("Content-Disposition") ?? "";
+      const filename = /filename="([^"]+)"/.exec(disposition)?.[1] ?? "steuerbericht.pdf";
+      downloadBlob(await response.blob(), filename);
+    } catch (error) {
+      console.error("Tax report PDF error:", error);
+      toast.error("Failed to download PDF");
+    } finally {
+      setIsDownloadingPdf(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center gap-2">
+          <FileText className="h-5 w-5 text-primary" />
+          <CardTitle>Tax Report</CardTitle>
+        </div>
+        <CardDescription>
+          Revenue, input and output VAT of a period with the UStVA Kennzahlen
+          {report && (
+            <>
+              {" "}· {report.accountingMethod === "EÜR" ? "EÜR" : "Bilanz"},{" "}
+              {report.isKleinunternehmer ? "Kleinunternehmer" : `${report.vatMethod === "IST" ? "Ist" : "Soll"}-Versteuerung`}
+            </>
+          )}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid gap-4 md:grid-cols-3">
+          <div className="space-y-2">
+            <Label htmlFor="taxReportType">Period</Label>
+            <Select value={type} onValueChange={(value) => changeType(value as TaxReportPeriodType)}>
+              <SelectTrigger id="taxReportType">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {TAX_REPORT_PERIOD_TYPES.map((value) => (
+                  <SelectItem key={value} value={value}>
+                    {TAX_REPORT_PERIOD_TYPE_LABELS[value]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="taxReportYear">Year</Label>
+            <Select value={String(year)} onValueChange={(value) => setYear(Number(value))}>
+              <SelectTrigger id="taxReportYear">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {years.map((value) => (
+                  <SelectItem key={value} value={String(value)}>
+                    {value}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          {type !== "year" && (
+            <div className="space-y-2">
+              <Label htmlFor="taxReportIndex">{type === "month" ? "Month" : "Quarter"}</Label>
+              <Select value={String(index)} onValueChange={(value) => setIndex(Number(value))}>
+                <SelectTrigger id="taxReportIndex">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(type === "month" ? MONTH_LABELS : ["Q1", "Q2", "Q3", "Q4"]).map((label, i) => (
+                    <SelectItem key={label} value={String(i + 1)}>
+                      {label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+        </div>
+
+        {isLoading || !report ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+          </div>
+        ) : (
+          <>
+            <div className="grid gap-3 sm:grid-cols-3">
+              <div className="rounded-lg border p-3">
+                <p className="text-xs text-muted-foreground">Income ({report.income.invoiceCount} invoices)</p>
+                <p className="text-lg font-semibold">{formatCurrency(report.income.net)}</p>
+              </div>
+              <div className="rounded-lg border p-3">
+                <p className="text-xs text-muted-foreground">Expenses ({report.expenses.expenseCount} receipts)</p>
+                <p className="text-lg font-semibold">{formatCurrency(report.expenses.net)}</p>
+              </div>
+              <div className="rounded-lg border p-3">
+                <p className="text-xs text-muted-foreground">Result (net)</p>
+                <p className="text-lg font-semibold">{formatCurrency(report.result)}</p>
+              </div>
+            </div>
+
+            {report.unconvertedExpenses.length > 0 && (
+              <div className="flex items-start gap-2 rounded-md border border-yellow-500/30 bg-yellow-500/10 p-3 text-sm">
+                <AlertTriangle className="mt-0.5 h-4 w-4 shrink-0 text-yellow-700 dark:text-yellow-400" />
+                <div className="space-y-1">
+                  <p>
+                    {report.unconvertedExpenses.length} foreign-currency expense
+                    {report.unconvertedExpenses.length === 1 ? " is" : "s are"} missing from the figures because
+                    no EUR amount is known. Import the ECB rates or enter the rate on the expense.
+                  </p>
+                  <ul className="text-muted-foreground">
+                    {report.unconvertedExpenses.map((expense) => (
+                      <li key={expense.id}>
+                        {new Date(expense.expenseDate).toLocaleDateString("de-DE")} · {expense.supplierName} ·{" "}
+                        {(expense.grossAmountCents / 100).toFixed(2)} {expense.currency}
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              </div>
+            )}
+
+            {report.vatMethod ? (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="w-16">Kz.</TableHead>
+                    <TableHead>Description</TableHead>
+                    <TableHead className="text-right">Base</TableHead>
+                    <TableHead className="text-right">Tax</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {report.ustva.map((line) => (
+                    <TableRow key={line.code}>
+                      <TableCell className="font-medium">{line.code}</TableCell>
+                      <TableCell className="whitespace-normal">{line.label}</TableCell>
+                      <TableCell className="text-right">
+                        {line.base === null ? "" : formatCurrency(line.base)}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        {line.tax === null ? "" : formatCurrency(line.tax)}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            ) : (
+              <p className="text-sm text-muted-foreground">
+                As a Kleinunternehmer (§ 19 UStG) you charge no VAT and don't file a UStVA.
+              </p>
+            )}
+
+            {report.vatGroups.length > 0 && (
+              <p className="text-xs text-muted-foreground">
+                Revenue by rate:{" "}
+                {report.vatGroups
+                  .map((group) => `${formatVatLabel(group.category, group.rate)} ${formatCurrency(group.net)}`)
+                  .join(" · ")}
+              </p>
+            )}
+          </>
+        )}
+
+        <div className="flex flex-wrap justify-end gap-2">
+          <Button
+            type="button"
+            variant="outline"
+            onClick={() => csvMutation.mutate(input)}
+            disabled={!report || csvMutation.isPending}
+          >
+            {csvMutation.isPending ? (
+              <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+            ) : (
+              <Download className="h-4 w-4 mr-2" />
+            )}
+            CSV
+          </Button>
+          <Button type="button" onClick={handleDownloadPdf} disabled={!report || isDownloadingPdf}>
+            {isDownloadingPdf ? (
+              <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+            ) : (
+              <Download className="h-4 w-4 mr-2" />
+            )}
+            PDF
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -32,6 +32,7 @@ function usePageContext(): { scope: AssistantScope; scopeId?: number; pageName:
   const pageNames: Record<string, string> = {
     "/projects": "Projects",
     "/invoices": "Invoices",
+    "/quotes": "Quotes",
     "/contacts": "Contacts",
     "/notes": "Notes",
     "/calendar": "Calendar",
@@ -39,6 +40,14 @@ function usePageContext(): { scope: AssistantScope; scopeId?: number; pageName:
     "/maps": "Maps",
     "/settings": "Settings",
     "/expenses": "Expenses",
+    "/bank": "Bank Reconciliation",
+    "/mileage": "Mileage",
+    "/per-diem": "Per Diem",
+    "/subscriptions": "Subscriptions",
+    "/timesheets": "Timesheets",
+    "/timeline": "Timeline",
+    "/team": "Team",
+    "/statements": "Statements",
     "/reports": "Reports",
   };
   
@@ -9,6 +9,7 @@ import {
   FolderOpen,
   ClipboardCheck,
   DocumentCurrencyEuro,
+  ClipboardDocumentList,
   Receipt,
   FileText,
   File,
@@ -57,6 +58,7 @@ export const TAB_GROUPS: Record<TabId, TabGroup> = {
       { id: 'projects', label: 'Projects', path: '/projects', icon: FolderOpen, shortcut: '1' },
       { id: 'inspections', label: 'Inspections', path: '/inspections', icon: ClipboardCheck, shortcut: '2' },
       { id: 'invoices', label: 'Invoices', path: '/invoices', icon: DocumentCurrencyEuro, shortcut: '3' },
+      { id: 'quotes', label: 'Quotes', path: '/quotes', icon: ClipboardDocumentList },
       { id: 'expenses', label: 'Expenses', path: '/expenses', icon: Receipt, shortcut: '4' },
       { id: 'reports', label: 'Reports', path: '/reports', icon: FileText, shortcut: '5' },
       { id: 'notes', label: 'Notes', path: '/notes', icon: File, shortcut: '6' },
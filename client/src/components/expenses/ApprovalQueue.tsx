@@ -0,0 +1,51 @@
+/**
+ * ApprovalQueue Component
+ *
+ * Expenses other users submitted for the current user's approval. Renders
+ * nothing while the queue is empty.
+ */
+
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent } from "@/components/ui/card";
+import { trpc } from "@/lib/trpc";
+import { formatCurrency } from "@/lib/currencyFormat";
+import { Link } from "wouter";
+
+const formatDate = (value: Date | string) =>
+  new Date(value).toLocaleDateString("de-DE", { day: "2-digit", month: "2-digit", year: "numeric" });
+
+export function ApprovalQueue() {
+  const { data: queue = [] } = trpc.expenses.approvalQueue.useQuery();
+
+  if (queue.length === 0) return null;
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <h2 className="text-xl font-semibold">Waiting for your approval</h2>
+        <Badge variant="outline">{queue.length}</Badge>
+      </div>
+      <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-3">
+        {queue.map((expense) => (
+          <Link key={expense.id} href={`/expenses/${expense.id}`}>
+            <Card className="cursor-pointer transition-colors hover:bg-muted/50">
+              <CardContent className="space-y-1 py-4 text-sm">
+                <div className="flex items-baseline justify-between gap-2">
+                  <span className="font-medium">{expense.supplierName}</span>
+                  <span className="font-semibold">
+                    {formatCurrency(expense.grossAmountCents / 100, expense.currency)}
+                  </span>
+                </div>
+                {expense.description && <div className="text-muted-foreground">{expense.description}</div>}
+                <div className="text-muted-foreground">
+                  {expense.ownerName || "Unknown user"}, {formatDate(expense.expenseDate)}
+                  {expense.submittedAt && ` · submitted ${formatDate(expense.submittedAt)}`}
+                </div>
+              </CardContent>
+            </Card>
+          </Link>
+        ))}
+      </div>
+    </div>
+  );
+}
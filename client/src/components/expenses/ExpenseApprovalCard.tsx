@@ -0,0 +1,246 @@
+/**
+ * ExpenseApprovalCard Component
+ *
+ * Approval workflow of an expense: the owner submits it to a reviewer, the
+ * reviewer approves it (marks it as in order) or rejects it with a reason.
+ * Lists every status change below.
+ */
+
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { trpc } from "@/lib/trpc";
+import { toast } from "sonner";
+import { AlertTriangle, Loader2 } from "@/components/ui/Icon";
+import type { ExpenseApprovalStatus, ExpenseEventAction } from "@shared/expenseApproval";
+
+const STATUS_LABELS: Record<string, string> = {
+  needs_review: "Needs review",
+  in_order: "In order",
+  void: "Void",
+};
+
+const EVENT_LABELS: Record<ExpenseEventAction, string> = {
+  submitted: "Submitted for approval",
+  reviewer_changed: "Reviewer changed",
+  approved: "Approved",
+  rejected: "Rejected",
+  status_changed: "Status changed",
+};
+
+const formatDateTime = (value: Date | string) =>
+  new Date(value).toLocaleString("de-DE", {
+    day: "2-digit",
+    month: "2-digit",
+    year: "numeric",
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+
+interface ExpenseApprovalCardProps {
+  expense: {
+    id: number;
+    status: "needs_review" | "in_order" | "void";
+    approvalStatus: ExpenseApprovalStatus;
+    approverUserId: number | null;
+    reviewedByUserId: number | null;
+    createdBy: number;
+    submittedAt: Date | string | null;
+    rejectionReason: string | null;
+  };
+  currentUser: { id: number; role: string };
+}
+
+export function ExpenseApprovalCard({ expense, currentUser }: ExpenseApprovalCardProps) {
+  const utils = trpc.useUtils();
+  const [reviewerId, setReviewerId] = useState<string>("");
+  const [reason, setReason] = useState("");
+
+  const { data: users = [] } = trpc.users.list.useQuery();
+  const { data: history = [] } = trpc.expenses.getHistory.useQuery({ id: expense.id });
+
+  const onDone = (message: string) => () => {
+    toast.success(message);
+    setReason("");
+    setReviewerId("");
+    utils.expenses.getExpense.invalidate({ id: expense.id });
+    utils.expenses.getHistory.invalidate({ id: expense.id });
+    utils.expenses.list.invalidate();
+    utils.expenses.approvalQueue.invalidate();
+  };
+
+  const submitMutation = trpc.expenses.submitForApproval.useMutation({
+    onSuccess: onDone("Submitted for approval"),
+    onError: (error) => toast.error(error.message || "Failed to submit expense"),
+  });
+  const assignMutation = trpc.expenses.assignReviewer.useMutation({
+    onSuccess: onDone("Reviewer changed"),
+    onError: (error) => toast.error(error.message || "Failed to change reviewer"),
+  });
+  const approveMutation = trpc.expenses.approve.useMutation({
+    onSuccess: onDone("Expense approved"),
+    onError: (error) => toast.error(error.message || "Failed to approve expense"),
+  });
+  const rejectMutation = trpc.expenses.reject.useMutation({
+    onSuccess: onDone("Expense rejected"),
+    onError: (error) => toast.error(error.message || "Failed to reject expense"),
+  });
+
+  const isOwner = expense.createdBy === currentUser.id;
+  const isAdmin = currentUser.role === "admin";
+  const isSubmitted = expense.approvalStatus === "submitted";
+  const canSubmit = (isOwner || isAdmin) && expense.status === "needs_review" && !isSubmitted;
+  const canReassign = (isOwner || isAdmin) && isSubmitted;
+  const canDecide = isSubmitted && !isOwner && (isAdmin || expense.approverUserId === currentUser.id);
+  const isBusy =
+    submitMutation.isPending || assignMutation.isPending || approveMutation.isPending || rejectMutation.isPending;
+
+  const { data: candidates = [] } = trpc.expenses.reviewers.useQuery(
+    { id: expense.id },
+    { enabled: canSubmit || canReassign }
+  );
+
+  const userName = (id: number | null) => users.find((user) => user.id === id)?.name || "Unknown user";
+  const reviewers = candidates.filter((user) => !(isSubmitted && user.id === expense.approverUserId));
+
+  if (expense.status === "void" && history.length === 0) return null;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Approval</CardTitle>
+        <CardDescription>
+          Submit the expense to a reviewer, who approves it or sends it back with a reason.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="text-sm">
+          {isSubmitted && (
+            <p>
+              Waiting for approval by <span className="font-medium">{userName(expense.approverUserId)}</span>
+              {expense.submittedAt && ` since ${formatDateTime(expense.submittedAt)}`}
+            </p>
+          )}
+          {expense.approvalStatus === "approved" && (
+            <p>
+              Approved by <span className="font-medium">{userName(expense.reviewedByUserId)}</span>
+            </p>
+          )}
+          {expense.approvalStatus === "none" && <p className="text-muted-foreground">Not submitted for approval</p>}
+        </div>
+
+        {expense.approvalStatus === "rejected" && (
+          <div className="flex items-start gap-2 rounded-md border border-yellow-500/30 bg-yellow-500/10 p-3 text-sm">
+            <AlertTriangle className="mt-0.5 h-4 w-4 shrink-0 text-yellow-700 dark:text-yellow-400" />
+            <span>Rejected: {expense.rejectionReason}</span>
+          </div>
+        )}
+
+        {(canSubmit || canReassign) && (
+          <div className="grid gap-2">
+            <Label>{canSubmit ? "Reviewer" : "Hand over to"}</Label>
+            <div className="flex flex-wrap gap-2">
+              <Select value={reviewerId} onValueChange={setReviewerId} disabled={isBusy}>
+                <SelectTrigger className="max-w-64">
+                  <SelectValue placeholder="Choose a reviewer" />
+                </SelectTrigger>
+                <SelectContent>
+                  {reviewers.map((user) => (
+                    <SelectItem key={user.id} value={String(user.id)}>
+                      {user.name || user.email || `User #${user.id}`}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Button
+                type="button"
+                variant={canSubmit ? "default" : "outline"}
+                disabled={isBusy || !reviewerId}
+                onClick={() => {
+                  const input = { id: expense.id, reviewerId: Number(reviewerId) };
+                  if (canSubmit) submitMutation.mutate(input);
+                  else assignMutation.mutate(input);
+                }}
+              >
+                {(submitMutation.isPending || assignMutation.isPending) && (
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                )}
+                {canSubmit ? "Submit for approval" : "Change reviewer"}
+              </Button>
+            </div>
+            {candidates.length === 0 && (
+              <p className="text-xs text-muted-foreground">
+                Expenses are reviewed by the owner, office staff or accountant of your team workspace.
+              </p>
+            )}
+          </div>
+        )}
+
+        {canDecide && (
+          <div className="grid gap-2">
+            <Label htmlFor="approval-reason">Note or reason for rejection</Label>
+            <Textarea
+              id="approval-reason"
+              rows={2}
+              value={reason}
+              disabled={isBusy}
+              onChange={(e) => setReason(e.target.value)}
+            />
+            <div className="flex flex-wrap gap-2">
+              <Button
+                type="button"
+                disabled={isBusy}
+                onClick={() => approveMutation.mutate({ id: expense.id, note: reason.trim() || undefined })}
+              >
+                {approveMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Approve
+              </Button>
+              <Button
+                type="button"
+                variant="outline"
+                disabled={isBusy || !reason.trim()}
+                onClick={() => rejectMutation.mutate({ id: expense.id, reason: reason.trim() })}
+              >
+                {rejectMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Reject
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {history.length > 0 && (
+          <div className="space-y-2">
+            <div className="text-sm font-medium">History</div>
+            <ul className="space-y-2 text-sm">
+              {history.map((event) => (
+                <li key={event.id} className="border-l-2 pl-3">
+                  <div>
+                    {event.action === "status_changed"
+                      ? `${STATUS_LABELS[event.fromStatus]} → ${STATUS_LABELS[event.toStatus]}`
+                      : EVENT_LABELS[event.action]}
+                    {event.approverName && event.action !== "approved" && event.action !== "rejected" && (
+                      <> to {event.approverName}</>
+                    )}
+                  </div>
+                  <div className="text-muted-foreground">
+                    {event.userName || "Unknown user"}, {formatDateTime(event.createdAt)}
+                  </div>
+                  {event.note && <div className="text-muted-foreground">{event.note}</div>}
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
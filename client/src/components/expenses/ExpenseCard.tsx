@@ -20,6 +20,7 @@ interface ExpenseCardProps {
     category: string | null;
     grossAmountCents: number;
     currency: string;
+    grossAmountEurCents: number | null;
     businessUsePct: number;
     status: "needs_review" | "in_order" | "void";
     paymentStatus: "paid" | "unpaid";
@@ -34,8 +35,12 @@ interface ExpenseCardProps {
 }
 
 export function ExpenseCard({ expense, onAction, showVoid = false, isMultiSelectMode = false, isSelected = false, onToggleSelection }: ExpenseCardProps) {
+  // Deductible amounts count in EUR once a foreign-currency expense is converted
+  const isForeign = expense.currency !== "EUR";
+  const eurCents = isForeign ? expense.grossAmountEurCents : expense.grossAmountCents;
+  const deductibleCurrency = eurCents !== null ? "EUR" : expense.currency;
   const deductibleCents = Math.round(
-    (expense.grossAmountCents * expense.businessUsePct) / 100
+    ((eurCents ?? expense.grossAmountCents) * expense.businessUsePct) / 100
   );
 
   const statusBadge = () => {
@@ -110,10 +115,20 @@ export function ExpenseCard({ expense, onAction, showVoid = false, isMultiSelect
               {formatCurrency(expense.grossAmountCents / 100, expense.currency)}
             </span>
           </div>
+          {isForeign && (
+            <div className="flex items-center justify-between">
+              <span className="text-sm text-muted-foreground">In EUR</span>
+              <span className="text-sm font-medium">
+                {expense.grossAmountEurCents !== null
+                  ? formatCurrency(expense.grossAmountEurCents / 100, "EUR")
+                  : "No exchange rate"}
+              </span>
+            </div>
+          )}
           <div className="flex items-center justify-between">
             <span className="text-sm text-muted-foreground">Deductible</span>
             <span className="text-sm font-medium">
-              {formatCurrency(deductibleCents / 100, expense.currency)}
+              {formatCurrency(deductibleCents / 100, deductibleCurrency)}
             </span>
           </div>
           <div className="flex items-center justify-between">
@@ -0,0 +1,149 @@
+/**
+ * ExpenseCommentsCard Component
+ *
+ * Threaded discussion of an expense between its owner and the reviewer.
+ */
+
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Textarea } from "@/components/ui/textarea";
+import { trpc } from "@/lib/trpc";
+import { toast } from "sonner";
+import { Loader2, Trash2, X } from "@/components/ui/Icon";
+import { MAX_EXPENSE_COMMENT_LENGTH } from "@shared/expenseApproval";
+
+interface ExpenseCommentItem {
+  id: number;
+  parentId: number | null;
+  userId: number;
+  userName: string | null;
+  content: string;
+  createdAt: Date | string;
+}
+
+const formatDateTime = (value: Date | string) =>
+  new Date(value).toLocaleString("de-DE", {
+    day: "2-digit",
+    month: "2-digit",
+    year: "numeric",
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+
+interface ExpenseCommentsCardProps {
+  expenseId: number;
+  currentUser: { id: number; role: string };
+}
+
+export function ExpenseCommentsCard({ expenseId, currentUser }: ExpenseCommentsCardProps) {
+  const utils = trpc.useUtils();
+  const [content, setContent] = useState("");
+  const [replyTo, setReplyTo] = useState<ExpenseCommentItem | null>(null);
+
+  const { data: comments = [], isLoading } = trpc.expenses.listComments.useQuery({ id: expenseId });
+
+  const addMutation = trpc.expenses.addComment.useMutation({
+    onSuccess: () => {
+      setContent("");
+      setReplyTo(null);
+      utils.expenses.listComments.invalidate({ id: expenseId });
+    },
+    onError: (error) => toast.error(error.message || "Failed to add comment"),
+  });
+
+  const deleteMutation = trpc.expenses.deleteComment.useMutation({
+    onSuccess: () => utils.expenses.listComments.invalidate({ id: expenseId }),
+    onError: (error) => toast.error(error.message || "Failed to delete comment"),
+  });
+
+  const repliesTo = (parentId: number | null) => comments.filter((comment) => comment.parentId === parentId);
+
+  const renderThread = (comment: ExpenseCommentItem) => (
+    <li key={comment.id} className="space-y-2">
+      <div className="rounded-md border p-3 text-sm">
+        <div className="flex items-start justify-between gap-2">
+          <div className="text-muted-foreground">
+            <span className="font-medium text-foreground">{comment.userName || "Unknown user"}</span>,{" "}
+            {formatDateTime(comment.createdAt)}
+          </div>
+          {(comment.userId === currentUser.id || currentUser.role === "admin") && (
+            <Button
+              type="button"
+              variant="ghost"
+              size="icon"
+              className="h-6 w-6"
+              aria-label="Delete comment"
+              disabled={deleteMutation.isPending}
+              onClick={() => deleteMutation.mutate({ commentId: comment.id })}
+            >
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          )}
+        </div>
+        <p className="mt-1 whitespace-pre-wrap">{comment.content}</p>
+        <Button type="button" variant="link" className="h-auto p-0 text-xs" onClick={() => setReplyTo(comment)}>
+          Reply
+        </Button>
+      </div>
+      {repliesTo(comment.id).length > 0 && (
+        <ul className="ml-4 space-y-2 border-l pl-3">{repliesTo(comment.id).map(renderThread)}</ul>
+      )}
+    </li>
+  );
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Comments</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading ? (
+          <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+        ) : comments.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No comments yet.</p>
+        ) : (
+          <ul className="space-y-2">{repliesTo(null).map(renderThread)}</ul>
+        )}
+
+        <div className="grid gap-2">
+          {replyTo && (
+            <div className="flex items-center justify-between gap-2 text-sm text-muted-foreground">
+              <span>Replying to {replyTo.userName || "Unknown user"}</span>
+              <Button
+                type="button"
+                variant="ghost"
+                size="icon"
+                className="h-6 w-6"
+                aria-label="Cancel reply"
+                onClick={() => setReplyTo(null)}
+              >
+                <X className="h-4 w-4" />
+              </Button>
+            </div>
+          )}
+          <Textarea
+            rows={2}
+            placeholder="Write a comment"
+            maxLength={MAX_EXPENSE_COMMENT_LENGTH}
+            value={content}
+            disabled={addMutation.isPending}
+            onChange={(e) => setContent(e.target.value)}
+          />
+          <div>
+            <Button
+              type="button"
+              disabled={addMutation.isPending || !content.trim()}
+              onClick={() =>
+                addMutation.mutate({ id: expenseId, content: content.trim(), parentId: replyTo?.id })
+              }
+            >
+              {addMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              {replyTo ? "Reply" : "Comment"}
+            </Button>
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,93 @@
+/**
+ * ExpenseDuplicateCard Component
+ *
+ * Warns when a receipt looks like one that was uploaded before. Links the
+ * suspected original and voids the expense as duplicate in one click.
+ */
+
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { trpc, type RouterOutputs } from "@/lib/trpc";
+import { formatCurrency } from "@/lib/currencyFormat";
+import { toast } from "sonner";
+import { AlertTriangle, Loader2 } from "@/components/ui/Icon";
+import { Link } from "wouter";
+
+type DuplicateOf = NonNullable<RouterOutputs["expenses"]["getExpense"]["duplicateOf"]>;
+
+const formatDate = (value: Date | string) =>
+  new Date(value).toLocaleDateString("de-DE", { day: "2-digit", month: "2-digit", year: "numeric" });
+
+interface ExpenseDuplicateCardProps {
+  expenseId: number;
+  duplicateOf: DuplicateOf;
+}
+
+export function ExpenseDuplicateCard({ expenseId, duplicateOf }: ExpenseDuplicateCardProps) {
+  const utils = trpc.useUtils();
+
+  const invalidate = () => {
+    utils.expenses.getExpense.invalidate({ id: expenseId });
+    utils.expenses.list.invalidate();
+  };
+
+  const voidMutation = trpc.expenses.voidAsDuplicate.useMutation({
+    onSuccess: () => {
+      toast.success("Expense voided as duplicate");
+      invalidate();
+    },
+    onError: (error) => toast.error(error.message || "Failed to void expense"),
+  });
+
+  const dismissMutation = trpc.expenses.dismissDuplicate.useMutation({
+    onSuccess: () => {
+      toast.success("Duplicate warning dismissed");
+      invalidate();
+    },
+    onError: (error) => toast.error(error.message || "Failed to dismiss warning"),
+  });
+
+  const isBusy = voidMutation.isPending || dismissMutation.isPending;
+
+  return (
+    <Card className="border-yellow-500/40">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <AlertTriangle className="h-5 w-5 text-yellow-700 dark:text-yellow-400" />
+          Possible duplicate
+        </CardTitle>
+        <CardDescription>{duplicateOf.reason || "This receipt looks like one uploaded before"}</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <Link href={`/expenses/${duplicateOf.id}`}>
+          <div className="flex items-center justify-between gap-2 rounded-md border p-3 text-sm hover:bg-accent/50 cursor-pointer">
+            <div className="min-w-0">
+              <p className="font-medium truncate">{duplicateOf.supplierName}</p>
+              <p className="text-muted-foreground">
+                Expense #{duplicateOf.id} · {formatDate(duplicateOf.expenseDate)}
+                {duplicateOf.status === "void" && " · void"}
+              </p>
+            </div>
+            <span className="font-medium">
+              {formatCurrency(duplicateOf.grossAmountCents / 100, duplicateOf.currency)}
+            </span>
+          </div>
+        </Link>
+        <div className="flex flex-wrap gap-2">
+          <Button size="sm" onClick={() => voidMutation.mutate({ id: expenseId })} disabled={isBusy}>
+            {voidMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Void as duplicate
+          </Button>
+          <Button
+            size="sm"
+            variant="outline"
+            onClick={() => dismissMutation.mutate({ id: expenseId })}
+            disabled={isBusy}
+          >
+            Not a duplicate
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
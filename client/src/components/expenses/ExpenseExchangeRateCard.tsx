@@ -0,0 +1,155 @@
+/**
+ * ExpenseExchangeRateCard Component
+ *
+ * Shows the EUR amount of a foreign-currency expense and the rate it was
+ * converted with: the ECB reference rate of the expense date, or a rate
+ * entered by hand (e.g. the rate on the card statement).
+ */
+
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { trpc } from "@/lib/trpc";
+import { formatCurrency } from "@/lib/currencyFormat";
+import { toast } from "sonner";
+import { AlertTriangle, Loader2 } from "@/components/ui/Icon";
+import { Link } from "wouter";
+import type { ExchangeRateSource } from "@shared/exchangeRates";
+
+const formatDate = (value: string) =>
+  new Date(`${value}T00:00:00`).toLocaleDateString("de-DE", { day: "2-digit", month: "2-digit", year: "numeric" });
+
+const formatRate = (value: string | number) =>
+  Number(value).toLocaleString("de-DE", { maximumFractionDigits: 6 });
+
+const parseRate = (value: string) => {
+  const trimmed = value.trim();
+  const rate = Number(trimmed.includes(",") ? trimmed.replace(/\./g, "").replace(",", ".") : trimmed);
+  return Number.isFinite(rate) && rate > 0 ? rate : null;
+};
+
+interface ExpenseExchangeRateCardProps {
+  expenseId: number;
+  currency: string;
+  grossAmountCents: number;
+  grossAmountEurCents: number | null;
+  exchangeRate: string | null;
+  exchangeRateDate: string | null;
+  exchangeRateSource: ExchangeRateSource | null;
+  disabled?: boolean;
+}
+
+export function ExpenseExchangeRateCard({
+  expenseId,
+  currency,
+  grossAmountCents,
+  grossAmountEurCents,
+  exchangeRate,
+  exchangeRateDate,
+  exchangeRateSource,
+  disabled = false,
+}: ExpenseExchangeRateCardProps) {
+  const utils = trpc.useUtils();
+  const [rateInput, setRateInput] = useState("");
+
+  useEffect(() => {
+    setRateInput(exchangeRate ? formatRate(exchangeRate) : "");
+  }, [exchangeRate]);
+
+  const setRateMutation = trpc.expenses.setExchangeRate.useMutation({
+    onSuccess: (_, variables) => {
+      toast.success(variables.rate === null ? "Using the ECB rate" : "Exchange rate saved");
+      utils.expenses.getExpense.invalidate({ id: expenseId });
+      utils.expenses.list.invalidate();
+    },
+    onError: (error) => toast.error(error.message || "Failed to save exchange rate"),
+  });
+
+  const parsedRate = parseRate(rateInput);
+  const isBusy = disabled || setRateMutation.isPending;
+  const isDirty = parsedRate !== null && (exchangeRate === null || parsedRate !== Number(exchangeRate));
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Exchange rate</CardTitle>
+        <CardDescription>
+          Reports and exports use the EUR amount. {currency} is converted with the ECB reference rate of the expense
+          date unless you enter a rate.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {grossAmountEurCents !== null ? (
+          <div className="flex flex-wrap items-baseline justify-between gap-2 rounded-md border p-3">
+            <div>
+              <div className="text-lg font-semibold">{formatCurrency(grossAmountEurCents / 100, "EUR")}</div>
+              <div className="text-sm text-muted-foreground">
+                {formatCurrency(grossAmountCents / 100, currency)}
+              </div>
+            </div>
+            {exchangeRate && (
+              <div className="text-right text-sm text-muted-foreground">
+                <div>
+                  1 EUR = {formatRate(exchangeRate)} {currency}
+                </div>
+                <div>
+                  {exchangeRateSource === "manual" ? "Manual rate" : "ECB reference rate"}
+                  {exchangeRateDate &&
+                    (exchangeRateSource === "manual"
+                      ? `, set ${formatDate(exchangeRateDate)}`
+                      : ` of ${formatDate(exchangeRateDate)}`)}
+                </div>
+              </div>
+            )}
+          </div>
+        ) : (
+          <div className="flex items-start gap-2 rounded-md border border-yellow-500/30 bg-yellow-500/10 p-3 text-sm">
+            <AlertTriangle className="mt-0.5 h-4 w-4 shrink-0 text-yellow-700 dark:text-yellow-400" />
+            <span>
+              No ECB rate for {currency} on the expense date.{" "}
+              <Link href="/settings" className="underline">
+                Import the ECB reference rates
+              </Link>{" "}
+              or enter the rate below. The expense can't be marked as in order without it.
+            </span>
+          </div>
+        )}
+
+        <div className="grid gap-2">
+          <Label htmlFor="exchange-rate">{currency} per 1 EUR</Label>
+          <div className="flex flex-wrap gap-2">
+            <Input
+              id="exchange-rate"
+              className="max-w-40"
+              inputMode="decimal"
+              placeholder="e.g. 1,0856"
+              value={rateInput}
+              disabled={isBusy}
+              onChange={(e) => setRateInput(e.target.value)}
+            />
+            <Button
+              type="button"
+              disabled={isBusy || !isDirty}
+              onClick={() => parsedRate !== null && setRateMutation.mutate({ id: expenseId, rate: parsedRate })}
+            >
+              {setRateMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Use this rate
+            </Button>
+            {exchangeRateSource === "manual" && (
+              <Button
+                type="button"
+                variant="outline"
+                disabled={isBusy}
+                onClick={() => setRateMutation.mutate({ id: expenseId, rate: null })}
+              >
+                Use ECB rate
+              </Button>
+            )}
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,145 @@
+/**
+ * ExpenseProjectCard Component
+ *
+ * Assigns an expense to a project and optionally one of its jobs for job
+ * costing. Shows the project suggested from check-ins at the receipt date.
+ */
+
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { trpc } from "@/lib/trpc";
+import { toast } from "sonner";
+import { Sparkles } from "@/components/ui/Icon";
+import { SuggestionBadge } from "./SuggestionBadge";
+
+const NONE = "none";
+
+interface ProjectSuggestion {
+  value: number;
+  projectName: string;
+  confidence: number;
+  reason: string;
+}
+
+interface ExpenseProjectCardProps {
+  expenseId: number;
+  projectId: number | null;
+  jobId: number | null;
+  suggestion?: ProjectSuggestion | null;
+  disabled?: boolean;
+}
+
+export function ExpenseProjectCard({
+  expenseId,
+  projectId,
+  jobId,
+  suggestion,
+  disabled = false,
+}: ExpenseProjectCardProps) {
+  const utils = trpc.useUtils();
+  const { data: projects = [] } = trpc.projects.list.useQuery();
+  const { data: jobs = [] } = trpc.projects.jobs.list.useQuery(
+    { projectId: projectId! },
+    { enabled: projectId !== null }
+  );
+
+  const updateMutation = trpc.expenses.updateExpense.useMutation({
+    onSuccess: () => {
+      toast.success("Project assignment saved");
+      utils.expenses.getExpense.invalidate({ id: expenseId });
+      utils.expenses.list.invalidate();
+      utils.projects.costs.invalidate();
+    },
+    onError: (error) => toast.error(error.message || "Failed to assign project"),
+  });
+
+  const assign = (nextProjectId: number | null, nextJobId: number | null) => {
+    updateMutation.mutate({ id: expenseId, projectId: nextProjectId, jobId: nextJobId });
+  };
+
+  const showSuggestion = !disabled && suggestion && suggestion.value !== projectId;
+  const isBusy = disabled || updateMutation.isPending;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Project</CardTitle>
+        <CardDescription>
+          Assigned expenses count towards the project costs. Splits can go to other projects.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {showSuggestion && (
+          <div className="flex flex-wrap items-center gap-2 rounded-md border border-dashed p-3 text-sm">
+            <Sparkles className="h-4 w-4 text-muted-foreground" />
+            <span>
+              Suggested: <span className="font-medium">{suggestion.projectName}</span>
+            </span>
+            <SuggestionBadge confidence={suggestion.confidence} reason={suggestion.reason} />
+            <Button
+              type="button"
+              size="sm"
+              variant="outline"
+              className="ml-auto"
+              disabled={isBusy}
+              onClick={() => assign(suggestion.value, null)}
+            >
+              Apply
+            </Button>
+          </div>
+        )}
+
+        <div className="grid gap-4 sm:grid-cols-2">
+          <div className="grid gap-2">
+            <Label>Project</Label>
+            <Select
+              value={projectId ? String(projectId) : NONE}
+              disabled={isBusy}
+              onValueChange={(value) => assign(value === NONE ? null : Number(value), null)}
+            >
+              <SelectTrigger aria-label="Project">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={NONE}>No project</SelectItem>
+                {projects.map((project) => (
+                  <SelectItem key={project.id} value={String(project.id)}>
+                    {project.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="grid gap-2">
+            <Label>Job</Label>
+            <Select
+              value={jobId ? String(jobId) : NONE}
+              disabled={isBusy || projectId === null}
+              onValueChange={(value) => assign(projectId, value === NONE ? null : Number(value))}
+            >
+              <SelectTrigger aria-label="Job">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={NONE}>Whole project</SelectItem>
+                {jobs.map((job: { id: number; title: string }) => (
+                  <SelectItem key={job.id} value={String(job.id)}>
+                    {job.title}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,300 @@
+/**
+ * ExpenseSplitsCard Component
+ *
+ * Splits one receipt into lines with their own category, VAT rate, project
+ * and business use. The lines have to add up to the expense total.
+ */
+
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { trpc } from "@/lib/trpc";
+import { formatCurrency } from "@/lib/currencyFormat";
+import { toast } from "sonner";
+import { Loader2, Plus, Trash2 } from "@/components/ui/Icon";
+import { cn } from "@/lib/utils";
+import {
+  EXPENSE_CATEGORIES,
+  EXPENSE_CATEGORY_LABELS,
+  type ExpenseCategory,
+} from "@shared/expenseCategories";
+import { MAX_EXPENSE_SPLITS, type ExpenseVatRate } from "@shared/expenseSplits";
+
+const NONE = "none";
+const VAT_RATES: ExpenseVatRate[] = ["19", "7", "0"];
+
+interface StoredSplit {
+  grossAmountCents: number;
+  category: ExpenseCategory;
+  vatRate: ExpenseVatRate | null;
+  projectId: number | null;
+  businessUsePct: number;
+  description: string | null;
+}
+
+interface SplitRow {
+  key: number;
+  amount: string;
+  category: ExpenseCategory;
+  vatRate: ExpenseVatRate | null;
+  projectId: number | null;
+  businessUsePct: string;
+  description: string;
+}
+
+interface ExpenseSplitsCardProps {
+  expenseId: number;
+  grossAmountCents: number;
+  currency: string;
+  defaultCategory: ExpenseCategory | null;
+  defaultVatRate: ExpenseVatRate | null;
+  splits: StoredSplit[];
+  disabled?: boolean;
+}
+
+let nextRowKey = 1;
+
+const toRow = (split: StoredSplit): SplitRow => ({
+  key: nextRowKey++,
+  amount: (split.grossAmountCents / 100).toFixed(2).replace(".", ","),
+  category: split.category,
+  vatRate: split.vatRate,
+  projectId: split.projectId,
+  businessUsePct: String(split.businessUsePct),
+  description: split.description ?? "",
+});
+
+const parseCents = (value: string) => {
+  const trimmed = value.trim();
+  // German input uses the comma as decimal separator and dots for thousands
+  const amount = Number(trimmed.includes(",") ? trimmed.replace(/\./g, "").replace(",", ".") : trimmed);
+  return Number.isFinite(amount) ? Math.round(amount * 100) : NaN;
+};
+
+export function ExpenseSplitsCard({
+  expenseId,
+  grossAmountCents,
+  currency,
+  defaultCategory,
+  defaultVatRate,
+  splits,
+  disabled = false,
+}: ExpenseSplitsCardProps) {
+  const [rows, setRows] = useState<SplitRow[]>([]);
+  const utils = trpc.useUtils();
+  const { data: projects = [] } = trpc.projects.list.useQuery();
+
+  useEffect(() => {
+    setRows(splits.map(toRow));
+  }, [splits]);
+
+  const setSplitsMutation = trpc.expenses.setSplits.useMutation({
+    onSuccess: (_, variables) => {
+      toast.success(variables.splits.length > 0 ? "Splits saved" : "Splits removed");
+      utils.expenses.getExpense.invalidate({ id: expenseId });
+      utils.expenses.list.invalidate();
+    },
+    onError: (error) => toast.error(error.message || "Failed to save splits"),
+  });
+
+  const allocatedCents = rows.reduce((sum, row) => sum + (parseCents(row.amount) || 0), 0);
+  const remainingCents = grossAmountCents - allocatedCents;
+
+  const updateRow = (key: number, changes: Partial<SplitRow>) => {
+    setRows((current) => current.map((row) => (row.key === key ? { ...row, ...changes } : row)));
+  };
+
+  const addRow = () => {
+    const template = rows[rows.length - 1];
+    const amountCents = rows.length === 0 ? grossAmountCents : Math.max(remainingCents, 0);
+    setRows((current) => [
+      ...current,
+      toRow({
+        grossAmountCents: amountCents,
+        category: template?.category ?? defaultCategory ?? "other",
+        vatRate: template?.vatRate ?? defaultVatRate,
+        projectId: null,
+        businessUsePct: 100,
+        description: null,
+      }),
+    ]);
+  };
+
+  const handleSave = () => {
+    const payload = [];
+    for (const row of rows) {
+      const cents = parseCents(row.amount);
+      const businessUsePct = Number(row.businessUsePct);
+      if (!Number.isFinite(cents) || cents === 0) {
+        toast.error("Enter an amount for every split");
+        return;
+      }
+      if (!Number.isInteger(businessUsePct) || businessUsePct < 0 || businessUsePct > 100) {
+        toast.error("Business use has to be between 0 and 100 %");
+        return;
+      }
+      payload.push({
+        grossAmountCents: cents,
+        category: row.category,
+        vatRate: row.vatRate,
+        projectId: row.projectId,
+        businessUsePct,
+        description: row.description.trim() || null,
+      });
+    }
+    setSplitsMutation.mutate({ id: expenseId, splits: payload });
+  };
+
+  const isDirty =
+    rows.length !== splits.length ||
+    rows.some((row, index) => {
+      const split = splits[index];
+      return (
+        parseCents(row.amount) !== split.grossAmountCents ||
+        row.category !== split.category ||
+        row.vatRate !== split.vatRate ||
+        row.projectId !== split.projectId ||
+        Number(row.businessUsePct) !== split.businessUsePct ||
+        (row.description.trim() || null) !== split.description
+      );
+    });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Splits</CardTitle>
+        <CardDescription>
+          Split a receipt that covers several categories, VAT rates or projects. Reports and exports use the splits
+          instead of the expense fields.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {rows.map((row) => (
+          <div key={row.key} className="grid gap-2 rounded-md border p-3 sm:grid-cols-12">
+            <Input
+              className="sm:col-span-2"
+              inputMode="decimal"
+              aria-label="Amount"
+              value={row.amount}
+              disabled={disabled}
+              onChange={(e) => updateRow(row.key, { amount: e.target.value })}
+            />
+            <Select
+              value={row.category}
+              disabled={disabled}
+              onValueChange={(value) => updateRow(row.key, { category: value as ExpenseCategory })}
+            >
+              <SelectTrigger className="sm:col-span-3" aria-label="Category">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {EXPENSE_CATEGORIES.map((category) => (
+                  <SelectItem key={category} value={category}>
+                    {EXPENSE_CATEGORY_LABELS[category]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select
+              value={row.vatRate ?? NONE}
+              disabled={disabled}
+              onValueChange={(value) => updateRow(row.key, { vatRate: value === NONE ? null : (value as ExpenseVatRate) })}
+            >
+              <SelectTrigger className="sm:col-span-2" aria-label="VAT rate">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={NONE}>No VAT</SelectItem>
+                {VAT_RATES.map((rate) => (
+                  <SelectItem key={rate} value={rate}>
+                    {rate} % VAT
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select
+              value={row.projectId ? String(row.projectId) : NONE}
+              disabled={disabled}
+              onValueChange={(value) => updateRow(row.key, { projectId: value === NONE ? null : Number(value) })}
+            >
+              <SelectTrigger className="sm:col-span-3" aria-label="Project">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={NONE}>No project</SelectItem>
+                {projects.map((project) => (
+                  <SelectItem key={project.id} value={String(project.id)}>
+                    {project.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <div className="flex items-center gap-1 sm:col-span-2">
+              <Input
+                inputMode="numeric"
+                aria-label="Business use %"
+                value={row.businessUsePct}
+                disabled={disabled}
+                onChange={(e) => updateRow(row.key, { businessUsePct: e.target.value })}
+              />
+              <span className="text-sm text-muted-foreground">%</span>
+              <Button
+                type="button"
+                variant="ghost"
+                size="icon"
+                aria-label="Remove split"
+                disabled={disabled}
+                onClick={() => setRows((current) => current.filter((item) => item.key !== row.key))}
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+            <Input
+              className="sm:col-span-12"
+              placeholder="Note (optional)"
+              maxLength={255}
+              value={row.description}
+              disabled={disabled}
+              onChange={(e) => updateRow(row.key, { description: e.target.value })}
+            />
+          </div>
+        ))}
+
+        {rows.length > 0 && (
+          <p className={cn("text-sm", remainingCents === 0 ? "text-muted-foreground" : "text-destructive")}>
+            {remainingCents === 0
+              ? `Splits add up to ${formatCurrency(grossAmountCents / 100, currency)}`
+              : `${formatCurrency(Math.abs(remainingCents) / 100, currency)} ${remainingCents > 0 ? "left to allocate" : "over the total"}`}
+          </p>
+        )}
+
+        {!disabled && (
+          <div className="flex flex-wrap gap-2">
+            <Button type="button" variant="outline" onClick={addRow} disabled={rows.length >= MAX_EXPENSE_SPLITS}>
+              <Plus className="h-4 w-4 mr-2" />
+              Add split
+            </Button>
+            {(rows.length > 0 || splits.length > 0) && (
+              <Button
+                type="button"
+                onClick={handleSave}
+                disabled={!isDirty || (rows.length > 0 && remainingCents !== 0) || setSplitsMutation.isPending}
+              >
+                {setSplitsMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                {rows.length === 0 ? "Remove splits" : "Save splits"}
+              </Button>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,169 @@
+/**
+ * ExpenseVatCard Component
+ *
+ * Sets the VAT treatment of an expense. Reverse charge (§ 13b UStG) is for
+ * subcontractor invoices without VAT: the VAT is owed on the net amount and
+ * deducted as input VAT in the same return.
+ */
+
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { trpc } from "@/lib/trpc";
+import { formatCurrency } from "@/lib/currencyFormat";
+import { toast } from "sonner";
+import { Loader2 } from "@/components/ui/Icon";
+import { getExpenseLineAmounts, type ExpenseVatMode, type ExpenseVatRate } from "@shared/expenseSplits";
+
+const VAT_MODE_LABELS: Record<ExpenseVatMode, string> = {
+  none: "No VAT",
+  german: "German VAT",
+  foreign: "Foreign VAT (not deductible)",
+  reverse_charge: "Reverse charge (§ 13b UStG)",
+};
+
+const VAT_RATES: ExpenseVatRate[] = ["19", "7", "0"];
+
+interface ExpenseVatCardProps {
+  expenseId: number;
+  vatMode: ExpenseVatMode;
+  vatRate: ExpenseVatRate | null;
+  vatAmountCents: number | null;
+  grossAmountCents: number;
+  currency: string;
+  disabled?: boolean;
+}
+
+export function ExpenseVatCard({
+  expenseId,
+  vatMode,
+  vatRate,
+  vatAmountCents,
+  grossAmountCents,
+  currency,
+  disabled = false,
+}: ExpenseVatCardProps) {
+  const utils = trpc.useUtils();
+  const [mode, setMode] = useState<ExpenseVatMode>(vatMode);
+  const [rate, setRate] = useState<ExpenseVatRate>(vatRate ?? "19");
+
+  useEffect(() => {
+    setMode(vatMode);
+    setRate(vatRate ?? "19");
+  }, [vatMode, vatRate]);
+
+  const updateMutation = trpc.expenses.updateExpense.useMutation({
+    onSuccess: () => {
+      toast.success("VAT saved");
+      utils.expenses.getExpense.invalidate({ id: expenseId });
+      utils.expenses.list.invalidate();
+    },
+    onError: (error) => toast.error(error.message || "Failed to save VAT"),
+  });
+
+  const hasRate = mode === "german" || mode === "reverse_charge";
+  const isDirty = mode !== vatMode || (hasRate && rate !== vatRate);
+  const isBusy = disabled || updateMutation.isPending;
+
+  const owedCents =
+    mode === "reverse_charge"
+      ? getExpenseLineAmounts(
+          {
+            grossAmountCents,
+            category: null,
+            vatRate: rate,
+            vatAmountCents: isDirty ? null : vatAmountCents,
+            businessUsePct: 100,
+            projectId: null,
+          },
+          mode
+        ).reverseChargeVatCents
+      : 0;
+
+  const save = () => {
+    updateMutation.mutate({
+      id: expenseId,
+      vatMode: mode,
+      vatRate: hasRate ? rate : mode === "none" ? "0" : null,
+      vatAmountCents: null,
+    });
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>VAT</CardTitle>
+        <CardDescription>
+          German VAT is deducted as input VAT. Use reverse charge for invoices where you owe the VAT as recipient,
+          e.g. from subcontractors in construction.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid gap-4 sm:grid-cols-2">
+          <div className="grid gap-2">
+            <Label>Treatment</Label>
+            <Select value={mode} onValueChange={(value) => setMode(value as ExpenseVatMode)} disabled={isBusy}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(VAT_MODE_LABELS) as ExpenseVatMode[]).map((value) => (
+                  <SelectItem key={value} value={value}>
+                    {VAT_MODE_LABELS[value]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          {hasRate && (
+            <div className="grid gap-2">
+              <Label>Rate</Label>
+              <Select value={rate} onValueChange={(value) => setRate(value as ExpenseVatRate)} disabled={isBusy}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {VAT_RATES.map((value) => (
+                    <SelectItem key={value} value={value}>
+                      {value} %
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+        </div>
+
+        {mode === "reverse_charge" && (
+          <div className="rounded-md border p-3 text-sm">
+            <div className="flex justify-between gap-2">
+              <span className="text-muted-foreground">Net amount (receipt)</span>
+              <span>{formatCurrency(grossAmountCents / 100, currency)}</span>
+            </div>
+            <div className="flex justify-between gap-2">
+              <span className="text-muted-foreground">VAT owed (§ 13b)</span>
+              <span>{formatCurrency(owedCents / 100, currency)}</span>
+            </div>
+            <div className="flex justify-between gap-2">
+              <span className="text-muted-foreground">Deductible input VAT</span>
+              <span>{formatCurrency(owedCents / 100, currency)}</span>
+            </div>
+          </div>
+        )}
+
+        <Button type="button" disabled={isBusy || !isDirty} onClick={save}>
+          {updateMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+          Save VAT
+        </Button>
+      </CardContent>
+    </Card>
+  );
+}
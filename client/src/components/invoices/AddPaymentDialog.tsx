@@ -1,7 +1,7 @@
 /**
  * Add Payment Dialog
- * Simple dialog for adding payments to sent invoices
- * v1: Amount only (no date picker, auto-set to now())
+ * Records a payment for a sent invoice in the payment ledger
+ * (amount, payment date, method, reference and note)
  */
 
 import { useState } from "react";
@@ -15,9 +15,22 @@ import {
 } from "@/components/ui/dialog";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
 import { trpc } from "@/lib/trpc";
 import { Loader2 } from "@/components/ui/Icon";
 import { toast } from "sonner";
+import {
+  INVOICE_PAYMENT_METHODS,
+  INVOICE_PAYMENT_METHOD_LABELS,
+  type InvoicePaymentMethod,
+} from "@shared/invoicePayments";
 
 interface AddPaymentDialogProps {
   open: boolean;
@@ -27,6 +40,12 @@ interface AddPaymentDialogProps {
   onSuccess?: () => void;
 }
 
+function todayInput() {
+  const now = new Date();
+  const offset = now.getTimezoneOffset() * 60000;
+  return new Date(now.getTime() - offset).toISOString().slice(0, 10);
+}
+
 export function AddPaymentDialog({
   open,
   onOpenChange,
@@ -35,14 +54,27 @@ export function AddPaymentDialog({
   onSuccess,
 }: AddPaymentDialogProps) {
   const [amount, setAmount] = useState<string>("");
+  const [paidAt, setPaidAt] = useState<string>(todayInput());
+  const [method, setMethod] = useState<InvoicePaymentMethod>("bank_transfer");
+  const [reference, setReference] = useState("");
+  const [note, setNote] = useState("");
+
+  const resetForm = () => {
+    setAmount("");
+    setPaidAt(todayInput());
+    setMethod("bank_transfer");
+    setReference("");
+    setNote("");
+  };
 
   const utils = trpc.useUtils();
   const addPaymentMutation = trpc.invoices.addInvoicePayment.useMutation({
     onSuccess: () => {
       toast.success("Payment added");
-      setAmount("");
+      resetForm();
       onOpenChange(false);
       utils.invoices.get.invalidate({ id: invoiceId });
+      utils.invoices.payments.invalidate({ invoiceId });
       utils.invoices.list.invalidate();
       onSuccess?.();
     },
@@ -68,11 +100,15 @@ export function AddPaymentDialog({
     addPaymentMutation.mutate({
       id: invoiceId,
       amount: paymentAmount,
+      paidAt: paidAt ? new Date(paidAt) : undefined,
+      method,
+      reference: reference.trim() || null,
+      note: note.trim() || null,
     });
   };
 
   const handleClose = () => {
-    setAmount("");
+    resetForm();
     onOpenChange(false);
   };
 
@@ -106,9 +142,48 @@ export function AddPaymentDialog({
               required
               autoFocus
             />
-            <p className="text-xs text-muted-foreground">
-              Payment date will be set to today automatically
-            </p>
+          </div>
+          <div className="grid gap-4 sm:grid-cols-2">
+            <div className="space-y-2">
+              <Label htmlFor="paidAt">Payment date *</Label>
+              <Input
+                id="paidAt"
+                type="date"
+                value={paidAt}
+                max={todayInput()}
+                onChange={(e) => setPaidAt(e.target.value)}
+                required
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Method</Label>
+              <Select value={method} onValueChange={(value) => setMethod(value as InvoicePaymentMethod)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {INVOICE_PAYMENT_METHODS.map((option) => (
+                    <SelectItem key={option} value={option}>
+                      {INVOICE_PAYMENT_METHOD_LABELS[option]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="paymentReference">Reference</Label>
+            <Input
+              id="paymentReference"
+              value={reference}
+              onChange={(e) => setReference(e.target.value)}
+              placeholder="e.g. bank transaction reference"
+              maxLength={255}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="paymentNote">Note</Label>
+            <Textarea id="paymentNote" value={note} onChange={(e) => setNote(e.target.value)} rows={2} />
           </div>
           <DialogFooter>
             <Button
@@ -0,0 +1,175 @@
+/**
+ * DunningLevelsSection - settings for the three dunning levels
+ * (Zahlungserinnerung, 1. Mahnung, 2. Mahnung)
+ */
+
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Separator } from "@/components/ui/separator";
+import { trpc } from "@/lib/trpc";
+import { Loader2, Save } from "@/components/ui/Icon";
+import { toast } from "sonner";
+import type { DunningLevelConfig } from "@shared/dunning";
+
+interface LevelFormState {
+  level: DunningLevelConfig["level"];
+  name: string;
+  waitDays: string;
+  fee: string;
+  interestRate: string;
+  paymentTermDays: string;
+  text: string;
+}
+
+function toFormState(level: DunningLevelConfig): LevelFormState {
+  return {
+    level: level.level,
+    name: level.name,
+    waitDays: String(level.waitDays),
+    fee: level.fee.toFixed(2),
+    interestRate: level.interestRate === null ? "" : String(level.interestRate),
+    paymentTermDays: String(level.paymentTermDays),
+    text: level.text,
+  };
+}
+
+export function DunningLevelsSection() {
+  const [levels, setLevels] = useState<LevelFormState[]>([]);
+  const utils = trpc.useUtils();
+  const { data, isLoading } = trpc.dunning.levels.useQuery();
+
+  useEffect(() => {
+    if (data) {
+      setLevels(data.map(toFormState));
+    }
+  }, [data]);
+
+  const updateMutation = trpc.dunning.updateLevels.useMutation({
+    onSuccess: async () => {
+      toast.success("Dunning levels saved");
+      await utils.dunning.levels.invalidate();
+      await utils.dunning.due.invalidate();
+    },
+    onError: (error) => toast.error(error.message || "Failed to save dunning levels"),
+  });
+
+  const updateLevel = (index: number, patch: Partial<LevelFormState>) => {
+    setLevels((prev) => prev.map((level, i) => (i === index ? { ...level, ...patch } : level)));
+  };
+
+  const handleSave = () => {
+    updateMutation.mutate({
+      levels: levels.map((level) => ({
+        level: level.level,
+        name: level.name.trim(),
+        waitDays: Number(level.waitDays) || 0,
+        fee: Number(level.fee) || 0,
+        interestRate: level.interestRate.trim() === "" ? null : Number(level.interestRate),
+        paymentTermDays: Number(level.paymentTermDays) || 1,
+        text: level.text.trim(),
+      })),
+    });
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center py-6">
+        <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {levels.map((level, index) => (
+        <div key={level.level} className="space-y-4">
+          {index > 0 && <Separator />}
+          <div className="grid gap-4 md:grid-cols-2">
+            <div className="space-y-2 md:col-span-2">
+              <Label htmlFor={`dunning-name-${level.level}`}>Level {level.level}</Label>
+              <Input
+                id={`dunning-name-${level.level}`}
+                value={level.name}
+                onChange={(e) => updateLevel(index, { name: e.target.value })}
+                maxLength={100}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor={`dunning-wait-${level.level}`}>
+                {level.level === 1 ? "Days after due date" : "Days after previous notice"}
+              </Label>
+              <Input
+                id={`dunning-wait-${level.level}`}
+                type="number"
+                min="0"
+                value={level.waitDays}
+                onChange={(e) => updateLevel(index, { waitDays: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor={`dunning-term-${level.level}`}>Payment term (days)</Label>
+              <Input
+                id={`dunning-term-${level.level}`}
+                type="number"
+                min="1"
+                value={level.paymentTermDays}
+                onChange={(e) => updateLevel(index, { paymentTermDays: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor={`dunning-fee-${level.level}`}>Fee (EUR)</Label>
+              <Input
+                id={`dunning-fee-${level.level}`}
+                type="number"
+                min="0"
+                step="0.01"
+                value={level.fee}
+                onChange={(e) => updateLevel(index, { fee: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor={`dunning-interest-${level.level}`}>Default interest (% p.a.)</Label>
+              <Input
+                id={`dunning-interest-${level.level}`}
+                type="number"
+                min="0"
+                step="0.01"
+                value={level.interestRate}
+                onChange={(e) => updateLevel(index, { interestRate: e.target.value })}
+                placeholder="No interest"
+              />
+            </div>
+            <div className="space-y-2 md:col-span-2">
+              <Label htmlFor={`dunning-text-${level.level}`}>Letter text</Label>
+              <Textarea
+                id={`dunning-text-${level.level}`}
+                value={level.text}
+                onChange={(e) => updateLevel(index, { text: e.target.value })}
+                rows={3}
+              />
+            </div>
+          </div>
+        </div>
+      ))}
+
+      <p className="text-xs text-muted-foreground">
+        Statutory default interest (§ 288 BGB) is the base rate plus 5 percentage points for consumers and plus 9
+        percentage points for business customers.
+      </p>
+
+      <div className="flex justify-end">
+        <Button type="button" onClick={handleSave} disabled={updateMutation.isPending || levels.length === 0}>
+          {updateMutation.isPending ? (
+            <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+          ) : (
+            <Save className="h-4 w-4 mr-2" />
+          )}
+          Save Dunning Levels
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,179 @@
+/**
+ * DunningPanel - dunning history (Zahlungserinnerung, Mahnungen) for one invoice
+ *
+ * Shows issued notices with their PDFs and lets the user send the next level
+ * once the invoice is overdue.
+ */
+
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { trpc } from "@/lib/trpc";
+import { Eye, Loader2, Send, Trash2 } from "@/components/ui/Icon";
+import { toast } from "sonner";
+import { formatCurrency } from "@/lib/invoiceState";
+import { PDFPreviewModal } from "@/components/PDFPreviewModal";
+import { useIsMobile } from "@/hooks/useMobile";
+
+interface DunningPanelProps {
+  invoiceId: number;
+  className?: string;
+}
+
+const formatDate = (value: Date | string | null | undefined) =>
+  value ? new Date(value).toLocaleDateString("de-DE") : "—";
+
+export function DunningPanel({ invoiceId, className }: DunningPanelProps) {
+  const isMobile = useIsMobile();
+  const [previewUrl, setPreviewUrl] = useState<string | null>(null);
+  const [previewFileName, setPreviewFileName] = useState("mahnung.pdf");
+
+  const utils = trpc.useUtils();
+  const { data, isLoading } = trpc.dunning.history.useQuery({ invoiceId });
+
+  const invalidate = async () => {
+    await utils.dunning.history.invalidate({ invoiceId });
+    await utils.dunning.due.invalidate();
+  };
+
+  const createMutation = trpc.dunning.create.useMutation({
+    onSuccess: async (notice) => {
+      toast.success(`${notice.name} created`);
+      await invalidate();
+    },
+    onError: (error) => toast.error(error.message || "Failed to create dunning notice"),
+  });
+
+  const deleteMutation = trpc.dunning.delete.useMutation({
+    onSuccess: async () => {
+      toast.success("Dunning notice deleted");
+      await invalidate();
+    },
+    onError: (error) => toast.error(error.message || "Failed to delete dunning notice"),
+  });
+
+  const handlePreview = async (noticeId: number, fileName: string) => {
+    try {
+      const { data: { session } } = await import("@/lib/supabase").then(m => m.supabase.auth.getSession());
+      if (!session?.access_token) {
+        toast.error("Please log in to preview dunning notices");
+        return;
+      }
+      const response = await fetch(`/api/dunning/${noticeId}/pdf?preview=true`, {
+        headers: {
+          'Authorization': `Bearer ${session.access_token}`,
+        },
+        credentials: 'include',
+      });
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({ error: 'Unknown error' }));
+        toast.error(errorData.error || 'Failed to generate preview');
+        return;
+      }
+      const blob = await response.blob();
+      if (previewUrl) {
+        URL.revokeObjectURL(previewUrl);
+      }
+      setPreviewUrl(URL.createObjectURL(blob));
+      setPreviewFileName(fileName);
+    } catch (error) {
+      console.error('Preview error:', error);
+      toast.error('Failed to open preview');
+    }
+  };
+
+  if (isLoading || !data || (data.notices.length === 0 && !data.next)) {
+    return null;
+  }
+
+  const latestLevel = data.notices.reduce((max, notice) => Math.max(max, notice.level), 0);
+
+  return (
+    <Card className={`p-4 space-y-4 ${className ?? ""}`}>
+      <div className="flex items-center justify-between gap-2">
+        <h3 className="text-base font-semibold">Dunning</h3>
+        {data.next && (
+          <Button
+            type="button"
+            size="sm"
+            variant={data.next.isDue ? "default" : "outline"}
+            onClick={() => createMutation.mutate({ invoiceId })}
+            disabled={createMutation.isPending}
+          >
+            {createMutation.isPending ? (
+              <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+            ) : (
+              <Send className="h-4 w-4 mr-2" />
+            )}
+            Create {data.next.name}
+          </Button>
+        )}
+      </div>
+
+      {data.next && (
+        <p className="text-sm text-muted-foreground">
+          {data.next.isDue
+            ? `${data.next.name} is due: ${formatCurrency(data.next.preview.totalDue)} incl. fees and interest.`
+            : `${data.next.name} becomes due on ${formatDate(data.next.dueAt)}.`}
+        </p>
+      )}
+
+      {data.notices.length > 0 && (
+        <div className="divide-y rounded-md border">
+          {data.notices.map((notice) => (
+            <div key={notice.id} className="flex items-center justify-between gap-3 p-3 text-sm">
+              <div className="min-w-0">
+                <div className="flex items-center gap-2">
+                  <Badge variant="outline">{notice.name}</Badge>
+                  <span className="text-muted-foreground">{formatDate(notice.issuedAt)}</span>
+                </div>
+                <div className="mt-1 text-muted-foreground">
+                  {formatCurrency(notice.totalDue)} due by {formatDate(notice.paymentDeadline)}
+                  {notice.feeAmount > 0 && ` · Fee ${formatCurrency(notice.feeAmount)}`}
+                  {notice.interestAmount > 0 && ` · Interest ${formatCurrency(notice.interestAmount)}`}
+                </div>
+              </div>
+              <div className="flex items-center gap-1">
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="icon"
+                  aria-label="Preview PDF"
+                  onClick={() => handlePreview(notice.id, `${notice.name}.pdf`)}
+                >
+                  <Eye className="h-4 w-4" />
+                </Button>
+                {notice.level === latestLevel && (
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="icon"
+                    aria-label="Delete dunning notice"
+                    onClick={() => deleteMutation.mutate({ id: notice.id })}
+                    disabled={deleteMutation.isPending}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                )}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <PDFPreviewModal
+        isOpen={!!previewUrl}
+        onClose={() => {
+          if (previewUrl) {
+            URL.revokeObjectURL(previewUrl);
+          }
+          setPreviewUrl(null);
+        }}
+        fileUrl={previewUrl ?? undefined}
+        fileName={previewFileName}
+        fullScreen={isMobile}
+      />
+    </Card>
+  );
+}
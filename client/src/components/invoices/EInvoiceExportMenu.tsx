@@ -0,0 +1,80 @@
+/**
+ * E-Invoice Export Menu
+ *
+ * Downloads an issued invoice as XRechnung XML (UBL or CII syntax).
+ * Only rendered for created invoices that have been sent.
+ */
+
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { trpc } from "@/lib/trpc";
+import { Loader2, Code } from "@/components/ui/Icon";
+import { toast } from "sonner";
+
+interface EInvoiceExportMenuProps {
+  invoiceId: number;
+}
+
+export function EInvoiceExportMenu({ invoiceId }: EInvoiceExportMenuProps) {
+  const exportMutation = trpc.invoices.exportEInvoice.useMutation({
+    onSuccess: (data) => {
+      const blob = new Blob([data.xml], { type: data.mimeType });
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = data.filename;
+      document.body.appendChild(link);
+      link.click();
+      link.remove();
+      URL.revokeObjectURL(url);
+
+      if (data.warnings.length > 0) {
+        toast.warning(`XRechnung exported with ${data.warnings.length} warning(s)`, {
+          description: data.warnings.map((warning) => warning.message).join("\n"),
+        });
+      } else {
+        toast.success("XRechnung exported");
+      }
+    },
+    onError: (error) => {
+      toast.error("Failed to export XRechnung: " + error.message);
+    },
+  });
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button
+          type="button"
+          variant="outline"
+          className="rounded-full px-3"
+          disabled={exportMutation.isPending}
+        >
+          {exportMutation.isPending ? (
+            <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+          ) : (
+            <Code className="mr-2 h-4 w-4" />
+          )}
+          XRechnung
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end" className="w-56">
+        <DropdownMenuLabel>E-Invoice Export</DropdownMenuLabel>
+        <DropdownMenuSeparator />
+        <DropdownMenuItem onClick={() => exportMutation.mutate({ id: invoiceId, syntax: "ubl" })}>
+          XRechnung (UBL)
+        </DropdownMenuItem>
+        <DropdownMenuItem onClick={() => exportMutation.mutate({ id: invoiceId, syntax: "cii" })}>
+          XRechnung (CII)
+        </DropdownMenuItem>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
@@ -18,6 +18,14 @@ import { ShareInvoiceDialog } from "./ShareInvoiceDialog";
 import { useIsMobile } from "@/hooks/useMobile";
 import { cn } from "@/lib/utils";
 import { InvoiceCategorySelect } from "./InvoiceCategorySelect";
+import {
+  INVOICE_VAT_OPTIONS,
+  calculateInvoiceTotals,
+  formatVatLabel,
+  getInvoiceVatOptionValue,
+  parseInvoiceVatOption,
+  type InvoiceVatCategory,
+} from "@shared/invoiceVat";
 
 export type InvoiceLineItem = {
   name: string;
@@ -27,6 +35,8 @@ export type InvoiceLineItem = {
   unitPrice: number;
   currency: string;
   lineTotal?: number;
+  vatRate?: number | null;
+  vatCategory?: InvoiceVatCategory | null;
 };
 
 type InvoiceFormState = {
@@ -76,6 +86,8 @@ export type InvoicePreviewData = {
     quantity: number;
     unitPrice: number;
     currency: string;
+    vatRate?: number | null;
+    vatCategory?: InvoiceVatCategory | null;
   }>;
 };
 
@@ -148,6 +160,9 @@ export function InvoiceForm({
   );
   const preferencesQuery = trpc.settings.preferences.get.useQuery();
   const language = (preferencesQuery.data?.language || "en") as "en" | "de";
+  const companySettingsQuery = trpc.settings.get.useQuery();
+  const defaultVatRate = Number(companySettingsQuery.data?.vatRate ?? 19);
+  const isKleinunternehmer = Boolean(companySettingsQuery.data?.isKleinunternehmer);
 
   useEffect(() => {
     if (isCreate && nextNumberQuery.data?.invoiceNumber) {
@@ -206,22 +221,28 @@ export function InvoiceForm({
         unitPrice: Number(item.unitPrice),
         currency: item.currency || "EUR",
         category: item.category || "services",
+        vatRate: item.vatRate === null || item.vatRate === undefined ? null : Number(item.vatRate),
       }));
       setItems(normalizedItems.length ? normalizedItems : [defaultLineItem]);
     }
   }, [getInvoiceQuery.data, isCreate]);
 
   const totals = useMemo(() => {
-    const subtotal = items.reduce(
-      (sum, item) => sum + Number(item.quantity || 0) * Number(item.unitPrice || 0),
-      0
+    const { subtotal, vatAmount, total, breakdown } = calculateInvoiceTotals(
+      items.map((item) => ({
+        lineTotal: Number(item.quantity || 0) * Number(item.unitPrice || 0),
+        vatRate: item.vatRate,
+        vatCategory: item.vatCategory,
+      })),
+      { defaultRate: defaultVatRate, isKleinunternehmer }
     );
     return {
       subtotal,
-      vat: 0,
-      total: subtotal,
+      vat: vatAmount,
+      total,
+      breakdown,
     };
-  }, [items]);
+  }, [items, defaultVatRate, isKleinunternehmer]);
 
   const formatDate = (value?: string | null) => {
     if (!value) return "—";
@@ -253,6 +274,8 @@ export function InvoiceForm({
             quantity: Number(item.quantity),
             unitPrice: Number(item.unitPrice),
             currency: item.currency || "EUR",
+            vatRate: item.vatRate ?? null,
+            vatCategory: item.vatCategory ?? undefined,
           })),
         };
       };
@@ -372,6 +395,8 @@ export function InvoiceForm({
         quantity: Number(item.quantity),
         unitPrice: Number(item.unitPrice),
         currency: item.currency || "EUR",
+        vatRate: item.vatRate ?? null,
+        vatCategory: item.vatCategory ?? undefined,
       })),
     };
 
@@ -445,6 +470,8 @@ export function InvoiceForm({
         quantity: Number(item.quantity),
         unitPrice: Number(item.unitPrice),
         currency: item.currency || "EUR",
+        vatRate: item.vatRate ?? null,
+        vatCategory: item.vatCategory ?? undefined,
       })),
     };
 
@@ -708,10 +735,24 @@ export function InvoiceForm({
                 <span>Subtotal</span>
                 <span>{formatCurrency(totals.subtotal)}</span>
               </div>
-              <div className="flex justify-between text-sm text-muted-foreground">
-                <span>VAT (pending)</span>
-                <span>{formatCurrency(totals.vat)}</span>
-              </div>
+              {isKleinunternehmer ? (
+                <div className="flex justify-between text-sm text-muted-foreground">
+                  <span>VAT (§ 19 UStG)</span>
+                  <span>{formatCurrency(0)}</span>
+                </div>
+              ) : totals.breakdown.length === 0 ? (
+                <div className="flex justify-between text-sm text-muted-foreground">
+                  <span>VAT</span>
+                  <span>{formatCurrency(0)}</span>
+                </div>
+              ) : (
+                totals.breakdown.map((entry) => (
+                  <div key={`${entry.category}:${entry.rate}`} className="flex justify-between text-sm text-muted-foreground">
+                    <span>VAT {formatVatLabel(entry.category, entry.rate)} on {formatCurrency(entry.netAmount)}</span>
+                    <span>{formatCurrency(entry.vatAmount)}</span>
+                  </div>
+                ))
+              )}
               <div className="flex justify-between text-lg">
                 <span>Total</span>
                 <span>{formatCurrency(totals.total)}</span>
@@ -1051,6 +1092,8 @@ export function InvoiceForm({
           item={editingItem}
           onSave={handleSaveItem}
           language={language}
+          defaultVatRate={defaultVatRate}
+          isKleinunternehmer={isKleinunternehmer}
         />
       </div>
     );
@@ -1379,10 +1422,24 @@ export function InvoiceForm({
           <span>Subtotal</span>
           <span>{formatCurrency(totals.subtotal)}</span>
         </div>
-        <div className="flex justify-between text-sm text-muted-foreground">
-          <span>VAT (pending)</span>
-          <span>{formatCurrency(totals.vat)}</span>
-        </div>
+        {isKleinunternehmer ? (
+          <div className="flex justify-between text-sm text-muted-foreground">
+            <span>VAT (§ 19 UStG)</span>
+            <span>{formatCurrency(0)}</span>
+          </div>
+        ) : totals.breakdown.length === 0 ? (
+          <div className="flex justify-between text-sm text-muted-foreground">
+            <span>VAT</span>
+            <span>{formatCurrency(0)}</span>
+          </div>
+        ) : (
+          totals.breakdown.map((entry) => (
+            <div key={`${entry.category}:${entry.rate}`} className="flex justify-between text-sm text-muted-foreground">
+              <span>VAT {formatVatLabel(entry.category, entry.rate)} on {formatCurrency(entry.netAmount)}</span>
+              <span>{formatCurrency(entry.vatAmount)}</span>
+            </div>
+          ))
+        )}
         <div className="flex justify-between text-lg">
           <span>Total</span>
           <span>{formatCurrency(totals.total)}</span>
@@ -1494,6 +1551,8 @@ export function InvoiceForm({
         item={editingItem}
         onSave={handleSaveItem}
         language={language}
+        defaultVatRate={defaultVatRate}
+        isKleinunternehmer={isKleinunternehmer}
       />
     </div>
   );
@@ -1505,12 +1564,16 @@ function LineItemModal({
   item,
   onSave,
   language,
+  defaultVatRate,
+  isKleinunternehmer,
 }: {
   open: boolean;
   onOpenChange: (open: boolean) => void;
   item: InvoiceLineItem;
   onSave: (item: InvoiceLineItem) => void;
   language: "en" | "de";
+  defaultVatRate: number;
+  isKleinunternehmer: boolean;
 }) {
   const [draft, setDraft] = useState<InvoiceLineItem>(item);
 
@@ -1618,10 +1681,36 @@ function LineItemModal({
               />
             </div>
           </div>
-          <div className="space-y-2">
-            <Label>Currency</Label>
-            <Input value={draft.currency} disabled />
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-2">
+              <Label>VAT</Label>
+              <Select
+                value={getInvoiceVatOptionValue(draft, defaultVatRate)}
+                onValueChange={(value) => setDraft((prev) => ({ ...prev, ...parseInvoiceVatOption(value) }))}
+                disabled={isKleinunternehmer}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {INVOICE_VAT_OPTIONS.map((option) => (
+                    <SelectItem key={option.value} value={option.value}>
+                      {option.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Currency</Label>
+              <Input value={draft.currency} disabled />
+            </div>
           </div>
+          {isKleinunternehmer && (
+            <p className="text-xs text-muted-foreground">
+              No VAT is charged as a small business (§ 19 UStG).
+            </p>
+          )}
           <div className="flex justify-between items-center p-3 bg-muted rounded-md">
             <span className="text-sm text-muted-foreground">Line Total</span>
             <span className="text-lg">{formatCurrency(lineTotal)}</span>
@@ -245,6 +245,7 @@ export function InvoiceStatusActionsDropdown({
     onSuccess: () => {
       toast.success("Invoice marked as paid");
       utils.invoices.get.invalidate({ id: invoice.id });
+      utils.invoices.payments.invalidate({ invoiceId: invoice.id });
       onActionComplete?.();
     },
     onError: (err) => toast.error(err.message),
@@ -272,6 +273,7 @@ export function InvoiceStatusActionsDropdown({
     onSuccess: () => {
       toast.success("Invoice marked as not paid");
       utils.invoices.get.invalidate({ id: invoice.id });
+      utils.invoices.payments.invalidate({ invoiceId: invoice.id });
       onActionComplete?.();
     },
     onError: (err) => toast.error(err.message),
@@ -308,6 +310,7 @@ export function InvoiceStatusActionsDropdown({
     onSuccess: () => {
       toast.success("Payment added");
       utils.invoices.get.invalidate({ id: invoice.id });
+      utils.invoices.payments.invalidate({ invoiceId: invoice.id });
       onActionComplete?.();
     },
     onError: (err) => toast.error(err.message),
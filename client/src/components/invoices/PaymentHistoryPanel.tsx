@@ -0,0 +1,116 @@
+/**
+ * PaymentHistoryPanel - timeline of the payments booked on one invoice
+ *
+ * Each payment can be undone individually; the paid amount and paid date of
+ * the invoice are recalculated on the server.
+ */
+
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { trpc } from "@/lib/trpc";
+import { Trash2 } from "@/components/ui/Icon";
+import { toast } from "sonner";
+import { formatCurrency } from "@/lib/invoiceState";
+import { DeleteConfirmDialog } from "@/components/DeleteConfirmDialog";
+import { INVOICE_PAYMENT_METHOD_LABELS } from "@shared/invoicePayments";
+import { cn } from "@/lib/utils";
+
+interface PaymentHistoryPanelProps {
+  invoiceId: number;
+  total: number;
+  /** Payments cannot be undone on read-only (e.g. cancelled) invoices */
+  readOnly?: boolean;
+  className?: string;
+}
+
+const formatDate = (value: Date | string | null | undefined) =>
+  value ? new Date(value).toLocaleDateString("de-DE") : "—";
+
+export function PaymentHistoryPanel({ invoiceId, total, readOnly, className }: PaymentHistoryPanelProps) {
+  const [deleteTargetId, setDeleteTargetId] = useState<number | null>(null);
+
+  const utils = trpc.useUtils();
+  const { data: payments = [], isLoading } = trpc.invoices.payments.useQuery({ invoiceId });
+
+  const deleteMutation = trpc.invoices.deletePayment.useMutation({
+    onSuccess: () => {
+      toast.success("Payment removed");
+      setDeleteTargetId(null);
+      utils.invoices.payments.invalidate({ invoiceId });
+      utils.invoices.get.invalidate({ id: invoiceId });
+      utils.invoices.list.invalidate();
+      utils.dunning.history.invalidate({ invoiceId });
+    },
+    onError: (error) => toast.error(error.message || "Failed to remove payment"),
+  });
+
+  if (isLoading || payments.length === 0) {
+    return null;
+  }
+
+  let runningTotal = 0;
+  const entries = payments.map((payment) => {
+    runningTotal += payment.amount;
+    return { ...payment, outstandingAfter: Math.max(0, total - runningTotal) };
+  });
+
+  return (
+    <Card className={cn("p-4 space-y-4", className)}>
+      <div className="flex items-center justify-between gap-2">
+        <h3 className="text-base font-semibold">Payments</h3>
+        <span className="text-sm text-muted-foreground">
+          {formatCurrency(runningTotal)} of {formatCurrency(total)}
+        </span>
+      </div>
+
+      <ol className="relative ml-2 border-l pl-5 space-y-4">
+        {entries.map((payment) => (
+          <li key={payment.id} className="relative">
+            <span className="absolute -left-[26px] top-1.5 h-2.5 w-2.5 rounded-full bg-primary" />
+            <div className="flex items-start justify-between gap-3 text-sm">
+              <div className="min-w-0">
+                <div className="flex items-center gap-2">
+                  <span className="font-semibold">{formatCurrency(payment.amount)}</span>
+                  <span className="text-muted-foreground">{formatDate(payment.paidAt)}</span>
+                </div>
+                <div className="mt-1 text-muted-foreground">
+                  {INVOICE_PAYMENT_METHOD_LABELS[payment.method]}
+                  {payment.reference && ` · ${payment.reference}`}
+                  {` · ${payment.outstandingAfter > 0 ? `${formatCurrency(payment.outstandingAfter)} outstanding` : "Settled"}`}
+                </div>
+                {payment.note && <div className="mt-1 text-muted-foreground italic">{payment.note}</div>}
+              </div>
+              {!readOnly && (
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="icon"
+                  aria-label="Remove payment"
+                  onClick={() => setDeleteTargetId(payment.id)}
+                  disabled={deleteMutation.isPending}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              )}
+            </div>
+          </li>
+        ))}
+      </ol>
+
+      <DeleteConfirmDialog
+        open={deleteTargetId !== null}
+        onOpenChange={(open) => {
+          if (!open) {
+            setDeleteTargetId(null);
+          }
+        }}
+        onConfirm={() => deleteTargetId !== null && deleteMutation.mutate({ paymentId: deleteTargetId })}
+        title="Remove Payment"
+        description="The payment is removed from the invoice and the outstanding amount is recalculated."
+        confirmLabel="Remove"
+        isDeleting={deleteMutation.isPending}
+      />
+    </Card>
+  );
+}
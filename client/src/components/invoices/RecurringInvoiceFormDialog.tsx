@@ -0,0 +1,432 @@
+import { useEffect, useMemo, useState } from "react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Switch } from "@/components/ui/switch";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { trpc, type RouterOutputs } from "@/lib/trpc";
+import { toast } from "sonner";
+import { Loader2, Plus, Trash2 } from "@/components/ui/Icon";
+import { formatCurrency } from "@/lib/currencyFormat";
+import {
+  INVOICE_VAT_OPTIONS,
+  calculateInvoiceTotals,
+  getInvoiceVatOptionValue,
+  parseInvoiceVatOption,
+  type InvoiceVatCategory,
+} from "@shared/invoiceVat";
+
+import {
+  RECURRING_DEFAULT_PAYMENT_TERM_DAYS,
+  RECURRING_INTERVALS,
+  RECURRING_INTERVAL_LABELS,
+  type RecurringInterval,
+} from "@shared/recurringInvoice";
+
+type RecurringInvoice = RouterOutputs["recurringInvoices"]["list"][number];
+
+interface RecurringLineDraft {
+  name: string;
+  description: string;
+  quantity: string;
+  unitPrice: string;
+  vatRate: number | null;
+  vatCategory: InvoiceVatCategory | null;
+}
+
+interface RecurringInvoiceFormDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  /** Template to edit; omit to create a new one */
+  recurringInvoice?: RecurringInvoice | null;
+}
+
+const NONE = "none";
+
+function toDateInput(value: Date | string | null | undefined) {
+  if (!value) return "";
+  const date = new Date(value);
+  const offset = date.getTimezoneOffset() * 60000;
+  return new Date(date.getTime() - offset).toISOString().slice(0, 10);
+}
+
+function emptyLine(): RecurringLineDraft {
+  return { name: "", description: "", quantity: "1", unitPrice: "", vatRate: null, vatCategory: null };
+}
+
+export function RecurringInvoiceFormDialog({ open, onOpenChange, recurringInvoice }: RecurringInvoiceFormDialogProps) {
+  const [name, setName] = useState("");
+  const [clientId, setClientId] = useState<string>(NONE);
+  const [projectId, setProjectId] = useState<string>(NONE);
+  const [interval, setRecurringInterval] = useState<RecurringInterval>("monthly");
+  const [startDate, setStartDate] = useState("");
+  const [endDate, setEndDate] = useState("");
+  const [paymentTermDays, setPaymentTermDays] = useState(String(RECURRING_DEFAULT_PAYMENT_TERM_DAYS));
+  const [autoIssue, setAutoIssue] = useState(false);
+  const [referenceNumber, setReferenceNumber] = useState("");
+  const [notes, setNotes] = useState("");
+  const [terms, setTerms] = useState("");
+  const [lines, setLines] = useState<RecurringLineDraft[]>([emptyLine()]);
+
+  const utils = trpc.useUtils();
+  const { data: contacts = [] } = trpc.contacts.list.useQuery(undefined, { enabled: open });
+  const { data: projects = [] } = trpc.projects.list.useQuery(undefined, { enabled: open });
+  const { data: settings } = trpc.settings.get.useQuery(undefined, { enabled: open });
+  const defaultVatRate = Number(settings?.vatRate ?? 19);
+  const isKleinunternehmer = Boolean(settings?.isKleinunternehmer);
+
+  useEffect(() => {
+    if (!open) return;
+    setName(recurringInvoice?.name ?? "");
+    setClientId(recurringInvoice?.clientId ? String(recurringInvoice.clientId) : NONE);
+    setProjectId(recurringInvoice?.projectId ? String(recurringInvoice.projectId) : NONE);
+    setRecurringInterval(recurringInvoice?.interval ?? "monthly");
+    setStartDate(toDateInput(recurringInvoice?.startDate ?? new Date()));
+    setEndDate(toDateInput(recurringInvoice?.endDate));
+    setPaymentTermDays(String(recurringInvoice?.paymentTermDays ?? RECURRING_DEFAULT_PAYMENT_TERM_DAYS));
+    setAutoIssue(recurringInvoice?.autoIssue ?? false);
+    setReferenceNumber(recurringInvoice?.referenceNumber ?? "");
+    setNotes(recurringInvoice?.notes ?? "");
+    setTerms(recurringInvoice?.terms ?? "");
+    setLines(
+      recurringInvoice?.items.length
+        ? recurringInvoice.items.map((item) => ({
+            name: item.name,
+            description: item.description ?? "",
+            quantity: String(item.quantity),
+            unitPrice: String(item.unitPrice),
+            vatRate: item.vatRate,
+            vatCategory: item.vatCategory,
+          }))
+        : [emptyLine()]
+    );
+  }, [open, recurringInvoice]);
+
+  const onSuccess = (message: string) => {
+    toast.success(message);
+    utils.recurringInvoices.list.invalidate();
+    onOpenChange(false);
+  };
+
+  const createMutation = trpc.recurringInvoices.create.useMutation({
+    onSuccess: () => onSuccess("Recurring invoice created"),
+    onError: (error) => toast.error(error.message || "Failed to create recurring invoice"),
+  });
+
+  const updateMutation = trpc.recurringInvoices.update.useMutation({
+    onSuccess: () => onSuccess("Recurring invoice updated"),
+    onError: (error) => toast.error(error.message || "Failed to update recurring invoice"),
+  });
+
+  const isSaving = createMutation.isPending || updateMutation.isPending;
+
+  const totals = useMemo(
+    () =>
+      calculateInvoiceTotals(
+        lines.map((line) => ({
+          lineTotal: (Number(line.quantity) || 0) * (Number(line.unitPrice) || 0),
+          vatRate: line.vatRate,
+          vatCategory: line.vatCategory,
+        })),
+        { defaultRate: defaultVatRate, isKleinunternehmer }
+      ),
+    [lines, defaultVatRate, isKleinunternehmer]
+  );
+
+  const updateLine = (index: number, patch: Partial<RecurringLineDraft>) => {
+    setLines((prev) => prev.map((line, i) => (i === index ? { ...line, ...patch } : line)));
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const items = lines
+      .filter((line) => line.name.trim())
+      .map((line) => ({
+        name: line.name.trim(),
+        description: line.description.trim() || undefined,
+        quantity: Number(line.quantity),
+        unitPrice: Number(line.unitPrice) || 0,
+        currency: "EUR",
+        vatRate: line.vatRate,
+        vatCategory: line.vatCategory ?? undefined,
+      }));
+
+    if (!name.trim()) {
+      toast.error("Enter a name");
+      return;
+    }
+    if (!startDate) {
+      toast.error("Select a start date");
+      return;
+    }
+    if (items.length === 0) {
+      toast.error("Add at least one line item");
+      return;
+    }
+    if (items.some((item) => !(item.quantity > 0))) {
+      toast.error("Quantity must be greater than 0");
+      return;
+    }
+
+    const payload = {
+      name: name.trim(),
+      clientId: clientId === NONE ? null : Number(clientId),
+      projectId: projectId === NONE ? null : Number(projectId),
+      interval,
+      startDate: new Date(startDate),
+      endDate: endDate ? new Date(endDate) : null,
+      paymentTermDays: Math.max(0, Math.round(Number(paymentTermDays) || 0)),
+      autoIssue,
+      referenceNumber: referenceNumber.trim() || null,
+      notes: notes.trim() || null,
+      terms: terms.trim() || null,
+      items,
+    };
+
+    if (recurringInvoice) {
+      updateMutation.mutate({ id: recurringInvoice.id, ...payload });
+    } else {
+      createMutation.mutate(payload);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-2xl max-h-[90vh] overflow-y-auto">
+        <form onSubmit={handleSubmit}>
+          <DialogHeader>
+            <DialogTitle>{recurringInvoice ? `Edit ${recurringInvoice.name}` : "New Recurring Invoice"}</DialogTitle>
+            <DialogDescription>
+              Each run creates an invoice with the next invoice number and the billed service period.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="grid gap-4 py-4">
+            <div className="grid gap-4 sm:grid-cols-2">
+              <div className="space-y-2 sm:col-span-2">
+                <Label htmlFor="recurringName">Name</Label>
+                <Input
+                  id="recurringName"
+                  value={name}
+                  onChange={(e) => setName(e.target.value)}
+                  placeholder="e.g. Maintenance contract"
+                  maxLength={255}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Contact</Label>
+                <Select value={clientId} onValueChange={setClientId}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select contact" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={NONE}>No contact</SelectItem>
+                    {contacts.map((contact: { id: number; name: string }) => (
+                      <SelectItem key={contact.id} value={String(contact.id)}>
+                        {contact.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>Project</Label>
+                <Select value={projectId} onValueChange={setProjectId}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select project" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={NONE}>No project</SelectItem>
+                    {projects.map((project) => (
+                      <SelectItem key={project.id} value={String(project.id)}>
+                        {project.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>Interval</Label>
+                <Select value={interval} onValueChange={(value) => setRecurringInterval(value as RecurringInterval)}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {RECURRING_INTERVALS.map((option) => (
+                      <SelectItem key={option} value={option}>
+                        {RECURRING_INTERVAL_LABELS[option]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="recurringPaymentTerm">Payment term (days)</Label>
+                <Input
+                  id="recurringPaymentTerm"
+                  type="number"
+                  min="0"
+                  value={paymentTermDays}
+                  onChange={(e) => setPaymentTermDays(e.target.value)}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="recurringStartDate">First run</Label>
+                <Input
+                  id="recurringStartDate"
+                  type="date"
+                  value={startDate}
+                  onChange={(e) => setStartDate(e.target.value)}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="recurringEndDate">End date</Label>
+                <Input
+                  id="recurringEndDate"
+                  type="date"
+                  value={endDate}
+                  onChange={(e) => setEndDate(e.target.value)}
+                  placeholder="Runs until stopped"
+                />
+              </div>
+              <div className="space-y-2 sm:col-span-2">
+                <Label htmlFor="recurringReference">Reference</Label>
+                <Input
+                  id="recurringReference"
+                  value={referenceNumber}
+                  onChange={(e) => setReferenceNumber(e.target.value)}
+                />
+              </div>
+            </div>
+
+            <div className="flex items-center justify-between gap-4 rounded-lg border p-3">
+              <div className="space-y-0.5">
+                <Label htmlFor="recurringAutoIssue" className="cursor-pointer">Issue automatically</Label>
+                <p className="text-xs text-muted-foreground">
+                  Otherwise generated invoices stay drafts until you issue them.
+                </p>
+              </div>
+              <Switch id="recurringAutoIssue" checked={autoIssue} onCheckedChange={setAutoIssue} />
+            </div>
+
+            <div className="space-y-3">
+              <div className="flex items-center justify-between">
+                <Label>Line items</Label>
+                <Button type="button" variant="outline" size="sm" onClick={() => setLines((prev) => [...prev, emptyLine()])}>
+                  <Plus className="h-4 w-4 mr-1" />
+                  Add item
+                </Button>
+              </div>
+              {lines.map((line, index) => (
+                <div key={index} className="grid gap-2 rounded-lg border p-3 sm:grid-cols-12">
+                  <Input
+                    className="sm:col-span-12"
+                    placeholder="Item name"
+                    value={line.name}
+                    onChange={(e) => updateLine(index, { name: e.target.value })}
+                  />
+                  <Input
+                    className="sm:col-span-12"
+                    placeholder="Description (optional)"
+                    value={line.description}
+                    onChange={(e) => updateLine(index, { description: e.target.value })}
+                  />
+                  <Input
+                    className="sm:col-span-3"
+                    type="number"
+                    min="0"
+                    step="0.01"
+                    placeholder="Qty"
+                    value={line.quantity}
+                    onChange={(e) => updateLine(index, { quantity: e.target.value })}
+                  />
+                  <Input
+                    className="sm:col-span-4"
+                    type="number"
+                    min="0"
+                    step="0.01"
+                    placeholder="Unit price"
+                    value={line.unitPrice}
+                    onChange={(e) => updateLine(index, { unitPrice: e.target.value })}
+                  />
+                  <div className="sm:col-span-4">
+                    <Select
+                      value={getInvoiceVatOptionValue(line, defaultVatRate)}
+                      onValueChange={(value) => updateLine(index, parseInvoiceVatOption(value))}
+                      disabled={isKleinunternehmer}
+                    >
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {INVOICE_VAT_OPTIONS.map((option) => (
+                          <SelectItem key={option.value} value={option.value}>
+                            {option.label}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="icon"
+                    className="sm:col-span-1"
+                    onClick={() => setLines((prev) => (prev.length > 1 ? prev.filter((_, i) => i !== index) : prev))}
+                    disabled={lines.length === 1}
+                    aria-label="Remove item"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+              <div className="space-y-1 text-sm text-right">
+                <div>Subtotal: {formatCurrency(totals.subtotal)}</div>
+                {isKleinunternehmer ? (
+                  <div className="text-muted-foreground">VAT (§ 19 UStG): {formatCurrency(0)}</div>
+                ) : (
+                  <div>VAT: {formatCurrency(totals.vatAmount)}</div>
+                )}
+                <div className="font-semibold">Total: {formatCurrency(totals.total)}</div>
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="recurringNotes">Notes</Label>
+              <Textarea id="recurringNotes" value={notes} onChange={(e) => setNotes(e.target.value)} rows={2} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="recurringTerms">Terms</Label>
+              <Textarea id="recurringTerms" value={terms} onChange={(e) => setTerms(e.target.value)} rows={2} />
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)} disabled={isSaving}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={isSaving}>
+              {isSaving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              {recurringInvoice ? "Save" : "Create Recurring Invoice"}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
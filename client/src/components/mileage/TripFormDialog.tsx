@@ -0,0 +1,348 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { trpc, type RouterOutputs } from "@/lib/trpc";
+import { toast } from "sonner";
+import { Loader2, MapPin } from "@/components/ui/Icon";
+import { formatCurrency } from "@/lib/currencyFormat";
+import {
+  DISTANCE_SOURCE_LABELS,
+  TRIP_TYPES,
+  TRIP_TYPE_LABELS,
+  calculateMileageAmountCents,
+  type DistanceSource,
+  type TripType,
+} from "@shared/mileage";
+
+type Vehicle = RouterOutputs["mileage"]["vehicles"][number];
+type LogbookEntry = RouterOutputs["mileage"]["logbook"]["entries"][number];
+
+interface TripFormDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  vehicle: Vehicle;
+  /** Trip to correct; the dialog is prefilled with its values */
+  correcting?: LogbookEntry | null;
+}
+
+const NONE = "none";
+
+function toDateInput(value: Date | string) {
+  const date = new Date(value);
+  const offset = date.getTimezoneOffset() * 60000;
+  return new Date(date.getTime() - offset).toISOString().slice(0, 10);
+}
+
+const parseNumber = (value: string) => {
+  const parsed = Number(value.replace(",", "."));
+  return value.trim() && Number.isFinite(parsed) ? parsed : null;
+};
+
+export function TripFormDialog({ open, onOpenChange, vehicle, correcting }: TripFormDialogProps) {
+  const [tripDate, setTripDate] = useState("");
+  const [tripType, setTripType] = useState<TripType>("business");
+  const [startProjectId, setStartProjectId] = useState(NONE);
+  const [startAddress, setStartAddress] = useState("");
+  const [endProjectId, setEndProjectId] = useState(NONE);
+  const [endAddress, setEndAddress] = useState("");
+  const [distanceKm, setDistanceKm] = useState("");
+  const [distanceSource, setDistanceSource] = useState<DistanceSource>("manual");
+  const [odometerStart, setOdometerStart] = useState("");
+  const [odometerEnd, setOdometerEnd] = useState("");
+  const [purpose, setPurpose] = useState("");
+  const [businessPartner, setBusinessPartner] = useState("");
+  const [projectId, setProjectId] = useState(NONE);
+
+  const utils = trpc.useUtils();
+  const { data: projects = [] } = trpc.projects.list.useQuery(undefined, { enabled: open });
+  const { data: settings } = trpc.settings.get.useQuery(undefined, { enabled: open });
+
+  useEffect(() => {
+    if (!open) return;
+    setTripDate(toDateInput(correcting?.tripDate ?? new Date()));
+    setTripType(correcting?.tripType ?? "business");
+    setStartProjectId(NONE);
+    setStartAddress(correcting?.startAddress ?? settings?.address ?? "");
+    setEndProjectId(correcting?.projectId ? String(correcting.projectId) : NONE);
+    setEndAddress(correcting?.endAddress ?? "");
+    setDistanceKm(correcting ? String(correcting.distanceKm) : "");
+    setDistanceSource("manual");
+    setOdometerStart(correcting?.odometerStart != null ? String(correcting.odometerStart) : "");
+    setOdometerEnd(correcting?.odometerEnd != null ? String(correcting.odometerEnd) : "");
+    setPurpose(correcting?.purpose ?? "");
+    setBusinessPartner(correcting?.businessPartner ?? "");
+    setProjectId(correcting?.projectId ? String(correcting.projectId) : NONE);
+    // settings only provide the default start address
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [open, correcting]);
+
+  const estimateMutation = trpc.mileage.estimateDistance.useMutation({
+    onSuccess: (result) => {
+      if (!result) {
+        toast.error("Could not locate start and destination");
+        return;
+      }
+      setDistanceKm(String(result.distanceKm));
+      setDistanceSource(result.source);
+    },
+    onError: (error) => toast.error(error.message || "Failed to calculate distance"),
+  });
+
+  const estimate = (start: { projectId: string; address: string }, end: { projectId: string; address: string }) => {
+    const toEndpoint = (endpoint: { projectId: string; address: string }) => ({
+      projectId: endpoint.projectId === NONE ? null : Number(endpoint.projectId),
+      address: endpoint.address.trim() || null,
+    });
+    estimateMutation.mutate({ from: toEndpoint(start), to: toEndpoint(end) });
+  };
+
+  const selectProject = (side: "start" | "end", value: string) => {
+    const project = projects.find((item) => String(item.id) === value);
+    const address = project ? project.address || project.name : "";
+    if (side === "start") {
+      setStartProjectId(value);
+      if (project) setStartAddress(address);
+    } else {
+      setEndProjectId(value);
+      if (project) {
+        setEndAddress(address);
+        setProjectId(value);
+        if (!businessPartner && project.clientContact?.name) setBusinessPartner(project.clientContact.name);
+      }
+    }
+
+    // Prefill the distance once both ends are known
+    const start = side === "start" ? { projectId: value, address } : { projectId: startProjectId, address: startAddress };
+    const end = side === "end" ? { projectId: value, address } : { projectId: endProjectId, address: endAddress };
+    if (project && (start.projectId !== NONE || start.address.trim()) && (end.projectId !== NONE || end.address.trim())) {
+      estimate(start, end);
+    }
+  };
+
+  const updateOdometer = (side: "start" | "end", value: string) => {
+    if (side === "start") setOdometerStart(value);
+    else setOdometerEnd(value);
+    const start = parseNumber(side === "start" ? value : odometerStart);
+    const end = parseNumber(side === "end" ? value : odometerEnd);
+    if (start !== null && end !== null && end > start) {
+      setDistanceKm(String(end - start));
+      setDistanceSource("odometer");
+    }
+  };
+
+  const onSuccess = (message: string) => {
+    toast.success(message);
+    utils.mileage.logbook.invalidate();
+    utils.expenses.invalidate();
+    onOpenChange(false);
+  };
+
+  const recordMutation = trpc.mileage.recordTrip.useMutation({
+    onSuccess: () => onSuccess("Trip recorded"),
+    onError: (error) => toast.error(error.message || "Failed to record trip"),
+  });
+
+  const correctMutation = trpc.mileage.correctTrip.useMutation({
+    onSuccess: () => onSuccess("Correction recorded"),
+    onError: (error) => toast.error(error.message || "Failed to record correction"),
+  });
+
+  const isSaving = recordMutation.isPending || correctMutation.isPending;
+  const distance = parseNumber(distanceKm);
+  const amountCents = tripType === "business" && distance
+    ? calculateMileageAmountCents(distance, Number(vehicle.ratePerKm))
+    : 0;
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!tripDate || !startAddress.trim() || !endAddress.trim()) {
+      toast.error("Enter date, start and destination");
+      return;
+    }
+    if (!distance || distance <= 0) {
+      toast.error("Enter the distance");
+      return;
+    }
+    if (!purpose.trim()) {
+      toast.error("Enter the purpose of the trip");
+      return;
+    }
+
+    const payload = {
+      tripDate,
+      startAddress: startAddress.trim(),
+      endAddress: endAddress.trim(),
+      distanceKm: distance,
+      distanceSource,
+      odometerStart: parseNumber(odometerStart),
+      odometerEnd: parseNumber(odometerEnd),
+      tripType,
+      purpose: purpose.trim(),
+      businessPartner: businessPartner.trim() || null,
+      projectId: projectId === NONE ? null : Number(projectId),
+    };
+    if (correcting) {
+      correctMutation.mutate({ tripId: correcting.id, ...payload });
+    } else {
+      recordMutation.mutate({ vehicleId: vehicle.id, ...payload });
+    }
+  };
+
+  const projectSelect = (id: string, value: string, onChange: (value: string) => void) => (
+    <Select value={value} onValueChange={onChange}>
+      <SelectTrigger id={id}>
+        <SelectValue placeholder="Project" />
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value={NONE}>No project</SelectItem>
+        {projects.map((project) => (
+          <SelectItem key={project.id} value={String(project.id)}>
+            {project.name}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-2xl max-h-[90vh] overflow-y-auto">
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <DialogHeader>
+            <DialogTitle>{correcting ? `Correct Trip No. ${correcting.sequence}` : "Record Trip"}</DialogTitle>
+            <DialogDescription>
+              {correcting
+                ? "The correction is added as a new entry; the original trip stays in the log."
+                : `${vehicle.name}${vehicle.licensePlate ? ` · ${vehicle.licensePlate}` : ""}. Recorded trips can't be edited, only corrected.`}
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="grid gap-4 sm:grid-cols-2">
+            <div className="space-y-2">
+              <Label htmlFor="tripDate">Date</Label>
+              <Input id="tripDate" type="date" value={tripDate} onChange={(e) => setTripDate(e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="tripType">Type</Label>
+              <Select value={tripType} onValueChange={(value) => setTripType(value as TripType)}>
+                <SelectTrigger id="tripType">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {TRIP_TYPES.map((value) => (
+                    <SelectItem key={value} value={value}>
+                      {TRIP_TYPE_LABELS[value]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="tripStart">Start</Label>
+            <div className="grid gap-2 sm:grid-cols-[1fr_2fr]">
+              {projectSelect("tripStartProject", startProjectId, (value) => selectProject("start", value))}
+              <Input id="tripStart" value={startAddress} onChange={(e) => setStartAddress(e.target.value)} placeholder="Address" />
+            </div>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="tripEnd">Destination</Label>
+            <div className="grid gap-2 sm:grid-cols-[1fr_2fr]">
+              {projectSelect("tripEndProject", endProjectId, (value) => selectProject("end", value))}
+              <Input id="tripEnd" value={endAddress} onChange={(e) => setEndAddress(e.target.value)} placeholder="Address" />
+            </div>
+          </div>
+
+          <div className="grid gap-4 sm:grid-cols-3">
+            <div className="space-y-2">
+              <Label htmlFor="odometerStart">Odometer start</Label>
+              <Input id="odometerStart" inputMode="numeric" value={odometerStart} onChange={(e) => updateOdometer("start", e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="odometerEnd">Odometer end</Label>
+              <Input id="odometerEnd" inputMode="numeric" value={odometerEnd} onChange={(e) => updateOdometer("end", e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="distanceKm">Distance (km)</Label>
+              <div className="flex gap-2">
+                <Input
+                  id="distanceKm"
+                  inputMode="decimal"
+                  value={distanceKm}
+                  onChange={(e) => {
+                    setDistanceKm(e.target.value);
+                    setDistanceSource("manual");
+                  }}
+                />
+                <Button
+                  type="button"
+                  variant="outline"
+                  size="icon"
+                  title="Calculate distance"
+                  onClick={() =>
+                    estimate(
+                      { projectId: startProjectId, address: startAddress },
+                      { projectId: endProjectId, address: endAddress }
+                    )
+                  }
+                  disabled={estimateMutation.isPending}
+                >
+                  {estimateMutation.isPending ? <Loader2 className="h-4 w-4 animate-spin" /> : <MapPin className="h-4 w-4" />}
+                </Button>
+              </div>
+              <p className="text-xs text-muted-foreground">{DISTANCE_SOURCE_LABELS[distanceSource]}</p>
+            </div>
+          </div>
+
+          <div className="grid gap-4 sm:grid-cols-2">
+            <div className="space-y-2">
+              <Label htmlFor="tripPurpose">Purpose</Label>
+              <Input id="tripPurpose" value={purpose} onChange={(e) => setPurpose(e.target.value)} placeholder="e.g. Site inspection" />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="tripPartner">Business partner</Label>
+              <Input id="tripPartner" value={businessPartner} onChange={(e) => setBusinessPartner(e.target.value)} />
+            </div>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="tripProject">Linked project</Label>
+            {projectSelect("tripProject", projectId, setProjectId)}
+          </div>
+
+          {amountCents > 0 && (
+            <p className="text-sm text-muted-foreground">
+              Creates a vehicle expense of {formatCurrency(amountCents / 100)} ({Number(vehicle.ratePerKm).toFixed(2)} € per km)
+            </p>
+          )}
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={isSaving}>
+              {isSaving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              {correcting ? "Record correction" : "Record trip"}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
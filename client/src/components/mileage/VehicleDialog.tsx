@@ -0,0 +1,170 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { trpc, type RouterOutputs } from "@/lib/trpc";
+import { toast } from "sonner";
+import { Loader2 } from "@/components/ui/Icon";
+import {
+  STATUTORY_MILEAGE_RATES,
+  VEHICLE_KINDS,
+  VEHICLE_KIND_LABELS,
+  type VehicleKind,
+} from "@shared/mileage";
+
+type Vehicle = RouterOutputs["mileage"]["vehicles"][number];
+
+interface VehicleDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  /** Vehicle to edit; omit to add a new one */
+  vehicle?: Vehicle | null;
+  onSaved?: (vehicle: Vehicle) => void;
+}
+
+export function VehicleDialog({ open, onOpenChange, vehicle, onSaved }: VehicleDialogProps) {
+  const [name, setName] = useState("");
+  const [licensePlate, setLicensePlate] = useState("");
+  const [kind, setKind] = useState<VehicleKind>("car");
+  const [ratePerKm, setRatePerKm] = useState(String(STATUTORY_MILEAGE_RATES.car));
+
+  const utils = trpc.useUtils();
+
+  useEffect(() => {
+    if (!open) return;
+    setName(vehicle?.name ?? "");
+    setLicensePlate(vehicle?.licensePlate ?? "");
+    setKind(vehicle?.kind ?? "car");
+    setRatePerKm(vehicle ? String(Number(vehicle.ratePerKm)) : String(STATUTORY_MILEAGE_RATES.car));
+  }, [open, vehicle]);
+
+  const onSuccess = (saved: Vehicle | null, message: string) => {
+    toast.success(message);
+    utils.mileage.vehicles.invalidate();
+    if (saved) onSaved?.(saved);
+    onOpenChange(false);
+  };
+
+  const createMutation = trpc.mileage.createVehicle.useMutation({
+    onSuccess: (saved) => onSuccess(saved, "Vehicle added"),
+    onError: (error) => toast.error(error.message || "Failed to add vehicle"),
+  });
+
+  const updateMutation = trpc.mileage.updateVehicle.useMutation({
+    onSuccess: (saved) => onSuccess(saved, "Vehicle updated"),
+    onError: (error) => toast.error(error.message || "Failed to update vehicle"),
+  });
+
+  const isSaving = createMutation.isPending || updateMutation.isPending;
+
+  const changeKind = (value: VehicleKind) => {
+    // Keep a custom rate, but follow the statutory rate while it is unchanged
+    if (Number(ratePerKm) === STATUTORY_MILEAGE_RATES[kind]) {
+      setRatePerKm(String(STATUTORY_MILEAGE_RATES[value]));
+    }
+    setKind(value);
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const rate = Number(ratePerKm.replace(",", "."));
+    if (!name.trim()) {
+      toast.error("Enter a name");
+      return;
+    }
+    if (!Number.isFinite(rate) || rate < 0) {
+      toast.error("Enter a valid rate per km");
+      return;
+    }
+
+    const payload = {
+      name: name.trim(),
+      licensePlate: licensePlate.trim() || null,
+      kind,
+      ratePerKm: rate,
+    };
+    if (vehicle) {
+      updateMutation.mutate({ id: vehicle.id, ...payload });
+    } else {
+      createMutation.mutate(payload);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <DialogHeader>
+            <DialogTitle>{vehicle ? `Edit ${vehicle.name}` : "Add Vehicle"}</DialogTitle>
+            <DialogDescription>
+              Each vehicle keeps its own mileage log. Rate changes only apply to new trips.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-2">
+            <Label htmlFor="vehicleName">Name</Label>
+            <Input id="vehicleName" value={name} onChange={(e) => setName(e.target.value)} placeholder="e.g. VW Transporter" />
+          </div>
+          <div className="grid gap-4 sm:grid-cols-2">
+            <div className="space-y-2">
+              <Label htmlFor="vehiclePlate">License plate</Label>
+              <Input id="vehiclePlate" value={licensePlate} onChange={(e) => setLicensePlate(e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="vehicleKind">Type</Label>
+              <Select value={kind} onValueChange={(value) => changeKind(value as VehicleKind)}>
+                <SelectTrigger id="vehicleKind">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {VEHICLE_KINDS.map((value) => (
+                    <SelectItem key={value} value={value}>
+                      {VEHICLE_KIND_LABELS[value]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="vehicleRate">Rate per business km (€)</Label>
+            <Input
+              id="vehicleRate"
+              inputMode="decimal"
+              value={ratePerKm}
+              onChange={(e) => setRatePerKm(e.target.value)}
+            />
+            <p className="text-xs text-muted-foreground">
+              Statutory rate for this vehicle type: {STATUTORY_MILEAGE_RATES[kind].toFixed(2)} €
+            </p>
+          </div>
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={isSaving}>
+              {isSaving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Save
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -21,6 +21,7 @@ import {
   ClipboardDocument,
   ClipboardCheck,
   DocumentCurrencyEuro,
+  ClipboardDocumentList,
   FileSpreadsheet,
   PencilRuler,
   PencilSquareIcon,
@@ -125,6 +126,12 @@ export const MODULE_REGISTRY = {
       path: '/expenses',
       icon: Receipt,
     },
+    {
+      id: 'quotes',
+      label: 'Quotes',
+      path: '/quotes',
+      icon: ClipboardDocumentList,
+    },
     {
       id: 'invoices',
       label: 'Invoices',
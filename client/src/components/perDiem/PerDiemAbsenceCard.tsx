@@ -0,0 +1,154 @@
+import { useState } from "react";
+import { Link } from "wouter";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent } from "@/components/ui/card";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { trpc, type RouterOutputs } from "@/lib/trpc";
+import { formatCurrency } from "@/lib/currencyFormat";
+import { toast } from "sonner";
+import { Loader2 } from "@/components/ui/Icon";
+import {
+  MEALS,
+  MEAL_LABELS,
+  NO_MEALS_PROVIDED,
+  PER_DIEM_DAY_KIND_LABELS,
+  calculatePerDiemDay,
+  type ProvidedMeals,
+} from "@shared/perDiem";
+
+type Absence = RouterOutputs["perDiem"]["absences"][number];
+
+const formatDay = (date: string) =>
+  new Date(`${date}T00:00:00`).toLocaleDateString("de-DE", { weekday: "short", day: "2-digit", month: "2-digit" });
+
+const formatTime = (value: Date | string) =>
+  new Date(value).toLocaleTimeString("de-DE", { hour: "2-digit", minute: "2-digit" });
+
+const EXPENSE_STATUS_LABELS: Record<NonNullable<Absence["claim"]>["expenseStatus"], string> = {
+  needs_review: "Needs review",
+  in_order: "In order",
+  void: "Void",
+};
+
+interface PerDiemAbsenceCardProps {
+  absence: Absence;
+}
+
+/**
+ * One absence with its days. Provided meals are ticked per day before the
+ * allowance is proposed as an expense; afterwards the stored claim is shown.
+ */
+export function PerDiemAbsenceCard({ absence }: PerDiemAbsenceCardProps) {
+  const [meals, setMeals] = useState<Record<string, ProvidedMeals>>({});
+  const utils = trpc.useUtils();
+
+  const proposeMutation = trpc.perDiem.propose.useMutation({
+    onSuccess: () => {
+      toast.success("Meal allowance added to expenses for review");
+      utils.perDiem.absences.invalidate();
+      utils.expenses.invalidate();
+    },
+    onError: (error) => toast.error(error.message || "Failed to propose meal allowance"),
+  });
+
+  const claim = absence.claim;
+  const days = claim
+    ? claim.days
+    : absence.days.map((day) => {
+        const dayMeals = meals[day.date] ?? NO_MEALS_PROVIDED;
+        return { ...day, meals: dayMeals, amountCents: calculatePerDiemDay(day.kind, day.hours, dayMeals).amountCents };
+      });
+  const totalCents = claim ? claim.amountCents : days.reduce((sum, day) => sum + day.amountCents, 0);
+
+  const toggleMeal = (date: string, meal: keyof ProvidedMeals, checked: boolean) => {
+    setMeals((current) => ({
+      ...current,
+      [date]: { ...(current[date] ?? NO_MEALS_PROVIDED), [meal]: checked },
+    }));
+  };
+
+  return (
+    <Card>
+      <CardContent className="p-4 space-y-3">
+        <div className="flex flex-wrap items-start justify-between gap-2">
+          <div className="min-w-0">
+            <div className="font-medium">
+              {new Date(absence.startsAt).toLocaleDateString("de-DE")} {formatTime(absence.startsAt)}
+              {" – "}
+              {new Date(absence.endsAt).toLocaleDateString("de-DE")} {formatTime(absence.endsAt)}
+            </div>
+            <div className="text-sm text-muted-foreground break-words">
+              {absence.projects.map((project, index) => (
+                <span key={project.id}>
+                  {index > 0 && ", "}
+                  <Link href={`/projects/${project.id}`} className="underline">
+                    {project.name}
+                  </Link>
+                </span>
+              ))}
+            </div>
+          </div>
+          <div className="flex items-center gap-2">
+            {absence.overnight && <Badge variant="outline">Overnight</Badge>}
+            {claim && (
+              <Link href={`/expenses/${claim.expenseId}`}>
+                <Badge variant="secondary">{EXPENSE_STATUS_LABELS[claim.expenseStatus]}</Badge>
+              </Link>
+            )}
+          </div>
+        </div>
+
+        <div className="divide-y rounded-md border">
+          {days.map((day) => (
+            <div key={day.date} className="flex flex-wrap items-center gap-x-4 gap-y-2 p-2 text-sm">
+              <div className="w-40">
+                <div>{formatDay(day.date)}</div>
+                <div className="text-xs text-muted-foreground">
+                  {PER_DIEM_DAY_KIND_LABELS[day.kind]} · {day.hours.toLocaleString("de-DE")} h
+                </div>
+              </div>
+              <div className="flex flex-wrap gap-3 flex-1">
+                {MEALS.map((meal) => {
+                  const id = `meal-${absence.startsAt}-${day.date}-${meal}`;
+                  return (
+                    <div key={meal} className="flex items-center gap-1.5">
+                      <Checkbox
+                        id={id}
+                        checked={day.meals[meal]}
+                        disabled={Boolean(claim)}
+                        onCheckedChange={(checked) => toggleMeal(day.date, meal, checked === true)}
+                      />
+                      <Label htmlFor={id} className="text-xs font-normal cursor-pointer">
+                        {MEAL_LABELS[meal]}
+                      </Label>
+                    </div>
+                  );
+                })}
+              </div>
+              <div className="font-medium tabular-nums">{formatCurrency(day.amountCents / 100)}</div>
+            </div>
+          ))}
+        </div>
+
+        <div className="flex items-center justify-between gap-2">
+          <span className="text-sm">
+            Total <span className="font-semibold">{formatCurrency(totalCents / 100)}</span>
+          </span>
+          {!claim && (
+            <Button
+              type="button"
+              size="sm"
+              disabled={totalCents <= 0 || proposeMutation.isPending}
+              onClick={() => proposeMutation.mutate({ startsAt: new Date(absence.startsAt), meals })}
+            >
+              {proposeMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Propose expense
+            </Button>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,359 @@
+import { useEffect, useMemo, useState } from "react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { trpc, type RouterOutputs } from "@/lib/trpc";
+import { toast } from "sonner";
+import { Loader2, Plus, Trash2 } from "@/components/ui/Icon";
+import { formatCurrency } from "@/lib/currencyFormat";
+import {
+  INVOICE_VAT_OPTIONS,
+  calculateInvoiceTotals,
+  getInvoiceVatOptionValue,
+  parseInvoiceVatOption,
+  type InvoiceVatCategory,
+} from "@shared/invoiceVat";
+
+type Quote = RouterOutputs["quotes"]["list"][number];
+
+interface QuoteLineDraft {
+  name: string;
+  description: string;
+  quantity: string;
+  unitPrice: string;
+  vatRate: number | null;
+  vatCategory: InvoiceVatCategory | null;
+}
+
+interface QuoteFormDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  /** Quote to edit; omit to create a new one */
+  quote?: Quote | null;
+}
+
+const NONE = "none";
+
+function toDateInput(value: Date | string | null | undefined) {
+  if (!value) return "";
+  const date = new Date(value);
+  const offset = date.getTimezoneOffset() * 60000;
+  return new Date(date.getTime() - offset).toISOString().slice(0, 10);
+}
+
+function emptyLine(): QuoteLineDraft {
+  return { name: "", description: "", quantity: "1", unitPrice: "", vatRate: null, vatCategory: null };
+}
+
+export function QuoteFormDialog({ open, onOpenChange, quote }: QuoteFormDialogProps) {
+  const [clientId, setClientId] = useState<string>(NONE);
+  const [projectId, setProjectId] = useState<string>(NONE);
+  const [issueDate, setIssueDate] = useState("");
+  const [validUntil, setValidUntil] = useState("");
+  const [referenceNumber, setReferenceNumber] = useState("");
+  const [notes, setNotes] = useState("");
+  const [terms, setTerms] = useState("");
+  const [lines, setLines] = useState<QuoteLineDraft[]>([emptyLine()]);
+
+  const utils = trpc.useUtils();
+  const { data: contacts = [] } = trpc.contacts.list.useQuery(undefined, { enabled: open });
+  const { data: projects = [] } = trpc.projects.list.useQuery(undefined, { enabled: open });
+  const { data: settings } = trpc.settings.get.useQuery(undefined, { enabled: open });
+  const defaultVatRate = Number(settings?.vatRate ?? 19);
+  const isKleinunternehmer = Boolean(settings?.isKleinunternehmer);
+
+  useEffect(() => {
+    if (!open) return;
+    setClientId(quote?.clientId ? String(quote.clientId) : NONE);
+    setProjectId(quote?.projectId ? String(quote.projectId) : NONE);
+    setIssueDate(toDateInput(quote?.issueDate ?? new Date()));
+    setValidUntil(toDateInput(quote?.validUntil));
+    setReferenceNumber(quote?.referenceNumber ?? "");
+    setNotes(quote?.notes ?? "");
+    setTerms(quote?.terms ?? "");
+    setLines(
+      quote?.items.length
+        ? quote.items.map((item) => ({
+            name: item.name,
+            description: item.description ?? "",
+            quantity: String(item.quantity),
+            unitPrice: String(item.unitPrice),
+            vatRate: item.vatRate,
+            vatCategory: item.vatCategory,
+          }))
+        : [emptyLine()]
+    );
+  }, [open, quote]);
+
+  const onSuccess = (message: string) => {
+    toast.success(message);
+    utils.quotes.list.invalidate();
+    onOpenChange(false);
+  };
+
+  const createMutation = trpc.quotes.create.useMutation({
+    onSuccess: () => onSuccess("Quote created"),
+    onError: (error) => toast.error(error.message || "Failed to create quote"),
+  });
+
+  const updateMutation = trpc.quotes.update.useMutation({
+    onSuccess: () => onSuccess("Quote updated"),
+    onError: (error) => toast.error(error.message || "Failed to update quote"),
+  });
+
+  const isSaving = createMutation.isPending || updateMutation.isPending;
+
+  const totals = useMemo(
+    () =>
+      calculateInvoiceTotals(
+        lines.map((line) => ({
+          lineTotal: (Number(line.quantity) || 0) * (Number(line.unitPrice) || 0),
+          vatRate: line.vatRate,
+          vatCategory: line.vatCategory,
+        })),
+        { defaultRate: defaultVatRate, isKleinunternehmer }
+      ),
+    [lines, defaultVatRate, isKleinunternehmer]
+  );
+
+  const updateLine = (index: number, patch: Partial<QuoteLineDraft>) => {
+    setLines((prev) => prev.map((line, i) => (i === index ? { ...line, ...patch } : line)));
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const items = lines
+      .filter((line) => line.name.trim())
+      .map((line) => ({
+        name: line.name.trim(),
+        description: line.description.trim() || undefined,
+        quantity: Number(line.quantity),
+        unitPrice: Number(line.unitPrice) || 0,
+        currency: "EUR",
+        vatRate: line.vatRate,
+        vatCategory: line.vatCategory ?? undefined,
+      }));
+
+    if (items.length === 0) {
+      toast.error("Add at least one line item");
+      return;
+    }
+    if (items.some((item) => !(item.quantity > 0))) {
+      toast.error("Quantity must be greater than 0");
+      return;
+    }
+
+    const payload = {
+      clientId: clientId === NONE ? null : Number(clientId),
+      projectId: projectId === NONE ? null : Number(projectId),
+      issueDate: issueDate ? new Date(issueDate) : undefined,
+      validUntil: validUntil ? new Date(validUntil) : undefined,
+      referenceNumber: referenceNumber.trim() || null,
+      notes: notes.trim() || null,
+      terms: terms.trim() || null,
+      items,
+    };
+
+    if (quote) {
+      updateMutation.mutate({ id: quote.id, ...payload });
+    } else {
+      createMutation.mutate(payload);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-2xl max-h-[90vh] overflow-y-auto">
+        <form onSubmit={handleSubmit}>
+          <DialogHeader>
+            <DialogTitle>{quote ? `Edit ${quote.quoteNumber}` : "New Quote"}</DialogTitle>
+            <DialogDescription>
+              {quote ? "Only draft quotes can be edited." : "The quote number is assigned when you save."}
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="grid gap-4 py-4">
+            <div className="grid gap-4 sm:grid-cols-2">
+              <div className="space-y-2">
+                <Label>Contact</Label>
+                <Select value={clientId} onValueChange={setClientId}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select contact" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={NONE}>No contact</SelectItem>
+                    {contacts.map((contact: { id: number; name: string }) => (
+                      <SelectItem key={contact.id} value={String(contact.id)}>
+                        {contact.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>Project</Label>
+                <Select value={projectId} onValueChange={setProjectId}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select project" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={NONE}>No project</SelectItem>
+                    {projects.map((project) => (
+                      <SelectItem key={project.id} value={String(project.id)}>
+                        {project.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="quoteIssueDate">Quote date</Label>
+                <Input
+                  id="quoteIssueDate"
+                  type="date"
+                  value={issueDate}
+                  onChange={(e) => setIssueDate(e.target.value)}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="quoteValidUntil">Valid until</Label>
+                <Input
+                  id="quoteValidUntil"
+                  type="date"
+                  value={validUntil}
+                  onChange={(e) => setValidUntil(e.target.value)}
+                  placeholder="30 days after quote date"
+                />
+              </div>
+              <div className="space-y-2 sm:col-span-2">
+                <Label htmlFor="quoteReference">Reference</Label>
+                <Input
+                  id="quoteReference"
+                  value={referenceNumber}
+                  onChange={(e) => setReferenceNumber(e.target.value)}
+                />
+              </div>
+            </div>
+
+            <div className="space-y-3">
+              <div className="flex items-center justify-between">
+                <Label>Line items</Label>
+                <Button type="button" variant="outline" size="sm" onClick={() => setLines((prev) => [...prev, emptyLine()])}>
+                  <Plus className="h-4 w-4 mr-1" />
+                  Add item
+                </Button>
+              </div>
+              {lines.map((line, index) => (
+                <div key={index} className="grid gap-2 rounded-lg border p-3 sm:grid-cols-12">
+                  <Input
+                    className="sm:col-span-12"
+                    placeholder="Item name"
+                    value={line.name}
+                    onChange={(e) => updateLine(index, { name: e.target.value })}
+                  />
+                  <Input
+                    className="sm:col-span-12"
+                    placeholder="Description (optional)"
+                    value={line.description}
+                    onChange={(e) => updateLine(index, { description: e.target.value })}
+                  />
+                  <Input
+                    className="sm:col-span-3"
+                    type="number"
+                    min="0"
+                    step="0.01"
+                    placeholder="Qty"
+                    value={line.quantity}
+                    onChange={(e) => updateLine(index, { quantity: e.target.value })}
+                  />
+                  <Input
+                    className="sm:col-span-4"
+                    type="number"
+                    min="0"
+                    step="0.01"
+                    placeholder="Unit price"
+                    value={line.unitPrice}
+                    onChange={(e) => updateLine(index, { unitPrice: e.target.value })}
+                  />
+                  <div className="sm:col-span-4">
+                    <Select
+                      value={getInvoiceVatOptionValue(line, defaultVatRate)}
+                      onValueChange={(value) => updateLine(index, parseInvoiceVatOption(value))}
+                      disabled={isKleinunternehmer}
+                    >
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {INVOICE_VAT_OPTIONS.map((option) => (
+                          <SelectItem key={option.value} value={option.value}>
+                            {option.label}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="icon"
+                    className="sm:col-span-1"
+                    onClick={() => setLines((prev) => (prev.length > 1 ? prev.filter((_, i) => i !== index) : prev))}
+                    disabled={lines.length === 1}
+                    aria-label="Remove item"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+              <div className="space-y-1 text-sm text-right">
+                <div>Subtotal: {formatCurrency(totals.subtotal)}</div>
+                {isKleinunternehmer ? (
+                  <div className="text-muted-foreground">VAT (§ 19 UStG): {formatCurrency(0)}</div>
+                ) : (
+                  <div>VAT: {formatCurrency(totals.vatAmount)}</div>
+                )}
+                <div className="font-semibold">Total: {formatCurrency(totals.total)}</div>
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="quoteNotes">Notes</Label>
+              <Textarea id="quoteNotes" value={notes} onChange={(e) => setNotes(e.target.value)} rows={2} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="quoteTerms">Terms</Label>
+              <Textarea id="quoteTerms" value={terms} onChange={(e) => setTerms(e.target.value)} rows={2} />
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)} disabled={isSaving}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={isSaving}>
+              {isSaving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              {quote ? "Save" : "Create Quote"}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
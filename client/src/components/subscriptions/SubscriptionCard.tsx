@@ -0,0 +1,105 @@
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent } from "@/components/ui/card";
+import { trpc, type RouterOutputs } from "@/lib/trpc";
+import { formatCurrency } from "@/lib/currencyFormat";
+import { toast } from "sonner";
+import { AlertTriangle } from "@/components/ui/Icon";
+import { cn } from "@/lib/utils";
+import { EXPENSE_CATEGORY_LABELS } from "@shared/expenseCategories";
+import { SUBSCRIPTION_CADENCE_LABELS } from "@shared/subscriptions";
+
+type Subscription = RouterOutputs["subscriptions"]["list"][number];
+
+const formatDate = (value: Date | string) =>
+  new Date(value).toLocaleDateString("de-DE", { day: "2-digit", month: "2-digit", year: "numeric" });
+
+interface SubscriptionCardProps {
+  subscription: Subscription;
+}
+
+/**
+ * One recurring supplier with its cadence, annualised cost and warnings for
+ * missing receipts and price changes
+ */
+export function SubscriptionCard({ subscription }: SubscriptionCardProps) {
+  const utils = trpc.useUtils();
+  const isActive = subscription.status === "active";
+
+  const setStatusMutation = trpc.subscriptions.setStatus.useMutation({
+    onSuccess: (_, variables) => {
+      toast.success(variables.status === "cancelled" ? "Subscription cancelled" : "Subscription reactivated");
+      utils.subscriptions.list.invalidate();
+    },
+    onError: (error) => toast.error(error.message || "Failed to update subscription"),
+  });
+
+  const { priceChange, missingCharges } = subscription;
+
+  return (
+    <Card className={cn(!isActive && "opacity-60")}>
+      <CardContent className="space-y-3 pt-6">
+        <div className="flex flex-wrap items-start justify-between gap-2">
+          <div className="min-w-0">
+            <p className="font-medium truncate">{subscription.supplierName}</p>
+            <p className="text-sm text-muted-foreground">
+              {SUBSCRIPTION_CADENCE_LABELS[subscription.cadence]}
+              {" · "}
+              {formatCurrency(subscription.expectedAmountCents / 100, subscription.currency)}
+              {subscription.category && ` · ${EXPENSE_CATEGORY_LABELS[subscription.category]}`}
+            </p>
+          </div>
+          <div className="text-right">
+            <p className="font-medium">{formatCurrency(subscription.annualCostCents / 100, subscription.currency)}</p>
+            <p className="text-xs text-muted-foreground">per year</p>
+          </div>
+        </div>
+
+        <div className="flex flex-wrap items-center gap-2 text-sm text-muted-foreground">
+          <span>
+            {subscription.chargeCount} receipts, last on {formatDate(subscription.lastChargedAt)}
+          </span>
+          {subscription.nextExpectedAt && <span>· next expected {formatDate(subscription.nextExpectedAt)}</span>}
+          {!isActive && <Badge variant="outline">Cancelled</Badge>}
+        </div>
+
+        {priceChange && (
+          <div className="flex items-start gap-2 rounded-md border border-yellow-500/30 bg-yellow-500/10 p-2 text-sm">
+            <AlertTriangle className="h-4 w-4 mt-0.5 shrink-0 text-yellow-700 dark:text-yellow-400" />
+            <span>
+              Price changed on {formatDate(priceChange.changedAt)} from{" "}
+              {formatCurrency(priceChange.previousAmountCents / 100, subscription.currency)} to{" "}
+              {formatCurrency(priceChange.amountCents / 100, subscription.currency)} (
+              {priceChange.changePct > 0 ? "+" : ""}
+              {priceChange.changePct.toLocaleString("de-DE")} %)
+            </span>
+          </div>
+        )}
+
+        {missingCharges.length > 0 && (
+          <div className="flex items-start gap-2 rounded-md border border-destructive/30 bg-destructive/10 p-2 text-sm">
+            <AlertTriangle className="h-4 w-4 mt-0.5 shrink-0 text-destructive" />
+            <span>
+              Missing receipt{missingCharges.length > 1 ? "s" : ""} for{" "}
+              {missingCharges.map((date) => formatDate(date)).join(", ")}
+            </span>
+          </div>
+        )}
+
+        <div className="flex justify-end">
+          <Button
+            type="button"
+            variant="ghost"
+            size="sm"
+            disabled={setStatusMutation.isPending}
+            onClick={() =>
+              setStatusMutation.mutate({ id: subscription.id, status: isActive ? "cancelled" : "active" })
+            }
+          >
+            {isActive ? "Mark as cancelled" : "Reactivate"}
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
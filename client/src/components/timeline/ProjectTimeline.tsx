@@ -0,0 +1,500 @@
+/**
+ * ProjectTimeline Component
+ *
+ * Gantt chart of project jobs in whole days, for one project or across all
+ * projects. Drag a bar to move a job or its right edge to change its length;
+ * jobs depending on it are pushed back. Arrows show finish-to-start
+ * dependencies (red when violated) and bars of jobs with a double-booked
+ * user are outlined in red.
+ */
+
+import { useMemo, useState } from "react";
+import { Link } from "wouter";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { trpc, type RouterOutputs } from "@/lib/trpc";
+import { toast } from "sonner";
+import { AlertTriangle, Loader2, Plus, X } from "@/components/ui/Icon";
+import { addDays, startOfDay } from "@shared/recurringInvoice";
+import {
+  daysBetween,
+  findDependencyViolations,
+  getJobDays,
+  rescheduleJob,
+  type JobDays,
+} from "@shared/jobSchedule";
+import { getProjectAccessForRole } from "@shared/workspaces";
+
+type TimelineData = RouterOutputs["projects"]["timeline"]["get"];
+type TimelineJob = TimelineData["jobs"][number];
+type TimelineConflict = TimelineData["conflicts"][number];
+
+const DAY_WIDTH = 36;
+const ROW_HEIGHT = 36;
+const HEADER_HEIGHT = 44;
+const LABEL_WIDTH = 200;
+const MIN_VISIBLE_DAYS = 28;
+
+const BAR_STATUS_CLASSES: Record<TimelineJob["status"], string> = {
+  pending: "bg-primary/60 text-primary-foreground",
+  in_progress: "bg-primary text-primary-foreground",
+  done: "bg-muted-foreground/40 text-foreground",
+  cancelled: "bg-muted text-muted-foreground line-through",
+};
+
+type TimelineRow =
+  | { kind: "project"; projectId: number; name: string }
+  | { kind: "job"; job: TimelineJob };
+
+interface DragState {
+  jobId: number;
+  mode: "move" | "resize";
+  originX: number;
+  deltaDays: number;
+  /** Dropped and waiting for the server, so the preview stays in place */
+  committing: boolean;
+}
+
+const formatDay = (value: Date) =>
+  value.toLocaleDateString("de-DE", { day: "2-digit", month: "2-digit", year: "numeric" });
+
+interface ProjectTimelineProps {
+  /** Project to plan; every visible project without */
+  projectId?: number;
+}
+
+export function ProjectTimeline({ projectId }: ProjectTimelineProps) {
+  const utils = trpc.useUtils();
+  const [drag, setDrag] = useState<DragState | null>(null);
+  const [successorJobId, setSuccessorJobId] = useState("");
+  const [predecessorJobId, setPredecessorJobId] = useState("");
+
+  const { data, isLoading } = trpc.projects.timeline.get.useQuery(projectId ? { projectId } : undefined);
+  const { data: current } = trpc.workspaces.current.useQuery();
+  const { data: members = [] } = trpc.workspaces.members.useQuery(undefined, { enabled: !!current });
+  const canEdit = !current || getProjectAccessForRole(current.role, true) === "edit";
+
+  const refresh = async () => {
+    await Promise.all([utils.projects.timeline.get.invalidate(), utils.projects.jobs.list.invalidate()]);
+  };
+
+  const rescheduleMutation = trpc.projects.timeline.reschedule.useMutation({
+    onSuccess: ({ changes }) => {
+      if (changes.length > 1) {
+        const shifted = changes.length - 1;
+        toast.success(`Job moved, ${shifted} dependent ${shifted === 1 ? "job" : "jobs"} pushed back`);
+      }
+    },
+    onError: (error) => toast.error(error.message || "Failed to move job"),
+    onSettled: async () => {
+      await refresh();
+      setDrag(null);
+    },
+  });
+  const addDependencyMutation = trpc.projects.timeline.addDependency.useMutation({
+    onSuccess: ({ changes }) => {
+      toast.success(
+        changes.length > 0
+          ? `Dependency added, ${changes.length} ${changes.length === 1 ? "job" : "jobs"} pushed back`
+          : "Dependency added"
+      );
+      setSuccessorJobId("");
+      setPredecessorJobId("");
+      refresh();
+    },
+    onError: (error) => toast.error(error.message || "Failed to add dependency"),
+  });
+  const removeDependencyMutation = trpc.projects.timeline.removeDependency.useMutation({
+    onSuccess: () => refresh(),
+    onError: (error) => toast.error(error.message || "Failed to remove dependency"),
+  });
+
+  const jobs = data?.jobs ?? [];
+  const dependencies = data?.dependencies ?? [];
+  const jobsById = useMemo(() => new Map(jobs.map((job) => [job.id, job])), [jobs]);
+
+  // New days of the dragged job, with dependent jobs pushed as the server will
+  const jobDays = useMemo(() => {
+    const days = new Map<number, JobDays>();
+    for (const job of jobs) {
+      const value = getJobDays(job);
+      if (value) days.set(job.id, value);
+    }
+    const dragged = drag && jobsById.get(drag.jobId);
+    const draggedDays = drag && days.get(drag.jobId);
+    if (!drag || !dragged || !draggedDays || drag.deltaDays === 0) return days;
+
+    const start = drag.mode === "move" ? addDays(draggedDays.start, drag.deltaDays) : draggedDays.start;
+    const movedEnd = addDays(draggedDays.end, drag.deltaDays);
+    const end = movedEnd.getTime() < start.getTime() ? start : movedEnd;
+    const changes = rescheduleJob(
+      jobs.filter((job) => job.projectId === dragged.projectId),
+      dependencies.filter((link) => link.projectId === dragged.projectId),
+      dragged.id,
+      start,
+      end
+    );
+    for (const change of changes) {
+      days.set(change.jobId, getJobDays(change)!);
+    }
+    return days;
+  }, [jobs, jobsById, dependencies, drag]);
+
+  const range = useMemo(() => {
+    const today = startOfDay(new Date());
+    let first = today;
+    let last = today;
+    jobDays.forEach((value) => {
+      if (value.start.getTime() < first.getTime()) first = value.start;
+      if (value.end.getTime() > last.getTime()) last = value.end;
+    });
+    const start = addDays(first, -3);
+    return { start, days: Math.max(daysBetween(start, last) + 8, MIN_VISIBLE_DAYS) };
+  }, [jobDays]);
+
+  const rows = useMemo(() => {
+    const byStart = (a: TimelineJob, b: TimelineJob) => {
+      const aStart = getJobDays(a)?.start.getTime() ?? Number.MAX_SAFE_INTEGER;
+      const bStart = getJobDays(b)?.start.getTime() ?? Number.MAX_SAFE_INTEGER;
+      return aStart - bStart || a.id - b.id;
+    };
+    const result: TimelineRow[] = [];
+    for (const project of data?.projects ?? []) {
+      const projectJobs = jobs.filter((job) => job.projectId === project.id).sort(byStart);
+      if (projectJobs.length === 0) continue;
+      if (!projectId) result.push({ kind: "project", projectId: project.id, name: project.name });
+      result.push(...projectJobs.map((job) => ({ kind: "job" as const, job })));
+    }
+    return result;
+  }, [data?.projects, jobs, projectId]);
+
+  const conflictsByJob = useMemo(() => {
+    const byJob = new Map<number, TimelineConflict[]>();
+    for (const conflict of data?.conflicts ?? []) {
+      byJob.set(conflict.jobId, [...(byJob.get(conflict.jobId) ?? []), conflict]);
+    }
+    return byJob;
+  }, [data?.conflicts]);
+
+  const violatedDependencyIds = useMemo(() => {
+    const scheduled = jobs.map((job) => {
+      const value = jobDays.get(job.id);
+      return { id: job.id, startTime: value?.start ?? null, endTime: value?.end ?? null };
+    });
+    return new Set(findDependencyViolations(scheduled, dependencies).map((link) => link.id));
+  }, [jobs, jobDays, dependencies]);
+
+  const userNames = useMemo(
+    () => new Map(members.map((member) => [member.userId, member.name || member.email || `User ${member.userId}`])),
+    [members]
+  );
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  const rowIndexByJob = new Map<number, number>();
+  rows.forEach((row, index) => {
+    if (row.kind === "job") rowIndexByJob.set(row.job.id, index);
+  });
+  const chartWidth = range.days * DAY_WIDTH;
+  const todayOffset = daysBetween(range.start, new Date()) * DAY_WIDTH;
+  const conflictedJobCount = conflictsByJob.size;
+  const dayColumns = Array.from({ length: range.days }, (_, index) => addDays(range.start, index));
+
+  const describeConflicts = (jobId: number) =>
+    (conflictsByJob.get(jobId) ?? [])
+      .map((conflict) =>
+        `${userNames.get(conflict.userId) ?? `User ${conflict.userId}`} is also on "${conflict.otherJobTitle}"` +
+        (conflict.otherProjectName ? ` (${conflict.otherProjectName})` : "")
+      )
+      .join("\n");
+
+  const startDrag = (event: React.PointerEvent, job: TimelineJob, mode: DragState["mode"]) => {
+    if (!canEdit || drag?.committing) return;
+    event.stopPropagation();
+    event.currentTarget.setPointerCapture(event.pointerId);
+    setDrag({ jobId: job.id, mode, originX: event.clientX, deltaDays: 0, committing: false });
+  };
+
+  const moveDrag = (event: React.PointerEvent) => {
+    if (!drag || drag.committing) return;
+    const deltaDays = Math.round((event.clientX - drag.originX) / DAY_WIDTH);
+    if (deltaDays !== drag.deltaDays) setDrag({ ...drag, deltaDays });
+  };
+
+  const endDrag = () => {
+    if (!drag || drag.committing) return;
+    const job = jobsById.get(drag.jobId);
+    const days = jobDays.get(drag.jobId);
+    if (!job || !days || drag.deltaDays === 0) {
+      setDrag(null);
+      return;
+    }
+    setDrag({ ...drag, committing: true });
+    rescheduleMutation.mutate({
+      projectId: job.projectId,
+      jobId: job.id,
+      startTime: days.start,
+      endTime: days.end,
+    });
+  };
+
+  const arrowPath = (fromJobId: number, toJobId: number) => {
+    const from = jobDays.get(fromJobId);
+    const to = jobDays.get(toJobId);
+    const fromRow = rowIndexByJob.get(fromJobId);
+    const toRow = rowIndexByJob.get(toJobId);
+    if (!from || !to || fromRow === undefined || toRow === undefined) return null;
+    const x1 = (daysBetween(range.start, from.end) + 1) * DAY_WIDTH;
+    const y1 = fromRow * ROW_HEIGHT + ROW_HEIGHT / 2;
+    const x2 = daysBetween(range.start, to.start) * DAY_WIDTH;
+    const y2 = toRow * ROW_HEIGHT + ROW_HEIGHT / 2;
+    if (x2 >= x1 + 12) {
+      return `M ${x1} ${y1} H ${x1 + 6} V ${y2} H ${x2 - 2}`;
+    }
+    // Successor starts too early: route around the bars
+    const midY = toRow > fromRow ? toRow * ROW_HEIGHT : (toRow + 1) * ROW_HEIGHT;
+    return `M ${x1} ${y1} H ${x1 + 6} V ${midY} H ${x2 - 8} V ${y2} H ${x2 - 2}`;
+  };
+
+  const projectJobs = projectId ? jobs : [];
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between gap-2">
+          <CardTitle>Timeline</CardTitle>
+          {conflictedJobCount > 0 && (
+            <Badge variant="destructive-outline">
+              <AlertTriangle />
+              {conflictedJobCount} {conflictedJobCount === 1 ? "job" : "jobs"} with double-booked users
+            </Badge>
+          )}
+        </div>
+        <CardDescription>
+          {canEdit
+            ? "Drag a job to move it or its right edge to change its length. Jobs depending on it move along."
+            : "Jobs by day with their dependencies."}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {rows.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No jobs to plan yet.</p>
+        ) : (
+          <div className="overflow-x-auto rounded-md border border-border select-none">
+            <div className="relative" style={{ width: LABEL_WIDTH + chartWidth }}>
+              <div className="flex border-b border-border" style={{ height: HEADER_HEIGHT }}>
+                <div
+                  className="sticky left-0 z-20 bg-background border-r border-border px-2 flex items-end pb-1 text-xs text-muted-foreground"
+                  style={{ width: LABEL_WIDTH, minWidth: LABEL_WIDTH }}
+                >
+                  Job
+                </div>
+                {dayColumns.map((date, index) => {
+                  const isWeekend = date.getDay() === 0 || date.getDay() === 6;
+                  const showMonth = index === 0 || date.getDate() === 1;
+                  return (
+                    <div
+                      key={date.getTime()}
+                      className={`relative flex flex-col justify-end items-center pb-1 text-xs border-r border-border/50 ${
+                        isWeekend ? "bg-muted/60 text-muted-foreground" : ""
+                      }`}
+                      style={{ width: DAY_WIDTH, minWidth: DAY_WIDTH }}
+                    >
+                      {showMonth && (
+                        <span className="absolute top-1 left-1 whitespace-nowrap text-muted-foreground">
+                          {date.toLocaleDateString("de-DE", { month: "short", year: "2-digit" })}
+                        </span>
+                      )}
+                      {date.getDate()}
+                    </div>
+                  );
+                })}
+              </div>
+
+              {rows.map((row) =>
+                row.kind === "project" ? (
+                  <div key={`project-${row.projectId}`} className="flex border-b border-border bg-muted/40" style={{ height: ROW_HEIGHT }}>
+                    <div
+                      className="sticky left-0 z-10 bg-muted px-2 flex items-center text-sm font-medium border-r border-border"
+                      style={{ width: LABEL_WIDTH, minWidth: LABEL_WIDTH }}
+                    >
+                      <Link href={`/projects/${row.projectId}`} className="truncate hover:underline">
+                        {row.name}
+                      </Link>
+                    </div>
+                    <div style={{ width: chartWidth }} />
+                  </div>
+                ) : (
+                  <div key={row.job.id} className="flex border-b border-border/50" style={{ height: ROW_HEIGHT }}>
+                    <div
+                      className="sticky left-0 z-10 bg-background px-2 flex items-center text-sm border-r border-border"
+                      style={{ width: LABEL_WIDTH, minWidth: LABEL_WIDTH }}
+                    >
+                      <Link href={`/projects/${row.job.projectId}/jobs/${row.job.id}`} className="truncate hover:underline">
+                        {row.job.title}
+                      </Link>
+                    </div>
+                    <div className="relative" style={{ width: chartWidth }}>
+                      {(() => {
+                        const days = jobDays.get(row.job.id);
+                        if (!days) {
+                          return (
+                            <span className="absolute inset-y-0 left-2 flex items-center text-xs text-muted-foreground">
+                              Not scheduled
+                            </span>
+                          );
+                        }
+                        const conflictText = describeConflicts(row.job.id);
+                        const isDragged = drag?.jobId === row.job.id;
+                        return (
+                          <div
+                            className={`absolute top-1.5 bottom-1.5 rounded-md px-2 flex items-center text-xs overflow-hidden ${
+                              BAR_STATUS_CLASSES[row.job.status]
+                            } ${conflictText ? "ring-2 ring-destructive" : ""} ${
+                              canEdit ? "cursor-grab active:cursor-grabbing touch-none" : ""
+                            } ${isDragged ? "shadow-lg opacity-90" : ""}`}
+                            style={{
+                              left: daysBetween(range.start, days.start) * DAY_WIDTH + 1,
+                              width: (daysBetween(days.start, days.end) + 1) * DAY_WIDTH - 2,
+                            }}
+                            title={[
+                              `${row.job.title}: ${formatDay(days.start)} – ${formatDay(days.end)}`,
+                              conflictText,
+                            ].filter(Boolean).join("\n")}
+                            onPointerDown={(event) => startDrag(event, row.job, "move")}
+                            onPointerMove={moveDrag}
+                            onPointerUp={endDrag}
+                            onPointerCancel={() => !drag?.committing && setDrag(null)}
+                          >
+                            <span className="truncate">{row.job.title}</span>
+                            {canEdit && (
+                              <div
+                                className="absolute right-0 inset-y-0 w-2 cursor-ew-resize"
+                                onPointerDown={(event) => startDrag(event, row.job, "resize")}
+                              />
+                            )}
+                          </div>
+                        );
+                      })()}
+                    </div>
+                  </div>
+                )
+              )}
+
+              <div
+                className="absolute pointer-events-none"
+                style={{ top: HEADER_HEIGHT, left: LABEL_WIDTH, width: chartWidth, height: rows.length * ROW_HEIGHT }}
+              >
+                {todayOffset >= 0 && todayOffset < chartWidth && (
+                  <div className="absolute inset-y-0 w-px bg-destructive/60" style={{ left: todayOffset + DAY_WIDTH / 2 }} />
+                )}
+                <svg className="absolute inset-0" width={chartWidth} height={rows.length * ROW_HEIGHT}>
+                  <defs>
+                    <marker id="timeline-arrow" viewBox="0 0 6 6" refX="5" refY="3" markerWidth="6" markerHeight="6" orient="auto">
+                      <path d="M 0 0 L 6 3 L 0 6 z" fill="currentColor" />
+                    </marker>
+                  </defs>
+                  {dependencies.map((link) => {
+                    const path = arrowPath(link.predecessorJobId, link.successorJobId);
+                    if (!path) return null;
+                    const violated = violatedDependencyIds.has(link.id);
+                    return (
+                      <path
+                        key={link.id}
+                        d={path}
+                        fill="none"
+                        strokeWidth={1.5}
+                        markerEnd="url(#timeline-arrow)"
+                        className={violated ? "text-destructive" : "text-muted-foreground"}
+                        stroke="currentColor"
+                      />
+                    );
+                  })}
+                </svg>
+              </div>
+            </div>
+          </div>
+        )}
+
+        {projectId && (dependencies.length > 0 || (canEdit && projectJobs.length > 1)) && (
+          <div className="space-y-3 border-t border-border pt-4">
+            <p className="text-sm font-medium">Dependencies</p>
+            {dependencies.map((link) => (
+              <div key={link.id} className="flex items-center justify-between gap-2 text-sm">
+                <span className={violatedDependencyIds.has(link.id) ? "text-destructive" : ""}>
+                  {jobsById.get(link.successorJobId)?.title} starts after {jobsById.get(link.predecessorJobId)?.title}
+                  {violatedDependencyIds.has(link.id) && " (starts too early)"}
+                </span>
+                {canEdit && (
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-8 w-8"
+                    disabled={removeDependencyMutation.isPending}
+                    onClick={() => removeDependencyMutation.mutate({ projectId, dependencyId: link.id })}
+                  >
+                    <X className="w-4 h-4" />
+                  </Button>
+                )}
+              </div>
+            ))}
+            {canEdit && projectJobs.length > 1 && (
+              <div className="flex flex-col sm:flex-row gap-2">
+                <Select value={successorJobId} onValueChange={setSuccessorJobId}>
+                  <SelectTrigger className="flex-1">
+                    <SelectValue placeholder="Job" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {projectJobs.map((job) => (
+                      <SelectItem key={job.id} value={String(job.id)}>{job.title}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <span className="self-center text-sm text-muted-foreground">starts after</span>
+                <Select value={predecessorJobId} onValueChange={setPredecessorJobId}>
+                  <SelectTrigger className="flex-1">
+                    <SelectValue placeholder="Job" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {projectJobs
+                      .filter((job) => String(job.id) !== successorJobId)
+                      .map((job) => (
+                        <SelectItem key={job.id} value={String(job.id)}>{job.title}</SelectItem>
+                      ))}
+                  </SelectContent>
+                </Select>
+                <Button
+                  onClick={() =>
+                    addDependencyMutation.mutate({
+                      projectId,
+                      predecessorJobId: Number(predecessorJobId),
+                      successorJobId: Number(successorJobId),
+                    })
+                  }
+                  disabled={!successorJobId || !predecessorJobId || addDependencyMutation.isPending}
+                >
+                  <Plus className="w-4 h-4 mr-1" />
+                  Add
+                </Button>
+              </div>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
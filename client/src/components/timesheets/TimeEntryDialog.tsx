@@ -0,0 +1,245 @@
+/**
+ * TimeEntryDialog Component
+ *
+ * Adds a time entry by hand or corrects an existing one, e.g. a forgotten
+ * check-out, a break or the job worked on.
+ */
+
+import { useEffect, useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { trpc } from "@/lib/trpc";
+import { toast } from "sonner";
+import { Loader2 } from "@/components/ui/Icon";
+import { formatMinutes, getEntryMinutes, validateTimeSpan } from "@shared/timesheets";
+
+export interface EditableTimeEntry {
+  id: number;
+  projectId: number;
+  jobId: number | null;
+  startTime: Date | string;
+  endTime: Date | string;
+  breakMinutes: number;
+  description: string | null;
+  billable: boolean;
+}
+
+interface TimeEntryDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  /** Entry to correct; a new entry is added when missing */
+  entry: EditableTimeEntry | null;
+  /** Day a new entry starts on (YYYY-MM-DD) */
+  defaultDay: string;
+  onSaved: () => void;
+}
+
+const NO_JOB = "none";
+const pad = (value: number) => String(value).padStart(2, "0");
+
+/** Value of a datetime-local input in local time */
+const toInputValue = (value: Date | string) => {
+  const date = new Date(value);
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}T${pad(date.getHours())}:${pad(date.getMinutes())}`;
+};
+
+export function TimeEntryDialog({ open, onOpenChange, entry, defaultDay, onSaved }: TimeEntryDialogProps) {
+  const [projectId, setProjectId] = useState("");
+  const [jobId, setJobId] = useState(NO_JOB);
+  const [startTime, setStartTime] = useState("");
+  const [endTime, setEndTime] = useState("");
+  const [breakMinutes, setBreakMinutes] = useState("0");
+  const [description, setDescription] = useState("");
+  const [billable, setBillable] = useState(true);
+
+  useEffect(() => {
+    if (!open) return;
+    setProjectId(entry ? String(entry.projectId) : "");
+    setJobId(entry?.jobId ? String(entry.jobId) : NO_JOB);
+    setStartTime(entry ? toInputValue(entry.startTime) : `${defaultDay}T08:00`);
+    setEndTime(entry ? toInputValue(entry.endTime) : `${defaultDay}T16:00`);
+    setBreakMinutes(String(entry?.breakMinutes ?? 0));
+    setDescription(entry?.description ?? "");
+    setBillable(entry?.billable ?? true);
+  }, [open, entry, defaultDay]);
+
+  const { data: projects = [] } = trpc.projects.list.useQuery(undefined, { enabled: open });
+  const { data: jobs = [] } = trpc.projects.jobs.list.useQuery(
+    { projectId: Number(projectId) },
+    { enabled: open && !!projectId }
+  );
+
+  const onSuccess = () => {
+    toast.success(entry ? "Time entry updated" : "Time entry added");
+    onSaved();
+    onOpenChange(false);
+  };
+  const createMutation = trpc.timesheets.createEntry.useMutation({
+    onSuccess,
+    onError: (error) => toast.error(error.message || "Failed to add time entry"),
+  });
+  const updateMutation = trpc.timesheets.updateEntry.useMutation({
+    onSuccess,
+    onError: (error) => toast.error(error.message || "Failed to update time entry"),
+  });
+  const isSaving = createMutation.isPending || updateMutation.isPending;
+
+  const span = { startTime: new Date(startTime), endTime: new Date(endTime), breakMinutes: Number(breakMinutes) || 0 };
+  const spanError = startTime && endTime ? validateTimeSpan(span) : "Start and end are required";
+
+  const handleSave = () => {
+    const input = {
+      projectId: Number(projectId),
+      jobId: jobId === NO_JOB ? null : Number(jobId),
+      ...span,
+      description: description.trim() || null,
+      billable,
+    };
+    if (entry) updateMutation.mutate({ id: entry.id, ...input });
+    else createMutation.mutate(input);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[500px]">
+        <DialogHeader>
+          <DialogTitle>{entry ? "Correct time entry" : "Add time entry"}</DialogTitle>
+          <DialogDescription>Worked time on a project, minus breaks.</DialogDescription>
+        </DialogHeader>
+
+        <div className="grid gap-4">
+          <div className="grid gap-2">
+            <Label>Project</Label>
+            <Select
+              value={projectId}
+              onValueChange={(value) => {
+                setProjectId(value);
+                setJobId(NO_JOB);
+              }}
+              disabled={isSaving}
+            >
+              <SelectTrigger>
+                <SelectValue placeholder="Choose a project" />
+              </SelectTrigger>
+              <SelectContent>
+                {projects.map((project) => (
+                  <SelectItem key={project.id} value={String(project.id)}>
+                    {project.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {jobs.length > 0 && (
+            <div className="grid gap-2">
+              <Label>Job</Label>
+              <Select value={jobId} onValueChange={setJobId} disabled={isSaving}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NO_JOB}>No job</SelectItem>
+                  {jobs.map((job) => (
+                    <SelectItem key={job.id} value={String(job.id)}>
+                      {job.title}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
+          <div className="grid gap-4 sm:grid-cols-2">
+            <div className="grid gap-2">
+              <Label htmlFor="time-entry-start">Start</Label>
+              <Input
+                id="time-entry-start"
+                type="datetime-local"
+                value={startTime}
+                disabled={isSaving}
+                onChange={(e) => setStartTime(e.target.value)}
+              />
+            </div>
+            <div className="grid gap-2">
+              <Label htmlFor="time-entry-end">End</Label>
+              <Input
+                id="time-entry-end"
+                type="datetime-local"
+                value={endTime}
+                disabled={isSaving}
+                onChange={(e) => setEndTime(e.target.value)}
+              />
+            </div>
+          </div>
+
+          <div className="grid gap-2">
+            <Label htmlFor="time-entry-break">Break (minutes)</Label>
+            <Input
+              id="time-entry-break"
+              type="number"
+              min={0}
+              step={5}
+              value={breakMinutes}
+              disabled={isSaving}
+              onChange={(e) => setBreakMinutes(e.target.value)}
+            />
+          </div>
+
+          <div className="grid gap-2">
+            <Label htmlFor="time-entry-description">Description</Label>
+            <Textarea
+              id="time-entry-description"
+              rows={2}
+              value={description}
+              disabled={isSaving}
+              onChange={(e) => setDescription(e.target.value)}
+            />
+          </div>
+
+          <div className="flex items-center gap-2">
+            <Checkbox
+              id="time-entry-billable"
+              checked={billable}
+              disabled={isSaving}
+              onCheckedChange={(checked) => setBillable(checked === true)}
+            />
+            <Label htmlFor="time-entry-billable">Billable</Label>
+          </div>
+
+          <p className={spanError ? "text-sm text-destructive" : "text-sm text-muted-foreground"}>
+            {spanError ?? `Worked time: ${formatMinutes(getEntryMinutes(span))} h`}
+          </p>
+        </div>
+
+        <DialogFooter>
+          <Button type="button" variant="outline" onClick={() => onOpenChange(false)} disabled={isSaving}>
+            Cancel
+          </Button>
+          <Button type="button" onClick={handleSave} disabled={isSaving || !projectId || !!spanError}>
+            {isSaving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Save
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
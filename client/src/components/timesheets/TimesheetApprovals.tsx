@@ -0,0 +1,140 @@
+/**
+ * TimesheetApprovals Component
+ *
+ * Submitted weekly timesheets of the workspace's members for the owner or
+ * office staff to approve or send back with a reason. Renders nothing while none are waiting.
+ */
+
+import { useState } from "react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Textarea } from "@/components/ui/textarea";
+import { trpc } from "@/lib/trpc";
+import { toast } from "sonner";
+import { AlertTriangle, Loader2 } from "@/components/ui/Icon";
+import { formatMinutes, getWeekRange } from "@shared/timesheets";
+
+const formatDate = (value: Date | string) =>
+  new Date(value).toLocaleDateString("de-DE", { day: "2-digit", month: "2-digit", year: "numeric" });
+
+interface TimesheetApprovalsProps {
+  /** Opens a user's week to look at the entries */
+  onOpenWeek: (userId: number, weekStart: string) => void;
+}
+
+export function TimesheetApprovals({ onOpenWeek }: TimesheetApprovalsProps) {
+  const utils = trpc.useUtils();
+  const [rejecting, setRejecting] = useState<string | null>(null);
+  const [reason, setReason] = useState("");
+
+  const { data: pending = [] } = trpc.timesheets.pendingApprovals.useQuery();
+
+  const onDone = (message: string) => () => {
+    toast.success(message);
+    setRejecting(null);
+    setReason("");
+    utils.timesheets.pendingApprovals.invalidate();
+    utils.timesheets.week.invalidate();
+  };
+  const approveMutation = trpc.timesheets.approveWeek.useMutation({
+    onSuccess: onDone("Timesheet approved"),
+    onError: (error) => toast.error(error.message || "Failed to approve timesheet"),
+  });
+  const rejectMutation = trpc.timesheets.rejectWeek.useMutation({
+    onSuccess: onDone("Timesheet sent back"),
+    onError: (error) => toast.error(error.message || "Failed to reject timesheet"),
+  });
+  const isBusy = approveMutation.isPending || rejectMutation.isPending;
+
+  if (pending.length === 0) return null;
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <h2 className="text-xl font-semibold">Waiting for approval</h2>
+        <Badge variant="outline">{pending.length}</Badge>
+      </div>
+      <div className="grid gap-4 md:grid-cols-2">
+        {pending.map((timesheet) => {
+          const key = `${timesheet.userId}:${timesheet.weekStart}`;
+          const { from, to } = getWeekRange(timesheet.weekStart);
+          const input = { userId: timesheet.userId, weekStart: timesheet.weekStart };
+          return (
+            <Card key={key}>
+              <CardContent className="space-y-3 py-4 text-sm">
+                <div className="flex items-baseline justify-between gap-2">
+                  <span className="font-medium">{timesheet.userName || "Unknown user"}</span>
+                  <span className="font-semibold">{formatMinutes(timesheet.totalMinutes)} h</span>
+                </div>
+                <div className="text-muted-foreground">
+                  {formatDate(from)} – {formatDate(new Date(to.getTime() - 1))} ·{" "}
+                  {formatMinutes(timesheet.billableMinutes)} h billable
+                  {timesheet.submittedAt && ` · submitted ${formatDate(timesheet.submittedAt)}`}
+                </div>
+                {timesheet.outsideGeofenceCount > 0 && (
+                  <div className="flex items-start gap-2 rounded-md border border-yellow-500/30 bg-yellow-500/10 p-2">
+                    <AlertTriangle className="mt-0.5 h-4 w-4 shrink-0 text-yellow-700 dark:text-yellow-400" />
+                    <span>
+                      {timesheet.outsideGeofenceCount} check-in{timesheet.outsideGeofenceCount === 1 ? "" : "s"} away
+                      from the site
+                    </span>
+                  </div>
+                )}
+                {timesheet.locationMissingCount > 0 && (
+                  <div className="flex items-start gap-2 rounded-md border border-yellow-500/30 bg-yellow-500/10 p-2">
+                    <AlertTriangle className="mt-0.5 h-4 w-4 shrink-0 text-yellow-700 dark:text-yellow-400" />
+                    <span>
+                      {timesheet.locationMissingCount} check-in{timesheet.locationMissingCount === 1 ? "" : "s"} without
+                      a location
+                    </span>
+                  </div>
+                )}
+                {rejecting === key && (
+                  <Textarea
+                    rows={2}
+                    placeholder="What needs to be corrected?"
+                    value={reason}
+                    disabled={isBusy}
+                    onChange={(e) => setReason(e.target.value)}
+                  />
+                )}
+                <div className="flex flex-wrap gap-2">
+                  <Button type="button" size="sm" disabled={isBusy} onClick={() => approveMutation.mutate(input)}>
+                    {approveMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                    Approve
+                  </Button>
+                  <Button
+                    type="button"
+                    size="sm"
+                    variant="outline"
+                    disabled={isBusy || (rejecting === key && !reason.trim())}
+                    onClick={() => {
+                      if (rejecting !== key) {
+                        setRejecting(key);
+                        setReason("");
+                      } else {
+                        rejectMutation.mutate({ ...input, reason: reason.trim() });
+                      }
+                    }}
+                  >
+                    {rejectMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                    {rejecting === key ? "Send back" : "Reject"}
+                  </Button>
+                  <Button
+                    type="button"
+                    size="sm"
+                    variant="ghost"
+                    onClick={() => onOpenWeek(timesheet.userId, timesheet.weekStart)}
+                  >
+                    Show entries
+                  </Button>
+                </div>
+              </CardContent>
+            </Card>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
@@ -44,6 +44,8 @@ export {
   ArrowPathRoundedSquareIcon,
   ArrowUturnLeftIcon as Undo,
   ArrowUturnLeftIcon as Undo2,
+  PauseIcon as Pause,
+  PlayIcon as Play,
   BoltIcon as Bolt,
   MicrophoneIcon as Microphone,
   
@@ -94,6 +96,7 @@ export {
   CurrencyDollarIcon as DollarSign,
   CurrencyEuroIcon as CurrencyEuro,
   CreditCardIcon as CreditCard,
+  BuildingLibraryIcon as Landmark,
   
   // Calendar & Time
   CalendarIcon,
@@ -101,6 +104,7 @@ export {
   
   // Location
   MapPinIcon as MapPin,
+  TruckIcon as Truck,
   
   // Media
   PhotoIcon as Image,
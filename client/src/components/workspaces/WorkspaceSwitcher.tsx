@@ -0,0 +1,61 @@
+/**
+ * WorkspaceSwitcher Component
+ *
+ * Choose the workspace to work in, or the own account. Everything the app
+ * shows depends on it, so all queries are refetched after switching.
+ */
+
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { trpc } from "@/lib/trpc";
+import { toast } from "sonner";
+import { WORKSPACE_ROLE_LABELS } from "@shared/workspaces";
+
+const OWN_ACCOUNT = "own";
+
+export function WorkspaceSwitcher() {
+  const utils = trpc.useUtils();
+  const { data: workspaces = [] } = trpc.workspaces.mine.useQuery();
+  const { data: current } = trpc.workspaces.current.useQuery();
+
+  const switchMutation = trpc.workspaces.switch.useMutation({
+    onSuccess: () => {
+      toast.success("Workspace switched");
+      utils.invalidate();
+    },
+    onError: (error) => toast.error(error.message || "Failed to switch workspace"),
+  });
+
+  // The own workspace is the own account
+  const invitedTo = workspaces.filter((workspace) => workspace.role !== "owner");
+  const value = current && current.role !== "owner" ? String(current.id) : OWN_ACCOUNT;
+
+  if (invitedTo.length === 0) return null;
+
+  return (
+    <Select
+      value={value}
+      disabled={switchMutation.isPending}
+      onValueChange={(next) =>
+        switchMutation.mutate({ workspaceId: next === OWN_ACCOUNT ? null : Number(next) })
+      }
+    >
+      <SelectTrigger className="w-full sm:w-72">
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value={OWN_ACCOUNT}>My own account</SelectItem>
+        {invitedTo.map((workspace) => (
+          <SelectItem key={workspace.id} value={String(workspace.id)}>
+            {workspace.name} · {WORKSPACE_ROLE_LABELS[workspace.role]}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
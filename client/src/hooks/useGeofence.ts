@@ -0,0 +1,66 @@
+import { useEffect, useRef, useState } from "react";
+import { distanceMeters, nextGeofenceState, type GeofenceState } from "@shared/geofence";
+
+interface GeofenceOptions {
+  site: { lat: number; lng: number } | null;
+  radiusMeters: number;
+  enabled: boolean;
+  /** Called when the user crosses the fence, not for the first position */
+  onTransition: (state: GeofenceState) => void;
+}
+
+/**
+ * Watch the device position while enabled and report entering and leaving
+ * a site. Only works while the app is open; browsers don't offer
+ * background geofencing to web apps.
+ */
+export function useGeofence({ site, radiusMeters, enabled, onTransition }: GeofenceOptions) {
+  const [state, setState] = useState<GeofenceState | null>(null);
+  const [distance, setDistance] = useState<number | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const stateRef = useRef<GeofenceState | null>(null);
+  const onTransitionRef = useRef(onTransition);
+  onTransitionRef.current = onTransition;
+
+  const lat = site?.lat;
+  const lng = site?.lng;
+
+  useEffect(() => {
+    stateRef.current = null;
+    setState(null);
+    setDistance(null);
+    setError(null);
+    if (!enabled || lat === undefined || lng === undefined) return;
+    if (!navigator.geolocation) {
+      setError("Location isn't available on this device");
+      return;
+    }
+
+    const watchId = navigator.geolocation.watchPosition(
+      (position) => {
+        const meters = distanceMeters(
+          { lat, lng },
+          { lat: position.coords.latitude, lng: position.coords.longitude }
+        );
+        const previous = stateRef.current;
+        const next = nextGeofenceState(previous, meters, radiusMeters, position.coords.accuracy);
+        stateRef.current = next;
+        setDistance(meters);
+        setState(next);
+        setError(null);
+        if (previous && next && next !== previous) onTransitionRef.current(next);
+      },
+      (positionError) => {
+        setError(
+          positionError.code === positionError.PERMISSION_DENIED
+            ? "Location access was denied"
+            : "Your location couldn't be determined"
+        );
+      },
+      { enableHighAccuracy: true, maximumAge: 30000, timeout: 30000 }
+    );
+    return () => navigator.geolocation.clearWatch(watchId);
+  }, [enabled, lat, lng, radiusMeters]);
+
+  return { state, distance, error };
+}
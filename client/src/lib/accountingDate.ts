@@ -7,11 +7,17 @@
  * Rules:
  * - Kleinunternehmer + EÜR: Use paidAt (income recognized when payment received)
  * - Non-Kleinunternehmer + EÜR: Use paidAt (income recognized when payment received)
- * - Bilanz: Use servicePeriodEnd (income recognized when service completed)
+ * - Bilanz: Use servicePeriodEnd, else issueDate (income recognized when service completed)
+ *
+ * The rules live in @shared/accountingDate so the server-side tax report uses the same semantics.
  */
 
 import type { Invoice } from "@shared/types";
-import type { CompanySettings } from "@/drizzle/schema";
+import {
+  getInvoiceAccountingDate,
+  resolveAccountingMethod,
+  type AccountingSettings,
+} from "@shared/accountingDate";
 
 export interface AccountingDateResult {
   accountingDate: Date | null;
@@ -28,26 +34,9 @@ export interface AccountingDateResult {
  */
 export function getAccountingDate(
   invoice: Invoice,
-  companySettings: CompanySettings | null | undefined
+  companySettings: AccountingSettings | null | undefined
 ): AccountingDateResult {
-  // Default to EÜR if no settings
-  const accountingMethod = companySettings?.accountingMethod || 'EÜR';
-  const isKleinunternehmer = companySettings?.isKleinunternehmer || false;
-
-  let accountingDate: Date | null = null;
-
-  // Rule 1 & 2: EÜR (both Kleinunternehmer and non-Kleinunternehmer)
-  // Income recognized when payment is received
-  if (accountingMethod === 'EÜR') {
-    accountingDate = invoice.paidAt ? new Date(invoice.paidAt) : null;
-  }
-  // Rule 3: Bilanz
-  // Income recognized by service period (when service was completed)
-  else if (accountingMethod === 'BILANZ') {
-    accountingDate = invoice.servicePeriodEnd 
-      ? new Date(invoice.servicePeriodEnd) 
-      : null;
-  }
+  const accountingDate = getInvoiceAccountingDate(invoice, companySettings);
 
   // Calculate year and quarter from accounting date
   let accountingYear: number | null = null;
@@ -72,9 +61,9 @@ export function getAccountingDate(
  * @returns Helper text string
  */
 export function getAccountingHelperText(
-  companySettings: CompanySettings | null | undefined
+  companySettings: AccountingSettings | null | undefined
 ): string {
-  const accountingMethod = companySettings?.accountingMethod || 'EÜR';
+  const accountingMethod = resolveAccountingMethod(companySettings);
   const isKleinunternehmer = companySettings?.isKleinunternehmer || false;
 
   if (accountingMethod === 'BILANZ') {
@@ -3,13 +3,15 @@
  * Mirrors server-side confidence.ts types and helpers
  */
 
+import type { ExpenseVatMode } from "@shared/expenseSplits";
+
 export type ConfidenceLevel = "high" | "medium" | "low";
 
 export type ProposedField<T = any> = {
   value: T;
   confidence: number; // 0.0-1.0
   reason: string;
-  source: "filename" | "supplier_memory" | "keyword" | "heuristic" | "default";
+  source: "filename" | "supplier_memory" | "keyword" | "heuristic" | "ocr" | "default";
 };
 
 export type ProposedFields = {
@@ -18,7 +20,7 @@ export type ProposedFields = {
   expenseDate?: ProposedField<Date>;
   grossAmountCents?: ProposedField<number>;
   category?: ProposedField<string>;
-  vatMode?: ProposedField<"none" | "german" | "foreign">;
+  vatMode?: ProposedField<ExpenseVatMode>;
   businessUsePct?: ProposedField<number>;
 };
 
@@ -0,0 +1,368 @@
+/**
+ * Bank Reconciliation Page
+ *
+ * Imports bank statements (CAMT.053, MT940, CSV) and proposes matches
+ * between the transactions and open invoices or unpaid expenses. Confirming
+ * a match books the invoice payment or marks the expense as paid.
+ */
+
+import { useRef, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { trpc, type RouterOutputs } from "@/lib/trpc";
+import { Check, Landmark, Loader2, Trash2, Undo, Upload, X } from "@/components/ui/Icon";
+import { Link } from "wouter";
+import { toast } from "sonner";
+import { ModulePage } from "@/components/ModulePage";
+import { formatCurrency } from "@/lib/currencyFormat";
+import { DeleteConfirmDialog } from "@/components/DeleteConfirmDialog";
+import { cn } from "@/lib/utils";
+import {
+  BANK_MATCH_REASON_LABELS,
+  BANK_STATEMENT_FORMAT_LABELS,
+  BANK_TRANSACTION_STATUS_LABELS,
+  type BankMatchProposal,
+  type BankTransactionStatus,
+} from "@shared/bankImport";
+
+type BankTransaction = RouterOutputs["bankImport"]["transactions"][number];
+type BankImport = RouterOutputs["bankImport"]["imports"][number];
+
+const STATUS_FILTERS: BankTransactionStatus[] = ["unmatched", "matched", "ignored"];
+
+const formatDate = (value: Date | string | null | undefined) =>
+  value ? new Date(value).toLocaleDateString("de-DE") : "—";
+
+function fileToBase64(file: File): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve((reader.result as string).split(",")[1] ?? "");
+    reader.onerror = reject;
+    reader.readAsDataURL(file);
+  });
+}
+
+export default function BankReconciliation() {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [statusFilter, setStatusFilter] = useState<BankTransactionStatus>("unmatched");
+  const [deleteTarget, setDeleteTarget] = useState<BankImport | null>(null);
+
+  const utils = trpc.useUtils();
+  const { data: imports = [] } = trpc.bankImport.imports.useQuery();
+  const { data: transactions = [], isLoading } = trpc.bankImport.transactions.useQuery({ status: statusFilter });
+
+  const invalidateAll = () => {
+    utils.bankImport.imports.invalidate();
+    utils.bankImport.transactions.invalidate();
+  };
+
+  const importMutation = trpc.bankImport.import.useMutation({
+    onSuccess: (result) => {
+      if (result.imported === 0) {
+        toast.info("All transactions of this statement were already imported");
+      } else {
+        toast.success(
+          `${result.imported} transaction${result.imported === 1 ? "" : "s"} imported` +
+            (result.duplicates > 0 ? `, ${result.duplicates} already known` : "")
+        );
+      }
+      invalidateAll();
+    },
+    onError: (error) => toast.error(error.message || "Failed to import bank statement"),
+  });
+
+  const confirmMutation = trpc.bankImport.confirmMatch.useMutation({
+    onSuccess: (_, variables) => {
+      toast.success(variables.invoiceId ? "Payment booked on the invoice" : "Expense marked as paid");
+      invalidateAll();
+      utils.invoices.list.invalidate();
+      utils.expenses.invalidate();
+    },
+    onError: (error) => toast.error(error.message || "Failed to confirm match"),
+  });
+
+  const unmatchMutation = trpc.bankImport.unmatch.useMutation({
+    onSuccess: () => {
+      toast.success("Match undone");
+      invalidateAll();
+      utils.invoices.list.invalidate();
+      utils.expenses.invalidate();
+    },
+    onError: (error) => toast.error(error.message || "Failed to undo match"),
+  });
+
+  const ignoreMutation = trpc.bankImport.setIgnored.useMutation({
+    onSuccess: () => invalidateAll(),
+    onError: (error) => toast.error(error.message),
+  });
+
+  const deleteImportMutation = trpc.bankImport.deleteImport.useMutation({
+    onSuccess: () => {
+      toast.success("Import deleted");
+      setDeleteTarget(null);
+      invalidateAll();
+    },
+    onError: (error) => toast.error(error.message || "Failed to delete import"),
+  });
+
+  const handleFileSelected = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (!file) return;
+    try {
+      const base64Data = await fileToBase64(file);
+      importMutation.mutate({ filename: file.name, base64Data });
+    } catch {
+      toast.error("Could not read the file");
+    }
+  };
+
+  const isMutating = confirmMutation.isPending || unmatchMutation.isPending || ignoreMutation.isPending;
+
+  const confirmProposal = (transaction: BankTransaction, proposal: BankMatchProposal) => {
+    confirmMutation.mutate(
+      proposal.kind === "invoice"
+        ? { transactionId: transaction.id, invoiceId: proposal.id }
+        : { transactionId: transaction.id, expenseId: proposal.id }
+    );
+  };
+
+  return (
+    <ModulePage
+      title="Bank Reconciliation"
+      subtitle="Match bank transactions with invoices and expenses"
+      searchEnabled={false}
+      filterEnabled={false}
+      settingsEnabled={false}
+      primaryActions={
+        <>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".xml,.csv,.txt,.sta,.mt940"
+            className="hidden"
+            onChange={handleFileSelected}
+          />
+          <Button
+            className="h-10 whitespace-nowrap"
+            onClick={() => fileInputRef.current?.click()}
+            disabled={importMutation.isPending}
+          >
+            {importMutation.isPending ? (
+              <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+            ) : (
+              <Upload className="w-4 h-4 mr-2" />
+            )}
+            Import statement
+          </Button>
+        </>
+      }
+    >
+      <p className="text-sm text-muted-foreground">
+        Supported formats: CAMT.053 (XML), MT940 and CSV exports of German banks.
+      </p>
+
+      {imports.length > 0 && (
+        <div className="space-y-2">
+          <h2 className="text-lg font-semibold">Imports</h2>
+          <Card>
+            <CardContent className="p-0 divide-y">
+              {imports.map((bankImport) => (
+                <div key={bankImport.id} className="flex items-center justify-between gap-3 p-3 text-sm">
+                  <div className="min-w-0">
+                    <div className="flex items-center gap-2">
+                      <span className="font-medium truncate">{bankImport.fileName}</span>
+                      <Badge variant="outline">{BANK_STATEMENT_FORMAT_LABELS[bankImport.format]}</Badge>
+                    </div>
+                    <div className="mt-1 text-muted-foreground truncate">
+                      {formatDate(bankImport.createdAt)}
+                      {bankImport.accountIban && ` · ${bankImport.accountIban}`}
+                      {` · ${bankImport.importedCount} transactions, ${bankImport.openCount} open`}
+                    </div>
+                  </div>
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="icon"
+                    aria-label="Delete import"
+                    onClick={() => setDeleteTarget(bankImport)}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+            </CardContent>
+          </Card>
+        </div>
+      )}
+
+      <div className="space-y-3">
+        <div className="flex flex-wrap items-center gap-2">
+          {STATUS_FILTERS.map((status) => (
+            <Button
+              key={status}
+              type="button"
+              size="sm"
+              variant={statusFilter === status ? "default" : "outline"}
+              onClick={() => setStatusFilter(status)}
+            >
+              {BANK_TRANSACTION_STATUS_LABELS[status]}
+            </Button>
+          ))}
+        </div>
+
+        {isLoading ? (
+          <div className="flex items-center justify-center h-32">
+            <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+          </div>
+        ) : transactions.length === 0 ? (
+          <Card>
+            <CardContent className="flex flex-col items-center justify-center py-12">
+              <Landmark className="h-12 w-12 text-muted-foreground mb-4" />
+              <p className="text-muted-foreground">
+                {statusFilter === "unmatched" ? "No open transactions" : "No transactions"}
+              </p>
+            </CardContent>
+          </Card>
+        ) : (
+          <Card>
+            <CardContent className="p-0 divide-y">
+              {transactions.map((transaction) => (
+                <div key={transaction.id} className="p-3 space-y-2 text-sm">
+                  <div className="flex items-start justify-between gap-3">
+                    <div className="min-w-0">
+                      <div className="flex items-center gap-2">
+                        <span className="font-medium truncate">{transaction.counterpartyName || "Unknown counterparty"}</span>
+                        <span className="text-muted-foreground">{formatDate(transaction.bookingDate)}</span>
+                      </div>
+                      {transaction.purpose && (
+                        <div className="mt-1 text-muted-foreground break-words">{transaction.purpose}</div>
+                      )}
+                    </div>
+                    <span
+                      className={cn(
+                        "font-semibold whitespace-nowrap",
+                        transaction.amount > 0 ? "text-green-600 dark:text-green-400" : "text-foreground"
+                      )}
+                    >
+                      {formatCurrency(transaction.amount, transaction.currency)}
+                    </span>
+                  </div>
+
+                  {transaction.status === "matched" && (
+                    <div className="flex items-center justify-between gap-2">
+                      <span className="text-muted-foreground">
+                        {"Matched to "}
+                        {transaction.matchedInvoiceId ? (
+                          <Link href={`/invoices/${transaction.matchedInvoiceId}`} className="underline">
+                            invoice {transaction.matchedInvoiceNumber || `#${transaction.matchedInvoiceId}`}
+                          </Link>
+                        ) : transaction.matchedExpenseId ? (
+                          <Link href={`/expenses/${transaction.matchedExpenseId}`} className="underline">
+                            expense {transaction.matchedExpenseSupplier || `#${transaction.matchedExpenseId}`}
+                          </Link>
+                        ) : (
+                          "a deleted record"
+                        )}
+                      </span>
+                      <Button
+                        type="button"
+                        variant="outline"
+                        size="sm"
+                        onClick={() => unmatchMutation.mutate({ transactionId: transaction.id })}
+                        disabled={isMutating}
+                      >
+                        <Undo className="h-4 w-4 mr-1" />
+                        Undo
+                      </Button>
+                    </div>
+                  )}
+
+                  {transaction.status === "unmatched" && (
+                    <div className="space-y-2">
+                      {transaction.proposals.length === 0 ? (
+                        <div className="text-muted-foreground">No matching invoice or expense found</div>
+                      ) : (
+                        transaction.proposals.map((proposal) => (
+                          <div
+                            key={`${proposal.kind}-${proposal.id}`}
+                            className="flex flex-wrap items-center justify-between gap-2 rounded-md border p-2"
+                          >
+                            <div className="min-w-0">
+                              <div className="flex items-center gap-2">
+                                <span className="font-medium">
+                                  {proposal.kind === "invoice" ? `Invoice ${proposal.label}` : `Expense ${proposal.label}`}
+                                </span>
+                                <span className="text-muted-foreground">{formatCurrency(proposal.amount)}</span>
+                                <Badge variant="outline">{Math.round(proposal.score * 100)}%</Badge>
+                              </div>
+                              <div className="mt-1 text-muted-foreground">
+                                {proposal.kind === "invoice" && proposal.counterpartyName && `${proposal.counterpartyName} · `}
+                                {proposal.reasons.map((reason) => BANK_MATCH_REASON_LABELS[reason]).join(" · ")}
+                              </div>
+                            </div>
+                            <Button
+                              type="button"
+                              size="sm"
+                              onClick={() => confirmProposal(transaction, proposal)}
+                              disabled={isMutating}
+                            >
+                              <Check className="h-4 w-4 mr-1" />
+                              Confirm
+                            </Button>
+                          </div>
+                        ))
+                      )}
+                      <div className="flex justify-end">
+                        <Button
+                          type="button"
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => ignoreMutation.mutate({ transactionId: transaction.id, ignored: true })}
+                          disabled={isMutating}
+                        >
+                          <X className="h-4 w-4 mr-1" />
+                          Ignore
+                        </Button>
+                      </div>
+                    </div>
+                  )}
+
+                  {transaction.status === "ignored" && (
+                    <div className="flex justify-end">
+                      <Button
+                        type="button"
+                        variant="outline"
+                        size="sm"
+                        onClick={() => ignoreMutation.mutate({ transactionId: transaction.id, ignored: false })}
+                        disabled={isMutating}
+                      >
+                        <Undo className="h-4 w-4 mr-1" />
+                        Restore
+                      </Button>
+                    </div>
+                  )}
+                </div>
+              ))}
+            </CardContent>
+          </Card>
+        )}
+      </div>
+
+      <DeleteConfirmDialog
+        open={!!deleteTarget}
+        onOpenChange={(open) => {
+          if (!open) {
+            setDeleteTarget(null);
+          }
+        }}
+        onConfirm={() => deleteTarget && deleteImportMutation.mutate({ id: deleteTarget.id })}
+        title="Delete Import"
+        description="The imported transactions are removed. Imports with confirmed matches cannot be deleted."
+        confirmLabel="Delete"
+        isDeleting={deleteImportMutation.isPending}
+      />
+    </ModulePage>
+  );
+}
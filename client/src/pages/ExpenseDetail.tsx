@@ -13,7 +13,15 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { trpc } from "@/lib/trpc";
 import { ArrowLeft, Loader2 } from "@/components/ui/Icon";
 import { Link, useRoute, useLocation } from "wouter";
+import { useAuth } from "@/_core/hooks/useAuth";
+import { ExpenseApprovalCard } from "@/components/expenses/ExpenseApprovalCard";
+import { ExpenseCommentsCard } from "@/components/expenses/ExpenseCommentsCard";
+import { ExpenseDuplicateCard } from "@/components/expenses/ExpenseDuplicateCard";
+import { ExpenseExchangeRateCard } from "@/components/expenses/ExpenseExchangeRateCard";
 import { ExpenseForm } from "@/components/expenses/ExpenseForm";
+import { ExpenseProjectCard } from "@/components/expenses/ExpenseProjectCard";
+import { ExpenseSplitsCard } from "@/components/expenses/ExpenseSplitsCard";
+import { ExpenseVatCard } from "@/components/expenses/ExpenseVatCard";
 import { VoidExpenseDialog } from "@/components/expenses/VoidExpenseDialog";
 import { DeleteConfirmDialog } from "@/components/DeleteConfirmDialog";
 import { toast } from "sonner";
@@ -32,6 +40,7 @@ export default function ExpenseDetail() {
   const [, navigate] = useLocation();
   const expenseId = params?.id ? parseInt(params.id) : null;
   const isNew = params?.id === "new";
+  const { user } = useAuth();
 
   const [voidDialogOpen, setVoidDialogOpen] = useState(false);
   const [deleteDialogOpen, setDeleteDialogOpen] = useState(false);
@@ -300,13 +309,18 @@ export default function ExpenseDetail() {
           throw new Error(`Storage upload failed (${uploadResponse.status})`);
         }
 
-        await registerReceiptMutation.mutateAsync({
+        const registered = await registerReceiptMutation.mutateAsync({
           expenseId,
           s3Key,
           mimeType: file.type,
           originalFilename: file.name,
           fileSize: file.size,
         });
+        if (registered.duplicate) {
+          toast.warning(`${file.name}: possible duplicate of expense #${registered.duplicate.original.id}`, {
+            description: registered.duplicate.reason,
+          });
+        }
 
         successCount += 1;
       } catch (error) {
@@ -356,7 +370,8 @@ export default function ExpenseDetail() {
     );
   }
 
-  const canMarkInOrder = expense?.status === "needs_review";
+  const canMarkInOrder =
+    expense?.status === "needs_review" && expense.approvalStatus !== "submitted" && expense.approvalStatus !== "rejected";
   const canVoid = expense?.status === "in_order";
   const canDelete = expense?.status === "needs_review";
 
@@ -487,6 +502,63 @@ export default function ExpenseDetail() {
         </CardContent>
       </Card>
 
+      {!isNew && expense && user && (
+        <ExpenseApprovalCard expense={expense} currentUser={user} />
+      )}
+
+      {!isNew && expense?.duplicateOf && expense.status !== "void" && (
+        <ExpenseDuplicateCard expenseId={expense.id} duplicateOf={expense.duplicateOf} />
+      )}
+
+      {!isNew && expense && (
+        <ExpenseVatCard
+          expenseId={expense.id}
+          vatMode={expense.vatMode}
+          vatRate={expense.vatRate}
+          vatAmountCents={expense.vatAmountCents}
+          grossAmountCents={expense.grossAmountCents}
+          currency={expense.currency}
+          disabled={expense.status === "void"}
+        />
+      )}
+
+      {!isNew && expense && expense.currency !== "EUR" && (
+        <ExpenseExchangeRateCard
+          expenseId={expense.id}
+          currency={expense.currency}
+          grossAmountCents={expense.grossAmountCents}
+          grossAmountEurCents={expense.grossAmountEurCents}
+          exchangeRate={expense.exchangeRate}
+          exchangeRateDate={expense.exchangeRateDate}
+          exchangeRateSource={expense.exchangeRateSource}
+          disabled={expense.status === "void"}
+        />
+      )}
+
+      {!isNew && expense && (
+        <ExpenseProjectCard
+          expenseId={expense.id}
+          projectId={expense.projectId}
+          jobId={expense.jobId}
+          suggestion={expense.status !== "void" ? expense.suggestions.project : null}
+          disabled={expense.status === "void"}
+        />
+      )}
+
+      {!isNew && expense && (
+        <ExpenseSplitsCard
+          expenseId={expense.id}
+          grossAmountCents={expense.grossAmountCents}
+          currency={expense.currency}
+          defaultCategory={expense.category}
+          defaultVatRate={expense.vatRate}
+          splits={expense.splits}
+          disabled={expense.status === "void"}
+        />
+      )}
+
+      {!isNew && expense && user && <ExpenseCommentsCard expenseId={expense.id} currentUser={user} />}
+
       {/* Void Dialog */}
       <VoidExpenseDialog
         open={voidDialogOpen}
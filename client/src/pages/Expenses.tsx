@@ -13,8 +13,9 @@ import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { trpc, type RouterOutputs } from "@/lib/trpc";
-import { Camera, Plus, Loader2, Receipt, Upload, CheckCircle2 } from "@/components/ui/Icon";
+import { Camera, Plus, Loader2, Receipt, Upload, CheckCircle2, Landmark, Truck, CalendarDaysIcon, ArrowPathRoundedSquareIcon } from "@/components/ui/Icon";
 import { Link, useLocation } from "wouter";
+import { ApprovalQueue } from "@/components/expenses/ApprovalQueue";
 import { ExpenseCard } from "@/components/expenses/ExpenseCard";
 import { ReviewExpenseCard } from "@/components/expenses/ReviewExpenseCard";
 import { StickyReviewActions } from "@/components/expenses/StickyReviewActions";
@@ -73,8 +74,12 @@ export default function Expenses() {
     expenses.forEach((expense) => {
       if (expense.status === "void") return;
 
+      // Totals are in EUR; foreign-currency expenses without a rate yet are left out
+      const eurCents = expense.currency === "EUR" ? expense.grossAmountCents : expense.grossAmountEurCents;
+      if (eurCents === null) return;
+
       const deductibleCents = Math.round(
-        (expense.grossAmountCents * expense.businessUsePct) / 100
+        (eurCents * expense.businessUsePct) / 100
       );
 
       const expenseDate = new Date(expense.expenseDate);
@@ -187,6 +192,14 @@ export default function Expenses() {
         toast.success("Receipts uploaded successfully");
       }
 
+      // Suspected duplicates stay in needs_review; the expense page offers voiding them
+      for (const { expenseId, filename, duplicate } of data.duplicates) {
+        toast.warning(`${filename}: possible duplicate of expense #${duplicate.original.id}`, {
+          description: duplicate.reason,
+          action: { label: "Review", onClick: () => navigate(`/expenses/${expenseId}`) },
+        });
+      }
+
       setBulkUploadOpen(false);
       // Force refetch to ensure UI updates immediately (autofill may have run)
       await utils.expenses.list.invalidate();
@@ -491,6 +504,42 @@ export default function Expenses() {
               </DropdownMenuItem>
             </DropdownMenuContent>
           </DropdownMenu>
+          <Button
+            type="button"
+            variant="outline"
+            onClick={() => navigate("/bank")}
+            className="h-10 whitespace-nowrap"
+          >
+            <Landmark className="w-4 h-4 mr-2" />
+            Bank
+          </Button>
+          <Button
+            type="button"
+            variant="outline"
+            onClick={() => navigate("/mileage")}
+            className="h-10 whitespace-nowrap"
+          >
+            <Truck className="w-4 h-4 mr-2" />
+            Mileage
+          </Button>
+          <Button
+            type="button"
+            variant="outline"
+            onClick={() => navigate("/per-diem")}
+            className="h-10 whitespace-nowrap"
+          >
+            <CalendarDaysIcon className="w-4 h-4 mr-2" />
+            Per diem
+          </Button>
+          <Button
+            type="button"
+            variant="outline"
+            onClick={() => navigate("/subscriptions")}
+            className="h-10 whitespace-nowrap"
+          >
+            <ArrowPathRoundedSquareIcon className="w-4 h-4 mr-2" />
+            Subscriptions
+          </Button>
           <Button 
             asChild 
             className="h-10 whitespace-nowrap"
@@ -535,6 +584,8 @@ export default function Expenses() {
         </Card>
       </div>
 
+      <ApprovalQueue />
+
       {/* Needs Review Section */}
       <div className="space-y-4 md:pb-4" style={{ paddingBottom: 'calc(var(--bottom-safe-area, 0px) + 6rem)' }}>
         <div className="flex items-center justify-between">
@@ -1,6 +1,9 @@
 import { InvoiceForm, type InvoicePreviewData } from "@/components/invoices/InvoiceForm";
 import { ShareInvoiceDialog } from "@/components/invoices/ShareInvoiceDialog";
 import { InvoiceStatusActionsDropdown } from "@/components/invoices/InvoiceStatusActionsDropdown";
+import { EInvoiceExportMenu } from "@/components/invoices/EInvoiceExportMenu";
+import { DunningPanel } from "@/components/invoices/DunningPanel";
+import { PaymentHistoryPanel } from "@/components/invoices/PaymentHistoryPanel";
 import { Button } from "@/components/ui/button";
 import { trpc } from "@/lib/trpc";
 import { Loader2, Eye } from "@/components/ui/Icon";
@@ -234,31 +237,34 @@ export default function InvoiceView() {
   const headerTitle = isMobile && isEditing ? "Edit Invoice" : "View Invoice";
 
   const statusActions = invoice && invoice.source === "created" ? (
-    <InvoiceStatusActionsDropdown
-      invoice={{
-        id: invoice.id,
-        invoiceNumber: invoice.invoiceNumber || "",
-        needsReview: invoice.needsReview || false,
-        sentAt: invoice.sentAt,
-        paidAt: invoice.paidAt,
-        amountPaid: invoice.amountPaid,
-        total: invoice.total,
-        dueDate: invoice.dueDate,
-        cancelledAt: invoice.cancelledAt,
-        source: invoice.source,
-        type: invoice.type,
-      }}
-      onActionComplete={async () => {
-        await utils.invoices.get.invalidate({ id: invoiceId! });
-        await utils.invoices.list.invalidate();
-      }}
-      onSend={() => {
-        setShareDialogOpen(true);
-      }}
-      onAddPayment={() => {
-        toast.info("Add Payment - use the Payments section in the form");
-      }}
-    />
+    <>
+      {invoice.sentAt && <EInvoiceExportMenu invoiceId={invoice.id} />}
+      <InvoiceStatusActionsDropdown
+        invoice={{
+          id: invoice.id,
+          invoiceNumber: invoice.invoiceNumber || "",
+          needsReview: invoice.needsReview || false,
+          sentAt: invoice.sentAt,
+          paidAt: invoice.paidAt,
+          amountPaid: invoice.amountPaid,
+          total: invoice.total,
+          dueDate: invoice.dueDate,
+          cancelledAt: invoice.cancelledAt,
+          source: invoice.source,
+          type: invoice.type,
+        }}
+        onActionComplete={async () => {
+          await utils.invoices.get.invalidate({ id: invoiceId! });
+          await utils.invoices.list.invalidate();
+        }}
+        onSend={() => {
+          setShareDialogOpen(true);
+        }}
+        onAddPayment={() => {
+          toast.info("Add Payment - use the Payments section in the form");
+        }}
+      />
+    </>
   ) : null;
 
   const showDesktopDraftSplit = !isMobile && invoice && invoice.source === "created" && isDraft;
@@ -650,6 +656,17 @@ export default function InvoiceView() {
             )}
           </div>
         )}
+        {invoiceId && invoice && invoice.amountPaid > 0 && (
+          <PaymentHistoryPanel
+            invoiceId={invoiceId}
+            total={invoice.total}
+            readOnly={invoice.isCancelled}
+            className="mt-6"
+          />
+        )}
+        {invoiceId && invoice?.sentAt && !invoice.cancelledAt && (
+          <DunningPanel invoiceId={invoiceId} className="mt-6" />
+        )}
       </InvoiceWorkspaceBody>
 
       <PDFPreviewModal
@@ -2,7 +2,7 @@ import { Button } from "@/components/ui/button";
 import { Card } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { trpc } from "@/lib/trpc";
-import { FileText, Plus, Loader2, Upload, DocumentCurrencyEuro, DocumentCurrencyPound, Search, SlidersHorizontal, Settings, X, CheckCircle2, Archive, Trash2 } from "@/components/ui/Icon";
+import { FileText, Plus, Loader2, Upload, DocumentCurrencyEuro, DocumentCurrencyPound, Search, SlidersHorizontal, Settings, X, CheckCircle2, Archive, Trash2, AlertCircle, ArrowPathRoundedSquareIcon, Landmark } from "@/components/ui/Icon";
 import { useEffect, useState, useRef, useMemo } from "react";
 import { createPortal } from "react-dom";
 import { usePortalRoot } from "@/hooks/usePortalRoot";
@@ -651,6 +651,7 @@ export default function Invoices() {
   const [selectedIds, setSelectedIds] = useState<Set<number>>(new Set());
 
   const { data: invoices = [], refetch } = trpc.invoices.list.useQuery();
+  const { data: dueDunnings = [] } = trpc.dunning.due.useQuery();
   const { data: archivedInvoices = [] } = trpc.invoices.listArchived.useQuery();
   const { data: trashedInvoices = [] } = trpc.invoices.listTrashed.useQuery();
   const { data: needsReviewInvoices = [], refetch: refetchNeedsReview } = trpc.invoices.listNeedsReview.useQuery();
@@ -1967,6 +1968,35 @@ export default function Invoices() {
       onSettings={() => navigate("/settings")}
       primaryActions={
         <>
+          {dueDunnings.length > 0 && (
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => navigate("/invoices/dunning")}
+              className="h-10 whitespace-nowrap"
+            >
+              <AlertCircle className="w-4 h-4 mr-2" />
+              Dunning ({dueDunnings.length})
+            </Button>
+          )}
+          <Button
+            type="button"
+            variant="outline"
+            onClick={() => navigate("/invoices/recurring")}
+            className="h-10 whitespace-nowrap"
+          >
+            <ArrowPathRoundedSquareIcon className="w-4 h-4 mr-2" />
+            Recurring
+          </Button>
+          <Button
+            type="button"
+            variant="outline"
+            onClick={() => navigate("/bank")}
+            className="h-10 whitespace-nowrap"
+          >
+            <Landmark className="w-4 h-4 mr-2" />
+            Bank
+          </Button>
           <Button
             type="button"
             variant="outline"
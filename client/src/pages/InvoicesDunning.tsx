@@ -0,0 +1,123 @@
+/**
+ * Invoices Dunning Page
+ *
+ * Overdue invoices that are due for their next dunning step (payment
+ * reminder, 1st or 2nd Mahnung). Upcoming steps can be shown as well.
+ */
+
+import { useMemo, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import { Label } from "@/components/ui/label";
+import { trpc } from "@/lib/trpc";
+import { CheckCircle2, Loader2, Send } from "@/components/ui/Icon";
+import { useLocation } from "wouter";
+import { toast } from "sonner";
+import { ModulePage } from "@/components/ModulePage";
+import { formatCurrency } from "@/lib/invoiceState";
+
+const formatDate = (value: Date | string | null | undefined) =>
+  value ? new Date(value).toLocaleDateString("de-DE") : "—";
+
+export default function InvoicesDunning() {
+  const [, navigate] = useLocation();
+  const [includeUpcoming, setIncludeUpcoming] = useState(false);
+
+  const utils = trpc.useUtils();
+  const { data: entries = [], isLoading } = trpc.dunning.due.useQuery({ includeUpcoming });
+  const { data: contacts = [] } = trpc.contacts.list.useQuery();
+
+  const contactNames = useMemo(
+    () => new Map<number, string>(contacts.map((contact: { id: number; name: string }) => [contact.id, contact.name])),
+    [contacts]
+  );
+
+  const createMutation = trpc.dunning.create.useMutation({
+    onSuccess: async (notice) => {
+      toast.success(`${notice.name} created`);
+      await utils.dunning.due.invalidate();
+      await utils.dunning.history.invalidate({ invoiceId: notice.invoiceId });
+    },
+    onError: (error) => toast.error(error.message || "Failed to create dunning notice"),
+  });
+
+  return (
+    <ModulePage
+      title="Dunning"
+      subtitle="Overdue invoices due for a payment reminder or Mahnung"
+      searchEnabled={false}
+      filterEnabled={false}
+      onSettings={() => navigate("/settings")}
+      primaryActions={
+        <div className="flex items-center gap-2 h-10">
+          <Switch id="includeUpcoming" checked={includeUpcoming} onCheckedChange={setIncludeUpcoming} />
+          <Label htmlFor="includeUpcoming" className="cursor-pointer whitespace-nowrap">
+            Show upcoming
+          </Label>
+        </div>
+      }
+    >
+      {isLoading ? (
+        <div className="flex items-center justify-center h-64">
+          <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+        </div>
+      ) : entries.length === 0 ? (
+        <Card>
+          <CardContent className="flex flex-col items-center justify-center py-12">
+            <CheckCircle2 className="h-12 w-12 text-muted-foreground mb-4" />
+            <p className="text-muted-foreground">No invoices are due for dunning</p>
+          </CardContent>
+        </Card>
+      ) : (
+        <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-3">
+          {entries.map((entry) => (
+            <Card
+              key={entry.invoiceId}
+              className="cursor-pointer"
+              onClick={() => navigate(`/invoices/${entry.invoiceId}`)}
+            >
+              <CardContent className="p-4 space-y-3">
+                <div className="flex items-start justify-between gap-2">
+                  <div className="min-w-0">
+                    <div className="font-semibold truncate">
+                      {entry.invoiceNumber || entry.invoiceName || `#${entry.invoiceId}`}
+                    </div>
+                    <div className="text-sm text-muted-foreground truncate">
+                      {(entry.clientId && contactNames.get(entry.clientId)) || "No contact"}
+                    </div>
+                  </div>
+                  <Badge variant={entry.isDue ? "destructive" : "outline"}>{entry.nextLevelName}</Badge>
+                </div>
+                <div className="text-sm text-muted-foreground space-y-1">
+                  <div>
+                    Due {formatDate(entry.dueDate)} · {entry.daysOverdue} days overdue
+                  </div>
+                  <div>Outstanding {formatCurrency(entry.outstanding)}</div>
+                  {!entry.isDue && <div>Next step on {formatDate(entry.nextDueAt)}</div>}
+                </div>
+                <div className="flex items-center justify-between gap-2">
+                  <div className="text-lg font-semibold">{formatCurrency(entry.preview.totalDue)}</div>
+                  <Button
+                    type="button"
+                    size="sm"
+                    variant={entry.isDue ? "default" : "outline"}
+                    disabled={createMutation.isPending}
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      createMutation.mutate({ invoiceId: entry.invoiceId });
+                    }}
+                  >
+                    <Send className="h-4 w-4 mr-2" />
+                    Create
+                  </Button>
+                </div>
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+      )}
+    </ModulePage>
+  );
+}
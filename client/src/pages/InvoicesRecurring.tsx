@@ -0,0 +1,287 @@
+/**
+ * Recurring Invoices Page
+ *
+ * Templates for clients billed the same amount every month, quarter or
+ * year. The server scheduler creates the invoices on each run date; this
+ * page lists the upcoming runs and the invoices generated so far.
+ */
+
+import { useMemo, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { trpc, type RouterOutputs } from "@/lib/trpc";
+import {
+  ArrowPathRoundedSquareIcon,
+  ArrowRight,
+  Edit,
+  Loader2,
+  MoreVertical,
+  Pause,
+  Play,
+  Plus,
+  Send,
+  Trash2,
+} from "@/components/ui/Icon";
+import { useLocation } from "wouter";
+import { toast } from "sonner";
+import { ModulePage } from "@/components/ModulePage";
+import { formatCurrency } from "@/lib/currencyFormat";
+import { DeleteConfirmDialog } from "@/components/DeleteConfirmDialog";
+import { RecurringInvoiceFormDialog } from "@/components/invoices/RecurringInvoiceFormDialog";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { RECURRING_INTERVAL_LABELS } from "@shared/recurringInvoice";
+
+type RecurringInvoice = RouterOutputs["recurringInvoices"]["list"][number];
+type RecurringInvoiceRun = RouterOutputs["recurringInvoices"]["runs"][number];
+
+const RUN_STATUS_LABELS: Record<RecurringInvoiceRun["status"], string> = {
+  pending: "In progress",
+  created: "Draft created",
+  issued: "Issued",
+  failed: "Failed",
+};
+
+const getRunStatusVariant = (status: RecurringInvoiceRun["status"]) => {
+  switch (status) {
+    case "issued":
+      return "default" as const;
+    case "failed":
+      return "destructive" as const;
+    default:
+      return "outline" as const;
+  }
+};
+
+const formatDate = (value: Date | string | null | undefined) =>
+  value ? new Date(value).toLocaleDateString("de-DE") : "—";
+
+export default function InvoicesRecurring() {
+  const [, navigate] = useLocation();
+  const [formOpen, setFormOpen] = useState(false);
+  const [editingTemplate, setEditingTemplate] = useState<RecurringInvoice | null>(null);
+  const [deleteTarget, setDeleteTarget] = useState<RecurringInvoice | null>(null);
+
+  const utils = trpc.useUtils();
+  const { data: templates = [], isLoading } = trpc.recurringInvoices.list.useQuery();
+  const { data: runs = [] } = trpc.recurringInvoices.runs.useQuery();
+  const { data: contacts = [] } = trpc.contacts.list.useQuery();
+
+  const contactNames = useMemo(
+    () => new Map<number, string>(contacts.map((contact: { id: number; name: string }) => [contact.id, contact.name])),
+    [contacts]
+  );
+
+  const setActiveMutation = trpc.recurringInvoices.setActive.useMutation({
+    onSuccess: (template) => {
+      toast.success(template.isActive ? "Recurring invoice resumed" : "Recurring invoice paused");
+      utils.recurringInvoices.list.invalidate();
+    },
+    onError: (error) => toast.error(error.message),
+  });
+
+  const runNowMutation = trpc.recurringInvoices.runNow.useMutation({
+    onSuccess: (result) => {
+      if (result.error) {
+        toast.warning(result.error);
+      } else {
+        toast.success(result.status === "issued" ? "Invoice created and issued" : "Draft invoice created");
+      }
+      utils.recurringInvoices.list.invalidate();
+      utils.recurringInvoices.runs.invalidate();
+      utils.invoices.list.invalidate();
+    },
+    onError: (error) => toast.error(error.message || "Failed to create invoice"),
+  });
+
+  const deleteMutation = trpc.recurringInvoices.delete.useMutation({
+    onSuccess: () => {
+      toast.success("Recurring invoice deleted");
+      setDeleteTarget(null);
+      utils.recurringInvoices.list.invalidate();
+      utils.recurringInvoices.runs.invalidate();
+    },
+    onError: (error) => toast.error(error.message || "Failed to delete recurring invoice"),
+  });
+
+  const openCreate = () => {
+    setEditingTemplate(null);
+    setFormOpen(true);
+  };
+
+  const openEdit = (template: RecurringInvoice) => {
+    setEditingTemplate(template);
+    setFormOpen(true);
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  return (
+    <ModulePage
+      title="Recurring Invoices"
+      subtitle="Bill maintenance and subscription clients automatically"
+      searchEnabled={false}
+      filterEnabled={false}
+      settingsEnabled={false}
+      primaryActions={
+        <Button className="h-10 whitespace-nowrap" onClick={openCreate}>
+          <Plus className="w-4 h-4 mr-1" />
+          New
+        </Button>
+      }
+    >
+      {templates.length === 0 ? (
+        <Card>
+          <CardContent className="flex flex-col items-center justify-center py-12">
+            <ArrowPathRoundedSquareIcon className="h-12 w-12 text-muted-foreground mb-4" />
+            <p className="text-muted-foreground">No recurring invoices yet</p>
+          </CardContent>
+        </Card>
+      ) : (
+        <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-3">
+          {templates.map((template) => (
+            <Card key={template.id} className={template.isActive ? undefined : "opacity-70"}>
+              <CardContent className="p-4 space-y-3">
+                <div className="flex items-start justify-between gap-2">
+                  <div className="min-w-0">
+                    <div className="font-semibold truncate">{template.name}</div>
+                    <div className="text-sm text-muted-foreground truncate">
+                      {(template.clientId && contactNames.get(template.clientId)) || "No contact"}
+                    </div>
+                  </div>
+                  <div className="flex items-center gap-1">
+                    <Badge variant={template.isActive ? "outline" : "secondary"}>
+                      {template.isActive ? RECURRING_INTERVAL_LABELS[template.interval] : "Paused"}
+                    </Badge>
+                    <DropdownMenu>
+                      <DropdownMenuTrigger asChild>
+                        <Button variant="ghost" size="icon" className="h-8 w-8" aria-label="Recurring invoice actions">
+                          <MoreVertical className="h-4 w-4" />
+                        </Button>
+                      </DropdownMenuTrigger>
+                      <DropdownMenuContent align="end">
+                        <DropdownMenuItem onClick={() => openEdit(template)}>
+                          <Edit className="h-4 w-4 mr-2" />
+                          Edit
+                        </DropdownMenuItem>
+                        {template.isActive && template.nextRunDate && (
+                          <DropdownMenuItem
+                            onClick={() => runNowMutation.mutate({ id: template.id })}
+                            disabled={runNowMutation.isPending}
+                          >
+                            <Send className="h-4 w-4 mr-2" />
+                            Create next invoice now
+                          </DropdownMenuItem>
+                        )}
+                        <DropdownMenuItem
+                          onClick={() => setActiveMutation.mutate({ id: template.id, isActive: !template.isActive })}
+                        >
+                          {template.isActive ? (
+                            <Pause className="h-4 w-4 mr-2" />
+                          ) : (
+                            <Play className="h-4 w-4 mr-2" />
+                          )}
+                          {template.isActive ? "Pause" : "Resume"}
+                        </DropdownMenuItem>
+                        <DropdownMenuSeparator />
+                        <DropdownMenuItem className="text-destructive" onClick={() => setDeleteTarget(template)}>
+                          <Trash2 className="h-4 w-4 mr-2" />
+                          Delete
+                        </DropdownMenuItem>
+                      </DropdownMenuContent>
+                    </DropdownMenu>
+                  </div>
+                </div>
+                <div className="flex items-end justify-between gap-2 text-sm">
+                  <div className="text-muted-foreground">
+                    {template.upcomingRuns.length > 0 ? (
+                      <>
+                        <div>Next run: {formatDate(template.upcomingRuns[0])}</div>
+                        {template.upcomingRuns.length > 1 && (
+                          <div>Then: {template.upcomingRuns.slice(1).map((run) => formatDate(run)).join(", ")}</div>
+                        )}
+                      </>
+                    ) : (
+                      <div>{template.isActive ? "Ended" : "No upcoming runs"}</div>
+                    )}
+                    <div>{template.autoIssue ? "Issued automatically" : "Created as draft"}</div>
+                  </div>
+                  <div className="text-lg font-semibold">{formatCurrency(template.total)}</div>
+                </div>
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+      )}
+
+      {runs.length > 0 && (
+        <div className="mt-8 space-y-3">
+          <h2 className="text-lg font-semibold">Generated invoices</h2>
+          <Card>
+            <CardContent className="p-0 divide-y">
+              {runs.map((run) => (
+                <div
+                  key={run.id}
+                  className={`flex items-center justify-between gap-3 p-3 text-sm ${run.invoiceId ? "cursor-pointer" : ""}`}
+                  onClick={() => run.invoiceId && navigate(`/invoices/${run.invoiceId}`)}
+                >
+                  <div className="min-w-0">
+                    <div className="flex items-center gap-2">
+                      <span className="font-medium truncate">{run.invoiceNumber || run.templateName || "Invoice"}</span>
+                      <Badge variant={getRunStatusVariant(run.status)}>{RUN_STATUS_LABELS[run.status]}</Badge>
+                    </div>
+                    <div className="mt-1 text-muted-foreground truncate">
+                      {run.templateName} · Run {formatDate(run.runDate)}
+                      {run.error && ` · ${run.error}`}
+                    </div>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    {run.invoiceTotal !== null && <span className="font-semibold">{formatCurrency(run.invoiceTotal)}</span>}
+                    {run.invoiceId && <ArrowRight className="h-4 w-4 text-muted-foreground" />}
+                  </div>
+                </div>
+              ))}
+            </CardContent>
+          </Card>
+        </div>
+      )}
+
+      <RecurringInvoiceFormDialog
+        open={formOpen}
+        onOpenChange={(open) => {
+          setFormOpen(open);
+          if (!open) {
+            setEditingTemplate(null);
+          }
+        }}
+        recurringInvoice={editingTemplate}
+      />
+
+      <DeleteConfirmDialog
+        open={!!deleteTarget}
+        onOpenChange={(open) => {
+          if (!open) {
+            setDeleteTarget(null);
+          }
+        }}
+        onConfirm={() => deleteTarget && deleteMutation.mutate({ id: deleteTarget.id })}
+        title="Delete Recurring Invoice"
+        description="No further invoices will be created. Invoices generated so far are kept."
+        confirmLabel="Delete"
+        isDeleting={deleteMutation.isPending}
+      />
+    </ModulePage>
+  );
+}
@@ -0,0 +1,376 @@
+/**
+ * Mileage Page
+ *
+ * Fahrtenbuch per vehicle. Trips are append-only and hash-chained; a
+ * correction is recorded as a new entry. Business trips create a vehicle
+ * expense at the vehicle's per-km rate. The log is exported per year as CSV
+ * or PDF including the result of the chain check.
+ */
+
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { trpc, type RouterOutputs } from "@/lib/trpc";
+import {
+  AlertTriangle,
+  CheckCircle2,
+  Download,
+  Edit,
+  Loader2,
+  Plus,
+  Trash2,
+  Truck,
+  Undo,
+} from "@/components/ui/Icon";
+import { Link } from "wouter";
+import { toast } from "sonner";
+import { ModulePage } from "@/components/ModulePage";
+import { cn } from "@/lib/utils";
+import { VehicleDialog } from "@/components/mileage/VehicleDialog";
+import { TripFormDialog } from "@/components/mileage/TripFormDialog";
+import { TRIP_TYPES, TRIP_TYPE_LABELS } from "@shared/mileage";
+
+type Vehicle = RouterOutputs["mileage"]["vehicles"][number];
+type LogbookEntry = RouterOutputs["mileage"]["logbook"]["entries"][number];
+
+const formatDate = (value: Date | string) => new Date(value).toLocaleDateString("de-DE");
+
+const formatKm = (km: number) =>
+  `${km.toLocaleString("de-DE", { minimumFractionDigits: 1, maximumFractionDigits: 1 })} km`;
+
+function downloadBlob(blob: Blob, filename: string) {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+}
+
+export default function Mileage() {
+  const currentYear = new Date().getFullYear();
+  const [vehicleId, setVehicleId] = useState<number | null>(null);
+  const [year, setYear] = useState(currentYear);
+  const [vehicleDialog, setVehicleDialog] = useState<{ vehicle: Vehicle | null } | null>(null);
+  const [tripDialog, setTripDialog] = useState<{ correcting: LogbookEntry | null } | null>(null);
+  const [isDownloadingPdf, setIsDownloadingPdf] = useState(false);
+
+  const utils = trpc.useUtils();
+  const { data: vehicles = [], isLoading: vehiclesLoading } = trpc.mileage.vehicles.useQuery();
+  const vehicle = vehicles.find((item) => item.id === vehicleId) ?? null;
+
+  useEffect(() => {
+    if (vehicleId === null && vehicles.length > 0) {
+      setVehicleId((vehicles.find((item) => !item.archivedAt) ?? vehicles[0]).id);
+    }
+  }, [vehicles, vehicleId]);
+
+  const { data: logbook, isLoading: logbookLoading } = trpc.mileage.logbook.useQuery(
+    { vehicleId: vehicleId ?? 0, year },
+    { enabled: vehicleId !== null }
+  );
+
+  const removeVehicleMutation = trpc.mileage.removeVehicle.useMutation({
+    onSuccess: (result) => {
+      toast.success(result.archived ? "Vehicle archived; its log is kept" : "Vehicle removed");
+      if (!result.archived) setVehicleId(null);
+      utils.mileage.vehicles.invalidate();
+    },
+    onError: (error) => toast.error(error.message || "Failed to remove vehicle"),
+  });
+
+  const restoreVehicleMutation = trpc.mileage.restoreVehicle.useMutation({
+    onSuccess: () => {
+      toast.success("Vehicle restored");
+      utils.mileage.vehicles.invalidate();
+    },
+    onError: (error) => toast.error(error.message || "Failed to restore vehicle"),
+  });
+
+  const csvMutation = trpc.mileage.exportCsv.useMutation({
+    onSuccess: (result) => {
+      downloadBlob(new Blob([result.content], { type: "text/csv;charset=utf-8" }), result.filename);
+    },
+    onError: (error) => toast.error(error.message || "CSV export failed"),
+  });
+
+  const handleDownloadPdf = async () => {
+    if (!vehicle) return;
+    setIsDownloadingPdf(true);
+    try {
+      const { data: { session } } = await import("@/lib/supabase").then(m => m.supabase.auth.getSession());
+      if (!session?.access_token) {
+        toast.error("Please log in to download the logbook");
+        return;
+      }
+      const params = new URLSearchParams({ vehicleId: String(vehicle.id), year: String(year) });
+      const response = await fetch(`/api/mileage/logbook/pdf?${params}`, {
+        headers: {
+          "Authorization": `Bearer ${session.access_token}`,
+        },
+        credentials: "include",
+      });
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({ error: "Unknown error" }));
+        toast.error(errorData.error || "Failed to generate PDF");
+        return;
+      }
+      const disposition = response.headers.get("Content-Disposition") ?? "";
+      const filename = /filename="([^"]+)"/.exec(disposition)?.[1] ?? "fahrtenbuch.pdf";
+      downloadBlob(await response.blob(), filename);
+    } catch (error) {
+      console.error("Mileage logbook PDF error:", error);
+      toast.error("Failed to download PDF");
+    } finally {
+      setIsDownloadingPdf(false);
+    }
+  };
+
+  const years = Array.from({ length: 6 }, (_, i) => currentYear - i);
+  const entries = logbook ? [...logbook.entries].reverse() : [];
+
+  return (
+    <ModulePage
+      title="Mileage"
+      subtitle="Fahrtenbuch and mileage allowance per vehicle"
+      searchEnabled={false}
+      filterEnabled={false}
+      settingsEnabled={false}
+      primaryActions={
+        <>
+          <Button variant="outline" className="h-10 whitespace-nowrap" onClick={() => setVehicleDialog({ vehicle: null })}>
+            <Truck className="w-4 h-4 mr-2" />
+            Add vehicle
+          </Button>
+          <Button
+            className="h-10 whitespace-nowrap"
+            onClick={() => setTripDialog({ correcting: null })}
+            disabled={!vehicle || Boolean(vehicle.archivedAt)}
+          >
+            <Plus className="w-4 h-4 mr-2" />
+            Record trip
+          </Button>
+        </>
+      }
+    >
+      {vehiclesLoading ? (
+        <div className="flex items-center justify-center h-32">
+          <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+        </div>
+      ) : vehicles.length === 0 ? (
+        <Card>
+          <CardContent className="flex flex-col items-center justify-center py-12 gap-4">
+            <Truck className="h-12 w-12 text-muted-foreground" />
+            <p className="text-muted-foreground">Add a vehicle to start its mileage log</p>
+            <Button onClick={() => setVehicleDialog({ vehicle: null })}>
+              <Plus className="w-4 h-4 mr-2" />
+              Add vehicle
+            </Button>
+          </CardContent>
+        </Card>
+      ) : (
+        <>
+          <div className="flex flex-wrap items-center gap-2">
+            <Select value={vehicleId ? String(vehicleId) : undefined} onValueChange={(value) => setVehicleId(Number(value))}>
+              <SelectTrigger className="w-64">
+                <SelectValue placeholder="Vehicle" />
+              </SelectTrigger>
+              <SelectContent>
+                {vehicles.map((item) => (
+                  <SelectItem key={item.id} value={String(item.id)}>
+                    {item.name}
+                    {item.licensePlate ? ` · ${item.licensePlate}` : ""}
+                    {item.archivedAt ? " (archived)" : ""}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select value={String(year)} onValueChange={(value) => setYear(Number(value))}>
+              <SelectTrigger className="w-28">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {years.map((value) => (
+                  <SelectItem key={value} value={String(value)}>
+                    {value}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {vehicle && (
+              <>
+                <Button type="button" variant="ghost" size="icon" aria-label="Edit vehicle" onClick={() => setVehicleDialog({ vehicle })}>
+                  <Edit className="h-4 w-4" />
+                </Button>
+                {vehicle.archivedAt ? (
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="icon"
+                    aria-label="Restore vehicle"
+                    onClick={() => restoreVehicleMutation.mutate({ id: vehicle.id })}
+                  >
+                    <Undo className="h-4 w-4" />
+                  </Button>
+                ) : (
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="icon"
+                    aria-label="Remove vehicle"
+                    onClick={() => removeVehicleMutation.mutate({ id: vehicle.id })}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                )}
+              </>
+            )}
+            <div className="ml-auto flex gap-2">
+              <Button
+                type="button"
+                variant="outline"
+                size="sm"
+                onClick={() => vehicle && csvMutation.mutate({ vehicleId: vehicle.id, year })}
+                disabled={!logbook || csvMutation.isPending}
+              >
+                {csvMutation.isPending ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Download className="h-4 w-4 mr-2" />}
+                CSV
+              </Button>
+              <Button type="button" variant="outline" size="sm" onClick={handleDownloadPdf} disabled={!logbook || isDownloadingPdf}>
+                {isDownloadingPdf ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Download className="h-4 w-4 mr-2" />}
+                PDF
+              </Button>
+            </div>
+          </div>
+
+          {logbook && (
+            <>
+              <div
+                className={cn(
+                  "flex items-start gap-2 p-3 rounded-lg border text-sm",
+                  logbook.verification.valid ? "bg-primary/10 border-primary/20" : "bg-destructive/10 border-destructive/30"
+                )}
+              >
+                {logbook.verification.valid ? (
+                  <CheckCircle2 className="h-4 w-4 text-primary mt-0.5 shrink-0" />
+                ) : (
+                  <AlertTriangle className="h-4 w-4 text-destructive mt-0.5 shrink-0" />
+                )}
+                <span>
+                  {logbook.verification.valid
+                    ? "Log is complete and unchanged."
+                    : `Log check failed at entry ${logbook.verification.brokenAtSequence}: ${logbook.verification.reason}`}
+                </span>
+              </div>
+
+              <div className="grid gap-3 grid-cols-2 sm:grid-cols-4">
+                {TRIP_TYPES.map((type) => (
+                  <div key={type} className="rounded-lg border p-3">
+                    <p className="text-xs text-muted-foreground">{TRIP_TYPE_LABELS[type]}</p>
+                    <p className="text-lg font-semibold">{formatKm(logbook.totals[type])}</p>
+                  </div>
+                ))}
+                <div className="rounded-lg border p-3">
+                  <p className="text-xs text-muted-foreground">Total {year}</p>
+                  <p className="text-lg font-semibold">{formatKm(logbook.totals.total)}</p>
+                </div>
+              </div>
+            </>
+          )}
+
+          {logbookLoading ? (
+            <div className="flex items-center justify-center h-32">
+              <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+            </div>
+          ) : entries.length === 0 ? (
+            <Card>
+              <CardContent className="flex flex-col items-center justify-center py-12">
+                <Truck className="h-12 w-12 text-muted-foreground mb-4" />
+                <p className="text-muted-foreground">No trips in {year}</p>
+              </CardContent>
+            </Card>
+          ) : (
+            <Card>
+              <CardContent className="p-0 divide-y">
+                {entries.map((entry) => {
+                  const isReplaced = entry.replacedBySequence !== null;
+                  return (
+                    <div key={entry.id} className={cn("p-3 space-y-1 text-sm", isReplaced && "opacity-60")}>
+                      <div className="flex items-start justify-between gap-3">
+                        <div className="min-w-0">
+                          <div className="flex flex-wrap items-center gap-2">
+                            <span className="text-muted-foreground">No. {entry.sequence}</span>
+                            <span className="font-medium">{formatDate(entry.tripDate)}</span>
+                            <Badge variant="outline">{TRIP_TYPE_LABELS[entry.tripType]}</Badge>
+                            {isReplaced && <Badge variant="secondary">Replaced by No. {entry.replacedBySequence}</Badge>}
+                            {entry.replacesSequence !== null && (
+                              <Badge variant="secondary">Corrects No. {entry.replacesSequence}</Badge>
+                            )}
+                          </div>
+                          <div className={cn("mt-1 break-words", isReplaced && "line-through")}>
+                            {entry.startAddress} → {entry.endAddress}
+                          </div>
+                          <div className="mt-1 text-muted-foreground break-words">
+                            {entry.purpose}
+                            {entry.businessPartner && ` · ${entry.businessPartner}`}
+                            {entry.projectId && entry.projectName && (
+                              <>
+                                {" · "}
+                                <Link href={`/projects/${entry.projectId}`} className="underline">
+                                  {entry.projectName}
+                                </Link>
+                              </>
+                            )}
+                          </div>
+                        </div>
+                        <div className="flex items-center gap-1 shrink-0">
+                          <span className="font-semibold whitespace-nowrap">{formatKm(entry.distanceKm)}</span>
+                          {!isReplaced && (
+                            <Button
+                              type="button"
+                              variant="ghost"
+                              size="icon"
+                              aria-label="Correct trip"
+                              onClick={() => setTripDialog({ correcting: entry })}
+                            >
+                              <Edit className="h-4 w-4" />
+                            </Button>
+                          )}
+                        </div>
+                      </div>
+                    </div>
+                  );
+                })}
+              </CardContent>
+            </Card>
+          )}
+        </>
+      )}
+
+      <VehicleDialog
+        open={vehicleDialog !== null}
+        onOpenChange={(open) => !open && setVehicleDialog(null)}
+        vehicle={vehicleDialog?.vehicle}
+        onSaved={(saved) => setVehicleId(saved.id)}
+      />
+      {vehicle && (
+        <TripFormDialog
+          open={tripDialog !== null}
+          onOpenChange={(open) => !open && setTripDialog(null)}
+          vehicle={vehicle}
+          correcting={tripDialog?.correcting}
+        />
+      )}
+    </ModulePage>
+  );
+}
@@ -0,0 +1,80 @@
+/**
+ * Per Diem Page
+ *
+ * Meal allowances (Verpflegungsmehraufwand) for absences derived from project
+ * check-ins. Each absence can be proposed once as a `travel` expense, which
+ * then waits in the expense review lane.
+ */
+
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { trpc } from "@/lib/trpc";
+import { CalendarDaysIcon, ChevronLeft, ChevronRight, Loader2 } from "@/components/ui/Icon";
+import { ModulePage } from "@/components/ModulePage";
+import { PerDiemAbsenceCard } from "@/components/perDiem/PerDiemAbsenceCard";
+
+export default function PerDiem() {
+  const [month, setMonth] = useState(() => {
+    const now = new Date();
+    return { year: now.getFullYear(), month: now.getMonth() + 1 };
+  });
+
+  const { data: absences = [], isLoading } = trpc.perDiem.absences.useQuery(month);
+
+  const shiftMonth = (delta: number) => {
+    setMonth((current) => {
+      const date = new Date(current.year, current.month - 1 + delta, 1);
+      return { year: date.getFullYear(), month: date.getMonth() + 1 };
+    });
+  };
+
+  const monthLabel = new Date(month.year, month.month - 1, 1).toLocaleDateString("de-DE", {
+    month: "long",
+    year: "numeric",
+  });
+
+  return (
+    <ModulePage
+      title="Per Diem"
+      subtitle="Meal allowances from your project check-ins"
+      searchEnabled={false}
+      filterEnabled={false}
+      settingsEnabled={false}
+    >
+      <div className="flex items-center gap-2">
+        <Button type="button" variant="outline" size="icon" aria-label="Previous month" onClick={() => shiftMonth(-1)}>
+          <ChevronLeft className="h-4 w-4" />
+        </Button>
+        <span className="w-40 text-center font-medium">{monthLabel}</span>
+        <Button type="button" variant="outline" size="icon" aria-label="Next month" onClick={() => shiftMonth(1)}>
+          <ChevronRight className="h-4 w-4" />
+        </Button>
+      </div>
+
+      <p className="text-sm text-muted-foreground">
+        Check-ins on consecutive days at sites at least 100 km from your company address count as one trip with
+        overnight stays. Tick the meals that were provided before proposing the allowance.
+      </p>
+
+      {isLoading ? (
+        <div className="flex items-center justify-center h-32">
+          <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+        </div>
+      ) : absences.length === 0 ? (
+        <Card>
+          <CardContent className="flex flex-col items-center justify-center py-12">
+            <CalendarDaysIcon className="h-12 w-12 text-muted-foreground mb-4" />
+            <p className="text-muted-foreground">No completed check-ins in {monthLabel}</p>
+          </CardContent>
+        </Card>
+      ) : (
+        <div className="space-y-3">
+          {absences.map((absence) => (
+            <PerDiemAbsenceCard key={new Date(absence.startsAt).getTime()} absence={absence} />
+          ))}
+        </div>
+      )}
+    </ModulePage>
+  );
+}
@@ -4,6 +4,7 @@
  * Shows project details with tabs:
  * - Overview: Project info, status, dates
  * - Jobs: List of jobs under this project
+ * - Timeline: Gantt chart of the jobs and their dependencies
  * - Files: Uploaded files for the project
  */
 
@@ -21,6 +22,10 @@ import { ProjectJobList } from "@/components/ProjectJobList";
 import { ProjectFileGallery } from "@/components/ProjectFileGallery";
 import { DeleteConfirmDialog } from "@/components/DeleteConfirmDialog";
 import { ProjectCheckIn } from "@/components/ProjectCheckIn";
+import { ProjectCostCard } from "@/components/ProjectCostCard";
+import { ProjectBillableHoursCard } from "@/components/ProjectBillableHoursCard";
+import { ProjectMembersCard } from "@/components/ProjectMembersCard";
+import { ProjectTimeline } from "@/components/timeline/ProjectTimeline";
 import { GenerateProjectReportDialog } from "@/components/GenerateProjectReportDialog";
 import { toast } from "sonner";
 import { formatProjectSchedule } from "@/lib/dateFormat";
@@ -236,6 +241,13 @@ export default function ProjectDetail() {
               {project.description && (
                 <CardDescription className="mt-2">{project.description}</CardDescription>
               )}
+              {project.tags && project.tags.length > 0 && (
+                <div className="flex flex-wrap gap-1 mt-2">
+                  {project.tags.map((tag) => (
+                    <Badge key={tag} variant="outline">{tag}</Badge>
+                  ))}
+                </div>
+              )}
             </div>
             <Badge className={getStatusColor(project.status)}>{project.status}</Badge>
           </div>
@@ -278,10 +290,12 @@ export default function ProjectDetail() {
       </Card>
 
       <Tabs defaultValue="jobs" className="w-full">
-        <TabsList className="grid w-full grid-cols-3">
+        <TabsList className="grid w-full grid-cols-5">
           <TabsTrigger value="overview">Overview</TabsTrigger>
           <TabsTrigger value="jobs">Jobs ({jobs?.length || 0})</TabsTrigger>
+          <TabsTrigger value="timeline">Timeline</TabsTrigger>
           <TabsTrigger value="files">Files ({files?.length || 0})</TabsTrigger>
+          <TabsTrigger value="costs">Costs</TabsTrigger>
         </TabsList>
 
         <TabsContent value="overview" className="space-y-4">
@@ -333,6 +347,7 @@ export default function ProjectDetail() {
               </div>
             </CardContent>
           </Card>
+          <ProjectMembersCard projectId={projectId} />
         </TabsContent>
 
         <TabsContent value="jobs" className="space-y-4">
@@ -352,9 +367,18 @@ export default function ProjectDetail() {
           )}
         </TabsContent>
 
+        <TabsContent value="timeline" className="space-y-4">
+          <ProjectTimeline projectId={projectId} />
+        </TabsContent>
+
         <TabsContent value="files" className="space-y-4">
           <ProjectFileGallery projectId={projectId} files={files || []} isLoading={filesLoading} />
         </TabsContent>
+
+        <TabsContent value="costs" className="space-y-4">
+          <ProjectCostCard projectId={projectId} jobs={jobs || []} />
+          <ProjectBillableHoursCard projectId={projectId} jobs={jobs || []} />
+        </TabsContent>
       </Tabs>
 
       <div className="flex justify-end gap-2 pt-6 border-t border-border">
@@ -8,6 +8,7 @@
  * - Address
  * - Date range
  * - Status
+ * - Optional project template with its start date
  */
 
 import { useEffect, useState } from "react";
@@ -27,6 +28,7 @@ import { trpc } from "@/lib/trpc";
 import { toast } from "sonner";
 import { Loader2, ArrowLeft } from "@/components/ui/Icon";
 import { DatePicker } from "@/components/DatePicker";
+import { ProjectTemplateFields, parseTemplateStartDate } from "@/components/ProjectTemplateFields";
 import { Link, useLocation } from "wouter";
 import { PageHeader } from "@/components/PageHeader";
 
@@ -43,6 +45,8 @@ export default function ProjectNew() {
   const [address, setAddress] = useState("");
   const [status, setStatus] = useState<ProjectStatus>("planned");
   const [selectedDates, setSelectedDates] = useState<Date[]>([]);
+  const [templateId, setTemplateId] = useState<number | null>(null);
+  const [templateStartDate, setTemplateStartDate] = useState("");
 
   const { data: contacts = [] } = trpc.contacts.list.useQuery();
   const utils = trpc.useUtils();
@@ -56,6 +60,19 @@ export default function ProjectNew() {
       toast.error("Failed to create project: " + error.message);
     },
   });
+  const createFromTemplate = trpc.projectTemplates.createProject.useMutation({
+    onSuccess: (data) => {
+      toast.success(`Project created with ${data.jobCount} ${data.jobCount === 1 ? "job" : "jobs"}`);
+      if (data.quoteSkippedReason) {
+        toast.warning(`No quote created: ${data.quoteSkippedReason}`);
+      }
+      utils.projects.list.invalidate();
+      navigate(`/projects/${data.projectId}`);
+    },
+    onError: (error) => {
+      toast.error("Failed to create project: " + error.message);
+    },
+  });
 
   // Get prefillClientId from URL params and prefill client
   useEffect(() => {
@@ -70,6 +87,13 @@ export default function ProjectNew() {
     setClientName((current) => current || match.name);
   }, [location, contacts]);
 
+  // "Use template" on the templates page links here with ?templateId=
+  useEffect(() => {
+    const prefillTemplateId = Number(new URLSearchParams(window.location.search).get("templateId"));
+    if (!prefillTemplateId) return;
+    setTemplateId(prefillTemplateId);
+  }, [location]);
+
   const handleClientSelect = (value: string) => {
     if (value === CREATE_NEW_CLIENT_VALUE) {
       const currentUrl = new URL(window.location.href);
@@ -93,6 +117,8 @@ export default function ProjectNew() {
     }
   };
 
+  const isSubmitting = createProject.isPending || createFromTemplate.isPending;
+
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
     if (!name.trim()) {
@@ -100,6 +126,24 @@ export default function ProjectNew() {
       return;
     }
 
+    if (templateId) {
+      if (!templateStartDate) {
+        toast.error("Start date is required for a template");
+        return;
+      }
+      createFromTemplate.mutate({
+        templateId,
+        name: name.trim(),
+        client: clientName.trim() || undefined,
+        clientId: clientId ?? undefined,
+        description: description.trim() || undefined,
+        address: address.trim() || undefined,
+        status,
+        startDate: parseTemplateStartDate(templateStartDate),
+      });
+      return;
+    }
+
     // Determine dates
     const hasSelectedDates = selectedDates.length > 0;
     const sortedDates = [...selectedDates].sort((a, b) => a.getTime() - b.getTime());
@@ -146,6 +190,12 @@ export default function ProjectNew() {
         <CardContent>
           <form onSubmit={handleSubmit}>
             <div className="grid gap-4 py-4">
+              <ProjectTemplateFields
+                templateId={templateId}
+                onTemplateChange={setTemplateId}
+                startDate={templateStartDate}
+                onStartDateChange={setTemplateStartDate}
+              />
               <div className="grid gap-2">
                 <Label htmlFor="name">Project Name *</Label>
                 <Input
@@ -222,10 +272,12 @@ export default function ProjectNew() {
                   </SelectContent>
                 </Select>
               </div>
-              <div className="grid gap-2">
-                <Label>Project Dates</Label>
-                <DatePicker selectedDates={selectedDates} onChange={setSelectedDates} />
-              </div>
+              {!templateId && (
+                <div className="grid gap-2">
+                  <Label>Project Dates</Label>
+                  <DatePicker selectedDates={selectedDates} onChange={setSelectedDates} />
+                </div>
+              )}
             </div>
             <div className="flex justify-end gap-2 pt-4">
               <Link href="/projects">
@@ -233,8 +285,8 @@ export default function ProjectNew() {
                   Cancel
                 </Button>
               </Link>
-              <Button type="submit" disabled={createProject.isPending}>
-                {createProject.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              <Button type="submit" disabled={isSubmitting}>
+                {isSubmitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
                 Create Project
               </Button>
             </div>
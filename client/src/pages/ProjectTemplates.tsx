@@ -0,0 +1,119 @@
+/**
+ * Project Templates Page
+ *
+ * Recurring kinds of projects with their jobs, checklists, tags,
+ * inspections and standard line items. "Use template" opens the new
+ * project form with the template selected.
+ */
+
+import { useState } from "react";
+import { Link } from "wouter";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { trpc } from "@/lib/trpc";
+import { toast } from "sonner";
+import { Loader2, Pencil, Plus, Trash2 } from "@/components/ui/Icon";
+import { ModulePage } from "@/components/ModulePage";
+import { DeleteConfirmDialog } from "@/components/DeleteConfirmDialog";
+import { ProjectTemplateDialog, type ProjectTemplateDialogTemplate } from "@/components/ProjectTemplateDialog";
+import { getTemplateSpanDays } from "@shared/projectTemplates";
+
+export default function ProjectTemplates() {
+  const utils = trpc.useUtils();
+  const { data: templates = [], isLoading } = trpc.projectTemplates.list.useQuery();
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editingTemplate, setEditingTemplate] = useState<ProjectTemplateDialogTemplate | null>(null);
+  const [deletingTemplate, setDeletingTemplate] = useState<ProjectTemplateDialogTemplate | null>(null);
+
+  const deleteMutation = trpc.projectTemplates.delete.useMutation({
+    onSuccess: () => {
+      toast.success("Template deleted");
+      utils.projectTemplates.list.invalidate();
+      setDeletingTemplate(null);
+    },
+    onError: (error) => toast.error(error.message || "Failed to delete template"),
+  });
+
+  const openEditor = (template: ProjectTemplateDialogTemplate | null) => {
+    setEditingTemplate(template);
+    setDialogOpen(true);
+  };
+
+  return (
+    <ModulePage
+      title="Project Templates"
+      subtitle="Start recurring projects with their jobs, inspections and line items"
+      searchEnabled={false}
+      filterEnabled={false}
+      settingsEnabled={false}
+      primaryActions={
+        <Button className="h-10 whitespace-nowrap" onClick={() => openEditor(null)}>
+          <Plus className="w-4 h-4 mr-1" />
+          New
+        </Button>
+      }
+    >
+      {isLoading ? (
+        <div className="flex items-center justify-center py-12">
+          <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+        </div>
+      ) : templates.length === 0 ? (
+        <Card>
+          <CardContent className="py-12 text-center text-sm text-muted-foreground">
+            No templates yet. Capture the jobs of a recurring project once and reuse them for every new one.
+          </CardContent>
+        </Card>
+      ) : (
+        <div className="grid gap-4 md:grid-cols-2">
+          {templates.map((template) => (
+            <Card key={template.id}>
+              <CardHeader>
+                <CardTitle>{template.name}</CardTitle>
+                {template.description && <CardDescription>{template.description}</CardDescription>}
+              </CardHeader>
+              <CardContent className="space-y-3">
+                <p className="text-sm text-muted-foreground">
+                  {template.jobs.length} {template.jobs.length === 1 ? "job" : "jobs"} over{" "}
+                  {getTemplateSpanDays(template.jobs) + 1} days
+                  {template.inspectionTemplateIds.length > 0 && ` · ${template.inspectionTemplateIds.length} inspections`}
+                  {template.lineItems.length > 0 && ` · ${template.lineItems.length} line items`}
+                </p>
+                {template.tags.length > 0 && (
+                  <div className="flex flex-wrap gap-1">
+                    {template.tags.map((tag) => (
+                      <Badge key={tag} variant="outline">{tag}</Badge>
+                    ))}
+                  </div>
+                )}
+                <div className="flex gap-2">
+                  <Button asChild size="sm">
+                    <Link href={`/projects/new?templateId=${template.id}`}>Use template</Link>
+                  </Button>
+                  <Button variant="outline" size="sm" onClick={() => openEditor(template)}>
+                    <Pencil className="w-4 h-4 mr-1" />
+                    Edit
+                  </Button>
+                  <Button variant="ghost" size="sm" onClick={() => setDeletingTemplate(template)}>
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                </div>
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+      )}
+
+      <ProjectTemplateDialog open={dialogOpen} onOpenChange={setDialogOpen} template={editingTemplate} />
+
+      <DeleteConfirmDialog
+        open={!!deletingTemplate}
+        onOpenChange={(open) => !open && setDeletingTemplate(null)}
+        onConfirm={() => deletingTemplate && deleteMutation.mutate({ id: deletingTemplate.id })}
+        title="Delete template"
+        description={`Delete "${deletingTemplate?.name}"? Projects created from it are kept.`}
+        isDeleting={deleteMutation.isPending}
+      />
+    </ModulePage>
+  );
+}
@@ -16,7 +16,7 @@ import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { trpc, type RouterOutputs } from "@/lib/trpc";
-import { Plus, MapPin, Calendar, Loader2, Building2, FolderOpen, SlidersHorizontal, CheckCircle2, Archive, Trash2 } from "@/components/ui/Icon";
+import { Plus, MapPin, Calendar, Loader2, Building2, FolderOpen, SlidersHorizontal, CheckCircle2, Archive, Trash2, Clock, Copy } from "@/components/ui/Icon";
 import { Link, useLocation } from "wouter";
 import { useEffect, useState, useMemo } from "react";
 import { ItemActionsMenu, ItemAction } from "@/components/ItemActionsMenu";
@@ -592,18 +592,38 @@ export default function Projects() {
         subtitle="Manage your client projects and work"
         onFilter={() => setIsFilterOpen(true)}
         primaryActions={
-        <Button 
-          asChild 
-          className="h-10 whitespace-nowrap"
-          data-guide-id="projects.new"
-          data-guide-type="button"
-          data-guide-label="Create New Project"
-        >
-          <Link href="/projects/new">
-            <Plus className="w-4 h-4 mr-1" />
-            New
-          </Link>
-        </Button>
+        <>
+          <Button asChild variant="outline" className="h-10 whitespace-nowrap">
+            <Link href="/timeline">
+              <Calendar className="w-4 h-4 mr-2" />
+              Timeline
+            </Link>
+          </Button>
+          <Button asChild variant="outline" className="h-10 whitespace-nowrap">
+            <Link href="/timesheets">
+              <Clock className="w-4 h-4 mr-2" />
+              Timesheets
+            </Link>
+          </Button>
+          <Button asChild variant="outline" className="h-10 whitespace-nowrap">
+            <Link href="/projects/templates">
+              <Copy className="w-4 h-4 mr-2" />
+              Templates
+            </Link>
+          </Button>
+          <Button 
+            asChild 
+            className="h-10 whitespace-nowrap"
+            data-guide-id="projects.new"
+            data-guide-type="button"
+            data-guide-label="Create New Project"
+          >
+            <Link href="/projects/new">
+              <Plus className="w-4 h-4 mr-1" />
+              New
+            </Link>
+          </Button>
+        </>
       }
     >
       {/* Filter sheet - controlled by ModulePage's onFilter handler */}
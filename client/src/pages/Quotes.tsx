@@ -0,0 +1,335 @@
+/**
+ * Quotes (Angebote) List Page
+ *
+ * Lists all quotes with their lifecycle state (draft, sent, accepted,
+ * declined, expired). Accepted or sent quotes can be converted into a
+ * draft invoice with the same contact, project and line items.
+ */
+
+import { useMemo, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { trpc, type RouterOutputs } from "@/lib/trpc";
+import {
+  ArrowRight,
+  CheckCircle2,
+  ClipboardDocumentList,
+  Edit,
+  Eye,
+  Loader2,
+  MoreVertical,
+  Plus,
+  Send,
+  Trash2,
+  Undo,
+  XCircle,
+} from "@/components/ui/Icon";
+import { useLocation } from "wouter";
+import { toast } from "sonner";
+import { ModulePage } from "@/components/ModulePage";
+import { formatCurrency } from "@/lib/currencyFormat";
+import { DeleteConfirmDialog } from "@/components/DeleteConfirmDialog";
+import { PDFPreviewModal } from "@/components/PDFPreviewModal";
+import { QuoteFormDialog } from "@/components/quotes/QuoteFormDialog";
+import { useIsMobile } from "@/hooks/useMobile";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import type { QuoteState } from "@shared/quoteState";
+
+type Quote = RouterOutputs["quotes"]["list"][number];
+
+const STATE_LABELS: Record<QuoteState, string> = {
+  draft: "Draft",
+  sent: "Sent",
+  accepted: "Accepted",
+  declined: "Declined",
+  expired: "Expired",
+};
+
+const getStateColor = (state: QuoteState) => {
+  switch (state) {
+    case "sent":
+      return "bg-primary text-primary-foreground";
+    case "accepted":
+      return "bg-green-600 text-white";
+    case "declined":
+      return "bg-destructive text-destructive-foreground";
+    case "expired":
+      return "bg-yellow-600 text-white";
+    default:
+      return "bg-muted text-muted-foreground";
+  }
+};
+
+const formatDate = (value: Date | string | null) =>
+  value ? new Date(value).toLocaleDateString("de-DE") : "—";
+
+export default function Quotes() {
+  const [, navigate] = useLocation();
+  const isMobile = useIsMobile();
+  const [formOpen, setFormOpen] = useState(false);
+  const [editingQuote, setEditingQuote] = useState<Quote | null>(null);
+  const [deleteTarget, setDeleteTarget] = useState<Quote | null>(null);
+  const [previewUrl, setPreviewUrl] = useState<string | null>(null);
+  const [previewFileName, setPreviewFileName] = useState("quote.pdf");
+
+  const utils = trpc.useUtils();
+  const { data: quotes = [], isLoading } = trpc.quotes.list.useQuery();
+  const { data: contacts = [] } = trpc.contacts.list.useQuery();
+
+  const contactNames = useMemo(
+    () => new Map<number, string>(contacts.map((contact: { id: number; name: string }) => [contact.id, contact.name])),
+    [contacts]
+  );
+
+  const mutationOptions = (message: string) => ({
+    onSuccess: () => {
+      toast.success(message);
+      utils.quotes.list.invalidate();
+    },
+    onError: (error: { message: string }) => toast.error(error.message),
+  });
+
+  const markAsSentMutation = trpc.quotes.markAsSent.useMutation(mutationOptions("Quote marked as sent"));
+  const acceptMutation = trpc.quotes.accept.useMutation(mutationOptions("Quote accepted"));
+  const declineMutation = trpc.quotes.decline.useMutation(mutationOptions("Quote declined"));
+  const revertMutation = trpc.quotes.revertToDraft.useMutation(mutationOptions("Quote reverted to draft"));
+
+  const convertMutation = trpc.quotes.convertToInvoice.useMutation({
+    onSuccess: (data) => {
+      toast.success("Draft invoice created from quote");
+      utils.quotes.list.invalidate();
+      utils.invoices.list.invalidate();
+      navigate(`/invoices/${data.invoiceId}`);
+    },
+    onError: (error) => toast.error(error.message || "Failed to convert quote"),
+  });
+
+  const deleteMutation = trpc.quotes.delete.useMutation({
+    onSuccess: () => {
+      toast.success("Quote deleted");
+      setDeleteTarget(null);
+      utils.quotes.list.invalidate();
+    },
+    onError: (error) => toast.error(error.message || "Failed to delete quote"),
+  });
+
+  const handlePreview = async (quote: Quote) => {
+    try {
+      const { data: { session } } = await import("@/lib/supabase").then(m => m.supabase.auth.getSession());
+      if (!session?.access_token) {
+        toast.error("Please log in to preview quotes");
+        return;
+      }
+      const response = await fetch(`/api/quotes/${quote.id}/pdf?preview=true`, {
+        headers: {
+          'Authorization': `Bearer ${session.access_token}`,
+        },
+        credentials: 'include',
+      });
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({ error: 'Unknown error' }));
+        toast.error(errorData.error || 'Failed to generate preview');
+        return;
+      }
+      const blob = await response.blob();
+      if (previewUrl) {
+        URL.revokeObjectURL(previewUrl);
+      }
+      setPreviewUrl(URL.createObjectURL(blob));
+      setPreviewFileName(`${quote.quoteNumber}.pdf`);
+    } catch (error) {
+      console.error('Preview error:', error);
+      toast.error('Failed to open preview');
+    }
+  };
+
+  const openCreate = () => {
+    setEditingQuote(null);
+    setFormOpen(true);
+  };
+
+  const openEdit = (quote: Quote) => {
+    setEditingQuote(quote);
+    setFormOpen(true);
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  return (
+    <ModulePage
+      title="Quotes"
+      subtitle="Create quotes and turn accepted ones into invoices"
+      searchEnabled={false}
+      filterEnabled={false}
+      settingsEnabled={false}
+      primaryActions={
+        <Button className="h-10 whitespace-nowrap" onClick={openCreate}>
+          <Plus className="w-4 h-4 mr-1" />
+          New
+        </Button>
+      }
+    >
+      {quotes.length === 0 ? (
+        <Card>
+          <CardContent className="flex flex-col items-center justify-center py-12">
+            <ClipboardDocumentList className="h-12 w-12 text-muted-foreground mb-4" />
+            <p className="text-muted-foreground">No quotes yet</p>
+          </CardContent>
+        </Card>
+      ) : (
+        <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-3">
+          {quotes.map((quote) => {
+            const isConverted = !!quote.convertedInvoiceId;
+            const canConvert = !isConverted && quote.status !== "draft" && quote.status !== "declined";
+
+            return (
+              <Card key={quote.id}>
+                <CardContent className="p-4 space-y-3">
+                  <div className="flex items-start justify-between gap-2">
+                    <div className="min-w-0">
+                      <div className="font-semibold truncate">{quote.quoteNumber}</div>
+                      <div className="text-sm text-muted-foreground truncate">
+                        {(quote.clientId && contactNames.get(quote.clientId)) || "No contact"}
+                      </div>
+                    </div>
+                    <div className="flex items-center gap-1">
+                      <Badge className={getStateColor(quote.state)}>{STATE_LABELS[quote.state]}</Badge>
+                      <DropdownMenu>
+                        <DropdownMenuTrigger asChild>
+                          <Button variant="ghost" size="icon" className="h-8 w-8" aria-label="Quote actions">
+                            <MoreVertical className="h-4 w-4" />
+                          </Button>
+                        </DropdownMenuTrigger>
+                        <DropdownMenuContent align="end">
+                          <DropdownMenuItem onClick={() => handlePreview(quote)}>
+                            <Eye className="h-4 w-4 mr-2" />
+                            Preview PDF
+                          </DropdownMenuItem>
+                          {quote.status === "draft" && (
+                            <>
+                              <DropdownMenuItem onClick={() => openEdit(quote)}>
+                                <Edit className="h-4 w-4 mr-2" />
+                                Edit
+                              </DropdownMenuItem>
+                              <DropdownMenuItem onClick={() => markAsSentMutation.mutate({ id: quote.id })}>
+                                <Send className="h-4 w-4 mr-2" />
+                                Mark as sent
+                              </DropdownMenuItem>
+                            </>
+                          )}
+                          {quote.status === "sent" && (
+                            <>
+                              <DropdownMenuItem onClick={() => acceptMutation.mutate({ id: quote.id })}>
+                                <CheckCircle2 className="h-4 w-4 mr-2" />
+                                Mark as accepted
+                              </DropdownMenuItem>
+                              <DropdownMenuItem onClick={() => declineMutation.mutate({ id: quote.id })}>
+                                <XCircle className="h-4 w-4 mr-2" />
+                                Mark as declined
+                              </DropdownMenuItem>
+                            </>
+                          )}
+                          {canConvert && (
+                            <DropdownMenuItem
+                              onClick={() => convertMutation.mutate({ id: quote.id })}
+                              disabled={convertMutation.isPending}
+                            >
+                              <ArrowRight className="h-4 w-4 mr-2" />
+                              Convert to invoice
+                            </DropdownMenuItem>
+                          )}
+                          {isConverted && (
+                            <DropdownMenuItem onClick={() => navigate(`/invoices/${quote.convertedInvoiceId}`)}>
+                              <ArrowRight className="h-4 w-4 mr-2" />
+                              Open invoice
+                            </DropdownMenuItem>
+                          )}
+                          {!isConverted && quote.status !== "draft" && (
+                            <DropdownMenuItem onClick={() => revertMutation.mutate({ id: quote.id })}>
+                              <Undo className="h-4 w-4 mr-2" />
+                              Revert to draft
+                            </DropdownMenuItem>
+                          )}
+                          {!isConverted && (
+                            <>
+                              <DropdownMenuSeparator />
+                              <DropdownMenuItem
+                                className="text-destructive"
+                                onClick={() => setDeleteTarget(quote)}
+                              >
+                                <Trash2 className="h-4 w-4 mr-2" />
+                                Delete
+                              </DropdownMenuItem>
+                            </>
+                          )}
+                        </DropdownMenuContent>
+                      </DropdownMenu>
+                    </div>
+                  </div>
+                  <div className="flex items-end justify-between text-sm">
+                    <div className="text-muted-foreground">
+                      <div>Date: {formatDate(quote.issueDate)}</div>
+                      <div>Valid until: {formatDate(quote.validUntil)}</div>
+                    </div>
+                    <div className="text-lg font-semibold">{formatCurrency(quote.total)}</div>
+                  </div>
+                </CardContent>
+              </Card>
+            );
+          })}
+        </div>
+      )}
+
+      <QuoteFormDialog
+        open={formOpen}
+        onOpenChange={(open) => {
+          setFormOpen(open);
+          if (!open) {
+            setEditingQuote(null);
+          }
+        }}
+        quote={editingQuote}
+      />
+
+      <DeleteConfirmDialog
+        open={!!deleteTarget}
+        onOpenChange={(open) => {
+          if (!open) {
+            setDeleteTarget(null);
+          }
+        }}
+        onConfirm={() => deleteTarget && deleteMutation.mutate({ id: deleteTarget.id })}
+        title="Delete Quote"
+        description="This will permanently delete the quote. This action cannot be undone."
+        confirmLabel="Delete"
+        isDeleting={deleteMutation.isPending}
+      />
+
+      <PDFPreviewModal
+        isOpen={!!previewUrl}
+        onClose={() => {
+          if (previewUrl) {
+            URL.revokeObjectURL(previewUrl);
+          }
+          setPreviewUrl(null);
+        }}
+        fileUrl={previewUrl ?? undefined}
+        fileName={previewFileName}
+        fullScreen={isMobile}
+      />
+    </ModulePage>
+  );
+}
@@ -186,7 +186,7 @@ export default function ScanReceipt() {
       console.log("[ScanReceipt] Step 2 complete: File uploaded to S3 successfully");
 
       console.log("[ScanReceipt] Step 3: Registering receipt in database");
-      await withTimeout(
+      const registered = await withTimeout(
         registerReceiptMutation.mutateAsync({
           expenseId: targetExpenseId,
           s3Key,
@@ -200,7 +200,13 @@ export default function ScanReceipt() {
       console.log("[ScanReceipt] Step 3 complete: Receipt registered successfully");
 
       console.log("[ScanReceipt] Step 4: Invalidating queries and navigating");
-      toast.success("Receipt uploaded successfully");
+      if (registered.duplicate) {
+        toast.warning(`Possible duplicate of expense #${registered.duplicate.original.id}`, {
+          description: registered.duplicate.reason,
+        });
+      } else {
+        toast.success("Receipt uploaded successfully");
+      }
       if (originalPreviewUrl) {
         URL.revokeObjectURL(originalPreviewUrl);
       }
@@ -6,10 +6,14 @@
  * - Tax information (Steuernummer, USt-IdNr)
  * - Banking details (IBAN, BIC)
  * - Invoice settings (Kleinunternehmer, VAT rate, number format)
+ * - Dunning levels (fees, default interest, letter texts)
+ * - DATEV export (consultant/client number, SKR03/SKR04 accounts)
+ * - Team workspace switcher
  * - Mobile-first, dark theme with neon green highlights
  */
 
 import { useState, useEffect } from "react";
+import { useLocation } from "wouter";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
@@ -19,16 +23,21 @@ import { Separator } from "@/components/ui/separator";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
 import { trpc } from "@/lib/trpc";
-import { Loader2, Save, Building2, Receipt, CreditCard, Info, Palette, ImageIcon, User } from "@/components/ui/Icon";
+import { Loader2, Save, Building2, Receipt, CreditCard, Info, Palette, ImageIcon, User, Users, AlertCircle, FileSpreadsheet, CurrencyEuro } from "@/components/ui/Icon";
 import { toast } from "sonner";
 import { ModulePage } from "@/components/ModulePage";
 import { useTheme } from "@/hooks/useTheme";
 import { ThemeName } from "@/lib/theme";
 import { LogoUploadSection } from "@/components/LogoUploadSection";
+import { DunningLevelsSection } from "@/components/invoices/DunningLevelsSection";
+import { DatevSettingsSection } from "@/components/accounting/DatevSettingsSection";
+import { ExchangeRatesSection } from "@/components/accounting/ExchangeRatesSection";
 import { isDebugPanelEnabled, setDebugPanelEnabled } from "@/lib/debugPanel";
+import { WorkspaceSwitcher } from "@/components/workspaces/WorkspaceSwitcher";
 
 export default function Settings() {
   const { theme, switchTheme, themes } = useTheme();
+  const [, setLocation] = useLocation();
   const { data: settings, isLoading, error } = trpc.settings.get.useQuery();
   const currentYear = new Date().getFullYear();
 
@@ -203,6 +212,25 @@ export default function Settings() {
       subtitle="Configure your company information and invoice settings"
     >
 
+      {/* Team */}
+      <Card>
+        <CardHeader>
+          <div className="flex items-center gap-2">
+            <Users className="h-5 w-5 text-primary" />
+            <CardTitle>Team</CardTitle>
+          </div>
+          <CardDescription>
+            Workspace you work in and the members you share it with
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="flex flex-col sm:flex-row gap-2">
+          <WorkspaceSwitcher />
+          <Button variant="outline" onClick={() => setLocation("/team")}>
+            Manage team
+          </Button>
+        </CardContent>
+      </Card>
+
       {/* Theme Settings */}
       <Card>
         <CardHeader>
@@ -838,6 +866,54 @@ export default function Settings() {
           </Button>
         </div>
       </form>
+
+      {/* Dunning Levels */}
+      <Card>
+        <CardHeader>
+          <div className="flex items-center gap-2">
+            <AlertCircle className="h-5 w-5 text-primary" />
+            <CardTitle>Dunning</CardTitle>
+          </div>
+          <CardDescription>
+            Payment reminder and Mahnungen for overdue invoices
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <DunningLevelsSection />
+        </CardContent>
+      </Card>
+
+      {/* DATEV Export */}
+      <Card>
+        <CardHeader>
+          <div className="flex items-center gap-2">
+            <FileSpreadsheet className="h-5 w-5 text-primary" />
+            <CardTitle>DATEV</CardTitle>
+          </div>
+          <CardDescription>
+            Numbers and accounts used for the Buchungsstapel export to your tax advisor
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <DatevSettingsSection />
+        </CardContent>
+      </Card>
+
+      {/* Exchange Rates */}
+      <Card>
+        <CardHeader>
+          <div className="flex items-center gap-2">
+            <CurrencyEuro className="h-5 w-5 text-primary" />
+            <CardTitle>Exchange rates</CardTitle>
+          </div>
+          <CardDescription>
+            ECB reference rates for converting expenses in other currencies to EUR
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <ExchangeRatesSection />
+        </CardContent>
+      </Card>
     </ModulePage>
   );
 }
@@ -1,20 +1,195 @@
-import { useEffect } from "react";
+/**
+ * Statements Page
+ *
+ * Reports and exports for the tax advisor: the period tax report with the
+ * UStVA Kennzahlen, and the DATEV Buchungsstapel (EXTF) with issued invoices,
+ * cancellations and in-order expenses of a period, bundled with the receipts
+ * as ZIP.
+ */
+
+import { useState } from "react";
+import { Link } from "wouter";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { trpc } from "@/lib/trpc";
+import { Download, FileSpreadsheet, Info, Loader2 } from "@/components/ui/Icon";
 import { toast } from "sonner";
 import { ModulePage } from "@/components/ModulePage";
+import { TaxReportSection } from "@/components/accounting/TaxReportSection";
+
+const toDateInput = (date: Date) =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, "0")}-${String(date.getDate()).padStart(2, "0")}`;
+
+type PeriodPreset = { label: string; range: () => [Date, Date] };
+
+const PERIOD_PRESETS: PeriodPreset[] = [
+  {
+    label: "Last month",
+    range: () => {
+      const now = new Date();
+      return [new Date(now.getFullYear(), now.getMonth() - 1, 1), new Date(now.getFullYear(), now.getMonth(), 0)];
+    },
+  },
+  {
+    label: "Last quarter",
+    range: () => {
+      const now = new Date();
+      const quarterStart = Math.floor(now.getMonth() / 3) * 3;
+      return [new Date(now.getFullYear(), quarterStart - 3, 1), new Date(now.getFullYear(), quarterStart, 0)];
+    },
+  },
+  {
+    label: "This year",
+    range: () => {
+      const now = new Date();
+      return [new Date(now.getFullYear(), 0, 1), now];
+    },
+  },
+];
+
+function downloadBlob(blob: Blob, filename: string) {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+}
 
 export default function Statements() {
-  useEffect(() => {
-    toast.info("Statements are coming soon.");
-  }, []);
+  const [initialFrom, initialTo] = PERIOD_PRESETS[0].range();
+  const [from, setFrom] = useState(toDateInput(initialFrom));
+  const [to, setTo] = useState(toDateInput(initialTo));
+
+  const { data: settings } = trpc.settings.get.useQuery();
+  const isConfigured = Boolean(settings?.datevConsultantNumber && settings?.datevClientNumber);
+
+  const [isExporting, setIsExporting] = useState(false);
+
+  const handleExport = async () => {
+    setIsExporting(true);
+    try {
+      const { data: { session } } = await import("@/lib/supabase").then(m => m.supabase.auth.getSession());
+      if (!session?.access_token) {
+        toast.error("Please log in to export");
+        return;
+      }
+      const response = await fetch(`/api/export/datev?${new URLSearchParams({ from, to })}`, {
+        headers: {
+          "Authorization": `Bearer ${session.access_token}`,
+        },
+        credentials: "include",
+      });
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({ error: "Unknown error" }));
+        toast.error(errorData.error || "DATEV export failed");
+        return;
+      }
+      const bookingCount = Number(response.headers.get("X-Datev-Bookings") ?? 0);
+      const receiptCount = Number(response.headers.get("X-Datev-Receipts") ?? 0);
+      const missingReceipts = Number(response.headers.get("X-Datev-Missing-Receipts") ?? 0);
+      const disposition = response.headers.get("Content-Disposition") ?? "";
+      const filename = /filename="([^"]+)"/.exec(disposition)?.[1] ?? `DATEV_${from}_${to}.zip`;
+      downloadBlob(await response.blob(), filename);
+
+      const summary = `${bookingCount} bookings, ${receiptCount} receipts`;
+      if (missingReceipts > 0) {
+        toast.warning(
+          `DATEV export created (${summary}). ${missingReceipts} bookings have no receipt; they are listed in Fehlende_Belege.txt in the ZIP.`
+        );
+      } else {
+        toast.success(`DATEV export created (${summary})`);
+      }
+    } catch (error) {
+      console.error("DATEV export error:", error);
+      toast.error("DATEV export failed");
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const applyPreset = (preset: PeriodPreset) => {
+    const [start, end] = preset.range();
+    setFrom(toDateInput(start));
+    setTo(toDateInput(end));
+  };
 
   return (
     <ModulePage
       title="Statements"
-      subtitle="Coming soon."
+      subtitle="Exports for your tax advisor"
+      searchEnabled={false}
+      filterEnabled={false}
+      settingsEnabled={false}
     >
-      <div className="flex items-center justify-center min-h-[200px]">
-        <p className="text-sm text-muted-foreground">Coming soon.</p>
-      </div>
+      <TaxReportSection />
+
+      <Card>
+        <CardHeader>
+          <div className="flex items-center gap-2">
+            <FileSpreadsheet className="h-5 w-5 text-primary" />
+            <CardTitle>DATEV Export</CardTitle>
+          </div>
+          <CardDescription>
+            Buchungsstapel with issued invoices, cancellations and expenses marked as in order, including receipts
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {settings && !isConfigured && (
+            <div className="flex items-start gap-2 p-3 rounded-lg bg-primary/10 border border-primary/20">
+              <Info className="h-4 w-4 text-primary mt-0.5 shrink-0" />
+              <p className="text-sm text-muted-foreground">
+                Enter your Beraternummer and Mandantennummer in the{" "}
+                <Link href="/settings" className="text-primary underline">
+                  DATEV settings
+                </Link>{" "}
+                before exporting.
+              </p>
+            </div>
+          )}
+
+          <div className="flex flex-wrap gap-2">
+            {PERIOD_PRESETS.map((preset) => (
+              <Button key={preset.label} type="button" variant="outline" size="sm" onClick={() => applyPreset(preset)}>
+                {preset.label}
+              </Button>
+            ))}
+          </div>
+
+          <div className="grid gap-4 md:grid-cols-2">
+            <div className="space-y-2">
+              <Label htmlFor="datevFrom">From</Label>
+              <Input id="datevFrom" type="date" value={from} onChange={(e) => setFrom(e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="datevTo">To</Label>
+              <Input id="datevTo" type="date" value={to} onChange={(e) => setTo(e.target.value)} />
+            </div>
+          </div>
+          <p className="text-xs text-muted-foreground">
+            A batch covers one fiscal year at most. Bookings are dated by invoice issue date and expense date.
+          </p>
+
+          <div className="flex justify-end">
+            <Button
+              type="button"
+              onClick={handleExport}
+              disabled={!isConfigured || !from || !to || isExporting}
+            >
+              {isExporting ? (
+                <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+              ) : (
+                <Download className="h-4 w-4 mr-2" />
+              )}
+              Download ZIP
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
     </ModulePage>
   );
 }
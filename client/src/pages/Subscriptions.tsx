@@ -0,0 +1,108 @@
+/**
+ * Subscriptions Page
+ *
+ * Recurring software, insurance and subscription bills detected from the
+ * supplier history of expenses, with their annualised cost. Active
+ * subscriptions are checked for missing receipts and price changes.
+ */
+
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { trpc } from "@/lib/trpc";
+import { formatCurrency } from "@/lib/currencyFormat";
+import { toast } from "sonner";
+import { ArrowPathRoundedSquareIcon, Loader2 } from "@/components/ui/Icon";
+import { ModulePage } from "@/components/ModulePage";
+import { SubscriptionCard } from "@/components/subscriptions/SubscriptionCard";
+
+export default function Subscriptions() {
+  const utils = trpc.useUtils();
+  const { data: subscriptions = [], isLoading } = trpc.subscriptions.list.useQuery();
+
+  const detectMutation = trpc.subscriptions.detect.useMutation({
+    onSuccess: (result) => {
+      toast.success(
+        result.detected > 0
+          ? `${result.detected} recurring supplier${result.detected === 1 ? "" : "s"} found`
+          : "No recurring suppliers found"
+      );
+      utils.subscriptions.list.invalidate();
+    },
+    onError: (error) => toast.error(error.message || "Failed to detect subscriptions"),
+  });
+
+  const active = subscriptions.filter((subscription) => subscription.status === "active");
+  // Annual totals per currency, foreign subscriptions aren't converted
+  const annualTotals = new Map<string, number>();
+  for (const subscription of active) {
+    annualTotals.set(subscription.currency, (annualTotals.get(subscription.currency) ?? 0) + subscription.annualCostCents);
+  }
+  const warningCount = active.filter(
+    (subscription) => subscription.missingCharges.length > 0 || subscription.priceChange
+  ).length;
+
+  return (
+    <ModulePage
+      title="Subscriptions"
+      subtitle="Recurring bills and what they cost per year"
+      searchEnabled={false}
+      filterEnabled={false}
+      settingsEnabled={false}
+      primaryActions={
+        <Button
+          className="h-10 whitespace-nowrap"
+          onClick={() => detectMutation.mutate()}
+          disabled={detectMutation.isPending}
+        >
+          {detectMutation.isPending ? (
+            <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+          ) : (
+            <ArrowPathRoundedSquareIcon className="w-4 h-4 mr-2" />
+          )}
+          Detect
+        </Button>
+      }
+    >
+      {isLoading ? (
+        <div className="flex items-center justify-center h-32">
+          <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+        </div>
+      ) : subscriptions.length === 0 ? (
+        <Card>
+          <CardContent className="flex flex-col items-center justify-center py-12 text-center">
+            <ArrowPathRoundedSquareIcon className="h-12 w-12 text-muted-foreground mb-4" />
+            <p className="text-muted-foreground">
+              No subscriptions yet. Detect scans your software, insurance and subscription expenses for suppliers that
+              bill monthly, quarterly or yearly.
+            </p>
+          </CardContent>
+        </Card>
+      ) : (
+        <>
+          <Card>
+            <CardContent className="flex flex-wrap items-end justify-between gap-4 pt-6">
+              <div>
+                <p className="text-sm text-muted-foreground">Annual cost of {active.length} active subscriptions</p>
+                <p className="text-2xl font-medium">
+                  {Array.from(annualTotals.entries())
+                    .map(([currency, cents]) => formatCurrency(cents / 100, currency))
+                    .join(" + ") || formatCurrency(0, "EUR")}
+                </p>
+              </div>
+              {warningCount > 0 && (
+                <p className="text-sm text-destructive">
+                  {warningCount} subscription{warningCount === 1 ? " needs" : "s need"} attention
+                </p>
+              )}
+            </CardContent>
+          </Card>
+          <div className="space-y-3">
+            {subscriptions.map((subscription) => (
+              <SubscriptionCard key={subscription.id} subscription={subscription} />
+            ))}
+          </div>
+        </>
+      )}
+    </ModulePage>
+  );
+}
@@ -0,0 +1,373 @@
+/**
+ * Team Page
+ *
+ * Workspace of the current user: turn the own account into a workspace,
+ * invite the crew with a role, change roles and remove members. Invited
+ * users accept their invitation link here and switch between workspaces.
+ */
+
+import { useState } from "react";
+import { useLocation } from "wouter";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { trpc } from "@/lib/trpc";
+import { toast } from "sonner";
+import { Copy, Loader2, Mail, Trash2, Users } from "@/components/ui/Icon";
+import { ModulePage } from "@/components/ModulePage";
+import { WorkspaceSwitcher } from "@/components/workspaces/WorkspaceSwitcher";
+import {
+  INVITABLE_WORKSPACE_ROLES,
+  WORKSPACE_ROLE_DESCRIPTIONS,
+  WORKSPACE_ROLE_LABELS,
+  type InvitableWorkspaceRole,
+} from "@shared/workspaces";
+
+const formatDate = (value: Date | string) =>
+  new Date(value).toLocaleDateString("de-DE", { day: "2-digit", month: "2-digit", year: "numeric" });
+
+const copyLink = async (url: string) => {
+  try {
+    await navigator.clipboard.writeText(url);
+    toast.success("Invitation link copied");
+  } catch {
+    toast.error("Couldn't copy the link");
+  }
+};
+
+function InvitationCard({ token, onDone }: { token: string; onDone: () => void }) {
+  const utils = trpc.useUtils();
+  const { data: invitation, isLoading } = trpc.workspaces.invitation.useQuery({ token });
+  const acceptMutation = trpc.workspaces.acceptInvitation.useMutation({
+    onSuccess: () => {
+      toast.success("You joined the workspace");
+      utils.invalidate();
+      onDone();
+    },
+    onError: (error) => toast.error(error.message || "Failed to accept invitation"),
+  });
+
+  return (
+    <Card className="border-primary/40">
+      <CardHeader>
+        <CardTitle>Invitation</CardTitle>
+        {!isLoading && (
+          <CardDescription>
+            {invitation
+              ? `You've been invited to ${invitation.workspaceName} as ${WORKSPACE_ROLE_LABELS[invitation.role]}.`
+              : "This invitation is invalid or has expired."}
+          </CardDescription>
+        )}
+      </CardHeader>
+      <CardContent className="flex gap-2">
+        {invitation && (
+          <Button onClick={() => acceptMutation.mutate({ token })} disabled={acceptMutation.isPending}>
+            {acceptMutation.isPending && <Loader2 className="w-4 h-4 mr-1 animate-spin" />}
+            Join workspace
+          </Button>
+        )}
+        <Button variant="outline" onClick={onDone}>
+          Dismiss
+        </Button>
+      </CardContent>
+    </Card>
+  );
+}
+
+export default function Team() {
+  const utils = trpc.useUtils();
+  const [, setLocation] = useLocation();
+  const [inviteToken, setInviteToken] = useState(
+    () => new URLSearchParams(window.location.search).get("invite")
+  );
+  const [workspaceName, setWorkspaceName] = useState("");
+  const [inviteEmail, setInviteEmail] = useState("");
+  const [inviteRole, setInviteRole] = useState<InvitableWorkspaceRole>("field_worker");
+
+  const { data: current, isLoading } = trpc.workspaces.current.useQuery();
+  const { data: workspaces = [] } = trpc.workspaces.mine.useQuery();
+  const isOwner = current?.role === "owner";
+  const { data: members = [] } = trpc.workspaces.members.useQuery(undefined, { enabled: !!current });
+  const { data: invitations = [] } = trpc.workspaces.invitations.useQuery(undefined, { enabled: isOwner });
+
+  const ownsWorkspace = workspaces.some((workspace) => workspace.role === "owner");
+
+  const invalidateMembers = () => {
+    utils.workspaces.members.invalidate();
+    utils.workspaces.invitations.invalidate();
+  };
+
+  const createMutation = trpc.workspaces.create.useMutation({
+    onSuccess: () => {
+      toast.success("Workspace created");
+      setWorkspaceName("");
+      utils.invalidate();
+    },
+    onError: (error) => toast.error(error.message || "Failed to create workspace"),
+  });
+  const inviteMutation = trpc.workspaces.invite.useMutation({
+    onSuccess: (result) => {
+      setInviteEmail("");
+      invalidateMembers();
+      copyLink(result.inviteUrl);
+    },
+    onError: (error) => toast.error(error.message || "Failed to invite"),
+  });
+  const revokeMutation = trpc.workspaces.revokeInvitation.useMutation({
+    onSuccess: () => {
+      toast.success("Invitation revoked");
+      invalidateMembers();
+    },
+    onError: (error) => toast.error(error.message || "Failed to revoke invitation"),
+  });
+  const roleMutation = trpc.workspaces.updateRole.useMutation({
+    onSuccess: () => {
+      toast.success("Role updated");
+      invalidateMembers();
+    },
+    onError: (error) => toast.error(error.message || "Failed to update role"),
+  });
+  const removeMutation = trpc.workspaces.removeMember.useMutation({
+    onSuccess: () => {
+      toast.success("Member removed");
+      invalidateMembers();
+    },
+    onError: (error) => toast.error(error.message || "Failed to remove member"),
+  });
+  const switchMutation = trpc.workspaces.switch.useMutation({
+    onSuccess: () => utils.invalidate(),
+    onError: (error) => toast.error(error.message || "Failed to switch workspace"),
+  });
+  const leaveMutation = trpc.workspaces.leave.useMutation({
+    onSuccess: () => {
+      toast.success("You left the workspace");
+      utils.invalidate();
+    },
+    onError: (error) => toast.error(error.message || "Failed to leave workspace"),
+  });
+
+  const dismissInvitation = () => {
+    setInviteToken(null);
+    setLocation("/team");
+  };
+
+  return (
+    <ModulePage
+      title="Team"
+      subtitle="Share projects, contacts and invoices with your crew"
+      searchEnabled={false}
+      filterEnabled={false}
+      settingsEnabled={false}
+    >
+      {inviteToken && <InvitationCard token={inviteToken} onDone={dismissInvitation} />}
+
+      <WorkspaceSwitcher />
+
+      {isLoading ? (
+        <div className="flex items-center justify-center py-12">
+          <Loader2 className="h-8 w-8 animate-spin text-primary" />
+        </div>
+      ) : (
+        <>
+          {!ownsWorkspace && (
+            <Card>
+              <CardHeader>
+                <CardTitle>Create a workspace</CardTitle>
+                <CardDescription>
+                  Your projects, contacts and invoices stay where they are; invited members work on them with you.
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="flex flex-col sm:flex-row gap-2">
+                <Input
+                  placeholder="Company or team name"
+                  value={workspaceName}
+                  onChange={(e) => setWorkspaceName(e.target.value)}
+                />
+                <Button
+                  onClick={() => createMutation.mutate({ name: workspaceName })}
+                  disabled={!workspaceName.trim() || createMutation.isPending}
+                >
+                  {createMutation.isPending && <Loader2 className="w-4 h-4 mr-1 animate-spin" />}
+                  Create
+                </Button>
+              </CardContent>
+            </Card>
+          )}
+
+          {current && (
+            <Card>
+              <CardHeader>
+                <div className="flex items-center gap-2">
+                  <Users className="h-5 w-5 text-primary" />
+                  <CardTitle>{current.name}</CardTitle>
+                </div>
+                <CardDescription>
+                  You're {WORKSPACE_ROLE_LABELS[current.role]}: {WORKSPACE_ROLE_DESCRIPTIONS[current.role].toLowerCase()}.
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-3">
+                {members.map((member) => (
+                  <div key={member.userId} className="flex flex-wrap items-center justify-between gap-2 text-sm">
+                    <div className="min-w-0">
+                      <div className="truncate">{member.name || member.email || `User ${member.userId}`}</div>
+                      {member.name && member.email && (
+                        <div className="text-xs text-muted-foreground truncate">{member.email}</div>
+                      )}
+                    </div>
+                    {isOwner && member.role !== "owner" ? (
+                      <div className="flex items-center gap-2">
+                        <Select
+                          value={member.role}
+                          onValueChange={(role) =>
+                            roleMutation.mutate({ userId: member.userId, role: role as InvitableWorkspaceRole })
+                          }
+                        >
+                          <SelectTrigger className="h-8 w-40">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {INVITABLE_WORKSPACE_ROLES.map((role) => (
+                              <SelectItem key={role} value={role}>
+                                {WORKSPACE_ROLE_LABELS[role]}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          className="h-8 w-8"
+                          disabled={removeMutation.isPending}
+                          onClick={() => {
+                            if (confirm(`Remove ${member.name || member.email} from the workspace?`)) {
+                              removeMutation.mutate({ userId: member.userId });
+                            }
+                          }}
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </Button>
+                      </div>
+                    ) : (
+                      <Badge variant="outline">{WORKSPACE_ROLE_LABELS[member.role]}</Badge>
+                    )}
+                  </div>
+                ))}
+
+                {!isOwner && (
+                  <Button
+                    variant="outline"
+                    disabled={leaveMutation.isPending}
+                    onClick={() => {
+                      if (confirm(`Leave ${current.name}?`)) leaveMutation.mutate({ workspaceId: current.id });
+                    }}
+                  >
+                    Leave workspace
+                  </Button>
+                )}
+              </CardContent>
+            </Card>
+          )}
+
+          {isOwner && (
+            <Card>
+              <CardHeader>
+                <div className="flex items-center gap-2">
+                  <Mail className="h-5 w-5 text-primary" />
+                  <CardTitle>Invite members</CardTitle>
+                </div>
+                <CardDescription>
+                  The invitation link is copied for you to send; it can be used once within two weeks.
+                  Foremen and field workers only see the projects you add them to.
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <div className="grid gap-2 sm:grid-cols-[1fr_12rem_auto] sm:items-end">
+                  <div className="space-y-1">
+                    <Label htmlFor="invite-email">Email</Label>
+                    <Input
+                      id="invite-email"
+                      type="email"
+                      value={inviteEmail}
+                      onChange={(e) => setInviteEmail(e.target.value)}
+                    />
+                  </div>
+                  <div className="space-y-1">
+                    <Label>Role</Label>
+                    <Select value={inviteRole} onValueChange={(role) => setInviteRole(role as InvitableWorkspaceRole)}>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {INVITABLE_WORKSPACE_ROLES.map((role) => (
+                          <SelectItem key={role} value={role}>
+                            {WORKSPACE_ROLE_LABELS[role]}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <Button
+                    onClick={() => inviteMutation.mutate({ email: inviteEmail, role: inviteRole })}
+                    disabled={!inviteEmail.trim() || inviteMutation.isPending}
+                  >
+                    {inviteMutation.isPending && <Loader2 className="w-4 h-4 mr-1 animate-spin" />}
+                    Invite
+                  </Button>
+                </div>
+                <p className="text-xs text-muted-foreground">{WORKSPACE_ROLE_DESCRIPTIONS[inviteRole]}</p>
+
+                {invitations.length > 0 && (
+                  <div className="space-y-2 border-t border-border pt-3">
+                    {invitations.map((invitation) => (
+                      <div key={invitation.id} className="flex flex-wrap items-center justify-between gap-2 text-sm">
+                        <div className="min-w-0">
+                          <div className="truncate">{invitation.email}</div>
+                          <div className="text-xs text-muted-foreground">
+                            {WORKSPACE_ROLE_LABELS[invitation.role]} · valid until {formatDate(invitation.expiresAt)}
+                          </div>
+                        </div>
+                        <div className="flex items-center gap-1">
+                          <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => copyLink(invitation.inviteUrl)}>
+                            <Copy className="w-4 h-4" />
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            className="h-8 w-8"
+                            disabled={revokeMutation.isPending}
+                            onClick={() => revokeMutation.mutate({ id: invitation.id })}
+                          >
+                            <Trash2 className="w-4 h-4" />
+                          </Button>
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          )}
+
+          {!current && ownsWorkspace && (
+            <Button
+              variant="outline"
+              disabled={switchMutation.isPending}
+              onClick={() => switchMutation.mutate({ workspaceId: null })}
+            >
+              Open my workspace
+            </Button>
+          )}
+        </>
+      )}
+    </ModulePage>
+  );
+}
@@ -0,0 +1,23 @@
+/**
+ * Timeline Page
+ *
+ * Gantt chart of the jobs of every visible project, to plan across projects
+ * and spot users booked on two jobs at once.
+ */
+
+import { ModulePage } from "@/components/ModulePage";
+import { ProjectTimeline } from "@/components/timeline/ProjectTimeline";
+
+export default function Timeline() {
+  return (
+    <ModulePage
+      title="Timeline"
+      subtitle="Plan jobs across all projects"
+      searchEnabled={false}
+      filterEnabled={false}
+      settingsEnabled={false}
+    >
+      <ProjectTimeline />
+    </ModulePage>
+  );
+}
@@ -0,0 +1,341 @@
+/**
+ * Timesheets Page
+ *
+ * Weekly timesheet of the current user built from project check-ins and
+ * manual entries, with corrections, breaks and submission for approval.
+ * The workspace owner and office staff approve submitted weeks here; the
+ * project view shows everyone's hours on one project in the week.
+ */
+
+import { useState } from "react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { trpc } from "@/lib/trpc";
+import { toast } from "sonner";
+import { useAuth } from "@/_core/hooks/useAuth";
+import { AlertTriangle, ChevronLeft, ChevronRight, Clock, Edit, Loader2, Plus, Send, Trash2 } from "@/components/ui/Icon";
+import { ModulePage } from "@/components/ModulePage";
+import { TimeEntryDialog, type EditableTimeEntry } from "@/components/timesheets/TimeEntryDialog";
+import { TimesheetApprovals } from "@/components/timesheets/TimesheetApprovals";
+import {
+  TIMESHEET_STATUS_LABELS,
+  formatMinutes,
+  getEntryMinutes,
+  getWeekRange,
+  isTimesheetLocked,
+  shiftWeek,
+  toWeekStart,
+} from "@shared/timesheets";
+import { canApproveTimesheets } from "@shared/workspaces";
+
+const MY_WEEK = "mine";
+
+const formatDate = (value: Date | string) =>
+  new Date(value).toLocaleDateString("de-DE", { day: "2-digit", month: "2-digit", year: "numeric" });
+const formatDay = (value: Date | string) =>
+  new Date(value).toLocaleDateString("de-DE", { weekday: "long", day: "2-digit", month: "2-digit" });
+const formatTime = (value: Date | string) =>
+  new Date(value).toLocaleTimeString("de-DE", { hour: "2-digit", minute: "2-digit" });
+
+interface TimesheetEntry extends EditableTimeEntry {
+  projectName: string;
+  jobTitle: string | null;
+  userName: string | null;
+  invoiceId: number | null;
+  outsideGeofence: boolean | null;
+  locationMissing: boolean | null;
+}
+
+export default function Timesheets() {
+  const { user } = useAuth();
+  const utils = trpc.useUtils();
+  const [weekStart, setWeekStart] = useState(() => toWeekStart(new Date()));
+  const [view, setView] = useState(MY_WEEK);
+  const [viewUserId, setViewUserId] = useState<number | null>(null);
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editing, setEditing] = useState<EditableTimeEntry | null>(null);
+
+  const isAdmin = user?.role === "admin";
+  const { data: currentWorkspace } = trpc.workspaces.current.useQuery();
+  const canApprove = canApproveTimesheets(currentWorkspace?.role ?? null);
+  const isProjectView = view !== MY_WEEK;
+  const isOwnWeek = viewUserId === null || viewUserId === user?.id;
+
+  const { data: projects = [] } = trpc.projects.list.useQuery();
+  const weekQuery = trpc.timesheets.week.useQuery(
+    { weekStart, userId: viewUserId ?? undefined },
+    { enabled: !isProjectView }
+  );
+  const projectWeekQuery = trpc.timesheets.projectWeek.useQuery(
+    { projectId: Number(view), weekStart },
+    { enabled: isProjectView }
+  );
+
+  const invalidate = () => {
+    utils.timesheets.week.invalidate();
+    utils.timesheets.projectWeek.invalidate();
+  };
+
+  const submitMutation = trpc.timesheets.submitWeek.useMutation({
+    onSuccess: () => {
+      toast.success("Timesheet submitted for approval");
+      invalidate();
+      utils.timesheets.pendingApprovals.invalidate();
+    },
+    onError: (error) => toast.error(error.message || "Failed to submit timesheet"),
+  });
+  const deleteMutation = trpc.timesheets.deleteEntry.useMutation({
+    onSuccess: () => {
+      toast.success("Time entry deleted");
+      invalidate();
+    },
+    onError: (error) => toast.error(error.message || "Failed to delete time entry"),
+  });
+
+  const data = isProjectView ? projectWeekQuery.data : weekQuery.data;
+  const isLoading = isProjectView ? projectWeekQuery.isLoading : weekQuery.isLoading;
+  const entries: TimesheetEntry[] = data?.entries ?? [];
+  const status = weekQuery.data?.status ?? "open";
+  const isLocked = !isProjectView && isTimesheetLocked(status);
+  const canEdit = !isProjectView && !isLocked && (isOwnWeek || isAdmin);
+
+  const { from, to } = getWeekRange(weekStart);
+  const days = new Map<string, TimesheetEntry[]>();
+  for (const entry of entries) {
+    const day = formatDay(entry.startTime);
+    days.set(day, [...(days.get(day) ?? []), entry]);
+  }
+
+  const openDialog = (entry: EditableTimeEntry | null) => {
+    setEditing(entry);
+    setDialogOpen(true);
+  };
+
+  return (
+    <ModulePage
+      title="Timesheets"
+      subtitle="Worked hours per week, from check-ins and manual entries"
+      searchEnabled={false}
+      filterEnabled={false}
+      settingsEnabled={false}
+      primaryActions={
+        canEdit && isOwnWeek ? (
+          <Button className="h-10 whitespace-nowrap" onClick={() => openDialog(null)}>
+            <Plus className="w-4 h-4 mr-1" />
+            Add time
+          </Button>
+        ) : undefined
+      }
+    >
+      {canApprove && (
+        <TimesheetApprovals
+          onOpenWeek={(userId, week) => {
+            setView(MY_WEEK);
+            setViewUserId(userId);
+            setWeekStart(week);
+          }}
+        />
+      )}
+
+      <Card>
+        <CardContent className="flex flex-wrap items-center justify-between gap-4 pt-6">
+          <div className="flex items-center gap-2">
+            <Button
+              type="button"
+              variant="outline"
+              size="icon"
+              aria-label="Previous week"
+              onClick={() => setWeekStart(shiftWeek(weekStart, -1))}
+            >
+              <ChevronLeft className="h-4 w-4" />
+            </Button>
+            <div className="min-w-48 text-center">
+              <p className="font-medium">
+                {formatDate(from)} – {formatDate(new Date(to.getTime() - 1))}
+              </p>
+              <button
+                type="button"
+                className="text-xs text-muted-foreground hover:underline"
+                onClick={() => setWeekStart(toWeekStart(new Date()))}
+              >
+                This week
+              </button>
+            </div>
+            <Button
+              type="button"
+              variant="outline"
+              size="icon"
+              aria-label="Next week"
+              onClick={() => setWeekStart(shiftWeek(weekStart, 1))}
+            >
+              <ChevronRight className="h-4 w-4" />
+            </Button>
+          </div>
+
+          <Select
+            value={view}
+            onValueChange={(value) => {
+              setView(value);
+              setViewUserId(null);
+            }}
+          >
+            <SelectTrigger className="w-64">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={MY_WEEK}>My timesheet</SelectItem>
+              {projects.map((project) => (
+                <SelectItem key={project.id} value={String(project.id)}>
+                  Project: {project.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+
+          <div className="text-right">
+            <p className="text-2xl font-medium">{formatMinutes(data?.totalMinutes ?? 0)} h</p>
+            <p className="text-sm text-muted-foreground">{formatMinutes(data?.billableMinutes ?? 0)} h billable</p>
+          </div>
+        </CardContent>
+      </Card>
+
+      {!isProjectView && (
+        <div className="flex flex-wrap items-center justify-between gap-2">
+          <div className="flex items-center gap-2 text-sm">
+            {!isOwnWeek && <span className="font-medium">{entries[0]?.userName || "Unknown user"}:</span>}
+            <Badge variant={status === "approved" ? "default" : "outline"}>{TIMESHEET_STATUS_LABELS[status]}</Badge>
+            {weekQuery.data?.timesheet?.submittedAt && status === "submitted" && (
+              <span className="text-muted-foreground">since {formatDate(weekQuery.data.timesheet.submittedAt)}</span>
+            )}
+          </div>
+          {isOwnWeek && canEdit && entries.length > 0 && (
+            <Button
+              type="button"
+              disabled={submitMutation.isPending}
+              onClick={() => submitMutation.mutate({ weekStart })}
+            >
+              {submitMutation.isPending ? (
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              ) : (
+                <Send className="mr-2 h-4 w-4" />
+              )}
+              Submit week
+            </Button>
+          )}
+          {!isOwnWeek && (
+            <Button type="button" variant="outline" onClick={() => setViewUserId(null)}>
+              Back to my timesheet
+            </Button>
+          )}
+        </div>
+      )}
+
+      {!isProjectView && status === "rejected" && weekQuery.data?.timesheet?.rejectionReason && (
+        <div className="flex items-start gap-2 rounded-md border border-yellow-500/30 bg-yellow-500/10 p-3 text-sm">
+          <AlertTriangle className="mt-0.5 h-4 w-4 shrink-0 text-yellow-700 dark:text-yellow-400" />
+          <span>Sent back: {weekQuery.data.timesheet.rejectionReason}</span>
+        </div>
+      )}
+
+      {isLoading ? (
+        <div className="flex items-center justify-center h-32">
+          <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+        </div>
+      ) : entries.length === 0 ? (
+        <Card>
+          <CardContent className="flex flex-col items-center justify-center py-12 text-center">
+            <Clock className="h-12 w-12 text-muted-foreground mb-4" />
+            <p className="text-muted-foreground">
+              No hours in this week. Check in and out on a project, or add the time by hand.
+            </p>
+          </CardContent>
+        </Card>
+      ) : (
+        <div className="space-y-4">
+          {Array.from(days.entries()).map(([day, dayEntries]) => (
+            <div key={day} className="space-y-2">
+              <div className="flex justify-between text-sm font-medium">
+                <span>{day}</span>
+                <span>{formatMinutes(dayEntries.reduce((sum, entry) => sum + getEntryMinutes(entry), 0))} h</span>
+              </div>
+              {dayEntries.map((entry) => (
+                <Card key={entry.id}>
+                  <CardContent className="flex items-center justify-between gap-4 py-3 text-sm">
+                    <div className="min-w-0">
+                      <p className="truncate font-medium">
+                        {entry.projectName}
+                        {entry.jobTitle && ` · ${entry.jobTitle}`}
+                      </p>
+                      <p className="text-muted-foreground">
+                        {formatTime(entry.startTime)} – {formatTime(entry.endTime)}
+                        {entry.breakMinutes > 0 && ` · ${entry.breakMinutes} min break`}
+                        {isProjectView && ` · ${entry.userName || "Unknown user"}`}
+                      </p>
+                      {entry.description && <p className="truncate text-muted-foreground">{entry.description}</p>}
+                    </div>
+                    <div className="flex shrink-0 items-center gap-2">
+                      {entry.outsideGeofence && (
+                        <Badge variant="outline" className="border-yellow-500/50 text-yellow-700 dark:text-yellow-400">
+                          Away from site
+                        </Badge>
+                      )}
+                      {entry.locationMissing && (
+                        <Badge variant="outline" className="border-yellow-500/50 text-yellow-700 dark:text-yellow-400">
+                          No location
+                        </Badge>
+                      )}
+                      {!entry.billable && <Badge variant="secondary">Non-billable</Badge>}
+                      {entry.invoiceId && <Badge variant="outline">Billed</Badge>}
+                      <span className="font-medium">{formatMinutes(getEntryMinutes(entry))} h</span>
+                      {canEdit && !entry.invoiceId && (
+                        <>
+                          <Button
+                            type="button"
+                            variant="ghost"
+                            size="icon"
+                            className="h-8 w-8"
+                            aria-label="Correct time entry"
+                            onClick={() => openDialog(entry)}
+                          >
+                            <Edit className="h-4 w-4" />
+                          </Button>
+                          <Button
+                            type="button"
+                            variant="ghost"
+                            size="icon"
+                            className="h-8 w-8"
+                            aria-label="Delete time entry"
+                            disabled={deleteMutation.isPending}
+                            onClick={() => deleteMutation.mutate({ id: entry.id })}
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        </>
+                      )}
+                    </div>
+                  </CardContent>
+                </Card>
+              ))}
+            </div>
+          ))}
+        </div>
+      )}
+
+      <TimeEntryDialog
+        open={dialogOpen}
+        onOpenChange={setDialogOpen}
+        entry={editing}
+        defaultDay={weekStart}
+        onSaved={invalidate}
+      />
+    </ModulePage>
+  );
+}
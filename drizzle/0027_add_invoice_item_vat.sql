@@ -0,0 +1,37 @@
+-- Add per-line VAT to invoice_items
+-- vatRate: VAT rate in percent (19, 7, 0); NULL for legacy lines which use the company default rate
+-- vatCategory: standard | zero | reverse_charge (§ 13b UStG) | intra_eu (exempt intra-community supply)
+
+-- Check and add vatRate
+SET @has_vatRate := (
+  SELECT COUNT(*)
+  FROM INFORMATION_SCHEMA.COLUMNS
+  WHERE TABLE_SCHEMA = DATABASE()
+    AND TABLE_NAME = 'invoice_items'
+    AND COLUMN_NAME = 'vatRate'
+);
+SET @add_vatRate_sql := IF(
+  @has_vatRate = 0,
+  'ALTER TABLE `invoice_items` ADD COLUMN `vatRate` DECIMAL(5,2) NULL AFTER `lineTotal`',
+  'SELECT 1'
+);
+PREPARE add_vatRate_stmt FROM @add_vatRate_sql;
+EXECUTE add_vatRate_stmt;
+DEALLOCATE PREPARE add_vatRate_stmt;
+
+-- Check and add vatCategory
+SET @has_vatCategory := (
+  SELECT COUNT(*)
+  FROM INFORMATION_SCHEMA.COLUMNS
+  WHERE TABLE_SCHEMA = DATABASE()
+    AND TABLE_NAME = 'invoice_items'
+    AND COLUMN_NAME = 'vatCategory'
+);
+SET @add_vatCategory_sql := IF(
+  @has_vatCategory = 0,
+  'ALTER TABLE `invoice_items` ADD COLUMN `vatCategory` ENUM(''standard'',''zero'',''reverse_charge'',''intra_eu'') NOT NULL DEFAULT ''standard'' AFTER `vatRate`',
+  'SELECT 1'
+);
+PREPARE add_vatCategory_stmt FROM @add_vatCategory_sql;
+EXECUTE add_vatCategory_stmt;
+DEALLOCATE PREPARE add_vatCategory_stmt;
@@ -0,0 +1,72 @@
+-- Quotes (Angebote) with their own number range and line items,
+-- plus a project link on invoices so converted quotes keep their project
+
+CREATE TABLE IF NOT EXISTS `quotes` (
+  `id` INT AUTO_INCREMENT PRIMARY KEY,
+  `userId` INT NOT NULL,
+  `clientId` INT NULL,
+  `projectId` INT NULL,
+  `quoteNumber` VARCHAR(50) NOT NULL,
+  `quoteYear` INT NOT NULL,
+  `quoteCounter` INT NOT NULL,
+  `status` ENUM('draft','sent','accepted','declined') NOT NULL DEFAULT 'draft',
+  `issueDate` DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  `validUntil` DATETIME NULL,
+  `notes` TEXT NULL,
+  `terms` TEXT NULL,
+  `referenceNumber` VARCHAR(100) NULL,
+  `subtotal` DECIMAL(12,2) NOT NULL DEFAULT 0.00,
+  `vatAmount` DECIMAL(12,2) NOT NULL DEFAULT 0.00,
+  `total` DECIMAL(12,2) NOT NULL DEFAULT 0.00,
+  `sentAt` DATETIME NULL,
+  `acceptedAt` DATETIME NULL,
+  `declinedAt` DATETIME NULL,
+  `convertedInvoiceId` INT NULL,
+  `convertedAt` DATETIME NULL,
+  `createdAt` DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  `updatedAt` DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+  UNIQUE KEY `quote_number_per_user` (`userId`, `quoteNumber`),
+  CONSTRAINT `quotes_userId_fkey` FOREIGN KEY (`userId`) REFERENCES `users`(`id`),
+  CONSTRAINT `quotes_clientId_fkey` FOREIGN KEY (`clientId`) REFERENCES `contacts`(`id`) ON DELETE SET NULL,
+  CONSTRAINT `quotes_projectId_fkey` FOREIGN KEY (`projectId`) REFERENCES `projects`(`id`) ON DELETE SET NULL,
+  CONSTRAINT `quotes_convertedInvoiceId_fkey` FOREIGN KEY (`convertedInvoiceId`) REFERENCES `invoices`(`id`) ON DELETE SET NULL
+);
+
+CREATE INDEX IF NOT EXISTS `quotes_userId_status_idx` ON `quotes` (`userId`, `status`);
+CREATE INDEX IF NOT EXISTS `quotes_clientId_idx` ON `quotes` (`clientId`);
+CREATE INDEX IF NOT EXISTS `quotes_projectId_idx` ON `quotes` (`projectId`);
+
+CREATE TABLE IF NOT EXISTS `quote_items` (
+  `id` INT AUTO_INCREMENT PRIMARY KEY,
+  `quoteId` INT NOT NULL,
+  `name` VARCHAR(255) NOT NULL,
+  `description` TEXT NULL,
+  `category` VARCHAR(120) NULL,
+  `quantity` DECIMAL(10,2) NOT NULL DEFAULT 0.00,
+  `unitPrice` DECIMAL(12,2) NOT NULL DEFAULT 0.00,
+  `currency` VARCHAR(3) NOT NULL DEFAULT 'EUR',
+  `lineTotal` DECIMAL(12,2) NOT NULL DEFAULT 0.00,
+  `vatRate` DECIMAL(5,2) NULL,
+  `vatCategory` ENUM('standard','zero','reverse_charge','intra_eu') NOT NULL DEFAULT 'standard',
+  `createdAt` DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  CONSTRAINT `quote_items_quoteId_fkey` FOREIGN KEY (`quoteId`) REFERENCES `quotes`(`id`) ON DELETE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS `quote_items_quoteId_idx` ON `quote_items` (`quoteId`);
+
+-- Check and add invoices.projectId
+SET @has_projectId := (
+  SELECT COUNT(*)
+  FROM INFORMATION_SCHEMA.COLUMNS
+  WHERE TABLE_SCHEMA = DATABASE()
+    AND TABLE_NAME = 'invoices'
+    AND COLUMN_NAME = 'projectId'
+);
+SET @add_projectId_sql := IF(
+  @has_projectId = 0,
+  'ALTER TABLE `invoices` ADD COLUMN `projectId` INT NULL AFTER `jobId`, ADD INDEX `invoices_projectId_idx` (`projectId`), ADD CONSTRAINT `invoices_projectId_fkey` FOREIGN KEY (`projectId`) REFERENCES `projects`(`id`) ON DELETE SET NULL',
+  'SELECT 1'
+);
+PREPARE add_projectId_stmt FROM @add_projectId_sql;
+EXECUTE add_projectId_stmt;
+DEALLOCATE PREPARE add_projectId_stmt;
@@ -0,0 +1,41 @@
+-- Dunning (Mahnwesen): per-user level settings and the notice history per invoice
+
+CREATE TABLE IF NOT EXISTS `dunning_levels` (
+  `id` INT AUTO_INCREMENT PRIMARY KEY,
+  `userId` INT NOT NULL,
+  `level` INT NOT NULL,
+  `name` VARCHAR(100) NOT NULL,
+  `waitDays` INT NOT NULL,
+  `fee` DECIMAL(10,2) NOT NULL DEFAULT 0.00,
+  `interestRate` DECIMAL(5,2) NULL,
+  `paymentTermDays` INT NOT NULL,
+  `text` TEXT NOT NULL,
+  `createdAt` DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  `updatedAt` DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+  UNIQUE KEY `dunning_level_per_user` (`userId`, `level`),
+  CONSTRAINT `dunning_levels_userId_fkey` FOREIGN KEY (`userId`) REFERENCES `users`(`id`) ON DELETE CASCADE
+);
+
+CREATE TABLE IF NOT EXISTS `invoice_dunnings` (
+  `id` INT AUTO_INCREMENT PRIMARY KEY,
+  `userId` INT NOT NULL,
+  `invoiceId` INT NOT NULL,
+  `level` INT NOT NULL,
+  `name` VARCHAR(100) NOT NULL,
+  `issuedAt` DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  `paymentDeadline` DATETIME NOT NULL,
+  `outstandingAmount` DECIMAL(12,2) NOT NULL,
+  `previousFees` DECIMAL(10,2) NOT NULL DEFAULT 0.00,
+  `feeAmount` DECIMAL(10,2) NOT NULL DEFAULT 0.00,
+  `interestRate` DECIMAL(5,2) NULL,
+  `interestDays` INT NOT NULL DEFAULT 0,
+  `interestAmount` DECIMAL(10,2) NOT NULL DEFAULT 0.00,
+  `totalDue` DECIMAL(12,2) NOT NULL,
+  `text` TEXT NULL,
+  `createdAt` DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  UNIQUE KEY `invoice_dunning_level` (`invoiceId`, `level`),
+  CONSTRAINT `invoice_dunnings_userId_fkey` FOREIGN KEY (`userId`) REFERENCES `users`(`id`),
+  CONSTRAINT `invoice_dunnings_invoiceId_fkey` FOREIGN KEY (`invoiceId`) REFERENCES `invoices`(`id`) ON DELETE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS `invoice_dunnings_userId_idx` ON `invoice_dunnings` (`userId`);
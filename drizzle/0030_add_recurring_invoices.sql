@@ -0,0 +1,67 @@
+-- Recurring invoices: templates with line items and the history of generated invoices
+
+CREATE TABLE IF NOT EXISTS `recurring_invoices` (
+  `id` INT AUTO_INCREMENT PRIMARY KEY,
+  `userId` INT NOT NULL,
+  `clientId` INT NULL,
+  `projectId` INT NULL,
+  `name` VARCHAR(255) NOT NULL,
+  `interval` ENUM('monthly', 'quarterly', 'half_yearly', 'yearly') NOT NULL DEFAULT 'monthly',
+  `startDate` DATETIME NOT NULL,
+  `endDate` DATETIME NULL,
+  `nextRunDate` DATETIME NULL,
+  `lastRunAt` DATETIME NULL,
+  `autoIssue` BOOLEAN NOT NULL DEFAULT FALSE,
+  `paymentTermDays` INT NOT NULL DEFAULT 14,
+  `notes` TEXT NULL,
+  `terms` TEXT NULL,
+  `referenceNumber` VARCHAR(100) NULL,
+  `subtotal` DECIMAL(12,2) NOT NULL DEFAULT 0.00,
+  `vatAmount` DECIMAL(12,2) NOT NULL DEFAULT 0.00,
+  `total` DECIMAL(12,2) NOT NULL DEFAULT 0.00,
+  `isActive` BOOLEAN NOT NULL DEFAULT TRUE,
+  `createdAt` DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  `updatedAt` DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+  CONSTRAINT `recurring_invoices_userId_fkey` FOREIGN KEY (`userId`) REFERENCES `users`(`id`),
+  CONSTRAINT `recurring_invoices_clientId_fkey` FOREIGN KEY (`clientId`) REFERENCES `contacts`(`id`) ON DELETE SET NULL,
+  CONSTRAINT `recurring_invoices_projectId_fkey` FOREIGN KEY (`projectId`) REFERENCES `projects`(`id`) ON DELETE SET NULL
+);
+
+CREATE INDEX IF NOT EXISTS `recurring_invoices_userId_idx` ON `recurring_invoices` (`userId`);
+CREATE INDEX IF NOT EXISTS `recurring_invoices_nextRunDate_idx` ON `recurring_invoices` (`isActive`, `nextRunDate`);
+
+CREATE TABLE IF NOT EXISTS `recurring_invoice_items` (
+  `id` INT AUTO_INCREMENT PRIMARY KEY,
+  `recurringInvoiceId` INT NOT NULL,
+  `name` VARCHAR(255) NOT NULL,
+  `description` TEXT NULL,
+  `category` VARCHAR(120) NULL,
+  `quantity` DECIMAL(10,2) NOT NULL DEFAULT 0.00,
+  `unitPrice` DECIMAL(12,2) NOT NULL DEFAULT 0.00,
+  `currency` VARCHAR(3) NOT NULL DEFAULT 'EUR',
+  `lineTotal` DECIMAL(12,2) NOT NULL DEFAULT 0.00,
+  `vatRate` DECIMAL(5,2) NULL,
+  `vatCategory` ENUM('standard', 'zero', 'reverse_charge', 'intra_eu') NOT NULL DEFAULT 'standard',
+  `createdAt` DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  CONSTRAINT `recurring_invoice_items_recurringInvoiceId_fkey` FOREIGN KEY (`recurringInvoiceId`) REFERENCES `recurring_invoices`(`id`) ON DELETE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS `recurring_invoice_items_recurringInvoiceId_idx` ON `recurring_invoice_items` (`recurringInvoiceId`);
+
+CREATE TABLE IF NOT EXISTS `recurring_invoice_runs` (
+  `id` INT AUTO_INCREMENT PRIMARY KEY,
+  `recurringInvoiceId` INT NOT NULL,
+  `userId` INT NOT NULL,
+  `invoiceId` INT NULL,
+  `runDate` DATETIME NOT NULL,
+  `status` ENUM('pending', 'created', 'issued', 'failed') NOT NULL DEFAULT 'pending',
+  `error` TEXT NULL,
+  `createdAt` DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  `updatedAt` DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+  UNIQUE KEY `recurring_invoice_run_date` (`recurringInvoiceId`, `runDate`),
+  CONSTRAINT `recurring_invoice_runs_recurringInvoiceId_fkey` FOREIGN KEY (`recurringInvoiceId`) REFERENCES `recurring_invoices`(`id`) ON DELETE CASCADE,
+  CONSTRAINT `recurring_invoice_runs_userId_fkey` FOREIGN KEY (`userId`) REFERENCES `users`(`id`),
+  CONSTRAINT `recurring_invoice_runs_invoiceId_fkey` FOREIGN KEY (`invoiceId`) REFERENCES `invoices`(`id`) ON DELETE SET NULL
+);
+
+CREATE INDEX IF NOT EXISTS `recurring_invoice_runs_userId_idx` ON `recurring_invoice_runs` (`userId`);
@@ -0,0 +1,25 @@
+-- Invoice payment ledger: one row per payment instead of a single amountPaid counter
+
+CREATE TABLE IF NOT EXISTS `invoice_payments` (
+  `id` INT AUTO_INCREMENT PRIMARY KEY,
+  `invoiceId` INT NOT NULL,
+  `userId` INT NOT NULL,
+  `amount` DECIMAL(12,2) NOT NULL,
+  `paidAt` DATETIME NOT NULL,
+  `method` ENUM('bank_transfer', 'cash', 'card', 'paypal', 'direct_debit', 'other') NOT NULL DEFAULT 'bank_transfer',
+  `reference` VARCHAR(255) NULL,
+  `note` TEXT NULL,
+  `createdAt` DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  CONSTRAINT `invoice_payments_invoiceId_fkey` FOREIGN KEY (`invoiceId`) REFERENCES `invoices`(`id`) ON DELETE CASCADE,
+  CONSTRAINT `invoice_payments_userId_fkey` FOREIGN KEY (`userId`) REFERENCES `users`(`id`)
+);
+
+CREATE INDEX IF NOT EXISTS `invoice_payments_invoiceId_idx` ON `invoice_payments` (`invoiceId`);
+CREATE INDEX IF NOT EXISTS `invoice_payments_userId_paidAt_idx` ON `invoice_payments` (`userId`, `paidAt`);
+
+-- Backfill: carry the existing payment totals over as one ledger entry per invoice
+INSERT INTO `invoice_payments` (`invoiceId`, `userId`, `amount`, `paidAt`, `method`, `note`)
+SELECT `id`, `userId`, `amountPaid`, COALESCE(`paidAt`, `lastPaymentAt`, `updatedAt`), 'other', 'Carried over from the previous payment total'
+FROM `invoices`
+WHERE `amountPaid` > 0
+  AND NOT EXISTS (SELECT 1 FROM `invoice_payments` p WHERE p.`invoiceId` = `invoices`.`id`);
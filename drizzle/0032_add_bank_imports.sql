@@ -0,0 +1,46 @@
+-- Bank statement import (CAMT.053, MT940, CSV) and reconciliation with invoices and expenses
+
+CREATE TABLE IF NOT EXISTS `bank_imports` (
+  `id` INT AUTO_INCREMENT PRIMARY KEY,
+  `userId` INT NOT NULL,
+  `fileName` VARCHAR(255) NOT NULL,
+  `format` ENUM('camt053', 'mt940', 'csv') NOT NULL,
+  `accountIban` VARCHAR(34) NULL,
+  `transactionCount` INT NOT NULL DEFAULT 0,
+  `importedCount` INT NOT NULL DEFAULT 0,
+  `createdAt` DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  CONSTRAINT `bank_imports_userId_fkey` FOREIGN KEY (`userId`) REFERENCES `users`(`id`)
+);
+
+CREATE INDEX IF NOT EXISTS `bank_imports_userId_idx` ON `bank_imports` (`userId`);
+
+CREATE TABLE IF NOT EXISTS `bank_transactions` (
+  `id` INT AUTO_INCREMENT PRIMARY KEY,
+  `importId` INT NOT NULL,
+  `userId` INT NOT NULL,
+  `bookingDate` DATETIME NOT NULL,
+  `valueDate` DATETIME NULL,
+  `amount` DECIMAL(12,2) NOT NULL,
+  `currency` VARCHAR(3) NOT NULL DEFAULT 'EUR',
+  `counterpartyName` VARCHAR(255) NULL,
+  `counterpartyIban` VARCHAR(34) NULL,
+  `purpose` TEXT NULL,
+  `reference` VARCHAR(255) NULL,
+  `fingerprint` VARCHAR(64) NOT NULL,
+  `status` ENUM('unmatched', 'matched', 'ignored') NOT NULL DEFAULT 'unmatched',
+  `matchedInvoiceId` INT NULL,
+  `invoicePaymentId` INT NULL,
+  `matchedExpenseId` INT NULL,
+  `matchedAt` DATETIME NULL,
+  `createdAt` DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  `updatedAt` DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+  UNIQUE KEY `bank_transactions_user_fingerprint` (`userId`, `fingerprint`),
+  CONSTRAINT `bank_transactions_importId_fkey` FOREIGN KEY (`importId`) REFERENCES `bank_imports`(`id`) ON DELETE CASCADE,
+  CONSTRAINT `bank_transactions_userId_fkey` FOREIGN KEY (`userId`) REFERENCES `users`(`id`),
+  CONSTRAINT `bank_transactions_matchedInvoiceId_fkey` FOREIGN KEY (`matchedInvoiceId`) REFERENCES `invoices`(`id`) ON DELETE SET NULL,
+  CONSTRAINT `bank_transactions_invoicePaymentId_fkey` FOREIGN KEY (`invoicePaymentId`) REFERENCES `invoice_payments`(`id`) ON DELETE SET NULL,
+  CONSTRAINT `bank_transactions_matchedExpenseId_fkey` FOREIGN KEY (`matchedExpenseId`) REFERENCES `expenses`(`id`) ON DELETE SET NULL
+);
+
+CREATE INDEX IF NOT EXISTS `bank_transactions_importId_idx` ON `bank_transactions` (`importId`);
+CREATE INDEX IF NOT EXISTS `bank_transactions_userId_status_idx` ON `bank_transactions` (`userId`, `status`);
@@ -0,0 +1,72 @@
+-- DATEV export settings on company_settings
+-- datevChartOfAccounts: SKR03 or SKR04
+-- datevConsultantNumber / datevClientNumber: Berater- and Mandantennummer for the EXTF header
+-- datevAccounts: account overrides per expense category / revenue type
+
+-- Check and add datevChartOfAccounts
+SET @has_datevChartOfAccounts := (
+  SELECT COUNT(*)
+  FROM INFORMATION_SCHEMA.COLUMNS
+  WHERE TABLE_SCHEMA = DATABASE()
+    AND TABLE_NAME = 'company_settings'
+    AND COLUMN_NAME = 'datevChartOfAccounts'
+);
+SET @add_datevChartOfAccounts_sql := IF(
+  @has_datevChartOfAccounts = 0,
+  'ALTER TABLE `company_settings` ADD COLUMN `datevChartOfAccounts` VARCHAR(5) NOT NULL DEFAULT ''SKR03'' AFTER `invoiceAccountHolderName`',
+  'SELECT 1'
+);
+PREPARE add_datevChartOfAccounts_stmt FROM @add_datevChartOfAccounts_sql;
+EXECUTE add_datevChartOfAccounts_stmt;
+DEALLOCATE PREPARE add_datevChartOfAccounts_stmt;
+
+-- Check and add datevConsultantNumber
+SET @has_datevConsultantNumber := (
+  SELECT COUNT(*)
+  FROM INFORMATION_SCHEMA.COLUMNS
+  WHERE TABLE_SCHEMA = DATABASE()
+    AND TABLE_NAME = 'company_settings'
+    AND COLUMN_NAME = 'datevConsultantNumber'
+);
+SET @add_datevConsultantNumber_sql := IF(
+  @has_datevConsultantNumber = 0,
+  'ALTER TABLE `company_settings` ADD COLUMN `datevConsultantNumber` VARCHAR(7) NULL AFTER `datevChartOfAccounts`',
+  'SELECT 1'
+);
+PREPARE add_datevConsultantNumber_stmt FROM @add_datevConsultantNumber_sql;
+EXECUTE add_datevConsultantNumber_stmt;
+DEALLOCATE PREPARE add_datevConsultantNumber_stmt;
+
+-- Check and add datevClientNumber
+SET @has_datevClientNumber := (
+  SELECT COUNT(*)
+  FROM INFORMATION_SCHEMA.COLUMNS
+  WHERE TABLE_SCHEMA = DATABASE()
+    AND TABLE_NAME = 'company_settings'
+    AND COLUMN_NAME = 'datevClientNumber'
+);
+SET @add_datevClientNumber_sql := IF(
+  @has_datevClientNumber = 0,
+  'ALTER TABLE `company_settings` ADD COLUMN `datevClientNumber` VARCHAR(5) NULL AFTER `datevConsultantNumber`',
+  'SELECT 1'
+);
+PREPARE add_datevClientNumber_stmt FROM @add_datevClientNumber_sql;
+EXECUTE add_datevClientNumber_stmt;
+DEALLOCATE PREPARE add_datevClientNumber_stmt;
+
+-- Check and add datevAccounts
+SET @has_datevAccounts := (
+  SELECT COUNT(*)
+  FROM INFORMATION_SCHEMA.COLUMNS
+  WHERE TABLE_SCHEMA = DATABASE()
+    AND TABLE_NAME = 'company_settings'
+    AND COLUMN_NAME = 'datevAccounts'
+);
+SET @add_datevAccounts_sql := IF(
+  @has_datevAccounts = 0,
+  'ALTER TABLE `company_settings` ADD COLUMN `datevAccounts` JSON NULL AFTER `datevClientNumber`',
+  'SELECT 1'
+);
+PREPARE add_datevAccounts_stmt FROM @add_datevAccounts_sql;
+EXECUTE add_datevAccounts_stmt;
+DEALLOCATE PREPARE add_datevAccounts_stmt;
@@ -0,0 +1,47 @@
+-- Mileage log (Fahrtenbuch): vehicles and append-only, hash-chained trips
+
+CREATE TABLE IF NOT EXISTS `vehicles` (
+  `id` INT AUTO_INCREMENT PRIMARY KEY,
+  `userId` INT NOT NULL,
+  `name` VARCHAR(255) NOT NULL,
+  `licensePlate` VARCHAR(20) NULL,
+  `kind` ENUM('car', 'motorcycle', 'other') NOT NULL DEFAULT 'car',
+  `ratePerKm` DECIMAL(4,2) NOT NULL DEFAULT 0.30,
+  `archivedAt` DATETIME NULL,
+  `createdAt` DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  `updatedAt` DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+  CONSTRAINT `vehicles_userId_fkey` FOREIGN KEY (`userId`) REFERENCES `users`(`id`)
+);
+
+CREATE INDEX IF NOT EXISTS `vehicles_userId_idx` ON `vehicles` (`userId`);
+
+CREATE TABLE IF NOT EXISTS `mileage_trips` (
+  `id` INT AUTO_INCREMENT PRIMARY KEY,
+  `userId` INT NOT NULL,
+  `vehicleId` INT NOT NULL,
+  `sequence` INT NOT NULL,
+  `tripDate` DATETIME NOT NULL,
+  `startAddress` VARCHAR(500) NOT NULL,
+  `endAddress` VARCHAR(500) NOT NULL,
+  `distanceKm` DECIMAL(8,1) NOT NULL,
+  `distanceSource` ENUM('manual', 'odometer', 'straight_line', 'route') NOT NULL,
+  `odometerStart` INT NULL,
+  `odometerEnd` INT NULL,
+  `tripType` ENUM('business', 'commute', 'private') NOT NULL,
+  `purpose` VARCHAR(500) NOT NULL,
+  `businessPartner` VARCHAR(255) NULL,
+  `projectId` INT NULL,
+  `ratePerKm` DECIMAL(4,2) NOT NULL,
+  `expenseId` INT NULL,
+  `replacesTripId` INT NULL,
+  `recordedAt` DATETIME NOT NULL,
+  `previousHash` VARCHAR(64) NOT NULL,
+  `hash` VARCHAR(64) NOT NULL,
+  UNIQUE KEY `mileage_trips_vehicle_sequence` (`vehicleId`, `sequence`),
+  CONSTRAINT `mileage_trips_userId_fkey` FOREIGN KEY (`userId`) REFERENCES `users`(`id`),
+  CONSTRAINT `mileage_trips_vehicleId_fkey` FOREIGN KEY (`vehicleId`) REFERENCES `vehicles`(`id`),
+  CONSTRAINT `mileage_trips_expenseId_fkey` FOREIGN KEY (`expenseId`) REFERENCES `expenses`(`id`) ON DELETE SET NULL
+);
+
+CREATE INDEX IF NOT EXISTS `mileage_trips_userId_tripDate_idx` ON `mileage_trips` (`userId`, `tripDate`);
+CREATE INDEX IF NOT EXISTS `mileage_trips_projectId_idx` ON `mileage_trips` (`projectId`);
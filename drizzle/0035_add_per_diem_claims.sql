@@ -0,0 +1,17 @@
+-- Meal allowances (Verpflegungsmehraufwand) proposed from project check-ins
+
+CREATE TABLE IF NOT EXISTS `per_diem_claims` (
+  `id` INT AUTO_INCREMENT PRIMARY KEY,
+  `userId` INT NOT NULL,
+  `startsAt` DATETIME NOT NULL,
+  `endsAt` DATETIME NOT NULL,
+  `days` JSON NOT NULL,
+  `amountCents` INT NOT NULL,
+  `expenseId` INT NOT NULL,
+  `createdAt` DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  UNIQUE KEY `per_diem_claims_user_startsAt` (`userId`, `startsAt`),
+  CONSTRAINT `per_diem_claims_userId_fkey` FOREIGN KEY (`userId`) REFERENCES `users`(`id`),
+  CONSTRAINT `per_diem_claims_expenseId_fkey` FOREIGN KEY (`expenseId`) REFERENCES `expenses`(`id`) ON DELETE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS `per_diem_claims_expenseId_idx` ON `per_diem_claims` (`expenseId`);
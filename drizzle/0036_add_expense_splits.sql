@@ -0,0 +1,19 @@
+-- Expense line splits: one receipt across several categories, VAT rates and projects
+
+CREATE TABLE IF NOT EXISTS `expense_splits` (
+  `id` INT AUTO_INCREMENT PRIMARY KEY,
+  `expenseId` INT NOT NULL,
+  `position` INT NOT NULL,
+  `grossAmountCents` INT NOT NULL,
+  `category` ENUM('office_supplies', 'travel', 'meals', 'vehicle', 'equipment', 'software', 'insurance', 'marketing', 'utilities', 'rent', 'professional_services', 'shipping', 'training', 'subscriptions', 'repairs', 'taxes_fees', 'other') NOT NULL,
+  `vatRate` ENUM('0', '7', '19') NULL,
+  `projectId` INT NULL,
+  `businessUsePct` INT NOT NULL DEFAULT 100,
+  `description` VARCHAR(255) NULL,
+  `createdAt` DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  CONSTRAINT `expense_splits_expenseId_fkey` FOREIGN KEY (`expenseId`) REFERENCES `expenses`(`id`) ON DELETE CASCADE,
+  CONSTRAINT `expense_splits_projectId_fkey` FOREIGN KEY (`projectId`) REFERENCES `projects`(`id`) ON DELETE SET NULL
+);
+
+CREATE INDEX IF NOT EXISTS `expense_splits_expenseId_idx` ON `expense_splits` (`expenseId`);
+CREATE INDEX IF NOT EXISTS `expense_splits_projectId_idx` ON `expense_splits` (`projectId`);
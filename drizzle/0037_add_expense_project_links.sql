@@ -0,0 +1,36 @@
+-- Job costing: link expenses to a project and optionally one of its jobs
+-- projectId / jobId: cleared when the project or job is deleted
+
+-- Check and add projectId
+SET @has_projectId := (
+  SELECT COUNT(*)
+  FROM INFORMATION_SCHEMA.COLUMNS
+  WHERE TABLE_SCHEMA = DATABASE()
+    AND TABLE_NAME = 'expenses'
+    AND COLUMN_NAME = 'projectId'
+);
+SET @add_projectId_sql := IF(
+  @has_projectId = 0,
+  'ALTER TABLE `expenses` ADD COLUMN `projectId` INT NULL AFTER `category`, ADD CONSTRAINT `expenses_projectId_fkey` FOREIGN KEY (`projectId`) REFERENCES `projects`(`id`) ON DELETE SET NULL, ADD INDEX `expenses_projectId_idx` (`projectId`)',
+  'SELECT 1'
+);
+PREPARE add_projectId_stmt FROM @add_projectId_sql;
+EXECUTE add_projectId_stmt;
+DEALLOCATE PREPARE add_projectId_stmt;
+
+-- Check and add jobId
+SET @has_jobId := (
+  SELECT COUNT(*)
+  FROM INFORMATION_SCHEMA.COLUMNS
+  WHERE TABLE_SCHEMA = DATABASE()
+    AND TABLE_NAME = 'expenses'
+    AND COLUMN_NAME = 'jobId'
+);
+SET @add_jobId_sql := IF(
+  @has_jobId = 0,
+  'ALTER TABLE `expenses` ADD COLUMN `jobId` INT NULL AFTER `projectId`, ADD CONSTRAINT `expenses_jobId_fkey` FOREIGN KEY (`jobId`) REFERENCES `project_jobs`(`id`) ON DELETE SET NULL',
+  'SELECT 1'
+);
+PREPARE add_jobId_stmt FROM @add_jobId_sql;
+EXECUTE add_jobId_stmt;
+DEALLOCATE PREPARE add_jobId_stmt;
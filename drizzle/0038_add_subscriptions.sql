@@ -0,0 +1,20 @@
+-- Recurring supplier charges (subscriptions) detected from expenses
+
+CREATE TABLE IF NOT EXISTS `subscriptions` (
+  `id` INT AUTO_INCREMENT PRIMARY KEY,
+  `userId` INT NOT NULL,
+  `supplierKey` VARCHAR(255) NOT NULL,
+  `supplierName` VARCHAR(255) NOT NULL,
+  `cadence` ENUM('monthly', 'quarterly', 'yearly') NOT NULL,
+  `expectedAmountCents` INT NOT NULL,
+  `currency` VARCHAR(3) NOT NULL DEFAULT 'EUR',
+  `firstChargedAt` DATETIME NOT NULL,
+  `lastChargedAt` DATETIME NOT NULL,
+  `lastExpenseId` INT NULL,
+  `status` ENUM('active', 'cancelled') NOT NULL DEFAULT 'active',
+  `createdAt` DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  `updatedAt` DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+  UNIQUE KEY `subscriptions_user_supplierKey` (`userId`, `supplierKey`),
+  CONSTRAINT `subscriptions_userId_fkey` FOREIGN KEY (`userId`) REFERENCES `users`(`id`),
+  CONSTRAINT `subscriptions_lastExpenseId_fkey` FOREIGN KEY (`lastExpenseId`) REFERENCES `expenses`(`id`) ON DELETE SET NULL
+);
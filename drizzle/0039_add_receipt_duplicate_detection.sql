@@ -0,0 +1,54 @@
+-- Duplicate receipt detection: file hashes and the suspected original of an expense
+-- contentHash: SHA-256 of the receipt file; perceptualHash: difference hash of images
+-- duplicateOfExpenseId: cleared when the original is deleted or the warning dismissed
+
+-- Check and add expense_files.contentHash
+SET @has_contentHash := (
+  SELECT COUNT(*)
+  FROM INFORMATION_SCHEMA.COLUMNS
+  WHERE TABLE_SCHEMA = DATABASE()
+    AND TABLE_NAME = 'expense_files'
+    AND COLUMN_NAME = 'contentHash'
+);
+SET @add_contentHash_sql := IF(
+  @has_contentHash = 0,
+  'ALTER TABLE `expense_files` ADD COLUMN `contentHash` VARCHAR(64) NULL AFTER `fileSize`, ADD INDEX `expense_files_contentHash_idx` (`contentHash`)',
+  'SELECT 1'
+);
+PREPARE add_contentHash_stmt FROM @add_contentHash_sql;
+EXECUTE add_contentHash_stmt;
+DEALLOCATE PREPARE add_contentHash_stmt;
+
+-- Check and add expense_files.perceptualHash
+SET @has_perceptualHash := (
+  SELECT COUNT(*)
+  FROM INFORMATION_SCHEMA.COLUMNS
+  WHERE TABLE_SCHEMA = DATABASE()
+    AND TABLE_NAME = 'expense_files'
+    AND COLUMN_NAME = 'perceptualHash'
+);
+SET @add_perceptualHash_sql := IF(
+  @has_perceptualHash = 0,
+  'ALTER TABLE `expense_files` ADD COLUMN `perceptualHash` VARCHAR(16) NULL AFTER `contentHash`',
+  'SELECT 1'
+);
+PREPARE add_perceptualHash_stmt FROM @add_perceptualHash_sql;
+EXECUTE add_perceptualHash_stmt;
+DEALLOCATE PREPARE add_perceptualHash_stmt;
+
+-- Check and add expenses.duplicateOfExpenseId and duplicateReason
+SET @has_duplicateOfExpenseId := (
+  SELECT COUNT(*)
+  FROM INFORMATION_SCHEMA.COLUMNS
+  WHERE TABLE_SCHEMA = DATABASE()
+    AND TABLE_NAME = 'expenses'
+    AND COLUMN_NAME = 'duplicateOfExpenseId'
+);
+SET @add_duplicateOfExpenseId_sql := IF(
+  @has_duplicateOfExpenseId = 0,
+  'ALTER TABLE `expenses` ADD COLUMN `duplicateOfExpenseId` INT NULL AFTER `voidNote`, ADD COLUMN `duplicateReason` VARCHAR(255) NULL AFTER `duplicateOfExpenseId`, ADD CONSTRAINT `expenses_duplicateOfExpenseId_fkey` FOREIGN KEY (`duplicateOfExpenseId`) REFERENCES `expenses`(`id`) ON DELETE SET NULL',
+  'SELECT 1'
+);
+PREPARE add_duplicateOfExpenseId_stmt FROM @add_duplicateOfExpenseId_sql;
+EXECUTE add_duplicateOfExpenseId_stmt;
+DEALLOCATE PREPARE add_duplicateOfExpenseId_stmt;
@@ -0,0 +1,33 @@
+-- Foreign-currency expenses: EUR amount and the exchange rate used
+-- exchange_rates: ECB reference rates (units per 1 EUR), imported from the ECB files
+-- exchangeRateSource: 'ecb' for an imported rate, 'manual' for an override
+
+CREATE TABLE IF NOT EXISTS `exchange_rates` (
+  `id` INT AUTO_INCREMENT PRIMARY KEY,
+  `currency` VARCHAR(3) NOT NULL,
+  `rateDate` VARCHAR(10) NOT NULL,
+  `rate` DECIMAL(18,6) NOT NULL,
+  `createdAt` DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  `updatedAt` DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+  UNIQUE KEY `exchange_rates_currency_rateDate` (`currency`, `rateDate`)
+);
+
+-- Check and add expenses.grossAmountEurCents, exchangeRate, exchangeRateDate and exchangeRateSource
+SET @has_grossAmountEurCents := (
+  SELECT COUNT(*)
+  FROM INFORMATION_SCHEMA.COLUMNS
+  WHERE TABLE_SCHEMA = DATABASE()
+    AND TABLE_NAME = 'expenses'
+    AND COLUMN_NAME = 'grossAmountEurCents'
+);
+SET @add_grossAmountEurCents_sql := IF(
+  @has_grossAmountEurCents = 0,
+  'ALTER TABLE `expenses` ADD COLUMN `grossAmountEurCents` INT NULL AFTER `currency`, ADD COLUMN `exchangeRate` DECIMAL(18,6) NULL AFTER `grossAmountEurCents`, ADD COLUMN `exchangeRateDate` VARCHAR(10) NULL AFTER `exchangeRate`, ADD COLUMN `exchangeRateSource` ENUM(''ecb'', ''manual'') NULL AFTER `exchangeRateDate`',
+  'SELECT 1'
+);
+PREPARE add_grossAmountEurCents_stmt FROM @add_grossAmountEurCents_sql;
+EXECUTE add_grossAmountEurCents_stmt;
+DEALLOCATE PREPARE add_grossAmountEurCents_stmt;
+
+-- EUR expenses convert 1:1; foreign-currency expenses are converted once rates are imported
+UPDATE `expenses` SET `grossAmountEurCents` = `grossAmountCents` WHERE `currency` = 'EUR' AND `grossAmountEurCents` IS NULL;
@@ -0,0 +1,3 @@
+-- Reverse-charge (§ 13b UStG) expenses: the business owes the VAT on the
+-- supplier's net amount and deducts it as input VAT in the same return
+ALTER TABLE `expenses` MODIFY COLUMN `vatMode` ENUM('none', 'german', 'foreign', 'reverse_charge') NOT NULL DEFAULT 'none';
@@ -0,0 +1,50 @@
+-- Expense approval workflow: submit to a reviewer, approve or reject with a reason
+-- expense_events: audit trail of every status and approval change
+-- expense_comments: threaded discussion per expense (parentId = comment replied to)
+
+SET @has_approvalStatus := (
+  SELECT COUNT(*)
+  FROM INFORMATION_SCHEMA.COLUMNS
+  WHERE TABLE_SCHEMA = DATABASE()
+    AND TABLE_NAME = 'expenses'
+    AND COLUMN_NAME = 'approvalStatus'
+);
+SET @add_approvalStatus_sql := IF(
+  @has_approvalStatus = 0,
+  'ALTER TABLE `expenses` ADD COLUMN `approvalStatus` ENUM(''none'', ''submitted'', ''approved'', ''rejected'') NOT NULL DEFAULT ''none'' AFTER `reviewedAt`, ADD COLUMN `approverUserId` INT NULL AFTER `approvalStatus`, ADD COLUMN `submittedAt` TIMESTAMP NULL AFTER `approverUserId`, ADD COLUMN `rejectionReason` TEXT NULL AFTER `submittedAt`, ADD CONSTRAINT `expenses_approverUserId_fkey` FOREIGN KEY (`approverUserId`) REFERENCES `users`(`id`) ON DELETE SET NULL, ADD INDEX `expenses_approverUserId_approvalStatus_idx` (`approverUserId`, `approvalStatus`)',
+  'SELECT 1'
+);
+PREPARE add_approvalStatus_stmt FROM @add_approvalStatus_sql;
+EXECUTE add_approvalStatus_stmt;
+DEALLOCATE PREPARE add_approvalStatus_stmt;
+
+CREATE TABLE IF NOT EXISTS `expense_events` (
+  `id` INT AUTO_INCREMENT PRIMARY KEY,
+  `expenseId` INT NOT NULL,
+  `userId` INT NOT NULL,
+  `action` ENUM('submitted', 'reviewer_changed', 'approved', 'rejected', 'status_changed') NOT NULL,
+  `fromStatus` ENUM('needs_review', 'in_order', 'void') NOT NULL,
+  `toStatus` ENUM('needs_review', 'in_order', 'void') NOT NULL,
+  `approverUserId` INT NULL,
+  `note` TEXT NULL,
+  `createdAt` TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  CONSTRAINT `expense_events_expenseId_fkey` FOREIGN KEY (`expenseId`) REFERENCES `expenses`(`id`) ON DELETE CASCADE,
+  CONSTRAINT `expense_events_userId_fkey` FOREIGN KEY (`userId`) REFERENCES `users`(`id`),
+  CONSTRAINT `expense_events_approverUserId_fkey` FOREIGN KEY (`approverUserId`) REFERENCES `users`(`id`) ON DELETE SET NULL
+);
+
+CREATE INDEX IF NOT EXISTS `expense_events_expenseId_idx` ON `expense_events` (`expenseId`);
+
+CREATE TABLE IF NOT EXISTS `expense_comments` (
+  `id` INT AUTO_INCREMENT PRIMARY KEY,
+  `expenseId` INT NOT NULL,
+  `parentId` INT NULL,
+  `userId` INT NOT NULL,
+  `content` TEXT NOT NULL,
+  `createdAt` TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  CONSTRAINT `expense_comments_expenseId_fkey` FOREIGN KEY (`expenseId`) REFERENCES `expenses`(`id`) ON DELETE CASCADE,
+  CONSTRAINT `expense_comments_parentId_fkey` FOREIGN KEY (`parentId`) REFERENCES `expense_comments`(`id`) ON DELETE CASCADE,
+  CONSTRAINT `expense_comments_userId_fkey` FOREIGN KEY (`userId`) REFERENCES `users`(`id`)
+);
+
+CREATE INDEX IF NOT EXISTS `expense_comments_expenseId_idx` ON `expense_comments` (`expenseId`);
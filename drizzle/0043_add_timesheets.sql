@@ -0,0 +1,93 @@
+-- Timesheets: time entries per user and project, weekly approval and billing
+-- time_entries: taken over from check-ins on check-out or entered by hand;
+--   weekStart is the Monday of the entry's week, invoiceId is set once billed
+-- timesheets: approval state of one user's week
+-- projects/project_jobs.hourlyRate: net rate for billing, the job rate wins
+
+SET @has_project_hourlyRate := (
+  SELECT COUNT(*)
+  FROM INFORMATION_SCHEMA.COLUMNS
+  WHERE TABLE_SCHEMA = DATABASE()
+    AND TABLE_NAME = 'projects'
+    AND COLUMN_NAME = 'hourlyRate'
+);
+SET @add_project_hourlyRate_sql := IF(
+  @has_project_hourlyRate = 0,
+  'ALTER TABLE `projects` ADD COLUMN `hourlyRate` DECIMAL(10,2) NULL AFTER `status`',
+  'SELECT 1'
+);
+PREPARE add_project_hourlyRate_stmt FROM @add_project_hourlyRate_sql;
+EXECUTE add_project_hourlyRate_stmt;
+DEALLOCATE PREPARE add_project_hourlyRate_stmt;
+
+SET @has_job_hourlyRate := (
+  SELECT COUNT(*)
+  FROM INFORMATION_SCHEMA.COLUMNS
+  WHERE TABLE_SCHEMA = DATABASE()
+    AND TABLE_NAME = 'project_jobs'
+    AND COLUMN_NAME = 'hourlyRate'
+);
+SET @add_job_hourlyRate_sql := IF(
+  @has_job_hourlyRate = 0,
+  'ALTER TABLE `project_jobs` ADD COLUMN `hourlyRate` DECIMAL(10,2) NULL AFTER `status`',
+  'SELECT 1'
+);
+PREPARE add_job_hourlyRate_stmt FROM @add_job_hourlyRate_sql;
+EXECUTE add_job_hourlyRate_stmt;
+DEALLOCATE PREPARE add_job_hourlyRate_stmt;
+
+CREATE TABLE IF NOT EXISTS `time_entries` (
+  `id` INT AUTO_INCREMENT PRIMARY KEY,
+  `userId` INT NOT NULL,
+  `projectId` INT NOT NULL,
+  `jobId` INT NULL,
+  `checkinId` INT NULL,
+  `weekStart` VARCHAR(10) NOT NULL,
+  `startTime` TIMESTAMP NOT NULL,
+  `endTime` TIMESTAMP NOT NULL,
+  `breakMinutes` INT NOT NULL DEFAULT 0,
+  `description` TEXT NULL,
+  `billable` BOOLEAN NOT NULL DEFAULT TRUE,
+  `invoiceId` INT NULL,
+  `createdAt` TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  `updatedAt` TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+  UNIQUE KEY `time_entries_checkinId` (`checkinId`),
+  CONSTRAINT `time_entries_userId_fkey` FOREIGN KEY (`userId`) REFERENCES `users`(`id`),
+  CONSTRAINT `time_entries_projectId_fkey` FOREIGN KEY (`projectId`) REFERENCES `projects`(`id`) ON DELETE CASCADE,
+  CONSTRAINT `time_entries_jobId_fkey` FOREIGN KEY (`jobId`) REFERENCES `project_jobs`(`id`) ON DELETE SET NULL,
+  CONSTRAINT `time_entries_checkinId_fkey` FOREIGN KEY (`checkinId`) REFERENCES `project_checkins`(`id`) ON DELETE SET NULL,
+  CONSTRAINT `time_entries_invoiceId_fkey` FOREIGN KEY (`invoiceId`) REFERENCES `invoices`(`id`) ON DELETE SET NULL
+);
+
+CREATE INDEX IF NOT EXISTS `time_entries_userId_weekStart_idx` ON `time_entries` (`userId`, `weekStart`);
+CREATE INDEX IF NOT EXISTS `time_entries_projectId_idx` ON `time_entries` (`projectId`);
+CREATE INDEX IF NOT EXISTS `time_entries_invoiceId_idx` ON `time_entries` (`invoiceId`);
+
+CREATE TABLE IF NOT EXISTS `timesheets` (
+  `id` INT AUTO_INCREMENT PRIMARY KEY,
+  `userId` INT NOT NULL,
+  `weekStart` VARCHAR(10) NOT NULL,
+  `status` ENUM('open', 'submitted', 'approved', 'rejected') NOT NULL DEFAULT 'open',
+  `submittedAt` TIMESTAMP NULL,
+  `reviewedByUserId` INT NULL,
+  `reviewedAt` TIMESTAMP NULL,
+  `rejectionReason` TEXT NULL,
+  `createdAt` TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  `updatedAt` TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+  UNIQUE KEY `timesheets_userId_weekStart` (`userId`, `weekStart`),
+  CONSTRAINT `timesheets_userId_fkey` FOREIGN KEY (`userId`) REFERENCES `users`(`id`),
+  CONSTRAINT `timesheets_reviewedByUserId_fkey` FOREIGN KEY (`reviewedByUserId`) REFERENCES `users`(`id`) ON DELETE SET NULL
+);
+
+CREATE INDEX IF NOT EXISTS `timesheets_status_idx` ON `timesheets` (`status`);
+
+-- Take over completed check-ins as time entries
+INSERT INTO `time_entries` (`userId`, `projectId`, `checkinId`, `weekStart`, `startTime`, `endTime`)
+SELECT c.`userId`, c.`projectId`, c.`id`,
+  DATE_FORMAT(DATE_SUB(DATE(c.`checkInTime`), INTERVAL WEEKDAY(c.`checkInTime`) DAY), '%Y-%m-%d'),
+  c.`checkInTime`, c.`checkOutTime`
+FROM `project_checkins` c
+LEFT JOIN `time_entries` t ON t.`checkinId` = c.`id`
+WHERE c.`checkOutTime` IS NOT NULL
+  AND c.`checkOutTime` > c.`checkInTime`
+  AND t.`id` IS NULL;
@@ -0,0 +1,35 @@
+-- Project geofences: radius around the project site, distance of check-ins
+-- and check-outs to the site, and a flag for those made outside the radius
+-- projects.geofenceRadiusMeters: null uses the default radius
+
+SET @has_geofenceRadiusMeters := (
+  SELECT COUNT(*)
+  FROM INFORMATION_SCHEMA.COLUMNS
+  WHERE TABLE_SCHEMA = DATABASE()
+    AND TABLE_NAME = 'projects'
+    AND COLUMN_NAME = 'geofenceRadiusMeters'
+);
+SET @add_geofenceRadiusMeters_sql := IF(
+  @has_geofenceRadiusMeters = 0,
+  'ALTER TABLE `projects` ADD COLUMN `geofenceRadiusMeters` INT NULL AFTER `geo`',
+  'SELECT 1'
+);
+PREPARE add_geofenceRadiusMeters_stmt FROM @add_geofenceRadiusMeters_sql;
+EXECUTE add_geofenceRadiusMeters_stmt;
+DEALLOCATE PREPARE add_geofenceRadiusMeters_stmt;
+
+SET @has_outsideGeofence := (
+  SELECT COUNT(*)
+  FROM INFORMATION_SCHEMA.COLUMNS
+  WHERE TABLE_SCHEMA = DATABASE()
+    AND TABLE_NAME = 'project_checkins'
+    AND COLUMN_NAME = 'outsideGeofence'
+);
+SET @add_outsideGeofence_sql := IF(
+  @has_outsideGeofence = 0,
+  'ALTER TABLE `project_checkins` ADD COLUMN `checkInDistanceMeters` INT NULL AFTER `longitude`, ADD COLUMN `checkOutLatitude` DECIMAL(10,8) NULL AFTER `checkInDistanceMeters`, ADD COLUMN `checkOutLongitude` DECIMAL(11,8) NULL AFTER `checkOutLatitude`, ADD COLUMN `checkOutDistanceMeters` INT NULL AFTER `checkOutLongitude`, ADD COLUMN `outsideGeofence` BOOLEAN NOT NULL DEFAULT FALSE AFTER `checkOutDistanceMeters`',
+  'SELECT 1'
+);
+PREPARE add_outsideGeofence_stmt FROM @add_outsideGeofence_sql;
+EXECUTE add_outsideGeofence_stmt;
+DEALLOCATE PREPARE add_outsideGeofence_stmt;
@@ -0,0 +1,79 @@
+-- Team workspaces: an owner's account shared with invited members by role
+-- workspaces: one per owner; records created inside belong to the owner's account
+-- workspace_members: members and their role (the owner included)
+-- workspace_invitations: pending invitations, accepted with the token
+-- project_members: workspace members working on a project
+-- users.activeWorkspaceId: workspace the user currently works in
+
+CREATE TABLE IF NOT EXISTS `workspaces` (
+  `id` INT AUTO_INCREMENT PRIMARY KEY,
+  `name` VARCHAR(255) NOT NULL,
+  `ownerUserId` INT NOT NULL,
+  `createdAt` TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  `updatedAt` TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+  UNIQUE KEY `workspaces_ownerUserId` (`ownerUserId`),
+  CONSTRAINT `workspaces_ownerUserId_fkey` FOREIGN KEY (`ownerUserId`) REFERENCES `users`(`id`)
+);
+
+CREATE TABLE IF NOT EXISTS `workspace_members` (
+  `id` INT AUTO_INCREMENT PRIMARY KEY,
+  `workspaceId` INT NOT NULL,
+  `userId` INT NOT NULL,
+  `role` ENUM('owner', 'office', 'foreman', 'field_worker', 'accountant') NOT NULL,
+  `createdAt` TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  `updatedAt` TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+  UNIQUE KEY `workspace_members_workspaceId_userId` (`workspaceId`, `userId`),
+  CONSTRAINT `workspace_members_workspaceId_fkey` FOREIGN KEY (`workspaceId`) REFERENCES `workspaces`(`id`) ON DELETE CASCADE,
+  CONSTRAINT `workspace_members_userId_fkey` FOREIGN KEY (`userId`) REFERENCES `users`(`id`) ON DELETE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS `workspace_members_userId_idx` ON `workspace_members` (`userId`);
+
+CREATE TABLE IF NOT EXISTS `workspace_invitations` (
+  `id` INT AUTO_INCREMENT PRIMARY KEY,
+  `workspaceId` INT NOT NULL,
+  `email` VARCHAR(320) NOT NULL,
+  `role` ENUM('office', 'foreman', 'field_worker', 'accountant') NOT NULL,
+  `token` VARCHAR(64) NOT NULL,
+  `invitedByUserId` INT NOT NULL,
+  `expiresAt` TIMESTAMP NOT NULL,
+  `acceptedAt` TIMESTAMP NULL,
+  `acceptedByUserId` INT NULL,
+  `createdAt` TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  UNIQUE KEY `workspace_invitations_token` (`token`),
+  CONSTRAINT `workspace_invitations_workspaceId_fkey` FOREIGN KEY (`workspaceId`) REFERENCES `workspaces`(`id`) ON DELETE CASCADE,
+  CONSTRAINT `workspace_invitations_invitedByUserId_fkey` FOREIGN KEY (`invitedByUserId`) REFERENCES `users`(`id`),
+  CONSTRAINT `workspace_invitations_acceptedByUserId_fkey` FOREIGN KEY (`acceptedByUserId`) REFERENCES `users`(`id`) ON DELETE SET NULL
+);
+
+CREATE INDEX IF NOT EXISTS `workspace_invitations_workspaceId_idx` ON `workspace_invitations` (`workspaceId`);
+
+CREATE TABLE IF NOT EXISTS `project_members` (
+  `id` INT AUTO_INCREMENT PRIMARY KEY,
+  `projectId` INT NOT NULL,
+  `userId` INT NOT NULL,
+  `addedByUserId` INT NULL,
+  `createdAt` TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  UNIQUE KEY `project_members_projectId_userId` (`projectId`, `userId`),
+  CONSTRAINT `project_members_projectId_fkey` FOREIGN KEY (`projectId`) REFERENCES `projects`(`id`) ON DELETE CASCADE,
+  CONSTRAINT `project_members_userId_fkey` FOREIGN KEY (`userId`) REFERENCES `users`(`id`) ON DELETE CASCADE,
+  CONSTRAINT `project_members_addedByUserId_fkey` FOREIGN KEY (`addedByUserId`) REFERENCES `users`(`id`) ON DELETE SET NULL
+);
+
+CREATE INDEX IF NOT EXISTS `project_members_userId_idx` ON `project_members` (`userId`);
+
+SET @has_activeWorkspaceId := (
+  SELECT COUNT(*)
+  FROM INFORMATION_SCHEMA.COLUMNS
+  WHERE TABLE_SCHEMA = DATABASE()
+    AND TABLE_NAME = 'users'
+    AND COLUMN_NAME = 'activeWorkspaceId'
+);
+SET @add_activeWorkspaceId_sql := IF(
+  @has_activeWorkspaceId = 0,
+  'ALTER TABLE `users` ADD COLUMN `activeWorkspaceId` INT NULL AFTER `role`, ADD CONSTRAINT `users_activeWorkspaceId_fkey` FOREIGN KEY (`activeWorkspaceId`) REFERENCES `workspaces`(`id`) ON DELETE SET NULL',
+  'SELECT 1'
+);
+PREPARE add_activeWorkspaceId_stmt FROM @add_activeWorkspaceId_sql;
+EXECUTE add_activeWorkspaceId_stmt;
+DEALLOCATE PREPARE add_activeWorkspaceId_stmt;
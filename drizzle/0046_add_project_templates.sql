@@ -0,0 +1,35 @@
+-- Project templates: jobs with day offsets and checklists, default tags,
+-- inspection templates and standard line items for recurring kinds of projects
+-- projects.tags: free-form labels, filled from the template's default tags
+
+CREATE TABLE IF NOT EXISTS `project_templates` (
+  `id` INT AUTO_INCREMENT PRIMARY KEY,
+  `name` VARCHAR(255) NOT NULL,
+  `description` TEXT NULL,
+  `jobs` JSON NOT NULL,
+  `tags` JSON NOT NULL,
+  `inspectionTemplateIds` JSON NOT NULL,
+  `lineItems` JSON NOT NULL,
+  `createdBy` INT NOT NULL,
+  `createdAt` TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  `updatedAt` TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+  CONSTRAINT `project_templates_createdBy_fkey` FOREIGN KEY (`createdBy`) REFERENCES `users`(`id`)
+);
+
+CREATE INDEX IF NOT EXISTS `project_templates_createdBy_idx` ON `project_templates` (`createdBy`);
+
+SET @has_project_tags := (
+  SELECT COUNT(*)
+  FROM INFORMATION_SCHEMA.COLUMNS
+  WHERE TABLE_SCHEMA = DATABASE()
+    AND TABLE_NAME = 'projects'
+    AND COLUMN_NAME = 'tags'
+);
+SET @add_project_tags_sql := IF(
+  @has_project_tags = 0,
+  'ALTER TABLE `projects` ADD COLUMN `tags` JSON NULL AFTER `status`',
+  'SELECT 1'
+);
+PREPARE add_project_tags_stmt FROM @add_project_tags_sql;
+EXECUTE add_project_tags_stmt;
+DEALLOCATE PREPARE add_project_tags_stmt;
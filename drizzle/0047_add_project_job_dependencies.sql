@@ -0,0 +1,17 @@
+-- Finish-to-start dependencies between jobs of a project for the timeline:
+-- the successor starts after the predecessor's last day
+
+CREATE TABLE IF NOT EXISTS `project_job_dependencies` (
+  `id` INT AUTO_INCREMENT PRIMARY KEY,
+  `projectId` INT NOT NULL,
+  `predecessorJobId` INT NOT NULL,
+  `successorJobId` INT NOT NULL,
+  `createdAt` TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  UNIQUE KEY `project_job_dependencies_predecessor_successor` (`predecessorJobId`, `successorJobId`),
+  CONSTRAINT `project_job_dependencies_projectId_fkey` FOREIGN KEY (`projectId`) REFERENCES `projects`(`id`) ON DELETE CASCADE,
+  CONSTRAINT `project_job_dependencies_predecessorJobId_fkey` FOREIGN KEY (`predecessorJobId`) REFERENCES `project_jobs`(`id`) ON DELETE CASCADE,
+  CONSTRAINT `project_job_dependencies_successorJobId_fkey` FOREIGN KEY (`successorJobId`) REFERENCES `project_jobs`(`id`) ON DELETE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS `project_job_dependencies_projectId_idx` ON `project_job_dependencies` (`projectId`);
+CREATE INDEX IF NOT EXISTS `project_job_dependencies_successorJobId_idx` ON `project_job_dependencies` (`successorJobId`);
@@ -0,0 +1,29 @@
+-- Invoice payment source: "Mark as not paid" only removes the payment that
+-- "Mark as paid" booked, never one entered by hand or imported from the bank
+-- invoice_payments.source: manual, mark_as_paid or bank_import
+
+SET @has_payment_source := (
+  SELECT COUNT(*)
+  FROM INFORMATION_SCHEMA.COLUMNS
+  WHERE TABLE_SCHEMA = DATABASE()
+    AND TABLE_NAME = 'invoice_payments'
+    AND COLUMN_NAME = 'source'
+);
+SET @add_payment_source_sql := IF(
+  @has_payment_source = 0,
+  'ALTER TABLE `invoice_payments` ADD COLUMN `source` ENUM(''manual'', ''mark_as_paid'', ''bank_import'') NOT NULL DEFAULT ''manual'' AFTER `note`',
+  'SELECT 1'
+);
+PREPARE add_payment_source_stmt FROM @add_payment_source_sql;
+EXECUTE add_payment_source_stmt;
+DEALLOCATE PREPARE add_payment_source_stmt;
+
+-- Backfill: payments linked to a bank transaction came from the import;
+-- "Marked as paid" notes were written by "Mark as paid"
+UPDATE `invoice_payments` p
+SET p.`source` = 'bank_import'
+WHERE EXISTS (SELECT 1 FROM `bank_transactions` t WHERE t.`invoicePaymentId` = p.`id`);
+
+UPDATE `invoice_payments`
+SET `source` = 'mark_as_paid'
+WHERE `source` = 'manual' AND `note` = 'Marked as paid';
@@ -0,0 +1,27 @@
+-- Check-ins without a position: a check-in or check-out at a project with a
+-- site that sent no device position can't be verified against the geofence
+-- and is flagged for the timesheet review instead of counting as on site
+-- project_checkins.locationMissing
+
+SET @has_locationMissing := (
+  SELECT COUNT(*)
+  FROM INFORMATION_SCHEMA.COLUMNS
+  WHERE TABLE_SCHEMA = DATABASE()
+    AND TABLE_NAME = 'project_checkins'
+    AND COLUMN_NAME = 'locationMissing'
+);
+SET @add_locationMissing_sql := IF(
+  @has_locationMissing = 0,
+  'ALTER TABLE `project_checkins` ADD COLUMN `locationMissing` BOOLEAN NOT NULL DEFAULT FALSE AFTER `outsideGeofence`',
+  'SELECT 1'
+);
+PREPARE add_locationMissing_stmt FROM @add_locationMissing_sql;
+EXECUTE add_locationMissing_stmt;
+DEALLOCATE PREPARE add_locationMissing_stmt;
+
+-- Backfill: check-ins at projects with a site that stored no position
+UPDATE `project_checkins` c
+JOIN `projects` p ON p.`id` = c.`projectId`
+SET c.`locationMissing` = TRUE
+WHERE p.`geo` IS NOT NULL
+  AND (c.`latitude` IS NULL OR (c.`checkOutTime` IS NOT NULL AND c.`checkOutLatitude` IS NULL));
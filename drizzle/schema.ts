@@ -1,5 +1,6 @@
 // MySQL schema for Mantodeus Manager
-import { mysqlTable, mysqlEnum, int, text, timestamp, varchar, boolean, json, decimal, index, unique, uniqueIndex } from "drizzle-orm/mysql-core";
+import { mysqlTable, mysqlEnum, int, text, timestamp, varchar, boolean, json, decimal, index, unique, uniqueIndex, type AnyMySqlColumn } from "drizzle-orm/mysql-core";
+import type { ProjectTemplateJob, ProjectTemplateLineItem } from "../shared/projectTemplates";
 
 // =============================================================================
 // Shared Image Metadata Types
@@ -43,6 +44,8 @@ export const users = mysqlTable("users", {
   email: varchar("email", { length: 320 }),
   loginMethod: varchar("loginMethod", { length: 64 }),
   role: mysqlEnum("role", ["user", "admin"]).default("user").notNull(),
+  /** Workspace the user works in; null works in their own account */
+  activeWorkspaceId: int("activeWorkspaceId").references((): AnyMySqlColumn => workspaces.id, { onDelete: "set null" }),
   createdAt: timestamp("createdAt").defaultNow().notNull(),
   updatedAt: timestamp("updatedAt").defaultNow().onUpdateNow().notNull(),
   lastSignedIn: timestamp("lastSignedIn").defaultNow().notNull(),
@@ -51,6 +54,66 @@ export const users = mysqlTable("users", {
 export type User = typeof users.$inferSelect;
 export type InsertUser = typeof users.$inferInsert;
 
+// =============================================================================
+// TEAM WORKSPACES
+// =============================================================================
+
+/**
+ * Workspaces - share the owner's account with invited members (see shared/workspaces).
+ * Records created inside a workspace belong to the owner's account.
+ */
+export const workspaces = mysqlTable("workspaces", {
+  id: int("id").primaryKey().autoincrement(),
+  name: varchar("name", { length: 255 }).notNull(),
+  ownerUserId: int("ownerUserId").notNull().references(() => users.id),
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+  updatedAt: timestamp("updatedAt").defaultNow().onUpdateNow().notNull(),
+}, (table) => [
+  uniqueIndex("workspaces_ownerUserId").on(table.ownerUserId),
+]);
+
+export type Workspace = typeof workspaces.$inferSelect;
+export type InsertWorkspace = typeof workspaces.$inferInsert;
+
+/**
+ * Workspace members - the owner is a member with the owner role
+ */
+export const workspaceMembers = mysqlTable("workspace_members", {
+  id: int("id").primaryKey().autoincrement(),
+  workspaceId: int("workspaceId").notNull().references(() => workspaces.id, { onDelete: "cascade" }),
+  userId: int("userId").notNull().references(() => users.id, { onDelete: "cascade" }),
+  role: mysqlEnum("role", ["owner", "office", "foreman", "field_worker", "accountant"]).notNull(),
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+  updatedAt: timestamp("updatedAt").defaultNow().onUpdateNow().notNull(),
+}, (table) => [
+  uniqueIndex("workspace_members_workspaceId_userId").on(table.workspaceId, table.userId),
+  index("workspace_members_userId_idx").on(table.userId),
+]);
+
+export type WorkspaceMember = typeof workspaceMembers.$inferSelect;
+export type InsertWorkspaceMember = typeof workspaceMembers.$inferInsert;
+
+/**
+ * Workspace invitations - accepted by the signed-in user with the token
+ */
+export const workspaceInvitations = mysqlTable("workspace_invitations", {
+  id: int("id").primaryKey().autoincrement(),
+  workspaceId: int("workspaceId").notNull().references(() => workspaces.id, { onDelete: "cascade" }),
+  email: varchar("email", { length: 320 }).notNull(),
+  role: mysqlEnum("role", ["office", "foreman", "field_worker", "accountant"]).notNull(),
+  token: varchar("token", { length: 64 }).notNull().unique(),
+  invitedByUserId: int("invitedByUserId").notNull().references(() => users.id),
+  expiresAt: timestamp("expiresAt").notNull(),
+  acceptedAt: timestamp("acceptedAt"),
+  acceptedByUserId: int("acceptedByUserId").references(() => users.id, { onDelete: "set null" }),
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+}, (table) => [
+  index("workspace_invitations_workspaceId_idx").on(table.workspaceId),
+]);
+
+export type WorkspaceInvitation = typeof workspaceInvitations.$inferSelect;
+export type InsertWorkspaceInvitation = typeof workspaceInvitations.$inferInsert;
+
 // =============================================================================
 // PROJECT-BASED STRUCTURE
 // =============================================================================
@@ -69,9 +132,15 @@ export const projects = mysqlTable("projects", {
   address: text("address"),
   /** Geographic coordinates stored as JSON: { lat: number, lng: number } */
   geo: json("geo").$type<{ lat: number; lng: number } | null>(),
+  /** Geofence radius around `geo` in meters; null uses the default (see shared/geofence) */
+  geofenceRadiusMeters: int("geofenceRadiusMeters"),
   /** Optional list of explicitly selected schedule dates */
   scheduledDates: json("scheduledDates").$type<string[] | null>(),
   status: mysqlEnum("status", ["planned", "active", "completed", "archived"]).default("planned").notNull(),
+  /** Free-form labels, e.g. the defaults of the template the project was created from */
+  tags: json("tags").$type<string[] | null>(),
+  /** Net hourly rate for billing time entries; jobs can override it */
+  hourlyRate: decimal("hourlyRate", { precision: 10, scale: 2 }),
   /** Timestamp when project was archived (null if active) */
   archivedAt: timestamp("archivedAt"),
   /** Timestamp when project was moved to trash (null if not trashed) */
@@ -102,6 +171,8 @@ export const projectJobs = mysqlTable("project_jobs", {
   /** Array of user IDs assigned to this job. Stored as JSON for simplicity. */
   assignedUsers: json("assignedUsers").$type<number[]>(),
   status: mysqlEnum("status", ["pending", "in_progress", "done", "cancelled"]).default("pending").notNull(),
+  /** Net hourly rate for billing time entries; null uses the project's rate */
+  hourlyRate: decimal("hourlyRate", { precision: 10, scale: 2 }),
   startTime: timestamp("startTime"),
   endTime: timestamp("endTime"),
   createdAt: timestamp("createdAt").defaultNow().notNull(),
@@ -115,6 +186,69 @@ export const projectJobs = mysqlTable("project_jobs", {
 export type ProjectJob = typeof projectJobs.$inferSelect;
 export type InsertProjectJob = typeof projectJobs.$inferInsert;
 
+/**
+ * Project job dependencies - finish-to-start links between jobs of the same
+ * project: the successor starts after the predecessor's last day
+ */
+export const projectJobDependencies = mysqlTable("project_job_dependencies", {
+  id: int("id").primaryKey().autoincrement(),
+  projectId: int("projectId").notNull().references(() => projects.id, { onDelete: "cascade" }),
+  predecessorJobId: int("predecessorJobId").notNull().references(() => projectJobs.id, { onDelete: "cascade" }),
+  successorJobId: int("successorJobId").notNull().references(() => projectJobs.id, { onDelete: "cascade" }),
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+}, (table) => [
+  uniqueIndex("project_job_dependencies_predecessor_successor").on(table.predecessorJobId, table.successorJobId),
+  index("project_job_dependencies_projectId_idx").on(table.projectId),
+  index("project_job_dependencies_successorJobId_idx").on(table.successorJobId),
+]);
+
+export type ProjectJobDependency = typeof projectJobDependencies.$inferSelect;
+export type InsertProjectJobDependency = typeof projectJobDependencies.$inferInsert;
+
+/**
+ * Project members - workspace members working on a project. Foremen and
+ * field workers only see projects they're a member of; users assigned to
+ * a job become members.
+ */
+export const projectMembers = mysqlTable("project_members", {
+  id: int("id").primaryKey().autoincrement(),
+  projectId: int("projectId").notNull().references(() => projects.id, { onDelete: "cascade" }),
+  userId: int("userId").notNull().references(() => users.id, { onDelete: "cascade" }),
+  addedByUserId: int("addedByUserId").references(() => users.id, { onDelete: "set null" }),
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+}, (table) => [
+  uniqueIndex("project_members_projectId_userId").on(table.projectId, table.userId),
+  index("project_members_userId_idx").on(table.userId),
+]);
+
+export type ProjectMember = typeof projectMembers.$inferSelect;
+export type InsertProjectMember = typeof projectMembers.$inferInsert;
+
+/**
+ * Project templates - recurring kinds of projects with their jobs, tags,
+ * inspection templates and standard line items (see shared/projectTemplates).
+ * They belong to an account and are shared within its workspace.
+ */
+export const projectTemplates = mysqlTable("project_templates", {
+  id: int("id").primaryKey().autoincrement(),
+  name: varchar("name", { length: 255 }).notNull(),
+  description: text("description"),
+  jobs: json("jobs").$type<ProjectTemplateJob[]>().notNull(),
+  tags: json("tags").$type<string[]>().notNull(),
+  /** Inspections to set up on the new project */
+  inspectionTemplateIds: json("inspectionTemplateIds").$type<number[]>().notNull(),
+  /** Standard line items; a new project gets a draft quote with them */
+  lineItems: json("lineItems").$type<ProjectTemplateLineItem[]>().notNull(),
+  createdBy: int("createdBy").notNull().references(() => users.id),
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+  updatedAt: timestamp("updatedAt").defaultNow().onUpdateNow().notNull(),
+}, (table) => [
+  index("project_templates_createdBy_idx").on(table.createdBy),
+]);
+
+export type ProjectTemplate = typeof projectTemplates.$inferSelect;
+export type InsertProjectTemplate = typeof projectTemplates.$inferInsert;
+
 /**
  * File Metadata table - tracks files uploaded to S3 for projects/jobs.
  */
@@ -334,6 +468,7 @@ export const invoices = mysqlTable("invoices", {
   clientId: int("clientId").references(() => contacts.id),
   contactId: int("contactId").references(() => contacts.id),
   jobId: int("jobId").references(() => jobs.id),
+  projectId: int("projectId").references(() => projects.id, { onDelete: "set null" }),
   invoiceNumber: varchar("invoiceNumber", { length: 50 }),
   /** Original uploaded filename (with extension) */
   originalFileName: varchar("originalFileName", { length: 255 }),
@@ -397,6 +532,7 @@ export const invoices = mysqlTable("invoices", {
   index("invoices_paidAt_idx").on(table.paidAt),
   index("invoices_amountPaid_idx").on(table.amountPaid),
   index("invoices_lastPaymentAt_idx").on(table.lastPaymentAt),
+  index("invoices_projectId_idx").on(table.projectId),
   uniqueIndex("invoices_cancelledInvoiceId_unique").on(table.cancelledInvoiceId),
 ]);
 
@@ -413,12 +549,238 @@ export const invoiceItems = mysqlTable("invoice_items", {
   unitPrice: decimal("unitPrice", { precision: 12, scale: 2 }).notNull().default("0.00"),
   currency: varchar("currency", { length: 3 }).notNull().default("EUR"),
   lineTotal: decimal("lineTotal", { precision: 12, scale: 2 }).notNull().default("0.00"),
+  /** VAT rate in percent (19, 7, 0). NULL for legacy lines - the company default rate applies */
+  vatRate: decimal("vatRate", { precision: 5, scale: 2 }),
+  /** VAT treatment: standard (taxed at vatRate), zero, reverse_charge (§ 13b UStG), intra_eu (exempt) */
+  vatCategory: mysqlEnum("vatCategory", ["standard", "zero", "reverse_charge", "intra_eu"]).default("standard").notNull(),
   createdAt: timestamp("createdAt").defaultNow().notNull(),
 });
 
 export type InvoiceItem = typeof invoiceItems.$inferSelect;
 export type InsertInvoiceItem = typeof invoiceItems.$inferInsert;
 
+/**
+ * Invoice payments - one row per incoming payment. invoices.amountPaid, lastPaymentAt
+ * and paidAt are derived from these rows (see shared/invoicePayments).
+ */
+export const invoicePayments = mysqlTable("invoice_payments", {
+  id: int("id").primaryKey().autoincrement(),
+  invoiceId: int("invoiceId").notNull().references(() => invoices.id, { onDelete: "cascade" }),
+  userId: int("userId").notNull().references(() => users.id),
+  amount: decimal("amount", { precision: 12, scale: 2 }).notNull(),
+  /** Date the money was received */
+  paidAt: timestamp("paidAt").notNull(),
+  method: mysqlEnum("method", ["bank_transfer", "cash", "card", "paypal", "direct_debit", "other"]).notNull().default("bank_transfer"),
+  /** Bank reference, receipt number or similar */
+  reference: varchar("reference", { length: 255 }),
+  note: text("note"),
+  /** Only "mark_as_paid" payments are removed again by "Mark as not paid" */
+  source: mysqlEnum("source", ["manual", "mark_as_paid", "bank_import"]).notNull().default("manual"),
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+}, (table) => [
+  index("invoice_payments_invoiceId_idx").on(table.invoiceId),
+  index("invoice_payments_userId_paidAt_idx").on(table.userId, table.paidAt),
+]);
+
+export type InvoicePayment = typeof invoicePayments.$inferSelect;
+export type InsertInvoicePayment = typeof invoicePayments.$inferInsert;
+
+/**
+ * Quotes table - offers (Angebote) sent before a job; accepted quotes are converted into draft invoices
+ */
+export const quotes = mysqlTable("quotes", {
+  id: int("id").primaryKey().autoincrement(),
+  userId: int("userId").notNull().references(() => users.id),
+  clientId: int("clientId").references(() => contacts.id, { onDelete: "set null" }),
+  projectId: int("projectId").references(() => projects.id, { onDelete: "set null" }),
+  quoteNumber: varchar("quoteNumber", { length: 50 }).notNull(),
+  quoteYear: int("quoteYear").notNull(),
+  quoteCounter: int("quoteCounter").notNull(),
+  /** Stored lifecycle status; "expired" is derived from validUntil for sent quotes */
+  status: mysqlEnum("status", ["draft", "sent", "accepted", "declined"]).notNull().default("draft"),
+  issueDate: timestamp("issueDate").defaultNow().notNull(),
+  /** Offer is binding until this date (Gültig bis) */
+  validUntil: timestamp("validUntil"),
+  notes: text("notes"),
+  terms: text("terms"),
+  referenceNumber: varchar("referenceNumber", { length: 100 }),
+  subtotal: decimal("subtotal", { precision: 12, scale: 2 }).notNull().default("0.00"),
+  vatAmount: decimal("vatAmount", { precision: 12, scale: 2 }).notNull().default("0.00"),
+  total: decimal("total", { precision: 12, scale: 2 }).notNull().default("0.00"),
+  sentAt: timestamp("sentAt"),
+  acceptedAt: timestamp("acceptedAt"),
+  declinedAt: timestamp("declinedAt"),
+  /** Draft invoice created from this quote (null until converted) */
+  convertedInvoiceId: int("convertedInvoiceId").references(() => invoices.id, { onDelete: "set null" }),
+  convertedAt: timestamp("convertedAt"),
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+  updatedAt: timestamp("updatedAt").defaultNow().onUpdateNow().notNull(),
+}, (table) => [
+  uniqueIndex("quote_number_per_user").on(table.userId, table.quoteNumber),
+  index("quotes_userId_status_idx").on(table.userId, table.status),
+  index("quotes_clientId_idx").on(table.clientId),
+  index("quotes_projectId_idx").on(table.projectId),
+]);
+
+export type Quote = typeof quotes.$inferSelect;
+export type InsertQuote = typeof quotes.$inferInsert;
+
+export const quoteItems = mysqlTable("quote_items", {
+  id: int("id").primaryKey().autoincrement(),
+  quoteId: int("quoteId").notNull().references(() => quotes.id, { onDelete: "cascade" }),
+  name: varchar("name", { length: 255 }).notNull(),
+  description: text("description"),
+  category: varchar("category", { length: 120 }),
+  quantity: decimal("quantity", { precision: 10, scale: 2 }).notNull().default("0.00"),
+  unitPrice: decimal("unitPrice", { precision: 12, scale: 2 }).notNull().default("0.00"),
+  currency: varchar("currency", { length: 3 }).notNull().default("EUR"),
+  lineTotal: decimal("lineTotal", { precision: 12, scale: 2 }).notNull().default("0.00"),
+  vatRate: decimal("vatRate", { precision: 5, scale: 2 }),
+  vatCategory: mysqlEnum("vatCategory", ["standard", "zero", "reverse_charge", "intra_eu"]).default("standard").notNull(),
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+}, (table) => [
+  index("quote_items_quoteId_idx").on(table.quoteId),
+]);
+
+export type QuoteItem = typeof quoteItems.$inferSelect;
+export type InsertQuoteItem = typeof quoteItems.$inferInsert;
+
+/**
+ * Dunning levels - per-user settings for payment reminder, 1st and 2nd Mahnung.
+ * Levels without a row use the defaults from shared/dunning.
+ */
+export const dunningLevels = mysqlTable("dunning_levels", {
+  id: int("id").primaryKey().autoincrement(),
+  userId: int("userId").notNull().references(() => users.id, { onDelete: "cascade" }),
+  /** 1 = Zahlungserinnerung, 2 = 1. Mahnung, 3 = 2. Mahnung */
+  level: int("level").notNull(),
+  name: varchar("name", { length: 100 }).notNull(),
+  /** Days after the due date (level 1) or after the previous notice */
+  waitDays: int("waitDays").notNull(),
+  fee: decimal("fee", { precision: 10, scale: 2 }).notNull().default("0.00"),
+  /** Annual default interest in percent (null = no interest) */
+  interestRate: decimal("interestRate", { precision: 5, scale: 2 }),
+  paymentTermDays: int("paymentTermDays").notNull(),
+  text: text("text").notNull(),
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+  updatedAt: timestamp("updatedAt").defaultNow().onUpdateNow().notNull(),
+}, (table) => [
+  uniqueIndex("dunning_level_per_user").on(table.userId, table.level),
+]);
+
+export type DunningLevelRow = typeof dunningLevels.$inferSelect;
+export type InsertDunningLevelRow = typeof dunningLevels.$inferInsert;
+
+/**
+ * Dunning notices - history of reminders sent for an invoice, with the amounts printed on each notice
+ */
+export const invoiceDunnings = mysqlTable("invoice_dunnings", {
+  id: int("id").primaryKey().autoincrement(),
+  userId: int("userId").notNull().references(() => users.id),
+  invoiceId: int("invoiceId").notNull().references(() => invoices.id, { onDelete: "cascade" }),
+  level: int("level").notNull(),
+  /** Level name at the time of issue (e.g. "1. Mahnung") */
+  name: varchar("name", { length: 100 }).notNull(),
+  issuedAt: timestamp("issuedAt").defaultNow().notNull(),
+  paymentDeadline: timestamp("paymentDeadline").notNull(),
+  outstandingAmount: decimal("outstandingAmount", { precision: 12, scale: 2 }).notNull(),
+  /** Fees of earlier notices carried over */
+  previousFees: decimal("previousFees", { precision: 10, scale: 2 }).notNull().default("0.00"),
+  feeAmount: decimal("feeAmount", { precision: 10, scale: 2 }).notNull().default("0.00"),
+  interestRate: decimal("interestRate", { precision: 5, scale: 2 }),
+  interestDays: int("interestDays").notNull().default(0),
+  interestAmount: decimal("interestAmount", { precision: 10, scale: 2 }).notNull().default("0.00"),
+  totalDue: decimal("totalDue", { precision: 12, scale: 2 }).notNull(),
+  text: text("text"),
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+}, (table) => [
+  uniqueIndex("invoice_dunning_level").on(table.invoiceId, table.level),
+  index("invoice_dunnings_userId_idx").on(table.userId),
+]);
+
+export type InvoiceDunning = typeof invoiceDunnings.$inferSelect;
+export type InsertInvoiceDunning = typeof invoiceDunnings.$inferInsert;
+
+/**
+ * Recurring invoices - templates that create an invoice every interval (see shared/recurringInvoice)
+ */
+export const recurringInvoices = mysqlTable("recurring_invoices", {
+  id: int("id").primaryKey().autoincrement(),
+  userId: int("userId").notNull().references(() => users.id),
+  clientId: int("clientId").references(() => contacts.id, { onDelete: "set null" }),
+  projectId: int("projectId").references(() => projects.id, { onDelete: "set null" }),
+  name: varchar("name", { length: 255 }).notNull(),
+  interval: mysqlEnum("interval", ["monthly", "quarterly", "half_yearly", "yearly"]).notNull().default("monthly"),
+  startDate: timestamp("startDate").notNull(),
+  /** Last day a run may happen on (null = open-ended) */
+  endDate: timestamp("endDate"),
+  /** Pending run; null once the end date is passed */
+  nextRunDate: timestamp("nextRunDate"),
+  lastRunAt: timestamp("lastRunAt"),
+  /** Issue generated invoices right away instead of leaving them as drafts */
+  autoIssue: boolean("autoIssue").notNull().default(false),
+  paymentTermDays: int("paymentTermDays").notNull().default(14),
+  notes: text("notes"),
+  terms: text("terms"),
+  referenceNumber: varchar("referenceNumber", { length: 100 }),
+  subtotal: decimal("subtotal", { precision: 12, scale: 2 }).notNull().default("0.00"),
+  vatAmount: decimal("vatAmount", { precision: 12, scale: 2 }).notNull().default("0.00"),
+  total: decimal("total", { precision: 12, scale: 2 }).notNull().default("0.00"),
+  isActive: boolean("isActive").notNull().default(true),
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+  updatedAt: timestamp("updatedAt").defaultNow().onUpdateNow().notNull(),
+}, (table) => [
+  index("recurring_invoices_userId_idx").on(table.userId),
+  index("recurring_invoices_nextRunDate_idx").on(table.isActive, table.nextRunDate),
+]);
+
+export type RecurringInvoice = typeof recurringInvoices.$inferSelect;
+export type InsertRecurringInvoice = typeof recurringInvoices.$inferInsert;
+
+export const recurringInvoiceItems = mysqlTable("recurring_invoice_items", {
+  id: int("id").primaryKey().autoincrement(),
+  recurringInvoiceId: int("recurringInvoiceId").notNull().references(() => recurringInvoices.id, { onDelete: "cascade" }),
+  name: varchar("name", { length: 255 }).notNull(),
+  description: text("description"),
+  category: varchar("category", { length: 120 }),
+  quantity: decimal("quantity", { precision: 10, scale: 2 }).notNull().default("0.00"),
+  unitPrice: decimal("unitPrice", { precision: 12, scale: 2 }).notNull().default("0.00"),
+  currency: varchar("currency", { length: 3 }).notNull().default("EUR"),
+  lineTotal: decimal("lineTotal", { precision: 12, scale: 2 }).notNull().default("0.00"),
+  vatRate: decimal("vatRate", { precision: 5, scale: 2 }),
+  vatCategory: mysqlEnum("vatCategory", ["standard", "zero", "reverse_charge", "intra_eu"]).default("standard").notNull(),
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+}, (table) => [
+  index("recurring_invoice_items_recurringInvoiceId_idx").on(table.recurringInvoiceId),
+]);
+
+export type RecurringInvoiceItem = typeof recurringInvoiceItems.$inferSelect;
+export type InsertRecurringInvoiceItem = typeof recurringInvoiceItems.$inferInsert;
+
+/**
+ * Recurring invoice runs - one row per template and run date. The unique key
+ * makes sure a run creates at most one invoice, even with several servers.
+ */
+export const recurringInvoiceRuns = mysqlTable("recurring_invoice_runs", {
+  id: int("id").primaryKey().autoincrement(),
+  recurringInvoiceId: int("recurringInvoiceId").notNull().references(() => recurringInvoices.id, { onDelete: "cascade" }),
+  userId: int("userId").notNull().references(() => users.id),
+  invoiceId: int("invoiceId").references(() => invoices.id, { onDelete: "set null" }),
+  runDate: timestamp("runDate").notNull(),
+  /** pending while the invoice is created; failed and abandoned pending runs are retried by the scheduler */
+  status: mysqlEnum("status", ["pending", "created", "issued", "failed"]).notNull().default("pending"),
+  /** Why the run failed or why auto-issue was skipped */
+  error: text("error"),
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+  updatedAt: timestamp("updatedAt").defaultNow().onUpdateNow().notNull(),
+}, (table) => [
+  uniqueIndex("recurring_invoice_run_date").on(table.recurringInvoiceId, table.runDate),
+  index("recurring_invoice_runs_userId_idx").on(table.userId),
+]);
+
+export type RecurringInvoiceRun = typeof recurringInvoiceRuns.$inferSelect;
+export type InsertRecurringInvoiceRun = typeof recurringInvoiceRuns.$inferInsert;
+
 /**
  * Notes table - stores user notes
  */
@@ -552,6 +914,14 @@ export const companySettings = mysqlTable("company_settings", {
   logoHeight: int("logoHeight"),
   invoiceAccentColor: varchar("invoiceAccentColor", { length: 7 }).default("#00ff88"),
   invoiceAccountHolderName: varchar("invoiceAccountHolderName", { length: 255 }),
+  /** DATEV export: chart of accounts ('SKR03' | 'SKR04') */
+  datevChartOfAccounts: varchar("datevChartOfAccounts", { length: 5 }).default("SKR03").notNull(),
+  /** DATEV Beraternummer of the tax advisor */
+  datevConsultantNumber: varchar("datevConsultantNumber", { length: 7 }),
+  /** DATEV Mandantennummer */
+  datevClientNumber: varchar("datevClientNumber", { length: 5 }),
+  /** Account overrides per expense category / revenue type (see shared/datev) */
+  datevAccounts: json("datevAccounts").$type<Record<string, string> | null>(),
   createdAt: timestamp("createdAt").defaultNow().notNull(),
   updatedAt: timestamp("updatedAt").defaultNow().onUpdateNow().notNull(),
 });
@@ -596,6 +966,15 @@ export const projectCheckins = mysqlTable("project_checkins", {
   checkOutTime: timestamp("checkOutTime"),
   latitude: decimal("latitude", { precision: 10, scale: 8 }),
   longitude: decimal("longitude", { precision: 11, scale: 8 }),
+  /** Distance of the check-in position to the project site in meters */
+  checkInDistanceMeters: int("checkInDistanceMeters"),
+  checkOutLatitude: decimal("checkOutLatitude", { precision: 10, scale: 8 }),
+  checkOutLongitude: decimal("checkOutLongitude", { precision: 11, scale: 8 }),
+  checkOutDistanceMeters: int("checkOutDistanceMeters"),
+  /** Checked in or out clearly outside the project's geofence */
+  outsideGeofence: boolean("outsideGeofence").default(false).notNull(),
+  /** Checked in or out at a project site without sending a position */
+  locationMissing: boolean("locationMissing").default(false).notNull(),
   notes: text("notes"),
 }, (table) => [
   index("project_checkins_projectId_idx").on(table.projectId),
@@ -606,6 +985,59 @@ export const projectCheckins = mysqlTable("project_checkins", {
 export type ProjectCheckin = typeof projectCheckins.$inferSelect;
 export type InsertProjectCheckin = typeof projectCheckins.$inferInsert;
 
+/**
+ * Time entries - worked time per user and project, taken over from a
+ * check-in on check-out or entered by hand (see shared/timesheets).
+ * Billed entries point to the invoice they were billed on.
+ */
+export const timeEntries = mysqlTable("time_entries", {
+  id: int("id").primaryKey().autoincrement(),
+  userId: int("userId").notNull().references(() => users.id),
+  projectId: int("projectId").notNull().references(() => projects.id, { onDelete: "cascade" }),
+  jobId: int("jobId").references(() => projectJobs.id, { onDelete: "set null" }),
+  checkinId: int("checkinId").references(() => projectCheckins.id, { onDelete: "set null" }),
+  /** Monday of the entry's week (YYYY-MM-DD), the timesheet it belongs to */
+  weekStart: varchar("weekStart", { length: 10 }).notNull(),
+  startTime: timestamp("startTime").notNull(),
+  endTime: timestamp("endTime").notNull(),
+  breakMinutes: int("breakMinutes").notNull().default(0),
+  description: text("description"),
+  billable: boolean("billable").notNull().default(true),
+  invoiceId: int("invoiceId").references(() => invoices.id, { onDelete: "set null" }),
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+  updatedAt: timestamp("updatedAt").defaultNow().onUpdateNow().notNull(),
+}, (table) => [
+  uniqueIndex("time_entries_checkinId").on(table.checkinId),
+  index("time_entries_userId_weekStart_idx").on(table.userId, table.weekStart),
+  index("time_entries_projectId_idx").on(table.projectId),
+  index("time_entries_invoiceId_idx").on(table.invoiceId),
+]);
+
+export type TimeEntry = typeof timeEntries.$inferSelect;
+export type InsertTimeEntry = typeof timeEntries.$inferInsert;
+
+/**
+ * Timesheets - approval state of one user's week; a week without a row is open
+ */
+export const timesheets = mysqlTable("timesheets", {
+  id: int("id").primaryKey().autoincrement(),
+  userId: int("userId").notNull().references(() => users.id),
+  weekStart: varchar("weekStart", { length: 10 }).notNull(),
+  status: mysqlEnum("status", ["open", "submitted", "approved", "rejected"]).notNull().default("open"),
+  submittedAt: timestamp("submittedAt"),
+  reviewedByUserId: int("reviewedByUserId").references(() => users.id, { onDelete: "set null" }),
+  reviewedAt: timestamp("reviewedAt"),
+  rejectionReason: text("rejectionReason"),
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+  updatedAt: timestamp("updatedAt").defaultNow().onUpdateNow().notNull(),
+}, (table) => [
+  uniqueIndex("timesheets_userId_weekStart").on(table.userId, table.weekStart),
+  index("timesheets_status_idx").on(table.status),
+]);
+
+export type Timesheet = typeof timesheets.$inferSelect;
+export type InsertTimesheet = typeof timesheets.$inferInsert;
+
 // =============================================================================
 // INSPECTION MODULE TABLES
 // =============================================================================
@@ -747,7 +1179,15 @@ export const expenses = mysqlTable("expenses", {
   expenseDate: timestamp("expenseDate").notNull(),
   grossAmountCents: int("grossAmountCents").notNull(),
   currency: varchar("currency", { length: 3 }).notNull().default("EUR"),
-  vatMode: mysqlEnum("vatMode", ["none", "german", "foreign"]).notNull().default("none"),
+  /** Gross amount in EUR; null while a foreign-currency expense has no rate */
+  grossAmountEurCents: int("grossAmountEurCents"),
+  /** Units of `currency` per 1 EUR (ECB convention), null for EUR expenses */
+  exchangeRate: decimal("exchangeRate", { precision: 18, scale: 6 }),
+  /** Day of the ECB rate used (YYYY-MM-DD), or the day a manual rate was set */
+  exchangeRateDate: varchar("exchangeRateDate", { length: 10 }),
+  exchangeRateSource: mysqlEnum("exchangeRateSource", ["ecb", "manual"]),
+  /** reverse_charge: § 13b UStG, the receipt is net and the VAT is owed and deducted at vatRate */
+  vatMode: mysqlEnum("vatMode", ["none", "german", "foreign", "reverse_charge"]).notNull().default("none"),
   vatRate: mysqlEnum("vatRate", ["0", "7", "19"]),
   vatAmountCents: int("vatAmountCents"),
   businessUsePct: int("businessUsePct").notNull().default(100),
@@ -770,12 +1210,23 @@ export const expenses = mysqlTable("expenses", {
     "taxes_fees",
     "other",
   ]),
+  /** Job costing: project (and optionally job) the expense was incurred for */
+  projectId: int("projectId").references(() => projects.id, { onDelete: "set null" }),
+  jobId: int("jobId").references(() => projectJobs.id, { onDelete: "set null" }),
   reviewedByUserId: int("reviewedByUserId").references(() => users.id, { onDelete: "no action" }),
   reviewedAt: timestamp("reviewedAt"),
+  /** Approval workflow (see shared/expenseApproval): reviewer the expense was submitted to */
+  approvalStatus: mysqlEnum("approvalStatus", ["none", "submitted", "approved", "rejected"]).notNull().default("none"),
+  approverUserId: int("approverUserId").references(() => users.id, { onDelete: "set null" }),
+  submittedAt: timestamp("submittedAt"),
+  rejectionReason: text("rejectionReason"),
   voidedByUserId: int("voidedByUserId").references(() => users.id, { onDelete: "no action" }),
   voidedAt: timestamp("voidedAt"),
   voidReason: mysqlEnum("voidReason", ["duplicate", "personal", "mistake", "wrong_document", "other"]),
   voidNote: text("voidNote"),
+  /** Suspected original when a receipt upload looked like a duplicate; cleared when dismissed */
+  duplicateOfExpenseId: int("duplicateOfExpenseId").references((): AnyMySqlColumn => expenses.id, { onDelete: "set null" }),
+  duplicateReason: varchar("duplicateReason", { length: 255 }),
   paymentStatus: mysqlEnum("paymentStatus", ["paid", "unpaid"]).default("unpaid").notNull(),
   paymentDate: timestamp("paymentDate"),
   paymentMethod: mysqlEnum("paymentMethod", ["cash", "bank_transfer", "card", "online"]),
@@ -787,6 +1238,8 @@ export const expenses = mysqlTable("expenses", {
   index("expenses_createdBy_status_expenseDate_idx").on(table.createdBy, table.status, table.expenseDate),
   index("expenses_createdBy_expenseDate_idx").on(table.createdBy, table.expenseDate),
   index("expenses_updatedByUserId_idx").on(table.updatedByUserId),
+  index("expenses_projectId_idx").on(table.projectId),
+  index("expenses_approverUserId_approvalStatus_idx").on(table.approverUserId, table.approvalStatus),
 ]);
 
 export type Expense = typeof expenses.$inferSelect;
@@ -802,10 +1255,297 @@ export const expenseFiles = mysqlTable("expense_files", {
   mimeType: varchar("mimeType", { length: 128 }).notNull(),
   originalFilename: varchar("originalFilename", { length: 255 }).notNull(),
   fileSize: int("fileSize").notNull(),
+  /** SHA-256 of the file content, hex */
+  contentHash: varchar("contentHash", { length: 64 }),
+  /** 64-bit difference hash of images, hex; similar scans have close hashes */
+  perceptualHash: varchar("perceptualHash", { length: 16 }),
   createdAt: timestamp("createdAt").defaultNow().notNull(),
 }, (table) => [
   index("expense_files_expenseId_idx").on(table.expenseId),
+  index("expense_files_contentHash_idx").on(table.contentHash),
 ]);
 
 export type ExpenseFile = typeof expenseFiles.$inferSelect;
 export type InsertExpenseFile = typeof expenseFiles.$inferInsert;
+
+/**
+ * Expense events - audit trail of status and approval changes
+ */
+export const expenseEvents = mysqlTable("expense_events", {
+  id: int("id").primaryKey().autoincrement(),
+  expenseId: int("expenseId").notNull().references(() => expenses.id, { onDelete: "cascade" }),
+  userId: int("userId").notNull().references(() => users.id),
+  action: mysqlEnum("action", ["submitted", "reviewer_changed", "approved", "rejected", "status_changed"]).notNull(),
+  fromStatus: mysqlEnum("fromStatus", ["needs_review", "in_order", "void"]).notNull(),
+  toStatus: mysqlEnum("toStatus", ["needs_review", "in_order", "void"]).notNull(),
+  /** Reviewer for submitted and reviewer_changed */
+  approverUserId: int("approverUserId").references(() => users.id, { onDelete: "set null" }),
+  /** Rejection reason, void note or why the status was reset */
+  note: text("note"),
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+}, (table) => [
+  index("expense_events_expenseId_idx").on(table.expenseId),
+]);
+
+export type ExpenseEvent = typeof expenseEvents.$inferSelect;
+export type InsertExpenseEvent = typeof expenseEvents.$inferInsert;
+
+/**
+ * Expense comments - discussion between owner and reviewer; replies point to
+ * the comment they answer
+ */
+export const expenseComments = mysqlTable("expense_comments", {
+  id: int("id").primaryKey().autoincrement(),
+  expenseId: int("expenseId").notNull().references(() => expenses.id, { onDelete: "cascade" }),
+  parentId: int("parentId").references((): AnyMySqlColumn => expenseComments.id, { onDelete: "cascade" }),
+  userId: int("userId").notNull().references(() => users.id),
+  content: text("content").notNull(),
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+}, (table) => [
+  index("expense_comments_expenseId_idx").on(table.expenseId),
+]);
+
+export type ExpenseComment = typeof expenseComments.$inferSelect;
+export type InsertExpenseComment = typeof expenseComments.$inferInsert;
+
+/**
+ * Expense splits - lines of one receipt with their own category, VAT rate,
+ * project and business use. When present they add up to the expense's
+ * grossAmountCents and replace its accounting fields in reports and exports.
+ */
+export const expenseSplits = mysqlTable("expense_splits", {
+  id: int("id").primaryKey().autoincrement(),
+  expenseId: int("expenseId").notNull().references(() => expenses.id, { onDelete: "cascade" }),
+  position: int("position").notNull(),
+  grossAmountCents: int("grossAmountCents").notNull(),
+  category: mysqlEnum("category", [
+    "office_supplies",
+    "travel",
+    "meals",
+    "vehicle",
+    "equipment",
+    "software",
+    "insurance",
+    "marketing",
+    "utilities",
+    "rent",
+    "professional_services",
+    "shipping",
+    "training",
+    "subscriptions",
+    "repairs",
+    "taxes_fees",
+    "other",
+  ]).notNull(),
+  vatRate: mysqlEnum("vatRate", ["0", "7", "19"]),
+  projectId: int("projectId").references(() => projects.id, { onDelete: "set null" }),
+  businessUsePct: int("businessUsePct").notNull().default(100),
+  description: varchar("description", { length: 255 }),
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+}, (table) => [
+  index("expense_splits_expenseId_idx").on(table.expenseId),
+  index("expense_splits_projectId_idx").on(table.projectId),
+]);
+
+export type ExpenseSplit = typeof expenseSplits.$inferSelect;
+export type InsertExpenseSplit = typeof expenseSplits.$inferInsert;
+
+/**
+ * Bank imports - one row per uploaded bank statement file
+ */
+export const bankImports = mysqlTable("bank_imports", {
+  id: int("id").primaryKey().autoincrement(),
+  userId: int("userId").notNull().references(() => users.id),
+  fileName: varchar("fileName", { length: 255 }).notNull(),
+  format: mysqlEnum("format", ["camt053", "mt940", "csv"]).notNull(),
+  accountIban: varchar("accountIban", { length: 34 }),
+  /** Transactions in the file, including those skipped as already imported */
+  transactionCount: int("transactionCount").notNull().default(0),
+  importedCount: int("importedCount").notNull().default(0),
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+}, (table) => [
+  index("bank_imports_userId_idx").on(table.userId),
+]);
+
+export type BankImport = typeof bankImports.$inferSelect;
+export type InsertBankImport = typeof bankImports.$inferInsert;
+
+/**
+ * Bank transactions - imported statement lines and their reconciliation.
+ * A transaction is matched to at most one invoice payment or one expense.
+ */
+export const bankTransactions = mysqlTable("bank_transactions", {
+  id: int("id").primaryKey().autoincrement(),
+  importId: int("importId").notNull().references(() => bankImports.id, { onDelete: "cascade" }),
+  userId: int("userId").notNull().references(() => users.id),
+  bookingDate: timestamp("bookingDate").notNull(),
+  valueDate: timestamp("valueDate"),
+  /** Positive for incoming, negative for outgoing payments */
+  amount: decimal("amount", { precision: 12, scale: 2 }).notNull(),
+  currency: varchar("currency", { length: 3 }).notNull().default("EUR"),
+  counterpartyName: varchar("counterpartyName", { length: 255 }),
+  counterpartyIban: varchar("counterpartyIban", { length: 34 }),
+  purpose: text("purpose"),
+  reference: varchar("reference", { length: 255 }),
+  /** Hash of the transaction details; skips duplicates from overlapping statements */
+  fingerprint: varchar("fingerprint", { length: 64 }).notNull(),
+  status: mysqlEnum("status", ["unmatched", "matched", "ignored"]).notNull().default("unmatched"),
+  matchedInvoiceId: int("matchedInvoiceId").references(() => invoices.id, { onDelete: "set null" }),
+  /** Ledger entry booked when the match was confirmed */
+  invoicePaymentId: int("invoicePaymentId").references(() => invoicePayments.id, { onDelete: "set null" }),
+  matchedExpenseId: int("matchedExpenseId").references(() => expenses.id, { onDelete: "set null" }),
+  matchedAt: timestamp("matchedAt"),
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+  updatedAt: timestamp("updatedAt").defaultNow().onUpdateNow().notNull(),
+}, (table) => [
+  uniqueIndex("bank_transactions_user_fingerprint").on(table.userId, table.fingerprint),
+  index("bank_transactions_importId_idx").on(table.importId),
+  index("bank_transactions_userId_status_idx").on(table.userId, table.status),
+]);
+
+export type BankTransaction = typeof bankTransactions.$inferSelect;
+export type InsertBankTransaction = typeof bankTransactions.$inferInsert;
+
+// =============================================================================
+// MILEAGE LOG TABLES
+// =============================================================================
+
+/**
+ * Vehicles - each vehicle keeps its own mileage log
+ */
+export const vehicles = mysqlTable("vehicles", {
+  id: int("id").primaryKey().autoincrement(),
+  userId: int("userId").notNull().references(() => users.id),
+  name: varchar("name", { length: 255 }).notNull(),
+  licensePlate: varchar("licensePlate", { length: 20 }),
+  kind: mysqlEnum("kind", ["car", "motorcycle", "other"]).notNull().default("car"),
+  /** Reimbursement per business kilometre (see shared/mileage STATUTORY_MILEAGE_RATES) */
+  ratePerKm: decimal("ratePerKm", { precision: 4, scale: 2 }).notNull().default("0.30"),
+  /** Vehicles with trips are archived instead of deleted */
+  archivedAt: timestamp("archivedAt"),
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+  updatedAt: timestamp("updatedAt").defaultNow().onUpdateNow().notNull(),
+}, (table) => [
+  index("vehicles_userId_idx").on(table.userId),
+]);
+
+export type Vehicle = typeof vehicles.$inferSelect;
+export type InsertVehicle = typeof vehicles.$inferInsert;
+
+/**
+ * Mileage trips (Fahrtenbuch) - append-only and hash-chained per vehicle.
+ * Rows are never updated; a correction is a new trip with replacesTripId.
+ * projectId has no foreign key so deleting a project can't alter the log.
+ */
+export const mileageTrips = mysqlTable("mileage_trips", {
+  id: int("id").primaryKey().autoincrement(),
+  userId: int("userId").notNull().references(() => users.id),
+  vehicleId: int("vehicleId").notNull().references(() => vehicles.id),
+  sequence: int("sequence").notNull(),
+  tripDate: timestamp("tripDate").notNull(),
+  startAddress: varchar("startAddress", { length: 500 }).notNull(),
+  endAddress: varchar("endAddress", { length: 500 }).notNull(),
+  distanceKm: decimal("distanceKm", { precision: 8, scale: 1 }).notNull(),
+  distanceSource: mysqlEnum("distanceSource", ["manual", "odometer", "straight_line", "route"]).notNull(),
+  odometerStart: int("odometerStart"),
+  odometerEnd: int("odometerEnd"),
+  tripType: mysqlEnum("tripType", ["business", "commute", "private"]).notNull(),
+  purpose: varchar("purpose", { length: 500 }).notNull(),
+  businessPartner: varchar("businessPartner", { length: 255 }),
+  projectId: int("projectId"),
+  ratePerKm: decimal("ratePerKm", { precision: 4, scale: 2 }).notNull(),
+  /** Expense created for business trips */
+  expenseId: int("expenseId").references(() => expenses.id, { onDelete: "set null" }),
+  replacesTripId: int("replacesTripId"),
+  recordedAt: timestamp("recordedAt").notNull(),
+  previousHash: varchar("previousHash", { length: 64 }).notNull(),
+  hash: varchar("hash", { length: 64 }).notNull(),
+}, (table) => [
+  uniqueIndex("mileage_trips_vehicle_sequence").on(table.vehicleId, table.sequence),
+  index("mileage_trips_userId_tripDate_idx").on(table.userId, table.tripDate),
+  index("mileage_trips_projectId_idx").on(table.projectId),
+]);
+
+export type MileageTrip = typeof mileageTrips.$inferSelect;
+export type InsertMileageTrip = typeof mileageTrips.$inferInsert;
+
+// =============================================================================
+// PER DIEM TABLES
+// =============================================================================
+
+export type PerDiemClaimDaySnapshot = {
+  date: string;
+  kind: "single" | "arrival" | "departure" | "full";
+  hours: number;
+  meals: { breakfast: boolean; lunch: boolean; dinner: boolean };
+  amountCents: number;
+};
+
+/**
+ * Per diem claims - meal allowances proposed as `travel` expenses for an
+ * absence derived from project check-ins. One claim per absence, keyed by its
+ * first check-in; deleting the expense releases the absence again.
+ */
+export const perDiemClaims = mysqlTable("per_diem_claims", {
+  id: int("id").primaryKey().autoincrement(),
+  userId: int("userId").notNull().references(() => users.id),
+  startsAt: timestamp("startsAt").notNull(),
+  endsAt: timestamp("endsAt").notNull(),
+  /** Days with their provided meals and amounts, as calculated when proposed */
+  days: json("days").$type<PerDiemClaimDaySnapshot[]>().notNull(),
+  amountCents: int("amountCents").notNull(),
+  expenseId: int("expenseId").notNull().references(() => expenses.id, { onDelete: "cascade" }),
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+}, (table) => [
+  uniqueIndex("per_diem_claims_user_startsAt").on(table.userId, table.startsAt),
+  index("per_diem_claims_expenseId_idx").on(table.expenseId),
+]);
+
+export type PerDiemClaimRecord = typeof perDiemClaims.$inferSelect;
+export type InsertPerDiemClaim = typeof perDiemClaims.$inferInsert;
+
+/**
+ * Subscriptions - recurring supplier charges detected from expenses
+ * supplierKey: normalized supplier name the charges are grouped by
+ */
+export const subscriptions = mysqlTable("subscriptions", {
+  id: int("id").primaryKey().autoincrement(),
+  userId: int("userId").notNull().references(() => users.id),
+  supplierKey: varchar("supplierKey", { length: 255 }).notNull(),
+  supplierName: varchar("supplierName", { length: 255 }).notNull(),
+  cadence: mysqlEnum("cadence", ["monthly", "quarterly", "yearly"]).notNull(),
+  expectedAmountCents: int("expectedAmountCents").notNull(),
+  currency: varchar("currency", { length: 3 }).notNull().default("EUR"),
+  firstChargedAt: timestamp("firstChargedAt").notNull(),
+  lastChargedAt: timestamp("lastChargedAt").notNull(),
+  lastExpenseId: int("lastExpenseId").references(() => expenses.id, { onDelete: "set null" }),
+  /** Cancelled subscriptions are kept so detection doesn't bring them back */
+  status: mysqlEnum("status", ["active", "cancelled"]).default("active").notNull(),
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+  updatedAt: timestamp("updatedAt").defaultNow().onUpdateNow().notNull(),
+}, (table) => [
+  uniqueIndex("subscriptions_user_supplierKey").on(table.userId, table.supplierKey),
+]);
+
+export type SubscriptionRecord = typeof subscriptions.$inferSelect;
+export type InsertSubscription = typeof subscriptions.$inferInsert;
+
+/**
+ * ECB euro reference rates, imported from the published CSV/XML files.
+ * Shared by all users; one row per currency and day.
+ */
+export const exchangeRates = mysqlTable("exchange_rates", {
+  id: int("id").primaryKey().autoincrement(),
+  currency: varchar("currency", { length: 3 }).notNull(),
+  /** YYYY-MM-DD */
+  rateDate: varchar("rateDate", { length: 10 }).notNull(),
+  /** Units of the currency per 1 EUR */
+  rate: decimal("rate", { precision: 18, scale: 6 }).notNull(),
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+  updatedAt: timestamp("updatedAt").defaultNow().onUpdateNow().notNull(),
+}, (table) => [
+  uniqueIndex("exchange_rates_currency_rateDate").on(table.currency, table.rateDate),
+]);
+
+export type ExchangeRate = typeof exchangeRates.$inferSelect;
+export type InsertExchangeRate = typeof exchangeRates.$inferInsert;
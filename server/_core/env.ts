@@ -60,6 +60,13 @@ export const ENV = {
   
   // OCR / Document Extraction (uses mistral-ocr-latest by default)
   ocrExtractionModel: process.env.OCR_EXTRACTION_MODEL || "mistral-ocr-latest",
+  // Local OCR fallback (tesseract): "auto" | "mistral" | "local", and a directory
+  // with *.traineddata for offline use (downloaded from the tesseract CDN without it)
+  ocrBackend: process.env.OCR_BACKEND || "auto",
+  tesseractLangPath: process.env.TESSERACT_LANG_PATH || "",
+
+  // Mileage log (OPTIONAL - driving distances; straight-line distances without it)
+  osrmUrl: process.env.OSRM_URL || "",
 };
 
 // =============================================================================
@@ -11,12 +11,16 @@ import { createContext } from "./context";
 import { serveStatic, setupVite } from "./vite";
 import { storageGet } from "../storage";
 import { supabaseAuth } from "./supabase";
+import { getAccountAccess, getProjectAccess, getRecordAccess } from "../services/workspaceAccess";
+import { satisfiesAccess } from "../../shared/workspaces";
+import { HttpError } from "@shared/_core/errors";
 import crypto from "crypto";
 import { exec } from "child_process";
 import path from "path";
 import { fileURLToPath } from "url";
 import pinoHttp from "pino-http";
 import { logger, generateRequestId } from "./logger.js";
+import { startRecurringInvoiceScheduler, stopRecurringInvoiceScheduler } from "../services/recurringInvoices";
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
@@ -160,11 +164,11 @@ async function startServer() {
       const { renderPDF } = await import("../services/pdfService");
 
       const invoice = await getInvoiceById(invoiceId);
-      if (!invoice || invoice.userId !== user.id) {
+      if (!invoice || !satisfiesAccess(await getRecordAccess(user, "invoices", invoice.userId), "view")) {
         return res.status(404).json({ error: "Invoice not found" });
       }
 
-      const companySettings = await getCompanySettingsByUserId(user.id);
+      const companySettings = await getCompanySettingsByUserId(invoice.userId);
       if (!companySettings) {
         return res.status(500).json({ error: "Company settings not found" });
       }
@@ -180,8 +184,10 @@ async function startServer() {
             quantity: Number(item.quantity),
             unitPrice: Number(item.unitPrice),
             total: Number(item.lineTotal),
+            vatRate: item.vatRate === null ? null : Number(item.vatRate),
+            vatCategory: item.vatCategory,
           }))
-        : (invoice.items as Array<{
+        : (invoice.items as unknown as Array<{
             description: string;
             quantity: number;
             unitPrice: number;
@@ -190,8 +196,9 @@ async function startServer() {
 
       // Get client contact if linked
       let client = null;
-      if (invoice.contactId || invoice.clientId) {
-        const contact = await getContactById(invoice.contactId || invoice.clientId);
+      const contactId = invoice.contactId || invoice.clientId;
+      if (contactId) {
+        const contact = await getContactById(contactId);
         if (contact) {
           client = {
             name: contact.name,
@@ -220,11 +227,18 @@ async function startServer() {
         servicePeriodEnd: invoice.servicePeriodEnd || undefined,
       });
 
-      const pdfBuffer = await renderPDF(html, {
+      let pdfBuffer = await renderPDF(html, {
         displayHeaderFooter: true,
         headerTemplate: '<div></div>',
         footerTemplate,
       });
+
+      // Issued invoices are delivered as ZUGFeRD/Factur-X hybrid (PDF/A-3 with embedded CII)
+      if (!isPreview && invoice.source === "created" && invoice.sentAt) {
+        const { createZugferdPdf } = await import("../services/einvoiceService");
+        const zugferd = await createZugferdPdf(pdfBuffer, invoice, companySettings);
+        pdfBuffer = zugferd.pdf;
+      }
       const filename = `invoice-${invoiceNumber}.pdf`;
 
       res.setHeader("Content-Type", "application/pdf");
@@ -262,11 +276,11 @@ async function startServer() {
       const { generateInvoiceHTML } = await import("../templates/invoice");
 
       const invoice = await getInvoiceById(invoiceId);
-      if (!invoice || invoice.userId !== user.id) {
+      if (!invoice || !satisfiesAccess(await getRecordAccess(user, "invoices", invoice.userId), "view")) {
         return res.status(404).json({ error: "Invoice not found" });
       }
 
-      const companySettings = await getCompanySettingsByUserId(user.id);
+      const companySettings = await getCompanySettingsByUserId(invoice.userId);
       if (!companySettings) {
         return res.status(500).json({ error: "Company settings not found" });
       }
@@ -282,8 +296,10 @@ async function startServer() {
             quantity: Number(item.quantity),
             unitPrice: Number(item.unitPrice),
             total: Number(item.lineTotal),
+            vatRate: item.vatRate === null ? null : Number(item.vatRate),
+            vatCategory: item.vatCategory,
           }))
-        : (invoice.items as Array<{
+        : (invoice.items as unknown as Array<{
             description: string;
             quantity: number;
             unitPrice: number;
@@ -292,8 +308,9 @@ async function startServer() {
 
       // Get client contact if linked
       let client = null;
-      if (invoice.contactId || invoice.clientId) {
-        const contact = await getContactById(invoice.contactId || invoice.clientId);
+      const contactId = invoice.contactId || invoice.clientId;
+      if (contactId) {
+        const contact = await getContactById(contactId);
         if (contact) {
           client = {
             name: contact.name,
@@ -444,6 +461,7 @@ async function startServer() {
       }
 
       // Calculate totals
+      const { calculateInvoiceTotals } = await import("../../shared/invoiceVat");
       const normalizedItems = items.map((item: any) => {
         const quantity = Number(item.quantity);
         const unitPrice = Number(item.unitPrice);
@@ -453,14 +471,18 @@ async function startServer() {
           quantity,
           unitPrice,
           total: lineTotal,
+          vatRate: item.vatRate ?? null,
+          vatCategory: item.vatCategory ?? null,
         };
       });
       
-      const subtotal = normalizedItems.reduce((sum: number, item: any) => sum + item.total, 0);
-      const vatAmount = companySettings.isKleinunternehmer 
-        ? 0 
-        : subtotal * (Number(companySettings.vatRate) / 100);
-      const total = subtotal + vatAmount;
+      const { subtotal, vatAmount, total } = calculateInvoiceTotals(
+        normalizedItems.map((item: any) => ({ ...item, lineTotal: item.total })),
+        {
+          defaultRate: Number(companySettings.vatRate ?? 19),
+          isKleinunternehmer: companySettings.isKleinunternehmer,
+        }
+      );
 
       // Generate HTML
       const { html, footerTemplate } = generateInvoiceHTML({
@@ -556,8 +578,9 @@ async function startServer() {
 
       // Get client contact if linked
       let client = null;
-      if (invoice.contactId || invoice.clientId) {
-        const contact = await db.getContactById(invoice.contactId || invoice.clientId);
+      const contactId = invoice.contactId || invoice.clientId;
+      if (contactId) {
+        const contact = await db.getContactById(contactId);
         if (contact) {
           client = {
             name: contact.name,
@@ -571,6 +594,8 @@ async function startServer() {
         quantity: Number(item.quantity),
         unitPrice: Number(item.unitPrice),
         total: Number(item.lineTotal ?? item.total ?? 0),
+        vatRate: item.vatRate === null || item.vatRate === undefined ? null : Number(item.vatRate),
+        vatCategory: item.vatCategory ?? null,
       }));
 
       // Generate PDF
@@ -625,6 +650,333 @@ async function startServer() {
     }
   });
 
+  app.get("/api/quotes/:id/pdf", async (req, res) => {
+    try {
+      const user = await supabaseAuth.authenticateRequest(req);
+      if (!user || !user.id) {
+        return res.status(401).json({ error: "Unauthorized" });
+      }
+      const quoteId = parseInt(req.params.id, 10);
+      const isPreview = req.query.preview === "true";
+
+      if (isNaN(quoteId)) {
+        return res.status(400).json({ error: "Invalid quote ID" });
+      }
+
+      const { getQuoteById, getCompanySettingsByUserId, getContactById } = await import("../db");
+      const { generateQuoteHTML } = await import("../templates/quote");
+      const { renderPDF } = await import("../services/pdfService");
+
+      const quote = await getQuoteById(quoteId);
+      if (!quote || !satisfiesAccess(await getRecordAccess(user, "invoices", quote.userId), "view")) {
+        return res.status(404).json({ error: "Quote not found" });
+      }
+
+      const companySettings = await getCompanySettingsByUserId(quote.userId);
+      if (!companySettings) {
+        return res.status(500).json({ error: "Company settings not found" });
+      }
+
+      let client = null;
+      if (quote.clientId) {
+        const contact = await getContactById(quote.clientId);
+        if (contact) {
+          client = {
+            name: contact.name,
+            address: contact.address,
+          };
+        }
+      }
+
+      const { html, footerTemplate } = generateQuoteHTML({
+        quoteNumber: quote.quoteNumber,
+        quoteDate: quote.issueDate ?? new Date(),
+        validUntil: quote.validUntil ?? quote.issueDate ?? new Date(),
+        company: companySettings,
+        client,
+        items: quote.items.map((item) => ({
+          description: item.name + (item.description ? ` - ${item.description}` : ""),
+          quantity: Number(item.quantity),
+          unitPrice: Number(item.unitPrice),
+          total: Number(item.lineTotal),
+          vatRate: item.vatRate === null ? null : Number(item.vatRate),
+          vatCategory: item.vatCategory,
+        })),
+        subtotal: Number(quote.subtotal ?? 0),
+        vatAmount: Number(quote.vatAmount ?? 0),
+        total: Number(quote.total ?? 0),
+        notes: quote.notes || undefined,
+        terms: quote.terms || undefined,
+        logoUrl: companySettings.logoUrl || "",
+      });
+
+      const pdfBuffer = await renderPDF(html, {
+        displayHeaderFooter: true,
+        headerTemplate: '<div></div>',
+        footerTemplate,
+      });
+      const filename = `quote-${quote.quoteNumber}.pdf`;
+
+      res.setHeader("Content-Type", "application/pdf");
+      res.setHeader("Content-Disposition", isPreview ? `inline; filename="${filename}"` : `attachment; filename="${filename}"`);
+      res.send(pdfBuffer);
+    } catch (error) {
+      if (error instanceof Error && error.message.includes("Invalid or missing session")) {
+        return res.status(401).json({ error: "Unauthorized" });
+      }
+      req.log.error({ err: error }, "Quote PDF generation failed");
+      res.status(500).json({
+        error: "Failed to generate PDF",
+        message: error instanceof Error ? error.message : "Unknown error"
+      });
+    }
+  });
+
+  app.get("/api/dunning/:id/pdf", async (req, res) => {
+    try {
+      const user = await supabaseAuth.authenticateRequest(req);
+      if (!user || !user.id) {
+        return res.status(401).json({ error: "Unauthorized" });
+      }
+      const dunningId = parseInt(req.params.id, 10);
+      const isPreview = req.query.preview === "true";
+
+      if (isNaN(dunningId)) {
+        return res.status(400).json({ error: "Invalid dunning notice ID" });
+      }
+
+      const { getDunningById, getInvoiceById, getCompanySettingsByUserId, getContactById } = await import("../db");
+      const { generateDunningHTML } = await import("../templates/dunning");
+      const { renderPDF } = await import("../services/pdfService");
+
+      const dunning = await getDunningById(dunningId);
+      if (!dunning || !satisfiesAccess(await getRecordAccess(user, "invoices", dunning.userId), "view")) {
+        return res.status(404).json({ error: "Dunning notice not found" });
+      }
+      const invoice = await getInvoiceById(dunning.invoiceId);
+      if (!invoice) {
+        return res.status(404).json({ error: "Invoice not found" });
+      }
+
+      const companySettings = await getCompanySettingsByUserId(dunning.userId);
+      if (!companySettings) {
+        return res.status(500).json({ error: "Company settings not found" });
+      }
+
+      let client = null;
+      const contactId = invoice.clientId ?? invoice.contactId;
+      if (contactId) {
+        const contact = await getContactById(contactId);
+        if (contact) {
+          client = {
+            name: contact.name,
+            address: contact.address,
+          };
+        }
+      }
+
+      const invoiceNumber = invoice.invoiceNumber || invoice.invoiceName || String(invoice.id);
+      const { html, footerTemplate } = generateDunningHTML({
+        title: dunning.name,
+        text: dunning.text,
+        invoiceNumber,
+        invoiceDate: invoice.issueDate,
+        invoiceDueDate: invoice.dueDate,
+        issuedAt: dunning.issuedAt,
+        paymentDeadline: dunning.paymentDeadline,
+        outstandingAmount: Number(dunning.outstandingAmount),
+        previousFees: Number(dunning.previousFees),
+        feeAmount: Number(dunning.feeAmount),
+        interestRate: dunning.interestRate === null ? null : Number(dunning.interestRate),
+        interestDays: dunning.interestDays,
+        interestAmount: Number(dunning.interestAmount),
+        totalDue: Number(dunning.totalDue),
+        company: companySettings,
+        client,
+        logoUrl: companySettings.logoUrl || "",
+      });
+
+      const pdfBuffer = await renderPDF(html, {
+        displayHeaderFooter: true,
+        headerTemplate: '<div></div>',
+        footerTemplate,
+      });
+      const filename = `mahnung-${invoiceNumber}-${dunning.level}.pdf`;
+
+      res.setHeader("Content-Type", "application/pdf");
+      res.setHeader("Content-Disposition", isPreview ? `inline; filename="${filename}"` : `attachment; filename="${filename}"`);
+      res.send(pdfBuffer);
+    } catch (error) {
+      if (error instanceof Error && error.message.includes("Invalid or missing session")) {
+        return res.status(401).json({ error: "Unauthorized" });
+      }
+      req.log.error({ err: error }, "Dunning PDF generation failed");
+      res.status(500).json({
+        error: "Failed to generate PDF",
+        message: error instanceof Error ? error.message : "Unknown error"
+      });
+    }
+  });
+
+  app.get("/api/tax-report/pdf", async (req, res) => {
+    try {
+      const user = await supabaseAuth.authenticateRequest(req);
+      if (!user || !user.id) {
+        return res.status(401).json({ error: "Unauthorized" });
+      }
+      const { TAX_REPORT_PERIOD_TYPES } = await import("../../shared/taxReport");
+      const type = TAX_REPORT_PERIOD_TYPES.find((value) => value === req.query.type);
+      const year = parseInt(String(req.query.year), 10);
+      const index = req.query.index ? parseInt(String(req.query.index), 10) : 1;
+
+      if (!type || isNaN(year) || isNaN(index) || index < 1 || index > (type === "quarter" ? 4 : 12)) {
+        return res.status(400).json({ error: "Invalid report period" });
+      }
+      const accountUserId = await getAccountAccess(user, "invoices", "view");
+      if (accountUserId === null) {
+        return res.status(403).json({ error: "Your workspace role doesn't allow you to view invoices" });
+      }
+
+      const { getCompanySettingsByUserId } = await import("../db");
+      const { buildTaxReport, taxReportFileName } = await import("../services/taxReport");
+      const { generateTaxReportHTML } = await import("../templates/taxReport");
+      const { renderPDF } = await import("../services/pdfService");
+
+      const [report, companySettings] = await Promise.all([
+        buildTaxReport(accountUserId, type, year, index),
+        getCompanySettingsByUserId(accountUserId),
+      ]);
+      const { html, footerTemplate } = generateTaxReportHTML({
+        report,
+        companyName: companySettings?.companyName || undefined,
+        taxNumber: companySettings?.steuernummer,
+      });
+
+      const pdfBuffer = await renderPDF(html, {
+        displayHeaderFooter: true,
+        headerTemplate: '<div></div>',
+        footerTemplate,
+      });
+      const filename = taxReportFileName(report, "pdf");
+
+      res.setHeader("Content-Type", "application/pdf");
+      res.setHeader("Content-Disposition", `attachment; filename="${filename}"`);
+      res.send(pdfBuffer);
+    } catch (error) {
+      if (error instanceof Error && error.message.includes("Invalid or missing session")) {
+        return res.status(401).json({ error: "Unauthorized" });
+      }
+      req.log.error({ err: error }, "Tax report PDF generation failed");
+      res.status(500).json({
+        error: "Failed to generate PDF",
+        message: error instanceof Error ? error.message : "Unknown error"
+      });
+    }
+  });
+
+  // DATEV bundle: Buchungsstapel plus receipts, streamed so receipts never pile up in memory
+  app.get("/api/export/datev", async (req, res) => {
+    try {
+      const user = await supabaseAuth.authenticateRequest(req);
+      if (!user || !user.id) {
+        return res.status(401).json({ error: "Unauthorized" });
+      }
+      const accountUserId = await getAccountAccess(user, "invoices", "view");
+      if (accountUserId === null) {
+        return res.status(403).json({ error: "Your workspace role doesn't allow you to view invoices" });
+      }
+      const { prepareDatevExport, writeDatevZip } = await import("../services/datevExport");
+
+      const datevExport = await prepareDatevExport(
+        accountUserId,
+        user.name,
+        String(req.query.from ?? ""),
+        String(req.query.to ?? "")
+      );
+
+      res.setHeader("Content-Type", "application/zip");
+      res.setHeader("Content-Disposition", `attachment; filename="${datevExport.filename}"`);
+      res.setHeader("X-Datev-Bookings", String(datevExport.bookingCount));
+      res.setHeader("X-Datev-Receipts", String(datevExport.receipts.length));
+      res.setHeader("X-Datev-Missing-Receipts", String(datevExport.missingReceipts.length));
+      await writeDatevZip(datevExport, res);
+      res.end();
+    } catch (error) {
+      if (res.headersSent) {
+        // The ZIP is already partly sent; abort so the client doesn't keep a truncated file
+        req.log.error({ err: error }, "DATEV export failed while streaming");
+        res.destroy();
+        return;
+      }
+      if (error instanceof Error && error.message.includes("Invalid or missing session")) {
+        return res.status(401).json({ error: "Unauthorized" });
+      }
+      if (error instanceof HttpError) {
+        return res.status(error.statusCode).json({ error: error.message });
+      }
+      req.log.error({ err: error }, "DATEV export failed");
+      res.status(500).json({
+        error: "Failed to create DATEV export",
+        message: error instanceof Error ? error.message : "Unknown error"
+      });
+    }
+  });
+
+  app.get("/api/mileage/logbook/pdf", async (req, res) => {
+    try {
+      const user = await supabaseAuth.authenticateRequest(req);
+      if (!user || !user.id) {
+        return res.status(401).json({ error: "Unauthorized" });
+      }
+      const vehicleId = parseInt(String(req.query.vehicleId), 10);
+      const year = parseInt(String(req.query.year), 10);
+
+      if (isNaN(vehicleId) || isNaN(year)) {
+        return res.status(400).json({ error: "Invalid vehicle or year" });
+      }
+
+      const { getVehicleById, getCompanySettingsByUserId } = await import("../db");
+      const { getMileageLogbook, mileageLogbookFileName } = await import("../services/mileage");
+      const { generateMileageLogbookHTML } = await import("../templates/mileageLogbook");
+      const { renderPDF } = await import("../services/pdfService");
+
+      const accountUserId = await getAccountAccess(user, "invoices", "view");
+      const vehicle = await getVehicleById(vehicleId);
+      if (!vehicle || accountUserId === null || vehicle.userId !== accountUserId) {
+        return res.status(404).json({ error: "Vehicle not found" });
+      }
+
+      const [logbook, companySettings] = await Promise.all([
+        getMileageLogbook(vehicle, year),
+        getCompanySettingsByUserId(accountUserId),
+      ]);
+      const { html, footerTemplate } = generateMileageLogbookHTML({
+        logbook,
+        companyName: companySettings?.companyName || undefined,
+      });
+
+      const pdfBuffer = await renderPDF(html, {
+        displayHeaderFooter: true,
+        headerTemplate: '<div></div>',
+        footerTemplate,
+      });
+      const filename = mileageLogbookFileName(vehicle, year, "pdf");
+
+      res.setHeader("Content-Type", "application/pdf");
+      res.setHeader("Content-Disposition", `attachment; filename="${filename}"`);
+      res.send(pdfBuffer);
+    } catch (error) {
+      if (error instanceof Error && error.message.includes("Invalid or missing session")) {
+        return res.status(401).json({ error: "Unauthorized" });
+      }
+      req.log.error({ err: error }, "Mileage logbook PDF generation failed");
+      res.status(500).json({
+        error: "Failed to generate PDF",
+        message: error instanceof Error ? error.message : "Unknown error"
+      });
+    }
+  });
+
   app.get("/api/projects/:id/pdf", async (req, res) => {
     try {
       const user = await supabaseAuth.authenticateRequest(req);
@@ -640,7 +992,7 @@ async function startServer() {
       const { createPresignedReadUrl } = await import("../storage");
 
       const project = await getProjectById(projectId);
-      if (!project || project.userId !== user.id) {
+      if (!project || (await getProjectAccess(user, project)) === "none") {
         return res.status(404).json({ error: "Project not found" });
       }
 
@@ -672,7 +1024,7 @@ async function startServer() {
           })
       );
 
-      const companySettings = await getCompanySettingsByUserId(user.id);
+      const companySettings = await getCompanySettingsByUserId(project.createdBy);
       const companyName = companySettings?.companyName || 'Mantodeus Manager';
 
       const html = generateProjectReportHTML({
@@ -886,6 +1238,7 @@ async function startServer() {
   server.listen(port, () => {
     logger.info({ port }, "Server running");
     serverStarted = true; // Mark server as started successfully
+    startRecurringInvoiceScheduler();
   });
 
   // Handle server errors (e.g., port already in use)
@@ -901,6 +1254,7 @@ async function startServer() {
   // Graceful shutdown handling
   const gracefulShutdown = (signal: string) => {
     logger.info({ signal }, "Shutting down gracefully");
+    stopRecurringInvoiceScheduler();
     server.close(() => {
       logger.info("Server closed");
       process.exit(0);
@@ -0,0 +1,68 @@
+import { describe, expect, it } from "vitest";
+import {
+  getInvoiceAccountingDate,
+  getInvoiceAccrualDate,
+  getInvoicePaymentShares,
+} from "../shared/accountingDate";
+import { computeTaxReport, type TaxReportInvoice } from "./lib/taxReport";
+import { resolveTaxReportPeriod } from "../shared/taxReport";
+
+const invoice: TaxReportInvoice = {
+  id: 1,
+  type: "standard",
+  cancelledInvoiceId: null,
+  issueDate: new Date(2025, 3, 2),
+  servicePeriodEnd: null,
+  subtotal: 1000,
+  vatAmount: 190,
+  total: 1190,
+  items: [{ lineTotal: 1000, vatRate: 19, vatCategory: "standard" }],
+  payments: [
+    { amount: 595, paidAt: new Date(2025, 2, 28) },
+    { amount: 595, paidAt: new Date(2025, 3, 10) },
+  ],
+};
+
+describe("getInvoiceAccrualDate", () => {
+  it("uses the end of the service period, else the issue date", () => {
+    expect(getInvoiceAccrualDate({ ...invoice, servicePeriodEnd: new Date(2025, 2, 31) })).toEqual(new Date(2025, 2, 31));
+    expect(getInvoiceAccrualDate(invoice)).toEqual(new Date(2025, 3, 2));
+  });
+
+  it("books cancellations when they are issued", () => {
+    expect(getInvoiceAccrualDate({ ...invoice, type: "cancellation", servicePeriodEnd: new Date(2025, 2, 31) })).toEqual(
+      new Date(2025, 3, 2)
+    );
+  });
+});
+
+describe("getInvoicePaymentShares", () => {
+  it("splits the invoice by payment", () => {
+    expect(getInvoicePaymentShares(invoice)).toEqual([
+      { date: new Date(2025, 2, 28), share: 0.5 },
+      { date: new Date(2025, 3, 10), share: 0.5 },
+    ]);
+    expect(getInvoicePaymentShares({ ...invoice, total: 0 })).toEqual([]);
+  });
+});
+
+describe("getInvoiceAccountingDate", () => {
+  it("places the invoice in the same period as the tax report under Bilanz", () => {
+    const settings = { accountingMethod: "BILANZ", vatMethod: "SOLL" };
+    const date = getInvoiceAccountingDate(invoice, settings);
+    const q2 = resolveTaxReportPeriod("quarter", 2025, 2);
+
+    expect(date).toEqual(new Date(2025, 3, 2));
+    const report = computeTaxReport({ period: q2, settings, invoices: [invoice], cancelledInvoices: [], expenses: [] });
+    expect(report.income).toMatchObject({ net: 1000, invoiceCount: 1 });
+  });
+
+  it("recognizes the invoice when it is paid in full under EÜR", () => {
+    const settings = { accountingMethod: "EÜR", vatMethod: "IST" };
+    const paidAt = invoice.payments[1].paidAt;
+    const shares = getInvoicePaymentShares(invoice);
+
+    expect(getInvoiceAccountingDate({ ...invoice, paidAt: null }, settings)).toBeNull();
+    expect(getInvoiceAccountingDate({ ...invoice, paidAt }, settings)).toEqual(shares[shares.length - 1].date);
+  });
+});
@@ -0,0 +1,323 @@
+import { TRPCError } from "@trpc/server";
+import { z } from "zod";
+import { protectedProcedure, router } from "./_core/trpc";
+import * as db from "./db";
+import { BANK_TRANSACTION_STATUSES } from "../shared/bankImport";
+import {
+  BankStatementParseError,
+  decodeStatementContent,
+  fingerprintBankTransactions,
+  parseBankStatement,
+  proposeBankMatches,
+} from "./lib/bankImport";
+import { matchClient } from "./services/ai/document/clientMatching";
+import { requireAccountAccess } from "./services/workspaceAccess";
+
+const MAX_STATEMENT_SIZE = 10 * 1024 * 1024;
+
+async function getOwnedBankTransaction(id: number, userId: number) {
+  const transaction = await db.getBankTransactionById(id);
+  if (!transaction) {
+    throw new TRPCError({ code: "NOT_FOUND", message: "Bank transaction not found" });
+  }
+  if (transaction.userId !== userId) {
+    throw new TRPCError({ code: "FORBIDDEN", message: "You don't have access to this bank transaction" });
+  }
+  return transaction;
+}
+
+async function getOwnedBankImport(id: number, userId: number) {
+  const bankImport = await db.getBankImportById(id);
+  if (!bankImport) {
+    throw new TRPCError({ code: "NOT_FOUND", message: "Bank import not found" });
+  }
+  if (bankImport.userId !== userId) {
+    throw new TRPCError({ code: "FORBIDDEN", message: "You don't have access to this bank import" });
+  }
+  return bankImport;
+}
+
+/** Payment reference shown in the invoice payment history */
+function paymentReference(transaction: { reference: string | null; purpose: string | null }) {
+  const reference = transaction.reference || transaction.purpose;
+  return reference ? reference.slice(0, 255) : null;
+}
+
+export const bankImportRouter = router({
+  /**
+   * Parse an uploaded statement and store its new transactions
+   */
+  import: protectedProcedure
+    .input(z.object({
+      filename: z.string().min(1).max(255),
+      base64Data: z.string(),
+    }))
+    .mutation(async ({ input, ctx }) => {
+      const buffer = Buffer.from(input.base64Data, "base64");
+      if (buffer.length === 0) {
+        throw new TRPCError({ code: "BAD_REQUEST", message: "The file is empty" });
+      }
+      if (buffer.length > MAX_STATEMENT_SIZE) {
+        throw new TRPCError({ code: "BAD_REQUEST", message: "Bank statements can be at most 10 MB" });
+      }
+
+      let statement;
+      try {
+        statement = parseBankStatement(decodeStatementContent(buffer));
+      } catch (error) {
+        if (error instanceof BankStatementParseError) {
+          throw new TRPCError({ code: "BAD_REQUEST", message: error.message });
+        }
+        throw error;
+      }
+      if (statement.transactions.length === 0) {
+        throw new TRPCError({ code: "BAD_REQUEST", message: "No transactions found in the statement" });
+      }
+
+      const userId = await requireAccountAccess(ctx.user, "invoices", "edit");
+      const fingerprints = fingerprintBankTransactions(statement.accountIban, statement.transactions);
+      const result = await db.createBankImport(
+        {
+          userId,
+          fileName: input.filename,
+          format: statement.format,
+          accountIban: statement.accountIban,
+        },
+        statement.transactions.map((transaction, index) => ({
+          bookingDate: transaction.bookingDate,
+          valueDate: transaction.valueDate,
+          amount: transaction.amount.toFixed(2),
+          currency: transaction.currency,
+          counterpartyName: transaction.counterpartyName?.slice(0, 255) ?? null,
+          counterpartyIban: transaction.counterpartyIban,
+          purpose: transaction.purpose || null,
+          reference: transaction.reference?.slice(0, 255) ?? null,
+          fingerprint: fingerprints[index],
+        }))
+      );
+
+      return { ...result, format: statement.format };
+    }),
+
+  imports: protectedProcedure.query(async ({ ctx }) =>
+    db.getBankImportsByUserId(await requireAccountAccess(ctx.user, "invoices", "view"))
+  ),
+
+  /**
+   * Transactions with match proposals for the ones that are still open
+   */
+  transactions: protectedProcedure
+    .input(z.object({
+      importId: z.number().optional(),
+      status: z.enum(BANK_TRANSACTION_STATUSES).optional(),
+    }).optional())
+    .query(async ({ input, ctx }) => {
+      const userId = await requireAccountAccess(ctx.user, "invoices", "view");
+      const transactions = await db.getBankTransactionsByUserId(userId, input ?? {});
+      const open = transactions.filter((transaction) => transaction.status === "unmatched");
+
+      const [invoices, expenses] = open.length > 0
+        ? await Promise.all([
+            db.getOpenInvoicesForBankMatching(userId),
+            db.getUnpaidExpensesForBankMatching(userId),
+          ])
+        : [[], []];
+
+      // Resolve each incoming counterparty once against the contacts
+      const clientIds = new Map<string, number | null>();
+      for (const transaction of open) {
+        const name = transaction.counterpartyName;
+        if (Number(transaction.amount) > 0 && name && !clientIds.has(name)) {
+          const match = await matchClient(name, userId);
+          clientIds.set(name, match.matchedClientId);
+        }
+      }
+
+      return transactions.map((transaction) => {
+        const amount = Number(transaction.amount);
+        const proposals = transaction.status === "unmatched"
+          ? proposeBankMatches(
+              {
+                bookingDate: transaction.bookingDate,
+                amount,
+                counterpartyName: transaction.counterpartyName,
+                purpose: transaction.purpose ?? "",
+              },
+              {
+                invoices,
+                expenses,
+                counterpartyClientId: transaction.counterpartyName
+                  ? clientIds.get(transaction.counterpartyName) ?? null
+                  : null,
+              }
+            )
+          : [];
+        return { ...transaction, amount, proposals };
+      });
+    }),
+
+  /**
+   * Confirm a match: incoming payments are booked on the invoice, outgoing
+   * payments mark the expense as paid by bank transfer
+   */
+  confirmMatch: protectedProcedure
+    .input(z.object({
+      transactionId: z.number(),
+      invoiceId: z.number().optional(),
+      expenseId: z.number().optional(),
+    }).refine((value) => (value.invoiceId === undefined) !== (value.expenseId === undefined), {
+      message: "Choose either an invoice or an expense",
+    }))
+    .mutation(async ({ input, ctx }) => {
+      const userId = await requireAccountAccess(ctx.user, "invoices", "edit");
+      const transaction = await getOwnedBankTransaction(input.transactionId, userId);
+      if (transaction.status === "matched") {
+        throw new TRPCError({ code: "BAD_REQUEST", message: "This transaction is already matched" });
+      }
+      const amount = Number(transaction.amount);
+
+      if (input.invoiceId !== undefined) {
+        if (amount <= 0) {
+          throw new TRPCError({ code: "BAD_REQUEST", message: "Only incoming payments can be matched to invoices" });
+        }
+        const invoice = await db.getInvoiceById(input.invoiceId);
+        if (!invoice) {
+          throw new TRPCError({ code: "NOT_FOUND", message: "Invoice not found" });
+        }
+        if (invoice.userId !== userId) {
+          throw new TRPCError({ code: "FORBIDDEN", message: "You don't have access to this invoice" });
+        }
+        if (!invoice.sentAt || invoice.cancelledAt) {
+          throw new TRPCError({ code: "BAD_REQUEST", message: "Only sent invoices can receive payments" });
+        }
+        if (invoice.paidAt) {
+          throw new TRPCError({ code: "BAD_REQUEST", message: "Invoice is already fully paid" });
+        }
+
+        // Overpayments settle the invoice; the surplus stays visible on the transaction
+        const outstanding = Number((Number(invoice.total || 0) - Number(invoice.amountPaid || 0)).toFixed(2));
+        const payment = await db.addInvoicePayment(invoice.id, {
+          amount: Math.min(amount, outstanding),
+          paidAt: transaction.bookingDate,
+          method: "bank_transfer",
+          reference: paymentReference(transaction),
+          note: transaction.counterpartyName ? `Bank import: ${transaction.counterpartyName}` : "Bank import",
+          source: "bank_import",
+        });
+
+        await db.updateBankTransaction(transaction.id, {
+          status: "matched",
+          matchedInvoiceId: invoice.id,
+          invoicePaymentId: payment?.id ?? null,
+          matchedExpenseId: null,
+          matchedAt: new Date(),
+        });
+        return { success: true };
+      }
+
+      if (amount >= 0) {
+        throw new TRPCError({ code: "BAD_REQUEST", message: "Only outgoing payments can be matched to expenses" });
+      }
+      const expense = await db.getExpenseById(input.expenseId!);
+      if (!expense) {
+        throw new TRPCError({ code: "NOT_FOUND", message: "Expense not found" });
+      }
+      if (expense.createdBy !== userId) {
+        throw new TRPCError({ code: "FORBIDDEN", message: "You don't have access to this expense" });
+      }
+      if (expense.status === "void") {
+        throw new TRPCError({ code: "BAD_REQUEST", message: "Voided expenses cannot be matched" });
+      }
+      if (expense.paymentStatus === "paid") {
+        throw new TRPCError({ code: "BAD_REQUEST", message: "Expense is already paid" });
+      }
+
+      await db.updateExpense(
+        expense.id,
+        { paymentStatus: "paid", paymentDate: transaction.bookingDate, paymentMethod: "bank_transfer" },
+        ctx.user.id
+      );
+      await db.updateBankTransaction(transaction.id, {
+        status: "matched",
+        matchedInvoiceId: null,
+        invoicePaymentId: null,
+        matchedExpenseId: expense.id,
+        matchedAt: new Date(),
+      });
+      return { success: true };
+    }),
+
+  /**
+   * Undo a confirmed match: removes the booked invoice payment or marks the expense as unpaid again
+   */
+  unmatch: protectedProcedure
+    .input(z.object({ transactionId: z.number() }))
+    .mutation(async ({ input, ctx }) => {
+      const userId = await requireAccountAccess(ctx.user, "invoices", "edit");
+      const transaction = await getOwnedBankTransaction(input.transactionId, userId);
+      if (transaction.status !== "matched") {
+        throw new TRPCError({ code: "BAD_REQUEST", message: "This transaction is not matched" });
+      }
+
+      if (transaction.invoicePaymentId) {
+        const payment = await db.getInvoicePaymentById(transaction.invoicePaymentId);
+        if (payment) {
+          const cancellation = await db.getCancellationInvoiceByOriginalId(payment.invoiceId);
+          if (cancellation?.sentAt) {
+            throw new TRPCError({ code: "BAD_REQUEST", message: "Cancelled invoices are read-only." });
+          }
+          await db.deleteInvoicePayment(payment.id);
+        }
+      }
+
+      if (transaction.matchedExpenseId) {
+        const expense = await db.getExpenseById(transaction.matchedExpenseId);
+        if (expense && expense.paymentStatus === "paid") {
+          await db.updateExpense(
+            expense.id,
+            { paymentStatus: "unpaid", paymentDate: null, paymentMethod: null },
+            ctx.user.id
+          );
+        }
+      }
+
+      await db.updateBankTransaction(transaction.id, {
+        status: "unmatched",
+        matchedInvoiceId: null,
+        invoicePaymentId: null,
+        matchedExpenseId: null,
+        matchedAt: null,
+      });
+      return { success: true };
+    }),
+
+  /**
+   * Ignore transactions that need no reconciliation (fees, transfers between own accounts)
+   */
+  setIgnored: protectedProcedure
+    .input(z.object({ transactionId: z.number(), ignored: z.boolean() }))
+    .mutation(async ({ input, ctx }) => {
+      const userId = await requireAccountAccess(ctx.user, "invoices", "edit");
+      const transaction = await getOwnedBankTransaction(input.transactionId, userId);
+      if (transaction.status === "matched") {
+        throw new TRPCError({ code: "BAD_REQUEST", message: "Undo the match before ignoring this transaction" });
+      }
+      await db.updateBankTransaction(transaction.id, { status: input.ignored ? "ignored" : "unmatched" });
+      return { success: true };
+    }),
+
+  deleteImport: protectedProcedure
+    .input(z.object({ id: z.number() }))
+    .mutation(async ({ input, ctx }) => {
+      const userId = await requireAccountAccess(ctx.user, "invoices", "edit");
+      const bankImport = await getOwnedBankImport(input.id, userId);
+      if (await db.countMatchedBankTransactions(bankImport.id) > 0) {
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message: "Undo the confirmed matches of this import before deleting it",
+        });
+      }
+      await db.deleteBankImport(bankImport.id);
+      return { success: true };
+    }),
+});
@@ -1,9 +1,10 @@
-import { eq, desc, and, or, sql, isNull, isNotNull, inArray, ne } from "drizzle-orm";
+import { eq, desc, and, or, sql, isNull, isNotNull, inArray, ne, lt, lte, gte } from "drizzle-orm";
 import { drizzle } from "drizzle-orm/mysql2";
+import { alias } from "drizzle-orm/mysql-core";
 import mysql from "mysql2/promise";
 import { 
   // User types
-  InsertUser, users, 
+  InsertUser, users, type User,
   // New project-based types
   projects, projectJobs, fileMetadata,
   type Project, type InsertProject, type Contact,
@@ -12,23 +13,74 @@ import {
   // PDF & Settings types
   sharedDocuments, companySettings, projectCheckins, userPreferences,
   type InsertSharedDocument, type InsertCompanySettings, type InsertProjectCheckin,
+  // Timesheet types
+  timeEntries, timesheets,
+  type TimeEntry, type InsertTimeEntry, type Timesheet, type InsertTimesheet, type ProjectCheckin,
+  // Workspace types
+  workspaces, workspaceMembers, workspaceInvitations, projectMembers,
+  type Workspace, type WorkspaceMember, type WorkspaceInvitation, type InsertWorkspaceInvitation,
+  // Project template types
+  projectTemplates,
+  type ProjectTemplate, type InsertProjectTemplate,
+  projectJobDependencies,
+  type ProjectJobDependency, type InsertProjectJobDependency,
   type UserPreferences, type InsertUserPreferences,
   // Inspection types
   inspections, inspectionTemplates, inspectionUnits, inspectionFindings, inspectionMedia,
   type InsertInspection, type InsertInspectionTemplate, type InsertInspectionUnit,
   type InsertInspectionFinding, type InsertInspectionMedia,
   type Inspection, type InspectionTemplate, type InspectionUnit, type InspectionFinding, type InspectionMedia,
+  // Quote types
+  quotes, quoteItems,
+  type Quote, type QuoteItem, type InsertQuote, type InsertQuoteItem,
+  // Dunning types
+  dunningLevels, invoiceDunnings,
+  type DunningLevelRow, type InsertDunningLevelRow, type InvoiceDunning, type InsertInvoiceDunning,
+  // Recurring invoice types
+  recurringInvoices, recurringInvoiceItems, recurringInvoiceRuns,
+  type RecurringInvoice, type RecurringInvoiceItem, type RecurringInvoiceRun,
+  type InsertRecurringInvoice, type InsertRecurringInvoiceItem,
+  // Bank import types
+  bankImports, bankTransactions,
+  type BankImport, type BankTransaction, type InsertBankImport, type InsertBankTransaction,
+  // Mileage log types
+  vehicles, mileageTrips,
+  type Vehicle, type InsertVehicle, type MileageTrip, type InsertMileageTrip,
+  // Per diem types
+  perDiemClaims,
+  type PerDiemClaimRecord, type InsertPerDiemClaim,
+  // Subscription types
+  subscriptions,
+  type SubscriptionRecord, type InsertSubscription,
+  // Exchange rate types
+  exchangeRates,
+  type InsertExchangeRate,
   // Expense types
-  expenses, expenseFiles,
-  type InsertExpense, type InsertExpenseFile,
-  type Expense, type ExpenseFile,
+  expenses, expenseFiles, expenseSplits, expenseEvents, expenseComments,
+  type InsertExpense, type InsertExpenseFile, type InsertExpenseSplit,
+  type InsertExpenseEvent, type InsertExpenseComment,
+  type Expense, type ExpenseFile, type ExpenseSplit, type ExpenseEvent, type ExpenseComment,
   // Legacy types (kept for backward compatibility)
-  jobs, tasks, images, reports, comments, contacts, invoices, invoiceItems, notes, noteFiles, locations, 
+  jobs, tasks, images, reports, comments, contacts, invoices, invoiceItems, invoicePayments, notes, noteFiles, locations, 
   InsertJob, InsertTask, InsertImage, InsertReport, InsertComment, InsertContact, 
   InsertInvoice, InsertInvoiceItem, InsertNote, InsertNoteFile, jobContacts, jobDates, InsertJobDate,
-  type Invoice, type InvoiceItem, type NoteFile
+  type Invoice, type InvoiceItem, type InvoicePayment, type NoteFile
 } from "../drizzle/schema";
 import { ENV } from './_core/env';
+import { formatQuoteNumber, getHighestQuoteCounter } from "../shared/quoteState";
+import { findMarkedAsPaidPayment, sortInvoicePayments, summarizeInvoicePayments } from "../shared/invoicePayments";
+import {
+  BASE_CURRENCY,
+  MAX_EXCHANGE_RATE_AGE_DAYS,
+  resolveEurConversion,
+  toEurExpense,
+  toRateDate,
+  type EurConversion,
+} from "../shared/exchangeRates";
+import { toWeekStart } from "../shared/timesheets";
+import { RECURRING_RUN_STALE_MINUTES, isRunReclaimable } from "../shared/recurringInvoice";
+import type { WorkspaceRole } from "../shared/workspaces";
+import { BadRequestError } from "@shared/_core/errors";
 // Schema guards removed from hot path - initialized once at server startup
 // import { ensureContactsSchema, ensureFileMetadataSchema, ensureImagesSchema, ensureNotesSchema, ensureProjectsSchema } from "./_core/schemaGuards";
 
@@ -182,6 +234,10 @@ async function ensureInvoiceSchema(db: any) {
       "ALTER TABLE `invoices` ADD COLUMN `lastPaymentAt` DATETIME NULL AFTER `amountPaid`",
       isDuplicateColumnError
     );
+    await executeStatement(
+      "ALTER TABLE `invoices` ADD COLUMN `projectId` INT NULL AFTER `jobId`",
+      isDuplicateColumnError
+    );
 
     try {
     await db.execute(sql`
@@ -234,6 +290,14 @@ async function ensureInvoiceSchema(db: any) {
         CONSTRAINT invoice_items_invoiceId_fkey FOREIGN KEY (invoiceId) REFERENCES invoices(id) ON DELETE CASCADE
       )
     `);
+    await executeStatement(
+      "ALTER TABLE `invoice_items` ADD COLUMN `vatRate` DECIMAL(5,2) NULL AFTER `lineTotal`",
+      isDuplicateColumnError
+    );
+    await executeStatement(
+      "ALTER TABLE `invoice_items` ADD COLUMN `vatCategory` ENUM('standard','zero','reverse_charge','intra_eu') NOT NULL DEFAULT 'standard' AFTER `vatRate`",
+      isDuplicateColumnError
+    );
 
     await executeStatement(
       "CREATE UNIQUE INDEX `invoice_number_per_user` ON `invoices` (`userId`, `invoiceNumber`)",
@@ -759,12 +823,13 @@ export async function getAllUsers() {
   const db = await getDb();
   if (!db) throw new Error("Database not available");
   
-  return await db.select({
+  const rows: Array<Pick<User, "id" | "name" | "email" | "role">> = await db.select({
     id: users.id,
     name: users.name,
     email: users.email,
     role: users.role,
   }).from(users).orderBy(users.name);
+  return rows;
 }
 
 // Get user by ID
@@ -780,6 +845,219 @@ export async function getUserById(id: number) {
 }
 
 
+// =============================================================================
+// TEAM WORKSPACE QUERIES
+// =============================================================================
+
+export async function getWorkspaceById(id: number): Promise<Workspace | null> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const rows: Workspace[] = await db.select().from(workspaces).where(eq(workspaces.id, id)).limit(1);
+  return rows[0] ?? null;
+}
+
+export async function getWorkspaceByOwner(ownerUserId: number): Promise<Workspace | null> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const rows: Workspace[] = await db.select().from(workspaces).where(eq(workspaces.ownerUserId, ownerUserId)).limit(1);
+  return rows[0] ?? null;
+}
+
+/**
+ * Create the owner's workspace, add them as owner and switch them into it
+ */
+export async function createWorkspace(name: string, ownerUserId: number) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const result = await db.insert(workspaces).values({ name, ownerUserId });
+  const insertId = Array.isArray(result) ? result[0]?.insertId : (result as any).insertId;
+  const workspaceId = Number(insertId);
+  await db.insert(workspaceMembers).values({ workspaceId, userId: ownerUserId, role: "owner" });
+  await setActiveWorkspace(ownerUserId, workspaceId);
+  return await getWorkspaceById(workspaceId);
+}
+
+export async function updateWorkspace(id: number, data: { name: string }) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  await db.update(workspaces).set(data).where(eq(workspaces.id, id));
+}
+
+export async function setActiveWorkspace(userId: number, workspaceId: number | null) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  await db.update(users).set({ activeWorkspaceId: workspaceId }).where(eq(users.id, userId));
+}
+
+export async function getWorkspaceMembership(workspaceId: number, userId: number): Promise<WorkspaceMember | null> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const rows: WorkspaceMember[] = await db
+    .select()
+    .from(workspaceMembers)
+    .where(and(eq(workspaceMembers.workspaceId, workspaceId), eq(workspaceMembers.userId, userId)))
+    .limit(1);
+  return rows[0] ?? null;
+}
+
+export async function getWorkspaceMembers(workspaceId: number) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const rows: Array<WorkspaceMember & { name: string | null; email: string | null }> = await db
+    .select({
+      id: workspaceMembers.id,
+      workspaceId: workspaceMembers.workspaceId,
+      userId: workspaceMembers.userId,
+      role: workspaceMembers.role,
+      createdAt: workspaceMembers.createdAt,
+      updatedAt: workspaceMembers.updatedAt,
+      name: users.name,
+      email: users.email,
+    })
+    .from(workspaceMembers)
+    .innerJoin(users, eq(users.id, workspaceMembers.userId))
+    .where(eq(workspaceMembers.workspaceId, workspaceId))
+    .orderBy(users.name);
+  return rows;
+}
+
+/**
+ * Workspaces the user belongs to, with their role
+ */
+export async function getUserWorkspaces(userId: number) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const rows: Array<Workspace & { role: WorkspaceRole }> = await db
+    .select({
+      id: workspaces.id,
+      name: workspaces.name,
+      ownerUserId: workspaces.ownerUserId,
+      createdAt: workspaces.createdAt,
+      updatedAt: workspaces.updatedAt,
+      role: workspaceMembers.role,
+    })
+    .from(workspaceMembers)
+    .innerJoin(workspaces, eq(workspaces.id, workspaceMembers.workspaceId))
+    .where(eq(workspaceMembers.userId, userId))
+    .orderBy(workspaces.name);
+  return rows;
+}
+
+export async function addWorkspaceMember(workspaceId: number, userId: number, role: WorkspaceRole) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  await db
+    .insert(workspaceMembers)
+    .values({ workspaceId, userId, role })
+    .onDuplicateKeyUpdate({ set: { role } });
+}
+
+export async function updateWorkspaceMemberRole(workspaceId: number, userId: number, role: WorkspaceRole) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  await db
+    .update(workspaceMembers)
+    .set({ role })
+    .where(and(eq(workspaceMembers.workspaceId, workspaceId), eq(workspaceMembers.userId, userId)));
+}
+
+/**
+ * Remove a member along with their memberships of the workspace's projects
+ */
+export async function removeWorkspaceMember(workspaceId: number, userId: number) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const workspace = await getWorkspaceById(workspaceId);
+  if (!workspace) return;
+
+  await db
+    .delete(workspaceMembers)
+    .where(and(eq(workspaceMembers.workspaceId, workspaceId), eq(workspaceMembers.userId, userId)));
+  const ownerProjects = db.select({ id: projects.id }).from(projects).where(eq(projects.createdBy, workspace.ownerUserId));
+  await db
+    .delete(projectMembers)
+    .where(and(eq(projectMembers.userId, userId), inArray(projectMembers.projectId, ownerProjects)));
+  await db
+    .update(users)
+    .set({ activeWorkspaceId: null })
+    .where(and(eq(users.id, userId), eq(users.activeWorkspaceId, workspaceId)));
+}
+
+export async function createWorkspaceInvitation(data: InsertWorkspaceInvitation) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const result = await db.insert(workspaceInvitations).values(data);
+  const insertId = Array.isArray(result) ? result[0]?.insertId : (result as any).insertId;
+  return { id: Number(insertId) };
+}
+
+export async function getWorkspaceInvitationByToken(token: string): Promise<WorkspaceInvitation | null> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const rows: WorkspaceInvitation[] = await db
+    .select()
+    .from(workspaceInvitations)
+    .where(eq(workspaceInvitations.token, token))
+    .limit(1);
+  return rows[0] ?? null;
+}
+
+export async function getWorkspaceInvitationById(id: number): Promise<WorkspaceInvitation | null> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const rows: WorkspaceInvitation[] = await db
+    .select()
+    .from(workspaceInvitations)
+    .where(eq(workspaceInvitations.id, id))
+    .limit(1);
+  return rows[0] ?? null;
+}
+
+/**
+ * Invitations not accepted yet, newest first; expired ones included
+ */
+export async function getPendingWorkspaceInvitations(workspaceId: number): Promise<WorkspaceInvitation[]> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  return await db
+    .select()
+    .from(workspaceInvitations)
+    .where(and(eq(workspaceInvitations.workspaceId, workspaceId), isNull(workspaceInvitations.acceptedAt)))
+    .orderBy(desc(workspaceInvitations.createdAt));
+}
+
+export async function markWorkspaceInvitationAccepted(id: number, userId: number) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  await db
+    .update(workspaceInvitations)
+    .set({ acceptedAt: new Date(), acceptedByUserId: userId })
+    .where(eq(workspaceInvitations.id, id));
+}
+
+export async function deleteWorkspaceInvitation(id: number) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  await db.delete(workspaceInvitations).where(eq(workspaceInvitations.id, id));
+}
+
 // ===== CONTACTS QUERIES =====
 
 export async function getContactsByUser(userId: number) {
@@ -1795,11 +2073,12 @@ export async function generateInvoiceNumber(
   throw new Error("Failed to generate a unique invoice number after multiple attempts.");
 }
 
-export async function createInvoice(data: Omit<InsertInvoice, "id"> & { items?: Array<Omit<InsertInvoiceItem, "invoiceId">> }) {
-  const db = await getDb();
-  if (!db) throw new Error("Database not available");
-  await ensureInvoiceSchema(db);
+type NewInvoice = Omit<InsertInvoice, "id"> & { items?: Array<Omit<InsertInvoiceItem, "invoiceId">> };
 
+/**
+ * Validate a new invoice and fill in its number and defaults
+ */
+async function prepareInvoiceInsert(data: NewInvoice) {
   // Use extracted date if provided, otherwise use database default (current timestamp)
   // For uploaded invoices, we prefer null to let user set it manually if extraction failed
   // But database requires NOT NULL, so we'll use current timestamp as last resort
@@ -1838,6 +2117,7 @@ export async function createInvoice(data: Omit<InsertInvoice, "id"> & { items?:
     contactId: data.contactId ?? data.clientId ?? null,
     clientId: data.clientId ?? data.contactId ?? null,
     jobId: data.jobId ?? null,
+    projectId: data.projectId ?? null,
     invoiceNumber: normalizedInvoiceNumber && normalizedInvoiceNumber.length > 0 ? normalizedInvoiceNumber : null,
     invoiceCounter: data.invoiceCounter ?? 0,
     invoiceYear: data.invoiceYear ?? issueDate.getFullYear(),
@@ -1898,22 +2178,42 @@ export async function createInvoice(data: Omit<InsertInvoice, "id"> & { items?:
   if (!invoiceData.status || invoiceData.status !== "draft") {
     throw new Error("Invoice status must be 'draft' before insert. This is a critical data integrity violation.");
   }
+  return invoiceData;
+}
 
-  const result = await db.insert(invoices).values(invoiceData);
+/**
+ * Insert a prepared invoice with its items, on the connection or inside a transaction
+ */
+async function insertInvoiceRow(
+  executor: any,
+  invoiceData: Omit<InsertInvoice, "id" | "createdAt" | "updatedAt">,
+  items: NewInvoice["items"]
+): Promise<number> {
+  const result = await executor.insert(invoices).values(invoiceData);
   const insertId = Array.isArray(result) ? result[0]?.insertId : (result as any).insertId;
   if (!insertId) {
     throw new Error("Failed to create invoice: no insert ID returned");
   }
 
-  const itemsToInsert = (data.items || []).map((item) => ({
+  const itemsToInsert = (items || []).map((item) => ({
     ...item,
     invoiceId: Number(insertId),
   }));
   if (itemsToInsert.length > 0) {
-    await db.insert(invoiceItems).values(itemsToInsert);
+    await executor.insert(invoiceItems).values(itemsToInsert);
   }
+  return Number(insertId);
+}
+
+export async function createInvoice(data: NewInvoice) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+  await ensureInvoiceSchema(db);
 
-  const created = await getInvoiceById(Number(insertId));
+  const invoiceData = await prepareInvoiceInsert(data);
+  const insertId = await insertInvoiceRow(db, invoiceData, data.items);
+
+  const created = await getInvoiceById(insertId);
   if (!created) throw new Error("Failed to retrieve created invoice");
   return created;
 }
@@ -1972,6 +2272,7 @@ export async function createCancellationInvoice(userId: number, invoiceId: numbe
         clientId: original.clientId ?? null,
         contactId: original.contactId ?? null,
         jobId: original.jobId ?? null,
+        projectId: original.projectId ?? null,
         invoiceNumber,
         invoiceCounter,
         invoiceYear,
@@ -2037,6 +2338,8 @@ export async function createCancellationInvoice(userId: number, invoiceId: numbe
       unitPrice: Number(item.unitPrice ?? 0).toFixed(2),
       currency: item.currency ?? "EUR",
       lineTotal: negateMoney(item.lineTotal),
+      vatRate: item.vatRate ?? null,
+      vatCategory: item.vatCategory ?? "standard",
     }));
 
     if (itemsToInsert.length > 0) {
@@ -2101,6 +2404,7 @@ export async function duplicateInvoice(invoiceId: number, userId: number) {
     contactId: original.contactId,
     clientId: original.clientId,
     jobId: original.jobId,
+    projectId: original.projectId,
     invoiceNumber: null, // Will be auto-generated
     invoiceName: duplicateName,
     status: "draft", // Always draft when duplicating
@@ -2122,6 +2426,8 @@ export async function duplicateInvoice(invoiceId: number, userId: number) {
       quantity: Number(item.quantity),
       unitPrice: Number(item.unitPrice),
       currency: item.currency || "EUR",
+      vatRate: item.vatRate ?? null,
+      vatCategory: item.vatCategory ?? "standard",
     })),
   });
 
@@ -2136,6 +2442,7 @@ export async function deleteInvoice(id: number) {
   const db = await getDb();
   if (!db) throw new Error("Database not available");
   await db.delete(invoiceItems).where(eq(invoiceItems.invoiceId, id));
+  await db.delete(invoicePayments).where(eq(invoicePayments.invoiceId, id));
   return db.delete(invoices).where(eq(invoices.id, id));
 }
 
@@ -2186,33 +2493,27 @@ export async function markInvoiceAsPaid(id: number, paidAt: Date, alsoSetSentAt:
   if (!db) throw new Error("Database not available");
   await ensureInvoiceSchema(db);
 
-  // Get invoice to set amountPaid = totalAmount (Section 19 requirement)
   const invoice = await getInvoiceById(id);
   if (!invoice) {
     throw new Error("Invoice not found");
   }
 
-  const totalAmount = invoice.total ? String(invoice.total) : "0.00";
-  // Use provided paidAt date (mandatory)
-  const paymentDate = paidAt;
-
-  const updateData: any = {
-    paidAt: paymentDate,
-    amountPaid: totalAmount,
-    lastPaymentAt: paymentDate
-  };
-
   // If alsoSetSentAt is true and sentAt is not already set, set it to the same date as paidAt
   if (alsoSetSentAt && !invoice.sentAt) {
-    updateData.sentAt = paymentDate;
+    await db.update(invoices).set({ sentAt: paidAt }).where(eq(invoices.id, id));
   }
-  
-  // NOTE: Status is derived from timestamps, not set directly
 
-  return db
-    .update(invoices)
-    .set(updateData)
-    .where(eq(invoices.id, id));
+  // Book the outstanding amount as one payment on the given date (Section 19 requirement:
+  // a paid invoice has amountPaid = total); paidAt is then derived from the ledger
+  const outstanding = Number((Number(invoice.total || 0) - Number(invoice.amountPaid || 0)).toFixed(2));
+  if (outstanding > 0) {
+    await addInvoicePayment(id, { amount: outstanding, paidAt, note: "Marked as paid", source: "mark_as_paid" });
+    return;
+  }
+
+  // Nothing outstanding (e.g. zero-amount uploads): only the timestamp is set
+  // NOTE: Status is derived from timestamps, not set directly
+  await db.update(invoices).set({ paidAt, lastPaymentAt: paidAt }).where(eq(invoices.id, id));
 }
 
 export async function revertInvoiceStatus(id: number, targetStatus: 'draft' | 'open') {
@@ -2231,19 +2532,15 @@ export async function revertInvoiceStatus(id: number, targetStatus: 'draft' | 'o
     }
     const amountPaid = Number(invoice.amountPaid || 0);
     if (amountPaid > 0) {
-      throw new Error("Cannot revert to draft: invoice has received payments. Use 'Mark as Not Paid' instead.");
+      throw BadRequestError("Cannot revert to draft: invoice has received payments. Use 'Mark as Not Paid' instead.");
     }
     return db
       .update(invoices)
       .set({ sentAt: null, paidAt: null })
       .where(eq(invoices.id, id));
   } else if (targetStatus === 'open') {
-    // Reverting to open (from paid): clear paidAt, keep sentAt
-    // CRITICAL: Preserve amountPaid (payment data must never be destroyed)
-    return db
-      .update(invoices)
-      .set({ paidAt: null })
-      .where(eq(invoices.id, id));
+    // Reverting to open (from paid): undo the settling payment, keep sentAt
+    return revertInvoiceToSent(id);
   }
 }
 
@@ -2303,18 +2600,32 @@ export async function revertInvoiceToDraft(id: number) {
 
 /**
  * Mark invoice as not paid (revert from paid to sent state)
- * Clears paidAt but PRESERVES amountPaid (payment data must never be destroyed)
- * 
- * CRITICAL: This only clears the paidAt timestamp. amountPaid is preserved.
+ * Removes the payment "Mark as paid" booked. Earlier partial payments are kept,
+ * so the invoice goes back to partially paid or sent.
+ *
+ * CRITICAL: Payments entered by hand or imported from the bank are never removed
+ * here; those must be deleted one by one from the payment history.
  */
 export async function revertInvoiceToSent(id: number) {
   const db = await getDb();
   if (!db) throw new Error("Database not available");
   await ensureInvoiceSchema(db);
 
+  const payments = await getInvoicePaymentsByInvoiceId(id);
+  const markedAsPaid = findMarkedAsPaidPayment(payments);
+  if (markedAsPaid) {
+    await deleteInvoicePayment(markedAsPaid.id);
+    return;
+  }
+  if (payments.length > 0) {
+    throw BadRequestError(
+      "Cannot mark as not paid: the invoice was settled by recorded payments. Delete the payment in the payment history instead."
+    );
+  }
+
+  // No ledger entries (e.g. zero-amount uploads): only clear the timestamp
   // NOTE: Status is derived from timestamps, not set directly
-  // Only clear paidAt - amountPaid is preserved to maintain payment history
-  return db
+  await db
     .update(invoices)
     .set({ paidAt: null })
     .where(eq(invoices.id, id));
@@ -2363,12 +2674,65 @@ export async function markInvoiceAsNotCancelled(id: number) {
     .where(eq(invoices.id, id));
 }
 
+export type InvoicePaymentInput = {
+  amount: number;
+  paidAt?: Date;
+  method?: InvoicePayment["method"];
+  reference?: string | null;
+  note?: string | null;
+  source?: InvoicePayment["source"];
+};
+
+export async function getInvoicePaymentsByInvoiceId(invoiceId: number): Promise<InvoicePayment[]> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+  const rows: InvoicePayment[] = await db
+    .select()
+    .from(invoicePayments)
+    .where(eq(invoicePayments.invoiceId, invoiceId));
+  return sortInvoicePayments(rows);
+}
+
+export async function getInvoicePaymentById(id: number): Promise<InvoicePayment | null> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+  const result = await db.select().from(invoicePayments).where(eq(invoicePayments.id, id)).limit(1);
+  return result[0] ?? null;
+}
+
+/**
+ * Recompute amountPaid, lastPaymentAt and paidAt from the payment ledger
+ */
+export async function syncInvoicePaymentTotals(invoiceId: number) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+  await ensureInvoiceSchema(db);
+
+  const invoice = await getInvoiceById(invoiceId);
+  if (!invoice) {
+    throw new Error("Invoice not found");
+  }
+  const payments = await getInvoicePaymentsByInvoiceId(invoiceId);
+  const summary = summarizeInvoicePayments(invoice.total, payments);
+
+  // NOTE: Status is derived from timestamps, not set directly
+  await db
+    .update(invoices)
+    .set({
+      amountPaid: summary.amountPaid.toFixed(2),
+      lastPaymentAt: summary.lastPaymentAt,
+      paidAt: summary.paidAt,
+    })
+    .where(eq(invoices.id, invoiceId));
+  return summary;
+}
+
 /**
- * Add payment to invoice
+ * Record a payment in the ledger
  * Validates amount <= outstanding
- * Sets paidAt if fully paid
+ * Sets paidAt to the payment date once the invoice is fully paid
  */
-export async function addInvoicePayment(id: number, amount: number) {
+export async function addInvoicePayment(id: number, payment: InvoicePaymentInput) {
   const db = await getDb();
   if (!db) throw new Error("Database not available");
   await ensureInvoiceSchema(db);
@@ -2379,38 +2743,50 @@ export async function addInvoicePayment(id: number, amount: number) {
   }
 
   // Validation
-  if (amount <= 0) {
+  if (payment.amount <= 0) {
     throw new Error("Payment amount must be greater than 0");
   }
 
   const total = Number(invoice.total || 0);
   const currentAmountPaid = Number(invoice.amountPaid || 0);
-  const outstanding = total - currentAmountPaid;
+  const outstanding = Number((total - currentAmountPaid).toFixed(2));
 
-  if (amount > outstanding) {
+  if (payment.amount > outstanding) {
     throw new Error("Payment would exceed invoice total");
   }
 
-  // Update amountPaid
-  const newAmountPaid = currentAmountPaid + amount;
-  const updateData: any = {
-    amountPaid: newAmountPaid.toString(),
-    lastPaymentAt: new Date(),
-  };
-
-  // If fully paid, set paidAt to current date
-  // Note: For partial payments that complete the invoice, we use the current date automatically
-  // The user is actively adding a payment, so using today's date is appropriate
-  // For "Mark as Paid" action, the user must explicitly select a date via the dialog
-  // NOTE: Status is derived from timestamps, not set directly
-  if (newAmountPaid >= total) {
-    updateData.paidAt = new Date();
+  const result: any = await db.insert(invoicePayments).values({
+    invoiceId: id,
+    userId: invoice.userId,
+    amount: payment.amount.toFixed(2),
+    paidAt: payment.paidAt ?? new Date(),
+    method: payment.method ?? "bank_transfer",
+    reference: payment.reference ?? null,
+    note: payment.note ?? null,
+    source: payment.source ?? "manual",
+  });
+  const insertId = Array.isArray(result) ? result[0]?.insertId : result.insertId;
+  if (!insertId) {
+    throw new Error("Failed to record payment");
   }
 
-  return db
-    .update(invoices)
-    .set(updateData)
-    .where(eq(invoices.id, id));
+  await syncInvoicePaymentTotals(id);
+  return getInvoicePaymentById(Number(insertId));
+}
+
+/**
+ * Remove a single payment from the ledger; the invoice becomes open again if it was settled
+ */
+export async function deleteInvoicePayment(paymentId: number) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const payment = await getInvoicePaymentById(paymentId);
+  if (!payment) {
+    throw new Error("Payment not found");
+  }
+  await db.delete(invoicePayments).where(eq(invoicePayments.id, paymentId));
+  return syncInvoicePaymentTotals(payment.invoiceId);
 }
 
 /**
@@ -2515,60 +2891,1643 @@ export async function isInvoiceNumberUnique(
 }
 
 // =============================================================================
-// EXPENSES QUERIES
+// QUOTES QUERIES
 // =============================================================================
 
-// Accounting fields that trigger status reset to needs_review
-const ACCOUNTING_FIELDS = [
-  'supplierName',
-  'expenseDate',
-  'grossAmountCents',
-  'currency',
-  'vatMode',
-  'vatRate',
-  'vatAmountCents',
-  'businessUsePct',
-  'category',
-] as const;
+export type QuoteWithItems = Quote & { items: QuoteItem[] };
 
-export async function createExpense(data: InsertExpense) {
+async function attachQuoteItems(quoteList: Quote[]): Promise<QuoteWithItems[]> {
+  if (quoteList.length === 0) return [];
   const db = await getDb();
   if (!db) throw new Error("Database not available");
-  
-  const result = await db.insert(expenses).values(data);
-  const insertId = Array.isArray(result) ? result[0]?.insertId : (result as any).insertId;
-  if (!insertId) {
-    throw new Error("Failed to create expense: no insert ID returned");
-  }
-  
-  const created = await getExpenseById(Number(insertId));
-  if (!created) throw new Error("Failed to retrieve created expense");
-  return created;
+
+  const quoteIds = quoteList.map((quote) => quote.id);
+  const rows: QuoteItem[] = await db
+    .select()
+    .from(quoteItems)
+    .where(inArray(quoteItems.quoteId, quoteIds))
+    .orderBy(quoteItems.id);
+  const grouped = new Map<number, QuoteItem[]>();
+  rows.forEach((item) => {
+    const list = grouped.get(item.quoteId) ?? [];
+    list.push(item);
+    grouped.set(item.quoteId, list);
+  });
+
+  return quoteList.map((quote) => ({
+    ...quote,
+    items: grouped.get(quote.id) ?? [],
+  }));
 }
 
-export async function getExpenseById(id: number) {
+export async function getQuotesByUserId(userId: number) {
   const db = await getDb();
   if (!db) throw new Error("Database not available");
+  const rows = await db
+    .select()
+    .from(quotes)
+    .where(eq(quotes.userId, userId))
+    .orderBy(desc(quotes.issueDate), desc(quotes.id));
+  return attachQuoteItems(rows);
+}
 
-  const query = sql`SELECT * FROM expenses WHERE id = ${id} LIMIT 1`;
-  const result = await db.execute(query);
-  const rows = Array.isArray(result) ? result[0] : result;
-  const list = Array.isArray(rows) ? rows : [];
+export async function getQuoteById(quoteId: number) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+  const result = await db.select().from(quotes).where(eq(quotes.id, quoteId)).limit(1);
+  if (!result || result.length === 0) return null;
+  const [withItems] = await attachQuoteItems(result);
+  return withItems ?? null;
+}
 
-  if (list.length === 0) {
-    return null;
+export async function ensureUniqueQuoteNumber(userId: number, quoteNumber: string, currentQuoteId?: number) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+  let whereClause = and(eq(quotes.userId, userId), eq(quotes.quoteNumber, quoteNumber));
+  if (currentQuoteId) {
+    whereClause = and(whereClause, ne(quotes.id, currentQuoteId));
   }
 
-  const row = list[0] as Expense & Partial<{
-    paymentStatus: "paid" | "unpaid";
-    paymentDate: Date | null;
-    paymentMethod: "cash" | "bank_transfer" | "card" | "online" | null;
-    confidenceScore: number | null;
+  const existing = await db.select({ id: quotes.id }).from(quotes).where(whereClause).limit(1);
+  if (existing.length > 0) {
+    throw new Error("This quote number already exists. Quote numbers must be unique.");
+  }
+}
+
+/**
+ * Next quote number in the AN-YYYY-NNN range. Quotes are numbered
+ * independently from invoices, so the sequence restarts every year.
+ */
+export async function generateQuoteNumber(userId: number, issueDate: Date) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+  const quoteYear = issueDate.getFullYear();
+  const rows: Array<{ quoteNumber: string }> = await db
+    .select({ quoteNumber: quotes.quoteNumber })
+    .from(quotes)
+    .where(and(eq(quotes.userId, userId), eq(quotes.quoteYear, quoteYear)));
+
+  let quoteCounter = getHighestQuoteCounter(rows.map((row) => row.quoteNumber), quoteYear) + 1;
+  for (let attempt = 0; attempt < 20; attempt += 1) {
+    const quoteNumber = formatQuoteNumber(quoteYear, quoteCounter);
+    try {
+      await ensureUniqueQuoteNumber(userId, quoteNumber);
+      return { quoteNumber, quoteCounter, quoteYear };
+    } catch {
+      quoteCounter += 1;
+    }
+  }
+
+  throw new Error("Failed to generate a unique quote number after multiple attempts.");
+}
+
+export async function createQuote(data: Omit<InsertQuote, "id"> & { items?: Array<Omit<InsertQuoteItem, "quoteId">> }) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const { items, ...quoteData } = data;
+  const result = await db.insert(quotes).values({ ...quoteData, status: "draft" });
+  const insertId = Array.isArray(result) ? result[0]?.insertId : (result as any).insertId;
+  if (!insertId) {
+    throw new Error("Failed to create quote: no insert ID returned");
+  }
+
+  if (items && items.length > 0) {
+    await db.insert(quoteItems).values(items.map((item) => ({ ...item, quoteId: Number(insertId) })));
+  }
+
+  const created = await getQuoteById(Number(insertId));
+  if (!created) throw new Error("Failed to retrieve created quote");
+  return created;
+}
+
+export async function updateQuote(id: number, data: Partial<InsertQuote> & { items?: Array<Omit<InsertQuoteItem, "quoteId">> }) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const { items, ...quoteData } = data;
+  if (Object.keys(quoteData).length > 0) {
+    await db.update(quotes).set(quoteData).where(eq(quotes.id, id));
+  }
+
+  if (items) {
+    await db.delete(quoteItems).where(eq(quoteItems.quoteId, id));
+    if (items.length > 0) {
+      await db.insert(quoteItems).values(items.map((item) => ({ ...item, quoteId: id })));
+    }
+  }
+
+  return getQuoteById(id);
+}
+
+export async function deleteQuote(id: number) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+  await db.delete(quoteItems).where(eq(quoteItems.quoteId, id));
+  return db.delete(quotes).where(eq(quotes.id, id));
+}
+
+/**
+ * Create a draft invoice from a quote: copies client, project, texts and
+ * line items (including VAT) and marks the quote as accepted and converted.
+ * Returns the id of the new invoice; converting twice returns the same id.
+ */
+export async function convertQuoteToInvoice(userId: number, quoteId: number) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+  await ensureInvoiceSchema(db);
+
+  const issueDate = new Date();
+  const settings = await getCompanySettingsByUserId(userId);
+  const { invoiceNumber, invoiceCounter, invoiceYear } = await generateInvoiceNumber(
+    userId,
+    issueDate,
+    settings?.invoiceNumberFormat ?? null,
+    settings?.invoicePrefix ?? "RE"
+  );
+
+  return db.transaction(async (tx: any) => {
+    const [quote] = await tx.select().from(quotes).where(eq(quotes.id, quoteId)).limit(1);
+    if (!quote) {
+      throw new Error("Quote not found");
+    }
+    if (quote.userId !== userId) {
+      throw new Error("You don't have access to this quote");
+    }
+    if (quote.convertedInvoiceId) {
+      return Number(quote.convertedInvoiceId);
+    }
+    if (quote.status === "declined") {
+      throw new Error("Declined quotes cannot be converted into an invoice.");
+    }
+
+    const items: QuoteItem[] = await tx
+      .select()
+      .from(quoteItems)
+      .where(eq(quoteItems.quoteId, quoteId))
+      .orderBy(quoteItems.id);
+    if (items.length === 0) {
+      throw new Error("Quotes without line items cannot be converted into an invoice.");
+    }
+
+    const insertResult = await tx.insert(invoices).values({
+      userId,
+      clientId: quote.clientId ?? null,
+      contactId: quote.clientId ?? null,
+      projectId: quote.projectId ?? null,
+      invoiceNumber,
+      invoiceName: invoiceNumber,
+      invoiceCounter,
+      invoiceYear,
+      status: "draft",
+      type: "standard",
+      issueDate,
+      dueDate: null,
+      notes: quote.notes ?? null,
+      terms: quote.terms ?? null,
+      referenceNumber: quote.referenceNumber ?? null,
+      partialInvoice: false,
+      subtotal: quote.subtotal,
+      vatAmount: quote.vatAmount,
+      total: quote.total,
+      source: "created",
+    });
+    const insertId = Array.isArray(insertResult) ? insertResult[0]?.insertId : (insertResult as any).insertId;
+    if (!insertId) {
+      throw new Error("Failed to create invoice from quote");
+    }
+
+    await tx.insert(invoiceItems).values(
+      items.map((item) => ({
+        invoiceId: Number(insertId),
+        name: item.name,
+        description: item.description ?? null,
+        category: item.category ?? null,
+        quantity: item.quantity,
+        unitPrice: item.unitPrice,
+        currency: item.currency ?? "EUR",
+        lineTotal: item.lineTotal,
+        vatRate: item.vatRate ?? null,
+        vatCategory: item.vatCategory ?? "standard",
+      }))
+    );
+
+    const now = new Date();
+    await tx
+      .update(quotes)
+      .set({
+        status: "accepted",
+        acceptedAt: quote.acceptedAt ?? now,
+        convertedInvoiceId: Number(insertId),
+        convertedAt: now,
+      })
+      .where(eq(quotes.id, quoteId));
+
+    return Number(insertId);
+  });
+}
+
+// =============================================================================
+// DUNNING QUERIES
+// =============================================================================
+
+export async function getDunningLevelsByUserId(userId: number): Promise<DunningLevelRow[]> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+  return db
+    .select()
+    .from(dunningLevels)
+    .where(eq(dunningLevels.userId, userId))
+    .orderBy(dunningLevels.level);
+}
+
+export async function saveDunningLevels(userId: number, levels: Array<Omit<InsertDunningLevelRow, "id" | "userId">>) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+  for (const level of levels) {
+    await db
+      .insert(dunningLevels)
+      .values({ ...level, userId })
+      .onDuplicateKeyUpdate({
+        set: {
+          name: level.name,
+          waitDays: level.waitDays,
+          fee: level.fee,
+          interestRate: level.interestRate ?? null,
+          paymentTermDays: level.paymentTermDays,
+          text: level.text,
+        },
+      });
+  }
+  return getDunningLevelsByUserId(userId);
+}
+
+/**
+ * Sent, unpaid and not cancelled invoices whose due date is before the given day
+ */
+export async function getOverdueInvoicesByUserId(userId: number, before: Date): Promise<Invoice[]> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+  await ensureInvoiceSchema(db);
+  return db
+    .select()
+    .from(invoices)
+    .where(and(
+      eq(invoices.userId, userId),
+      eq(invoices.type, "standard"),
+      isNotNull(invoices.sentAt),
+      isNull(invoices.paidAt),
+      isNull(invoices.cancelledAt),
+      isNull(invoices.archivedAt),
+      isNull(invoices.trashedAt),
+      or(isNull(invoices.needsReview), eq(invoices.needsReview, false)),
+      lt(invoices.dueDate, before)
+    ))
+    .orderBy(invoices.dueDate);
+}
+
+export async function getDunningsByInvoiceId(invoiceId: number): Promise<InvoiceDunning[]> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+  return db
+    .select()
+    .from(invoiceDunnings)
+    .where(eq(invoiceDunnings.invoiceId, invoiceId))
+    .orderBy(invoiceDunnings.level);
+}
+
+export async function getDunningsByInvoiceIds(invoiceIds: number[]): Promise<InvoiceDunning[]> {
+  if (invoiceIds.length === 0) return [];
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+  return db
+    .select()
+    .from(invoiceDunnings)
+    .where(inArray(invoiceDunnings.invoiceId, invoiceIds))
+    .orderBy(invoiceDunnings.invoiceId, invoiceDunnings.level);
+}
+
+export async function getDunningById(id: number): Promise<InvoiceDunning | null> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+  const result = await db.select().from(invoiceDunnings).where(eq(invoiceDunnings.id, id)).limit(1);
+  return result[0] ?? null;
+}
+
+export async function createDunning(data: Omit<InsertInvoiceDunning, "id">) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+  const result: any = await db.insert(invoiceDunnings).values(data);
+  const insertId = Array.isArray(result) ? result[0]?.insertId : result.insertId;
+  if (!insertId) {
+    throw new Error("Failed to create dunning notice");
+  }
+  return getDunningById(Number(insertId));
+}
+
+export async function deleteDunning(id: number) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+  await db.delete(invoiceDunnings).where(eq(invoiceDunnings.id, id));
+}
+
+// =============================================================================
+// RECURRING INVOICES QUERIES
+// =============================================================================
+
+export type RecurringInvoiceWithItems = RecurringInvoice & { items: RecurringInvoiceItem[] };
+
+async function attachRecurringInvoiceItems(templates: RecurringInvoice[]): Promise<RecurringInvoiceWithItems[]> {
+  if (templates.length === 0) return [];
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const templateIds = templates.map((template) => template.id);
+  const rows: RecurringInvoiceItem[] = await db
+    .select()
+    .from(recurringInvoiceItems)
+    .where(inArray(recurringInvoiceItems.recurringInvoiceId, templateIds))
+    .orderBy(recurringInvoiceItems.id);
+  const grouped = new Map<number, RecurringInvoiceItem[]>();
+  rows.forEach((item) => {
+    const list = grouped.get(item.recurringInvoiceId) ?? [];
+    list.push(item);
+    grouped.set(item.recurringInvoiceId, list);
+  });
+
+  return templates.map((template) => ({
+    ...template,
+    items: grouped.get(template.id) ?? [],
+  }));
+}
+
+export async function getRecurringInvoicesByUserId(userId: number) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+  const rows = await db
+    .select()
+    .from(recurringInvoices)
+    .where(eq(recurringInvoices.userId, userId))
+    .orderBy(desc(recurringInvoices.isActive), recurringInvoices.nextRunDate, recurringInvoices.id);
+  return attachRecurringInvoiceItems(rows);
+}
+
+export async function getRecurringInvoiceById(id: number) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+  const result = await db.select().from(recurringInvoices).where(eq(recurringInvoices.id, id)).limit(1);
+  if (!result || result.length === 0) return null;
+  const [withItems] = await attachRecurringInvoiceItems(result);
+  return withItems ?? null;
+}
+
+/**
+ * Active templates of all users whose pending run is on or before the given date
+ */
+export async function getDueRecurringInvoices(until: Date) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+  const rows = await db
+    .select()
+    .from(recurringInvoices)
+    .where(and(
+      eq(recurringInvoices.isActive, true),
+      isNotNull(recurringInvoices.nextRunDate),
+      lte(recurringInvoices.nextRunDate, until)
+    ))
+    .orderBy(recurringInvoices.nextRunDate);
+  return attachRecurringInvoiceItems(rows);
+}
+
+export async function createRecurringInvoice(
+  data: Omit<InsertRecurringInvoice, "id"> & { items?: Array<Omit<InsertRecurringInvoiceItem, "recurringInvoiceId">> }
+) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const { items, ...templateData } = data;
+  const result: any = await db.insert(recurringInvoices).values(templateData);
+  const insertId = Array.isArray(result) ? result[0]?.insertId : result.insertId;
+  if (!insertId) {
+    throw new Error("Failed to create recurring invoice: no insert ID returned");
+  }
+
+  if (items && items.length > 0) {
+    await db
+      .insert(recurringInvoiceItems)
+      .values(items.map((item) => ({ ...item, recurringInvoiceId: Number(insertId) })));
+  }
+
+  const created = await getRecurringInvoiceById(Number(insertId));
+  if (!created) throw new Error("Failed to retrieve created recurring invoice");
+  return created;
+}
+
+export async function updateRecurringInvoice(
+  id: number,
+  data: Partial<InsertRecurringInvoice> & { items?: Array<Omit<InsertRecurringInvoiceItem, "recurringInvoiceId">> }
+) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const { items, ...templateData } = data;
+  if (Object.keys(templateData).length > 0) {
+    await db.update(recurringInvoices).set(templateData).where(eq(recurringInvoices.id, id));
+  }
+
+  if (items) {
+    await db.delete(recurringInvoiceItems).where(eq(recurringInvoiceItems.recurringInvoiceId, id));
+    if (items.length > 0) {
+      await db.insert(recurringInvoiceItems).values(items.map((item) => ({ ...item, recurringInvoiceId: id })));
+    }
+  }
+
+  return getRecurringInvoiceById(id);
+}
+
+/**
+ * Delete a template with its items and run history; generated invoices are kept
+ */
+export async function deleteRecurringInvoice(id: number) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+  await db.delete(recurringInvoiceRuns).where(eq(recurringInvoiceRuns.recurringInvoiceId, id));
+  await db.delete(recurringInvoiceItems).where(eq(recurringInvoiceItems.recurringInvoiceId, id));
+  return db.delete(recurringInvoices).where(eq(recurringInvoices.id, id));
+}
+
+/**
+ * Claim a run before creating its invoice. Returns null when another process
+ * already handled this run date; failed runs and runs left pending by a crash
+ * can be claimed again.
+ */
+export async function claimRecurringInvoiceRun(recurringInvoiceId: number, userId: number, runDate: Date) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const existing: RecurringInvoiceRun[] = await db
+    .select()
+    .from(recurringInvoiceRuns)
+    .where(and(eq(recurringInvoiceRuns.recurringInvoiceId, recurringInvoiceId), eq(recurringInvoiceRuns.runDate, runDate)))
+    .limit(1);
+  if (existing[0]) {
+    const now = new Date();
+    if (!isRunReclaimable(existing[0], now)) return null;
+    const staleBefore = new Date(now.getTime() - RECURRING_RUN_STALE_MINUTES * 60 * 1000);
+    // Refreshing updatedAt makes a concurrent claim of the same stale run miss it
+    const claimed: any = await db
+      .update(recurringInvoiceRuns)
+      .set({ status: "pending", error: null, updatedAt: now })
+      .where(and(
+        eq(recurringInvoiceRuns.id, existing[0].id),
+        or(
+          eq(recurringInvoiceRuns.status, "failed"),
+          and(
+            eq(recurringInvoiceRuns.status, "pending"),
+            isNull(recurringInvoiceRuns.invoiceId),
+            lt(recurringInvoiceRuns.updatedAt, staleBefore)
+          )
+        )
+      ));
+    const affectedRows = Array.isArray(claimed) ? claimed[0]?.affectedRows : claimed.affectedRows;
+    return affectedRows ? { ...existing[0], status: "pending" as const, error: null, updatedAt: now } : null;
+  }
+
+  try {
+    const result: any = await db.insert(recurringInvoiceRuns).values({ recurringInvoiceId, userId, runDate, status: "pending" });
+    const insertId = Array.isArray(result) ? result[0]?.insertId : result.insertId;
+    const [run] = await db.select().from(recurringInvoiceRuns).where(eq(recurringInvoiceRuns.id, Number(insertId))).limit(1);
+    return (run as RecurringInvoiceRun | undefined) ?? null;
+  } catch (error: any) {
+    if (error?.code === "ER_DUP_ENTRY") return null;
+    throw error;
+  }
+}
+
+export async function updateRecurringInvoiceRun(
+  id: number,
+  data: Partial<Pick<RecurringInvoiceRun, "invoiceId" | "status" | "error">>
+) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+  await db.update(recurringInvoiceRuns).set(data).where(eq(recurringInvoiceRuns.id, id));
+}
+
+/**
+ * Run history of a user (optionally one template), newest first, with the generated invoice
+ */
+export async function getRecurringInvoiceRunsByUserId(userId: number, recurringInvoiceId?: number, limit = 100) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+  await ensureInvoiceSchema(db);
+
+  let whereClause = eq(recurringInvoiceRuns.userId, userId);
+  if (recurringInvoiceId) {
+    whereClause = and(whereClause, eq(recurringInvoiceRuns.recurringInvoiceId, recurringInvoiceId))!;
+  }
+
+  const rows: Array<{
+    run: RecurringInvoiceRun;
+    templateName: string | null;
+    invoiceNumber: string | null;
+    invoiceStatus: Invoice["status"] | null;
+    invoiceTotal: string | null;
+  }> = await db
+    .select({
+      run: recurringInvoiceRuns,
+      templateName: recurringInvoices.name,
+      invoiceNumber: invoices.invoiceNumber,
+      invoiceStatus: invoices.status,
+      invoiceTotal: invoices.total,
+    })
+    .from(recurringInvoiceRuns)
+    .leftJoin(recurringInvoices, eq(recurringInvoices.id, recurringInvoiceRuns.recurringInvoiceId))
+    .leftJoin(invoices, eq(invoices.id, recurringInvoiceRuns.invoiceId))
+    .where(whereClause)
+    .orderBy(desc(recurringInvoiceRuns.runDate), desc(recurringInvoiceRuns.id))
+    .limit(limit);
+
+  return rows.map(({ run, ...invoice }) => ({ ...run, ...invoice }));
+}
+
+// =============================================================================
+// BANK IMPORT QUERIES
+// =============================================================================
+
+export type BankTransactionInput = Omit<InsertBankTransaction, "id" | "importId" | "userId" | "status" | "createdAt" | "updatedAt">;
+
+/**
+ * Store an imported statement. Transactions that were already imported from an
+ * overlapping statement (same fingerprint) are skipped; no import is created
+ * when nothing new is left.
+ */
+export async function createBankImport(
+  data: Pick<InsertBankImport, "userId" | "fileName" | "format" | "accountIban">,
+  transactions: BankTransactionInput[]
+): Promise<{ importId: number | null; imported: number; duplicates: number }> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const fingerprints = Array.from(new Set(transactions.map((transaction) => transaction.fingerprint)));
+  const existing: Array<{ fingerprint: string }> = fingerprints.length > 0
+    ? await db
+        .select({ fingerprint: bankTransactions.fingerprint })
+        .from(bankTransactions)
+        .where(and(eq(bankTransactions.userId, data.userId), inArray(bankTransactions.fingerprint, fingerprints)))
+    : [];
+  const known = new Set(existing.map((row) => row.fingerprint));
+  const fresh = transactions.filter((transaction) => !known.has(transaction.fingerprint));
+  const duplicates = transactions.length - fresh.length;
+
+  if (fresh.length === 0) {
+    return { importId: null, imported: 0, duplicates };
+  }
+
+  const result: any = await db.insert(bankImports).values({
+    ...data,
+    transactionCount: transactions.length,
+    importedCount: fresh.length,
+  });
+  const importId = Number(Array.isArray(result) ? result[0]?.insertId : result.insertId);
+  if (!importId) {
+    throw new Error("Failed to create bank import");
+  }
+
+  const BATCH_SIZE = 200;
+  for (let i = 0; i < fresh.length; i += BATCH_SIZE) {
+    await db.insert(bankTransactions).values(
+      fresh.slice(i, i + BATCH_SIZE).map((transaction) => ({
+        ...transaction,
+        importId,
+        userId: data.userId,
+      }))
+    );
+  }
+
+  return { importId, imported: fresh.length, duplicates };
+}
+
+/**
+ * Imports of a user, newest first, with the number of transactions still open
+ */
+export async function getBankImportsByUserId(
+  userId: number
+): Promise<Array<Omit<BankImport, "userId"> & { openCount: number }>> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const rows: Array<Omit<BankImport, "userId"> & { openCount: number | string }> = await db
+    .select({
+      id: bankImports.id,
+      fileName: bankImports.fileName,
+      format: bankImports.format,
+      accountIban: bankImports.accountIban,
+      transactionCount: bankImports.transactionCount,
+      importedCount: bankImports.importedCount,
+      createdAt: bankImports.createdAt,
+      openCount: sql<number>`(SELECT COUNT(*) FROM bank_transactions t WHERE t.importId = ${bankImports.id} AND t.status = 'unmatched')`,
+    })
+    .from(bankImports)
+    .where(eq(bankImports.userId, userId))
+    .orderBy(desc(bankImports.createdAt), desc(bankImports.id));
+
+  return rows.map((row) => ({ ...row, openCount: Number(row.openCount) }));
+}
+
+export async function getBankImportById(id: number): Promise<BankImport | null> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+  const [row] = await db.select().from(bankImports).where(eq(bankImports.id, id)).limit(1);
+  return row ?? null;
+}
+
+export async function deleteBankImport(id: number) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+  await db.delete(bankTransactions).where(eq(bankTransactions.importId, id));
+  await db.delete(bankImports).where(eq(bankImports.id, id));
+}
+
+/**
+ * Transactions of a user, newest first, with the label of the matched invoice or expense
+ */
+export async function getBankTransactionsByUserId(
+  userId: number,
+  filters: { importId?: number; status?: BankTransaction["status"] } = {},
+  limit = 500
+) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+  await ensureInvoiceSchema(db);
+
+  const conditions = [eq(bankTransactions.userId, userId)];
+  if (filters.importId) {
+    conditions.push(eq(bankTransactions.importId, filters.importId));
+  }
+  if (filters.status) {
+    conditions.push(eq(bankTransactions.status, filters.status));
+  }
+
+  const rows: Array<{
+    transaction: BankTransaction;
+    matchedInvoiceNumber: string | null;
+    matchedExpenseSupplier: string | null;
+  }> = await db
+    .select({
+      transaction: bankTransactions,
+      matchedInvoiceNumber: invoices.invoiceNumber,
+      matchedExpenseSupplier: expenses.supplierName,
+    })
+    .from(bankTransactions)
+    .leftJoin(invoices, eq(invoices.id, bankTransactions.matchedInvoiceId))
+    .leftJoin(expenses, eq(expenses.id, bankTransactions.matchedExpenseId))
+    .where(and(...conditions))
+    .orderBy(desc(bankTransactions.bookingDate), desc(bankTransactions.id))
+    .limit(limit);
+
+  return rows.map(({ transaction, ...match }) => ({ ...transaction, ...match }));
+}
+
+export async function getBankTransactionById(id: number): Promise<BankTransaction | null> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+  const [row] = await db.select().from(bankTransactions).where(eq(bankTransactions.id, id)).limit(1);
+  return row ?? null;
+}
+
+export async function countMatchedBankTransactions(importId: number): Promise<number> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+  const [row] = await db
+    .select({ count: sql<number>`count(*)` })
+    .from(bankTransactions)
+    .where(and(eq(bankTransactions.importId, importId), eq(bankTransactions.status, "matched")));
+  return Number(row?.count ?? 0);
+}
+
+export async function updateBankTransaction(
+  id: number,
+  data: Partial<Pick<BankTransaction, "status" | "matchedInvoiceId" | "invoicePaymentId" | "matchedExpenseId" | "matchedAt">>
+) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+  await db.update(bankTransactions).set(data).where(eq(bankTransactions.id, id));
+}
+
+/**
+ * Sent, not yet settled invoices that can receive a bank payment
+ */
+export async function getOpenInvoicesForBankMatching(userId: number) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+  await ensureInvoiceSchema(db);
+
+  const rows: Array<{
+    id: number;
+    invoiceNumber: string | null;
+    clientId: number | null;
+    clientName: string | null;
+    total: string;
+    amountPaid: string;
+  }> = await db
+    .select({
+      id: invoices.id,
+      invoiceNumber: invoices.invoiceNumber,
+      clientId: invoices.clientId,
+      clientName: contacts.name,
+      total: invoices.total,
+      amountPaid: invoices.amountPaid,
+    })
+    .from(invoices)
+    .leftJoin(contacts, eq(contacts.id, invoices.clientId))
+    .where(and(
+      eq(invoices.userId, userId),
+      eq(invoices.type, "standard"),
+      isNotNull(invoices.sentAt),
+      isNull(invoices.paidAt),
+      isNull(invoices.cancelledAt),
+      isNull(invoices.trashedAt)
+    ));
+
+  return rows.map((row) => ({
+    ...row,
+    total: Number(row.total || 0),
+    amountPaid: Number(row.amountPaid || 0),
+  }));
+}
+
+/**
+ * Unpaid, not voided expenses that can be settled by a bank payment
+ */
+export async function getUnpaidExpensesForBankMatching(userId: number) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  return db
+    .select({
+      id: expenses.id,
+      supplierName: expenses.supplierName,
+      // Bank payments are in EUR; foreign-currency receipts match by their EUR amount
+      grossAmountCents: sql<number>`COALESCE(${expenses.grossAmountEurCents}, ${expenses.grossAmountCents})`,
+      expenseDate: expenses.expenseDate,
+    })
+    .from(expenses)
+    .where(and(
+      eq(expenses.createdBy, userId),
+      eq(expenses.paymentStatus, "unpaid"),
+      ne(expenses.status, "void"),
+      // Without an EUR amount, the receipt amount would be compared as euros
+      or(eq(expenses.currency, BASE_CURRENCY), isNotNull(expenses.grossAmountEurCents))
+    ));
+}
+
+// =============================================================================
+// MILEAGE LOG QUERIES
+// =============================================================================
+
+export async function getVehiclesByUserId(userId: number): Promise<Vehicle[]> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+  return db
+    .select()
+    .from(vehicles)
+    .where(eq(vehicles.userId, userId))
+    .orderBy(vehicles.archivedAt, vehicles.name);
+}
+
+export async function getVehicleById(id: number): Promise<Vehicle | null> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+  const [row] = await db.select().from(vehicles).where(eq(vehicles.id, id)).limit(1);
+  return row ?? null;
+}
+
+export async function createVehicle(data: Omit<InsertVehicle, "id" | "createdAt" | "updatedAt">): Promise<Vehicle> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+  const result: any = await db.insert(vehicles).values(data);
+  const insertId = Number(Array.isArray(result) ? result[0]?.insertId : result.insertId);
+  const created = insertId ? await getVehicleById(insertId) : null;
+  if (!created) throw new Error("Failed to create vehicle");
+  return created;
+}
+
+export async function updateVehicle(
+  id: number,
+  updates: Partial<Pick<InsertVehicle, "name" | "licensePlate" | "kind" | "ratePerKm" | "archivedAt">>
+) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+  await db.update(vehicles).set(updates).where(eq(vehicles.id, id));
+  return getVehicleById(id);
+}
+
+/** Vehicles without trips can be removed; the others are archived */
+export async function deleteVehicle(id: number) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+  await db.delete(vehicles).where(eq(vehicles.id, id));
+}
+
+export async function countMileageTripsByVehicleId(vehicleId: number): Promise<number> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+  const [row] = await db
+    .select({ count: sql<number>`COUNT(*)` })
+    .from(mileageTrips)
+    .where(eq(mileageTrips.vehicleId, vehicleId));
+  return Number(row?.count ?? 0);
+}
+
+export type MileageTripWithProject = MileageTrip & { projectName: string | null };
+
+/**
+ * Trips of a vehicle in log order, optionally limited to a date range
+ */
+export async function getMileageTripsByVehicleId(
+  vehicleId: number,
+  range?: { from: Date; to: Date }
+): Promise<MileageTripWithProject[]> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const rows: MileageTripWithProject[] = await db
+    .select({
+      id: mileageTrips.id,
+      userId: mileageTrips.userId,
+      vehicleId: mileageTrips.vehicleId,
+      sequence: mileageTrips.sequence,
+      tripDate: mileageTrips.tripDate,
+      startAddress: mileageTrips.startAddress,
+      endAddress: mileageTrips.endAddress,
+      distanceKm: mileageTrips.distanceKm,
+      distanceSource: mileageTrips.distanceSource,
+      odometerStart: mileageTrips.odometerStart,
+      odometerEnd: mileageTrips.odometerEnd,
+      tripType: mileageTrips.tripType,
+      purpose: mileageTrips.purpose,
+      businessPartner: mileageTrips.businessPartner,
+      projectId: mileageTrips.projectId,
+      ratePerKm: mileageTrips.ratePerKm,
+      expenseId: mileageTrips.expenseId,
+      replacesTripId: mileageTrips.replacesTripId,
+      recordedAt: mileageTrips.recordedAt,
+      previousHash: mileageTrips.previousHash,
+      hash: mileageTrips.hash,
+      projectName: projects.name,
+    })
+    .from(mileageTrips)
+    .leftJoin(projects, eq(projects.id, mileageTrips.projectId))
+    .where(and(
+      eq(mileageTrips.vehicleId, vehicleId),
+      range ? gte(mileageTrips.tripDate, range.from) : undefined,
+      range ? lte(mileageTrips.tripDate, range.to) : undefined
+    ))
+    .orderBy(mileageTrips.sequence);
+  return rows;
+}
+
+export async function getMileageTripById(id: number): Promise<MileageTrip | null> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+  const [row] = await db.select().from(mileageTrips).where(eq(mileageTrips.id, id)).limit(1);
+  return row ?? null;
+}
+
+export async function getMileageTripByReplacedId(replacesTripId: number): Promise<MileageTrip | null> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+  const [row] = await db
+    .select()
+    .from(mileageTrips)
+    .where(eq(mileageTrips.replacesTripId, replacesTripId))
+    .limit(1);
+  return row ?? null;
+}
+
+export type MileageTripEntry = Omit<InsertMileageTrip, "id" | "sequence" | "previousHash" | "hash">;
+
+/**
+ * Append a trip to its vehicle's log. The hash is computed by the caller
+ * from the assigned position; if another trip took the position in the
+ * meantime, the unique (vehicleId, sequence) index rejects the insert and
+ * the next position is tried.
+ */
+export async function appendMileageTrip(
+  entry: MileageTripEntry,
+  computeHash: (sequence: number, previousHash: string) => string,
+  genesisHash: string
+): Promise<MileageTrip> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const MAX_ATTEMPTS = 5;
+  for (let attempt = 1; ; attempt++) {
+    const [last]: Array<{ sequence: number; hash: string }> = await db
+      .select({ sequence: mileageTrips.sequence, hash: mileageTrips.hash })
+      .from(mileageTrips)
+      .where(eq(mileageTrips.vehicleId, entry.vehicleId))
+      .orderBy(desc(mileageTrips.sequence))
+      .limit(1);
+    const sequence = (last?.sequence ?? 0) + 1;
+    const previousHash = last?.hash ?? genesisHash;
+
+    try {
+      const result: any = await db.insert(mileageTrips).values({
+        ...entry,
+        sequence,
+        previousHash,
+        hash: computeHash(sequence, previousHash),
+      });
+      const insertId = Number(Array.isArray(result) ? result[0]?.insertId : result.insertId);
+      const created = insertId ? await getMileageTripById(insertId) : null;
+      if (!created) throw new Error("Failed to record trip");
+      return created;
+    } catch (error: any) {
+      if (error?.code === "ER_DUP_ENTRY" && attempt < MAX_ATTEMPTS) continue;
+      throw error;
+    }
+  }
+}
+
+// =============================================================================
+// PER DIEM QUERIES
+// =============================================================================
+
+export type CheckinWithProject = {
+  id: number;
+  projectId: number;
+  checkInTime: Date;
+  checkOutTime: Date | null;
+  latitude: string | null;
+  longitude: string | null;
+  projectName: string;
+  projectGeo: { lat: number; lng: number } | null;
+};
+
+/**
+ * Completed check-ins of a user that started within the range
+ */
+export async function getCompletedCheckinsByUserId(
+  userId: number,
+  range: { from: Date; to: Date }
+): Promise<CheckinWithProject[]> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const rows: CheckinWithProject[] = await db
+    .select({
+      id: projectCheckins.id,
+      projectId: projectCheckins.projectId,
+      checkInTime: projectCheckins.checkInTime,
+      checkOutTime: projectCheckins.checkOutTime,
+      latitude: projectCheckins.latitude,
+      longitude: projectCheckins.longitude,
+      projectName: projects.name,
+      projectGeo: projects.geo,
+    })
+    .from(projectCheckins)
+    .innerJoin(projects, eq(projects.id, projectCheckins.projectId))
+    .where(and(
+      eq(projectCheckins.userId, userId),
+      isNotNull(projectCheckins.checkOutTime),
+      gte(projectCheckins.checkInTime, range.from),
+      lte(projectCheckins.checkInTime, range.to)
+    ))
+    .orderBy(projectCheckins.checkInTime);
+  return rows;
+}
+
+export type PerDiemClaimWithExpense = PerDiemClaimRecord & {
+  expenseStatus: Expense["status"];
+};
+
+/**
+ * Claims whose absence started within the range
+ */
+export async function getPerDiemClaimsByUserId(
+  userId: number,
+  range: { from: Date; to: Date }
+): Promise<PerDiemClaimWithExpense[]> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const rows: PerDiemClaimWithExpense[] = await db
+    .select({
+      id: perDiemClaims.id,
+      userId: perDiemClaims.userId,
+      startsAt: perDiemClaims.startsAt,
+      endsAt: perDiemClaims.endsAt,
+      days: perDiemClaims.days,
+      amountCents: perDiemClaims.amountCents,
+      expenseId: perDiemClaims.expenseId,
+      createdAt: perDiemClaims.createdAt,
+      expenseStatus: expenses.status,
+    })
+    .from(perDiemClaims)
+    .innerJoin(expenses, eq(expenses.id, perDiemClaims.expenseId))
+    .where(and(
+      eq(perDiemClaims.userId, userId),
+      gte(perDiemClaims.startsAt, range.from),
+      lte(perDiemClaims.startsAt, range.to)
+    ))
+    .orderBy(perDiemClaims.startsAt);
+  return rows;
+}
+
+/**
+ * Record the claim for an absence. Returns null if the absence was already
+ * claimed.
+ */
+export async function createPerDiemClaim(data: InsertPerDiemClaim): Promise<PerDiemClaimRecord | null> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  try {
+    const result: any = await db.insert(perDiemClaims).values(data);
+    const insertId = Number(Array.isArray(result) ? result[0]?.insertId : result.insertId);
+    const [claim] = await db.select().from(perDiemClaims).where(eq(perDiemClaims.id, insertId)).limit(1);
+    return claim ?? null;
+  } catch (error: any) {
+    if (error?.code === "ER_DUP_ENTRY") return null;
+    throw error;
+  }
+}
+
+// =============================================================================
+// SUBSCRIPTION QUERIES
+// =============================================================================
+
+export async function getSubscriptionsByUserId(userId: number): Promise<SubscriptionRecord[]> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  return db
+    .select()
+    .from(subscriptions)
+    .where(eq(subscriptions.userId, userId))
+    .orderBy(subscriptions.supplierName);
+}
+
+export async function getSubscriptionById(id: number): Promise<SubscriptionRecord | null> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const [row] = await db.select().from(subscriptions).where(eq(subscriptions.id, id)).limit(1);
+  return row ?? null;
+}
+
+/**
+ * Create the subscription of a supplier or refresh its detected cadence and
+ * amount. The status set by the user is kept.
+ */
+export async function upsertSubscription(data: Omit<InsertSubscription, "id" | "status">) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  await db
+    .insert(subscriptions)
+    .values(data)
+    .onDuplicateKeyUpdate({
+      set: {
+        supplierName: data.supplierName,
+        cadence: data.cadence,
+        expectedAmountCents: data.expectedAmountCents,
+        currency: data.currency,
+        firstChargedAt: data.firstChargedAt,
+        lastChargedAt: data.lastChargedAt,
+        lastExpenseId: data.lastExpenseId ?? null,
+      },
+    });
+}
+
+export async function setSubscriptionStatus(id: number, status: SubscriptionRecord["status"]) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  await db.update(subscriptions).set({ status }).where(eq(subscriptions.id, id));
+  return getSubscriptionById(id);
+}
+
+// =============================================================================
+// EXCHANGE RATE QUERIES
+// =============================================================================
+
+const EXCHANGE_RATE_INSERT_BATCH = 1000;
+
+/**
+ * Store imported ECB rates; rates already stored for a day are overwritten
+ */
+export async function upsertExchangeRates(rates: Array<Pick<InsertExchangeRate, "currency" | "rateDate" | "rate">>) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  for (let start = 0; start < rates.length; start += EXCHANGE_RATE_INSERT_BATCH) {
+    await db
+      .insert(exchangeRates)
+      .values(rates.slice(start, start + EXCHANGE_RATE_INSERT_BATCH))
+      .onDuplicateKeyUpdate({ set: { rate: sql`VALUES(\`rate\`)` } });
+  }
+}
+
+/**
+ * ECB rate for a currency on a day: the rate of that day, or the latest
+ * earlier one within MAX_EXCHANGE_RATE_AGE_DAYS (weekends, holidays)
+ */
+export async function getExchangeRateOn(currency: string, day: string): Promise<{ rate: string; rateDate: string } | null> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const earliest = new Date(`${day}T00:00:00`);
+  earliest.setDate(earliest.getDate() - MAX_EXCHANGE_RATE_AGE_DAYS);
+
+  const [row] = await db
+    .select({ rate: exchangeRates.rate, rateDate: exchangeRates.rateDate })
+    .from(exchangeRates)
+    .where(and(
+      eq(exchangeRates.currency, currency),
+      lte(exchangeRates.rateDate, day),
+      gte(exchangeRates.rateDate, toRateDate(earliest))
+    ))
+    .orderBy(desc(exchangeRates.rateDate))
+    .limit(1);
+  return row ?? null;
+}
+
+/** Imported currencies with their number of rates and covered period */
+export async function getExchangeRateCoverage() {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const rows: Array<{ currency: string; count: number; firstDate: string; lastDate: string }> = await db
+    .select({
+      currency: exchangeRates.currency,
+      count: sql<number>`count(*)`,
+      firstDate: sql<string>`min(${exchangeRates.rateDate})`,
+      lastDate: sql<string>`max(${exchangeRates.rateDate})`,
+    })
+    .from(exchangeRates)
+    .groupBy(exchangeRates.currency)
+    .orderBy(exchangeRates.currency);
+  return rows.map((row) => ({ ...row, count: Number(row.count) }));
+}
+
+/**
+ * EUR amount and rate for an expense: a manual rate is kept, otherwise the
+ * ECB rate of the expense date is looked up
+ */
+async function getExpenseEurConversion(expense: {
+  currency: string;
+  grossAmountCents: number;
+  expenseDate: Date;
+  exchangeRate?: string | null;
+  exchangeRateDate?: string | null;
+  exchangeRateSource?: EurConversion["exchangeRateSource"];
+}): Promise<EurConversion> {
+  const manual = expense.exchangeRateSource === "manual";
+  const ecbRate = expense.currency === BASE_CURRENCY || manual
+    ? null
+    : await getExchangeRateOn(expense.currency, toRateDate(expense.expenseDate));
+  return resolveEurConversion(
+    {
+      currency: expense.currency,
+      grossAmountCents: expense.grossAmountCents,
+      exchangeRate: expense.exchangeRate ?? null,
+      exchangeRateDate: expense.exchangeRateDate ?? null,
+      exchangeRateSource: expense.exchangeRateSource ?? null,
+    },
+    ecbRate
+  );
+}
+
+/**
+ * Convert foreign-currency expenses that have no EUR amount yet, e.g. after
+ * importing ECB rates. Converted expenses keep their rate, so amounts that
+ * were already reported don't change.
+ */
+export async function convertPendingForeignExpenses() {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const pending: Expense[] = await db
+    .select()
+    .from(expenses)
+    .where(and(ne(expenses.currency, BASE_CURRENCY), isNull(expenses.grossAmountEurCents)));
+
+  let converted = 0;
+  for (const expense of pending) {
+    const conversion = await getExpenseEurConversion(expense);
+    if (conversion.grossAmountEurCents === null) continue;
+    await db.update(expenses).set(conversion).where(eq(expenses.id, expense.id));
+    converted++;
+  }
+  return { converted, remaining: pending.length - converted };
+}
+
+// =============================================================================
+// DATEV EXPORT QUERIES
+// =============================================================================
+
+/**
+ * Issued invoices and cancellations with an issue date in the period
+ * (inclusive), with client names and line items
+ */
+export async function getDatevInvoicesForPeriod(userId: number, from: Date, to: Date) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+  await ensureInvoiceSchema(db);
+
+  const rows: Array<{
+    id: number;
+    invoiceNumber: string | null;
+    type: "standard" | "cancellation";
+    issueDate: Date;
+    clientName: string | null;
+    subtotal: string;
+    vatAmount: string;
+    total: string;
+    pdfFileKey: string | null;
+    originalPdfS3Key: string | null;
+    originalFileName: string | null;
+  }> = await db
+    .select({
+      id: invoices.id,
+      invoiceNumber: invoices.invoiceNumber,
+      type: invoices.type,
+      issueDate: invoices.issueDate,
+      clientName: contacts.name,
+      subtotal: invoices.subtotal,
+      vatAmount: invoices.vatAmount,
+      total: invoices.total,
+      pdfFileKey: invoices.pdfFileKey,
+      originalPdfS3Key: invoices.originalPdfS3Key,
+      originalFileName: invoices.originalFileName,
+    })
+    .from(invoices)
+    .leftJoin(contacts, eq(contacts.id, invoices.clientId))
+    .where(and(
+      eq(invoices.userId, userId),
+      isNotNull(invoices.sentAt),
+      isNull(invoices.trashedAt),
+      eq(invoices.needsReview, false),
+      gte(invoices.issueDate, from),
+      lte(invoices.issueDate, to)
+    ))
+    .orderBy(invoices.issueDate, invoices.id);
+
+  if (rows.length === 0) return [];
+
+  const items: Array<{
+    invoiceId: number;
+    lineTotal: string;
+    vatRate: string | null;
+    vatCategory: InvoiceItem["vatCategory"];
+  }> = await db
+    .select({
+      invoiceId: invoiceItems.invoiceId,
+      lineTotal: invoiceItems.lineTotal,
+      vatRate: invoiceItems.vatRate,
+      vatCategory: invoiceItems.vatCategory,
+    })
+    .from(invoiceItems)
+    .where(inArray(invoiceItems.invoiceId, rows.map((row) => row.id)));
+
+  return rows.map((row) => ({
+    ...row,
+    subtotal: Number(row.subtotal || 0),
+    vatAmount: Number(row.vatAmount || 0),
+    total: Number(row.total || 0),
+    items: items
+      .filter((item) => item.invoiceId === row.id)
+      .map((item) => ({
+        lineTotal: Number(item.lineTotal || 0),
+        vatRate: item.vatRate === null ? null : Number(item.vatRate),
+        vatCategory: item.vatCategory,
+      })),
+  }));
+}
+
+/**
+ * Expenses marked as in order with an expense date in the period (inclusive),
+ * with their receipt files; amounts in EUR
+ */
+export async function getDatevExpensesForPeriod(userId: number, from: Date, to: Date) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const rows: Expense[] = await db
+    .select()
+    .from(expenses)
+    .where(and(
+      eq(expenses.createdBy, userId),
+      eq(expenses.status, "in_order"),
+      gte(expenses.expenseDate, from),
+      lte(expenses.expenseDate, to)
+    ))
+    .orderBy(expenses.expenseDate, expenses.id);
+
+  if (rows.length === 0) return [];
+
+  const files: ExpenseFile[] = await db
+    .select()
+    .from(expenseFiles)
+    .where(inArray(expenseFiles.expenseId, rows.map((row) => row.id)))
+    .orderBy(expenseFiles.createdAt);
+
+  const splits = await getExpenseSplitsByExpenseIds(rows.map((row) => row.id));
+
+  return rows.map((row) => toEurExpense({
+    ...row,
+    files: files.filter((file) => file.expenseId === row.id),
+    splits: splits.filter((split) => split.expenseId === row.id),
+  }));
+}
+
+// =============================================================================
+// TAX REPORT QUERIES
+// =============================================================================
+
+/**
+ * Invoices, payments and expenses that can affect the tax report of a period:
+ * invoices serviced or cancelled in the period, invoices with payments in the
+ * period, and expenses dated or paid in the period
+ */
+export async function getTaxReportData(userId: number, from: Date, to: Date) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+  await ensureInvoiceSchema(db);
+
+  const payments: Array<{ invoiceId: number; amount: string; paidAt: Date }> = await db
+    .select({ invoiceId: invoicePayments.invoiceId, amount: invoicePayments.amount, paidAt: invoicePayments.paidAt })
+    .from(invoicePayments)
+    .where(and(
+      eq(invoicePayments.userId, userId),
+      gte(invoicePayments.paidAt, from),
+      lte(invoicePayments.paidAt, to)
+    ));
+  const paidInvoiceIds = Array.from(new Set(payments.map((payment) => payment.invoiceId)));
+
+  const invoiceRows: Array<{
+    id: number;
+    type: "standard" | "cancellation";
+    cancelledInvoiceId: number | null;
+    issueDate: Date;
+    servicePeriodEnd: Date | null;
+    subtotal: string;
+    vatAmount: string;
+    total: string;
+  }> = await db
+    .select({
+      id: invoices.id,
+      type: invoices.type,
+      cancelledInvoiceId: invoices.cancelledInvoiceId,
+      issueDate: invoices.issueDate,
+      servicePeriodEnd: invoices.servicePeriodEnd,
+      subtotal: invoices.subtotal,
+      vatAmount: invoices.vatAmount,
+      total: invoices.total,
+    })
+    .from(invoices)
+    .where(and(
+      eq(invoices.userId, userId),
+      isNotNull(invoices.sentAt),
+      isNull(invoices.trashedAt),
+      eq(invoices.needsReview, false),
+      or(
+        and(
+          eq(invoices.type, "standard"),
+          sql`COALESCE(${invoices.servicePeriodEnd}, ${invoices.issueDate}) BETWEEN ${from} AND ${to}`
+        ),
+        and(eq(invoices.type, "cancellation"), gte(invoices.issueDate, from), lte(invoices.issueDate, to)),
+        paidInvoiceIds.length > 0 ? inArray(invoices.id, paidInvoiceIds) : undefined
+      )
+    ));
+
+  const invoiceIds = invoiceRows.map((row) => row.id);
+  const items: Array<{
+    invoiceId: number;
+    lineTotal: string;
+    vatRate: string | null;
+    vatCategory: InvoiceItem["vatCategory"];
+  }> = invoiceIds.length > 0
+    ? await db
+        .select({
+          invoiceId: invoiceItems.invoiceId,
+          lineTotal: invoiceItems.lineTotal,
+          vatRate: invoiceItems.vatRate,
+          vatCategory: invoiceItems.vatCategory,
+        })
+        .from(invoiceItems)
+        .where(inArray(invoiceItems.invoiceId, invoiceIds))
+    : [];
+
+  const cancelledIds = invoiceRows
+    .map((row) => row.cancelledInvoiceId)
+    .filter((id): id is number => id !== null);
+  const cancelledRows: Array<{ id: number; total: string; amountPaid: string }> = cancelledIds.length > 0
+    ? await db
+        .select({ id: invoices.id, total: invoices.total, amountPaid: invoices.amountPaid })
+        .from(invoices)
+        .where(inArray(invoices.id, cancelledIds))
+    : [];
+
+  const expenseRows: Expense[] = await db
+    .select()
+    .from(expenses)
+    .where(and(
+      eq(expenses.createdBy, userId),
+      eq(expenses.status, "in_order"),
+      or(
+        and(gte(expenses.expenseDate, from), lte(expenses.expenseDate, to)),
+        and(gte(expenses.paymentDate, from), lte(expenses.paymentDate, to))
+      )
+    ));
+  const expenseSplitRows = await getExpenseSplitsByExpenseIds(expenseRows.map((row) => row.id));
+
+  return {
+    invoices: invoiceRows.map((row) => ({
+      ...row,
+      subtotal: Number(row.subtotal || 0),
+      vatAmount: Number(row.vatAmount || 0),
+      total: Number(row.total || 0),
+      items: items
+        .filter((item) => item.invoiceId === row.id)
+        .map((item) => ({
+          lineTotal: Number(item.lineTotal || 0),
+          vatRate: item.vatRate === null ? null : Number(item.vatRate),
+          vatCategory: item.vatCategory,
+        })),
+      payments: payments
+        .filter((payment) => payment.invoiceId === row.id)
+        .map((payment) => ({ amount: Number(payment.amount), paidAt: payment.paidAt })),
+    })),
+    cancelledInvoices: cancelledRows.map((row) => ({
+      id: row.id,
+      total: Number(row.total || 0),
+      amountPaid: Number(row.amountPaid || 0),
+    })),
+    expenses: expenseRows.map((row) => toEurExpense({
+      ...row,
+      splits: expenseSplitRows.filter((split) => split.expenseId === row.id),
+    })),
+  };
+}
+
+// =============================================================================
+// PROJECT COSTS QUERIES
+// =============================================================================
+
+/**
+ * Data for the job costing of a project: non-void expenses assigned to the
+ * project as a whole or with one of their splits, issued invoices of the
+ * project and all check-ins on it
+ */
+export async function getProjectCostData(projectId: number) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+  await ensureInvoiceSchema(db);
+
+  const splitExpenseIds: Array<{ expenseId: number }> = await db
+    .select({ expenseId: expenseSplits.expenseId })
+    .from(expenseSplits)
+    .where(eq(expenseSplits.projectId, projectId));
+
+  const expenseRows: Expense[] = await db
+    .select()
+    .from(expenses)
+    .where(and(
+      ne(expenses.status, "void"),
+      splitExpenseIds.length > 0
+        ? or(eq(expenses.projectId, projectId), inArray(expenses.id, splitExpenseIds.map((row) => row.expenseId)))
+        : eq(expenses.projectId, projectId)
+    ))
+    .orderBy(desc(expenses.expenseDate), desc(expenses.id));
+  const splits = await getExpenseSplitsByExpenseIds(expenseRows.map((row) => row.id));
+
+  const invoiceRows: Array<{
+    id: number;
+    invoiceNumber: string | null;
+    issueDate: Date;
+    subtotal: string;
+  }> = await db
+    .select({
+      id: invoices.id,
+      invoiceNumber: invoices.invoiceNumber,
+      issueDate: invoices.issueDate,
+      subtotal: invoices.subtotal,
+    })
+    .from(invoices)
+    .where(and(
+      eq(invoices.projectId, projectId),
+      isNotNull(invoices.sentAt),
+      isNull(invoices.trashedAt),
+      eq(invoices.needsReview, false)
+    ))
+    .orderBy(desc(invoices.issueDate));
+
+  const checkins: Array<{ checkInTime: Date; checkOutTime: Date | null }> = await db
+    .select({ checkInTime: projectCheckins.checkInTime, checkOutTime: projectCheckins.checkOutTime })
+    .from(projectCheckins)
+    .where(eq(projectCheckins.projectId, projectId));
+
+  return {
+    expenses: expenseRows.map((row) => toEurExpense({
+      ...row,
+      splits: splits.filter((split) => split.expenseId === row.id),
+    })),
+    invoices: invoiceRows.map((row) => ({ ...row, subtotal: Number(row.subtotal) })),
+    checkins,
+  };
+}
+
+/**
+ * Check-ins of a user overlapping the range, including a running one, with
+ * their project name
+ */
+export async function getCheckinsOverlappingRange(userId: number, from: Date, to: Date) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const rows: Array<{
+    projectId: number;
+    projectName: string;
+    checkInTime: Date;
+    checkOutTime: Date | null;
+  }> = await db
+    .select({
+      projectId: projectCheckins.projectId,
+      projectName: projects.name,
+      checkInTime: projectCheckins.checkInTime,
+      checkOutTime: projectCheckins.checkOutTime,
+    })
+    .from(projectCheckins)
+    .innerJoin(projects, eq(projects.id, projectCheckins.projectId))
+    .where(and(
+      eq(projectCheckins.userId, userId),
+      lte(projectCheckins.checkInTime, to),
+      or(isNull(projectCheckins.checkOutTime), gte(projectCheckins.checkOutTime, from))
+    ))
+    .orderBy(projectCheckins.checkInTime);
+  return rows;
+}
+
+// =============================================================================
+// EXPENSES QUERIES
+// =============================================================================
+
+// Accounting fields that trigger status reset to needs_review
+const ACCOUNTING_FIELDS = [
+  'supplierName',
+  'expenseDate',
+  'grossAmountCents',
+  'currency',
+  'exchangeRate',
+  'vatMode',
+  'vatRate',
+  'vatAmountCents',
+  'businessUsePct',
+  'category',
+] as const;
+
+export async function createExpense(data: InsertExpense) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+  
+  const conversion = await getExpenseEurConversion({ ...data, currency: data.currency ?? BASE_CURRENCY });
+  const result = await db.insert(expenses).values({ ...data, ...conversion });
+  const insertId = Array.isArray(result) ? result[0]?.insertId : (result as any).insertId;
+  if (!insertId) {
+    throw new Error("Failed to create expense: no insert ID returned");
+  }
+  
+  const created = await getExpenseById(Number(insertId));
+  if (!created) throw new Error("Failed to retrieve created expense");
+  return created;
+}
+
+export async function getExpenseById(id: number) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const query = sql`SELECT * FROM expenses WHERE id = ${id} LIMIT 1`;
+  const result = await db.execute(query);
+  const rows = Array.isArray(result) ? result[0] : result;
+  const list = Array.isArray(rows) ? rows : [];
+
+  if (list.length === 0) {
+    return null;
+  }
+
+  const row = list[0] as Expense & Partial<{
+    paymentStatus: "paid" | "unpaid";
+    paymentDate: Date | null;
+    paymentMethod: "cash" | "bank_transfer" | "card" | "online" | null;
+    confidenceScore: number | null;
     confidenceReason: string | null;
   }>;
 
-  // Always include files (even if empty)
-  const files = await getExpenseFilesByExpenseId(id);
+  // Always include files and splits (even if empty)
+  const [files, splits] = await Promise.all([getExpenseFilesByExpenseId(id), getExpenseSplitsByExpenseId(id)]);
 
   return {
     ...row,
@@ -2578,6 +4537,7 @@ export async function getExpenseById(id: number) {
     confidenceScore: row.confidenceScore ?? null,
     confidenceReason: row.confidenceReason ?? null,
     files,
+    splits,
   };
 }
 
@@ -2663,15 +4623,45 @@ export async function updateExpense(id: number, updates: Partial<InsertExpense>,
     ...updates,
     updatedByUserId: userId,
   };
+
+  // Convert again when the amount, currency, date or rate changed; a manual
+  // rate doesn't carry over to another currency
+  const conversionInputs = ['currency', 'grossAmountCents', 'expenseDate', 'exchangeRate', 'exchangeRateSource'] as const;
+  if (conversionInputs.some((field) => field in updates) || existing.grossAmountEurCents === null) {
+    const currencyChanged = updates.currency !== undefined && updates.currency !== existing.currency;
+    const keepManualRate = !currencyChanged || updates.exchangeRateSource === 'manual';
+    Object.assign(updateData, await getExpenseEurConversion({
+      currency: updates.currency ?? existing.currency,
+      grossAmountCents: updates.grossAmountCents ?? existing.grossAmountCents,
+      expenseDate: updates.expenseDate ?? existing.expenseDate,
+      exchangeRate: 'exchangeRate' in updates ? updates.exchangeRate : existing.exchangeRate,
+      exchangeRateDate: 'exchangeRateDate' in updates ? updates.exchangeRateDate : existing.exchangeRateDate,
+      exchangeRateSource: !keepManualRate
+        ? null
+        : 'exchangeRateSource' in updates ? updates.exchangeRateSource : existing.exchangeRateSource,
+    }));
+  }
   
   // If accounting fields changed, reset to needs_review and clear review fields
-  if (accountingFieldChanged && existing.status === 'in_order') {
+  const resetToReview = accountingFieldChanged && existing.status === 'in_order';
+  if (resetToReview) {
     updateData.status = 'needs_review';
     updateData.reviewedByUserId = null;
     updateData.reviewedAt = null;
+    if (existing.approvalStatus === 'approved') updateData.approvalStatus = 'none';
   }
   
   await db.update(expenses).set(updateData).where(eq(expenses.id, id));
+  if (resetToReview) {
+    await addExpenseEvent({
+      expenseId: id,
+      userId,
+      action: 'status_changed',
+      fromStatus: 'in_order',
+      toStatus: 'needs_review',
+      note: 'Accounting fields changed',
+    });
+  }
   
   return await getExpenseById(id);
 }
@@ -2690,6 +4680,9 @@ export async function duplicateExpense(expenseId: number, userId: number) {
     category: original.category,
     grossAmountCents: original.grossAmountCents,
     currency: original.currency,
+    exchangeRate: original.exchangeRate,
+    exchangeRateDate: original.exchangeRateDate,
+    exchangeRateSource: original.exchangeRateSource,
     businessUsePct: original.businessUsePct,
     status: "needs_review", // Always needs review when duplicating
     paymentStatus: "unpaid", // Reset payment status
@@ -2699,6 +4692,8 @@ export async function duplicateExpense(expenseId: number, userId: number) {
     vatAmountCents: original.vatAmountCents,
     netAmountCents: original.netAmountCents,
     vatRate: original.vatRate,
+    projectId: original.projectId,
+    jobId: original.jobId,
     createdBy: userId,
   });
 
@@ -2706,6 +4701,10 @@ export async function duplicateExpense(expenseId: number, userId: number) {
     throw new Error("Failed to create duplicate expense");
   }
 
+  if (original.splits.length > 0) {
+    await replaceExpenseSplits(result.id, original.splits, userId);
+  }
+
   return { success: true, id: result.id };
 }
 
@@ -2724,8 +4723,8 @@ export async function setExpenseStatus(
     throw new Error("Expense not found");
   }
   
-  // Hard rule: void only if in_order + reason
-  if (status === 'void' && existing.status !== 'in_order') {
+  // Hard rule: void only if in_order + reason; suspected duplicates can be voided straight from review
+  if (status === 'void' && existing.status !== 'in_order' && !(existing.status === 'needs_review' && voidReason === 'duplicate')) {
     throw new Error("Can only void expenses that are in_order");
   }
   
@@ -2761,8 +4760,22 @@ export async function setExpenseStatus(
     updateData.reviewedByUserId = null;
     updateData.reviewedAt = null;
   }
+  // A changed status outdates an approval
+  if (status !== 'in_order' && existing.approvalStatus === 'approved') {
+    updateData.approvalStatus = 'none';
+  }
   
   await db.update(expenses).set(updateData).where(eq(expenses.id, id));
+  if (existing.status !== status) {
+    await addExpenseEvent({
+      expenseId: id,
+      userId,
+      action: 'status_changed',
+      fromStatus: existing.status,
+      toStatus: status,
+      note: status === 'void' ? [voidReason, voidNote].filter(Boolean).join(': ') : null,
+    });
+  }
   
   return await getExpenseById(id);
 }
@@ -2801,35 +4814,450 @@ export async function addExpenseFile(data: InsertExpenseFile) {
   return file;
 }
 
-export async function deleteExpenseFile(id: number) {
+export async function deleteExpenseFile(id: number) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+  
+  // Return file before delete for S3 cleanup
+  const file = await db.select().from(expenseFiles).where(eq(expenseFiles.id, id)).limit(1);
+  
+  await db.delete(expenseFiles).where(eq(expenseFiles.id, id));
+  
+  return file.length > 0 ? file[0] : null;
+}
+
+export async function getExpenseFileById(id: number) {
+  const db = await getDb();
+  if (!db) return null;
+  
+  const result = await db.select().from(expenseFiles).where(eq(expenseFiles.id, id)).limit(1);
+  return result.length > 0 ? result[0] : null;
+}
+
+export async function getExpenseFilesByExpenseId(expenseId: number) {
+  const db = await getDb();
+  if (!db) return [];
+  
+  return await db
+    .select()
+    .from(expenseFiles)
+    .where(eq(expenseFiles.expenseId, expenseId))
+    .orderBy(desc(expenseFiles.createdAt));
+}
+
+export type ReceiptFingerprintRow = {
+  expenseId: number;
+  contentHash: string | null;
+  perceptualHash: string | null;
+};
+
+/**
+ * Receipt file hashes of a user's non-void expenses that could match an
+ * upload: files with one of the content hashes and all hashed images
+ */
+export async function getReceiptFingerprintsByUserId(
+  userId: number,
+  contentHashes: string[]
+): Promise<ReceiptFingerprintRow[]> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const rows: ReceiptFingerprintRow[] = await db
+    .select({
+      expenseId: expenseFiles.expenseId,
+      contentHash: expenseFiles.contentHash,
+      perceptualHash: expenseFiles.perceptualHash,
+    })
+    .from(expenseFiles)
+    .innerJoin(expenses, eq(expenses.id, expenseFiles.expenseId))
+    .where(and(
+      eq(expenses.createdBy, userId),
+      ne(expenses.status, "void"),
+      contentHashes.length > 0
+        ? or(inArray(expenseFiles.contentHash, contentHashes), isNotNull(expenseFiles.perceptualHash))
+        : isNotNull(expenseFiles.perceptualHash)
+    ));
+  return rows;
+}
+
+/**
+ * Non-void expenses of a user on the same day with the same gross amount
+ */
+export async function getExpensesByDayAndAmount(userId: number, day: Date, grossAmountCents: number): Promise<Expense[]> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const from = new Date(day);
+  from.setHours(0, 0, 0, 0);
+  const to = new Date(from);
+  to.setHours(23, 59, 59, 999);
+
+  return db
+    .select()
+    .from(expenses)
+    .where(and(
+      eq(expenses.createdBy, userId),
+      ne(expenses.status, "void"),
+      eq(expenses.grossAmountCents, grossAmountCents),
+      gte(expenses.expenseDate, from),
+      lte(expenses.expenseDate, to)
+    ));
+}
+
+/**
+ * Link an expense to its suspected original, or clear the link. Not an
+ * accounting change, so the status stays.
+ */
+export async function setExpenseDuplicateOf(id: number, duplicateOfExpenseId: number | null, reason: string | null) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  await db
+    .update(expenses)
+    .set({ duplicateOfExpenseId, duplicateReason: reason })
+    .where(eq(expenses.id, id));
+}
+
+export async function getExpenseSplitsByExpenseId(expenseId: number): Promise<ExpenseSplit[]> {
+  const db = await getDb();
+  if (!db) return [];
+
+  return await db
+    .select()
+    .from(expenseSplits)
+    .where(eq(expenseSplits.expenseId, expenseId))
+    .orderBy(expenseSplits.position);
+}
+
+export async function getExpenseSplitsByExpenseIds(expenseIds: number[]): Promise<ExpenseSplit[]> {
+  if (expenseIds.length === 0) return [];
+  const db = await getDb();
+  if (!db) return [];
+
+  return await db
+    .select()
+    .from(expenseSplits)
+    .where(inArray(expenseSplits.expenseId, expenseIds))
+    .orderBy(expenseSplits.expenseId, expenseSplits.position);
+}
+
+export type ExpenseSplitData = Pick<
+  InsertExpenseSplit,
+  "grossAmountCents" | "category" | "vatRate" | "projectId" | "businessUsePct" | "description"
+>;
+
+/**
+ * Replace the splits of an expense. The expense takes the category of its
+ * largest split so lists and the in_order check keep working; like any
+ * accounting change this sends an in_order expense back to review.
+ */
+export async function replaceExpenseSplits(expenseId: number, splits: ExpenseSplitData[], userId: number) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const existing = await getExpenseById(expenseId);
+  if (!existing) {
+    throw new Error("Expense not found");
+  }
+
+  const updateData: Partial<InsertExpense> = { updatedByUserId: userId };
+  if (splits.length > 0) {
+    const largest = splits.reduce((max, split) =>
+      Math.abs(split.grossAmountCents) > Math.abs(max.grossAmountCents) ? split : max
+    );
+    updateData.category = largest.category;
+  }
+  if (existing.status === 'in_order') {
+    updateData.status = 'needs_review';
+    updateData.reviewedByUserId = null;
+    updateData.reviewedAt = null;
+    if (existing.approvalStatus === 'approved') updateData.approvalStatus = 'none';
+  }
+
+  await db.transaction(async (tx: any) => {
+    await tx.delete(expenseSplits).where(eq(expenseSplits.expenseId, expenseId));
+    if (splits.length > 0) {
+      await tx.insert(expenseSplits).values(
+        splits.map((split, index) => ({
+          expenseId,
+          position: index + 1,
+          grossAmountCents: split.grossAmountCents,
+          category: split.category,
+          vatRate: split.vatRate ?? null,
+          projectId: split.projectId ?? null,
+          businessUsePct: split.businessUsePct ?? 100,
+          description: split.description ?? null,
+        }))
+      );
+    }
+    await tx.update(expenses).set(updateData).where(eq(expenses.id, expenseId));
+  });
+  if (existing.status === 'in_order') {
+    await addExpenseEvent({
+      expenseId,
+      userId,
+      action: 'status_changed',
+      fromStatus: 'in_order',
+      toStatus: 'needs_review',
+      note: 'Splits changed',
+    });
+  }
+
+  return await getExpenseById(expenseId);
+}
+
+// =============================================================================
+// EXPENSE APPROVALS
+// =============================================================================
+
+export async function addExpenseEvent(data: InsertExpenseEvent) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  await db.insert(expenseEvents).values(data);
+}
+
+/**
+ * Audit trail of an expense, oldest first, with the names of the acting user
+ * and the reviewer
+ */
+export async function getExpenseEvents(expenseId: number) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const approvers = alias(users, "approvers");
+  const rows: Array<{
+    id: number;
+    action: ExpenseEvent["action"];
+    fromStatus: ExpenseEvent["fromStatus"];
+    toStatus: ExpenseEvent["toStatus"];
+    note: string | null;
+    createdAt: Date;
+    userId: number;
+    userName: string | null;
+    approverUserId: number | null;
+    approverName: string | null;
+  }> = await db
+    .select({
+      id: expenseEvents.id,
+      action: expenseEvents.action,
+      fromStatus: expenseEvents.fromStatus,
+      toStatus: expenseEvents.toStatus,
+      note: expenseEvents.note,
+      createdAt: expenseEvents.createdAt,
+      userId: expenseEvents.userId,
+      userName: users.name,
+      approverUserId: expenseEvents.approverUserId,
+      approverName: approvers.name,
+    })
+    .from(expenseEvents)
+    .leftJoin(users, eq(users.id, expenseEvents.userId))
+    .leftJoin(approvers, eq(approvers.id, expenseEvents.approverUserId))
+    .where(eq(expenseEvents.expenseId, expenseId))
+    .orderBy(expenseEvents.createdAt, expenseEvents.id);
+  return rows;
+}
+
+/**
+ * Submit an expense to a reviewer; clears an earlier rejection
+ */
+export async function submitExpenseForApproval(id: number, approverUserId: number, userId: number) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const existing = await getExpenseById(id);
+  if (!existing) {
+    throw new Error("Expense not found");
+  }
+
+  await db.update(expenses).set({
+    approvalStatus: 'submitted',
+    approverUserId,
+    submittedAt: new Date(),
+    rejectionReason: null,
+    updatedByUserId: userId,
+  }).where(eq(expenses.id, id));
+  await addExpenseEvent({
+    expenseId: id,
+    userId,
+    action: 'submitted',
+    fromStatus: existing.status,
+    toStatus: existing.status,
+    approverUserId,
+  });
+
+  return await getExpenseById(id);
+}
+
+/**
+ * Hand a submitted expense to another reviewer
+ */
+export async function setExpenseApprover(id: number, approverUserId: number, userId: number) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const existing = await getExpenseById(id);
+  if (!existing) {
+    throw new Error("Expense not found");
+  }
+
+  await db.update(expenses).set({ approverUserId, updatedByUserId: userId }).where(eq(expenses.id, id));
+  await addExpenseEvent({
+    expenseId: id,
+    userId,
+    action: 'reviewer_changed',
+    fromStatus: existing.status,
+    toStatus: existing.status,
+    approverUserId,
+  });
+
+  return await getExpenseById(id);
+}
+
+/**
+ * Approve a submitted expense: it moves to in_order, reviewed by the approver
+ */
+export async function approveExpense(id: number, userId: number, note?: string | null) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const existing = await getExpenseById(id);
+  if (!existing) {
+    throw new Error("Expense not found");
+  }
+
+  await db.update(expenses).set({
+    status: 'in_order',
+    approvalStatus: 'approved',
+    reviewedByUserId: userId,
+    reviewedAt: new Date(),
+    updatedByUserId: userId,
+  }).where(eq(expenses.id, id));
+  await addExpenseEvent({
+    expenseId: id,
+    userId,
+    action: 'approved',
+    fromStatus: existing.status,
+    toStatus: 'in_order',
+    note: note || null,
+  });
+
+  return await getExpenseById(id);
+}
+
+/**
+ * Reject a submitted expense; it stays in needs_review for the owner to fix
+ */
+export async function rejectExpense(id: number, userId: number, reason: string) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const existing = await getExpenseById(id);
+  if (!existing) {
+    throw new Error("Expense not found");
+  }
+
+  await db.update(expenses).set({
+    approvalStatus: 'rejected',
+    rejectionReason: reason,
+    updatedByUserId: userId,
+  }).where(eq(expenses.id, id));
+  await addExpenseEvent({
+    expenseId: id,
+    userId,
+    action: 'rejected',
+    fromStatus: existing.status,
+    toStatus: existing.status,
+    note: reason,
+  });
+
+  return await getExpenseById(id);
+}
+
+/**
+ * Submitted expenses waiting for the user's approval (all of them for
+ * admins), oldest submission first, with the owner's name
+ */
+export async function listExpensesAwaitingApproval(userId: number, allReviewers = false) {
+  const db = await getDb();
+  if (!db) return [];
+
+  const submitted = eq(expenses.approvalStatus, 'submitted');
+  const rows: Array<{
+    id: number;
+    supplierName: string;
+    description: string | null;
+    expenseDate: Date;
+    grossAmountCents: number;
+    currency: string;
+    category: Expense["category"];
+    submittedAt: Date | null;
+    approverUserId: number | null;
+    createdBy: number;
+    ownerName: string | null;
+  }> = await db
+    .select({
+      id: expenses.id,
+      supplierName: expenses.supplierName,
+      description: expenses.description,
+      expenseDate: expenses.expenseDate,
+      grossAmountCents: expenses.grossAmountCents,
+      currency: expenses.currency,
+      category: expenses.category,
+      submittedAt: expenses.submittedAt,
+      approverUserId: expenses.approverUserId,
+      createdBy: expenses.createdBy,
+      ownerName: users.name,
+    })
+    .from(expenses)
+    .leftJoin(users, eq(users.id, expenses.createdBy))
+    .where(allReviewers ? submitted : and(submitted, eq(expenses.approverUserId, userId)))
+    .orderBy(expenses.submittedAt);
+  return rows;
+}
+
+export async function getExpenseComments(expenseId: number) {
   const db = await getDb();
   if (!db) throw new Error("Database not available");
-  
-  // Return file before delete for S3 cleanup
-  const file = await db.select().from(expenseFiles).where(eq(expenseFiles.id, id)).limit(1);
-  
-  await db.delete(expenseFiles).where(eq(expenseFiles.id, id));
-  
-  return file.length > 0 ? file[0] : null;
+
+  const rows: Array<Omit<ExpenseComment, "expenseId"> & { userName: string | null }> = await db
+    .select({
+      id: expenseComments.id,
+      parentId: expenseComments.parentId,
+      userId: expenseComments.userId,
+      userName: users.name,
+      content: expenseComments.content,
+      createdAt: expenseComments.createdAt,
+    })
+    .from(expenseComments)
+    .leftJoin(users, eq(users.id, expenseComments.userId))
+    .where(eq(expenseComments.expenseId, expenseId))
+    .orderBy(expenseComments.createdAt, expenseComments.id);
+  return rows;
 }
 
-export async function getExpenseFileById(id: number) {
+export async function getExpenseCommentById(id: number): Promise<ExpenseComment | null> {
   const db = await getDb();
-  if (!db) return null;
-  
-  const result = await db.select().from(expenseFiles).where(eq(expenseFiles.id, id)).limit(1);
-  return result.length > 0 ? result[0] : null;
+  if (!db) throw new Error("Database not available");
+
+  const rows: ExpenseComment[] = await db.select().from(expenseComments).where(eq(expenseComments.id, id)).limit(1);
+  return rows[0] ?? null;
 }
 
-export async function getExpenseFilesByExpenseId(expenseId: number) {
+export async function addExpenseComment(data: InsertExpenseComment) {
   const db = await getDb();
-  if (!db) return [];
-  
-  return await db
-    .select()
-    .from(expenseFiles)
-    .where(eq(expenseFiles.expenseId, expenseId))
-    .orderBy(desc(expenseFiles.createdAt));
+  if (!db) throw new Error("Database not available");
+
+  const result = await db.insert(expenseComments).values(data);
+  const insertId = Array.isArray(result) ? result[0]?.insertId : (result as any).insertId;
+  return { id: Number(insertId) };
+}
+
+export async function deleteExpenseComment(id: number) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  await db.delete(expenseComments).where(eq(expenseComments.id, id));
 }
 
 // ===== NOTES QUERIES =====
@@ -3774,6 +6202,128 @@ export async function getAllTrashedProjects(): Promise<ProjectWithClient[]> {
   return rows.map(mapProjectWithClient);
 }
 
+/**
+ * Active projects of an account the user is a member of
+ */
+export async function getProjectsForMember(userId: number, ownerUserId: number): Promise<ProjectWithClient[]> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const rows = await db
+    .select({
+      project: projects,
+      clientContact: clientContactSelection,
+    })
+    .from(projects)
+    .innerJoin(projectMembers, and(eq(projectMembers.projectId, projects.id), eq(projectMembers.userId, userId)))
+    .leftJoin(contacts, eq(projects.clientId, contacts.id))
+    .where(and(
+      eq(projects.createdBy, ownerUserId),
+      isNull(projects.archivedAt),
+      isNull(projects.trashedAt)
+    ))
+    .orderBy(desc(projects.createdAt));
+
+  return rows.map(mapProjectWithClient);
+}
+
+export async function isProjectMember(projectId: number, userId: number): Promise<boolean> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const rows: Array<{ id: number }> = await db
+    .select({ id: projectMembers.id })
+    .from(projectMembers)
+    .where(and(eq(projectMembers.projectId, projectId), eq(projectMembers.userId, userId)))
+    .limit(1);
+  return rows.length > 0;
+}
+
+export async function getProjectMembers(projectId: number) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const rows: Array<{ userId: number; name: string | null; email: string | null; createdAt: Date }> = await db
+    .select({
+      userId: projectMembers.userId,
+      name: users.name,
+      email: users.email,
+      createdAt: projectMembers.createdAt,
+    })
+    .from(projectMembers)
+    .innerJoin(users, eq(users.id, projectMembers.userId))
+    .where(eq(projectMembers.projectId, projectId))
+    .orderBy(users.name);
+  return rows;
+}
+
+/**
+ * Add members to a project; users already on it are left as they are
+ */
+export async function addProjectMembers(projectId: number, userIds: number[], addedByUserId: number) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+  if (userIds.length === 0) return;
+
+  await db
+    .insert(projectMembers)
+    .values(userIds.map((userId) => ({ projectId, userId, addedByUserId })))
+    .onDuplicateKeyUpdate({ set: { projectId: sql`${projectMembers.projectId}` } });
+}
+
+export async function removeProjectMember(projectId: number, userId: number) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  await db
+    .delete(projectMembers)
+    .where(and(eq(projectMembers.projectId, projectId), eq(projectMembers.userId, userId)));
+}
+
+// ===== PROJECT TEMPLATE QUERIES =====
+
+export async function getProjectTemplatesByUser(userId: number): Promise<ProjectTemplate[]> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  return await db
+    .select()
+    .from(projectTemplates)
+    .where(eq(projectTemplates.createdBy, userId))
+    .orderBy(projectTemplates.name);
+}
+
+export async function getProjectTemplateById(id: number): Promise<ProjectTemplate | null> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const rows: ProjectTemplate[] = await db.select().from(projectTemplates).where(eq(projectTemplates.id, id)).limit(1);
+  return rows[0] ?? null;
+}
+
+export async function createProjectTemplate(data: InsertProjectTemplate) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const result = await db.insert(projectTemplates).values(data);
+  const insertId = Array.isArray(result) ? result[0]?.insertId : (result as any).insertId;
+  return { id: Number(insertId) };
+}
+
+export async function updateProjectTemplate(id: number, data: Partial<InsertProjectTemplate>) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  await db.update(projectTemplates).set(data).where(eq(projectTemplates.id, id));
+}
+
+export async function deleteProjectTemplate(id: number) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  await db.delete(projectTemplates).where(eq(projectTemplates.id, id));
+}
+
 export async function updateProject(projectId: number, updates: Partial<InsertProject>) {
   const db = await getDb();
   if (!db) throw new Error("Database not available");
@@ -3874,6 +6424,7 @@ export async function duplicateProject(projectId: number, userId: number) {
     geo: original.geo,
     scheduledDates: original.scheduledDates,
     status: original.status,
+    tags: original.tags,
     createdBy: userId,
   });
 
@@ -3881,8 +6432,9 @@ export async function duplicateProject(projectId: number, userId: number) {
 
   // Duplicate all jobs for this project
   const jobs = await getProjectJobsByProjectId(projectId);
+  const jobIdMap = new Map<number, number>();
   for (const job of jobs) {
-    await createProjectJob({
+    const [duplicateJob] = await createProjectJob({
       projectId: newProjectId,
       title: addCopyToName(job.title),
       category: job.category,
@@ -3892,6 +6444,15 @@ export async function duplicateProject(projectId: number, userId: number) {
       startTime: job.startTime,
       endTime: job.endTime,
     });
+    jobIdMap.set(job.id, duplicateJob.id);
+  }
+
+  // Keep the dependencies between the duplicated jobs
+  for (const dependency of await getJobDependenciesByProjectIds([projectId])) {
+    const predecessorJobId = jobIdMap.get(dependency.predecessorJobId);
+    const successorJobId = jobIdMap.get(dependency.successorJobId);
+    if (!predecessorJobId || !successorJobId) continue;
+    await createJobDependency({ projectId: newProjectId, predecessorJobId, successorJobId });
   }
 
   return { success: true, id: newProjectId };
@@ -3926,7 +6487,7 @@ export async function getProjectJobById(jobId: number) {
   return result.length > 0 ? result[0] : null;
 }
 
-export async function getProjectJobsByProjectId(projectId: number) {
+export async function getProjectJobsByProjectId(projectId: number): Promise<ProjectJob[]> {
   const db = await getDb();
   if (!db) throw new Error("Database not available");
   
@@ -3950,6 +6511,59 @@ export async function deleteProjectJob(jobId: number) {
   return await db.delete(projectJobs).where(eq(projectJobs.id, jobId));
 }
 
+/**
+ * Jobs of several projects, e.g. for the cross-project timeline
+ */
+export async function getProjectJobsByProjectIds(projectIds: number[]): Promise<ProjectJob[]> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+  if (projectIds.length === 0) return [];
+
+  return await db.select().from(projectJobs)
+    .where(inArray(projectJobs.projectId, projectIds))
+    .orderBy(projectJobs.startTime);
+}
+
+// ===== PROJECT JOB DEPENDENCY QUERIES =====
+
+export async function getJobDependenciesByProjectIds(projectIds: number[]): Promise<ProjectJobDependency[]> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+  if (projectIds.length === 0) return [];
+
+  return await db.select().from(projectJobDependencies)
+    .where(inArray(projectJobDependencies.projectId, projectIds));
+}
+
+export async function getJobDependencyById(dependencyId: number): Promise<ProjectJobDependency | null> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const rows: ProjectJobDependency[] = await db.select().from(projectJobDependencies)
+    .where(eq(projectJobDependencies.id, dependencyId))
+    .limit(1);
+  return rows[0] ?? null;
+}
+
+export async function createJobDependency(dependency: InsertProjectJobDependency): Promise<{ id: number }> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const result = await db.insert(projectJobDependencies).values(dependency);
+  const insertId = Array.isArray(result) ? result[0]?.insertId : (result as any).insertId;
+  if (!insertId) {
+    throw new Error("Failed to create job dependency: no insert ID returned");
+  }
+  return { id: Number(insertId) };
+}
+
+export async function deleteJobDependency(dependencyId: number) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  return await db.delete(projectJobDependencies).where(eq(projectJobDependencies.id, dependencyId));
+}
+
 // ===== FILE METADATA QUERIES =====
 
 export async function createFileMetadata(file: InsertFileMetadata) {
@@ -4174,6 +6788,10 @@ export async function getCompanySettingsByUserId(userId: number) {
               ...row,
               invoiceAccentColor: '#00ff88',
               invoiceAccountHolderName: null,
+              datevChartOfAccounts: 'SKR03',
+              datevConsultantNumber: null,
+              datevClientNumber: null,
+              datevAccounts: null,
             };
             
             if (!settings.address) {
@@ -4429,6 +7047,271 @@ export async function updateProjectCheckin(id: number, data: Partial<InsertProje
     .where(eq(projectCheckins.id, id));
 }
 
+// =============================================================================
+// TIMESHEET FUNCTIONS
+// =============================================================================
+
+export type TimeEntryWithNames = TimeEntry & {
+  projectName: string;
+  jobTitle: string | null;
+  userName: string | null;
+  /** Checked in or out away from the project site; null for manual entries */
+  outsideGeofence: boolean | null;
+  /** Checked in or out at the project site without a position; null for manual entries */
+  locationMissing: boolean | null;
+};
+
+const timeEntryWithNamesSelection = {
+  id: timeEntries.id,
+  userId: timeEntries.userId,
+  projectId: timeEntries.projectId,
+  jobId: timeEntries.jobId,
+  checkinId: timeEntries.checkinId,
+  weekStart: timeEntries.weekStart,
+  startTime: timeEntries.startTime,
+  endTime: timeEntries.endTime,
+  breakMinutes: timeEntries.breakMinutes,
+  description: timeEntries.description,
+  billable: timeEntries.billable,
+  invoiceId: timeEntries.invoiceId,
+  createdAt: timeEntries.createdAt,
+  updatedAt: timeEntries.updatedAt,
+  projectName: projects.name,
+  jobTitle: projectJobs.title,
+  userName: users.name,
+  outsideGeofence: projectCheckins.outsideGeofence,
+  locationMissing: projectCheckins.locationMissing,
+};
+
+export async function createTimeEntry(data: Omit<InsertTimeEntry, "weekStart">) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const result = await db.insert(timeEntries).values({ ...data, weekStart: toWeekStart(data.startTime) });
+  const insertId = Array.isArray(result) ? result[0]?.insertId : (result as any).insertId;
+  return { id: Number(insertId) };
+}
+
+/**
+ * Take over a completed check-in as time entry; does nothing when it already
+ * has one or isn't checked out
+ */
+export async function createTimeEntryFromCheckin(checkinId: number) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const [checkin]: ProjectCheckin[] = await db.select().from(projectCheckins).where(eq(projectCheckins.id, checkinId)).limit(1);
+  if (!checkin?.checkOutTime || checkin.checkOutTime <= checkin.checkInTime) return null;
+
+  const existing: Array<{ id: number }> = await db
+    .select({ id: timeEntries.id })
+    .from(timeEntries)
+    .where(eq(timeEntries.checkinId, checkinId))
+    .limit(1);
+  if (existing.length > 0) return null;
+
+  return await createTimeEntry({
+    userId: checkin.userId,
+    projectId: checkin.projectId,
+    checkinId,
+    startTime: checkin.checkInTime,
+    endTime: checkin.checkOutTime,
+    description: checkin.notes,
+  });
+}
+
+export async function getTimeEntryById(id: number): Promise<TimeEntry | null> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const rows: TimeEntry[] = await db.select().from(timeEntries).where(eq(timeEntries.id, id)).limit(1);
+  return rows[0] ?? null;
+}
+
+export async function updateTimeEntry(id: number, updates: Partial<Omit<InsertTimeEntry, "weekStart">>) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const data: Partial<InsertTimeEntry> = { ...updates };
+  if (updates.startTime) data.weekStart = toWeekStart(updates.startTime);
+  await db.update(timeEntries).set(data).where(eq(timeEntries.id, id));
+  return await getTimeEntryById(id);
+}
+
+export async function deleteTimeEntry(id: number) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  await db.delete(timeEntries).where(eq(timeEntries.id, id));
+}
+
+/**
+ * A user's entries of one week, in order, with project and job names
+ */
+export async function getTimeEntriesForWeek(userId: number, weekStart: string): Promise<TimeEntryWithNames[]> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  return await db
+    .select(timeEntryWithNamesSelection)
+    .from(timeEntries)
+    .innerJoin(projects, eq(projects.id, timeEntries.projectId))
+    .leftJoin(projectJobs, eq(projectJobs.id, timeEntries.jobId))
+    .leftJoin(users, eq(users.id, timeEntries.userId))
+    .leftJoin(projectCheckins, eq(projectCheckins.id, timeEntries.checkinId))
+    .where(and(eq(timeEntries.userId, userId), eq(timeEntries.weekStart, weekStart)))
+    .orderBy(timeEntries.startTime);
+}
+
+/**
+ * All users' entries on a project in one week
+ */
+export async function getProjectTimeEntriesForWeek(projectId: number, weekStart: string): Promise<TimeEntryWithNames[]> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  return await db
+    .select(timeEntryWithNamesSelection)
+    .from(timeEntries)
+    .innerJoin(projects, eq(projects.id, timeEntries.projectId))
+    .leftJoin(projectJobs, eq(projectJobs.id, timeEntries.jobId))
+    .leftJoin(users, eq(users.id, timeEntries.userId))
+    .leftJoin(projectCheckins, eq(projectCheckins.id, timeEntries.checkinId))
+    .where(and(eq(timeEntries.projectId, projectId), eq(timeEntries.weekStart, weekStart)))
+    .orderBy(timeEntries.startTime);
+}
+
+/**
+ * Billable entries of a project that aren't billed yet and belong to an
+ * approved timesheet, with the job and project hourly rates
+ */
+export async function getUnbilledTimeEntries(projectId: number) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const rows: Array<TimeEntry & { jobTitle: string | null; jobRate: string | null; projectRate: string | null }> = await db
+    .select({
+      id: timeEntries.id,
+      userId: timeEntries.userId,
+      projectId: timeEntries.projectId,
+      jobId: timeEntries.jobId,
+      checkinId: timeEntries.checkinId,
+      weekStart: timeEntries.weekStart,
+      startTime: timeEntries.startTime,
+      endTime: timeEntries.endTime,
+      breakMinutes: timeEntries.breakMinutes,
+      description: timeEntries.description,
+      billable: timeEntries.billable,
+      invoiceId: timeEntries.invoiceId,
+      createdAt: timeEntries.createdAt,
+      updatedAt: timeEntries.updatedAt,
+      jobTitle: projectJobs.title,
+      jobRate: projectJobs.hourlyRate,
+      projectRate: projects.hourlyRate,
+    })
+    .from(timeEntries)
+    .innerJoin(projects, eq(projects.id, timeEntries.projectId))
+    .innerJoin(timesheets, and(
+      eq(timesheets.userId, timeEntries.userId),
+      eq(timesheets.weekStart, timeEntries.weekStart),
+      eq(timesheets.status, "approved")
+    ))
+    .leftJoin(projectJobs, eq(projectJobs.id, timeEntries.jobId))
+    .where(and(
+      eq(timeEntries.projectId, projectId),
+      eq(timeEntries.billable, true),
+      isNull(timeEntries.invoiceId)
+    ))
+    .orderBy(timeEntries.startTime);
+  return rows;
+}
+
+/**
+ * Create the invoice for worked hours and mark its time entries as billed in
+ * one transaction. Nothing is saved when any of the entries has been billed
+ * in the meantime, e.g. by a second click.
+ */
+export async function createTimeEntriesInvoice(data: NewInvoice, entryIds: number[]) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+  await ensureInvoiceSchema(db);
+
+  const invoiceData = await prepareInvoiceInsert(data);
+  const insertId: number = await db.transaction(async (tx: any) => {
+    const invoiceId = await insertInvoiceRow(tx, invoiceData, data.items);
+    const marked: any = await tx
+      .update(timeEntries)
+      .set({ invoiceId })
+      .where(and(inArray(timeEntries.id, entryIds), isNull(timeEntries.invoiceId)));
+    const affectedRows = Array.isArray(marked) ? marked[0]?.affectedRows : marked.affectedRows;
+    if (affectedRows !== entryIds.length) {
+      throw new Error("Some of these hours have been billed in the meantime. Reload and try again.");
+    }
+    return invoiceId;
+  });
+
+  const created = await getInvoiceById(insertId);
+  if (!created) throw new Error("Failed to retrieve created invoice");
+  return created;
+}
+
+export async function getTimesheet(userId: number, weekStart: string): Promise<Timesheet | null> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const rows: Timesheet[] = await db
+    .select()
+    .from(timesheets)
+    .where(and(eq(timesheets.userId, userId), eq(timesheets.weekStart, weekStart)))
+    .limit(1);
+  return rows[0] ?? null;
+}
+
+export async function saveTimesheet(
+  userId: number,
+  weekStart: string,
+  data: Partial<Omit<InsertTimesheet, "id" | "userId" | "weekStart">>
+) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  await db
+    .insert(timesheets)
+    .values({ userId, weekStart, ...data })
+    .onDuplicateKeyUpdate({ set: data });
+  return await getTimesheet(userId, weekStart);
+}
+
+/**
+ * Timesheets of the given users waiting for approval, oldest week first,
+ * with the user's name
+ */
+export async function getSubmittedTimesheets(userIds: number[]) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+  if (userIds.length === 0) return [];
+
+  const rows: Array<Timesheet & { userName: string | null }> = await db
+    .select({
+      id: timesheets.id,
+      userId: timesheets.userId,
+      weekStart: timesheets.weekStart,
+      status: timesheets.status,
+      submittedAt: timesheets.submittedAt,
+      reviewedByUserId: timesheets.reviewedByUserId,
+      reviewedAt: timesheets.reviewedAt,
+      rejectionReason: timesheets.rejectionReason,
+      createdAt: timesheets.createdAt,
+      updatedAt: timesheets.updatedAt,
+      userName: users.name,
+    })
+    .from(timesheets)
+    .leftJoin(users, eq(users.id, timesheets.userId))
+    .where(and(eq(timesheets.status, "submitted"), inArray(timesheets.userId, userIds)))
+    .orderBy(timesheets.weekStart);
+  return rows;
+}
+
 // =============================================================================
 // INSPECTION MODULE FUNCTIONS
 // =============================================================================
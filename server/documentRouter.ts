@@ -11,11 +11,11 @@ import { protectedProcedure, router } from "./_core/trpc";
 import * as db from "./db";
 import { storagePut, generateFileKey } from "./storage";
 import { invoiceItems } from "../drizzle/schema";
-import { processDocumentOcr } from "./services/ai/document/documentOcrClient";
+import { extractDocument } from "./services/ai/document/documentExtraction";
 import { normalizeExtractedData } from "./services/ai/document/normalizeExtractedData";
 import { computeConfidenceMetadata } from "./services/ai/document/confidenceScoring";
 import { matchClient } from "./services/ai/document/clientMatching";
-import type { NormalizedExtractionResult } from "./services/ai/document/types";
+import { OCR_BACKEND_PREFERENCES, type NormalizedExtractionResult } from "./services/ai/document/types";
 import { logger } from "./_core/logger";
 
 const MAX_FILE_SIZE = 10 * 1024 * 1024; // 10MB
@@ -44,6 +44,7 @@ export const documentRouter = router({
         fileSize: z.number().max(MAX_FILE_SIZE),
         base64Data: z.string(),
         languageHint: z.string().optional(),
+        ocrBackend: z.enum(OCR_BACKEND_PREFERENCES).optional(),
       })
     )
     .mutation(async ({ input, ctx }) => {
@@ -103,24 +104,26 @@ export const documentRouter = router({
       console.log("[Document Router] File size validated:", fileBuffer.length);
 
       // Process document with OCR
-      console.log("[Document Router] About to call processDocumentOcr...");
+      console.log("[Document Router] About to extract document...");
       let normalized: NormalizedExtractionResult;
       let confidenceMeta;
       try {
-        console.log("[Document Router] Calling processDocumentOcr with:", {
+        console.log("[Document Router] Extracting document with:", {
           filename: input.filename,
           mimeType: input.mimeType,
           fileBufferSize: fileBuffer.length,
+          ocrBackend: input.ocrBackend ?? "default",
         });
         
-        const raw = await processDocumentOcr({
+        const raw = await extractDocument({
           fileBuffer,
           mimeType: input.mimeType,
           filename: input.filename,
           languageHint: input.languageHint,
+          backend: input.ocrBackend,
         });
 
-        console.log("[Document Router] processDocumentOcr returned successfully");
+        console.log("[Document Router] Extraction returned successfully, backend:", raw.backend);
         // Log raw extraction for debugging
         console.log("[Document Router] Raw OCR output:", JSON.stringify(raw, null, 2));
 
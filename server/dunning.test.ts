@@ -0,0 +1,78 @@
+import { describe, expect, it } from "vitest";
+import {
+  DEFAULT_DUNNING_LEVELS,
+  calculateDefaultInterest,
+  calculateDunningAmounts,
+  getNextDunningStep,
+  resolveDunningLevels,
+  type DunnableInvoice,
+} from "../shared/dunning";
+
+const invoice: DunnableInvoice = {
+  sentAt: new Date(2025, 0, 1),
+  paidAt: null,
+  cancelledAt: null,
+  dueDate: new Date(2025, 0, 15),
+  total: "1190.00",
+  amountPaid: "190.00",
+};
+
+describe("getNextDunningStep", () => {
+  it("schedules the payment reminder after the due date", () => {
+    const step = getNextDunningStep(invoice, [], DEFAULT_DUNNING_LEVELS, new Date(2025, 0, 20));
+    expect(step?.level.level).toBe(1);
+    expect(step?.dueAt).toEqual(new Date(2025, 0, 22));
+    expect(step?.isDue).toBe(false);
+  });
+
+  it("waits for the previous notice before the next level", () => {
+    const history = [{ level: 1, issuedAt: new Date(2025, 0, 22), feeAmount: "0.00" }];
+    const step = getNextDunningStep(invoice, history, DEFAULT_DUNNING_LEVELS, new Date(2025, 1, 5));
+    expect(step?.level.name).toBe("1. Mahnung");
+    expect(step?.isDue).toBe(true);
+  });
+
+  it("stops after the last level and for paid invoices", () => {
+    const history = DEFAULT_DUNNING_LEVELS.map((level) => ({
+      level: level.level,
+      issuedAt: new Date(2025, 0, 22),
+      feeAmount: level.fee,
+    }));
+    expect(getNextDunningStep(invoice, history, DEFAULT_DUNNING_LEVELS, new Date(2025, 5, 1))).toBeNull();
+    expect(
+      getNextDunningStep({ ...invoice, paidAt: new Date(2025, 0, 30) }, [], DEFAULT_DUNNING_LEVELS, new Date(2025, 5, 1))
+    ).toBeNull();
+  });
+});
+
+describe("calculateDunningAmounts", () => {
+  it("adds earlier fees, the level fee and interest on the outstanding amount", () => {
+    const history = [{ level: 1, issuedAt: new Date(2025, 0, 22), feeAmount: "2.50" }];
+    const amounts = calculateDunningAmounts(invoice, history, DEFAULT_DUNNING_LEVELS[1], new Date(2025, 2, 16));
+
+    expect(amounts.outstandingAmount).toBe(1000);
+    expect(amounts.previousFees).toBe(2.5);
+    expect(amounts.feeAmount).toBe(5);
+    expect(amounts.interestDays).toBe(60);
+    // 1000 € * 6.27 % * 60 / 365
+    expect(amounts.interestAmount).toBe(10.31);
+    expect(amounts.totalDue).toBe(1017.81);
+    expect(amounts.paymentDeadline).toEqual(new Date(2025, 2, 23));
+  });
+
+  it("charges no interest without a rate", () => {
+    expect(calculateDefaultInterest(1000, null, new Date(2025, 0, 1), new Date(2025, 1, 1))).toEqual({
+      days: 31,
+      amount: 0,
+    });
+  });
+});
+
+describe("resolveDunningLevels", () => {
+  it("keeps defaults for levels without stored settings", () => {
+    const levels = resolveDunningLevels([{ level: 2, fee: 7.5, interestRate: null }]);
+    expect(levels).toHaveLength(3);
+    expect(levels[0]).toEqual(DEFAULT_DUNNING_LEVELS[0]);
+    expect(levels[1]).toMatchObject({ name: "1. Mahnung", fee: 7.5, interestRate: null });
+  });
+});
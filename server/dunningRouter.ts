@@ -0,0 +1,224 @@
+import { TRPCError } from "@trpc/server";
+import { z } from "zod";
+import { protectedProcedure, router } from "./_core/trpc";
+import * as db from "./db";
+import { requireAccountAccess } from "./services/workspaceAccess";
+import type { InvoiceDunning } from "../drizzle/schema";
+import {
+  DUNNING_LEVELS,
+  calculateDunningAmounts,
+  getDaysOverdue,
+  getNextDunningStep,
+  getOutstandingAmount,
+  resolveDunningLevels,
+} from "../shared/dunning";
+
+const dunningLevelSchema = z.object({
+  level: z.union([z.literal(1), z.literal(2), z.literal(3)]),
+  name: z.string().min(1, "Name is required").max(100),
+  waitDays: z.number().int().min(0).max(365),
+  fee: z.number().nonnegative().max(10000),
+  interestRate: z.number().min(0).max(100).nullable(),
+  paymentTermDays: z.number().int().min(1).max(365),
+  text: z.string().min(1, "Text is required"),
+});
+
+function mapDunningToPayload(dunning: InvoiceDunning) {
+  return {
+    ...dunning,
+    outstandingAmount: Number(dunning.outstandingAmount),
+    previousFees: Number(dunning.previousFees),
+    feeAmount: Number(dunning.feeAmount),
+    interestRate: dunning.interestRate === null ? null : Number(dunning.interestRate),
+    interestAmount: Number(dunning.interestAmount),
+    totalDue: Number(dunning.totalDue),
+  };
+}
+
+async function getUserDunningLevels(userId: number) {
+  const rows = await db.getDunningLevelsByUserId(userId);
+  return resolveDunningLevels(
+    rows.map((row) => ({
+      ...row,
+      fee: Number(row.fee),
+      interestRate: row.interestRate === null ? null : Number(row.interestRate),
+    }))
+  );
+}
+
+async function getOwnedInvoice(invoiceId: number, userId: number) {
+  const invoice = await db.getInvoiceById(invoiceId);
+  if (!invoice) {
+    throw new TRPCError({ code: "NOT_FOUND", message: "Invoice not found" });
+  }
+  if (invoice.userId !== userId) {
+    throw new TRPCError({ code: "FORBIDDEN", message: "You don't have access to this invoice" });
+  }
+  return invoice;
+}
+
+function startOfToday() {
+  const today = new Date();
+  today.setHours(0, 0, 0, 0);
+  return today;
+}
+
+export const dunningRouter = router({
+  /**
+   * Dunning level settings (stored values merged over the defaults)
+   */
+  levels: protectedProcedure.query(async ({ ctx }) => {
+    const userId = await requireAccountAccess(ctx.user, "invoices", "view");
+    return getUserDunningLevels(userId);
+  }),
+
+  updateLevels: protectedProcedure
+    .input(z.object({ levels: z.array(dunningLevelSchema).length(DUNNING_LEVELS.length) }))
+    .mutation(async ({ input, ctx }) => {
+      const userId = await requireAccountAccess(ctx.user, "invoices", "edit");
+      await db.saveDunningLevels(
+        userId,
+        input.levels.map((level) => ({
+          ...level,
+          fee: level.fee.toFixed(2),
+          interestRate: level.interestRate === null ? null : level.interestRate.toFixed(2),
+        }))
+      );
+      return getUserDunningLevels(userId);
+    }),
+
+  /**
+   * Overdue invoices with their next dunning step; only steps whose waiting period has passed unless includeUpcoming
+   */
+  due: protectedProcedure
+    .input(z.object({ includeUpcoming: z.boolean().optional() }).optional())
+    .query(async ({ input, ctx }) => {
+      const userId = await requireAccountAccess(ctx.user, "invoices", "view");
+      const now = new Date();
+      const [levels, overdueInvoices] = await Promise.all([
+        getUserDunningLevels(userId),
+        db.getOverdueInvoicesByUserId(userId, startOfToday()),
+      ]);
+      const history = await db.getDunningsByInvoiceIds(overdueInvoices.map((invoice) => invoice.id));
+
+      return overdueInvoices.flatMap((invoice) => {
+        const notices = history.filter((notice) => notice.invoiceId === invoice.id);
+        const lastNotice = notices[notices.length - 1] ?? null;
+        const next = getNextDunningStep(invoice, notices, levels, now);
+        if (!next || (!next.isDue && !input?.includeUpcoming)) return [];
+
+        return [{
+          invoiceId: invoice.id,
+          invoiceNumber: invoice.invoiceNumber,
+          invoiceName: invoice.invoiceName,
+          clientId: invoice.clientId ?? invoice.contactId,
+          dueDate: invoice.dueDate,
+          daysOverdue: getDaysOverdue(invoice, now),
+          outstanding: getOutstandingAmount(invoice),
+          lastLevel: lastNotice?.level ?? null,
+          lastIssuedAt: lastNotice?.issuedAt ?? null,
+          nextLevel: next.level.level,
+          nextLevelName: next.level.name,
+          nextDueAt: next.dueAt,
+          isDue: next.isDue,
+          preview: calculateDunningAmounts(invoice, notices, next.level, now),
+        }];
+      });
+    }),
+
+  /**
+   * Notice history of one invoice plus the next step (if any)
+   */
+  history: protectedProcedure
+    .input(z.object({ invoiceId: z.number() }))
+    .query(async ({ input, ctx }) => {
+      const userId = await requireAccountAccess(ctx.user, "invoices", "view");
+      const invoice = await getOwnedInvoice(input.invoiceId, userId);
+      const [levels, notices] = await Promise.all([
+        getUserDunningLevels(userId),
+        db.getDunningsByInvoiceId(invoice.id),
+      ]);
+      const next = getNextDunningStep(invoice, notices, levels);
+      return {
+        notices: notices.map(mapDunningToPayload),
+        next: next
+          ? {
+              level: next.level.level,
+              name: next.level.name,
+              dueAt: next.dueAt,
+              isDue: next.isDue,
+              preview: calculateDunningAmounts(invoice, notices, next.level),
+            }
+          : null,
+      };
+    }),
+
+  /**
+   * Issue the next dunning level for an overdue invoice
+   */
+  create: protectedProcedure
+    .input(z.object({ invoiceId: z.number() }))
+    .mutation(async ({ input, ctx }) => {
+      const userId = await requireAccountAccess(ctx.user, "invoices", "edit");
+      const invoice = await getOwnedInvoice(input.invoiceId, userId);
+      const [levels, notices] = await Promise.all([
+        getUserDunningLevels(userId),
+        db.getDunningsByInvoiceId(invoice.id),
+      ]);
+
+      const issuedAt = new Date();
+      const next = getNextDunningStep(invoice, notices, levels, issuedAt);
+      if (!next) {
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message: notices.length >= levels.length
+            ? "All dunning levels have already been sent for this invoice"
+            : "Only sent, unpaid invoices past their due date can be dunned",
+        });
+      }
+
+      const amounts = calculateDunningAmounts(invoice, notices, next.level, issuedAt);
+      const created = await db.createDunning({
+        userId: userId,
+        invoiceId: invoice.id,
+        level: next.level.level,
+        name: next.level.name,
+        issuedAt,
+        paymentDeadline: amounts.paymentDeadline,
+        outstandingAmount: amounts.outstandingAmount.toFixed(2),
+        previousFees: amounts.previousFees.toFixed(2),
+        feeAmount: amounts.feeAmount.toFixed(2),
+        interestRate: amounts.interestRate === null ? null : amounts.interestRate.toFixed(2),
+        interestDays: amounts.interestDays,
+        interestAmount: amounts.interestAmount.toFixed(2),
+        totalDue: amounts.totalDue.toFixed(2),
+        text: next.level.text,
+      });
+      if (!created) {
+        throw new TRPCError({ code: "INTERNAL_SERVER_ERROR", message: "Failed to create dunning notice" });
+      }
+      return mapDunningToPayload(created);
+    }),
+
+  /**
+   * Withdraw a notice; only the latest level can be removed so the sequence stays intact
+   */
+  delete: protectedProcedure
+    .input(z.object({ id: z.number() }))
+    .mutation(async ({ input, ctx }) => {
+      const userId = await requireAccountAccess(ctx.user, "invoices", "edit");
+      const dunning = await db.getDunningById(input.id);
+      if (!dunning) {
+        throw new TRPCError({ code: "NOT_FOUND", message: "Dunning notice not found" });
+      }
+      if (dunning.userId !== userId) {
+        throw new TRPCError({ code: "FORBIDDEN", message: "You don't have access to this dunning notice" });
+      }
+      const notices = await db.getDunningsByInvoiceId(dunning.invoiceId);
+      if (notices.some((notice) => notice.level > dunning.level)) {
+        throw new TRPCError({ code: "BAD_REQUEST", message: "Only the latest dunning notice can be deleted" });
+      }
+      await db.deleteDunning(dunning.id);
+      return { success: true };
+    }),
+});
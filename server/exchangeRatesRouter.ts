@@ -0,0 +1,59 @@
+import { TRPCError } from "@trpc/server";
+import { z } from "zod";
+import { protectedProcedure, router } from "./_core/trpc";
+import * as db from "./db";
+import { ExchangeRateParseError, parseEcbRates } from "./lib/exchangeRates";
+
+const MAX_RATE_FILE_SIZE = 20 * 1024 * 1024;
+
+export const exchangeRatesRouter = router({
+  /**
+   * Imported currencies with the period their rates cover
+   */
+  coverage: protectedProcedure.query(async () => db.getExchangeRateCoverage()),
+
+  /**
+   * Import an ECB reference rate file (CSV or XML, daily or historical) and
+   * convert foreign-currency expenses that were still missing a rate
+   */
+  import: protectedProcedure
+    .input(z.object({
+      filename: z.string().min(1).max(255),
+      base64Data: z.string(),
+    }))
+    .mutation(async ({ input }) => {
+      const buffer = Buffer.from(input.base64Data, "base64");
+      if (buffer.length === 0) {
+        throw new TRPCError({ code: "BAD_REQUEST", message: "The file is empty" });
+      }
+      if (buffer.length > MAX_RATE_FILE_SIZE) {
+        throw new TRPCError({ code: "BAD_REQUEST", message: "Rate files can be at most 20 MB; unzip the ECB download first" });
+      }
+
+      let rates;
+      try {
+        rates = parseEcbRates(buffer.toString("utf8"));
+      } catch (error) {
+        if (error instanceof ExchangeRateParseError) {
+          throw new TRPCError({ code: "BAD_REQUEST", message: error.message });
+        }
+        throw error;
+      }
+      if (rates.length === 0) {
+        throw new TRPCError({ code: "BAD_REQUEST", message: "No exchange rates found in the file" });
+      }
+
+      await db.upsertExchangeRates(rates);
+      const expenses = await db.convertPendingForeignExpenses();
+
+      const days = rates.map((rate) => rate.rateDate).sort();
+      return {
+        rateCount: rates.length,
+        currencyCount: new Set(rates.map((rate) => rate.currency)).size,
+        firstDate: days[0],
+        lastDate: days[days.length - 1],
+        convertedExpenses: expenses.converted,
+        unconvertedExpenses: expenses.remaining,
+      };
+    }),
+});
@@ -0,0 +1,81 @@
+import { describe, expect, it } from "vitest";
+import { canViewExpense, getApprovalError, getInOrderError, type ApprovableExpense } from "../shared/expenseApproval";
+
+const OWNER = { id: 1, role: "user" };
+const REVIEWER = { id: 2, role: "user" };
+const OTHER = { id: 3, role: "user" };
+const ADMIN = { id: 4, role: "admin" };
+
+const expense = (overrides: Partial<ApprovableExpense> = {}): ApprovableExpense => ({
+  status: "needs_review",
+  approvalStatus: "none",
+  createdBy: OWNER.id,
+  approverUserId: null,
+  ...overrides,
+});
+
+describe("getApprovalError", () => {
+  it("lets the owner submit to another reviewer", () => {
+    expect(getApprovalError(expense(), "submit", OWNER, REVIEWER.id)).toBeNull();
+    expect(getApprovalError(expense({ approvalStatus: "rejected" }), "submit", OWNER, REVIEWER.id)).toBeNull();
+    expect(getApprovalError(expense(), "submit", OWNER)).toBe("Choose a reviewer");
+    expect(getApprovalError(expense(), "submit", OWNER, OWNER.id)).toBe("You can't review your own expenses");
+    expect(getApprovalError(expense(), "submit", OTHER, REVIEWER.id)).toBe("Only the owner of an expense can submit it");
+    expect(getApprovalError(expense({ status: "in_order" }), "submit", OWNER, REVIEWER.id)).toBe(
+      "Only expenses in review can be submitted"
+    );
+    expect(getApprovalError(expense({ approvalStatus: "submitted" }), "submit", OWNER, REVIEWER.id)).toBe(
+      "The expense is already waiting for approval"
+    );
+  });
+
+  it("only lets the assigned reviewer or an admin decide", () => {
+    const submitted = expense({ approvalStatus: "submitted", approverUserId: REVIEWER.id });
+
+    expect(getApprovalError(submitted, "approve", REVIEWER)).toBeNull();
+    expect(getApprovalError(submitted, "reject", ADMIN)).toBeNull();
+    expect(getApprovalError(submitted, "approve", OWNER)).toBe("You can't review your own expenses");
+    expect(getApprovalError(submitted, "approve", OTHER)).toBe("The expense is assigned to another reviewer");
+    expect(getApprovalError(expense({ approverUserId: REVIEWER.id }), "approve", REVIEWER)).toBe(
+      "The expense isn't waiting for approval"
+    );
+    expect(getApprovalError({ ...submitted, status: "void" }, "approve", REVIEWER)).toBe("Void expenses can't be approved");
+  });
+
+  it("reassigns only submitted expenses", () => {
+    const submitted = expense({ approvalStatus: "submitted", approverUserId: REVIEWER.id });
+
+    expect(getApprovalError(submitted, "assign", OWNER, OTHER.id)).toBeNull();
+    expect(getApprovalError(expense(), "assign", OWNER, OTHER.id)).toBe("The expense hasn't been submitted");
+  });
+});
+
+describe("getInOrderError", () => {
+  it("marks approved expenses in order", () => {
+    expect(getInOrderError(expense({ approvalStatus: "approved" }), OWNER, false)).toBeNull();
+  });
+
+  it("doesn't mark rejected or submitted expenses in order", () => {
+    const rejected = expense({ approvalStatus: "rejected", approverUserId: REVIEWER.id });
+    const submitted = expense({ approvalStatus: "submitted", approverUserId: REVIEWER.id });
+
+    expect(getInOrderError(rejected, OWNER, true)).toBe("The expense was rejected. Fix it and submit it for approval again");
+    expect(getInOrderError(rejected, ADMIN, true)).toBe("The expense was rejected. Fix it and submit it for approval again");
+    expect(getInOrderError(submitted, OWNER, true)).toBe("The expense is waiting for approval by its reviewer");
+  });
+
+  it("skips the approval only for admins and owners who book their own expenses", () => {
+    expect(getInOrderError(expense(), OWNER, true)).toBeNull();
+    expect(getInOrderError(expense(), ADMIN, false)).toBeNull();
+    expect(getInOrderError(expense(), OWNER, false)).toBe("Submit the expense for approval first");
+  });
+});
+
+describe("canViewExpense", () => {
+  it("shows an expense to its owner, its reviewer and admins", () => {
+    const submitted = expense({ approvalStatus: "submitted", approverUserId: REVIEWER.id });
+
+    expect([OWNER, REVIEWER, ADMIN].every((user) => canViewExpense(submitted, user))).toBe(true);
+    expect(canViewExpense(submitted, OTHER)).toBe(false);
+  });
+});
@@ -7,11 +7,14 @@
  * - Expense creator has full access to their expenses
  * - Admin users have full access to all expenses
  * - Regular users can only access their own expenses
+ * - The reviewer an expense was submitted to can read it, comment and approve or reject it
+ * - Reviewers are members of the submitter's workspace with a reviewing role
  */
 
 import { TRPCError } from "@trpc/server";
 import { z } from "zod";
 import { protectedProcedure, router } from "./_core/trpc";
+import type { TrpcContext } from "./_core/context";
 import * as db from "./db";
 import {
   createPresignedUploadUrl,
@@ -29,6 +32,32 @@ import {
   getMissingRequiredFields,
   type ProposedFields,
 } from "./expenses/confidence";
+import { extractDocument } from "./services/ai/document/documentExtraction";
+import { normalizeExtractedData } from "./services/ai/document/normalizeExtractedData";
+import { computeConfidenceMetadata } from "./services/ai/document/confidenceScoring";
+import { OCR_BACKEND_PREFERENCES, type NormalizedExtractionResult } from "./services/ai/document/types";
+import { checkExpenseForDuplicate, fingerprintReceipt, type DuplicateWarning } from "./services/duplicateReceipts";
+import type { ReceiptFingerprint } from "./lib/receiptDuplicates";
+import { EXPENSE_CATEGORIES } from "../shared/expenseCategories";
+import {
+  EXPENSE_VAT_MODES,
+  MAX_EXPENSE_SPLITS,
+  validateExpenseSplits,
+  type ExpenseSplitLine,
+  type ExpenseVatMode,
+} from "../shared/expenseSplits";
+import { BASE_CURRENCY, toRateDate } from "../shared/exchangeRates";
+import {
+  canViewExpense,
+  getApprovalError,
+  getInOrderError,
+  MAX_EXPENSE_COMMENT_LENGTH,
+  type ExpenseApprovalAction,
+} from "../shared/expenseApproval";
+import { getWorkspaceScope } from "./services/workspaceAccess";
+import { canReviewExpenses } from "../shared/workspaces";
+
+type User = NonNullable<TrpcContext["user"]>;
 
 // =============================================================================
 // CONSTANTS
@@ -46,25 +75,7 @@ const ALLOWED_MIME_TYPES = [
   "image/webp",
 ] as const;
 
-const ALLOWED_CATEGORIES = [
-  "office_supplies",
-  "travel",
-  "meals",
-  "vehicle",
-  "equipment",
-  "software",
-  "insurance",
-  "marketing",
-  "utilities",
-  "rent",
-  "professional_services",
-  "shipping",
-  "training",
-  "subscriptions",
-  "repairs",
-  "taxes_fees",
-  "other",
-] as const;
+const ALLOWED_CATEGORIES = EXPENSE_CATEGORIES;
 
 // =============================================================================
 // HELPER FUNCTIONS
@@ -111,6 +122,64 @@ async function validateExpenseOwnership(expenseId: number, userId: number, userR
   }
 }
 
+/**
+ * Validate read access: owner, admin or the assigned reviewer
+ */
+async function validateExpenseReadAccess(expenseId: number, user: { id: number; role: string }): Promise<void> {
+  const expense = await db.getExpenseById(expenseId);
+  if (!expense) {
+    throw new TRPCError({ code: "NOT_FOUND", message: "Expense not found" });
+  }
+
+  if (!canViewExpense(expense, user)) {
+    throw new TRPCError({ code: "FORBIDDEN", message: "You don't have access to this expense" });
+  }
+}
+
+/**
+ * Members of the user's active workspace an expense of `ownerId` can be
+ * submitted to: those with a reviewing role, except the owner. Empty outside
+ * a workspace or when the owner isn't a member of it.
+ */
+async function getExpenseReviewers(user: User, ownerId: number) {
+  const scope = await getWorkspaceScope(user);
+  if (!scope.workspaceId) return [];
+  const members = await db.getWorkspaceMembers(scope.workspaceId);
+  if (!members.some((member) => member.userId === ownerId)) return [];
+  return members.filter((member) => member.userId !== ownerId && canReviewExpenses(member.role));
+}
+
+/**
+ * Load an expense for an approval step and check that the user may take it
+ */
+async function getExpenseForApproval(
+  expenseId: number,
+  action: ExpenseApprovalAction,
+  user: User,
+  reviewerId?: number
+) {
+  await validateExpenseReadAccess(expenseId, user);
+  const expense = await db.getExpenseById(expenseId);
+  if (!expense) {
+    throw new TRPCError({ code: "NOT_FOUND", message: "Expense not found" });
+  }
+
+  const problem = getApprovalError(expense, action, user, reviewerId);
+  if (problem) {
+    throw new TRPCError({ code: "BAD_REQUEST", message: problem });
+  }
+  if (reviewerId !== undefined) {
+    const reviewers = await getExpenseReviewers(user, expense.createdBy);
+    if (!reviewers.some((member) => member.userId === reviewerId)) {
+      throw new TRPCError({
+        code: "BAD_REQUEST",
+        message: "Choose a reviewer from your workspace who may approve expenses",
+      });
+    }
+  }
+  return expense;
+}
+
 /**
  * Validate that expense has required fields for in_order status
  */
@@ -133,7 +202,7 @@ function validateInOrderFields(data: {
  * - German VAT requires EUR currency
  */
 function validateVatCurrencyRules(data: {
-  vatMode?: "none" | "german" | "foreign";
+  vatMode?: ExpenseVatMode;
   currency?: string;
 }): void {
   if (data.vatMode === "german" && data.currency && data.currency !== "EUR") {
@@ -144,6 +213,51 @@ function validateVatCurrencyRules(data: {
   }
 }
 
+/**
+ * Validate that a foreign-currency expense has an EUR amount, since reports
+ * and exports only use that
+ */
+function validateEurAmount(data: { currency: string; grossAmountEurCents: number | null }): void {
+  if (data.currency !== BASE_CURRENCY && data.grossAmountEurCents === null) {
+    throw new TRPCError({
+      code: "BAD_REQUEST",
+      message: `No exchange rate for ${data.currency} on the expense date. Import the ECB reference rates or enter the rate manually.`,
+    });
+  }
+}
+
+/**
+ * Validate that the splits of an expense add up to its gross amount
+ */
+function validateSplitTotals(grossAmountCents: number, splits: ExpenseSplitLine[]): void {
+  const problem = validateExpenseSplits(grossAmountCents, splits);
+  if (problem) {
+    throw new TRPCError({ code: "BAD_REQUEST", message: problem });
+  }
+}
+
+/**
+ * Validate the project and job an expense is assigned to: the project has to
+ * belong to the expense owner and the job to the project
+ */
+async function validateProjectLink(ownerId: number, projectId: number | null, jobId: number | null): Promise<void> {
+  if (projectId !== null) {
+    const project = await db.getProjectById(projectId);
+    if (!project || project.createdBy !== ownerId) {
+      throw new TRPCError({ code: "NOT_FOUND", message: "Project not found" });
+    }
+  }
+  if (jobId !== null) {
+    if (projectId === null) {
+      throw new TRPCError({ code: "BAD_REQUEST", message: "A job can only be assigned together with its project" });
+    }
+    const job = await db.getProjectJobById(jobId);
+    if (!job || job.projectId !== projectId) {
+      throw new TRPCError({ code: "BAD_REQUEST", message: "The job doesn't belong to the selected project" });
+    }
+  }
+}
+
 /**
  * Create expense with deterministic defaults for receipt-based creation
  * All expenses start in needs_review status
@@ -191,13 +305,26 @@ async function createExpenseFromReceipt(
   return expense.id;
 }
 
+/**
+ * Duplicate check after a receipt upload
+ * Best-effort like autofill: a failed check never fails the upload
+ */
+async function findDuplicateBestEffort(expenseId: number, userId: number): Promise<DuplicateWarning | null> {
+  try {
+    return await checkExpenseForDuplicate(expenseId, userId);
+  } catch (error) {
+    console.error(`[Expenses] Duplicate check failed for expense ${expenseId}:`, error);
+    return null;
+  }
+}
+
 // =============================================================================
 // ZOD SCHEMAS
 // =============================================================================
 
 const expenseStatusSchema = z.enum(["needs_review", "in_order", "void"]);
 const expenseSourceSchema = z.enum(["upload", "scan", "manual"]);
-const vatModeSchema = z.enum(["none", "german", "foreign"]);
+const vatModeSchema = z.enum(EXPENSE_VAT_MODES);
 const vatRateSchema = z.enum(["0", "7", "19"]);
 const categorySchema = z.enum(ALLOWED_CATEGORIES as [string, ...string[]]);
 const paymentStatusSchema = z.enum(["paid", "unpaid"]);
@@ -215,6 +342,8 @@ const createManualExpenseSchema = z.object({
   vatAmountCents: z.number().int().nonnegative().optional().nullable(),
   businessUsePct: z.number().int().min(0).max(100).default(100),
   category: categorySchema,
+  projectId: z.number().int().positive().optional().nullable(),
+  jobId: z.number().int().positive().optional().nullable(),
   paymentStatus: paymentStatusSchema.default("unpaid"),
   paymentDate: z.date().optional().nullable(),
   paymentMethod: paymentMethodSchema.optional().nullable(),
@@ -232,11 +361,22 @@ const updateExpenseSchema = z.object({
   vatAmountCents: z.number().int().nonnegative().optional().nullable(),
   businessUsePct: z.number().int().min(0).max(100).optional(),
   category: categorySchema.optional(),
+  projectId: z.number().int().positive().optional().nullable(),
+  jobId: z.number().int().positive().optional().nullable(),
   paymentStatus: paymentStatusSchema.optional(),
   paymentDate: z.date().optional().nullable(),
   paymentMethod: paymentMethodSchema.optional().nullable(),
 });
 
+const expenseSplitSchema = z.object({
+  grossAmountCents: z.number().int(),
+  category: z.enum(EXPENSE_CATEGORIES),
+  vatRate: vatRateSchema.nullable().optional(),
+  projectId: z.number().int().positive().nullable().optional(),
+  businessUsePct: z.number().int().min(0).max(100).default(100),
+  description: z.string().trim().max(255).nullable().optional(),
+});
+
 const setExpenseStatusSchema = z.object({
   id: z.number(),
   status: expenseStatusSchema,
@@ -337,13 +477,13 @@ export const expenseRouter = router({
 
   /**
    * Get a single expense by ID
-   * Includes suggestions for category, VAT mode, and business use %
+   * Includes suggestions for category, VAT mode, business use % and project
    * Always includes files array (even if empty) with presigned GET URLs for preview
    */
   getExpense: protectedProcedure
     .input(z.object({ id: z.number() }))
     .query(async ({ input, ctx }) => {
-      await validateExpenseOwnership(input.id, ctx.user.id, ctx.user.role);
+      await validateExpenseReadAccess(input.id, ctx.user);
       const expense = await db.getExpenseById(input.id);
       if (!expense) {
         throw new TRPCError({ code: "NOT_FOUND", message: "Expense not found" });
@@ -383,9 +523,24 @@ export const expenseRouter = router({
         // Don't mark expenseDate as autofilled (always set)
       }
       
+      // Suspected original when the receipt looked like a duplicate on upload
+      const original = expense.duplicateOfExpenseId ? await db.getExpenseById(expense.duplicateOfExpenseId) : null;
+      const duplicateOf = original
+        ? {
+            id: original.id,
+            supplierName: original.supplierName,
+            expenseDate: original.expenseDate,
+            grossAmountCents: original.grossAmountCents,
+            currency: original.currency,
+            status: original.status,
+            reason: expense.duplicateReason,
+          }
+        : null;
+
       return {
         ...expense,
         files: filesWithUrls, // Always an array, never undefined
+        duplicateOf,
         suggestions,
         autofilledFields, // Metadata for UI indicators
       };
@@ -408,6 +563,7 @@ export const expenseRouter = router({
 
         // Validate VAT/currency rules
         validateVatCurrencyRules({ vatMode: input.vatMode, currency: input.currency });
+        await validateProjectLink(ctx.user.id, input.projectId ?? null, input.jobId ?? null);
 
         const grossAmount = input.grossAmountCents ?? 1; // Default to 1 cent if not provided (for scanned receipts)
         console.log("[Expenses] Creating expense with grossAmountCents:", grossAmount);
@@ -427,6 +583,8 @@ export const expenseRouter = router({
           vatAmountCents: input.vatAmountCents || null,
           businessUsePct: input.businessUsePct,
           category: input.category,
+          projectId: input.projectId ?? null,
+          jobId: input.jobId ?? null,
           paymentStatus: input.paymentStatus,
           paymentDate: input.paymentDate || null,
           paymentMethod: input.paymentMethod || null,
@@ -500,6 +658,25 @@ export const expenseRouter = router({
         });
       }
 
+      // Split expenses keep their total in line with the splits
+      if (updates.grossAmountCents !== undefined) {
+        validateSplitTotals(updates.grossAmountCents, await db.getExpenseSplitsByExpenseId(id));
+      }
+
+      if (updates.projectId !== undefined || updates.jobId !== undefined) {
+        const existing = await db.getExpenseById(id);
+        if (!existing) {
+          throw new TRPCError({ code: "NOT_FOUND", message: "Expense not found" });
+        }
+        const projectId = updates.projectId !== undefined ? updates.projectId : existing.projectId;
+        // Moving the expense to another project drops a job the caller didn't reassign
+        const jobId = updates.jobId !== undefined
+          ? updates.jobId
+          : projectId === existing.projectId ? existing.jobId : null;
+        await validateProjectLink(existing.createdBy, projectId, jobId);
+        updates.jobId = jobId;
+      }
+
       const updated = await db.updateExpense(id, updates, ctx.user.id);
       return updated;
     }),
@@ -541,6 +718,10 @@ export const expenseRouter = router({
         });
       }
 
+      if (fields.grossAmountCents !== undefined) {
+        validateSplitTotals(fields.grossAmountCents, await db.getExpenseSplitsByExpenseId(id));
+      }
+
       // Apply only provided fields (reuse updateExpense logic)
       const updated = await db.updateExpense(id, fields, ctx.user.id);
       return updated;
@@ -576,12 +757,267 @@ export const expenseRouter = router({
           grossAmountCents: existing.grossAmountCents,
           category: existing.category || undefined,
         });
+        validateSplitTotals(existing.grossAmountCents, existing.splits);
+        validateEurAmount(existing);
+        const scope = await getWorkspaceScope(ctx.user);
+        const inOrderError = getInOrderError(existing, ctx.user, scope.role === null || scope.role === "owner");
+        if (inOrderError) {
+          throw new TRPCError({ code: "BAD_REQUEST", message: inOrderError });
+        }
       }
 
       const updated = await db.setExpenseStatus(id, status, ctx.user.id, voidReason, voidNote);
       return updated;
     }),
 
+  /**
+   * Submit an expense for approval to a reviewer (e.g. the office manager)
+   */
+  submitForApproval: protectedProcedure
+    .input(z.object({ id: z.number(), reviewerId: z.number().int().positive() }))
+    .mutation(async ({ input, ctx }) => {
+      const existing = await getExpenseForApproval(input.id, "submit", ctx.user, input.reviewerId);
+      validateInOrderFields({
+        supplierName: existing.supplierName,
+        expenseDate: existing.expenseDate,
+        grossAmountCents: existing.grossAmountCents,
+        category: existing.category || undefined,
+      });
+      return await db.submitExpenseForApproval(input.id, input.reviewerId, ctx.user.id);
+    }),
+
+  /**
+   * Workspace members the expense can be submitted or handed to
+   */
+  reviewers: protectedProcedure
+    .input(z.object({ id: z.number() }))
+    .query(async ({ input, ctx }) => {
+      await validateExpenseOwnership(input.id, ctx.user.id, ctx.user.role);
+      const expense = await db.getExpenseById(input.id);
+      const reviewers = await getExpenseReviewers(ctx.user, expense!.createdBy);
+      return reviewers.map((member) => ({ id: member.userId, name: member.name, email: member.email, role: member.role }));
+    }),
+
+  /**
+   * Hand a submitted expense to another reviewer
+   */
+  assignReviewer: protectedProcedure
+    .input(z.object({ id: z.number(), reviewerId: z.number().int().positive() }))
+    .mutation(async ({ input, ctx }) => {
+      await getExpenseForApproval(input.id, "assign", ctx.user, input.reviewerId);
+      return await db.setExpenseApprover(input.id, input.reviewerId, ctx.user.id);
+    }),
+
+  /**
+   * Approve a submitted expense; it is marked as in order
+   * Same field checks as setExpenseStatus("in_order")
+   */
+  approve: protectedProcedure
+    .input(z.object({ id: z.number(), note: z.string().trim().max(MAX_EXPENSE_COMMENT_LENGTH).optional() }))
+    .mutation(async ({ input, ctx }) => {
+      const existing = await getExpenseForApproval(input.id, "approve", ctx.user);
+      validateInOrderFields({
+        supplierName: existing.supplierName,
+        expenseDate: existing.expenseDate,
+        grossAmountCents: existing.grossAmountCents,
+        category: existing.category || undefined,
+      });
+      validateSplitTotals(existing.grossAmountCents, existing.splits);
+      validateEurAmount(existing);
+      return await db.approveExpense(input.id, ctx.user.id, input.note);
+    }),
+
+  /**
+   * Reject a submitted expense with a reason; the owner can fix it and submit again
+   */
+  reject: protectedProcedure
+    .input(z.object({ id: z.number(), reason: z.string().trim().min(1, "Please give a reason").max(MAX_EXPENSE_COMMENT_LENGTH) }))
+    .mutation(async ({ input, ctx }) => {
+      await getExpenseForApproval(input.id, "reject", ctx.user);
+      return await db.rejectExpense(input.id, ctx.user.id, input.reason);
+    }),
+
+  /**
+   * Expenses waiting for the current user's approval (all submitted expenses for admins)
+   */
+  approvalQueue: protectedProcedure.query(async ({ ctx }) =>
+    db.listExpensesAwaitingApproval(ctx.user.id, ctx.user.role === "admin")
+  ),
+
+  /**
+   * Audit trail of status and approval changes
+   */
+  getHistory: protectedProcedure
+    .input(z.object({ id: z.number() }))
+    .query(async ({ input, ctx }) => {
+      await validateExpenseReadAccess(input.id, ctx.user);
+      return await db.getExpenseEvents(input.id);
+    }),
+
+  /**
+   * Comments on an expense, oldest first; replies carry the parentId of the
+   * comment they answer
+   */
+  listComments: protectedProcedure
+    .input(z.object({ id: z.number() }))
+    .query(async ({ input, ctx }) => {
+      await validateExpenseReadAccess(input.id, ctx.user);
+      return await db.getExpenseComments(input.id);
+    }),
+
+  addComment: protectedProcedure
+    .input(
+      z.object({
+        id: z.number(),
+        content: z.string().trim().min(1).max(MAX_EXPENSE_COMMENT_LENGTH),
+        parentId: z.number().int().positive().optional(),
+      })
+    )
+    .mutation(async ({ input, ctx }) => {
+      await validateExpenseReadAccess(input.id, ctx.user);
+      if (input.parentId !== undefined) {
+        const parent = await db.getExpenseCommentById(input.parentId);
+        if (!parent || parent.expenseId !== input.id) {
+          throw new TRPCError({ code: "BAD_REQUEST", message: "The comment you replied to doesn't exist" });
+        }
+      }
+      return await db.addExpenseComment({
+        expenseId: input.id,
+        parentId: input.parentId ?? null,
+        userId: ctx.user.id,
+        content: input.content,
+      });
+    }),
+
+  /**
+   * Delete one of the user's own comments (admins can delete any); replies go with it
+   */
+  deleteComment: protectedProcedure
+    .input(z.object({ commentId: z.number() }))
+    .mutation(async ({ input, ctx }) => {
+      const comment = await db.getExpenseCommentById(input.commentId);
+      if (!comment) {
+        throw new TRPCError({ code: "NOT_FOUND", message: "Comment not found" });
+      }
+      if (comment.userId !== ctx.user.id && ctx.user.role !== "admin") {
+        throw new TRPCError({ code: "FORBIDDEN", message: "You can only delete your own comments" });
+      }
+      await db.deleteExpenseComment(input.commentId);
+      return { success: true };
+    }),
+
+  /**
+   * Void an expense as duplicate of its suspected original
+   * Unlike setExpenseStatus this also works while the expense is in needs_review
+   */
+  voidAsDuplicate: protectedProcedure
+    .input(z.object({ id: z.number() }))
+    .mutation(async ({ input, ctx }) => {
+      await validateExpenseOwnership(input.id, ctx.user.id, ctx.user.role);
+      const existing = await db.getExpenseById(input.id);
+      if (!existing) {
+        throw new TRPCError({ code: "NOT_FOUND", message: "Expense not found" });
+      }
+      if (!existing.duplicateOfExpenseId) {
+        throw new TRPCError({ code: "BAD_REQUEST", message: "This expense isn't marked as a possible duplicate" });
+      }
+      if (existing.status === "void") {
+        throw new TRPCError({ code: "BAD_REQUEST", message: "Expense is already void" });
+      }
+
+      return await db.setExpenseStatus(
+        input.id,
+        "void",
+        ctx.user.id,
+        "duplicate",
+        `Duplicate of expense #${existing.duplicateOfExpenseId}`
+      );
+    }),
+
+  /**
+   * Dismiss a duplicate warning: the expense is not a duplicate of the suspected original
+   */
+  dismissDuplicate: protectedProcedure
+    .input(z.object({ id: z.number() }))
+    .mutation(async ({ input, ctx }) => {
+      await validateExpenseOwnership(input.id, ctx.user.id, ctx.user.role);
+      await db.setExpenseDuplicateOf(input.id, null, null);
+      return { success: true };
+    }),
+
+  /**
+   * Override the exchange rate of a foreign-currency expense (units of the
+   * currency per 1 EUR), or pass null to go back to the ECB rate of the
+   * expense date. Like other accounting changes this resets an in_order
+   * expense to needs_review.
+   */
+  setExchangeRate: protectedProcedure
+    .input(
+      z.object({
+        id: z.number(),
+        rate: z.number().positive().max(999_999_999).nullable(),
+      })
+    )
+    .mutation(async ({ input, ctx }) => {
+      await validateExpenseOwnership(input.id, ctx.user.id, ctx.user.role);
+      const existing = await db.getExpenseById(input.id);
+      if (!existing) {
+        throw new TRPCError({ code: "NOT_FOUND", message: "Expense not found" });
+      }
+      if (existing.currency === BASE_CURRENCY) {
+        throw new TRPCError({ code: "BAD_REQUEST", message: "EUR expenses don't need an exchange rate" });
+      }
+      if (existing.status === "void") {
+        throw new TRPCError({ code: "BAD_REQUEST", message: "Void expenses can't be changed" });
+      }
+
+      return await db.updateExpense(
+        input.id,
+        input.rate === null
+          ? { exchangeRate: null, exchangeRateDate: null, exchangeRateSource: null }
+          : { exchangeRate: input.rate.toFixed(6), exchangeRateDate: toRateDate(new Date()), exchangeRateSource: "manual" },
+        ctx.user.id
+      );
+    }),
+
+  /**
+   * Replace the splits of an expense
+   * Splits have to add up to grossAmountCents; an empty list removes them.
+   * Like other accounting changes this resets an in_order expense to needs_review.
+   */
+  setSplits: protectedProcedure
+    .input(
+      z.object({
+        id: z.number(),
+        splits: z.array(expenseSplitSchema).max(MAX_EXPENSE_SPLITS),
+      })
+    )
+    .mutation(async ({ input, ctx }) => {
+      await validateExpenseOwnership(input.id, ctx.user.id, ctx.user.role);
+      const existing = await db.getExpenseById(input.id);
+      if (!existing) {
+        throw new TRPCError({ code: "NOT_FOUND", message: "Expense not found" });
+      }
+      if (existing.status === "void") {
+        throw new TRPCError({ code: "BAD_REQUEST", message: "Void expenses can't be split" });
+      }
+
+      const splits = input.splits.map((split) => ({
+        ...split,
+        vatRate: split.vatRate ?? null,
+        projectId: split.projectId ?? null,
+        description: split.description || null,
+      }));
+      validateSplitTotals(existing.grossAmountCents, splits);
+
+      const projectIds = Array.from(new Set(splits.map((split) => split.projectId).filter((id): id is number => id !== null)));
+      for (const projectId of projectIds) {
+        await validateProjectLink(existing.createdBy, projectId, null);
+      }
+
+      return await db.replaceExpenseSplits(input.id, splits, ctx.user.id);
+    }),
+
   /**
    * Delete an expense
    * Hard rule: Only allowed if status === 'needs_review'
@@ -700,12 +1136,23 @@ export const expenseRouter = router({
         const isFirstReceipt = existingFiles.length === 0;
         console.log("[Expenses] Is first receipt:", isFirstReceipt, "Existing files:", existingFiles.length);
 
+        // Read the uploaded file once for hashing and PDF total extraction
+        let data: Buffer | null = null;
+        let fingerprint: ReceiptFingerprint = { contentHash: null, perceptualHash: null };
+        try {
+          data = (await storageGet(input.s3Key)).data;
+          fingerprint = await fingerprintReceipt(data, input.mimeType);
+        } catch (readError) {
+          console.error(`[Expenses] Could not read receipt ${input.s3Key} for hashing:`, readError);
+        }
+
         const file = await db.addExpenseFile({
           expenseId: input.expenseId,
           s3Key: input.s3Key,
           mimeType: input.mimeType,
           originalFilename: input.originalFilename,
           fileSize: input.fileSize,
+          ...fingerprint,
         });
         console.log("[Expenses] File registered in database, fileId:", file.id);
 
@@ -713,9 +1160,8 @@ export const expenseRouter = router({
       if (isFirstReceipt) {
         try {
           let pdfTotalCents: number | null = null;
-          if (input.mimeType.toLowerCase().includes("pdf")) {
+          if (data && input.mimeType.toLowerCase().includes("pdf")) {
             try {
-              const { data } = await storageGet(input.s3Key);
               const totalResult = await extractGermanTotalFromPdfText(data);
               if (totalResult.confidence !== "low") {
                 pdfTotalCents = totalResult.grossAmountCents;
@@ -745,8 +1191,10 @@ export const expenseRouter = router({
         }
       }
 
+      const duplicate = await findDuplicateBestEffort(input.expenseId, ctx.user.id);
+
       console.log("[Expenses] registerReceipt completed successfully, returning file");
-      return file;
+      return { ...file, duplicate };
       } catch (error) {
         console.error("[Expenses] registerReceipt failed:", error);
         throw error;
@@ -765,8 +1213,8 @@ export const expenseRouter = router({
         throw new TRPCError({ code: "NOT_FOUND", message: "Receipt file not found" });
       }
 
-      // Verify expense ownership
-      await validateExpenseOwnership(file.expenseId, ctx.user.id, ctx.user.role);
+      // Verify expense access (owner or reviewer)
+      await validateExpenseReadAccess(file.expenseId, ctx.user);
 
       const url = await createPresignedReadUrl(file.s3Key, 60 * 60); // 1 hour
 
@@ -815,22 +1263,80 @@ export const expenseRouter = router({
     }),
 
   /**
-   * Process receipt (OCR stub - throws NOT_IMPLEMENTED)
+   * Process receipt with OCR
+   * Preview-only like getProposedFields: returns the extracted supplier, date
+   * and total as proposed fields, to be applied with applyProposedFields
    */
   processReceipt: protectedProcedure
     .input(
       z.object({
         expenseId: z.number(),
         fileId: z.number(),
+        ocrBackend: z.enum(OCR_BACKEND_PREFERENCES).optional(),
       })
     )
     .mutation(async ({ input, ctx }) => {
       await validateExpenseOwnership(input.expenseId, ctx.user.id, ctx.user.role);
-      
-      throw new TRPCError({
-        code: "NOT_IMPLEMENTED",
-        message: "OCR processing not yet implemented",
-      });
+
+      const file = await db.getExpenseFileById(input.fileId);
+      if (!file || file.expenseId !== input.expenseId) {
+        throw new TRPCError({ code: "NOT_FOUND", message: "Receipt file not found" });
+      }
+
+      let normalized: NormalizedExtractionResult;
+      try {
+        const { data } = await storageGet(file.s3Key);
+        normalized = normalizeExtractedData(
+          await extractDocument({
+            fileBuffer: data,
+            mimeType: file.mimeType,
+            filename: file.originalFilename,
+            languageHint: "de",
+            backend: input.ocrBackend,
+          })
+        );
+      } catch (error) {
+        console.error(`[Expenses] OCR failed for expense ${input.expenseId}:`, error);
+        throw new TRPCError({
+          code: "INTERNAL_SERVER_ERROR",
+          message: error instanceof Error ? `Receipt processing failed: ${error.message}` : "Receipt processing failed",
+        });
+      }
+
+      const fieldConfidence = normalized.confidence.fields;
+      const reason = normalized.backend === "local" ? "Read from receipt (local OCR)" : "Read from receipt (Mistral OCR)";
+      const proposed: ProposedFields = {};
+      if (normalized.supplierName) {
+        proposed.supplierName = {
+          value: normalized.supplierName,
+          confidence: fieldConfidence.supplierName ?? 0,
+          reason,
+          source: "ocr",
+        };
+      }
+      if (normalized.issueDate) {
+        proposed.expenseDate = {
+          value: normalized.issueDate,
+          confidence: fieldConfidence.issueDate ?? 0,
+          reason,
+          source: "ocr",
+        };
+      }
+      if (normalized.totalCents) {
+        proposed.grossAmountCents = {
+          value: normalized.totalCents,
+          confidence: fieldConfidence.total ?? 0,
+          reason,
+          source: "ocr",
+        };
+      }
+
+      return {
+        backend: normalized.backend,
+        currency: normalized.currency,
+        proposed,
+        confidence: computeConfidenceMetadata(normalized),
+      };
     }),
 
   /**
@@ -863,6 +1369,7 @@ export const expenseRouter = router({
     .mutation(async ({ input, ctx }) => {
       const createdExpenseIds: number[] = [];
       const errors: Array<{ filename: string; error: string }> = [];
+      const duplicates: Array<{ expenseId: number; filename: string; duplicate: DuplicateWarning }> = [];
 
       // Process each file independently
       for (const file of input.files) {
@@ -907,6 +1414,7 @@ export const expenseRouter = router({
               mimeType: file.mimeType,
               originalFilename: file.filename,
               fileSize: file.fileSize,
+              ...(await fingerprintReceipt(buffer, file.mimeType)),
             });
 
             // Apply autofill (this is the first receipt, so autofill runs)
@@ -941,6 +1449,11 @@ export const expenseRouter = router({
             }
 
             createdExpenseIds.push(expenseId);
+
+            const duplicate = await findDuplicateBestEffort(expenseId, ctx.user.id);
+            if (duplicate) {
+              duplicates.push({ expenseId, filename: file.filename, duplicate });
+            }
           } catch (uploadError) {
             // If S3 upload or file registration failed, clean up
             if (s3UploadSucceeded) {
@@ -985,6 +1498,7 @@ export const expenseRouter = router({
       // Return results (even if some failed)
       return {
         createdExpenseIds,
+        duplicates,
         errors: errors.length > 0 ? errors : undefined,
       };
     }),
@@ -0,0 +1,49 @@
+import { describe, expect, it } from "vitest";
+import { getExpenseAccountingLines, validateExpenseSplits, type ExpenseSplitLine } from "../shared/expenseSplits";
+
+const split = (grossAmountCents: number, overrides: Partial<ExpenseSplitLine> = {}): ExpenseSplitLine => ({
+  grossAmountCents,
+  category: "repairs",
+  vatRate: "19",
+  projectId: null,
+  businessUsePct: 100,
+  ...overrides,
+});
+
+describe("validateExpenseSplits", () => {
+  it("requires the splits to add up to the gross amount", () => {
+    expect(validateExpenseSplits(10000, [])).toBeNull();
+    expect(validateExpenseSplits(10000, [split(6000), split(4000)])).toBeNull();
+    expect(validateExpenseSplits(10000, [split(6000), split(3950)])).toBe(
+      "The splits add up to 99.50 instead of 100.00 (difference 0.50)"
+    );
+    expect(validateExpenseSplits(10000, [split(10000), split(0)])).toBe("Every split needs an amount");
+  });
+});
+
+describe("getExpenseAccountingLines", () => {
+  const expense = {
+    grossAmountCents: 10000,
+    category: "equipment" as const,
+    vatRate: "19" as const,
+    vatAmountCents: 1597,
+    businessUsePct: 80,
+  };
+
+  it("treats an expense without splits as one line", () => {
+    expect(getExpenseAccountingLines(expense)).toEqual([
+      { grossAmountCents: 10000, category: "equipment", vatRate: "19", vatAmountCents: 1597, businessUsePct: 80, projectId: null },
+    ]);
+  });
+
+  it("uses the split lines instead of the expense fields", () => {
+    const lines = getExpenseAccountingLines({
+      ...expense,
+      splits: [split(7000, { projectId: 4 }), split(3000, { category: "meals", vatRate: "7", businessUsePct: 0 })],
+    });
+    expect(lines.map((line) => [line.grossAmountCents, line.category, line.vatAmountCents, line.projectId])).toEqual([
+      [7000, "repairs", null, 4],
+      [3000, "meals", null, null],
+    ]);
+  });
+});
@@ -5,13 +5,15 @@
  * Used for review lane UI to show users what can be auto-applied.
  */
 
+import type { ExpenseVatMode } from "../../shared/expenseSplits";
+
 export type ConfidenceLevel = "high" | "medium" | "low";
 
 export type ProposedField<T = any> = {
   value: T;
   confidence: number; // 0.0-1.0
   reason: string;
-  source: "filename" | "supplier_memory" | "keyword" | "heuristic" | "default";
+  source: "filename" | "supplier_memory" | "keyword" | "heuristic" | "ocr" | "default";
 };
 
 export type ProposedFields = {
@@ -20,7 +22,7 @@ export type ProposedFields = {
   expenseDate?: ProposedField<Date>;
   grossAmountCents?: ProposedField<number>;
   category?: ProposedField<string>;
-  vatMode?: ProposedField<"none" | "german" | "foreign">;
+  vatMode?: ProposedField<ExpenseVatMode>;
   businessUsePct?: ProposedField<number>;
 };
 
@@ -1,24 +1,29 @@
 /**
  * Deterministic total extraction for text-based German receipts (PDF only).
- * No OCR - only uses embedded PDF text when available.
+ * No OCR - only uses embedded PDF text when available. The text part is
+ * shared with the local OCR backend.
  */
 
-type TotalExtractionResult = {
+export type TotalExtractionResult = {
   grossAmountCents: number | null;
   confidence: "high" | "medium" | "low";
 };
 
 const TOTAL_KEYWORD_REGEX =
-  /\b(SUMME|GESAMT|TOTAL|RECHNUNGSBETRAG|ZU\s+ZAHLEN|ENDSUMME|END\s+SUMME)\b/i;
+  /\b(SUMME|GESAMT|GESAMTBETRAG|TOTAL|RECHNUNGSBETRAG|ZU\s+ZAHLEN|ENDSUMME|END\s+SUMME)\b/i;
 
 const AMOUNT_REGEX = /(\d{1,3}(?:[.\s]\d{3})*(?:[.,]\d{2})|\d+(?:[.,]\d{2}))/g;
 
-async function extractPdfText(pdfBuffer: Buffer): Promise<string | null> {
+export async function extractPdfText(pdfBuffer: Buffer): Promise<string | null> {
   try {
-    const pdfParseModule = await import("pdf-parse");
-    const pdfParse = (pdfParseModule as any).default || pdfParseModule;
-    const data = await pdfParse(pdfBuffer);
-    return data.text || null;
+    const { PDFParse } = await import("pdf-parse");
+    const parser = new PDFParse({ data: pdfBuffer });
+    try {
+      const result = await parser.getText();
+      return result.text || null;
+    } finally {
+      await parser.destroy();
+    }
   } catch (error) {
     console.error("[Expenses] Failed to extract PDF text:", error);
     return null;
@@ -61,7 +66,15 @@ export async function extractGermanTotalFromPdfText(
   pdfBuffer: Buffer
 ): Promise<TotalExtractionResult> {
   const text = await extractPdfText(pdfBuffer);
-  if (!text || text.trim().length === 0) {
+  return extractGermanTotalFromText(text ?? "");
+}
+
+/**
+ * Find the gross total in receipt text: amounts on or after a total keyword
+ * line win, otherwise the largest amount if it looks like a sum
+ */
+export function extractGermanTotalFromText(text: string): TotalExtractionResult {
+  if (text.trim().length === 0) {
     return { grossAmountCents: null, confidence: "low" };
   }
 
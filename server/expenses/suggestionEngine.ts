@@ -5,6 +5,7 @@
  * - Category
  * - VAT mode
  * - Business use %
+ * - Project (from check-ins at the receipt date)
  * 
  * All suggestions are:
  * - Explainable (reason field)
@@ -20,6 +21,7 @@
 
 import * as db from "../db";
 import type { Expense, ExpenseFile } from "../../drizzle/schema";
+import type { ExpenseVatMode } from "../../shared/expenseSplits";
 
 // =============================================================================
 // TYPES
@@ -32,7 +34,7 @@ export type CategorySuggestion = {
 };
 
 export type VatModeSuggestion = {
-  value: "none" | "german" | "foreign";
+  value: ExpenseVatMode;
   confidence: number;
   reason: string;
 };
@@ -43,10 +45,18 @@ export type BusinessUsePctSuggestion = {
   reason: string;
 };
 
+export type ProjectSuggestion = {
+  value: number; // project id
+  projectName: string;
+  confidence: number;
+  reason: string;
+};
+
 export type ExpenseSuggestions = {
   category?: CategorySuggestion;
   vatMode?: VatModeSuggestion;
   businessUsePct?: BusinessUsePctSuggestion;
+  project?: ProjectSuggestion;
 };
 
 // =============================================================================
@@ -78,7 +88,7 @@ const KEYWORD_CATEGORY_MAP: Record<string, string> = {
  * - Strip common suffixes (gmbh, ug, kg, ag, ltd, inc, llc)
  * - Trim whitespace
  */
-function normalizeSupplierName(name: string): string {
+export function normalizeSupplierName(name: string): string {
   let normalized = name.trim().toLowerCase();
   
   // Remove punctuation (keep spaces)
@@ -125,6 +135,28 @@ function extractKeywords(text: string): string[] {
   return keywords;
 }
 
+/**
+ * Supplier memory: non-void expenses grouped by normalized supplier name,
+ * newest first. Also the base of subscription detection.
+ */
+export async function getSupplierMemory(userId: number): Promise<Map<string, Expense[]>> {
+  const allExpenses = await db.listExpensesByUser(userId);
+  const memory = new Map<string, Expense[]>();
+  
+  for (const expense of allExpenses) {
+    const key = normalizeSupplierName(expense.supplierName);
+    if (!key) continue;
+    const group = memory.get(key);
+    if (group) {
+      group.push(expense);
+    } else {
+      memory.set(key, [expense]);
+    }
+  }
+  
+  return memory;
+}
+
 /**
  * Get supplier history (last 5 expenses with same supplier)
  */
@@ -132,15 +164,8 @@ async function getSupplierHistory(
   userId: number,
   supplierName: string
 ): Promise<Expense[]> {
-  const normalized = normalizeSupplierName(supplierName);
-  const allExpenses = await db.listExpensesByUser(userId);
-  
-  // Filter by normalized supplier name and get last 5
-  const matching = allExpenses
-    .filter((exp) => normalizeSupplierName(exp.supplierName) === normalized)
-    .slice(0, 5);
-  
-  return matching;
+  const memory = await getSupplierMemory(userId);
+  return (memory.get(normalizeSupplierName(supplierName)) ?? []).slice(0, 5);
 }
 
 /**
@@ -298,6 +323,71 @@ function suggestVatFromCurrency(currency: string): Partial<ExpenseSuggestions> {
   };
 }
 
+/**
+ * Rule E: Project Check-in
+ * A receipt with a time of day belongs to the project checked in at that
+ * moment; a date-only receipt to the project worked on that day
+ */
+async function suggestProjectFromCheckins(
+  userId: number,
+  expenseDate: Date
+): Promise<Partial<ExpenseSuggestions>> {
+  const dayStart = new Date(expenseDate);
+  dayStart.setHours(0, 0, 0, 0);
+  const dayEnd = new Date(dayStart);
+  dayEnd.setHours(23, 59, 59, 999);
+
+  const checkins = await db.getCheckinsOverlappingRange(userId, dayStart, dayEnd);
+  if (checkins.length === 0) {
+    return {};
+  }
+
+  const hasTime = expenseDate.getTime() !== dayStart.getTime();
+  if (hasTime) {
+    const active = checkins.find(
+      (checkin) =>
+        checkin.checkInTime <= expenseDate &&
+        (checkin.checkOutTime === null || checkin.checkOutTime >= expenseDate)
+    );
+    if (active) {
+      return {
+        project: {
+          value: active.projectId,
+          projectName: active.projectName,
+          confidence: 0.9,
+          reason: "Checked in to this project at the receipt time",
+        },
+      };
+    }
+  }
+
+  // Time spent per project that day; a running check-in counts until the end of the day
+  const minutesByProject = new Map<number, { projectName: string; minutes: number }>();
+  for (const checkin of checkins) {
+    const start = Math.max(checkin.checkInTime.getTime(), dayStart.getTime());
+    const end = Math.min((checkin.checkOutTime ?? dayEnd).getTime(), dayEnd.getTime());
+    const entry = minutesByProject.get(checkin.projectId) ?? { projectName: checkin.projectName, minutes: 0 };
+    entry.minutes += Math.max(0, end - start) / 60000;
+    minutesByProject.set(checkin.projectId, entry);
+  }
+
+  const [projectId, best] = Array.from(minutesByProject.entries()).reduce((top, current) =>
+    current[1].minutes > top[1].minutes ? current : top
+  );
+  const onlyProject = minutesByProject.size === 1;
+
+  return {
+    project: {
+      value: projectId,
+      projectName: best.projectName,
+      confidence: onlyProject ? 0.7 : 0.5,
+      reason: onlyProject
+        ? "Only project checked in to on the receipt date"
+        : "Project with the most check-in time on the receipt date",
+    },
+  };
+}
+
 // =============================================================================
 // MAIN SUGGESTION ENGINE
 // =============================================================================
@@ -310,6 +400,7 @@ function suggestVatFromCurrency(currency: string): Partial<ExpenseSuggestions> {
  * - Keyword matching
  * - Category heuristics
  * - Currency rules
+ * - Project check-ins
  * 
  * ⚠️ This function MUST NOT:
  * - Write to DB
@@ -363,6 +454,9 @@ export async function getExpenseSuggestions(
   // Rule D: Currency Guard (absolute, overrides other VAT suggestions)
   const currencySuggestions = suggestVatFromCurrency(expense.currency);
   allSuggestions.push(currencySuggestions);
+
+  // Rule E: Project check-in at the receipt date
+  allSuggestions.push(await suggestProjectFromCheckins(userId, new Date(expense.expenseDate)));
   
   // Resolve conflicts: choose highest confidence for each field
   const resolved: ExpenseSuggestions = {};
@@ -396,6 +490,16 @@ export async function getExpenseSuggestions(
       current.confidence > best.confidence ? current : best
     );
   }
+
+  // Resolve project
+  const projectCandidates = allSuggestions
+    .map((s) => s.project)
+    .filter((p): p is ProjectSuggestion => p !== undefined);
+  if (projectCandidates.length > 0) {
+    resolved.project = projectCandidates.reduce((best, current) =>
+      current.confidence > best.confidence ? current : best
+    );
+  }
   
   return resolved;
 }
@@ -1,3 +1,4 @@
+import { TRPCError } from "@trpc/server";
 import { protectedProcedure, router } from "./_core/trpc";
 import { z } from "zod";
 import * as db from "./db";
@@ -470,4 +471,5 @@ export const exportRouter = router({
         imported: results,
       };
     }),
+
 });
@@ -0,0 +1,53 @@
+import { describe, expect, it } from "vitest";
+import {
+  DEFAULT_GEOFENCE_RADIUS_METERS,
+  checkGeofence,
+  distanceMeters,
+  formatDistance,
+  getGeofenceRadius,
+  nextGeofenceState,
+} from "../shared/geofence";
+
+const SITE = { lat: 52.52, lng: 13.405 };
+/** Roughly 111 m north per 0.001° of latitude */
+const north = (meters: number) => ({ lat: SITE.lat + meters / 111195, lng: SITE.lng });
+
+describe("checkGeofence", () => {
+  it("measures the distance to the site", () => {
+    expect(distanceMeters(SITE, north(500))).toBe(500);
+    expect(getGeofenceRadius(null)).toBe(DEFAULT_GEOFENCE_RADIUS_METERS);
+    expect(getGeofenceRadius(80)).toBe(80);
+  });
+
+  it("flags positions clearly outside the radius", () => {
+    expect(checkGeofence(SITE, north(150), 200)).toEqual({ distanceMeters: 150, outside: false });
+    expect(checkGeofence(SITE, north(350), 200)).toEqual({ distanceMeters: 350, outside: true });
+  });
+
+  it("credits the reported accuracy up to a limit", () => {
+    expect(checkGeofence(SITE, { ...north(260), accuracy: 80 }, 200).outside).toBe(false);
+    expect(checkGeofence(SITE, { ...north(2000), accuracy: 5000 }, 200).outside).toBe(true);
+  });
+});
+
+describe("nextGeofenceState", () => {
+  it("enters within the radius and leaves beyond the margin", () => {
+    expect(nextGeofenceState(null, 120, 200)).toBe("inside");
+    expect(nextGeofenceState("inside", 220, 200)).toBe("inside");
+    expect(nextGeofenceState("inside", 260, 200)).toBe("outside");
+    expect(nextGeofenceState("outside", 220, 200)).toBe("outside");
+    expect(nextGeofenceState(null, 220, 200)).toBe("outside");
+  });
+
+  it("ignores fixes too vague to tell", () => {
+    expect(nextGeofenceState("outside", 50, 200, 800)).toBe("outside");
+    expect(nextGeofenceState(null, 50, 200, 800)).toBeNull();
+  });
+});
+
+describe("formatDistance", () => {
+  it("switches to kilometres from 1 km", () => {
+    expect(formatDistance(80)).toBe("80 m");
+    expect(formatDistance(1340)).toBe("1,3 km");
+  });
+});
@@ -0,0 +1,50 @@
+import { describe, expect, it } from "vitest";
+import { findMarkedAsPaidPayment, summarizeInvoicePayments } from "../shared/invoicePayments";
+
+describe("summarizeInvoicePayments", () => {
+  it("sums partial payments without settling the invoice", () => {
+    const summary = summarizeInvoicePayments("1190.00", [
+      { id: 1, amount: "500.00", paidAt: new Date(2025, 2, 1) },
+      { id: 2, amount: 190.1, paidAt: new Date(2025, 2, 10) },
+    ]);
+    expect(summary.amountPaid).toBe(690.1);
+    expect(summary.lastPaymentAt).toEqual(new Date(2025, 2, 10));
+    expect(summary.paidAt).toBeNull();
+  });
+
+  it("uses the date of the settling payment, regardless of booking order", () => {
+    const summary = summarizeInvoicePayments(1000, [
+      { id: 3, amount: "400.00", paidAt: new Date(2025, 3, 20) },
+      { id: 1, amount: "600.00", paidAt: new Date(2025, 3, 5) },
+    ]);
+    expect(summary.amountPaid).toBe(1000);
+    expect(summary.paidAt).toEqual(new Date(2025, 3, 20));
+  });
+
+  it("is open again without payments", () => {
+    expect(summarizeInvoicePayments(1000, [])).toEqual({ amountPaid: 0, lastPaymentAt: null, paidAt: null });
+  });
+});
+
+describe("findMarkedAsPaidPayment", () => {
+  it("finds the settling payment booked by Mark as paid", () => {
+    const payments = [
+      { id: 2, amount: "600.00", paidAt: new Date(2025, 3, 20), source: "mark_as_paid" as const },
+      { id: 1, amount: "400.00", paidAt: new Date(2025, 3, 5), source: "bank_import" as const },
+    ];
+    expect(findMarkedAsPaidPayment(payments)?.id).toBe(2);
+  });
+
+  it("never picks payments entered by hand or imported from the bank", () => {
+    expect(
+      findMarkedAsPaidPayment([
+        { id: 1, amount: "400.00", paidAt: new Date(2025, 3, 5), source: "mark_as_paid" as const },
+        { id: 2, amount: "600.00", paidAt: new Date(2025, 3, 20), source: "bank_import" as const },
+      ])
+    ).toBeNull();
+    expect(
+      findMarkedAsPaidPayment([{ id: 1, amount: "1000.00", paidAt: new Date(2025, 3, 5), source: "manual" as const }])
+    ).toBeNull();
+    expect(findMarkedAsPaidPayment([])).toBeNull();
+  });
+});
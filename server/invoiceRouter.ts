@@ -11,19 +11,24 @@ import {
   buildCompanySnapshot,
   buildSettingsSnapshot,
 } from "./lib/completeness/ice";
-
-const lineItemSchema = z.object({
-  name: z.string().min(1, "Item name is required"),
-  description: z.string().optional(),
-  category: z.string().optional(),
-  quantity: z.number().positive("Quantity must be greater than 0"),
-  unitPrice: z.number().nonnegative(),
-  currency: z.string().length(3).default("EUR"),
-});
+import { prepareEInvoice, renderEInvoiceXml, buildEInvoiceFilename } from "./services/einvoiceService";
+import { requireAccountAccess } from "./services/workspaceAccess";
+import { HttpError } from "@shared/_core/errors";
+import { INVOICE_PAYMENT_METHODS } from "../shared/invoicePayments";
+import { OCR_BACKEND_PREFERENCES } from "./services/ai/document/types";
+import {
+  lineItemSchema,
+  normalizeLineItems,
+  calculateTotals,
+  toStoredLineItems,
+  fromStoredLineItems,
+  type VatSettings,
+} from "./lib/lineItems";
 
 const invoiceMetadataSchema = z.object({
   invoiceNumber: z.string().trim().min(1, "Invoice number is required").optional(),
   clientId: z.number().optional().nullable(),
+  projectId: z.number().optional().nullable(),
   issueDate: z.date().optional(),
   dueDate: z.date().optional().nullable(),
   notes: z.string().optional().nullable(),
@@ -34,34 +39,6 @@ const invoiceMetadataSchema = z.object({
   partialInvoice: z.boolean().optional(),
 });
 
-function normalizeLineItems(items: Array<z.infer<typeof lineItemSchema>>) {
-  return items.map((item) => {
-    const quantity = Number(item.quantity);
-    const unitPrice = Number(item.unitPrice);
-    const lineTotal = Number((quantity * unitPrice).toFixed(2));
-    return {
-      name: item.name,
-      description: item.description ?? null,
-      category: item.category ?? null,
-      quantity,
-      unitPrice,
-      currency: item.currency || "EUR",
-      lineTotal,
-    };
-  });
-}
-
-function calculateTotals(items: ReturnType<typeof normalizeLineItems>) {
-  const subtotal = items.reduce((sum, item) => sum + item.lineTotal, 0);
-  const vatAmount = 0; // VAT handling will be added later
-  const total = subtotal + vatAmount;
-  return {
-    subtotal: Number(subtotal.toFixed(2)),
-    vatAmount: Number(vatAmount.toFixed(2)),
-    total: Number(total.toFixed(2)),
-  };
-}
-
 /**
  * Format invoice name - just return the invoice number (no prefix)
  */
@@ -104,6 +81,21 @@ function checkInvoiceNeedsReview(invoice: Awaited<ReturnType<typeof db.getInvoic
   }
 }
 
+/**
+ * Run a database step that refuses invalid changes with an HttpError and pass
+ * the refusal on as BAD_REQUEST instead of an internal error
+ */
+async function withBadRequest<T>(step: () => Promise<T>): Promise<T> {
+  try {
+    return await step();
+  } catch (error) {
+    if (error instanceof HttpError && error.statusCode === 400) {
+      throw new TRPCError({ code: "BAD_REQUEST", message: error.message });
+    }
+    throw error;
+  }
+}
+
 /**
  * Get invoice state based on timestamps + needsReview (NOT status field)
  * This is the single source of truth for UI state logic
@@ -163,6 +155,7 @@ function mapInvoiceToPayload(invoice: Awaited<ReturnType<typeof db.getInvoiceByI
     quantity: Number(item.quantity),
     unitPrice: Number(item.unitPrice),
     lineTotal: Number(item.lineTotal),
+    vatRate: item.vatRate === null || item.vatRate === undefined ? null : Number(item.vatRate),
   }));
   
   const amountPaid = Number(invoice.amountPaid || 0);
@@ -224,7 +217,7 @@ async function withCancellationMetadata<T extends { id: number; type?: string; c
 
 export const invoiceRouter = router({
   list: protectedProcedure.query(async ({ ctx }) => {
-    const userId = ctx.user.id;
+    const userId = await requireAccountAccess(ctx.user, "invoices", "view");
     const invoices = await db.getInvoicesByUserId(userId);
     const mapped = invoices.map(mapInvoiceToPayload);
     const withMeta = await withCancellationMetadata(mapped);
@@ -235,28 +228,32 @@ export const invoiceRouter = router({
   }),
 
   listArchived: protectedProcedure.query(async ({ ctx }) => {
-    const invoices = await db.getArchivedInvoicesByUserId(ctx.user.id);
+    const userId = await requireAccountAccess(ctx.user, "invoices", "view");
+    const invoices = await db.getArchivedInvoicesByUserId(userId);
     return withCancellationMetadata(invoices.map(mapInvoiceToPayload));
   }),
 
   listTrashed: protectedProcedure.query(async ({ ctx }) => {
-    const invoices = await db.getTrashedInvoicesByUserId(ctx.user.id);
+    const userId = await requireAccountAccess(ctx.user, "invoices", "view");
+    const invoices = await db.getTrashedInvoicesByUserId(userId);
     return withCancellationMetadata(invoices.map(mapInvoiceToPayload));
   }),
 
   listNeedsReview: protectedProcedure.query(async ({ ctx }) => {
-    const invoices = await db.getNeedsReviewInvoicesByUserId(ctx.user.id);
+    const userId = await requireAccountAccess(ctx.user, "invoices", "view");
+    const invoices = await db.getNeedsReviewInvoicesByUserId(userId);
     return invoices.map(mapInvoiceToPayload);
   }),
 
   get: protectedProcedure
     .input(z.object({ id: z.number() }))
     .query(async ({ input, ctx }) => {
+      const userId = await requireAccountAccess(ctx.user, "invoices", "view");
       const invoice = await db.getInvoiceById(input.id);
       if (!invoice) {
         throw new TRPCError({ code: "NOT_FOUND", message: "Invoice not found" });
       }
-      if (invoice.userId !== ctx.user.id) {
+      if (invoice.userId !== userId) {
         throw new TRPCError({ code: "FORBIDDEN", message: "You don't have access to this invoice" });
       }
       const withMeta = await withCancellationMetadata([mapInvoiceToPayload(invoice)]);
@@ -266,10 +263,11 @@ export const invoiceRouter = router({
   nextNumber: protectedProcedure
     .input(z.object({ issueDate: z.date().optional() }).optional())
     .query(async ({ input, ctx }) => {
-      const settings = await db.getCompanySettingsByUserId(ctx.user.id);
+      const userId = await requireAccountAccess(ctx.user, "invoices", "view");
+      const settings = await db.getCompanySettingsByUserId(userId);
       const issueDate = input?.issueDate ?? new Date();
       const generated = await db.generateInvoiceNumber(
-        ctx.user.id,
+        userId,
         issueDate,
         settings?.invoiceNumberFormat ?? null,
         settings?.invoicePrefix ?? "RE"
@@ -284,7 +282,7 @@ export const invoiceRouter = router({
       })
     )
     .mutation(async ({ input, ctx }) => {
-      const userId = ctx.user.id;
+      const userId = await requireAccountAccess(ctx.user, "invoices", "edit");
       const settings = await db.getCompanySettingsByUserId(userId);
       if (!settings) {
         throw new TRPCError({
@@ -317,12 +315,13 @@ export const invoiceRouter = router({
       const effectiveCounter = manualCounter ?? invoiceCounter;
       await db.ensureUniqueInvoiceNumber(userId, invoiceNumber);
 
-      const normalizedItems = normalizeLineItems(input.items);
-      const totals = calculateTotals(normalizedItems);
+      const normalizedItems = normalizeLineItems(input.items, settings);
+      const totals = calculateTotals(normalizedItems, settings);
 
       const created = await db.createInvoice({
         userId: userId,
         clientId: input.clientId ?? null,
+        projectId: input.projectId ?? null,
         invoiceNumber,
         invoiceName: formatInvoiceName(invoiceNumber),
         invoiceCounter: effectiveCounter,
@@ -339,12 +338,7 @@ export const invoiceRouter = router({
         subtotal: totals.subtotal.toFixed(2),
         vatAmount: totals.vatAmount.toFixed(2),
         total: totals.total.toFixed(2),
-        items: normalizedItems.map((item) => ({
-          ...item,
-          quantity: item.quantity.toFixed(2),
-          unitPrice: item.unitPrice.toFixed(2),
-          lineTotal: item.lineTotal.toFixed(2),
-        })),
+        items: toStoredLineItems(normalizedItems),
       });
 
       return mapInvoiceToPayload(created);
@@ -359,7 +353,7 @@ export const invoiceRouter = router({
       })
     )
     .mutation(async ({ input, ctx }) => {
-      const userId = ctx.user.id;
+      const userId = await requireAccountAccess(ctx.user, "invoices", "edit");
       const invoice = await db.getInvoiceById(input.id);
       if (!invoice) {
         throw new TRPCError({ code: "NOT_FOUND", message: "Invoice not found" });
@@ -422,17 +416,10 @@ export const invoiceRouter = router({
 
       await db.ensureUniqueInvoiceNumber(userId, invoiceNumber, invoice.id);
 
-      const normalizedItems = input.items
-        ? normalizeLineItems(input.items)
-        : (invoice.items || []).map((item) => ({
-            name: item.name,
-            description: item.description,
-            category: item.category,
-            quantity: Number(item.quantity),
-            unitPrice: Number(item.unitPrice),
-            currency: item.currency,
-            lineTotal: Number(item.lineTotal),
-          }));
+      const normalizedItems = normalizeLineItems(
+        input.items ?? fromStoredLineItems(invoice.items || []),
+        settings
+      );
 
       // For uploaded invoices, allow updates without line items (they may not have been parsed yet)
       // For created invoices, require at least one line item
@@ -445,7 +432,7 @@ export const invoiceRouter = router({
 
       // Calculate totals - for uploaded invoices, allow direct totalAmount override
       const totals = finalItems.length > 0 
-        ? calculateTotals(finalItems)
+        ? calculateTotals(finalItems, settings)
         : input.totalAmount && invoice.source === "uploaded"
         ? {
             subtotal: Number(input.totalAmount),
@@ -463,6 +450,7 @@ export const invoiceRouter = router({
 
       const updated = await db.updateInvoice(invoice.id, {
         clientId: input.clientId ?? invoice.clientId,
+        projectId: input.projectId === undefined ? invoice.projectId : input.projectId,
         invoiceNumber,
         invoiceName,
         invoiceCounter,
@@ -478,12 +466,7 @@ export const invoiceRouter = router({
         subtotal: totals.subtotal.toFixed(2),
         vatAmount: totals.vatAmount.toFixed(2),
         total: totals.total.toFixed(2),
-        items: finalItems.map((item) => ({
-          ...item,
-          quantity: item.quantity.toFixed(2),
-          unitPrice: item.unitPrice.toFixed(2),
-          lineTotal: item.lineTotal.toFixed(2),
-        })),
+        items: toStoredLineItems(finalItems),
       });
 
       return mapInvoiceToPayload(updated);
@@ -492,7 +475,7 @@ export const invoiceRouter = router({
   issue: protectedProcedure
     .input(z.object({ id: z.number() }))
     .mutation(async ({ input, ctx }) => {
-      const userId = ctx.user.id;
+      const userId = await requireAccountAccess(ctx.user, "invoices", "edit");
       const invoice = await db.getInvoiceById(input.id);
       if (!invoice) {
         throw new TRPCError({ code: "NOT_FOUND", message: "Invoice not found" });
@@ -538,7 +521,7 @@ export const invoiceRouter = router({
       alsoMarkAsSent: z.boolean().optional() // For uploaded invoices: also set sentAt if not already set
     }))
     .mutation(async ({ input, ctx }) => {
-      const userId = ctx.user.id;
+      const userId = await requireAccountAccess(ctx.user, "invoices", "edit");
       const invoice = await db.getInvoiceById(input.id);
       if (!invoice) {
         throw new TRPCError({ code: "NOT_FOUND", message: "Invoice not found" });
@@ -589,7 +572,7 @@ export const invoiceRouter = router({
   delete: protectedProcedure
     .input(z.object({ id: z.number() }))
     .mutation(async ({ input, ctx }) => {
-      const userId = ctx.user.id;
+      const userId = await requireAccountAccess(ctx.user, "invoices", "edit");
       const invoice = await db.getInvoiceById(input.id);
       if (!invoice) {
         throw new TRPCError({ code: "NOT_FOUND", message: "Invoice not found" });
@@ -615,7 +598,7 @@ export const invoiceRouter = router({
   duplicate: protectedProcedure
     .input(z.object({ id: z.number() }))
     .mutation(async ({ input, ctx }) => {
-      const userId = ctx.user.id;
+      const userId = await requireAccountAccess(ctx.user, "invoices", "edit");
       const invoice = await db.getInvoiceById(input.id);
       if (!invoice) {
         throw new TRPCError({ code: "NOT_FOUND", message: "Invoice not found" });
@@ -629,7 +612,7 @@ export const invoiceRouter = router({
   archive: protectedProcedure
     .input(z.object({ id: z.number() }))
     .mutation(async ({ input, ctx }) => {
-      const userId = ctx.user.id;
+      const userId = await requireAccountAccess(ctx.user, "invoices", "edit");
       const invoice = await db.getInvoiceById(input.id);
       if (!invoice) {
         throw new TRPCError({ code: "NOT_FOUND", message: "Invoice not found" });
@@ -647,7 +630,7 @@ export const invoiceRouter = router({
   moveToTrash: protectedProcedure
     .input(z.object({ id: z.number() }))
     .mutation(async ({ input, ctx }) => {
-      const userId = ctx.user.id;
+      const userId = await requireAccountAccess(ctx.user, "invoices", "edit");
       const invoice = await db.getInvoiceById(input.id);
       if (!invoice) {
         throw new TRPCError({ code: "NOT_FOUND", message: "Invoice not found" });
@@ -668,7 +651,7 @@ export const invoiceRouter = router({
   restore: protectedProcedure
     .input(z.object({ id: z.number() }))
     .mutation(async ({ input, ctx }) => {
-      const userId = ctx.user.id;
+      const userId = await requireAccountAccess(ctx.user, "invoices", "edit");
       const invoice = await db.getInvoiceById(input.id);
       if (!invoice) {
         throw new TRPCError({ code: "NOT_FOUND", message: "Invoice not found" });
@@ -695,7 +678,7 @@ export const invoiceRouter = router({
         throw new TRPCError({ code: "FORBIDDEN", message: "Confirmation is required to revert invoice status." });
       }
 
-      const userId = ctx.user.id;
+      const userId = await requireAccountAccess(ctx.user, "invoices", "edit");
       const invoice = await db.getInvoiceById(input.id);
       if (!invoice) {
         throw new TRPCError({ code: "NOT_FOUND", message: "Invoice not found" });
@@ -717,7 +700,7 @@ export const invoiceRouter = router({
       }
       checkInvoiceNeedsReview(invoice, "reverted");
 
-      await db.revertInvoiceStatus(invoice.id, input.targetStatus);
+      await withBadRequest(() => db.revertInvoiceStatus(invoice.id, input.targetStatus));
       const updated = await db.getInvoiceById(invoice.id);
       return mapInvoiceToPayload(updated);
     }),
@@ -725,7 +708,7 @@ export const invoiceRouter = router({
   markAsSent: protectedProcedure
     .input(z.object({ id: z.number(), confirmed: z.boolean().optional() }))
     .mutation(async ({ input, ctx }) => {
-      const userId = ctx.user.id;
+      const userId = await requireAccountAccess(ctx.user, "invoices", "edit");
       const invoice = await db.getInvoiceById(input.id);
       if (!invoice) {
         throw new TRPCError({ code: "NOT_FOUND", message: "Invoice not found" });
@@ -760,7 +743,7 @@ export const invoiceRouter = router({
         throw new TRPCError({ code: "FORBIDDEN", message: "Confirmation is required to revert invoice status." });
       }
 
-      const userId = ctx.user.id;
+      const userId = await requireAccountAccess(ctx.user, "invoices", "edit");
       const invoice = await db.getInvoiceById(input.id);
       if (!invoice) {
         throw new TRPCError({ code: "NOT_FOUND", message: "Invoice not found" });
@@ -790,7 +773,7 @@ export const invoiceRouter = router({
   markAsCancelled: protectedProcedure
     .input(z.object({ id: z.number() }))
     .mutation(async ({ input, ctx }) => {
-      const userId = ctx.user.id;
+      const userId = await requireAccountAccess(ctx.user, "invoices", "edit");
       const invoice = await db.getInvoiceById(input.id);
       if (!invoice) {
         throw new TRPCError({ code: "NOT_FOUND", message: "Invoice not found" });
@@ -818,7 +801,7 @@ export const invoiceRouter = router({
   markAsNotCancelled: protectedProcedure
     .input(z.object({ id: z.number() }))
     .mutation(async ({ input, ctx }) => {
-      const userId = ctx.user.id;
+      const userId = await requireAccountAccess(ctx.user, "invoices", "edit");
       const invoice = await db.getInvoiceById(input.id);
       if (!invoice) {
         throw new TRPCError({ code: "NOT_FOUND", message: "Invoice not found" });
@@ -839,7 +822,7 @@ export const invoiceRouter = router({
         throw new TRPCError({ code: "FORBIDDEN", message: "Confirmation is required to revert invoice status." });
       }
 
-      const userId = ctx.user.id;
+      const userId = await requireAccountAccess(ctx.user, "invoices", "edit");
       const invoice = await db.getInvoiceById(input.id);
       if (!invoice) {
         throw new TRPCError({ code: "NOT_FOUND", message: "Invoice not found" });
@@ -858,7 +841,7 @@ export const invoiceRouter = router({
 
       checkInvoiceNeedsReview(invoice, "reverted");
 
-      await db.revertInvoiceToSent(invoice.id);
+      await withBadRequest(() => db.revertInvoiceToSent(invoice.id));
       const updated = await db.getInvoiceById(input.id);
       return mapInvoiceToPayload(updated);
     }),
@@ -867,9 +850,13 @@ export const invoiceRouter = router({
     .input(z.object({
       id: z.number(),
       amount: z.number().positive("Payment amount must be greater than 0"),
+      paidAt: z.date().optional(), // Defaults to now
+      method: z.enum(INVOICE_PAYMENT_METHODS).optional(),
+      reference: z.string().max(255).optional().nullable(),
+      note: z.string().optional().nullable(),
     }))
     .mutation(async ({ input, ctx }) => {
-      const userId = ctx.user.id;
+      const userId = await requireAccountAccess(ctx.user, "invoices", "edit");
       const invoice = await db.getInvoiceById(input.id);
       if (!invoice) {
         throw new TRPCError({ code: "NOT_FOUND", message: "Invoice not found" });
@@ -895,7 +882,59 @@ export const invoiceRouter = router({
         });
       }
 
-      await db.addInvoicePayment(invoice.id, input.amount);
+      await db.addInvoicePayment(invoice.id, {
+        amount: input.amount,
+        paidAt: input.paidAt,
+        method: input.method,
+        reference: input.reference?.trim() || null,
+        note: input.note?.trim() || null,
+      });
+      const updated = await db.getInvoiceById(invoice.id);
+      return mapInvoiceToPayload(updated);
+    }),
+
+  /**
+   * Payment history of an invoice, oldest first
+   */
+  payments: protectedProcedure
+    .input(z.object({ invoiceId: z.number() }))
+    .query(async ({ input, ctx }) => {
+      const userId = await requireAccountAccess(ctx.user, "invoices", "view");
+      const invoice = await db.getInvoiceById(input.invoiceId);
+      if (!invoice) {
+        throw new TRPCError({ code: "NOT_FOUND", message: "Invoice not found" });
+      }
+      if (invoice.userId !== userId) {
+        throw new TRPCError({ code: "FORBIDDEN", message: "You don't have access to this invoice" });
+      }
+      const payments = await db.getInvoicePaymentsByInvoiceId(invoice.id);
+      return payments.map((payment) => ({ ...payment, amount: Number(payment.amount) }));
+    }),
+
+  /**
+   * Undo a single payment; amountPaid and paidAt are recalculated from the remaining ones
+   */
+  deletePayment: protectedProcedure
+    .input(z.object({ paymentId: z.number() }))
+    .mutation(async ({ input, ctx }) => {
+      const userId = await requireAccountAccess(ctx.user, "invoices", "edit");
+      const payment = await db.getInvoicePaymentById(input.paymentId);
+      if (!payment) {
+        throw new TRPCError({ code: "NOT_FOUND", message: "Payment not found" });
+      }
+      const invoice = await db.getInvoiceById(payment.invoiceId);
+      if (!invoice) {
+        throw new TRPCError({ code: "NOT_FOUND", message: "Invoice not found" });
+      }
+      if (invoice.userId !== userId) {
+        throw new TRPCError({ code: "FORBIDDEN", message: "You don't have access to this invoice" });
+      }
+      const cancellation = await db.getCancellationInvoiceByOriginalId(invoice.id);
+      if (cancellation?.sentAt) {
+        throw new TRPCError({ code: "BAD_REQUEST", message: "Cancelled invoices are read-only." });
+      }
+
+      await db.deleteInvoicePayment(payment.id);
       const updated = await db.getInvoiceById(invoice.id);
       return mapInvoiceToPayload(updated);
     }),
@@ -903,17 +942,18 @@ export const invoiceRouter = router({
   createCancellation: protectedProcedure
     .input(z.object({ invoiceId: z.number() }))
     .mutation(async ({ input, ctx }) => {
+      const userId = await requireAccountAccess(ctx.user, "invoices", "edit");
       try {
         const invoice = await db.getInvoiceById(input.invoiceId);
         if (!invoice) {
           throw new TRPCError({ code: "NOT_FOUND", message: "Invoice not found" });
         }
-        if (invoice.userId !== ctx.user.id) {
+        if (invoice.userId !== userId) {
           throw new TRPCError({ code: "FORBIDDEN", message: "You don't have access to this invoice" });
         }
         checkInvoiceNeedsReview(invoice, "cancelled");
         
-        const cancellationInvoiceId = await db.createCancellationInvoice(ctx.user.id, input.invoiceId);
+        const cancellationInvoiceId = await db.createCancellationInvoice(userId, input.invoiceId);
         return { cancellationInvoiceId };
       } catch (err) {
         const message = err instanceof Error ? err.message : "Failed to create cancellation invoice";
@@ -927,6 +967,78 @@ export const invoiceRouter = router({
       }
     }),
 
+  /**
+   * Check whether an invoice can be exported as XRechnung (ICE + EN 16931 rules)
+   */
+  eInvoiceReadiness: protectedProcedure
+    .input(z.object({ id: z.number() }))
+    .query(async ({ input, ctx }) => {
+      const userId = await requireAccountAccess(ctx.user, "invoices", "view");
+      const invoice = await db.getInvoiceById(input.id);
+      if (!invoice) {
+        throw new TRPCError({ code: "NOT_FOUND", message: "Invoice not found" });
+      }
+      if (invoice.userId !== userId) {
+        throw new TRPCError({ code: "FORBIDDEN", message: "You don't have access to this invoice" });
+      }
+      const companySettings = await db.getCompanySettingsByUserId(userId);
+      if (!companySettings) {
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message: "Company settings not found. Please configure your company settings first.",
+        });
+      }
+      const { completeness } = await prepareEInvoice(invoice, companySettings);
+      return completeness;
+    }),
+
+  /**
+   * Export an issued invoice as XRechnung XML (UBL 2.1 or UN/CEFACT CII)
+   */
+  exportEInvoice: protectedProcedure
+    .input(z.object({ id: z.number(), syntax: z.enum(["ubl", "cii"]).default("ubl") }))
+    .mutation(async ({ input, ctx }) => {
+      const userId = await requireAccountAccess(ctx.user, "invoices", "edit");
+      const invoice = await db.getInvoiceById(input.id);
+      if (!invoice) {
+        throw new TRPCError({ code: "NOT_FOUND", message: "Invoice not found" });
+      }
+      if (invoice.userId !== userId) {
+        throw new TRPCError({ code: "FORBIDDEN", message: "You don't have access to this invoice" });
+      }
+      if (invoice.source !== "created") {
+        throw new TRPCError({ code: "BAD_REQUEST", message: "Only invoices created in the app can be exported as XRechnung" });
+      }
+      if (!invoice.sentAt) {
+        throw new TRPCError({ code: "BAD_REQUEST", message: "Only issued invoices can be exported as XRechnung" });
+      }
+
+      const companySettings = await db.getCompanySettingsByUserId(userId);
+      if (!companySettings) {
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message: "Company settings not found. Please configure your company settings first.",
+        });
+      }
+
+      const { document, completeness } = await prepareEInvoice(invoice, companySettings);
+      if (completeness.blockers.length > 0) {
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message: `Invoice cannot be exported as XRechnung: ${completeness.blockers.map((b) => b.message).join(", ")}`,
+        });
+      }
+
+      const xml = renderEInvoiceXml(document, input.syntax);
+      logger.info({ invoiceId: invoice.id, syntax: input.syntax }, "[Invoices] XRechnung exported");
+      return {
+        filename: buildEInvoiceFilename(document.number, input.syntax),
+        mimeType: "application/xml",
+        xml,
+        warnings: completeness.warnings,
+      };
+    }),
+
   confirmUploadedInvoice: protectedProcedure
     .input(
       z.object({
@@ -940,7 +1052,7 @@ export const invoiceRouter = router({
       })
     )
     .mutation(async ({ input, ctx }) => {
-      const userId = ctx.user.id;
+      const userId = await requireAccountAccess(ctx.user, "invoices", "edit");
       const invoice = await db.getInvoiceById(input.id);
       
       if (!invoice) {
@@ -975,12 +1087,16 @@ export const invoiceRouter = router({
       
       // Calculate totals if items provided
       let subtotal = invoice.subtotal;
+      let vatAmount = invoice.vatAmount;
       let total = invoice.total;
+      const settings = await db.getCompanySettingsByUserId(userId);
+      const vatSettings: VatSettings = settings ?? { vatRate: "19.00", isKleinunternehmer: false };
+      const normalizedItems = input.items ? normalizeLineItems(input.items, vatSettings) : null;
       
-      if (input.items && input.items.length > 0) {
-        const normalizedItems = normalizeLineItems(input.items);
-        const totals = calculateTotals(normalizedItems);
+      if (normalizedItems && normalizedItems.length > 0) {
+        const totals = calculateTotals(normalizedItems, vatSettings);
         subtotal = totals.subtotal.toFixed(2);
+        vatAmount = totals.vatAmount.toFixed(2);
         total = totals.total.toFixed(2);
       } else if (input.totalAmount) {
         total = input.totalAmount;
@@ -1011,16 +1127,10 @@ export const invoiceRouter = router({
         issueDate: finalIssueDate,
         dueDate: finalDueDate,
         subtotal,
+        vatAmount,
         total,
         needsReview: false, // Clear review flag - this moves invoice from Needs Review to Draft
-        items: input.items
-          ? normalizeLineItems(input.items).map((item) => ({
-              ...item,
-              quantity: item.quantity.toFixed(2),
-              unitPrice: item.unitPrice.toFixed(2),
-              lineTotal: item.lineTotal.toFixed(2),
-            }))
-          : undefined,
+        items: normalizedItems ? toStoredLineItems(normalizedItems) : undefined,
       });
       
       return mapInvoiceToPayload(updated);
@@ -1029,7 +1139,7 @@ export const invoiceRouter = router({
   cancelUploadedInvoice: protectedProcedure
     .input(z.object({ id: z.number() }))
     .mutation(async ({ input, ctx }) => {
-      const userId = ctx.user.id;
+      const userId = await requireAccountAccess(ctx.user, "invoices", "edit");
       const invoice = await db.getInvoiceById(input.id);
       
       if (!invoice) {
@@ -1088,7 +1198,7 @@ export const invoiceRouter = router({
       })
     )
     .mutation(async ({ input, ctx }) => {
-      const userId = ctx.user.id;
+      const userId = await requireAccountAccess(ctx.user, "invoices", "edit");
       
       // Validate MIME type (must be PDF)
       const mimeType = input.mimeType || "application/pdf";
@@ -1193,6 +1303,7 @@ export const invoiceRouter = router({
           )
           .min(1, "At least one file is required")
           .max(10, "Maximum 10 files per request"),
+        ocrBackend: z.enum(OCR_BACKEND_PREFERENCES).optional(),
       })
     )
     .mutation(async ({ input, ctx }) => {
@@ -1201,7 +1312,7 @@ export const invoiceRouter = router({
       console.log("[Invoice Bulk Upload] ===== BULK UPLOAD CALLED =====");
       console.log("[Invoice Bulk Upload] Files count:", input.files.length);
       
-      const userId = ctx.user.id;
+      const userId = await requireAccountAccess(ctx.user, "invoices", "edit");
       console.log("[Invoice Bulk Upload] User ID:", userId);
       
       const createdInvoiceIds: number[] = [];
@@ -1240,7 +1351,7 @@ export const invoiceRouter = router({
 
           // Process document with AI OCR (same as documents.process)
           console.log("[Invoice Bulk Upload] Importing OCR modules...");
-          const { processDocumentOcr } = await import("./services/ai/document/documentOcrClient");
+          const { extractDocument } = await import("./services/ai/document/documentExtraction");
           const { normalizeExtractedData } = await import("./services/ai/document/normalizeExtractedData");
           const { matchClient } = await import("./services/ai/document/clientMatching");
           
@@ -1250,23 +1361,25 @@ export const invoiceRouter = router({
             return (cents / 100).toFixed(2);
           };
           
-          console.log("[Invoice Bulk Upload] About to call processDocumentOcr...");
+          console.log("[Invoice Bulk Upload] About to extract document...");
           let normalized;
           try {
-            console.log("[Invoice Bulk Upload] Calling processDocumentOcr with:", {
+            console.log("[Invoice Bulk Upload] Extracting document with:", {
               filename: file.filename,
               mimeType,
               fileBufferSize: fileBuffer.length,
+              ocrBackend: input.ocrBackend ?? "default",
             });
             
-            const raw = await processDocumentOcr({
+            const raw = await extractDocument({
               fileBuffer,
               mimeType,
               filename: file.filename,
               languageHint: undefined,
+              backend: input.ocrBackend,
             });
             
-            console.log("[Invoice Bulk Upload] processDocumentOcr returned successfully");
+            console.log("[Invoice Bulk Upload] Extraction returned successfully, backend:", raw.backend);
             normalized = normalizeExtractedData(raw);
             console.log("[Invoice Bulk Upload] Data normalized successfully");
           } catch (error) {
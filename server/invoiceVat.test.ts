@@ -0,0 +1,72 @@
+import { describe, expect, it } from "vitest";
+import {
+  calculateInvoiceTotals,
+  getInvoiceVatOptionValue,
+  parseInvoiceVatOption,
+  resolveLineVat,
+} from "../shared/invoiceVat";
+
+describe("resolveLineVat", () => {
+  it("falls back to the company default rate for legacy lines", () => {
+    expect(resolveLineVat({ vatRate: null }, 19)).toEqual({ category: "standard", rate: 19 });
+  });
+
+  it("charges non-standard categories at 0 %", () => {
+    expect(resolveLineVat({ vatRate: 19, vatCategory: "reverse_charge" }, 19)).toEqual({
+      category: "reverse_charge",
+      rate: 0,
+    });
+  });
+
+  it("treats a standard line at 0 % as zero-rated", () => {
+    expect(resolveLineVat({ vatRate: 0, vatCategory: "standard" }, 19)).toEqual({ category: "zero", rate: 0 });
+  });
+});
+
+describe("calculateInvoiceTotals", () => {
+  it("groups lines by rate and rounds VAT per group", () => {
+    const totals = calculateInvoiceTotals(
+      [
+        { lineTotal: 100.05, vatRate: 19 },
+        { lineTotal: 0.05, vatRate: 19 },
+        { lineTotal: 50, vatRate: 7 },
+        { lineTotal: 200, vatCategory: "intra_eu" },
+      ],
+      { defaultRate: 19 }
+    );
+
+    expect(totals.breakdown).toEqual([
+      { category: "standard", rate: 19, netAmount: 100.1, vatAmount: 19.02 },
+      { category: "standard", rate: 7, netAmount: 50, vatAmount: 3.5 },
+      { category: "intra_eu", rate: 0, netAmount: 200, vatAmount: 0 },
+    ]);
+    expect(totals.subtotal).toBe(350.1);
+    expect(totals.vatAmount).toBe(22.52);
+    expect(totals.total).toBe(372.62);
+  });
+
+  it("charges no VAT for Kleinunternehmer", () => {
+    const totals = calculateInvoiceTotals([{ lineTotal: 100, vatRate: 19 }], {
+      defaultRate: 19,
+      isKleinunternehmer: true,
+    });
+
+    expect(totals).toEqual({ subtotal: 100, vatAmount: 0, total: 100, breakdown: [] });
+  });
+
+  it("keeps the sign of cancellation lines", () => {
+    const totals = calculateInvoiceTotals([{ lineTotal: -100.5, vatRate: 19 }], { defaultRate: 19 });
+
+    expect(totals.vatAmount).toBe(-19.1);
+    expect(totals.total).toBe(-119.6);
+  });
+});
+
+describe("VAT select options", () => {
+  it("round-trips option values", () => {
+    expect(getInvoiceVatOptionValue({ vatRate: null }, 7)).toBe("7");
+    expect(getInvoiceVatOptionValue({ vatCategory: "intra_eu" }, 19)).toBe("intra_eu");
+    expect(parseInvoiceVatOption("reverse_charge")).toEqual({ vatCategory: "reverse_charge", vatRate: 0 });
+    expect(parseInvoiceVatOption("0")).toEqual({ vatCategory: "zero", vatRate: 0 });
+  });
+});
@@ -0,0 +1,112 @@
+import { describe, expect, it } from "vitest";
+import {
+  daysBetween,
+  findAssignmentConflicts,
+  findDependencyViolations,
+  getJobDays,
+  rescheduleJob,
+  wouldCreateCycle,
+} from "../shared/jobSchedule";
+
+const day = (date: number) => new Date(2026, 4, date);
+
+const job = (id: number, start: number | null, end: number | null, extra: { assignedUsers?: number[]; status?: string } = {}) => ({
+  id,
+  startTime: start === null ? null : day(start),
+  endTime: end === null ? null : day(end),
+  assignedUsers: extra.assignedUsers ?? null,
+  status: extra.status ?? "pending",
+});
+
+describe("getJobDays", () => {
+  it("uses whole days and falls back to a single day", () => {
+    expect(getJobDays({ startTime: new Date(2026, 4, 4, 8, 30), endTime: new Date(2026, 4, 6, 17) })).toEqual({
+      start: day(4),
+      end: day(6),
+    });
+    expect(getJobDays({ startTime: null, endTime: day(6) })).toEqual({ start: day(6), end: day(6) });
+    expect(getJobDays({ startTime: null, endTime: null })).toBeNull();
+  });
+
+  it("counts days across daylight saving changes", () => {
+    expect(daysBetween(new Date(2026, 2, 28), new Date(2026, 2, 30))).toBe(2);
+  });
+});
+
+describe("rescheduleJob", () => {
+  const links = [
+    { predecessorJobId: 1, successorJobId: 2 },
+    { predecessorJobId: 2, successorJobId: 3 },
+  ];
+  const jobs = [job(1, 4, 5), job(2, 6, 7), job(3, 10, 10), job(4, 6, 6)];
+
+  it("pushes dependent jobs behind the moved job", () => {
+    expect(rescheduleJob(jobs, links, 1, day(5), day(8))).toEqual([
+      { jobId: 1, startTime: day(5), endTime: day(8) },
+      { jobId: 2, startTime: day(9), endTime: day(10) },
+      { jobId: 3, startTime: day(11), endTime: day(11) },
+    ]);
+  });
+
+  it("leaves dependents alone when there is room", () => {
+    expect(rescheduleJob(jobs, links, 2, day(7), day(8))).toEqual([
+      { jobId: 2, startTime: day(7), endTime: day(8) },
+    ]);
+  });
+
+  it("keeps a job after its predecessor", () => {
+    expect(rescheduleJob(jobs, links, 2, day(1), day(2))).toEqual([
+      { jobId: 2, startTime: day(6), endTime: day(7) },
+    ]);
+  });
+
+  it("keeps the times of day of moved and pushed jobs", () => {
+    const at = (date: number, hour: number) => new Date(2026, 4, date, hour);
+    const timedJobs = [
+      { id: 1, startTime: at(4, 8), endTime: at(4, 16) },
+      { id: 2, startTime: at(5, 7), endTime: at(6, 12) },
+    ];
+    expect(rescheduleJob(timedJobs, [links[0]], 1, day(6), day(6))).toEqual([
+      { jobId: 1, startTime: at(6, 8), endTime: at(6, 16) },
+      { jobId: 2, startTime: at(7, 7), endTime: at(8, 12) },
+    ]);
+  });
+});
+
+describe("dependencies", () => {
+  const links = [
+    { predecessorJobId: 1, successorJobId: 2 },
+    { predecessorJobId: 2, successorJobId: 3 },
+  ];
+
+  it("detects cycles", () => {
+    expect(wouldCreateCycle(links, 3, 1)).toBe(true);
+    expect(wouldCreateCycle(links, 2, 2)).toBe(true);
+    expect(wouldCreateCycle(links, 1, 3)).toBe(false);
+  });
+
+  it("finds successors starting before their predecessor ends", () => {
+    expect(findDependencyViolations([job(1, 4, 6), job(2, 6, 7), job(3, 8, 8)], links)).toEqual([links[0]]);
+  });
+});
+
+describe("findAssignmentConflicts", () => {
+  it("finds users on overlapping jobs", () => {
+    const conflicts = findAssignmentConflicts([
+      job(1, 4, 6, { assignedUsers: [7, 8] }),
+      job(2, 6, 6, { assignedUsers: [8] }),
+      job(3, 7, 9, { assignedUsers: [7, 8] }),
+    ]);
+    expect(conflicts).toEqual([{ userId: 8, jobId: 1, otherJobId: 2 }]);
+  });
+
+  it("ignores finished and unscheduled jobs", () => {
+    expect(
+      findAssignmentConflicts([
+        job(1, 4, 6, { assignedUsers: [7] }),
+        job(2, 5, 5, { assignedUsers: [7], status: "done" }),
+        job(3, null, null, { assignedUsers: [7] }),
+      ])
+    ).toEqual([]);
+  });
+});
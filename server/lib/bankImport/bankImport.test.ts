@@ -0,0 +1,183 @@
+import { describe, expect, it } from "vitest";
+import {
+  detectBankStatementFormat,
+  fingerprintBankTransactions,
+  parseBankStatement,
+  proposeBankMatches,
+} from "./index";
+import { purposeContainsInvoiceNumber } from "./matching";
+import { parseAmount } from "./values";
+
+const camt = `<?xml version="1.0" encoding="UTF-8"?>
+<Document xmlns="urn:iso:std:iso:20022:tech:xsd:camt.053.001.02">
+  <BkToCstmrStmt>
+    <Stmt>
+      <Acct><Id><IBAN>DE02120300000000202051</IBAN></Id><Ccy>EUR</Ccy></Acct>
+      <Ntry>
+        <Amt Ccy="EUR">1190.00</Amt>
+        <CdtDbtInd>CRDT</CdtDbtInd>
+        <Sts>BOOK</Sts>
+        <BookgDt><Dt>2025-03-04</Dt></BookgDt>
+        <ValDt><Dt>2025-03-05</Dt></ValDt>
+        <NtryDtls><TxDtls>
+          <Refs><EndToEndId>RE-2025-0012</EndToEndId></Refs>
+          <RltdPties>
+            <Dbtr><Nm>Muster &amp; Co. GmbH</Nm></Dbtr>
+            <DbtrAcct><Id><IBAN>DE89370400440532013000</IBAN></Id></DbtrAcct>
+            <Cdtr><Nm>Mantodeus GmbH</Nm></Cdtr>
+          </RltdPties>
+          <RmtInf><Ustrd>Rechnung RE-2025-</Ustrd><Ustrd>0012 vom 01.03.</Ustrd></RmtInf>
+        </TxDtls></NtryDtls>
+      </Ntry>
+      <Ntry>
+        <Amt Ccy="EUR">49.99</Amt>
+        <CdtDbtInd>DBIT</CdtDbtInd>
+        <Sts>BOOK</Sts>
+        <BookgDt><Dt>2025-03-06</Dt></BookgDt>
+        <NtryDtls><TxDtls>
+          <RltdPties><Cdtr><Nm>Telekom Deutschland GmbH</Nm></Cdtr></RltdPties>
+          <RmtInf><Ustrd>Kundennr 123456</Ustrd></RmtInf>
+        </TxDtls></NtryDtls>
+      </Ntry>
+      <Ntry>
+        <Amt Ccy="EUR">10.00</Amt>
+        <CdtDbtInd>CRDT</CdtDbtInd>
+        <Sts>PDNG</Sts>
+        <BookgDt><Dt>2025-03-07</Dt></BookgDt>
+      </Ntry>
+    </Stmt>
+  </BkToCstmrStmt>
+</Document>`;
+
+const mt940 = [
+  ":20:STARTUMSE",
+  ":25:10020030/1234567890",
+  ":28C:00001/001",
+  ":60F:C250301EUR1000,00",
+  ":61:2503040304CR1190,00NTRFNONREF",
+  ":86:166?00GUTSCHRIFT?20EREF+RE-2025-0012?21SVWZ+Rechnung RE-2025-0012?30BYLADEM1001?31DE89370400440532013000?32Muster & Co. GmbH",
+  ":61:2503060306DR49,99NDDTNONREF",
+  ":86:105?00LASTSCHRIFT?20SVWZ+Kundennr 123456?32Telekom Deutschland G?33mbH",
+  ":62F:C250306EUR2140,01",
+  "-",
+].join("\r\n");
+
+const csv = [
+  '"Kontonummer:";"DE02 1203 0000 0000 2020 51";',
+  '"Kontostand vom 06.03.2025:";"2.140,01 EUR";',
+  "",
+  '"Buchungstag";"Valutadatum";"Auftraggeber / Begünstigter";"Buchungstext";"Verwendungszweck";"Kontonummer / IBAN";"Betrag (€)";"Währung"',
+  '"04.03.2025";"05.03.2025";"Muster & Co. GmbH";"Gutschrift";"Rechnung RE-2025-0012";"DE89370400440532013000";"1.190,00";"EUR"',
+  '"06.03.25";"06.03.25";"Telekom Deutschland GmbH";"Lastschrift";"Kundennr 123456";"";"-49,99";"EUR"',
+].join("\n");
+
+describe("parseBankStatement", () => {
+  it("detects the statement format", () => {
+    expect(detectBankStatementFormat(camt)).toBe("camt053");
+    expect(detectBankStatementFormat(mt940)).toBe("mt940");
+    expect(detectBankStatementFormat(csv)).toBe("csv");
+  });
+
+  it("reads booked CAMT.053 entries", () => {
+    const statement = parseBankStatement(camt);
+    expect(statement.accountIban).toBe("DE02120300000000202051");
+    expect(statement.transactions).toHaveLength(2);
+    expect(statement.transactions[0]).toMatchObject({
+      bookingDate: new Date(2025, 2, 4),
+      valueDate: new Date(2025, 2, 5),
+      amount: 1190,
+      currency: "EUR",
+      counterpartyName: "Muster & Co. GmbH",
+      counterpartyIban: "DE89370400440532013000",
+      purpose: "Rechnung RE-2025- 0012 vom 01.03.",
+      reference: "RE-2025-0012",
+    });
+    expect(statement.transactions[1]).toMatchObject({ amount: -49.99, counterpartyName: "Telekom Deutschland GmbH" });
+  });
+
+  it("reads MT940 statement lines with structured :86: details", () => {
+    const statement = parseBankStatement(mt940);
+    expect(statement.transactions).toHaveLength(2);
+    expect(statement.transactions[0]).toMatchObject({
+      bookingDate: new Date(2025, 2, 4),
+      amount: 1190,
+      counterpartyName: "Muster & Co. GmbH",
+      counterpartyIban: "DE89370400440532013000",
+      purpose: "Rechnung RE-2025-0012",
+      reference: "RE-2025-0012",
+    });
+    expect(statement.transactions[1]).toMatchObject({ amount: -49.99, counterpartyName: "Telekom Deutschland GmbH" });
+  });
+
+  it("reads German CSV exports after the preamble", () => {
+    const statement = parseBankStatement(csv);
+    expect(statement.accountIban).toBe("DE02120300000000202051");
+    expect(statement.transactions).toHaveLength(2);
+    expect(statement.transactions[0]).toMatchObject({
+      bookingDate: new Date(2025, 2, 4),
+      amount: 1190,
+      counterpartyName: "Muster & Co. GmbH",
+      purpose: "Rechnung RE-2025-0012",
+    });
+    expect(statement.transactions[1]).toMatchObject({ bookingDate: new Date(2025, 2, 6), amount: -49.99 });
+  });
+
+  it("parses German and international amounts", () => {
+    expect(parseAmount("1.234,56")).toBe(1234.56);
+    expect(parseAmount("-1,234.56")).toBe(-1234.56);
+    expect(parseAmount("12,50-")).toBe(-12.5);
+    expect(parseAmount("abc")).toBeNull();
+  });
+
+  it("fingerprints identical bookings apart", () => {
+    const { transactions } = parseBankStatement(csv);
+    const [first] = fingerprintBankTransactions(null, [transactions[0]]);
+    const fingerprints = fingerprintBankTransactions(null, [transactions[0], transactions[0]]);
+    expect(fingerprints[0]).toBe(first);
+    expect(fingerprints[1]).not.toBe(first);
+  });
+});
+
+describe("proposeBankMatches", () => {
+  const invoices = [
+    { id: 1, invoiceNumber: "RE-2025-0012", clientId: 7, clientName: "Muster & Co. GmbH", total: 1190, amountPaid: 0 },
+    { id: 2, invoiceNumber: "RE-2025-0013", clientId: 8, clientName: "Beispiel AG", total: 1190, amountPaid: 0 },
+  ];
+  const expenses = [
+    { id: 10, supplierName: "Telekom", grossAmountCents: 4999, expenseDate: new Date(2025, 2, 1) },
+    { id: 11, supplierName: "Bauhaus", grossAmountCents: 4999, expenseDate: new Date(2024, 5, 1) },
+  ];
+
+  it("finds invoice numbers regardless of separators", () => {
+    expect(purposeContainsInvoiceNumber("Rechnung RE 2025 0012", "RE-2025-0012")).toBe(true);
+    expect(purposeContainsInvoiceNumber("RE20250012", "RE-2025-0012")).toBe(true);
+    expect(purposeContainsInvoiceNumber("RE-2025-0012", "RE-2025-001")).toBe(false);
+  });
+
+  it("prefers the invoice named in the purpose", () => {
+    const [best, ...rest] = proposeBankMatches(
+      { bookingDate: new Date(2025, 2, 4), amount: 1190, counterpartyName: "Muster und Co GmbH", purpose: "RE-2025-0012" },
+      { invoices, expenses, counterpartyClientId: 7 }
+    );
+    expect(best).toMatchObject({ kind: "invoice", id: 1, score: 1, reasons: ["invoice_number", "amount", "name"] });
+    expect(rest).toHaveLength(0);
+  });
+
+  it("does not propose an invoice by amount alone", () => {
+    expect(
+      proposeBankMatches(
+        { bookingDate: new Date(2025, 2, 4), amount: 1190, counterpartyName: "Unbekannt", purpose: "Danke" },
+        { invoices, expenses }
+      )
+    ).toEqual([]);
+  });
+
+  it("matches outgoing payments to unpaid expenses by supplier and amount", () => {
+    const proposals = proposeBankMatches(
+      { bookingDate: new Date(2025, 2, 6), amount: -49.99, counterpartyName: "Telekom Deutschland GmbH", purpose: "" },
+      { invoices, expenses }
+    );
+    expect(proposals.map((proposal) => proposal.id)).toEqual([10]);
+    expect(proposals[0].reasons).toEqual(["amount", "name", "date"]);
+  });
+});
@@ -0,0 +1,103 @@
+/**
+ * CAMT.053 (ISO 20022 Bank-to-Customer Statement) parser.
+ *
+ * Only the handful of elements needed for reconciliation are read, so a small
+ * tag scanner is enough; namespace prefixes and schema versions are ignored.
+ */
+
+import { BankStatementParseError, type ParsedBankStatement, type ParsedBankTransaction } from "./types";
+import { cleanText, normalizeIban, parseAmount, parseDate } from "./values";
+
+function decodeEntities(value: string): string {
+  return value
+    .replace(/<!\[CDATA\[([\s\S]*?)\]\]>/g, "$1")
+    .replace(/&#x([0-9a-f]+);/gi, (_, hex) => String.fromCodePoint(parseInt(hex, 16)))
+    .replace(/&#(\d+);/g, (_, dec) => String.fromCodePoint(Number(dec)))
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, "&");
+}
+
+/** Inner XML of every element with the given path, e.g. "RltdPties/Dbtr" */
+function findAll(xml: string, path: string): string[] {
+  const [name, ...rest] = path.split("/");
+  const pattern = new RegExp(`<${name}(?:\\s[^>]*)?>([\\s\\S]*?)</${name}>`, "g");
+  const matches = Array.from(xml.matchAll(pattern), (match) => match[1]);
+  if (rest.length === 0) return matches;
+  return matches.flatMap((inner) => findAll(inner, rest.join("/")));
+}
+
+function findText(xml: string, path: string): string | null {
+  const [first] = findAll(xml, path);
+  return first === undefined ? null : cleanText(decodeEntities(first));
+}
+
+function findDate(xml: string, path: string): Date | null {
+  const [element] = findAll(xml, path);
+  if (element === undefined) return null;
+  return parseDate(findText(element, "Dt") ?? findText(element, "DtTm"));
+}
+
+function parseEntry(entry: string, statementCurrency: string | null): ParsedBankTransaction | null {
+  const status = findText(entry, "Sts");
+  if (status && /PDNG|INFO/.test(status)) return null;
+
+  const amountMatch = /<Amt\b(?:[^>]*?Ccy="([A-Z]{3})")?[^>]*>([^<]+)<\/Amt>/.exec(entry);
+  const amount = parseAmount(amountMatch?.[2]);
+  const bookingDate = findDate(entry, "BookgDt") ?? findDate(entry, "ValDt");
+  if (amount === null || !bookingDate) return null;
+
+  const isDebit = findText(entry, "CdtDbtInd") === "DBIT";
+  // The counterparty is the debtor of incoming and the creditor of outgoing payments
+  const party = isDebit ? "Cdtr" : "Dbtr";
+  const relatedParties = findAll(entry, "RltdPties")[0] ?? "";
+
+  const purpose = findAll(entry, "RmtInf/Ustrd").map((line) => decodeEntities(line)).join(" ");
+  const structuredReference = findText(entry, "RmtInf/Strd/CdtrRefInf/Ref");
+  const endToEndId = findText(entry, "Refs/EndToEndId");
+
+  return {
+    bookingDate,
+    valueDate: findDate(entry, "ValDt"),
+    amount: isDebit ? -Math.abs(amount) : Math.abs(amount),
+    currency: amountMatch?.[1] ?? statementCurrency ?? "EUR",
+    counterpartyName:
+      findText(relatedParties, `${party}/Pty/Nm`) ??
+      findText(relatedParties, `${party}/Nm`) ??
+      findText(relatedParties, isDebit ? "UltmtCdtr/Nm" : "UltmtDbtr/Nm"),
+    counterpartyIban: normalizeIban(findText(relatedParties, `${party}Acct/Id/IBAN`)),
+    purpose: cleanText([purpose, structuredReference].filter(Boolean).join(" ")) ?? findText(entry, "AddtlNtryInf") ?? "",
+    reference:
+      (endToEndId && endToEndId !== "NOTPROVIDED" ? endToEndId : null) ??
+      findText(entry, "AcctSvcrRef") ??
+      findText(entry, "NtryRef"),
+  };
+}
+
+export function parseCamt053(content: string): ParsedBankStatement {
+  const xml = content.replace(/<!--[\s\S]*?-->/g, "").replace(/<(\/?)[\w.-]+:/g, "<$1");
+  const statements = findAll(xml, "Stmt");
+  if (statements.length === 0) {
+    throw new BankStatementParseError("No statement found in the CAMT file");
+  }
+
+  let accountIban: string | null = null;
+  const transactions: ParsedBankTransaction[] = [];
+
+  for (const statement of statements) {
+    const account = findAll(statement, "Acct")[0] ?? "";
+    accountIban ??= normalizeIban(findText(account, "Id/IBAN"));
+    const statementCurrency = findText(account, "Ccy");
+
+    for (const entry of findAll(statement, "Ntry")) {
+      const transaction = parseEntry(entry, statementCurrency);
+      if (transaction) {
+        transactions.push(transaction);
+      }
+    }
+  }
+
+  return { format: "camt053", accountIban, transactions };
+}
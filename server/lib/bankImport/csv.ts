@@ -0,0 +1,220 @@
+/**
+ * CSV statement parser for the usual German online banking exports
+ * (Sparkasse, Volksbank, DKB, ING, Commerzbank, Deutsche Bank, comdirect...).
+ *
+ * Columns are found by their header names; preamble lines above the header
+ * (account details, balances) and footer lines are skipped.
+ */
+
+import { BankStatementParseError, type ParsedBankStatement, type ParsedBankTransaction } from "./types";
+import { cleanText, normalizeIban, parseAmount, parseDate, round2 } from "./values";
+
+type CsvColumn =
+  | "bookingDate"
+  | "valueDate"
+  | "amount"
+  | "debit"
+  | "credit"
+  | "debitCreditIndicator"
+  | "currency"
+  | "counterpartyName"
+  | "payer"
+  | "counterpartyIban"
+  | "purpose"
+  | "reference"
+  | "account";
+
+/** Normalized header names (lowercase, umlauts folded, no punctuation) */
+const COLUMN_ALIASES: Record<CsvColumn, string[]> = {
+  bookingDate: ["buchungstag", "buchungsdatum", "buchung", "datum", "bookingdate", "date"],
+  valueDate: ["valutadatum", "valuta", "wertstellung", "wertstellungsdatum", "wert", "valuedate"],
+  amount: ["betrag", "betrageur", "betragineur", "umsatz", "umsatzineur", "betragwaehrung", "amount"],
+  debit: ["soll", "sollbetrag", "belastung", "ausgang", "debit"],
+  credit: ["haben", "habenbetrag", "gutschrift", "eingang", "credit"],
+  debitCreditIndicator: ["sollhaben", "sh"],
+  currency: ["waehrung", "wahrung", "currency"],
+  counterpartyName: [
+    "beguenstigterzahlungspflichtiger",
+    "namezahlungsbeteiligter",
+    "auftraggeberbeguenstigter",
+    "auftraggeberempfaenger",
+    "zahlungsempfaengerin",
+    "zahlungsempfaenger",
+    "empfaenger",
+    "auftraggeber",
+    "name",
+    "payee",
+    "counterparty",
+  ],
+  /** Exports with separate payer and payee columns (DKB) */
+  payer: ["zahlungspflichtigerin", "zahlungspflichtiger"],
+  counterpartyIban: ["ibanzahlungsbeteiligter", "kontonummeriban", "iban", "kontonummer", "gegenkonto"],
+  purpose: ["verwendungszweck", "vwz", "purpose", "description", "beschreibung", "buchungstext"],
+  reference: ["kundenreferenzendtoend", "kundenreferenz", "endtoendreferenz", "referenz", "reference"],
+  account: ["auftragskonto", "ibanauftragskonto", "ibankontoinhaber"],
+};
+
+function normalizeHeader(value: string): string {
+  return value
+    .toLowerCase()
+    .replace(/ä/g, "ae")
+    .replace(/ö/g, "oe")
+    .replace(/ü/g, "ue")
+    .replace(/ß/g, "ss")
+    .replace(/[^a-z0-9]/g, "");
+}
+
+function detectDelimiter(lines: string[]): string {
+  const sample = lines.slice(0, 30).join("\n");
+  const counts = [";", "\t", ","].map((delimiter) => ({
+    delimiter,
+    count: sample.split(delimiter).length - 1,
+  }));
+  return counts.sort((a, b) => b.count - a.count)[0].delimiter;
+}
+
+/** Split one CSV line, honouring double quotes ("" inside quotes is a literal quote) */
+function splitLine(line: string, delimiter: string): string[] {
+  const cells: string[] = [];
+  let cell = "";
+  let quoted = false;
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (quoted) {
+      if (char === '"' && line[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === delimiter) {
+      cells.push(cell.trim());
+      cell = "";
+    } else {
+      cell += char;
+    }
+  }
+  cells.push(cell.trim());
+  return cells;
+}
+
+/** Join lines that belong to one record because a quoted cell contains a line break */
+function splitRecords(content: string): string[] {
+  const records: string[] = [];
+  let pending = "";
+  for (const line of content.split(/\r?\n/)) {
+    pending = pending ? `${pending}\n${line}` : line;
+    if ((pending.match(/"/g)?.length ?? 0) % 2 === 0) {
+      records.push(pending);
+      pending = "";
+    }
+  }
+  if (pending) records.push(pending);
+  return records;
+}
+
+function mapColumns(headers: string[]): Partial<Record<CsvColumn, number>> {
+  const normalized = headers.map(normalizeHeader);
+  const columns: Partial<Record<CsvColumn, number>> = {};
+  const used = new Set<number>();
+
+  for (const [column, aliases] of Object.entries(COLUMN_ALIASES) as Array<[CsvColumn, string[]]>) {
+    for (const alias of aliases) {
+      const index = normalized.findIndex((header, i) => !used.has(i) && header === alias);
+      if (index >= 0) {
+        columns[column] = index;
+        used.add(index);
+        break;
+      }
+    }
+  }
+
+  // Headers such as "Betrag (€)" or "Verwendungszweck 1" only start with the alias
+  for (const column of ["amount", "purpose"] as const) {
+    if (columns[column] !== undefined) continue;
+    const index = normalized.findIndex(
+      (header, i) => !used.has(i) && COLUMN_ALIASES[column].some((alias) => header.startsWith(alias))
+    );
+    if (index >= 0) {
+      columns[column] = index;
+      used.add(index);
+    }
+  }
+
+  return columns;
+}
+
+export function parseBankCsv(content: string): ParsedBankStatement {
+  const records = splitRecords(content).filter((record) => record.trim().length > 0);
+  const delimiter = detectDelimiter(records);
+  const rows = records.map((record) => splitLine(record, delimiter));
+
+  const headerIndex = rows.findIndex((row) => {
+    const columns = mapColumns(row);
+    return (
+      columns.bookingDate !== undefined &&
+      (columns.amount !== undefined || (columns.debit !== undefined && columns.credit !== undefined))
+    );
+  });
+  if (headerIndex < 0) {
+    throw new BankStatementParseError("Could not find the booking date and amount columns in the CSV file");
+  }
+
+  const columns = mapColumns(rows[headerIndex]);
+  const cell = (row: string[], column: CsvColumn) => {
+    const index = columns[column];
+    return index === undefined ? null : cleanText(row[index]);
+  };
+
+  // Preamble lines often carry the account IBAN ("Konto";"DE12 ...")
+  let accountIban: string | null = null;
+  for (const row of rows.slice(0, headerIndex)) {
+    accountIban ??= row.map((value) => normalizeIban(value)).find(Boolean) ?? null;
+  }
+
+  const transactions: ParsedBankTransaction[] = [];
+  for (const row of rows.slice(headerIndex + 1)) {
+    const bookingDate = parseDate(cell(row, "bookingDate")) ?? parseDate(cell(row, "valueDate"));
+    let amount = parseAmount(cell(row, "amount"));
+    if (amount === null && (columns.debit !== undefined || columns.credit !== undefined)) {
+      const debit = parseAmount(cell(row, "debit"));
+      const credit = parseAmount(cell(row, "credit"));
+      if (debit !== null || credit !== null) {
+        amount = round2((credit ?? 0) - Math.abs(debit ?? 0));
+      }
+    }
+    if (!bookingDate || amount === null) continue;
+
+    const indicator = cell(row, "debitCreditIndicator")?.toUpperCase();
+    if (indicator === "S") amount = -Math.abs(amount);
+    if (indicator === "H") amount = Math.abs(amount);
+
+    accountIban ??= normalizeIban(cell(row, "account"));
+
+    const purposeColumns = rows[headerIndex]
+      .map((header, index) => ({ header: normalizeHeader(header), index }))
+      .filter(({ header }) => header.startsWith("verwendungszweck"))
+      .map(({ index }) => row[index]);
+
+    transactions.push({
+      bookingDate,
+      valueDate: parseDate(cell(row, "valueDate")),
+      amount,
+      currency: cell(row, "currency")?.toUpperCase() ?? "EUR",
+      counterpartyName:
+        amount > 0
+          ? cell(row, "payer") ?? cell(row, "counterpartyName")
+          : cell(row, "counterpartyName") ?? cell(row, "payer"),
+      counterpartyIban: normalizeIban(cell(row, "counterpartyIban")),
+      purpose: cleanText(purposeColumns.length > 1 ? purposeColumns.join(" ") : cell(row, "purpose")) ?? "",
+      reference: cell(row, "reference"),
+    });
+  }
+
+  return { format: "csv", accountIban, transactions };
+}
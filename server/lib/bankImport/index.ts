@@ -0,0 +1,68 @@
+import { createHash } from "crypto";
+import type { BankStatementFormat } from "../../../shared/bankImport";
+import { parseCamt053 } from "./camt";
+import { parseBankCsv } from "./csv";
+import { parseMt940 } from "./mt940";
+import { BankStatementParseError, type ParsedBankStatement, type ParsedBankTransaction } from "./types";
+
+export { BankStatementParseError } from "./types";
+export type { ParsedBankStatement, ParsedBankTransaction } from "./types";
+export { proposeBankMatches } from "./matching";
+export type { BankMatchCandidates, InvoiceMatchCandidate, ExpenseMatchCandidate } from "./matching";
+
+/**
+ * Decode an uploaded statement. Many German banks still export ISO-8859-1,
+ * so invalid UTF-8 falls back to Latin-1.
+ */
+export function decodeStatementContent(buffer: Buffer): string {
+  const utf8 = buffer.toString("utf8");
+  const text = utf8.includes("\uFFFD") ? buffer.toString("latin1") : utf8;
+  return text.replace(/^\uFEFF/, "");
+}
+
+export function detectBankStatementFormat(content: string): BankStatementFormat {
+  const head = content.slice(0, 4000);
+  if (/<([\w-]+:)?BkToCstmrStmt\b/.test(head) || /camt\.05[234]/.test(head)) {
+    return "camt053";
+  }
+  if (/^:20:/m.test(head) && /^:(25|60F|61):/m.test(content)) {
+    return "mt940";
+  }
+  if (head.trimStart().startsWith("<")) {
+    throw new BankStatementParseError("Only CAMT.053 XML statements are supported");
+  }
+  return "csv";
+}
+
+export function parseBankStatement(content: string, format = detectBankStatementFormat(content)): ParsedBankStatement {
+  switch (format) {
+    case "camt053":
+      return parseCamt053(content);
+    case "mt940":
+      return parseMt940(content);
+    case "csv":
+      return parseBankCsv(content);
+  }
+}
+
+/**
+ * Stable fingerprint per transaction, used to skip transactions that were
+ * already imported from an overlapping statement. Identical bookings on the
+ * same day are told apart by their position among each other.
+ */
+export function fingerprintBankTransactions(accountIban: string | null, transactions: ParsedBankTransaction[]): string[] {
+  const occurrences = new Map<string, number>();
+  return transactions.map((transaction) => {
+    const key = [
+      accountIban ?? "",
+      transaction.bookingDate.toDateString(),
+      transaction.amount.toFixed(2),
+      transaction.currency,
+      transaction.counterpartyIban ?? transaction.counterpartyName ?? "",
+      transaction.purpose,
+    ].join("|");
+    const occurrence = occurrences.get(key) ?? 0;
+    occurrences.set(key, occurrence + 1);
+    return createHash("sha256").update(`${key}|${occurrence}`).digest("hex");
+  });
+}
@@ -0,0 +1,163 @@
+/**
+ * Match proposals for imported bank transactions.
+ *
+ * Incoming payments are compared with open invoices (invoice number in the
+ * purpose, outstanding amount, client name), outgoing payments with unpaid
+ * expenses (supplier name, gross amount, date). Proposals are only
+ * suggestions; nothing is booked until the user confirms one.
+ */
+
+import type { BankMatchProposal, BankMatchReason } from "../../../shared/bankImport";
+import { calculateSimilarity } from "../../services/ai/document/nameSimilarity";
+import { round2 } from "./values";
+
+export interface InvoiceMatchCandidate {
+  id: number;
+  invoiceNumber: string | null;
+  clientId: number | null;
+  clientName: string | null;
+  total: number;
+  amountPaid: number;
+}
+
+export interface ExpenseMatchCandidate {
+  id: number;
+  supplierName: string;
+  grossAmountCents: number;
+  expenseDate: Date;
+}
+
+export interface BankMatchCandidates {
+  invoices: InvoiceMatchCandidate[];
+  expenses: ExpenseMatchCandidate[];
+  /** Contact matched to the transaction counterparty via matchClient, if any */
+  counterpartyClientId?: number | null;
+}
+
+interface MatchableTransaction {
+  bookingDate: Date;
+  amount: number;
+  counterpartyName: string | null;
+  purpose: string;
+}
+
+export const MIN_MATCH_SCORE = 0.6;
+const NAME_SIMILARITY_THRESHOLD = 0.8;
+const MAX_PROPOSALS = 3;
+/** Expenses are usually paid within a few weeks of the receipt date */
+const EXPENSE_PAYMENT_WINDOW_DAYS = 45;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Whether the invoice number occurs in the purpose. Separators may be missing
+ * or replaced by the bank ("RE-2025-0012" matches "RE 2025 0012" and
+ * "RE20250012"), but "RE-2025-001" must not match "RE-2025-0012".
+ */
+export function purposeContainsInvoiceNumber(purpose: string, invoiceNumber: string | null): boolean {
+  const chars = (invoiceNumber ?? "").replace(/[^a-z0-9]/gi, "").split("");
+  if (chars.length < 3) return false;
+  const body = chars.join("[\\s\\-_/.]*");
+  return new RegExp(`(?<![a-z0-9])${body}(?![a-z0-9])`, "i").test(purpose);
+}
+
+function namesMatch(counterpartyName: string | null, name: string | null): boolean {
+  if (!counterpartyName || !name) return false;
+  if (calculateSimilarity(counterpartyName, name) >= NAME_SIMILARITY_THRESHOLD) return true;
+  // Bank names are often truncated or carry extra details ("AMAZON EU S.A R.L., NIEDERLASSUNG DEUTSCHLAND")
+  const haystack = counterpartyName.toLowerCase();
+  const needle = name.toLowerCase().replace(/\s+/g, " ").trim();
+  return needle.length >= 4 && haystack.includes(needle);
+}
+
+function scoreInvoice(
+  transaction: MatchableTransaction,
+  invoice: InvoiceMatchCandidate,
+  counterpartyClientId: number | null | undefined
+): BankMatchProposal | null {
+  const outstanding = round2(invoice.total - invoice.amountPaid);
+  if (outstanding <= 0) return null;
+
+  let score = 0;
+  const reasons: BankMatchReason[] = [];
+
+  if (purposeContainsInvoiceNumber(transaction.purpose, invoice.invoiceNumber)) {
+    score += 0.6;
+    reasons.push("invoice_number");
+  }
+
+  if (Math.abs(transaction.amount - outstanding) < 0.005) {
+    score += 0.3;
+    reasons.push("amount");
+  } else if (transaction.amount < outstanding) {
+    score += 0.05;
+    reasons.push("partial_amount");
+  }
+
+  const sameClient = counterpartyClientId != null && counterpartyClientId === invoice.clientId;
+  if (sameClient || namesMatch(transaction.counterpartyName, invoice.clientName)) {
+    score += 0.3;
+    reasons.push("name");
+  }
+
+  return {
+    kind: "invoice",
+    id: invoice.id,
+    label: invoice.invoiceNumber ?? `#${invoice.id}`,
+    counterpartyName: invoice.clientName,
+    amount: outstanding,
+    score: Math.min(1, round2(score)),
+    reasons,
+  };
+}
+
+function scoreExpense(transaction: MatchableTransaction, expense: ExpenseMatchCandidate): BankMatchProposal {
+  let score = 0;
+  const reasons: BankMatchReason[] = [];
+
+  if (Math.abs(Math.round(-transaction.amount * 100) - expense.grossAmountCents) < 1) {
+    score += 0.5;
+    reasons.push("amount");
+  }
+
+  const nameText = [transaction.counterpartyName, transaction.purpose].filter(Boolean).join(" ");
+  if (namesMatch(transaction.counterpartyName, expense.supplierName) || namesMatch(nameText, expense.supplierName)) {
+    score += 0.4;
+    reasons.push("name");
+  }
+
+  const daysAfterExpense = (transaction.bookingDate.getTime() - new Date(expense.expenseDate).getTime()) / DAY_MS;
+  if (daysAfterExpense > -3 && daysAfterExpense <= EXPENSE_PAYMENT_WINDOW_DAYS) {
+    score += 0.1;
+    reasons.push("date");
+  }
+
+  return {
+    kind: "expense",
+    id: expense.id,
+    label: expense.supplierName,
+    counterpartyName: expense.supplierName,
+    amount: round2(expense.grossAmountCents / 100),
+    score: Math.min(1, round2(score)),
+    reasons,
+  };
+}
+
+/**
+ * Best proposals for one transaction, highest score first
+ */
+export function proposeBankMatches(
+  transaction: MatchableTransaction,
+  candidates: BankMatchCandidates
+): BankMatchProposal[] {
+  const proposals =
+    transaction.amount > 0
+      ? candidates.invoices
+          .map((invoice) => scoreInvoice(transaction, invoice, candidates.counterpartyClientId))
+          .filter((proposal): proposal is BankMatchProposal => proposal !== null)
+      : candidates.expenses.map((expense) => scoreExpense(transaction, expense));
+
+  return proposals
+    .filter((proposal) => proposal.score >= MIN_MATCH_SCORE)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, MAX_PROPOSALS);
+}
@@ -0,0 +1,170 @@
+/**
+ * MT940 (SWIFT customer statement) parser.
+ *
+ * German banks put structured details into field :86: ("?20".."?29" and
+ * "?60".."?63" purpose, "?31" IBAN, "?32"/"?33" name). Unstructured :86:
+ * content is kept as purpose text.
+ */
+
+import { BankStatementParseError, type ParsedBankStatement, type ParsedBankTransaction } from "./types";
+import { cleanText, normalizeIban, parseAmount, round2 } from "./values";
+
+interface Mt940Field {
+  tag: string;
+  value: string;
+}
+
+function splitFields(content: string): Mt940Field[] {
+  const fields: Mt940Field[] = [];
+  for (const rawLine of content.split(/\r?\n/)) {
+    const line = rawLine.replace(/\s+$/, "");
+    const tagMatch = /^:(\d{2}[A-Z]?):(.*)$/.exec(line);
+    if (tagMatch) {
+      fields.push({ tag: tagMatch[1], value: tagMatch[2] });
+    } else if (fields.length > 0 && line !== "-" && !line.startsWith("{")) {
+      fields[fields.length - 1].value += `\n${line}`;
+    }
+  }
+  return fields;
+}
+
+function parseShortDate(value: string): Date {
+  const year = 2000 + Number(value.slice(0, 2));
+  return new Date(year, Number(value.slice(2, 4)) - 1, Number(value.slice(4, 6)));
+}
+
+interface StatementLine {
+  valueDate: Date;
+  bookingDate: Date;
+  amount: number;
+  reference: string | null;
+}
+
+/**
+ * :61: YYMMDD[MMDD](C|D|RC|RD)[funds code]amount N|F type reference[//bank reference]
+ */
+function parseStatementLine(value: string): StatementLine | null {
+  const match = /^(\d{6})(\d{4})?(R?[CD])([A-Z])?(\d+,\d{0,2})[NF][A-Z0-9]{3}([^\n/]*)(?:\/\/([^\n]*))?/.exec(value);
+  if (!match) return null;
+
+  const valueDate = parseShortDate(match[1]);
+  let bookingDate = valueDate;
+  if (match[2]) {
+    const month = Number(match[2].slice(0, 2)) - 1;
+    let year = valueDate.getFullYear();
+    // Booking and value date can lie on different sides of the turn of the year
+    if (month === 11 && valueDate.getMonth() === 0) year -= 1;
+    if (month === 0 && valueDate.getMonth() === 11) year += 1;
+    bookingDate = new Date(year, month, Number(match[2].slice(2, 4)));
+  }
+
+  const amount = parseAmount(match[5]) ?? 0;
+  // "C" and reversed debits ("RD") are incoming, "D" and reversed credits ("RC") outgoing
+  const incoming = match[3] === "C" || match[3] === "RD";
+  const customerReference = match[6].trim();
+
+  return {
+    valueDate,
+    bookingDate,
+    amount: round2(incoming ? amount : -amount),
+    reference: customerReference && customerReference !== "NONREF" ? customerReference : cleanText(match[7]),
+  };
+}
+
+interface TransactionDetails {
+  purpose: string;
+  counterpartyName: string | null;
+  counterpartyIban: string | null;
+  endToEndReference: string | null;
+}
+
+function parseDetails(value: string): TransactionDetails {
+  const compact = value.replace(/\n/g, "");
+  const structured = /^\d{3}([?@#])/.exec(compact);
+
+  let purpose: string;
+  let counterpartyName: string | null = null;
+  let counterpartyIban: string | null = null;
+
+  if (structured) {
+    const separator = structured[1];
+    const subfields = new Map<number, string[]>();
+    for (const part of compact.slice(4).split(separator)) {
+      const code = Number(part.slice(0, 2));
+      if (!Number.isInteger(code)) continue;
+      subfields.set(code, [...(subfields.get(code) ?? []), part.slice(2)]);
+    }
+    const collect = (codes: number[]) => codes.flatMap((code) => subfields.get(code) ?? []).join("");
+    purpose = collect([20, 21, 22, 23, 24, 25, 26, 27, 28, 29, 60, 61, 62, 63]);
+    counterpartyName = cleanText(collect([32, 33]));
+    counterpartyIban = normalizeIban(collect([31]));
+  } else {
+    purpose = value.replace(/\n/g, " ");
+  }
+
+  // SEPA purpose keywords: keep the free text, remember the end-to-end reference
+  const endToEnd = /EREF\+(.*?)(?=[A-Z]{4}\+|$)/.exec(purpose);
+  const remittance = /SVWZ\+(.*?)(?=(?:ABWA|ABWE|EREF|KREF|MREF|CRED|DEBT|COAM|OAMT|IBAN|BIC)\+|$)/.exec(purpose);
+
+  return {
+    purpose: cleanText(remittance ? remittance[1] : purpose) ?? "",
+    counterpartyName,
+    counterpartyIban,
+    endToEndReference: endToEnd && endToEnd[1].trim() !== "NOTPROVIDED" ? cleanText(endToEnd[1]) : null,
+  };
+}
+
+export function parseMt940(content: string): ParsedBankStatement {
+  const fields = splitFields(content);
+  if (!fields.some((field) => field.tag === "61") && !fields.some((field) => field.tag === "20")) {
+    throw new BankStatementParseError("No MT940 statement found in the file");
+  }
+
+  let accountIban: string | null = null;
+  let currency = "EUR";
+  const transactions: ParsedBankTransaction[] = [];
+  let current: ParsedBankTransaction | null = null;
+
+  for (const field of fields) {
+    switch (field.tag) {
+      case "25":
+        accountIban ??= normalizeIban(field.value.split("/").pop());
+        break;
+      case "60F":
+      case "60M": {
+        const balanceCurrency = /^[CD]\d{6}([A-Z]{3})/.exec(field.value);
+        if (balanceCurrency) currency = balanceCurrency[1];
+        break;
+      }
+      case "61": {
+        const line = parseStatementLine(field.value);
+        current = line
+          ? {
+              bookingDate: line.bookingDate,
+              valueDate: line.valueDate,
+              amount: line.amount,
+              currency,
+              counterpartyName: null,
+              counterpartyIban: null,
+              purpose: "",
+              reference: line.reference,
+            }
+          : null;
+        if (current) transactions.push(current);
+        break;
+      }
+      case "86": {
+        if (!current) break;
+        const details = parseDetails(field.value);
+        current.purpose = details.purpose;
+        current.counterpartyName = details.counterpartyName;
+        current.counterpartyIban = details.counterpartyIban;
+        current.reference = details.endToEndReference ?? current.reference;
+        current = null;
+        break;
+      }
+    }
+  }
+
+  return { format: "mt940", accountIban, transactions };
+}
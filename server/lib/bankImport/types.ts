@@ -0,0 +1,28 @@
+import type { BankStatementFormat } from "../../../shared/bankImport";
+
+export interface ParsedBankTransaction {
+  bookingDate: Date;
+  valueDate: Date | null;
+  /** Signed amount: positive for incoming, negative for outgoing payments */
+  amount: number;
+  currency: string;
+  counterpartyName: string | null;
+  counterpartyIban: string | null;
+  /** Remittance information (Verwendungszweck) */
+  purpose: string;
+  /** End-to-end id or bank reference, if the format provides one */
+  reference: string | null;
+}
+
+export interface ParsedBankStatement {
+  format: BankStatementFormat;
+  accountIban: string | null;
+  transactions: ParsedBankTransaction[];
+}
+
+export class BankStatementParseError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "BankStatementParseError";
+  }
+}
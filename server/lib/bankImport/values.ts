@@ -0,0 +1,83 @@
+/**
+ * Value parsing shared by the statement parsers.
+ */
+
+export function round2(value: number) {
+  return Math.round((value + Number.EPSILON) * 100) / 100;
+}
+
+/** Collapse whitespace; returns null for empty values */
+export function cleanText(value: string | null | undefined): string | null {
+  if (!value) return null;
+  const text = value.replace(/\s+/g, " ").trim();
+  return text.length > 0 ? text : null;
+}
+
+export function normalizeIban(value: string | null | undefined): string | null {
+  if (!value) return null;
+  const iban = value.replace(/\s+/g, "").toUpperCase();
+  return /^[A-Z]{2}\d{2}[A-Z0-9]{10,30}$/.test(iban) ? iban : null;
+}
+
+/**
+ * Parse an amount in German ("1.234,56") or international ("1,234.56") notation.
+ * Currency symbols and a trailing sign ("12,50-") are accepted.
+ */
+export function parseAmount(value: string | null | undefined): number | null {
+  if (!value) return null;
+  let text = value.replace(/[\s €]|EUR/gi, "");
+  let negative = false;
+  if (/^-|-$/.test(text)) {
+    negative = true;
+    text = text.replace(/^-|-$/g, "");
+  }
+  text = text.replace(/^\+/, "");
+  if (!/^\d[\d.,]*$/.test(text)) return null;
+
+  const lastComma = text.lastIndexOf(",");
+  const lastDot = text.lastIndexOf(".");
+  if (lastComma > lastDot) {
+    text = text.replace(/\./g, "").replace(",", ".");
+  } else if (lastDot > lastComma && lastComma >= 0) {
+    text = text.replace(/,/g, "");
+  } else if (lastDot >= 0 && text.indexOf(".") !== lastDot) {
+    // Only thousands separators, e.g. "1.234.567"
+    text = text.replace(/\./g, "");
+  }
+
+  const amount = Number(text);
+  if (!Number.isFinite(amount)) return null;
+  return round2(negative ? -amount : amount);
+}
+
+/**
+ * Parse dd.mm.yyyy, dd.mm.yy and yyyy-mm-dd (optionally with a time part)
+ * into a local date.
+ */
+export function parseDate(value: string | null | undefined): Date | null {
+  if (!value) return null;
+  const text = value.trim();
+
+  let year: number;
+  let month: number;
+  let day: number;
+
+  const german = /^(\d{1,2})\.(\d{1,2})\.(\d{2}|\d{4})$/.exec(text);
+  const iso = /^(\d{4})-(\d{2})-(\d{2})(?:[T ].*)?$/.exec(text);
+  if (german) {
+    day = Number(german[1]);
+    month = Number(german[2]);
+    year = Number(german[3]);
+    if (year < 100) year += 2000;
+  } else if (iso) {
+    year = Number(iso[1]);
+    month = Number(iso[2]);
+    day = Number(iso[3]);
+  } else {
+    return null;
+  }
+
+  const date = new Date(year, month - 1, day);
+  if (date.getMonth() !== month - 1 || date.getDate() !== day) return null;
+  return date;
+}
@@ -0,0 +1,163 @@
+import type { EInvoiceDocument, EInvoiceProfile } from "../einvoice/types";
+import {
+  evaluateInvoiceCompleteness,
+  type Blocker,
+  type CompanySnapshot,
+  type CompletenessResult,
+  type InvoiceSnapshot,
+  type SettingsSnapshot,
+} from "./ice";
+
+/**
+ * Evaluate an invoice for structured e-invoice export (XRechnung / ZUGFeRD).
+ *
+ * Runs the regular ICE rules first, then the EN 16931 core rules (BR-*, BR-CO-*)
+ * and - for XRechnung - the German CIUS rules (BR-DE-*) that the app can check
+ * from its own data. ZUGFeRD's EN 16931 profile only needs the core rules.
+ * Any violation blocks the export; it never affects the regular SEND flow.
+ */
+export function evaluateEInvoiceCompleteness(
+  doc: EInvoiceDocument,
+  invoice: InvoiceSnapshot,
+  company: CompanySnapshot,
+  settings: SettingsSnapshot,
+  options: { profile?: EInvoiceProfile } = {}
+): CompletenessResult {
+  const base = evaluateInvoiceCompleteness(invoice, company, settings);
+  const blockers: Blocker[] = [...base.blockers];
+  const warnings: Blocker[] = [...base.warnings];
+  const isXRechnung = (options.profile ?? "xrechnung") === "xrechnung";
+
+  let extraRules = 0;
+  let extraPassed = 0;
+  const check = (ok: boolean, ruleId: string, message: string, field?: string) => {
+    extraRules += 1;
+    if (ok) {
+      extraPassed += 1;
+    } else {
+      blockers.push({ ruleId, message, field });
+    }
+  };
+
+  // Seller (BG-4, BG-5, BG-6)
+  check(Boolean(doc.seller.address.city?.trim()), "BR-DE-3", "Company city is required for e-invoices", "city");
+  check(
+    Boolean(doc.seller.address.postalCode?.trim()),
+    "BR-DE-4",
+    "Company postal code is required for e-invoices",
+    "postalCode"
+  );
+  check(Boolean(doc.seller.address.countryCode), "BR-9", "Company country must be a valid ISO country", "country");
+  if (isXRechnung) {
+    check(Boolean(doc.seller.contactPhone?.trim()), "BR-DE-6", "Company phone number is required for e-invoices", "phone");
+    check(Boolean(doc.seller.contactEmail?.trim()), "BR-DE-7", "Company email is required for e-invoices", "email");
+  }
+  check(
+    Boolean(doc.seller.vatId || doc.seller.taxNumber),
+    "BR-CO-26",
+    "Tax number or VAT ID is required for e-invoices",
+    "ustIdNr"
+  );
+
+  // Buyer (BG-7, BG-8)
+  check(Boolean(doc.buyer.address.city?.trim()), "BR-DE-8", "Client city is required for e-invoices", "recipientCity");
+  check(
+    Boolean(doc.buyer.address.postalCode?.trim()),
+    "BR-DE-9",
+    "Client postal code is required for e-invoices",
+    "recipientPostalCode"
+  );
+  check(Boolean(doc.buyer.address.countryCode), "BR-11", "Client country must be a valid ISO country", "recipientCountry");
+  if (isXRechnung) {
+    check(
+      Boolean(doc.buyer.electronicAddress),
+      "BR-DE-28",
+      "Client email is required as electronic address",
+      "recipientEmail"
+    );
+    check(
+      Boolean(doc.buyerReference),
+      "BR-DE-15",
+      "Leitweg-ID or reference number is required (buyer reference)",
+      "leitwegId"
+    );
+  }
+
+  // Payment instructions (BG-16)
+  check(
+    doc.payment.meansCode !== "58" || Boolean(doc.payment.iban),
+    isXRechnung ? "BR-DE-23" : "BR-61",
+    "IBAN is required for SEPA credit transfer",
+    "iban"
+  );
+  check(
+    doc.totals.payable <= 0 || Boolean(doc.dueDate || doc.paymentTerms),
+    "BR-CO-25",
+    "Due date or payment terms are required when an amount is due",
+    "dueDate"
+  );
+
+  // Lines and VAT breakdown
+  const lineSum = Math.round(doc.lines.reduce((sum, line) => sum + line.netAmount, 0) * 100) / 100;
+  check(
+    Math.abs(lineSum - doc.totals.lineTotal) <= 0.005,
+    "BR-CO-10",
+    "Sum of line amounts does not match the invoice net total",
+    "items"
+  );
+  doc.taxSubtotals.forEach((subtotal) => {
+    const expected = Math.round(subtotal.taxableAmount * subtotal.rate) / 100;
+    check(
+      Math.abs(expected - subtotal.taxAmount) <= 0.01,
+      "BR-CO-17",
+      `VAT amount ${subtotal.taxAmount.toFixed(2)} does not match ${subtotal.rate}% of ${subtotal.taxableAmount.toFixed(2)}`,
+      "vatAmount"
+    );
+    check(
+      subtotal.category === "S" || subtotal.category === "Z" || Boolean(subtotal.exemptionReason),
+      `BR-${subtotal.category === "K" ? "IC" : subtotal.category}-10`,
+      `VAT exemption reason is required for category ${subtotal.category}`,
+      "vatAmount"
+    );
+    if (subtotal.category === "AE" || subtotal.category === "K") {
+      check(
+        Boolean(doc.buyer.vatId),
+        `BR-${subtotal.category === "K" ? "IC" : "AE"}-2`,
+        "Client VAT ID is required for reverse-charge and intra-EU lines",
+        "recipientVatNumber"
+      );
+    }
+  });
+  const taxSum = doc.taxSubtotals.reduce((sum, subtotal) => sum + subtotal.taxAmount, 0);
+  check(
+    Math.abs(taxSum - doc.totals.taxAmount) <= 0.005,
+    "BR-CO-14",
+    "VAT breakdown does not add up to the invoice VAT total",
+    "vatAmount"
+  );
+  if (doc.typeCode === "381" && !doc.precedingInvoiceNumber) {
+    warnings.push({
+      ruleId: "BR-55",
+      message: "Cancellation does not reference the original invoice number",
+      field: "cancelledInvoiceId",
+    });
+  }
+
+  const allowedActions: CompletenessResult["allowedActions"] =
+    blockers.length > 0 ? base.allowedActions.filter((action) => action !== "SEND") : base.allowedActions;
+  const stage = allowedActions.includes("SEND")
+    ? "READY_TO_SEND"
+    : allowedActions.includes("PREVIEW")
+    ? "NEEDS_REVIEW"
+    : "INCOMPLETE";
+  const baseRules = 10;
+  const percent = (((base.percent / 100) * baseRules + extraPassed) / (baseRules + extraRules)) * 100;
+
+  return {
+    stage,
+    percent,
+    blockers,
+    warnings,
+    allowedActions,
+  };
+}
@@ -1,4 +1,5 @@
 import type { Invoice } from "../../../drizzle/schema";
+import type { InvoiceVatCategory } from "../../../shared/invoiceVat";
 
 export interface InvoiceSnapshot {
   invoiceNumber?: string | null;
@@ -7,9 +8,10 @@ export interface InvoiceSnapshot {
   servicePeriodStart?: Date | null;
   servicePeriodEnd?: Date | null;
   total: number;
-  items: Array<{ name?: string; quantity?: number; unitPrice?: number }>;
+  items: Array<{ name?: string; quantity?: number; unitPrice?: number; vatCategory?: InvoiceVatCategory | null }>;
   recipientName?: string | null;
   recipientAddress?: string | null;
+  recipientVatNumber?: string | null;
 }
 
 export interface CompanySnapshot {
@@ -47,7 +49,8 @@ export function evaluateInvoiceCompleteness(
   const blockers: Blocker[] = [];
   const warnings: Blocker[] = [];
   const blockedActions = new Set<BlockedAction>();
-  const totalRules = 10;
+  const isReverseCharge = (invoice.items || []).some((item) => item.vatCategory === "reverse_charge");
+  const totalRules = isReverseCharge ? 11 : 10;
   let passedRules = 0;
 
   const addBlocker = (ruleId: string, message: string, actions: BlockedAction[], field?: string) => {
@@ -160,6 +163,20 @@ export function evaluateInvoiceCompleteness(
     passedRules += 1;
   }
 
+  // § 13b: the client owes the VAT, so the invoice has to identify them by VAT ID
+  if (isReverseCharge) {
+    if (!invoice.recipientVatNumber?.trim()) {
+      addBlocker(
+        "RECIPIENT_VAT_ID_MISSING",
+        "Client VAT ID is required for reverse-charge invoices (§ 13b UStG)",
+        ["SEND"],
+        "recipientVatNumber"
+      );
+    } else {
+      passedRules += 1;
+    }
+  }
+
   const percent = (passedRules / totalRules) * 100;
   const allowedActions: ("SAVE" | "PREVIEW" | "SEND")[] = ["SAVE"];
   if (!blockedActions.has("PREVIEW")) {
@@ -186,7 +203,7 @@ export function evaluateInvoiceCompleteness(
 
 export function buildInvoiceSnapshot(
   invoice: Invoice,
-  contact: { name: string; address?: string | null } | null
+  contact: { name: string; address?: string | null; vatNumber?: string | null } | null
 ): InvoiceSnapshot {
   return {
     invoiceNumber: invoice.invoiceNumber,
@@ -198,6 +215,7 @@ export function buildInvoiceSnapshot(
     items: (invoice.items as any[]) || [],
     recipientName: contact?.name,
     recipientAddress: contact?.address,
+    recipientVatNumber: contact?.vatNumber,
   };
 }
 
@@ -0,0 +1,199 @@
+import type { DatevAccounts } from "../../../shared/datev";
+import type { ExpenseCategory } from "../../../shared/expenseCategories";
+import { getExpenseAccountingLines, type ExpenseSplitLine, type ExpenseVatMode } from "../../../shared/expenseSplits";
+import {
+  calculateStoredInvoiceVatBreakdown,
+  type InvoiceVatCategory,
+  type VatLineInput,
+} from "../../../shared/invoiceVat";
+
+export interface DatevBooking {
+  /** Always positive; the direction is given by `side` */
+  amount: number;
+  side: "S" | "H";
+  currency: string;
+  account: string;
+  contraAccount: string;
+  /** BU-Schlüssel for accounts without automatic VAT, e.g. "9" for 19 % input tax */
+  taxKey: string | null;
+  date: Date;
+  /** Belegfeld 1 - links the booking to its receipt */
+  document: string;
+  text: string;
+}
+
+export interface DatevInvoiceInput {
+  invoiceNumber: string | null;
+  issueDate: Date;
+  clientName: string | null;
+  subtotal: number;
+  vatAmount: number;
+  total: number;
+  items: VatLineInput[];
+}
+
+export interface DatevExpenseInput {
+  id: number;
+  supplierName: string;
+  expenseDate: Date;
+  grossAmountCents: number;
+  currency: string;
+  vatMode: ExpenseVatMode;
+  vatRate: "0" | "7" | "19" | null;
+  businessUsePct: number;
+  category: ExpenseCategory | null;
+  paymentStatus: "paid" | "unpaid";
+  paymentMethod: "cash" | "bank_transfer" | "card" | "online" | null;
+  /** Split lines are booked separately */
+  splits?: ExpenseSplitLine[];
+}
+
+export interface DatevInvoiceOptions {
+  accounts: DatevAccounts;
+  /** Company default rate for legacy lines without a stored rate */
+  defaultRate: number;
+  isKleinunternehmer: boolean;
+}
+
+/** Input tax keys (Vorsteuer) for expense accounts */
+const INPUT_TAX_KEYS: Record<string, string> = {
+  "19": "9",
+  "7": "8",
+};
+
+/** § 13b keys: DATEV books output VAT and the matching input VAT from the net amount */
+const REVERSE_CHARGE_TAX_KEYS: Record<string, string> = {
+  "19": "94",
+  "7": "91",
+};
+
+function expenseTaxKey(vatMode: ExpenseVatMode, vatRate: DatevExpenseInput["vatRate"]) {
+  if (!vatRate) return null;
+  if (vatMode === "german") return INPUT_TAX_KEYS[vatRate] ?? null;
+  if (vatMode === "reverse_charge") return REVERSE_CHARGE_TAX_KEYS[vatRate] ?? null;
+  return null;
+}
+
+const MAX_DOCUMENT_LENGTH = 36;
+const MAX_TEXT_LENGTH = 60;
+
+function round2(value: number) {
+  return Math.round((value + Number.EPSILON) * 100) / 100;
+}
+
+/**
+ * Belegfeld 1 only allows letters, digits and $ & % * + - / (max. 36 characters)
+ */
+export function toDatevDocumentNumber(value: string): string {
+  return value.replace(/[^A-Za-z0-9$&%*+\-/]/g, "").slice(0, MAX_DOCUMENT_LENGTH);
+}
+
+function bookingText(value: string | null | undefined) {
+  return (value ?? "").replace(/\s+/g, " ").trim().slice(0, MAX_TEXT_LENGTH);
+}
+
+function signedBooking(amount: number, booking: Omit<DatevBooking, "amount" | "side">): DatevBooking {
+  return { ...booking, amount: round2(Math.abs(amount)), side: amount < 0 ? "H" : "S" };
+}
+
+/**
+ * Only 19 % and 7 % exist as standard German rates; anything else is booked
+ * on the 19 % account and left to the tax advisor.
+ */
+function revenueAccount(accounts: DatevAccounts, category: InvoiceVatCategory, rate: number) {
+  switch (category) {
+    case "zero":
+      return accounts.revenue_zero;
+    case "reverse_charge":
+      return accounts.revenue_reverse_charge;
+    case "intra_eu":
+      return accounts.revenue_intra_eu;
+    case "standard":
+      return rate === 7 ? accounts.revenue_7 : accounts.revenue_19;
+  }
+}
+
+/**
+ * Revenue bookings for an issued invoice or cancellation, one per VAT group.
+ * Amounts are gross: the revenue accounts split off the output VAT
+ * themselves. Cancellations carry negative totals and are booked on the
+ * credit side (H).
+ */
+export function buildInvoiceBookings(invoice: DatevInvoiceInput, options: DatevInvoiceOptions): DatevBooking[] {
+  const { accounts } = options;
+  const base = {
+    currency: "EUR",
+    account: accounts.debtors,
+    taxKey: null,
+    date: invoice.issueDate,
+    document: toDatevDocumentNumber(invoice.invoiceNumber ?? ""),
+    text: bookingText(invoice.clientName ?? invoice.invoiceNumber),
+  };
+
+  if (options.isKleinunternehmer) {
+    return invoice.total === 0
+      ? []
+      : [signedBooking(invoice.total, { ...base, contraAccount: accounts.revenue_kleinunternehmer })];
+  }
+
+  return calculateStoredInvoiceVatBreakdown(invoice, { defaultRate: options.defaultRate })
+    .filter((entry) => entry.netAmount + entry.vatAmount !== 0)
+    .map((entry) =>
+      signedBooking(entry.netAmount + entry.vatAmount, {
+        ...base,
+        contraAccount: revenueAccount(accounts, entry.category, entry.rate),
+      })
+    );
+}
+
+/**
+ * Expense booking on the category account against bank, cash or payables.
+ * Only the business share is exported; German input VAT is split off and
+ * reverse-charge VAT added via the BU key.
+ */
+export function buildExpenseBooking(expense: DatevExpenseInput, accounts: DatevAccounts): DatevBooking | null {
+  const amountCents = Math.round((expense.grossAmountCents * expense.businessUsePct) / 100);
+  if (amountCents === 0) return null;
+
+  const contraAccount = expense.paymentStatus === "unpaid"
+    ? accounts.payables
+    : expense.paymentMethod === "cash"
+      ? accounts.cash
+      : accounts.bank;
+
+  return signedBooking(amountCents / 100, {
+    currency: expense.currency,
+    account: accounts[expense.category ?? "other"],
+    contraAccount,
+    taxKey: expenseTaxKey(expense.vatMode, expense.vatRate),
+    date: expense.expenseDate,
+    document: expenseDocumentNumber(expense.id),
+    text: bookingText(expense.supplierName),
+  });
+}
+
+/**
+ * Bookings of an expense, one per split line. All lines share the document
+ * number so they point at the same receipt.
+ */
+export function buildExpenseBookings(expense: DatevExpenseInput, accounts: DatevAccounts): DatevBooking[] {
+  return getExpenseAccountingLines(expense)
+    .map((line) =>
+      buildExpenseBooking(
+        {
+          ...expense,
+          grossAmountCents: line.grossAmountCents,
+          category: line.category,
+          vatRate: line.vatRate,
+          businessUsePct: line.businessUsePct,
+          splits: undefined,
+        },
+        accounts
+      )
+    )
+    .filter((booking): booking is DatevBooking => booking !== null);
+}
+
+export function expenseDocumentNumber(expenseId: number) {
+  return `E-${expenseId}`;
+}
@@ -0,0 +1,183 @@
+import { inflateRawSync } from "zlib";
+import { describe, expect, it } from "vitest";
+import { DEFAULT_DATEV_ACCOUNTS, resolveDatevAccounts } from "../../../shared/datev";
+import {
+  buildExpenseBooking,
+  buildExpenseBookings,
+  buildExtfBuchungsstapel,
+  buildInvoiceBookings,
+  createZip,
+  datevReceiptPath,
+  encodeDatevFile,
+  ZipWriter,
+  type DatevExpenseInput,
+} from "./index";
+import { crc32 } from "./zip";
+
+const accounts = DEFAULT_DATEV_ACCOUNTS.SKR03;
+
+const expense: DatevExpenseInput = {
+  id: 42,
+  supplierName: "Bürobedarf Müller",
+  expenseDate: new Date(2025, 2, 6),
+  grossAmountCents: 11900,
+  currency: "EUR",
+  vatMode: "german",
+  vatRate: "19",
+  businessUsePct: 100,
+  category: "office_supplies",
+  paymentStatus: "paid",
+  paymentMethod: "bank_transfer",
+};
+
+describe("resolveDatevAccounts", () => {
+  it("applies valid overrides on top of the chart", () => {
+    const resolved = resolveDatevAccounts("SKR04", { software: "6838", rent: "abc", travel: " " });
+    expect(resolved.software).toBe("6838");
+    expect(resolved.rent).toBe(DEFAULT_DATEV_ACCOUNTS.SKR04.rent);
+    expect(resolved.travel).toBe(DEFAULT_DATEV_ACCOUNTS.SKR04.travel);
+  });
+});
+
+describe("DATEV bookings", () => {
+  it("books one revenue line per VAT group", () => {
+    const bookings = buildInvoiceBookings(
+      {
+        invoiceNumber: "RE 2025_0012",
+        issueDate: new Date(2025, 2, 4),
+        clientName: "Muster GmbH",
+        subtotal: 1100,
+        vatAmount: 197,
+        total: 1297,
+        items: [
+          { lineTotal: 1000, vatRate: 19, vatCategory: "standard" },
+          { lineTotal: 100, vatRate: 7, vatCategory: "standard" },
+        ],
+      },
+      { accounts, defaultRate: 19, isKleinunternehmer: false }
+    );
+    expect(bookings).toEqual([
+      expect.objectContaining({ amount: 1190, side: "S", account: "10000", contraAccount: "8400", document: "RE20250012" }),
+      expect.objectContaining({ amount: 107, side: "S", account: "10000", contraAccount: "8300" }),
+    ]);
+  });
+
+  it("books cancellations on the credit side", () => {
+    const [booking] = buildInvoiceBookings(
+      {
+        invoiceNumber: "RE-2025-0013",
+        issueDate: new Date(2025, 2, 5),
+        clientName: "Muster GmbH",
+        subtotal: -1000,
+        vatAmount: -190,
+        total: -1190,
+        items: [{ lineTotal: -1000, vatRate: 19, vatCategory: "standard" }],
+      },
+      { accounts, defaultRate: 19, isKleinunternehmer: false }
+    );
+    expect(booking).toMatchObject({ amount: 1190, side: "H", contraAccount: "8400" });
+  });
+
+  it("books the business share of an expense with the input tax key", () => {
+    expect(buildExpenseBooking(expense, accounts)).toMatchObject({
+      amount: 119,
+      side: "S",
+      account: "4930",
+      contraAccount: "1200",
+      taxKey: "9",
+      document: "E-42",
+    });
+    expect(
+      buildExpenseBooking({ ...expense, businessUsePct: 50, paymentStatus: "unpaid", vatMode: "none" }, accounts)
+    ).toMatchObject({ amount: 59.5, contraAccount: "1600", taxKey: null });
+    expect(
+      buildExpenseBooking({ ...expense, grossAmountCents: 10000, vatMode: "reverse_charge" }, accounts)
+    ).toMatchObject({ amount: 100, taxKey: "94" });
+  });
+
+  it("books each split line on its own account", () => {
+    const bookings = buildExpenseBookings(
+      {
+        ...expense,
+        grossAmountCents: 16250,
+        splits: [
+          { grossAmountCents: 11900, category: "repairs", vatRate: "19", projectId: 3, businessUsePct: 100 },
+          { grossAmountCents: 3210, category: "office_supplies", vatRate: "7", projectId: null, businessUsePct: 50 },
+          { grossAmountCents: 1140, category: "other", vatRate: "19", projectId: null, businessUsePct: 0 },
+        ],
+      },
+      accounts
+    );
+    expect(bookings.map((booking) => [booking.amount, booking.account, booking.taxKey, booking.document])).toEqual([
+      [119, accounts.repairs, "9", "E-42"],
+      [16.05, accounts.office_supplies, "8", "E-42"],
+    ]);
+    expect(buildExpenseBookings(expense, accounts)).toEqual([buildExpenseBooking(expense, accounts)]);
+  });
+});
+
+describe("EXTF Buchungsstapel", () => {
+  it("writes the header, column line and bookings", () => {
+    const booking = buildExpenseBooking(expense, accounts)!;
+    const csv = buildExtfBuchungsstapel([booking], {
+      chart: "SKR03",
+      consultantNumber: "1234567",
+      clientNumber: "12345",
+      from: new Date(2025, 2, 1),
+      to: new Date(2025, 2, 31),
+      label: "Export März 2025",
+      exportedBy: "Max",
+      createdAt: new Date(2025, 3, 1, 9, 30, 0, 5),
+    });
+    const [header, columns, row] = csv.split("\r\n");
+    expect(header.split(";").slice(0, 17)).toEqual([
+      '"EXTF"', "700", "21", '"Buchungsstapel"', "13", "20250401093000005", "", '"RE"', '"Max"', '""',
+      "1234567", "12345", "20250101", "4", "20250301", "20250331", '"Export März 2025"',
+    ]);
+    expect(header.split(";")[26]).toBe('"03"');
+    expect(columns.startsWith("Umsatz (ohne Soll/Haben-Kz);Soll/Haben-Kennzeichen")).toBe(true);
+    expect(row.split(";").slice(0, 14)).toEqual([
+      "119,00", '"S"', '"EUR"', "", "", '""', "4930", "1200", '"9"', "0603", '"E-42"', '""', "", '"Bürobedarf Müller"',
+    ]);
+    expect(encodeDatevFile("Müller 5 €").toString("latin1")).toBe("Müller 5 EUR");
+  });
+});
+
+describe("DATEV ZIP bundle", () => {
+  it("names receipts after their booking and keeps them apart", () => {
+    const used = new Set<string>();
+    expect(datevReceiptPath("E-42", "Quittung März.pdf", used)).toBe("Belege/E-42_Quittung_M_rz.pdf");
+    expect(datevReceiptPath("E-42", "Quittung März.pdf", used)).toBe("Belege/E-42_Quittung_M_rz-2.pdf");
+  });
+
+  it("writes readable ZIP entries", () => {
+    const data = Buffer.from("Umsatz;Konto\r\n".repeat(20));
+    const zip = createZip([{ name: "EXTF.csv", data, modifiedAt: new Date(2025, 0, 1) }]);
+
+    expect(zip.readUInt32LE(0)).toBe(0x04034b50);
+    expect(crc32(Buffer.from("123456789"))).toBe(0xcbf43926);
+    const compressedSize = zip.readUInt32LE(18);
+    const nameLength = zip.readUInt16LE(26);
+    expect(zip.readUInt32LE(14)).toBe(crc32(data));
+    const content = zip.subarray(30 + nameLength, 30 + nameLength + compressedSize);
+    expect(inflateRawSync(content).equals(data)).toBe(true);
+    expect(zip.readUInt32LE(zip.length - 22)).toBe(0x06054b50);
+  });
+
+  it("streams the same bytes entry by entry", () => {
+    const entries = [
+      { name: "EXTF.csv", data: Buffer.from("Umsatz;Konto\r\n"), modifiedAt: new Date(2025, 0, 1) },
+      { name: "Belege/E-1_Beleg.pdf", data: Buffer.from("%PDF-1.4"), modifiedAt: new Date(2025, 0, 2) },
+    ];
+    const chunks: Buffer[] = [];
+    const writer = new ZipWriter((chunk) => chunks.push(chunk));
+    writer.add(entries[0]);
+    const afterFirstEntry = chunks.length;
+    writer.add(entries[1]);
+    writer.finish();
+
+    expect(afterFirstEntry).toBeGreaterThan(0);
+    expect(Buffer.concat(chunks).equals(createZip(entries))).toBe(true);
+    expect(() => writer.add(entries[0])).toThrow();
+  });
+});
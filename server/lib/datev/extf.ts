@@ -0,0 +1,158 @@
+/**
+ * DATEV-Format "Buchungsstapel" (EXTF, format version 700, category 21).
+ *
+ * The file consists of the EXTF header line, the column header line and one
+ * line per booking. Fields are separated by semicolons, text fields quoted,
+ * amounts written with a decimal comma and dates without year (DDMM) - the
+ * year comes from the period in the header, so a batch never spans two
+ * fiscal years.
+ */
+
+import type { DatevChart } from "../../../shared/datev";
+import type { DatevBooking } from "./bookings";
+
+export interface ExtfBatchOptions {
+  chart: DatevChart;
+  consultantNumber: string;
+  clientNumber: string;
+  from: Date;
+  to: Date;
+  /** Batch label shown in DATEV (max. 30 characters) */
+  label: string;
+  exportedBy: string;
+  createdAt?: Date;
+}
+
+const EXTF_FORMAT_VERSION = 700;
+const BUCHUNGSSTAPEL_CATEGORY = 21;
+const BUCHUNGSSTAPEL_VERSION = 13;
+const GENERAL_LEDGER_ACCOUNT_LENGTH = 4;
+
+export const EXTF_COLUMNS = [
+  "Umsatz (ohne Soll/Haben-Kz)",
+  "Soll/Haben-Kennzeichen",
+  "WKZ Umsatz",
+  "Kurs",
+  "Basis-Umsatz",
+  "WKZ Basis-Umsatz",
+  "Konto",
+  "Gegenkonto (ohne BU-Schlüssel)",
+  "BU-Schlüssel",
+  "Belegdatum",
+  "Belegfeld 1",
+  "Belegfeld 2",
+  "Skonto",
+  "Buchungstext",
+  "Postensperre",
+  "Diverse Adressnummer",
+  "Geschäftspartnerbank",
+  "Sachverhalt",
+  "Zinssperre",
+  "Beleglink",
+] as const;
+
+type Field = string | number | null;
+
+function pad(value: number, length = 2) {
+  return String(value).padStart(length, "0");
+}
+
+export function formatDatevDate(date: Date) {
+  return `${date.getFullYear()}${pad(date.getMonth() + 1)}${pad(date.getDate())}`;
+}
+
+function formatTimestamp(date: Date) {
+  return `${formatDatevDate(date)}${pad(date.getHours())}${pad(date.getMinutes())}${pad(date.getSeconds())}${pad(date.getMilliseconds(), 3)}`;
+}
+
+export function formatDatevAmount(amount: number) {
+  return amount.toFixed(2).replace(".", ",");
+}
+
+function text(value: string | null | undefined) {
+  return `"${(value ?? "").replace(/"/g, '""')}"`;
+}
+
+function line(fields: Field[]) {
+  return fields.map((field) => (field === null ? "" : String(field))).join(";");
+}
+
+function headerLine(options: ExtfBatchOptions) {
+  const fiscalYearStart = new Date(options.from.getFullYear(), 0, 1);
+  return line([
+    text("EXTF"),
+    EXTF_FORMAT_VERSION,
+    BUCHUNGSSTAPEL_CATEGORY,
+    text("Buchungsstapel"),
+    BUCHUNGSSTAPEL_VERSION,
+    formatTimestamp(options.createdAt ?? new Date()),
+    null,
+    text("RE"),
+    text(options.exportedBy.slice(0, 25)),
+    text(""),
+    options.consultantNumber,
+    options.clientNumber,
+    formatDatevDate(fiscalYearStart),
+    GENERAL_LEDGER_ACCOUNT_LENGTH,
+    formatDatevDate(options.from),
+    formatDatevDate(options.to),
+    text(options.label.slice(0, 30)),
+    text(""),
+    1, // Buchungstyp: Finanzbuchführung
+    0, // Rechnungslegungszweck: unabhängig
+    0, // Festschreibung: keine
+    text("EUR"),
+    null,
+    text(""),
+    null,
+    null,
+    text(options.chart === "SKR04" ? "04" : "03"),
+    null,
+    null,
+    text(""),
+    text(""),
+  ]);
+}
+
+function bookingLine(booking: DatevBooking) {
+  return line([
+    formatDatevAmount(booking.amount),
+    text(booking.side),
+    text(booking.currency),
+    null,
+    null,
+    text(""),
+    booking.account,
+    booking.contraAccount,
+    text(booking.taxKey),
+    `${pad(booking.date.getDate())}${pad(booking.date.getMonth() + 1)}`,
+    text(booking.document),
+    text(""),
+    null,
+    text(booking.text),
+    null,
+    text(""),
+    null,
+    null,
+    null,
+    text(""),
+  ]);
+}
+
+export function buildExtfBuchungsstapel(bookings: DatevBooking[], options: ExtfBatchOptions): string {
+  const lines = [
+    headerLine(options),
+    line([...EXTF_COLUMNS]),
+    ...bookings.map(bookingLine),
+  ];
+  return `${lines.join("\r\n")}\r\n`;
+}
+
+/**
+ * DATEV reads the file as Windows-1252. Characters outside Latin-1 are
+ * replaced so they don't end up as mojibake.
+ */
+export function encodeDatevFile(content: string): Buffer {
+  const latin1 = content.replace(/€/g, "EUR").replace(/[^\u0000-\u00FF]/g, "?");
+  return Buffer.from(latin1, "latin1");
+}
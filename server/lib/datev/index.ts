@@ -0,0 +1,32 @@
+import { formatDatevDate } from "./extf";
+
+export { buildExpenseBooking, buildExpenseBookings, buildInvoiceBookings, expenseDocumentNumber, toDatevDocumentNumber } from "./bookings";
+export type { DatevBooking, DatevExpenseInput, DatevInvoiceInput, DatevInvoiceOptions } from "./bookings";
+export { buildExtfBuchungsstapel, encodeDatevFile, formatDatevDate } from "./extf";
+export type { ExtfBatchOptions } from "./extf";
+export { createZip, ZipWriter } from "./zip";
+export type { ZipEntry } from "./zip";
+
+export const DATEV_RECEIPT_FOLDER = "Belege";
+
+export function datevBatchFileName(from: Date, to: Date) {
+  return `EXTF_Buchungsstapel_${formatDatevDate(from)}_${formatDatevDate(to)}.csv`;
+}
+
+/**
+ * Receipt path inside the ZIP. The Belegfeld 1 prefix lets the tax advisor
+ * find the receipt of a booking; duplicates get a counter appended.
+ */
+export function datevReceiptPath(document: string, filename: string, usedPaths: Set<string>) {
+  const safeName = filename.replace(/[^a-zA-Z0-9._-]/g, "_") || "beleg";
+  const prefix = (document || "ohne-beleg").replace(/\//g, "-");
+  const dot = safeName.lastIndexOf(".");
+  const [stem, extension] = dot > 0 ? [safeName.slice(0, dot), safeName.slice(dot)] : [safeName, ""];
+
+  let path = `${DATEV_RECEIPT_FOLDER}/${prefix}_${stem}${extension}`;
+  for (let counter = 2; usedPaths.has(path); counter++) {
+    path = `${DATEV_RECEIPT_FOLDER}/${prefix}_${stem}-${counter}${extension}`;
+  }
+  usedPaths.add(path);
+  return path;
+}
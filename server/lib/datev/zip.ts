@@ -0,0 +1,128 @@
+/**
+ * Minimal ZIP writer (deflate, no ZIP64) for the DATEV export bundle.
+ */
+
+import { deflateRawSync } from "zlib";
+
+export interface ZipEntry {
+  /** Path inside the archive, "/" separated */
+  name: string;
+  data: Buffer;
+  modifiedAt?: Date;
+}
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+export function crc32(data: Buffer): number {
+  let crc = 0xffffffff;
+  for (let i = 0; i < data.length; i++) {
+    crc = CRC_TABLE[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+function dosDateTime(date: Date) {
+  const time = (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2);
+  const day = ((Math.max(date.getFullYear(), 1980) - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate();
+  return { time, day };
+}
+
+const UTF8_FLAG = 0x0800;
+const DEFLATE = 8;
+const STORE = 0;
+
+/** Offsets and sizes are 32 bit without ZIP64 */
+const MAX_ZIP_OFFSET = 0xffffffff;
+const MAX_ZIP_ENTRIES = 0xffff;
+
+/**
+ * Writes a ZIP archive entry by entry, so large bundles can be streamed
+ * without holding every file in memory. Only the central directory is kept
+ * until finish().
+ */
+export class ZipWriter {
+  private centralParts: Buffer[] = [];
+  private offset = 0;
+  private count = 0;
+  private finished = false;
+
+  constructor(private readonly write: (chunk: Buffer) => void) {}
+
+  add(entry: ZipEntry) {
+    if (this.finished) throw new Error("The ZIP file is already finished");
+    const name = Buffer.from(entry.name, "utf8");
+    const deflated = deflateRawSync(entry.data);
+    // Already compressed files (PDF, JPEG) often don't shrink any further
+    const useDeflate = deflated.length < entry.data.length;
+    const content = useDeflate ? deflated : entry.data;
+    const crc = crc32(entry.data);
+    const { time, day } = dosDateTime(entry.modifiedAt ?? new Date());
+
+    if (this.count + 1 > MAX_ZIP_ENTRIES || this.offset + 30 + name.length + content.length > MAX_ZIP_OFFSET) {
+      throw new Error("The ZIP file would exceed 4 GB or 65535 files");
+    }
+
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(0x04034b50, 0);
+    local.writeUInt16LE(20, 4);
+    local.writeUInt16LE(UTF8_FLAG, 6);
+    local.writeUInt16LE(useDeflate ? DEFLATE : STORE, 8);
+    local.writeUInt16LE(time, 10);
+    local.writeUInt16LE(day, 12);
+    local.writeUInt32LE(crc, 14);
+    local.writeUInt32LE(content.length, 18);
+    local.writeUInt32LE(entry.data.length, 22);
+    local.writeUInt16LE(name.length, 26);
+    local.writeUInt16LE(0, 28);
+
+    const central = Buffer.alloc(46);
+    central.writeUInt32LE(0x02014b50, 0);
+    central.writeUInt16LE(20, 4);
+    central.writeUInt16LE(20, 6);
+    central.writeUInt16LE(UTF8_FLAG, 8);
+    central.writeUInt16LE(useDeflate ? DEFLATE : STORE, 10);
+    central.writeUInt16LE(time, 12);
+    central.writeUInt16LE(day, 14);
+    central.writeUInt32LE(crc, 16);
+    central.writeUInt32LE(content.length, 20);
+    central.writeUInt32LE(entry.data.length, 24);
+    central.writeUInt16LE(name.length, 28);
+    central.writeUInt32LE(this.offset, 42);
+
+    this.write(Buffer.concat([local, name, content]));
+    this.centralParts.push(central, name);
+    this.offset += local.length + name.length + content.length;
+    this.count++;
+  }
+
+  /** Write the central directory; no entries can be added afterwards */
+  finish() {
+    this.finished = true;
+    const centralDirectory = Buffer.concat(this.centralParts);
+    const end = Buffer.alloc(22);
+    end.writeUInt32LE(0x06054b50, 0);
+    end.writeUInt16LE(this.count, 8);
+    end.writeUInt16LE(this.count, 10);
+    end.writeUInt32LE(centralDirectory.length, 12);
+    end.writeUInt32LE(this.offset, 16);
+    this.write(Buffer.concat([centralDirectory, end]));
+  }
+}
+
+export function createZip(entries: ZipEntry[]): Buffer {
+  const parts: Buffer[] = [];
+  const writer = new ZipWriter((chunk) => parts.push(chunk));
+  for (const entry of entries) writer.add(entry);
+  writer.finish();
+  return Buffer.concat(parts);
+}
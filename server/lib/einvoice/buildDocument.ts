@@ -0,0 +1,261 @@
+import type { CompanySettings, Contact, Invoice, InvoiceItem } from "../../../drizzle/schema";
+import type { EInvoiceDocument, EInvoiceLine, EInvoiceTaxSubtotal, VatCategoryCode } from "./types";
+import { calculateVatBreakdown, resolveLineVat, type InvoiceVatCategory } from "../../../shared/invoiceVat";
+
+export const KLEINUNTERNEHMER_EXEMPTION_REASON =
+  "Kein Ausweis von Umsatzsteuer, da Kleinunternehmer gemäß § 19 UStG";
+
+/** UNTDID 5305 code per app VAT category */
+const VAT_CATEGORY_CODES: Record<InvoiceVatCategory, VatCategoryCode> = {
+  standard: "S",
+  zero: "Z",
+  reverse_charge: "AE",
+  intra_eu: "K",
+};
+
+/** BT-120 exemption reasons; category Z must not carry one (BR-Z-10) */
+const EXEMPTION_REASONS: Partial<Record<VatCategoryCode, string>> = {
+  AE: "Steuerschuldnerschaft des Leistungsempfängers (§ 13b UStG)",
+  K: "Steuerfreie innergemeinschaftliche Lieferung (§ 4 Nr. 1b UStG)",
+};
+
+const COUNTRY_CODES: Record<string, string> = {
+  de: "DE",
+  deutschland: "DE",
+  germany: "DE",
+  at: "AT",
+  österreich: "AT",
+  oesterreich: "AT",
+  austria: "AT",
+  ch: "CH",
+  schweiz: "CH",
+  switzerland: "CH",
+  nl: "NL",
+  niederlande: "NL",
+  netherlands: "NL",
+  fr: "FR",
+  frankreich: "FR",
+  france: "FR",
+  be: "BE",
+  belgien: "BE",
+  belgium: "BE",
+  lu: "LU",
+  luxemburg: "LU",
+  luxembourg: "LU",
+  dk: "DK",
+  dänemark: "DK",
+  denmark: "DK",
+  pl: "PL",
+  polen: "PL",
+  poland: "PL",
+  it: "IT",
+  italien: "IT",
+  italy: "IT",
+  es: "ES",
+  spanien: "ES",
+  spain: "ES",
+};
+
+/**
+ * Map a free-text country (as stored in settings/contacts) to ISO 3166-1 alpha-2.
+ * Empty values default to DE since the app issues German invoices.
+ * Returns null for values that cannot be mapped.
+ */
+export function toCountryCode(country?: string | null): string | null {
+  const trimmed = country?.trim();
+  if (!trimmed) return "DE";
+  const known = COUNTRY_CODES[trimmed.toLowerCase()];
+  if (known) return known;
+  return /^[A-Za-z]{2}$/.test(trimmed) ? trimmed.toUpperCase() : null;
+}
+
+function storedLineVat(item: InvoiceItem): { vatRate: number | null; vatCategory: InvoiceVatCategory } {
+  return {
+    vatRate: item.vatRate === null || item.vatRate === undefined ? null : Number(item.vatRate),
+    vatCategory: item.vatCategory ?? "standard",
+  };
+}
+
+function round2(value: number) {
+  return Math.round((value + Number.EPSILON) * 100) / 100;
+}
+
+function joinStreet(name?: string | null, number?: string | null) {
+  const street = [name, number].filter((part) => part && part.trim()).join(" ").trim();
+  return street || null;
+}
+
+type ContactForEInvoice = Pick<
+  Contact,
+  | "name"
+  | "contactPerson"
+  | "email"
+  | "phone"
+  | "phoneNumber"
+  | "streetName"
+  | "streetNumber"
+  | "postalCode"
+  | "city"
+  | "country"
+  | "vatNumber"
+  | "leitwegId"
+> & { emails?: Array<{ label: string; value: string }> | null };
+
+type CompanyForEInvoice = Pick<
+  CompanySettings,
+  | "companyName"
+  | "streetName"
+  | "streetNumber"
+  | "postalCode"
+  | "city"
+  | "country"
+  | "email"
+  | "phone"
+  | "steuernummer"
+  | "ustIdNr"
+  | "iban"
+  | "bic"
+  | "isKleinunternehmer"
+  | "vatRate"
+  | "invoiceAccountHolderName"
+>;
+
+type InvoiceForEInvoice = Invoice & { items: InvoiceItem[] };
+
+export interface BuildEInvoiceInput {
+  invoice: InvoiceForEInvoice;
+  company: CompanyForEInvoice;
+  contact: ContactForEInvoice | null;
+  /** Invoice number of the original invoice when exporting a cancellation */
+  precedingInvoiceNumber?: string | null;
+}
+
+/**
+ * Map stored invoice records to the syntax-neutral EN 16931 model.
+ *
+ * Cancellation invoices are stored with negative amounts; they are exported as
+ * credit notes (type 381) with positive amounts referencing the original invoice.
+ */
+export function buildEInvoiceDocument({
+  invoice,
+  company,
+  contact,
+  precedingInvoiceNumber,
+}: BuildEInvoiceInput): EInvoiceDocument {
+  const isCreditNote = invoice.type === "cancellation";
+  const sign = isCreditNote ? -1 : 1;
+
+  const defaultRate = Number(company.vatRate ?? 0);
+
+  const lines: EInvoiceLine[] = (invoice.items || []).map((item: InvoiceItem, index: number) => {
+    const quantity = sign * Number(item.quantity ?? 0);
+    const unitPrice = Number(item.unitPrice ?? 0);
+    const lineVat = resolveLineVat(storedLineVat(item), defaultRate);
+    const vatCategory: VatCategoryCode = company.isKleinunternehmer ? "E" : VAT_CATEGORY_CODES[lineVat.category];
+    return {
+      id: String(index + 1),
+      name: item.name,
+      description: item.description ?? null,
+      quantity,
+      unitCode: "C62",
+      unitPrice,
+      netAmount: round2(sign * Number(item.lineTotal ?? quantity * unitPrice)),
+      vatCategory,
+      vatRate: company.isKleinunternehmer ? 0 : lineVat.rate,
+    };
+  });
+
+  const lineTotal = round2(lines.reduce((sum, line) => sum + line.netAmount, 0));
+  const taxAmount = round2(sign * Number(invoice.vatAmount ?? 0));
+  const taxSubtotals: EInvoiceTaxSubtotal[] = company.isKleinunternehmer
+    ? [
+        {
+          category: "E",
+          rate: 0,
+          taxableAmount: lineTotal,
+          taxAmount: 0,
+          exemptionReason: KLEINUNTERNEHMER_EXEMPTION_REASON,
+        },
+      ]
+    : calculateVatBreakdown(
+        (invoice.items || []).map((item: InvoiceItem, index: number) => ({
+          ...storedLineVat(item),
+          lineTotal: lines[index].netAmount,
+        })),
+        { defaultRate }
+      ).map((entry) => {
+        const category = VAT_CATEGORY_CODES[entry.category];
+        return {
+          category,
+          rate: entry.rate,
+          taxableAmount: entry.netAmount,
+          taxAmount: entry.vatAmount,
+          exemptionReason: EXEMPTION_REASONS[category] ?? null,
+        };
+      });
+
+  const taxInclusive = round2(lineTotal + taxAmount);
+  const prepaid = isCreditNote ? 0 : round2(Number(invoice.amountPaid ?? 0));
+
+  const buyerEmail = contact?.email?.trim() || contact?.emails?.find((entry) => entry.value?.trim())?.value?.trim() || null;
+
+  return {
+    typeCode: isCreditNote ? "381" : "380",
+    number: invoice.invoiceNumber ?? "",
+    issueDate: invoice.issueDate,
+    dueDate: invoice.dueDate,
+    currency: invoice.items?.[0]?.currency || "EUR",
+    buyerReference: contact?.leitwegId?.trim() || invoice.referenceNumber?.trim() || null,
+    precedingInvoiceNumber: precedingInvoiceNumber ?? null,
+    servicePeriodStart: invoice.servicePeriodStart,
+    servicePeriodEnd: invoice.servicePeriodEnd,
+    note: invoice.notes?.trim() || null,
+    paymentTerms: invoice.terms?.trim() || null,
+    seller: {
+      name: company.companyName,
+      address: {
+        street: joinStreet(company.streetName, company.streetNumber),
+        postalCode: company.postalCode,
+        city: company.city,
+        countryCode: toCountryCode(company.country),
+      },
+      vatId: company.ustIdNr?.trim() || null,
+      taxNumber: company.steuernummer?.trim() || null,
+      electronicAddress: company.email?.trim() || null,
+      contactName: company.invoiceAccountHolderName?.trim() || company.companyName,
+      contactPhone: company.phone?.trim() || null,
+      contactEmail: company.email?.trim() || null,
+    },
+    buyer: {
+      name: contact?.name ?? null,
+      address: {
+        street: joinStreet(contact?.streetName, contact?.streetNumber),
+        postalCode: contact?.postalCode ?? null,
+        city: contact?.city ?? null,
+        countryCode: contact ? toCountryCode(contact.country) : null,
+      },
+      vatId: contact?.vatNumber?.trim() || null,
+      electronicAddress: buyerEmail,
+      contactName: contact?.contactPerson?.trim() || null,
+      contactPhone: contact?.phone?.trim() || contact?.phoneNumber?.trim() || null,
+      contactEmail: buyerEmail,
+    },
+    payment: {
+      meansCode: "58",
+      iban: company.iban?.replace(/\s+/g, "") || null,
+      bic: company.bic?.trim() || null,
+      accountName: company.invoiceAccountHolderName?.trim() || company.companyName,
+      reference: invoice.invoiceNumber,
+    },
+    lines,
+    taxSubtotals,
+    totals: {
+      lineTotal,
+      taxExclusive: lineTotal,
+      taxAmount,
+      taxInclusive,
+      prepaid,
+      payable: round2(taxInclusive - prepaid),
+    },
+  };
+}
@@ -0,0 +1,164 @@
+import type { EInvoiceDocument, EInvoiceParty } from "./types";
+import { amount, ciiDate, decimal, leaf, node, renderXmlDocument, type XmlChild } from "./xml";
+import { XRECHNUNG_CUSTOMIZATION_ID, PEPPOL_BILLING_PROFILE_ID } from "./constants";
+
+const RSM_NS = "urn:un:unece:uncefact:data:standard:CrossIndustryInvoice:100";
+const RAM_NS = "urn:un:unece:uncefact:data:standard:ReusableAggregateBusinessInformationEntity:100";
+const QDT_NS = "urn:un:unece:uncefact:data:standard:QualifiedDataType:100";
+const UDT_NS = "urn:un:unece:uncefact:data:standard:UnqualifiedDataType:100";
+
+export interface CiiRenderOptions {
+  /** BT-24 guideline; defaults to XRechnung, ZUGFeRD passes its profile URN */
+  guidelineId?: string;
+  /** BT-23 business process; omitted when null */
+  businessProcessId?: string | null;
+}
+
+function dateTime(name: string, date: Date | null | undefined) {
+  if (!date) return null;
+  return node(name, [leaf("udt:DateTimeString", ciiDate(date), { format: "102" })]);
+}
+
+function tradeParty(name: string, data: EInvoiceParty, isSeller: boolean) {
+  return node(name, [
+    leaf("ram:Name", data.name),
+    node("ram:DefinedTradeContact", [
+      leaf("ram:PersonName", data.contactName),
+      node("ram:TelephoneUniversalCommunication", [leaf("ram:CompleteNumber", data.contactPhone)]),
+      node("ram:EmailURIUniversalCommunication", [leaf("ram:URIID", data.contactEmail)]),
+    ]),
+    node("ram:PostalTradeAddress", [
+      leaf("ram:PostcodeCode", data.address.postalCode),
+      leaf("ram:LineOne", data.address.street),
+      leaf("ram:CityName", data.address.city),
+      leaf("ram:CountryID", data.address.countryCode),
+    ]),
+    node("ram:URIUniversalCommunication", [leaf("ram:URIID", data.electronicAddress, { schemeID: "EM" })]),
+    data.vatId ? node("ram:SpecifiedTaxRegistration", [leaf("ram:ID", data.vatId, { schemeID: "VA" })]) : null,
+    isSeller && data.taxNumber
+      ? node("ram:SpecifiedTaxRegistration", [leaf("ram:ID", data.taxNumber, { schemeID: "FC" })])
+      : null,
+  ]);
+}
+
+/**
+ * Serialize the document as UN/CEFACT Cross Industry Invoice (D16B),
+ * the syntax shared by XRechnung-CII and ZUGFeRD/Factur-X.
+ */
+export function renderCiiXml(doc: EInvoiceDocument, options: CiiRenderOptions = {}): string {
+  const guidelineId = options.guidelineId ?? XRECHNUNG_CUSTOMIZATION_ID;
+  const businessProcessId =
+    options.businessProcessId === undefined ? PEPPOL_BILLING_PROFILE_ID : options.businessProcessId;
+  const currency = { currencyID: doc.currency };
+
+  const lineItems: XmlChild[] = doc.lines.map((line) =>
+    node("ram:IncludedSupplyChainTradeLineItem", [
+      node("ram:AssociatedDocumentLineDocument", [leaf("ram:LineID", line.id)]),
+      node("ram:SpecifiedTradeProduct", [leaf("ram:Name", line.name), leaf("ram:Description", line.description)]),
+      node("ram:SpecifiedLineTradeAgreement", [
+        node("ram:NetPriceProductTradePrice", [leaf("ram:ChargeAmount", amount(line.unitPrice))]),
+      ]),
+      node("ram:SpecifiedLineTradeDelivery", [
+        leaf("ram:BilledQuantity", decimal(line.quantity), { unitCode: line.unitCode }),
+      ]),
+      node("ram:SpecifiedLineTradeSettlement", [
+        node("ram:ApplicableTradeTax", [
+          leaf("ram:TypeCode", "VAT"),
+          leaf("ram:CategoryCode", line.vatCategory),
+          leaf("ram:RateApplicablePercent", decimal(line.vatRate)),
+        ]),
+        node("ram:SpecifiedTradeSettlementLineMonetarySummation", [
+          leaf("ram:LineTotalAmount", amount(line.netAmount)),
+        ]),
+      ]),
+    ])
+  );
+
+  const root = node(
+    "rsm:CrossIndustryInvoice",
+    [
+      node("rsm:ExchangedDocumentContext", [
+        businessProcessId
+          ? node("ram:BusinessProcessSpecifiedDocumentContextParameter", [leaf("ram:ID", businessProcessId)])
+          : null,
+        node("ram:GuidelineSpecifiedDocumentContextParameter", [leaf("ram:ID", guidelineId)]),
+      ]),
+      node("rsm:ExchangedDocument", [
+        leaf("ram:ID", doc.number),
+        leaf("ram:TypeCode", doc.typeCode),
+        dateTime("ram:IssueDateTime", doc.issueDate),
+        node("ram:IncludedNote", [leaf("ram:Content", doc.note)]),
+      ]),
+      node("rsm:SupplyChainTradeTransaction", [
+        ...lineItems,
+        node("ram:ApplicableHeaderTradeAgreement", [
+          leaf("ram:BuyerReference", doc.buyerReference),
+          tradeParty("ram:SellerTradeParty", doc.seller, true),
+          tradeParty("ram:BuyerTradeParty", doc.buyer, false),
+        ]),
+        node("ram:ApplicableHeaderTradeDelivery", [
+          doc.servicePeriodEnd || doc.servicePeriodStart
+            ? node("ram:ActualDeliverySupplyChainEvent", [
+                dateTime("ram:OccurrenceDateTime", doc.servicePeriodEnd ?? doc.servicePeriodStart),
+              ])
+            : null,
+        ]) ?? { name: "ram:ApplicableHeaderTradeDelivery" },
+        node("ram:ApplicableHeaderTradeSettlement", [
+          leaf("ram:PaymentReference", doc.payment.reference),
+          leaf("ram:InvoiceCurrencyCode", doc.currency),
+          node("ram:SpecifiedTradeSettlementPaymentMeans", [
+            leaf("ram:TypeCode", doc.payment.meansCode),
+            node("ram:PayeePartyCreditorFinancialAccount", [
+              leaf("ram:IBANID", doc.payment.iban),
+              leaf("ram:AccountName", doc.payment.iban ? doc.payment.accountName : null),
+            ]),
+            node("ram:PayeeSpecifiedCreditorFinancialInstitution", [
+              leaf("ram:BICID", doc.payment.iban ? doc.payment.bic : null),
+            ]),
+          ]),
+          ...doc.taxSubtotals.map((subtotal) =>
+            node("ram:ApplicableTradeTax", [
+              leaf("ram:CalculatedAmount", amount(subtotal.taxAmount)),
+              leaf("ram:TypeCode", "VAT"),
+              leaf("ram:ExemptionReason", subtotal.exemptionReason),
+              leaf("ram:BasisAmount", amount(subtotal.taxableAmount)),
+              leaf("ram:CategoryCode", subtotal.category),
+              leaf("ram:RateApplicablePercent", decimal(subtotal.rate)),
+            ])
+          ),
+          doc.servicePeriodStart
+            ? node("ram:BillingSpecifiedPeriod", [
+                dateTime("ram:StartDateTime", doc.servicePeriodStart),
+                dateTime("ram:EndDateTime", doc.servicePeriodEnd ?? doc.servicePeriodStart),
+              ])
+            : null,
+          node("ram:SpecifiedTradePaymentTerms", [
+            leaf("ram:Description", doc.paymentTerms),
+            dateTime("ram:DueDateDateTime", doc.dueDate),
+          ]),
+          node("ram:SpecifiedTradeSettlementHeaderMonetarySummation", [
+            leaf("ram:LineTotalAmount", amount(doc.totals.lineTotal)),
+            leaf("ram:TaxBasisTotalAmount", amount(doc.totals.taxExclusive)),
+            leaf("ram:TaxTotalAmount", amount(doc.totals.taxAmount), currency),
+            leaf("ram:GrandTotalAmount", amount(doc.totals.taxInclusive)),
+            doc.totals.prepaid > 0 ? leaf("ram:TotalPrepaidAmount", amount(doc.totals.prepaid)) : null,
+            leaf("ram:DuePayableAmount", amount(doc.totals.payable)),
+          ]),
+          doc.precedingInvoiceNumber
+            ? node("ram:InvoiceReferencedDocument", [leaf("ram:IssuerAssignedID", doc.precedingInvoiceNumber)])
+            : null,
+        ]),
+      ]),
+    ],
+    {
+      "xmlns:rsm": RSM_NS,
+      "xmlns:ram": RAM_NS,
+      "xmlns:qdt": QDT_NS,
+      "xmlns:udt": UDT_NS,
+    }
+  );
+  if (!root) {
+    throw new Error("Failed to build CII document");
+  }
+  return renderXmlDocument(root);
+}
@@ -0,0 +1,6 @@
+/** BT-24 specification identifier for XRechnung 3.0 (CIUS of EN 16931) */
+export const XRECHNUNG_CUSTOMIZATION_ID =
+  "urn:cen.eu:en16931:2017#compliant#urn:xeinkauf.de:kosit:xrechnung_3.0";
+
+/** BT-23 business process type required by XRechnung */
+export const PEPPOL_BILLING_PROFILE_ID = "urn:fdc:peppol.eu:2017:poacc:billing:01:1.0";
@@ -0,0 +1,271 @@
+import { describe, expect, it } from "vitest";
+import { PDFDocument, PDFName, PDFDict, PDFArray } from "pdf-lib";
+import { buildEInvoiceDocument, toCountryCode } from "./buildDocument";
+import { renderUblXml } from "./ubl";
+import { renderCiiXml } from "./cii";
+import { embedFacturX, FACTURX_EN16931_GUIDELINE_ID, FACTURX_FILENAME } from "./facturx";
+import { buildSrgbIccProfile } from "./iccProfile";
+import { evaluateEInvoiceCompleteness } from "../completeness/en16931";
+import { buildCompanySnapshot, buildInvoiceSnapshot, buildSettingsSnapshot } from "../completeness/ice";
+
+const company = {
+  companyName: "Mantodeus GmbH",
+  streetName: "Hauptstraße",
+  streetNumber: "1",
+  postalCode: "10115",
+  city: "Berlin",
+  country: "Deutschland",
+  address: "Hauptstraße 1\n10115 Berlin",
+  email: "rechnung@mantodeus.de",
+  phone: "+49 30 123456",
+  steuernummer: "12/345/67890",
+  ustIdNr: "DE123456789",
+  iban: "DE02 1203 0000 0000 2020 51",
+  bic: "BYLADEM1001",
+  isKleinunternehmer: false,
+  vatRate: "19.00",
+  invoiceAccountHolderName: "Max Mustermann",
+};
+
+const contact = {
+  name: "Bezirksamt Mitte",
+  contactPerson: null,
+  email: "einkauf@bezirksamt.example",
+  phone: null,
+  phoneNumber: null,
+  streetName: "Karl-Marx-Allee",
+  streetNumber: "31",
+  postalCode: "10178",
+  city: "Berlin",
+  country: "DE",
+  vatNumber: null,
+  leitwegId: "991-01234-56",
+  address: "Karl-Marx-Allee 31, 10178 Berlin",
+  emails: null,
+};
+
+function makeInvoice(overrides: Record<string, unknown> = {}) {
+  return {
+    id: 1,
+    userId: 1,
+    invoiceNumber: "RE-2025-001",
+    type: "standard",
+    issueDate: new Date(2025, 2, 1),
+    dueDate: new Date(2025, 2, 15),
+    servicePeriodStart: new Date(2025, 1, 1),
+    servicePeriodEnd: new Date(2025, 1, 28),
+    notes: null,
+    terms: "Zahlbar innerhalb von 14 Tagen",
+    referenceNumber: null,
+    subtotal: "150.00",
+    vatAmount: "28.50",
+    total: "178.50",
+    amountPaid: "0.00",
+    items: [
+      { name: "Fassadeninspektion", description: null, quantity: "2.00", unitPrice: "50.00", lineTotal: "100.00", currency: "EUR" },
+      { name: "Anfahrt", description: "Pauschale", quantity: "1.00", unitPrice: "50.00", lineTotal: "50.00", currency: "EUR" },
+    ],
+    ...overrides,
+  } as any;
+}
+
+function evaluate(
+  invoice: any,
+  doc: ReturnType<typeof buildEInvoiceDocument>,
+  profile?: "xrechnung" | "en16931"
+) {
+  return evaluateEInvoiceCompleteness(
+    doc,
+    buildInvoiceSnapshot(invoice, contact),
+    buildCompanySnapshot(company),
+    buildSettingsSnapshot(company),
+    { profile }
+  );
+}
+
+describe("toCountryCode", () => {
+  it("maps common country names and defaults empty values to DE", () => {
+    expect(toCountryCode("Deutschland")).toBe("DE");
+    expect(toCountryCode("austria")).toBe("AT");
+    expect(toCountryCode("nl")).toBe("NL");
+    expect(toCountryCode("")).toBe("DE");
+    expect(toCountryCode("Atlantis")).toBeNull();
+  });
+});
+
+describe("buildEInvoiceDocument", () => {
+  it("maps totals, VAT breakdown and the Leitweg-ID", () => {
+    const doc = buildEInvoiceDocument({ invoice: makeInvoice(), company, contact });
+
+    expect(doc.typeCode).toBe("380");
+    expect(doc.buyerReference).toBe("991-01234-56");
+    expect(doc.payment.iban).toBe("DE02120300000000202051");
+    expect(doc.taxSubtotals).toEqual([
+      { category: "S", rate: 19, taxableAmount: 150, taxAmount: 28.5, exemptionReason: null },
+    ]);
+    expect(doc.totals).toMatchObject({ lineTotal: 150, taxInclusive: 178.5, payable: 178.5 });
+  });
+
+  it("exports cancellations as credit notes with positive amounts", () => {
+    const invoice = makeInvoice({
+      type: "cancellation",
+      subtotal: "-150.00",
+      vatAmount: "-28.50",
+      total: "-178.50",
+      items: [
+        { name: "Fassadeninspektion", description: null, quantity: "-3.00", unitPrice: "50.00", lineTotal: "-150.00", currency: "EUR" },
+      ],
+    });
+    const doc = buildEInvoiceDocument({ invoice, company, contact, precedingInvoiceNumber: "RE-2025-001" });
+
+    expect(doc.typeCode).toBe("381");
+    expect(doc.lines[0]).toMatchObject({ quantity: 3, netAmount: 150 });
+    expect(doc.totals.taxInclusive).toBe(178.5);
+    expect(renderUblXml(doc)).toContain("<ubl:CreditNote");
+  });
+
+  it("builds one VAT subtotal per line rate and category", () => {
+    const invoice = makeInvoice({
+      subtotal: "170.00",
+      vatAmount: "22.50",
+      total: "192.50",
+      items: [
+        { name: "Fassadeninspektion", quantity: "2.00", unitPrice: "50.00", lineTotal: "100.00", vatRate: "19.00", vatCategory: "standard" },
+        { name: "Fachbuch", quantity: "1.00", unitPrice: "50.00", lineTotal: "50.00", vatRate: "7.00", vatCategory: "standard" },
+        { name: "Montage", quantity: "1.00", unitPrice: "20.00", lineTotal: "20.00", vatRate: null, vatCategory: "reverse_charge" },
+      ],
+    });
+    const doc = buildEInvoiceDocument({ invoice, company, contact });
+
+    expect(doc.lines.map((line) => [line.vatCategory, line.vatRate])).toEqual([
+      ["S", 19],
+      ["S", 7],
+      ["AE", 0],
+    ]);
+    expect(doc.taxSubtotals.map((subtotal) => [subtotal.category, subtotal.rate, subtotal.taxAmount])).toEqual([
+      ["S", 19, 19],
+      ["S", 7, 3.5],
+      ["AE", 0, 0],
+    ]);
+  });
+});
+
+describe("XRechnung serializers", () => {
+  it("renders UBL with the XRechnung customization and escaped values", () => {
+    const invoice = makeInvoice({ notes: "Danke & bis bald <3" });
+    const xml = renderUblXml(buildEInvoiceDocument({ invoice, company, contact }));
+
+    expect(xml).toContain("urn:xeinkauf.de:kosit:xrechnung_3.0");
+    expect(xml).toContain("<cbc:BuyerReference>991-01234-56</cbc:BuyerReference>");
+    expect(xml).toContain('<cbc:PayableAmount currencyID="EUR">178.50</cbc:PayableAmount>');
+    expect(xml).toContain("Danke &amp; bis bald &lt;3");
+    expect(xml).not.toMatch(/<cbc:[A-Za-z]+\/>/);
+  });
+
+  it("renders CII with line items and header summation", () => {
+    const xml = renderCiiXml(buildEInvoiceDocument({ invoice: makeInvoice(), company, contact }));
+
+    expect(xml).toContain("<rsm:CrossIndustryInvoice");
+    expect(xml).toContain('<udt:DateTimeString format="102">20250301</udt:DateTimeString>');
+    expect(xml.match(/<ram:IncludedSupplyChainTradeLineItem>/g)).toHaveLength(2);
+    expect(xml).toContain("<ram:GrandTotalAmount>178.50</ram:GrandTotalAmount>");
+  });
+});
+
+describe("evaluateEInvoiceCompleteness", () => {
+  it("passes a complete invoice", () => {
+    const invoice = makeInvoice();
+    const result = evaluate(invoice, buildEInvoiceDocument({ invoice, company, contact }));
+
+    expect(result.blockers).toEqual([]);
+    expect(result.percent).toBe(100);
+  });
+
+  it("reports missing EN 16931 fields as blockers", () => {
+    const invoice = makeInvoice();
+    const doc = buildEInvoiceDocument({
+      invoice,
+      company: { ...company, phone: null, iban: null },
+      contact: { ...contact, leitwegId: null, email: null },
+    });
+    const ruleIds = evaluate(invoice, doc).blockers.map((blocker) => blocker.ruleId);
+
+    expect(ruleIds).toEqual(expect.arrayContaining(["BR-DE-6", "BR-DE-23", "BR-DE-15", "BR-DE-28"]));
+  });
+
+  it("only applies the German CIUS rules to XRechnung", () => {
+    const invoice = makeInvoice();
+    const doc = buildEInvoiceDocument({
+      invoice,
+      company: { ...company, phone: null },
+      contact: { ...contact, leitwegId: null, email: null },
+    });
+
+    expect(evaluate(invoice, doc, "en16931").blockers).toEqual([]);
+  });
+
+  it("blocks when the stored VAT amount does not match the line VAT", () => {
+    const invoice = makeInvoice({ vatAmount: "0.00", total: "150.00" });
+    const result = evaluate(invoice, buildEInvoiceDocument({ invoice, company, contact }));
+
+    expect(result.blockers.map((blocker) => blocker.ruleId)).toContain("BR-CO-14");
+    expect(result.allowedActions).not.toContain("SEND");
+  });
+
+  it("requires the client VAT ID on reverse-charge invoices", () => {
+    const invoice = makeInvoice({
+      vatAmount: "0.00",
+      total: "150.00",
+      items: [
+        { name: "Trockenbau", description: null, quantity: "1.00", unitPrice: "150.00", lineTotal: "150.00", currency: "EUR", vatCategory: "reverse_charge", vatRate: 0 },
+      ],
+    });
+    const missing = evaluate(invoice, buildEInvoiceDocument({ invoice, company, contact }));
+    expect(missing.blockers.map((blocker) => blocker.ruleId)).toContain("RECIPIENT_VAT_ID_MISSING");
+
+    const withVatId = { ...contact, vatNumber: "DE987654321" };
+    const result = evaluateEInvoiceCompleteness(
+      buildEInvoiceDocument({ invoice, company, contact: withVatId }),
+      buildInvoiceSnapshot(invoice, withVatId),
+      buildCompanySnapshot(company),
+      buildSettingsSnapshot(company)
+    );
+    expect(result.blockers.map((blocker) => blocker.ruleId)).not.toContain("RECIPIENT_VAT_ID_MISSING");
+  });
+});
+
+describe("embedFacturX", () => {
+  it("builds a valid sRGB ICC header", () => {
+    const profile = buildSrgbIccProfile();
+
+    expect(profile.readUInt32BE(0)).toBe(profile.length);
+    expect(profile.toString("latin1", 36, 40)).toBe("acsp");
+    expect(profile.toString("latin1", 16, 20)).toBe("RGB ");
+  });
+
+  it("embeds the CII as factur-x.xml with PDF/A-3 metadata", async () => {
+    const source = await PDFDocument.create();
+    source.addPage();
+    const xml = renderCiiXml(buildEInvoiceDocument({ invoice: makeInvoice(), company, contact }), {
+      guidelineId: FACTURX_EN16931_GUIDELINE_ID,
+      businessProcessId: null,
+    });
+
+    const hybrid = await embedFacturX(await source.save(), xml, {
+      title: "Rechnung RE-2025-001",
+      author: "Mantodeus GmbH",
+      creator: "Mantodeus Manager",
+      createdAt: new Date(Date.UTC(2025, 2, 1, 12)),
+    });
+    const pdf = await PDFDocument.load(hybrid, { updateMetadata: false });
+    const catalog = pdf.catalog;
+    const names = catalog.lookup(PDFName.of("Names"), PDFDict).lookup(PDFName.of("EmbeddedFiles"), PDFDict);
+
+    expect(names.lookup(PDFName.of("Names"), PDFArray).size()).toBe(2);
+    expect(catalog.lookup(PDFName.of("AF"), PDFArray).size()).toBe(1);
+    expect(catalog.lookup(PDFName.of("OutputIntents"), PDFArray).size()).toBe(1);
+    expect(pdf.getTitle()).toBe("Rechnung RE-2025-001");
+    expect(Buffer.from(hybrid).toString("latin1")).toContain(`<fx:DocumentFileName>${FACTURX_FILENAME}</fx:DocumentFileName>`);
+    expect(xml).not.toContain("BusinessProcessSpecifiedDocumentContextParameter");
+  });
+});
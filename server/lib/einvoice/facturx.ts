@@ -0,0 +1,143 @@
+import { createHash } from "crypto";
+import { AFRelationship, PDFDocument, PDFHexString, PDFName, PDFString } from "pdf-lib";
+import { escapeXml } from "./xml";
+import { buildSrgbIccProfile } from "./iccProfile";
+
+/** File name mandated by Factur-X 1.0 / ZUGFeRD 2.x for the embedded CII */
+export const FACTURX_FILENAME = "factur-x.xml";
+
+/** BT-24 guideline for the ZUGFeRD EN 16931 ("COMFORT") profile */
+export const FACTURX_EN16931_GUIDELINE_ID = "urn:cen.eu:en16931:2017";
+
+export const FACTURX_CONFORMANCE_LEVEL = "EN 16931";
+
+const FACTURX_NAMESPACE = "urn:factur-x:pdfa:CrossIndustryDocument:invoice:1p0#";
+const OUTPUT_CONDITION = "sRGB IEC61966-2.1";
+
+export interface FacturXMetadata {
+  title: string;
+  author: string;
+  /** Application name written as Creator / xmp:CreatorTool */
+  creator: string;
+  createdAt: Date;
+}
+
+/** XMP dates must match the Info dictionary, which pdf-lib writes in UTC with second precision */
+function xmpDate(date: Date) {
+  return date.toISOString().replace(/\.\d{3}Z$/, "Z");
+}
+
+function extensionProperty(name: string, description: string) {
+  return `            <rdf:li rdf:parseType="Resource">
+              <pdfaProperty:name>${name}</pdfaProperty:name>
+              <pdfaProperty:valueType>Text</pdfaProperty:valueType>
+              <pdfaProperty:category>external</pdfaProperty:category>
+              <pdfaProperty:description>${description}</pdfaProperty:description>
+            </rdf:li>`;
+}
+
+/**
+ * XMP packet declaring PDF/A-3B conformance plus the Factur-X extension
+ * schema, which is how receivers detect the embedded invoice profile.
+ */
+export function buildFacturXXmp(metadata: FacturXMetadata & { producer: string }): string {
+  const date = xmpDate(metadata.createdAt);
+  return `<?xpacket begin="\uFEFF" id="W5M0MpCehiHzreSzNTczkc9d"?>
+<x:xmpmeta xmlns:x="adobe:ns:meta/">
+  <rdf:RDF xmlns:rdf="http://www.w3.org/1999/02/22-rdf-syntax-ns#">
+    <rdf:Description rdf:about="" xmlns:pdfaid="http://www.aiim.org/pdfa/ns/id/">
+      <pdfaid:part>3</pdfaid:part>
+      <pdfaid:conformance>B</pdfaid:conformance>
+    </rdf:Description>
+    <rdf:Description rdf:about="" xmlns:dc="http://purl.org/dc/elements/1.1/">
+      <dc:format>application/pdf</dc:format>
+      <dc:title><rdf:Alt><rdf:li xml:lang="x-default">${escapeXml(metadata.title)}</rdf:li></rdf:Alt></dc:title>
+      <dc:creator><rdf:Seq><rdf:li>${escapeXml(metadata.author)}</rdf:li></rdf:Seq></dc:creator>
+    </rdf:Description>
+    <rdf:Description rdf:about="" xmlns:pdf="http://ns.adobe.com/pdf/1.3/">
+      <pdf:Producer>${escapeXml(metadata.producer)}</pdf:Producer>
+    </rdf:Description>
+    <rdf:Description rdf:about="" xmlns:xmp="http://ns.adobe.com/xap/1.0/">
+      <xmp:CreatorTool>${escapeXml(metadata.creator)}</xmp:CreatorTool>
+      <xmp:CreateDate>${date}</xmp:CreateDate>
+      <xmp:ModifyDate>${date}</xmp:ModifyDate>
+    </rdf:Description>
+    <rdf:Description rdf:about=""
+        xmlns:pdfaExtension="http://www.aiim.org/pdfa/ns/extension/"
+        xmlns:pdfaSchema="http://www.aiim.org/pdfa/ns/schema#"
+        xmlns:pdfaProperty="http://www.aiim.org/pdfa/ns/property#">
+      <pdfaExtension:schemas>
+        <rdf:Bag>
+          <rdf:li rdf:parseType="Resource">
+            <pdfaSchema:schema>Factur-X PDFA Extension Schema</pdfaSchema:schema>
+            <pdfaSchema:namespaceURI>${FACTURX_NAMESPACE}</pdfaSchema:namespaceURI>
+            <pdfaSchema:prefix>fx</pdfaSchema:prefix>
+            <pdfaSchema:property>
+              <rdf:Seq>
+${extensionProperty("DocumentFileName", "name of the embedded XML invoice file")}
+${extensionProperty("DocumentType", "INVOICE")}
+${extensionProperty("Version", "The actual version of the Factur-X XML schema")}
+${extensionProperty("ConformanceLevel", "The conformance level of the embedded Factur-X data")}
+              </rdf:Seq>
+            </pdfaSchema:property>
+          </rdf:li>
+        </rdf:Bag>
+      </pdfaExtension:schemas>
+    </rdf:Description>
+    <rdf:Description rdf:about="" xmlns:fx="${FACTURX_NAMESPACE}">
+      <fx:DocumentType>INVOICE</fx:DocumentType>
+      <fx:DocumentFileName>${FACTURX_FILENAME}</fx:DocumentFileName>
+      <fx:Version>1.0</fx:Version>
+      <fx:ConformanceLevel>${FACTURX_CONFORMANCE_LEVEL}</fx:ConformanceLevel>
+    </rdf:Description>
+  </rdf:RDF>
+</x:xmpmeta>
+<?xpacket end="w"?>`;
+}
+
+/**
+ * Turn a rendered invoice PDF into a ZUGFeRD 2.x / Factur-X hybrid:
+ * embeds the CII XML as factur-x.xml (AFRelationship Alternative) and adds
+ * the PDF/A-3 prerequisites the renderer does not produce itself
+ * (XMP metadata, sRGB output intent, document ID).
+ */
+export async function embedFacturX(pdf: Uint8Array, xml: string, metadata: FacturXMetadata): Promise<Buffer> {
+  const pdfDoc = await PDFDocument.load(pdf, { updateMetadata: false });
+  const context = pdfDoc.context;
+  const producer = "pdf-lib (https://github.com/Hopding/pdf-lib)";
+
+  pdfDoc.setTitle(metadata.title);
+  pdfDoc.setAuthor(metadata.author);
+  pdfDoc.setCreator(metadata.creator);
+  pdfDoc.setProducer(producer);
+  pdfDoc.setCreationDate(metadata.createdAt);
+  pdfDoc.setModificationDate(metadata.createdAt);
+
+  await pdfDoc.attach(Buffer.from(xml, "utf8"), FACTURX_FILENAME, {
+    mimeType: "text/xml",
+    description: "Factur-X/ZUGFeRD invoice",
+    creationDate: metadata.createdAt,
+    modificationDate: metadata.createdAt,
+    afRelationship: AFRelationship.Alternative,
+  });
+
+  const xmp = Buffer.from(buildFacturXXmp({ ...metadata, producer }), "utf8");
+  const metadataStream = context.stream(xmp, { Type: "Metadata", Subtype: "XML", Length: xmp.length });
+  pdfDoc.catalog.set(PDFName.of("Metadata"), context.register(metadataStream));
+
+  const iccStream = context.flateStream(buildSrgbIccProfile(), { N: 3 });
+  const outputIntent = context.obj({
+    Type: "OutputIntent",
+    S: "GTS_PDFA1",
+    OutputConditionIdentifier: PDFString.of(OUTPUT_CONDITION),
+    Info: PDFString.of(OUTPUT_CONDITION),
+    DestOutputProfile: context.register(iccStream),
+  });
+  pdfDoc.catalog.set(PDFName.of("OutputIntents"), context.obj([context.register(outputIntent)]));
+
+  const documentId = createHash("md5").update(xml).update(metadata.createdAt.toISOString()).digest("hex");
+  context.trailerInfo.ID = context.obj([PDFHexString.of(documentId), PDFHexString.of(documentId)]);
+
+  const bytes = await pdfDoc.save({ useObjectStreams: false });
+  return Buffer.from(bytes);
+}
@@ -0,0 +1,113 @@
+/**
+ * Minimal sRGB ICC v2 display profile.
+ *
+ * PDF/A requires an OutputIntent with an embedded ICC profile whenever
+ * device RGB colors are used (Chromium output always does). Building the
+ * profile here keeps the repo free of binary assets: D50-adapted sRGB
+ * primaries with a 2.2 gamma curve, which is what validators expect for
+ * "sRGB IEC61966-2.1" output intents.
+ */
+
+const PROFILE_DESCRIPTION = "sRGB IEC61966-2.1";
+const PROFILE_COPYRIGHT = "No copyright, use freely";
+
+/** D50 white point and Bradford-adapted sRGB primaries */
+const D50_WHITE: [number, number, number] = [0.9642, 1.0, 0.8249];
+const RED_XYZ: [number, number, number] = [0.4361, 0.2225, 0.0139];
+const GREEN_XYZ: [number, number, number] = [0.3851, 0.7169, 0.0971];
+const BLUE_XYZ: [number, number, number] = [0.1431, 0.0606, 0.7141];
+const GAMMA = 2.2;
+
+function ascii(value: string) {
+  return Buffer.from(value, "latin1");
+}
+
+function pad4(buffer: Buffer) {
+  const remainder = buffer.length % 4;
+  return remainder === 0 ? buffer : Buffer.concat([buffer, Buffer.alloc(4 - remainder)]);
+}
+
+function s15Fixed16(value: number) {
+  const buffer = Buffer.alloc(4);
+  buffer.writeInt32BE(Math.round(value * 65536));
+  return buffer;
+}
+
+function xyzTag(xyz: [number, number, number]) {
+  return Buffer.concat([ascii("XYZ "), Buffer.alloc(4), ...xyz.map(s15Fixed16)]);
+}
+
+function curveTag(gamma: number) {
+  const buffer = Buffer.alloc(14);
+  buffer.write("curv", 0, "latin1");
+  buffer.writeUInt32BE(1, 8);
+  buffer.writeUInt16BE(Math.round(gamma * 256), 12);
+  return buffer;
+}
+
+function textTag(text: string) {
+  return Buffer.concat([ascii("text"), Buffer.alloc(4), ascii(text), Buffer.alloc(1)]);
+}
+
+function descriptionTag(text: string) {
+  const count = Buffer.alloc(4);
+  count.writeUInt32BE(text.length + 1);
+  // Unicode (lang + count) and ScriptCode (code + count + 67 bytes) sections stay empty
+  return Buffer.concat([ascii("desc"), Buffer.alloc(4), count, ascii(text), Buffer.alloc(1), Buffer.alloc(8 + 3 + 67)]);
+}
+
+let cachedProfile: Buffer | null = null;
+
+export function buildSrgbIccProfile(): Buffer {
+  if (cachedProfile) return cachedProfile;
+
+  const trc = curveTag(GAMMA);
+  const tags: Array<[string, Buffer]> = [
+    ["desc", descriptionTag(PROFILE_DESCRIPTION)],
+    ["cprt", textTag(PROFILE_COPYRIGHT)],
+    ["wtpt", xyzTag(D50_WHITE)],
+    ["rXYZ", xyzTag(RED_XYZ)],
+    ["gXYZ", xyzTag(GREEN_XYZ)],
+    ["bXYZ", xyzTag(BLUE_XYZ)],
+    ["rTRC", trc],
+    ["gTRC", trc],
+    ["bTRC", trc],
+  ];
+
+  const headerSize = 128;
+  const tableSize = 4 + tags.length * 12;
+  const table = Buffer.alloc(tableSize);
+  table.writeUInt32BE(tags.length, 0);
+
+  const data: Buffer[] = [];
+  const offsets = new Map<Buffer, number>();
+  let offset = headerSize + tableSize;
+  tags.forEach(([signature, tag], index) => {
+    // The three TRC tags share a single curve; ICC allows tags to point at the same data
+    let tagOffset = offsets.get(tag);
+    if (tagOffset === undefined) {
+      tagOffset = offset;
+      offsets.set(tag, tagOffset);
+      const padded = pad4(tag);
+      data.push(padded);
+      offset += padded.length;
+    }
+    const entry = 4 + index * 12;
+    table.write(signature, entry, "latin1");
+    table.writeUInt32BE(tagOffset, entry + 4);
+    table.writeUInt32BE(tag.length, entry + 8);
+  });
+
+  const header = Buffer.alloc(headerSize);
+  header.writeUInt32BE(offset, 0);
+  header.writeUInt32BE(0x02100000, 8);
+  header.write("mntr", 12, "latin1");
+  header.write("RGB ", 16, "latin1");
+  header.write("XYZ ", 20, "latin1");
+  [2025, 1, 1, 0, 0, 0].forEach((part, index) => header.writeUInt16BE(part, 24 + index * 2));
+  header.write("acsp", 36, "latin1");
+  D50_WHITE.forEach((value, index) => s15Fixed16(value).copy(header, 68 + index * 4));
+
+  cachedProfile = Buffer.concat([header, table, ...data]);
+  return cachedProfile;
+}
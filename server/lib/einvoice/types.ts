@@ -0,0 +1,97 @@
+/**
+ * Syntax-neutral EN 16931 invoice model.
+ *
+ * The UBL and CII writers both render from this structure, so business rules
+ * only have to be evaluated once. Field comments reference the EN 16931
+ * business term (BT/BG) each value maps to.
+ */
+
+export type EInvoiceSyntax = "ubl" | "cii";
+
+/** XRechnung (German CIUS) or the plain EN 16931 profile used by ZUGFeRD */
+export type EInvoiceProfile = "xrechnung" | "en16931";
+
+/** UNTDID 5305 VAT category codes supported by the app */
+export type VatCategoryCode = "S" | "Z" | "E" | "AE" | "K";
+
+export interface EInvoiceAddress {
+  street?: string | null;
+  postalCode?: string | null;
+  city?: string | null;
+  /** ISO 3166-1 alpha-2 (BT-40 / BT-55) */
+  countryCode?: string | null;
+}
+
+export interface EInvoiceParty {
+  name?: string | null;
+  address: EInvoiceAddress;
+  /** BT-31 / BT-48 */
+  vatId?: string | null;
+  /** BT-32 (seller only) */
+  taxNumber?: string | null;
+  /** BT-34 / BT-49 - e-mail is used as electronic address (scheme EM) */
+  electronicAddress?: string | null;
+  contactName?: string | null;
+  contactPhone?: string | null;
+  contactEmail?: string | null;
+}
+
+export interface EInvoiceLine {
+  id: string;
+  name: string;
+  description?: string | null;
+  quantity: number;
+  /** UN/ECE Rec 20 unit code (BT-130) */
+  unitCode: string;
+  unitPrice: number;
+  netAmount: number;
+  vatCategory: VatCategoryCode;
+  vatRate: number;
+}
+
+export interface EInvoiceTaxSubtotal {
+  category: VatCategoryCode;
+  rate: number;
+  taxableAmount: number;
+  taxAmount: number;
+  /** BT-120 - required for E, AE, K and Z categories */
+  exemptionReason?: string | null;
+}
+
+export interface EInvoiceDocument {
+  /** 380 = commercial invoice, 381 = credit note (used for cancellations) */
+  typeCode: "380" | "381";
+  number: string;
+  issueDate: Date;
+  dueDate?: Date | null;
+  currency: string;
+  /** BT-10 - Leitweg-ID for public-sector buyers */
+  buyerReference?: string | null;
+  /** BT-25 - invoice number a cancellation refers to */
+  precedingInvoiceNumber?: string | null;
+  servicePeriodStart?: Date | null;
+  servicePeriodEnd?: Date | null;
+  note?: string | null;
+  paymentTerms?: string | null;
+  seller: EInvoiceParty;
+  buyer: EInvoiceParty;
+  payment: {
+    /** UNTDID 4461 - 58 = SEPA credit transfer */
+    meansCode: string;
+    iban?: string | null;
+    bic?: string | null;
+    accountName?: string | null;
+    /** BT-83 remittance information */
+    reference?: string | null;
+  };
+  lines: EInvoiceLine[];
+  taxSubtotals: EInvoiceTaxSubtotal[];
+  totals: {
+    lineTotal: number;
+    taxExclusive: number;
+    taxAmount: number;
+    taxInclusive: number;
+    prepaid: number;
+    payable: number;
+  };
+}
@@ -0,0 +1,134 @@
+import type { EInvoiceDocument, EInvoiceParty } from "./types";
+import { amount, decimal, isoDate, leaf, node, renderXmlDocument, type XmlChild } from "./xml";
+import { XRECHNUNG_CUSTOMIZATION_ID, PEPPOL_BILLING_PROFILE_ID } from "./constants";
+
+const UBL_INVOICE_NS = "urn:oasis:names:specification:ubl:schema:xsd:Invoice-2";
+const UBL_CREDIT_NOTE_NS = "urn:oasis:names:specification:ubl:schema:xsd:CreditNote-2";
+const CAC_NS = "urn:oasis:names:specification:ubl:schema:xsd:CommonAggregateComponents-2";
+const CBC_NS = "urn:oasis:names:specification:ubl:schema:xsd:CommonBasicComponents-2";
+
+function party(role: "cac:AccountingSupplierParty" | "cac:AccountingCustomerParty", data: EInvoiceParty, isSeller: boolean) {
+  return node(role, [
+    node("cac:Party", [
+      leaf("cbc:EndpointID", data.electronicAddress, { schemeID: "EM" }),
+      node("cac:PartyName", [leaf("cbc:Name", data.name)]),
+      node("cac:PostalAddress", [
+        leaf("cbc:StreetName", data.address.street),
+        leaf("cbc:CityName", data.address.city),
+        leaf("cbc:PostalZone", data.address.postalCode),
+        node("cac:Country", [leaf("cbc:IdentificationCode", data.address.countryCode)]),
+      ]),
+      data.vatId
+        ? node("cac:PartyTaxScheme", [leaf("cbc:CompanyID", data.vatId), node("cac:TaxScheme", [leaf("cbc:ID", "VAT")])])
+        : null,
+      isSeller && data.taxNumber
+        ? node("cac:PartyTaxScheme", [leaf("cbc:CompanyID", data.taxNumber), node("cac:TaxScheme", [leaf("cbc:ID", "FC")])])
+        : null,
+      node("cac:PartyLegalEntity", [leaf("cbc:RegistrationName", data.name)]),
+      node("cac:Contact", [
+        leaf("cbc:Name", data.contactName),
+        leaf("cbc:Telephone", data.contactPhone),
+        leaf("cbc:ElectronicMail", data.contactEmail),
+      ]),
+    ]),
+  ]);
+}
+
+/**
+ * Serialize the document as XRechnung UBL 2.1.
+ * Cancellations (type 381) are written as a UBL CreditNote.
+ */
+export function renderUblXml(doc: EInvoiceDocument): string {
+  const isCreditNote = doc.typeCode === "381";
+  const rootName = isCreditNote ? "ubl:CreditNote" : "ubl:Invoice";
+  const lineName = isCreditNote ? "cac:CreditNoteLine" : "cac:InvoiceLine";
+  const quantityName = isCreditNote ? "cbc:CreditedQuantity" : "cbc:InvoicedQuantity";
+  const currency = { currencyID: doc.currency };
+
+  const children: XmlChild[] = [
+    leaf("cbc:CustomizationID", XRECHNUNG_CUSTOMIZATION_ID),
+    leaf("cbc:ProfileID", PEPPOL_BILLING_PROFILE_ID),
+    leaf("cbc:ID", doc.number),
+    leaf("cbc:IssueDate", isoDate(doc.issueDate)),
+    !isCreditNote && doc.dueDate ? leaf("cbc:DueDate", isoDate(doc.dueDate)) : null,
+    leaf(isCreditNote ? "cbc:CreditNoteTypeCode" : "cbc:InvoiceTypeCode", doc.typeCode),
+    leaf("cbc:Note", doc.note),
+    leaf("cbc:DocumentCurrencyCode", doc.currency),
+    leaf("cbc:BuyerReference", doc.buyerReference),
+    doc.servicePeriodStart
+      ? node("cac:InvoicePeriod", [
+          leaf("cbc:StartDate", isoDate(doc.servicePeriodStart)),
+          leaf("cbc:EndDate", isoDate(doc.servicePeriodEnd ?? doc.servicePeriodStart)),
+        ])
+      : null,
+    doc.precedingInvoiceNumber
+      ? node("cac:BillingReference", [
+          node("cac:InvoiceDocumentReference", [leaf("cbc:ID", doc.precedingInvoiceNumber)]),
+        ])
+      : null,
+    party("cac:AccountingSupplierParty", doc.seller, true),
+    party("cac:AccountingCustomerParty", doc.buyer, false),
+    node("cac:PaymentMeans", [
+      leaf("cbc:PaymentMeansCode", doc.payment.meansCode),
+      isCreditNote && doc.dueDate ? leaf("cbc:PaymentDueDate", isoDate(doc.dueDate)) : null,
+      leaf("cbc:PaymentID", doc.payment.reference),
+      doc.payment.iban
+        ? node("cac:PayeeFinancialAccount", [
+            leaf("cbc:ID", doc.payment.iban),
+            leaf("cbc:Name", doc.payment.accountName),
+            node("cac:FinancialInstitutionBranch", [leaf("cbc:ID", doc.payment.bic)]),
+          ])
+        : null,
+    ]),
+    node("cac:PaymentTerms", [leaf("cbc:Note", doc.paymentTerms)]),
+    node("cac:TaxTotal", [
+      leaf("cbc:TaxAmount", amount(doc.totals.taxAmount), currency),
+      ...doc.taxSubtotals.map((subtotal) =>
+        node("cac:TaxSubtotal", [
+          leaf("cbc:TaxableAmount", amount(subtotal.taxableAmount), currency),
+          leaf("cbc:TaxAmount", amount(subtotal.taxAmount), currency),
+          node("cac:TaxCategory", [
+            leaf("cbc:ID", subtotal.category),
+            leaf("cbc:Percent", decimal(subtotal.rate)),
+            leaf("cbc:TaxExemptionReason", subtotal.exemptionReason),
+            node("cac:TaxScheme", [leaf("cbc:ID", "VAT")]),
+          ]),
+        ])
+      ),
+    ]),
+    node("cac:LegalMonetaryTotal", [
+      leaf("cbc:LineExtensionAmount", amount(doc.totals.lineTotal), currency),
+      leaf("cbc:TaxExclusiveAmount", amount(doc.totals.taxExclusive), currency),
+      leaf("cbc:TaxInclusiveAmount", amount(doc.totals.taxInclusive), currency),
+      doc.totals.prepaid > 0 ? leaf("cbc:PrepaidAmount", amount(doc.totals.prepaid), currency) : null,
+      leaf("cbc:PayableAmount", amount(doc.totals.payable), currency),
+    ]),
+    ...doc.lines.map((line) =>
+      node(lineName, [
+        leaf("cbc:ID", line.id),
+        leaf(quantityName, decimal(line.quantity), { unitCode: line.unitCode }),
+        leaf("cbc:LineExtensionAmount", amount(line.netAmount), currency),
+        node("cac:Item", [
+          leaf("cbc:Description", line.description),
+          leaf("cbc:Name", line.name),
+          node("cac:ClassifiedTaxCategory", [
+            leaf("cbc:ID", line.vatCategory),
+            leaf("cbc:Percent", decimal(line.vatRate)),
+            node("cac:TaxScheme", [leaf("cbc:ID", "VAT")]),
+          ]),
+        ]),
+        node("cac:Price", [leaf("cbc:PriceAmount", amount(line.unitPrice), currency)]),
+      ])
+    ),
+  ];
+
+  const root = node(rootName, children, {
+    "xmlns:ubl": isCreditNote ? UBL_CREDIT_NOTE_NS : UBL_INVOICE_NS,
+    "xmlns:cac": CAC_NS,
+    "xmlns:cbc": CBC_NS,
+  });
+  if (!root) {
+    throw new Error("Failed to build UBL document");
+  }
+  return renderXmlDocument(root);
+}
@@ -0,0 +1,93 @@
+/**
+ * Minimal XML writer for the e-invoice serializers.
+ * Elements whose value is null/undefined/empty are dropped so optional
+ * business terms never produce empty tags (which fail schema validation).
+ */
+
+export type XmlAttributes = Record<string, string | number | null | undefined>;
+
+export interface XmlElement {
+  name: string;
+  attributes?: XmlAttributes;
+  children?: XmlChild[];
+  text?: string;
+}
+
+export type XmlChild = XmlElement | null | undefined | false;
+
+export function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;");
+}
+
+/** Element with text content; returns null when the value is empty */
+export function leaf(
+  name: string,
+  value: string | number | null | undefined,
+  attributes?: XmlAttributes
+): XmlElement | null {
+  if (value === null || value === undefined) return null;
+  const text = String(value).trim();
+  if (!text) return null;
+  return { name, attributes, text };
+}
+
+/** Element with child elements; returns null when no child survives */
+export function node(name: string, children: XmlChild[], attributes?: XmlAttributes): XmlElement | null {
+  const kept = children.filter((child): child is XmlElement => Boolean(child));
+  if (kept.length === 0) return null;
+  return { name, attributes, children: kept };
+}
+
+function renderAttributes(attributes?: XmlAttributes) {
+  if (!attributes) return "";
+  return Object.entries(attributes)
+    .filter(([, value]) => value !== null && value !== undefined && String(value) !== "")
+    .map(([key, value]) => ` ${key}="${escapeXml(String(value))}"`)
+    .join("");
+}
+
+function renderElement(element: XmlElement, depth: number): string {
+  const indent = "  ".repeat(depth);
+  const attrs = renderAttributes(element.attributes);
+  if (element.text !== undefined) {
+    return `${indent}<${element.name}${attrs}>${escapeXml(element.text)}</${element.name}>`;
+  }
+  const children = (element.children || []).filter((child): child is XmlElement => Boolean(child));
+  if (children.length === 0) {
+    return `${indent}<${element.name}${attrs}/>`;
+  }
+  const inner = children.map((child) => renderElement(child, depth + 1)).join("\n");
+  return `${indent}<${element.name}${attrs}>\n${inner}\n${indent}</${element.name}>`;
+}
+
+export function renderXmlDocument(root: XmlElement): string {
+  return `<?xml version="1.0" encoding="UTF-8"?>\n${renderElement(root, 0)}\n`;
+}
+
+/** Monetary amounts: always two decimals, dot separator */
+export function amount(value: number): string {
+  return (Math.round((value + Number.EPSILON) * 100) / 100).toFixed(2);
+}
+
+/** Quantities and percentages: up to four decimals without trailing zeros */
+export function decimal(value: number): string {
+  return String(Number(value.toFixed(4)));
+}
+
+/** ISO date YYYY-MM-DD in the server's local calendar */
+export function isoDate(date: Date): string {
+  const year = date.getFullYear();
+  const month = String(date.getMonth() + 1).padStart(2, "0");
+  const day = String(date.getDate()).padStart(2, "0");
+  return `${year}-${month}-${day}`;
+}
+
+/** CII format 102 date YYYYMMDD */
+export function ciiDate(date: Date): string {
+  return isoDate(date).replace(/-/g, "");
+}
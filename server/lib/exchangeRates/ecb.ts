@@ -0,0 +1,106 @@
+/**
+ * ECB euro foreign exchange reference rates.
+ *
+ * Reads the files published by the ECB, both the daily and the historical
+ * variant: eurofxref.csv / eurofxref-hist.csv (one row per day, one column
+ * per currency, "N/A" for missing values) and eurofxref-daily.xml /
+ * eurofxref-hist.xml (<Cube time="…"><Cube currency="…" rate="…"/></Cube>).
+ * Rates are units of the currency per 1 EUR.
+ */
+
+export interface ParsedExchangeRate {
+  currency: string;
+  /** YYYY-MM-DD */
+  rateDate: string;
+  /** Decimal string as published */
+  rate: string;
+}
+
+export class ExchangeRateParseError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ExchangeRateParseError";
+  }
+}
+
+const MONTHS = [
+  "january", "february", "march", "april", "may", "june",
+  "july", "august", "september", "october", "november", "december",
+];
+
+const RATE_REGEX = /^\d+(\.\d+)?$/;
+const CURRENCY_REGEX = /^[A-Z]{3}$/;
+
+/** "2025-03-14" (hist files) or "14 March 2025" (daily CSV) */
+function parseRateDate(value: string): string | null {
+  const iso = value.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  if (iso) return value;
+
+  const long = value.match(/^(\d{1,2})\s+([A-Za-z]+)\s+(\d{4})$/);
+  if (!long) return null;
+  const month = MONTHS.indexOf(long[2].toLowerCase());
+  if (month === -1) return null;
+  return `${long[3]}-${String(month + 1).padStart(2, "0")}-${long[1].padStart(2, "0")}`;
+}
+
+function toRate(currency: string, rateDate: string, rawRate: string): ParsedExchangeRate | null {
+  const rate = rawRate.trim();
+  if (!CURRENCY_REGEX.test(currency) || !RATE_REGEX.test(rate) || Number(rate) <= 0) return null;
+  return { currency, rateDate, rate };
+}
+
+function parseEcbCsv(content: string): ParsedExchangeRate[] {
+  const lines = content.split(/\r?\n/).filter((line) => line.trim());
+  const header = lines[0].split(",").map((cell) => cell.trim());
+  if (header[0] !== "Date") {
+    throw new ExchangeRateParseError("Not an ECB reference rate CSV: the first column must be \"Date\"");
+  }
+
+  const rates: ParsedExchangeRate[] = [];
+  for (const line of lines.slice(1)) {
+    const cells = line.split(",").map((cell) => cell.trim());
+    const rateDate = parseRateDate(cells[0]);
+    if (!rateDate) {
+      throw new ExchangeRateParseError(`Invalid date in ECB rate file: ${cells[0]}`);
+    }
+    header.forEach((currency, index) => {
+      if (index === 0 || !currency) return;
+      const rate = toRate(currency, rateDate, cells[index] ?? "");
+      if (rate) rates.push(rate);
+    });
+  }
+  return rates;
+}
+
+function attribute(element: string, name: string): string | null {
+  return element.match(new RegExp(`\\b${name}\\s*=\\s*["']([^"']*)["']`))?.[1] ?? null;
+}
+
+function parseEcbXml(content: string): ParsedExchangeRate[] {
+  const days = Array.from(content.matchAll(/<Cube\s+time\s*=\s*["']([^"']+)["']\s*>([\s\S]*?)<\/Cube>/g));
+  if (days.length === 0) {
+    throw new ExchangeRateParseError("Not an ECB reference rate XML: no <Cube time=\"…\"> elements found");
+  }
+
+  const rates: ParsedExchangeRate[] = [];
+  for (const [, time, inner] of days) {
+    const rateDate = parseRateDate(time);
+    if (!rateDate) {
+      throw new ExchangeRateParseError(`Invalid date in ECB rate file: ${time}`);
+    }
+    for (const [element] of Array.from(inner.matchAll(/<Cube\b[^>]*\/?>/g))) {
+      const rate = toRate(attribute(element, "currency") ?? "", rateDate, attribute(element, "rate") ?? "");
+      if (rate) rates.push(rate);
+    }
+  }
+  return rates;
+}
+
+/** Parse an ECB reference rate file (CSV or XML, daily or historical) */
+export function parseEcbRates(content: string): ParsedExchangeRate[] {
+  const text = content.replace(/^\uFEFF/, "").trim();
+  if (!text) {
+    throw new ExchangeRateParseError("The file is empty");
+  }
+  return text.startsWith("<") ? parseEcbXml(text) : parseEcbCsv(text);
+}
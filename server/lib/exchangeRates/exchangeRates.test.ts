@@ -0,0 +1,116 @@
+import { describe, expect, it } from "vitest";
+import { ExchangeRateParseError, parseEcbRates } from "./index";
+import { isUnconvertedExpense, resolveEurConversion, toEurExpense } from "../../../shared/exchangeRates";
+
+const DAILY_CSV = `Date, USD, JPY, BGN, CZK,
+14 March 2025, 1.0880, 161.25, 1.9558, 25.011,
+`;
+
+const HIST_CSV = `Date,USD,JPY,CYP,
+2025-03-14,1.0880,161.25,N/A,
+2025-03-13,1.0856,160.72,N/A,
+`;
+
+const HIST_XML = `<?xml version="1.0" encoding="UTF-8"?>
+<gesmes:Envelope xmlns:gesmes="http://www.gesmes.org/xml/2002-08-01" xmlns="http://www.ecb.int/vocabulary/2002-08-01/eurofxref">
+  <gesmes:subject>Reference rates</gesmes:subject>
+  <Cube>
+    <Cube time='2025-03-14'>
+      <Cube currency='USD' rate='1.0880'/>
+      <Cube currency='GBP' rate='0.84030'/>
+    </Cube>
+    <Cube time='2025-03-13'>
+      <Cube currency='USD' rate='1.0856'/>
+    </Cube>
+  </Cube>
+</gesmes:Envelope>`;
+
+describe("parseEcbRates", () => {
+  it("reads the daily and historical CSV files", () => {
+    expect(parseEcbRates(DAILY_CSV)).toEqual([
+      { currency: "USD", rateDate: "2025-03-14", rate: "1.0880" },
+      { currency: "JPY", rateDate: "2025-03-14", rate: "161.25" },
+      { currency: "BGN", rateDate: "2025-03-14", rate: "1.9558" },
+      { currency: "CZK", rateDate: "2025-03-14", rate: "25.011" },
+    ]);
+
+    const hist = parseEcbRates(`\uFEFF${HIST_CSV}`);
+    expect(hist).toHaveLength(4);
+    expect(hist.some((rate) => rate.currency === "CYP")).toBe(false);
+    expect(hist[2]).toEqual({ currency: "USD", rateDate: "2025-03-13", rate: "1.0856" });
+  });
+
+  it("reads the XML files", () => {
+    expect(parseEcbRates(HIST_XML)).toEqual([
+      { currency: "USD", rateDate: "2025-03-14", rate: "1.0880" },
+      { currency: "GBP", rateDate: "2025-03-14", rate: "0.84030" },
+      { currency: "USD", rateDate: "2025-03-13", rate: "1.0856" },
+    ]);
+  });
+
+  it("rejects files that are not ECB rates", () => {
+    expect(() => parseEcbRates("")).toThrow(ExchangeRateParseError);
+    expect(() => parseEcbRates("Buchungstag;Betrag\n01.01.2025;1,00")).toThrow(ExchangeRateParseError);
+    expect(() => parseEcbRates("<Document><BkToCstmrStmt/></Document>")).toThrow(ExchangeRateParseError);
+  });
+});
+
+describe("resolveEurConversion", () => {
+  const usdExpense = {
+    currency: "USD",
+    grossAmountCents: 10880,
+    exchangeRate: null,
+    exchangeRateSource: null,
+    exchangeRateDate: null,
+  };
+
+  it("converts with the ECB rate and prefers a manual rate", () => {
+    expect(resolveEurConversion(usdExpense, { rate: "1.0880", rateDate: "2025-03-14" })).toEqual({
+      grossAmountEurCents: 10000,
+      exchangeRate: "1.0880",
+      exchangeRateDate: "2025-03-14",
+      exchangeRateSource: "ecb",
+    });
+
+    const manual = { ...usdExpense, exchangeRate: "1.100000", exchangeRateSource: "manual" as const, exchangeRateDate: "2025-03-15" };
+    expect(resolveEurConversion(manual, { rate: "1.0880", rateDate: "2025-03-14" })).toMatchObject({
+      grossAmountEurCents: 9891,
+      exchangeRateSource: "manual",
+    });
+  });
+
+  it("keeps EUR amounts and leaves unknown rates empty", () => {
+    expect(resolveEurConversion({ ...usdExpense, currency: "EUR" }, null).grossAmountEurCents).toBe(10880);
+    expect(resolveEurConversion(usdExpense, null).grossAmountEurCents).toBeNull();
+  });
+});
+
+describe("toEurExpense", () => {
+  it("scales VAT and splits to the EUR amount", () => {
+    const converted = toEurExpense({
+      currency: "CHF",
+      grossAmountCents: 1000,
+      grossAmountEurCents: 1001,
+      vatRate: "7",
+      vatAmountCents: 75,
+      businessUsePct: 100,
+      splits: [
+        { grossAmountCents: 333, vatRate: "7", category: "software", businessUsePct: 100, projectId: null },
+        { grossAmountCents: 667, vatRate: "7", category: "software", businessUsePct: 100, projectId: null },
+      ],
+    });
+
+    expect(converted.currency).toBe("EUR");
+    expect(converted.grossAmountCents).toBe(1001);
+    expect(converted.vatAmountCents).toBe(75);
+    expect(converted.splits?.map((split) => split.grossAmountCents)).toEqual([333, 668]);
+  });
+
+  it("leaves unconverted expenses alone", () => {
+    const expense = { currency: "USD", grossAmountCents: 500, grossAmountEurCents: null, vatRate: "0" as const, businessUsePct: 100 };
+    expect(toEurExpense(expense)).toBe(expense);
+    expect(isUnconvertedExpense(expense)).toBe(true);
+    expect(isUnconvertedExpense({ ...expense, grossAmountEurCents: 460 })).toBe(false);
+    expect(isUnconvertedExpense({ ...expense, currency: "EUR" })).toBe(false);
+  });
+});
@@ -0,0 +1,2 @@
+export { ExchangeRateParseError, parseEcbRates } from "./ecb";
+export type { ParsedExchangeRate } from "./ecb";
@@ -0,0 +1,92 @@
+import { z } from "zod";
+import type { CompanySettings } from "../../drizzle/schema";
+import { INVOICE_VAT_CATEGORIES, calculateInvoiceTotals, resolveLineVat } from "../../shared/invoiceVat";
+
+/**
+ * Line items shared by invoices and quotes
+ */
+export const lineItemSchema = z.object({
+  name: z.string().min(1, "Item name is required"),
+  description: z.string().optional(),
+  category: z.string().optional(),
+  quantity: z.number().positive("Quantity must be greater than 0"),
+  unitPrice: z.number().nonnegative(),
+  currency: z.string().length(3).default("EUR"),
+  vatRate: z.number().min(0).max(100).optional().nullable(),
+  vatCategory: z.enum(INVOICE_VAT_CATEGORIES).optional(),
+});
+
+export type LineItemInput = z.infer<typeof lineItemSchema>;
+
+export type VatSettings = Pick<CompanySettings, "vatRate" | "isKleinunternehmer">;
+
+/**
+ * Normalize line items; lines without an explicit VAT rate get the company default rate
+ */
+export function normalizeLineItems(items: LineItemInput[], settings: VatSettings) {
+  const defaultRate = Number(settings.vatRate ?? 19);
+  return items.map((item) => {
+    const quantity = Number(item.quantity);
+    const unitPrice = Number(item.unitPrice);
+    const lineTotal = Number((quantity * unitPrice).toFixed(2));
+    const vat = resolveLineVat({ vatRate: item.vatRate, vatCategory: item.vatCategory }, defaultRate);
+    return {
+      name: item.name,
+      description: item.description ?? null,
+      category: item.category ?? null,
+      quantity,
+      unitPrice,
+      currency: item.currency || "EUR",
+      lineTotal,
+      vatRate: vat.rate,
+      vatCategory: vat.category,
+    };
+  });
+}
+
+export type NormalizedLineItem = ReturnType<typeof normalizeLineItems>[number];
+
+export function calculateTotals(items: NormalizedLineItem[], settings: VatSettings) {
+  const { subtotal, vatAmount, total } = calculateInvoiceTotals(items, {
+    defaultRate: Number(settings.vatRate ?? 19),
+    isKleinunternehmer: settings.isKleinunternehmer,
+  });
+  return { subtotal, vatAmount, total };
+}
+
+export function toStoredLineItems(items: NormalizedLineItem[]) {
+  return items.map((item) => ({
+    ...item,
+    quantity: item.quantity.toFixed(2),
+    unitPrice: item.unitPrice.toFixed(2),
+    lineTotal: item.lineTotal.toFixed(2),
+    vatRate: item.vatRate.toFixed(2),
+  }));
+}
+
+/**
+ * Map stored line items (decimal strings) back to input shape, e.g. to re-normalize or copy them
+ */
+export function fromStoredLineItems(
+  items: Array<{
+    name: string;
+    description: string | null;
+    category: string | null;
+    quantity: string | number;
+    unitPrice: string | number;
+    currency: string;
+    vatRate: string | number | null;
+    vatCategory: LineItemInput["vatCategory"];
+  }>
+): LineItemInput[] {
+  return items.map((item) => ({
+    name: item.name,
+    description: item.description ?? undefined,
+    category: item.category ?? undefined,
+    quantity: Number(item.quantity),
+    unitPrice: Number(item.unitPrice),
+    currency: item.currency,
+    vatRate: item.vatRate === null ? null : Number(item.vatRate),
+    vatCategory: item.vatCategory,
+  }));
+}
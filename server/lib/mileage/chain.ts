@@ -0,0 +1,87 @@
+import { createHash } from "crypto";
+import type { TripType } from "../../../shared/mileage";
+
+/** previousHash of the first trip of a vehicle */
+export const GENESIS_HASH = "0".repeat(64);
+
+/** The fields of a trip covered by its hash */
+export interface MileageTripRecord {
+  vehicleId: number;
+  /** Position in the vehicle's log, starting at 1 */
+  sequence: number;
+  tripDate: Date;
+  startAddress: string;
+  endAddress: string;
+  distanceKm: number;
+  odometerStart: number | null;
+  odometerEnd: number | null;
+  tripType: TripType;
+  purpose: string;
+  businessPartner: string | null;
+  projectId: number | null;
+  ratePerKm: number;
+  replacesTripId: number | null;
+  /** When the trip was entered; stored with second precision */
+  recordedAt: Date;
+  previousHash: string;
+}
+
+export interface HashedMileageTrip extends MileageTripRecord {
+  hash: string;
+}
+
+export type MileageChainVerification =
+  | { valid: true; lastHash: string }
+  | { valid: false; lastHash: string; brokenAtSequence: number; reason: string };
+
+const toDateKey = (date: Date) =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, "0")}-${String(date.getDate()).padStart(2, "0")}`;
+
+/**
+ * Values are serialized in a fixed order and format that survives the
+ * round trip through the database (decimals, second-precision timestamps).
+ */
+export function hashMileageTrip(trip: MileageTripRecord): string {
+  const canonical = JSON.stringify([
+    trip.vehicleId,
+    trip.sequence,
+    toDateKey(trip.tripDate),
+    trip.startAddress,
+    trip.endAddress,
+    trip.distanceKm.toFixed(1),
+    trip.odometerStart,
+    trip.odometerEnd,
+    trip.tripType,
+    trip.purpose,
+    trip.businessPartner,
+    trip.projectId,
+    trip.ratePerKm.toFixed(2),
+    trip.replacesTripId,
+    Math.floor(trip.recordedAt.getTime() / 1000),
+    trip.previousHash,
+  ]);
+  return createHash("sha256").update(canonical).digest("hex");
+}
+
+/**
+ * Check a vehicle's trips (any order) for gaps, broken links and entries
+ * whose content no longer matches their hash.
+ */
+export function verifyMileageChain(trips: HashedMileageTrip[]): MileageChainVerification {
+  const sorted = [...trips].sort((a, b) => a.sequence - b.sequence);
+  let previousHash = GENESIS_HASH;
+  for (let index = 0; index < sorted.length; index++) {
+    const trip = sorted[index];
+    const broken = (reason: string): MileageChainVerification => ({
+      valid: false,
+      lastHash: previousHash,
+      brokenAtSequence: trip.sequence,
+      reason,
+    });
+    if (trip.sequence !== index + 1) return broken(`Entry ${index + 1} is missing`);
+    if (trip.previousHash !== previousHash) return broken("Link to the previous entry does not match");
+    if (hashMileageTrip(trip) !== trip.hash) return broken("Entry was modified after it was recorded");
+    previousHash = trip.hash;
+  }
+  return { valid: true, lastHash: previousHash };
+}
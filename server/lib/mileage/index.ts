@@ -0,0 +1,11 @@
+export { GENESIS_HASH, hashMileageTrip, verifyMileageChain } from "./chain";
+export type { HashedMileageTrip, MileageChainVerification, MileageTripRecord } from "./chain";
+export {
+  buildMileageLogbook,
+  buildMileageLogbookCsv,
+  describeChainVerification,
+  describeLogbookEntryStatus,
+} from "./logbook";
+export type { MileageLogbook, MileageLogbookEntry, MileageLogbookTrip } from "./logbook";
+export { createOsrmRouter, measureDistance, straightLineRouter } from "./routing";
+export type { DistanceRouter, MeasuredDistance } from "./routing";
@@ -0,0 +1,146 @@
+import {
+  TRIP_TYPE_EXPORT_LABELS,
+  TRIP_TYPES,
+  type TripType,
+  type VehicleKind,
+} from "../../../shared/mileage";
+import { verifyMileageChain, type HashedMileageTrip, type MileageChainVerification } from "./chain";
+
+export interface MileageLogbookTrip extends HashedMileageTrip {
+  id: number;
+  projectName: string | null;
+}
+
+export interface MileageLogbookEntry extends MileageLogbookTrip {
+  /** Sequence of the correction that replaced this trip */
+  replacedBySequence: number | null;
+  /** Sequence of the trip this one corrects */
+  replacesSequence: number | null;
+}
+
+export interface MileageLogbook {
+  vehicle: { name: string; licensePlate: string | null; kind: VehicleKind };
+  year: number;
+  entries: MileageLogbookEntry[];
+  /** Totals of the year without replaced trips */
+  totals: Record<TripType | "total", number>;
+  /** Covers the vehicle's whole log, not just the year */
+  verification: MileageChainVerification;
+}
+
+/**
+ * Logbook of one vehicle and year. The chain is verified across all trips
+ * of the vehicle since it continues over the turn of the year.
+ */
+export function buildMileageLogbook(
+  vehicle: MileageLogbook["vehicle"],
+  year: number,
+  trips: MileageLogbookTrip[]
+): MileageLogbook {
+  const bySequence = [...trips].sort((a, b) => a.sequence - b.sequence);
+  const sequenceById = new Map(bySequence.map((trip) => [trip.id, trip.sequence]));
+  const replacedBy = new Map<number, number>();
+  for (const trip of bySequence) {
+    if (trip.replacesTripId !== null) replacedBy.set(trip.replacesTripId, trip.sequence);
+  }
+
+  const entries = bySequence
+    .filter((trip) => trip.tripDate.getFullYear() === year)
+    .map((trip) => ({
+      ...trip,
+      replacedBySequence: replacedBy.get(trip.id) ?? null,
+      replacesSequence: trip.replacesTripId === null ? null : sequenceById.get(trip.replacesTripId) ?? null,
+    }));
+
+  const totals = { business: 0, commute: 0, private: 0, total: 0 };
+  for (const entry of entries) {
+    if (entry.replacedBySequence !== null) continue;
+    totals[entry.tripType] += entry.distanceKm;
+    totals.total += entry.distanceKm;
+  }
+  for (const key of [...TRIP_TYPES, "total"] as const) {
+    totals[key] = Math.round(totals[key] * 10) / 10;
+  }
+
+  return { vehicle, year, entries, totals, verification: verifyMileageChain(trips) };
+}
+
+const formatDate = (date: Date) =>
+  date.toLocaleDateString("de-DE", { day: "2-digit", month: "2-digit", year: "numeric" });
+
+const formatDateTime = (date: Date) =>
+  `${formatDate(date)} ${date.toLocaleTimeString("de-DE", { hour: "2-digit", minute: "2-digit", second: "2-digit" })}`;
+
+const formatKm = (km: number) => km.toFixed(1).replace(".", ",");
+
+export function describeLogbookEntryStatus(entry: MileageLogbookEntry): string {
+  if (entry.replacedBySequence !== null) return `Ersetzt durch Nr. ${entry.replacedBySequence}`;
+  if (entry.replacesSequence !== null) return `Korrektur zu Nr. ${entry.replacesSequence}`;
+  return "";
+}
+
+export function describeChainVerification(verification: MileageChainVerification): string {
+  return verification.valid
+    ? "Lückenlos, unverändert"
+    : `Fehler bei Nr. ${verification.brokenAtSequence}: ${verification.reason}`;
+}
+
+function cell(value: string | number | null) {
+  if (value === null) return "";
+  const text = String(value);
+  return /[";\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * German CSV for the Finanzamt. Every row carries its hash and the hash of
+ * its predecessor so the chain can be checked from the file alone.
+ */
+export function buildMileageLogbookCsv(logbook: MileageLogbook): string {
+  const { vehicle, verification, totals } = logbook;
+  const rows: Array<Array<string | number | null>> = [
+    ["Fahrtenbuch", logbook.year],
+    ["Fahrzeug", vehicle.name],
+    ["Kennzeichen", vehicle.licensePlate],
+    ["Prüfung der Hash-Kette", describeChainVerification(verification)],
+    ["Letzter Hash", verification.lastHash],
+    [],
+    [
+      "Nr.",
+      "Datum",
+      "Km-Stand Beginn",
+      "Km-Stand Ende",
+      "Km",
+      "Fahrtart",
+      "Start",
+      "Ziel",
+      "Reisezweck",
+      "Geschäftspartner",
+      "Projekt",
+      "Status",
+      "Erfasst am",
+      "Hash Vorgänger",
+      "Hash",
+    ],
+    ...logbook.entries.map((entry) => [
+      entry.sequence,
+      formatDate(entry.tripDate),
+      entry.odometerStart,
+      entry.odometerEnd,
+      formatKm(entry.distanceKm),
+      TRIP_TYPE_EXPORT_LABELS[entry.tripType],
+      entry.startAddress,
+      entry.endAddress,
+      entry.purpose,
+      entry.businessPartner,
+      entry.projectName,
+      describeLogbookEntryStatus(entry),
+      formatDateTime(entry.recordedAt),
+      entry.previousHash,
+      entry.hash,
+    ]),
+    [],
+    ...TRIP_TYPES.map((type) => [`Summe ${TRIP_TYPE_EXPORT_LABELS[type]}`, formatKm(totals[type])]),
+    ["Summe gesamt", formatKm(totals.total)],
+  ];
+  return `\uFEFF${rows.map((row) => row.map(cell).join(";")).join("\r\n")}\r\n`;
+}
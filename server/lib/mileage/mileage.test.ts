@@ -0,0 +1,116 @@
+import { describe, expect, it } from "vitest";
+import { calculateMileageAmountCents, straightLineDistanceKm } from "../../../shared/mileage";
+import {
+  GENESIS_HASH,
+  buildMileageLogbook,
+  buildMileageLogbookCsv,
+  createOsrmRouter,
+  hashMileageTrip,
+  measureDistance,
+  straightLineRouter,
+  verifyMileageChain,
+  type MileageLogbookTrip,
+  type MileageTripRecord,
+} from "./index";
+
+const berlin = { lat: 52.52, lng: 13.405 };
+const potsdam = { lat: 52.3906, lng: 13.0645 };
+
+function buildChain(records: Array<Partial<MileageTripRecord>>): MileageLogbookTrip[] {
+  const trips: MileageLogbookTrip[] = [];
+  let previousHash = GENESIS_HASH;
+  records.forEach((overrides, index) => {
+    const record: MileageTripRecord = {
+      vehicleId: 1,
+      sequence: index + 1,
+      tripDate: new Date(2025, 2, 10 + index),
+      startAddress: "Hauptstr. 1, Berlin",
+      endAddress: "Baustelle Potsdam",
+      distanceKm: 28.4,
+      odometerStart: null,
+      odometerEnd: null,
+      tripType: "business",
+      purpose: "Baustellenbesuch",
+      businessPartner: "Müller GmbH",
+      projectId: 7,
+      ratePerKm: 0.3,
+      replacesTripId: null,
+      recordedAt: new Date(Date.UTC(2025, 2, 10 + index, 18, 0, 0)),
+      previousHash,
+      ...overrides,
+    };
+    const hash = hashMileageTrip(record);
+    trips.push({ ...record, id: 100 + index, projectName: "Potsdam", hash });
+    previousHash = hash;
+  });
+  return trips;
+}
+
+describe("distances", () => {
+  it("measures the straight line between two points", () => {
+    expect(straightLineDistanceKm(berlin, potsdam)).toBeCloseTo(27.2, 1);
+  });
+
+  it("falls back to the next router when one can't answer", async () => {
+    const failing = createOsrmRouter("https://osrm.test", async () => new Response("", { status: 503 }));
+    const measured = await measureDistance(berlin, potsdam, [failing, straightLineRouter]);
+    expect(measured).toMatchObject({ source: "straight_line", router: "straight-line" });
+    expect(measured?.distanceKm).toBe(27.2);
+  });
+
+  it("reads driving distances from OSRM", async () => {
+    let requested = "";
+    const osrm = createOsrmRouter("https://osrm.test/", async (url) => {
+      requested = String(url);
+      return Response.json({ code: "Ok", routes: [{ distance: 34567 }] });
+    });
+    expect(await measureDistance(berlin, potsdam, [osrm])).toEqual({ distanceKm: 34.6, source: "route", router: "osrm" });
+    expect(requested).toBe("https://osrm.test/route/v1/driving/13.405,52.52;13.0645,52.3906?overview=false");
+  });
+
+  it("reimburses the distance at the per-km rate", () => {
+    expect(calculateMileageAmountCents(28.4, 0.3)).toBe(852);
+  });
+});
+
+describe("verifyMileageChain", () => {
+  it("accepts an untouched log", () => {
+    const trips = buildChain([{}, {}, {}]);
+    expect(verifyMileageChain(trips)).toEqual({ valid: true, lastHash: trips[2].hash });
+  });
+
+  it("detects edited, missing and relinked entries", () => {
+    const trips = buildChain([{}, {}, {}]);
+
+    const edited = trips.map((trip) => (trip.sequence === 2 ? { ...trip, distanceKm: 82.4 } : trip));
+    expect(verifyMileageChain(edited)).toMatchObject({ valid: false, brokenAtSequence: 2 });
+
+    expect(verifyMileageChain([trips[0], trips[2]])).toMatchObject({ valid: false, brokenAtSequence: 3 });
+
+    const relinked = buildChain([{}, {}]);
+    expect(verifyMileageChain([trips[0], { ...relinked[1], previousHash: GENESIS_HASH }])).toMatchObject({
+      valid: false,
+      brokenAtSequence: 2,
+    });
+  });
+});
+
+describe("buildMileageLogbook", () => {
+  it("keeps replaced trips in the log but not in the totals", () => {
+    const trips = buildChain([{}, { tripType: "private", distanceKm: 12 }, { replacesTripId: 100, distanceKm: 30 }]);
+    const logbook = buildMileageLogbook({ name: "Transporter", licensePlate: "B-MM 123", kind: "car" }, 2025, trips);
+
+    expect(logbook.entries.map((entry) => [entry.sequence, entry.replacedBySequence, entry.replacesSequence])).toEqual([
+      [1, 3, null],
+      [2, null, null],
+      [3, null, 1],
+    ]);
+    expect(logbook.totals).toEqual({ business: 30, commute: 0, private: 12, total: 42 });
+    expect(logbook.verification.valid).toBe(true);
+
+    const lines = buildMileageLogbookCsv(logbook).split("\r\n");
+    expect(lines[3]).toBe("Prüfung der Hash-Kette;Lückenlos, unverändert");
+    expect(lines[7]).toMatch(/^1;10\.03\.2025;;;28,4;Betrieblich;Hauptstr\. 1, Berlin;Baustelle Potsdam;Baustellenbesuch;Müller GmbH;Potsdam;Ersetzt durch Nr\. 3;/);
+    expect(lines).toContain("Summe gesamt;42,0");
+  });
+});
@@ -0,0 +1,67 @@
+import {
+  roundDistanceKm,
+  straightLineDistanceKm,
+  type DistanceSource,
+  type GeoPoint,
+} from "../../../shared/mileage";
+
+/**
+ * Measures the distance between two points. Routers are tried in order;
+ * one that can't answer (no route, service unavailable) returns null.
+ */
+export interface DistanceRouter {
+  name: string;
+  source: Extract<DistanceSource, "straight_line" | "route">;
+  distanceKm(from: GeoPoint, to: GeoPoint): Promise<number | null>;
+}
+
+export const straightLineRouter: DistanceRouter = {
+  name: "straight-line",
+  source: "straight_line",
+  distanceKm: async (from, to) => straightLineDistanceKm(from, to),
+};
+
+export interface MeasuredDistance {
+  distanceKm: number;
+  source: DistanceRouter["source"];
+  router: string;
+}
+
+export async function measureDistance(
+  from: GeoPoint,
+  to: GeoPoint,
+  routers: DistanceRouter[]
+): Promise<MeasuredDistance | null> {
+  for (const router of routers) {
+    let km: number | null = null;
+    try {
+      km = await router.distanceKm(from, to);
+    } catch {
+      km = null;
+    }
+    if (km !== null && Number.isFinite(km) && km >= 0) {
+      return { distanceKm: roundDistanceKm(km), source: router.source, router: router.name };
+    }
+  }
+  return null;
+}
+
+/**
+ * Driving distance from an OSRM server (project-osrm.org), e.g. a self-hosted
+ * instance or https://router.project-osrm.org
+ */
+export function createOsrmRouter(baseUrl: string, fetchImpl: typeof fetch = fetch, timeoutMs = 5000): DistanceRouter {
+  const base = baseUrl.replace(/\/+$/, "");
+  return {
+    name: "osrm",
+    source: "route",
+    async distanceKm(from, to) {
+      const url = `${base}/route/v1/driving/${from.lng},${from.lat};${to.lng},${to.lat}?overview=false`;
+      const response = await fetchImpl(url, { signal: AbortSignal.timeout(timeoutMs) });
+      if (!response.ok) return null;
+      const body = (await response.json()) as { code?: string; routes?: Array<{ distance: number }> };
+      const meters = body.code === "Ok" ? body.routes?.[0]?.distance : undefined;
+      return typeof meters === "number" ? meters / 1000 : null;
+    },
+  };
+}
@@ -0,0 +1,124 @@
+import { straightLineDistanceKm, type GeoPoint } from "../../../shared/mileage";
+import type { PerDiemDayKind } from "../../../shared/perDiem";
+
+/** Sites at least this far from home are assumed to need an overnight stay */
+export const DEFAULT_OVERNIGHT_DISTANCE_KM = 100;
+
+export interface PerDiemCheckin {
+  id: number;
+  projectId: number;
+  checkInTime: Date;
+  checkOutTime: Date;
+  /** Position of the check-in, or the project's coordinates */
+  location: GeoPoint | null;
+}
+
+export interface PerDiemAbsenceDay {
+  /** Local calendar day, YYYY-MM-DD */
+  date: string;
+  kind: PerDiemDayKind;
+  /** Hours away on this day; for a day trip the whole absence */
+  hours: number;
+}
+
+export interface PerDiemAbsence {
+  startsAt: Date;
+  endsAt: Date;
+  overnight: boolean;
+  checkinIds: number[];
+  projectIds: number[];
+  days: PerDiemAbsenceDay[];
+}
+
+export interface DeriveAbsencesOptions {
+  /** Company address; without it no overnight stays are assumed */
+  home: GeoPoint | null;
+  overnightDistanceKm?: number;
+}
+
+const HOUR_MS = 60 * 60 * 1000;
+
+export const toDateKey = (date: Date) =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, "0")}-${String(date.getDate()).padStart(2, "0")}`;
+
+const startOfDay = (date: Date) => new Date(date.getFullYear(), date.getMonth(), date.getDate());
+
+const addDays = (date: Date, days: number) => new Date(date.getFullYear(), date.getMonth(), date.getDate() + days);
+
+const roundHours = (ms: number) => Math.round((ms / HOUR_MS) * 10) / 10;
+
+interface AbsenceGroup {
+  checkins: PerDiemCheckin[];
+  startsAt: Date;
+  endsAt: Date;
+  overnight: boolean;
+}
+
+function buildDays(group: AbsenceGroup): PerDiemAbsenceDay[] {
+  const { startsAt, endsAt } = group;
+
+  if (!group.overnight) {
+    // Over midnight without a stay counts for the day with most of the hours
+    const midnight = addDays(startsAt, 1);
+    const date = endsAt > midnight && endsAt.getTime() - midnight.getTime() > midnight.getTime() - startsAt.getTime()
+      ? endsAt
+      : startsAt;
+    return [{ date: toDateKey(date), kind: "single", hours: roundHours(endsAt.getTime() - startsAt.getTime()) }];
+  }
+
+  const days: PerDiemAbsenceDay[] = [];
+  const lastDay = startOfDay(endsAt).getTime();
+  for (let day = startOfDay(startsAt); day.getTime() <= lastDay; day = addDays(day, 1)) {
+    const from = Math.max(day.getTime(), startsAt.getTime());
+    const to = Math.min(addDays(day, 1).getTime(), endsAt.getTime());
+    const kind: PerDiemDayKind =
+      day.getTime() === startOfDay(startsAt).getTime() ? "arrival" : day.getTime() === lastDay ? "departure" : "full";
+    days.push({ date: toDateKey(day), kind, hours: roundHours(to - from) });
+  }
+  return days;
+}
+
+/**
+ * Group completed check-ins into absences from home. Check-ins on the same
+ * day belong to one absence; check-ins on consecutive days are joined by an
+ * overnight stay when both sites are far from home. Each absence starts with
+ * its first check-in and ends with its last check-out, so travel time is not
+ * included.
+ */
+export function deriveAbsences(checkins: PerDiemCheckin[], options: DeriveAbsencesOptions): PerDiemAbsence[] {
+  const { home, overnightDistanceKm = DEFAULT_OVERNIGHT_DISTANCE_KM } = options;
+  const isAway = (location: GeoPoint | null) =>
+    home !== null && location !== null && straightLineDistanceKm(home, location) >= overnightDistanceKm;
+
+  const sorted = checkins
+    .filter((checkin) => checkin.checkOutTime > checkin.checkInTime)
+    .sort((a, b) => a.checkInTime.getTime() - b.checkInTime.getTime());
+
+  const groups: AbsenceGroup[] = [];
+  for (const checkin of sorted) {
+    const current = groups[groups.length - 1];
+    if (current) {
+      const last = current.checkins[current.checkins.length - 1];
+      const sameDay = toDateKey(checkin.checkInTime) === toDateKey(current.endsAt) || checkin.checkInTime <= current.endsAt;
+      const nextDay = toDateKey(checkin.checkInTime) === toDateKey(addDays(current.endsAt, 1));
+      const staysOvernight = nextDay && isAway(last.location) && isAway(checkin.location);
+
+      if (sameDay || staysOvernight) {
+        current.checkins.push(checkin);
+        if (checkin.checkOutTime > current.endsAt) current.endsAt = checkin.checkOutTime;
+        current.overnight = current.overnight || staysOvernight;
+        continue;
+      }
+    }
+    groups.push({ checkins: [checkin], startsAt: checkin.checkInTime, endsAt: checkin.checkOutTime, overnight: false });
+  }
+
+  return groups.map((group) => ({
+    startsAt: group.startsAt,
+    endsAt: group.endsAt,
+    overnight: group.overnight,
+    checkinIds: group.checkins.map((checkin) => checkin.id),
+    projectIds: Array.from(new Set(group.checkins.map((checkin) => checkin.projectId))),
+    days: buildDays(group),
+  }));
+}
@@ -0,0 +1,57 @@
+import {
+  MEALS,
+  NO_MEALS_PROVIDED,
+  PER_DIEM_DAY_KIND_EXPORT_LABELS,
+  calculatePerDiemDay,
+  type Meal,
+  type PerDiemDayAmount,
+  type ProvidedMeals,
+} from "../../../shared/perDiem";
+import type { PerDiemAbsence, PerDiemAbsenceDay } from "./absences";
+
+export interface PerDiemClaimDay extends PerDiemAbsenceDay, PerDiemDayAmount {
+  meals: ProvidedMeals;
+}
+
+export interface PerDiemClaim {
+  days: PerDiemClaimDay[];
+  totalCents: number;
+}
+
+const MEAL_EXPORT_LABELS: Record<Meal, string> = {
+  breakfast: "Frühstück",
+  lunch: "Mittagessen",
+  dinner: "Abendessen",
+};
+
+/** Allowance per day of the absence; days without an entry had no meals provided */
+export function calculatePerDiemClaim(
+  absence: PerDiemAbsence,
+  mealsByDate: Record<string, ProvidedMeals> = {}
+): PerDiemClaim {
+  const days = absence.days.map((day) => {
+    const meals = mealsByDate[day.date] ?? NO_MEALS_PROVIDED;
+    return { ...day, meals, ...calculatePerDiemDay(day.kind, day.hours, meals) };
+  });
+  return { days, totalCents: days.reduce((sum, day) => sum + day.amountCents, 0) };
+}
+
+const formatDay = (date: string) => date.split("-").reverse().join(".");
+
+const formatEuro = (cents: number) =>
+  (cents / 100).toLocaleString("de-DE", { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+
+/** German breakdown for the expense, one line per day */
+export function describePerDiemClaim(claim: PerDiemClaim, projectNames: string[]): string {
+  const lines = claim.days.map((day) => {
+    const provided = MEALS.filter((meal) => day.meals[meal]).map((meal) => MEAL_EXPORT_LABELS[meal]);
+    const reduction = day.reductionCents > 0
+      ? ` abzgl. ${formatEuro(day.reductionCents)} € (${provided.join(", ")} gestellt)`
+      : "";
+    return `${formatDay(day.date)} ${PER_DIEM_DAY_KIND_EXPORT_LABELS[day.kind]} (${day.hours.toLocaleString("de-DE")} Std.): ${formatEuro(day.allowanceCents)} €${reduction}`;
+  });
+  if (projectNames.length > 0) {
+    lines.unshift(`Projekt: ${projectNames.join(", ")}`);
+  }
+  return lines.join("\n");
+}
@@ -0,0 +1,4 @@
+export { DEFAULT_OVERNIGHT_DISTANCE_KM, deriveAbsences, toDateKey } from "./absences";
+export type { DeriveAbsencesOptions, PerDiemAbsence, PerDiemAbsenceDay, PerDiemCheckin } from "./absences";
+export { calculatePerDiemClaim, describePerDiemClaim } from "./claim";
+export type { PerDiemClaim, PerDiemClaimDay } from "./claim";
@@ -0,0 +1,88 @@
+import { describe, expect, it } from "vitest";
+import { calculatePerDiemDay } from "../../../shared/perDiem";
+import { calculatePerDiemClaim, deriveAbsences, describePerDiemClaim, type PerDiemCheckin } from "./index";
+
+const home = { lat: 52.52, lng: 13.405 }; // Berlin
+const nearby = { lat: 52.3906, lng: 13.0645 }; // Potsdam
+const faraway = { lat: 51.3397, lng: 12.3731 }; // Leipzig
+
+let nextId = 1;
+function checkin(start: [number, number, number, number], end: [number, number, number, number], location = faraway): PerDiemCheckin {
+  const [month, day, hour, minute] = start;
+  const [endMonth, endDay, endHour, endMinute] = end;
+  return {
+    id: nextId++,
+    projectId: 7,
+    checkInTime: new Date(2025, month - 1, day, hour, minute),
+    checkOutTime: new Date(2025, endMonth - 1, endDay, endHour, endMinute),
+    location,
+  };
+}
+
+describe("calculatePerDiemDay", () => {
+  it("applies the statutory rates and meal reductions", () => {
+    expect(calculatePerDiemDay("single", 8, { breakfast: false, lunch: false, dinner: false }).amountCents).toBe(0);
+    expect(calculatePerDiemDay("single", 9.5, { breakfast: false, lunch: false, dinner: false }).amountCents).toBe(1400);
+    expect(calculatePerDiemDay("full", 24, { breakfast: true, lunch: false, dinner: true })).toEqual({
+      allowanceCents: 2800,
+      reductionCents: 1680,
+      amountCents: 1120,
+    });
+    // Reductions never take the allowance below zero
+    expect(calculatePerDiemDay("departure", 10, { breakfast: true, lunch: true, dinner: false })).toEqual({
+      allowanceCents: 1400,
+      reductionCents: 1400,
+      amountCents: 0,
+    });
+  });
+});
+
+describe("deriveAbsences", () => {
+  it("joins check-ins of one day into a day trip", () => {
+    const absences = deriveAbsences(
+      [checkin([3, 10, 7, 0], [3, 10, 11, 30], nearby), checkin([3, 10, 12, 15], [3, 10, 16, 45], nearby)],
+      { home }
+    );
+    expect(absences).toHaveLength(1);
+    expect(absences[0]).toMatchObject({ overnight: false, days: [{ date: "2025-03-10", kind: "single", hours: 9.8 }] });
+  });
+
+  it("assumes overnight stays only at distant sites", () => {
+    const week = [
+      checkin([3, 10, 9, 0], [3, 10, 18, 0]),
+      checkin([3, 11, 7, 30], [3, 11, 17, 0]),
+      checkin([3, 12, 7, 30], [3, 12, 14, 0]),
+    ];
+    const [trip] = deriveAbsences(week, { home });
+    expect(trip.overnight).toBe(true);
+    expect(trip.days.map((day) => [day.date, day.kind])).toEqual([
+      ["2025-03-10", "arrival"],
+      ["2025-03-11", "full"],
+      ["2025-03-12", "departure"],
+    ]);
+
+    const commute = week.map((item) => ({ ...item, location: nearby }));
+    expect(deriveAbsences(commute, { home }).map((absence) => absence.days.length)).toEqual([1, 1, 1]);
+    expect(deriveAbsences(week, { home: null })).toHaveLength(3);
+  });
+
+  it("counts a day trip over midnight for the day with most hours", () => {
+    const [absence] = deriveAbsences([checkin([3, 10, 20, 0], [3, 11, 7, 0], nearby)], { home });
+    expect(absence.days).toEqual([{ date: "2025-03-11", kind: "single", hours: 11 }]);
+  });
+});
+
+describe("calculatePerDiemClaim", () => {
+  it("totals the days and describes them for the expense", () => {
+    const [trip] = deriveAbsences([checkin([3, 10, 9, 0], [3, 10, 18, 0]), checkin([3, 11, 7, 30], [3, 11, 17, 0])], { home });
+    const claim = calculatePerDiemClaim(trip, { "2025-03-11": { breakfast: true, lunch: false, dinner: false } });
+
+    expect(claim.days.map((day) => day.amountCents)).toEqual([1400, 840]);
+    expect(claim.totalCents).toBe(2240);
+    expect(describePerDiemClaim(claim, ["Baustelle Leipzig"]).split("\n")).toEqual([
+      "Projekt: Baustelle Leipzig",
+      "10.03.2025 Anreisetag (15 Std.): 14,00 €",
+      "11.03.2025 Abreisetag (17 Std.): 14,00 € abzgl. 5,60 € (Frühstück gestellt)",
+    ]);
+  });
+});
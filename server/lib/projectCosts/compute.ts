@@ -0,0 +1,143 @@
+import type { ExpenseCategory } from "../../../shared/expenseCategories";
+import { isUnconvertedExpense } from "../../../shared/exchangeRates";
+import {
+  getExpenseAccountingLines,
+  getExpenseLineAmounts,
+  type ExpenseVatMode,
+  type SplittableExpense,
+} from "../../../shared/expenseSplits";
+
+export interface ProjectCostExpense extends SplittableExpense {
+  id: number;
+  supplierName: string;
+  expenseDate: Date;
+  status: "needs_review" | "in_order" | "void";
+  vatMode: ExpenseVatMode;
+  jobId: number | null;
+  /** EUR once converted; foreign-currency expenses without an EUR amount are left out */
+  currency: string;
+  grossAmountEurCents?: number | null;
+}
+
+export interface ProjectCostInvoice {
+  id: number;
+  invoiceNumber: string | null;
+  issueDate: Date;
+  /** Net amount; negative for cancellations */
+  subtotal: number;
+}
+
+export interface ProjectCostCheckin {
+  checkInTime: Date;
+  checkOutTime: Date | null;
+}
+
+export interface ProjectCostLine {
+  expenseId: number;
+  supplierName: string;
+  expenseDate: Date;
+  category: ExpenseCategory | null;
+  jobId: number | null;
+  status: ProjectCostExpense["status"];
+  /** Line of a split expense rather than the whole expense */
+  isSplit: boolean;
+  net: number;
+}
+
+export interface ProjectCosts {
+  revenue: { net: number; invoiceCount: number };
+  costs: {
+    net: number;
+    lines: ProjectCostLine[];
+    byCategory: Array<{ category: ExpenseCategory | null; net: number }>;
+    /** Lines whose expense is still waiting for review */
+    pendingReviewCount: number;
+    /** Foreign-currency expenses left out of the costs until their exchange rate is entered */
+    unconvertedCount: number;
+  };
+  hours: { total: number; checkinCount: number; openCheckins: number };
+  margin: number;
+  /** Margin in percent of revenue; null without revenue */
+  marginPct: number | null;
+  /** Margin per checked-in hour; null without hours */
+  marginPerHour: number | null;
+}
+
+function round2(value: number) {
+  return Math.round((value + Number.EPSILON) * 100) / 100;
+}
+
+/**
+ * Job costing for one project. Costs are the business share of the net
+ * amounts (deductible input VAT removed) of the expense lines assigned to
+ * the project; void expenses and foreign-currency expenses without an EUR
+ * amount don't count. Revenue is the net total of the issued invoices
+ * including cancellations.
+ */
+export function computeProjectCosts(
+  projectId: number,
+  input: { expenses: ProjectCostExpense[]; invoices: ProjectCostInvoice[]; checkins: ProjectCostCheckin[] }
+): ProjectCosts {
+  const lines: ProjectCostLine[] = [];
+  let unconvertedCount = 0;
+  for (const expense of input.expenses) {
+    if (expense.status === "void") continue;
+    if (isUnconvertedExpense(expense)) {
+      unconvertedCount++;
+      continue;
+    }
+    const isSplit = Boolean(expense.splits && expense.splits.length > 0);
+    for (const line of getExpenseAccountingLines(expense)) {
+      if (line.projectId !== projectId) continue;
+      const amounts = getExpenseLineAmounts(line, expense.vatMode);
+      lines.push({
+        expenseId: expense.id,
+        supplierName: expense.supplierName,
+        expenseDate: expense.expenseDate,
+        category: line.category,
+        // The job belongs to the expense's own project
+        jobId: expense.projectId === projectId ? expense.jobId : null,
+        status: expense.status,
+        isSplit,
+        net: round2((amounts.grossCents - amounts.vatCents) / 100),
+      });
+    }
+  }
+
+  const byCategory = new Map<ExpenseCategory | null, number>();
+  for (const line of lines) {
+    byCategory.set(line.category, (byCategory.get(line.category) ?? 0) + line.net);
+  }
+
+  let hoursMs = 0;
+  let openCheckins = 0;
+  for (const checkin of input.checkins) {
+    if (!checkin.checkOutTime) {
+      openCheckins++;
+      continue;
+    }
+    hoursMs += Math.max(0, checkin.checkOutTime.getTime() - checkin.checkInTime.getTime());
+  }
+  const hours = Math.round((hoursMs / (60 * 60 * 1000)) * 100) / 100;
+
+  const revenue = round2(input.invoices.reduce((sum, invoice) => sum + invoice.subtotal, 0));
+  const costs = round2(lines.reduce((sum, line) => sum + line.net, 0));
+  const margin = round2(revenue - costs);
+
+  return {
+    revenue: { net: revenue, invoiceCount: input.invoices.length },
+    costs: {
+      net: costs,
+      lines: lines.sort((a, b) => b.expenseDate.getTime() - a.expenseDate.getTime()),
+      byCategory: Array.from(byCategory.entries())
+        .map(([category, net]) => ({ category, net: round2(net) }))
+        .sort((a, b) => b.net - a.net),
+      pendingReviewCount: lines.filter((line) => line.status === "needs_review").length,
+      unconvertedCount,
+    },
+    hours: { total: hours, checkinCount: input.checkins.length - openCheckins, openCheckins },
+    margin,
+    marginPct: revenue !== 0 ? round2((margin / revenue) * 100) : null,
+    marginPerHour: hours > 0 ? round2(margin / hours) : null,
+  };
+}
@@ -0,0 +1,8 @@
+export { computeProjectCosts } from "./compute";
+export type {
+  ProjectCostCheckin,
+  ProjectCostExpense,
+  ProjectCostInvoice,
+  ProjectCostLine,
+  ProjectCosts,
+} from "./compute";
@@ -0,0 +1,75 @@
+import { describe, expect, it } from "vitest";
+import { computeProjectCosts, type ProjectCostExpense } from "./index";
+
+const expense: ProjectCostExpense = {
+  id: 1,
+  supplierName: "Baumarkt",
+  expenseDate: new Date(2025, 2, 10),
+  status: "in_order",
+  grossAmountCents: 11900,
+  vatMode: "german",
+  vatRate: "19",
+  vatAmountCents: 1900,
+  businessUsePct: 100,
+  category: "repairs",
+  projectId: 5,
+  jobId: 12,
+  currency: "EUR",
+};
+
+describe("computeProjectCosts", () => {
+  it("combines net costs, revenue and hours into the margin", () => {
+    const costs = computeProjectCosts(5, {
+      expenses: [
+        expense,
+        { ...expense, id: 2, status: "void" },
+        { ...expense, id: 3, vatMode: "none", status: "needs_review" },
+        { ...expense, id: 4, currency: "USD", grossAmountEurCents: null },
+      ],
+      invoices: [
+        { id: 1, invoiceNumber: "RE-1", issueDate: new Date(2025, 2, 20), subtotal: 1000 },
+        { id: 2, invoiceNumber: "RE-2", issueDate: new Date(2025, 2, 25), subtotal: 500 },
+      ],
+      checkins: [
+        { checkInTime: new Date(2025, 2, 10, 8, 0), checkOutTime: new Date(2025, 2, 10, 16, 30) },
+        { checkInTime: new Date(2025, 2, 11, 8, 0), checkOutTime: new Date(2025, 2, 11, 10, 0) },
+        { checkInTime: new Date(2025, 2, 12, 8, 0), checkOutTime: null },
+      ],
+    });
+
+    expect(costs.revenue).toEqual({ net: 1500, invoiceCount: 2 });
+    expect(costs.costs.net).toBe(219);
+    expect(costs.costs.pendingReviewCount).toBe(1);
+    expect(costs.costs.unconvertedCount).toBe(1);
+    expect(costs.hours).toEqual({ total: 10.5, checkinCount: 2, openCheckins: 1 });
+    expect(costs.margin).toBe(1281);
+    expect(costs.marginPct).toBe(85.4);
+    expect(costs.marginPerHour).toBe(122);
+  });
+
+  it("only counts the split lines assigned to the project", () => {
+    const costs = computeProjectCosts(5, {
+      expenses: [
+        {
+          ...expense,
+          grossAmountCents: 22600,
+          vatAmountCents: null,
+          splits: [
+            { grossAmountCents: 11900, category: "repairs", vatRate: "19", projectId: null, businessUsePct: 100 },
+            { grossAmountCents: 5350, category: "equipment", vatRate: "7", projectId: 6, businessUsePct: 100 },
+            { grossAmountCents: 5350, category: "other", vatRate: "7", projectId: 5, businessUsePct: 0 },
+          ],
+        },
+      ],
+      invoices: [],
+      checkins: [],
+    });
+
+    expect(costs.costs.lines.map((line) => [line.category, line.net, line.jobId, line.isSplit])).toEqual([
+      ["repairs", 100, 12, true],
+      ["other", 0, 12, true],
+    ]);
+    expect(costs.marginPct).toBeNull();
+    expect(costs.marginPerHour).toBeNull();
+  });
+});
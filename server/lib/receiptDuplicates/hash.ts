@@ -0,0 +1,51 @@
+import { createHash } from "crypto";
+import sharp from "sharp";
+
+/** SHA-256 of the file content, hex */
+export function hashReceiptContent(data: Buffer): string {
+  return createHash("sha256").update(data).digest("hex");
+}
+
+export function isHashableImage(mimeType: string): boolean {
+  return mimeType.toLowerCase().startsWith("image/");
+}
+
+/**
+ * 64-bit difference hash (dHash) of an image, hex. The image is reduced to
+ * 9x8 grey pixels and each bit tells whether a pixel is brighter than its
+ * right neighbour, so rescans, recompression and small crops keep most bits.
+ */
+export async function perceptualHash(data: Buffer): Promise<string> {
+  const pixels = await sharp(data)
+    .rotate()
+    .greyscale()
+    .resize(9, 8, { fit: "fill" })
+    .raw()
+    .toBuffer();
+
+  let hex = "";
+  for (let row = 0; row < 8; row++) {
+    for (let nibble = 0; nibble < 2; nibble++) {
+      let value = 0;
+      for (let bit = 0; bit < 4; bit++) {
+        const col = nibble * 4 + bit;
+        value = (value << 1) | (pixels[row * 9 + col] > pixels[row * 9 + col + 1] ? 1 : 0);
+      }
+      hex += value.toString(16);
+    }
+  }
+  return hex;
+}
+
+/** Number of differing bits between two perceptual hashes */
+export function hammingDistance(a: string, b: string): number {
+  let count = 0;
+  for (let i = 0; i < Math.max(a.length, b.length); i++) {
+    let diff = parseInt(a[i] ?? "0", 16) ^ parseInt(b[i] ?? "0", 16);
+    while (diff > 0) {
+      count += diff & 1;
+      diff >>= 1;
+    }
+  }
+  return count;
+}
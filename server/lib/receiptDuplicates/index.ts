@@ -0,0 +1,3 @@
+export { hammingDistance, hashReceiptContent, isHashableImage, perceptualHash } from "./hash";
+export { MAX_PERCEPTUAL_DISTANCE, findDuplicate } from "./match";
+export type { DuplicateCheckExpense, DuplicateMatch, DuplicateMatchKind, ReceiptFingerprint } from "./match";
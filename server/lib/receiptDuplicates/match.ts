@@ -0,0 +1,85 @@
+import { hammingDistance } from "./hash";
+
+export type DuplicateMatchKind = "content" | "image" | "details";
+
+export interface ReceiptFingerprint {
+  contentHash: string | null;
+  perceptualHash: string | null;
+}
+
+export interface DuplicateCheckExpense {
+  expenseId: number;
+  /** Normalized supplier name */
+  supplierKey: string;
+  expenseDate: Date;
+  grossAmountCents: number;
+  files: ReceiptFingerprint[];
+}
+
+export interface DuplicateMatch {
+  expenseId: number;
+  kind: DuplicateMatchKind;
+  confidence: number;
+  reason: string;
+}
+
+/** Images at most this many bits apart count as the same receipt */
+export const MAX_PERCEPTUAL_DISTANCE = 6;
+
+const sameDay = (a: Date, b: Date) =>
+  a.getFullYear() === b.getFullYear() && a.getMonth() === b.getMonth() && a.getDate() === b.getDate();
+
+function matchExpense(target: DuplicateCheckExpense, candidate: DuplicateCheckExpense): DuplicateMatch | null {
+  const sameContent = target.files.some(
+    (file) => file.contentHash && candidate.files.some((other) => other.contentHash === file.contentHash)
+  );
+  if (sameContent) {
+    return { expenseId: candidate.expenseId, kind: "content", confidence: 1, reason: "Identical receipt file" };
+  }
+
+  const similarImage = target.files.some(
+    (file) =>
+      file.perceptualHash &&
+      candidate.files.some(
+        (other) => other.perceptualHash && hammingDistance(file.perceptualHash!, other.perceptualHash) <= MAX_PERCEPTUAL_DISTANCE
+      )
+  );
+  if (similarImage) {
+    return { expenseId: candidate.expenseId, kind: "image", confidence: 0.9, reason: "Receipt image looks the same" };
+  }
+
+  if (
+    target.supplierKey &&
+    target.supplierKey === candidate.supplierKey &&
+    target.grossAmountCents > 0 &&
+    target.grossAmountCents === candidate.grossAmountCents &&
+    sameDay(target.expenseDate, candidate.expenseDate)
+  ) {
+    return { expenseId: candidate.expenseId, kind: "details", confidence: 0.75, reason: "Same supplier, date and amount" };
+  }
+
+  return null;
+}
+
+/**
+ * Most likely original of an expense among the candidates: identical files
+ * first, then similar images, then the same supplier, date and amount. Ties
+ * go to the oldest expense.
+ */
+export function findDuplicate(
+  target: DuplicateCheckExpense,
+  candidates: DuplicateCheckExpense[]
+): DuplicateMatch | null {
+  let best: DuplicateMatch | null = null;
+  for (const candidate of candidates) {
+    if (candidate.expenseId === target.expenseId) continue;
+    const match = matchExpense(target, candidate);
+    if (
+      match &&
+      (!best || match.confidence > best.confidence || (match.confidence === best.confidence && match.expenseId < best.expenseId))
+    ) {
+      best = match;
+    }
+  }
+  return best;
+}
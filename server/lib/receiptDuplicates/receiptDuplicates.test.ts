@@ -0,0 +1,66 @@
+import sharp from "sharp";
+import { describe, expect, it } from "vitest";
+import {
+  MAX_PERCEPTUAL_DISTANCE,
+  findDuplicate,
+  hammingDistance,
+  hashReceiptContent,
+  perceptualHash,
+  type DuplicateCheckExpense,
+} from "./index";
+
+/** Grey gradient with a dark block, as a stand-in for a scanned receipt */
+async function receiptImage(width: number, height: number, format: "png" | "jpeg") {
+  const pixels = Buffer.alloc(width * height);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const inBlock = x > width * 0.2 && x < width * 0.5 && y > height * 0.3 && y < height * 0.6;
+      pixels[y * width + x] = inBlock ? 20 : Math.round((x / width) * 200 + (y / height) * 50);
+    }
+  }
+  const image = sharp(pixels, { raw: { width, height, channels: 1 } });
+  return format === "png" ? image.png().toBuffer() : image.jpeg({ quality: 60 }).toBuffer();
+}
+
+const expense = (expenseId: number, overrides: Partial<DuplicateCheckExpense> = {}): DuplicateCheckExpense => ({
+  expenseId,
+  supplierKey: "baumarkt",
+  expenseDate: new Date(2025, 2, 10),
+  grossAmountCents: 4990,
+  files: [],
+  ...overrides,
+});
+
+describe("receipt hashes", () => {
+  it("keeps rescaled and recompressed images within the perceptual distance", async () => {
+    const original = await perceptualHash(await receiptImage(300, 400, "png"));
+    const rescan = await perceptualHash(await receiptImage(150, 200, "jpeg"));
+
+    expect(original).toMatch(/^[0-9a-f]{16}$/);
+    expect(hammingDistance(original, rescan)).toBeLessThanOrEqual(MAX_PERCEPTUAL_DISTANCE);
+    expect(hashReceiptContent(Buffer.from("a"))).not.toBe(hashReceiptContent(Buffer.from("b")));
+  });
+
+  it("counts differing bits", () => {
+    expect(hammingDistance("0000000000000000", "000000000000000f")).toBe(4);
+  });
+});
+
+describe("findDuplicate", () => {
+  it("prefers identical files over matching details", () => {
+    const target = expense(10, { files: [{ contentHash: "abc", perceptualHash: null }] });
+
+    expect(findDuplicate(target, [
+      expense(3),
+      expense(5, { supplierKey: "other", files: [{ contentHash: "abc", perceptualHash: null }] }),
+    ])).toEqual({ expenseId: 5, kind: "content", confidence: 1, reason: "Identical receipt file" });
+  });
+
+  it("matches supplier, day and amount", () => {
+    const target = expense(10, { expenseDate: new Date(2025, 2, 10, 15, 30) });
+
+    expect(findDuplicate(target, [expense(4), expense(2)])?.expenseId).toBe(2);
+    expect(findDuplicate(target, [expense(4, { grossAmountCents: 4999 }), expense(10)])).toBeNull();
+    expect(findDuplicate(expense(10, { grossAmountCents: 0 }), [expense(4, { grossAmountCents: 0 })])).toBeNull();
+  });
+});
@@ -0,0 +1,185 @@
+import {
+  SUBSCRIPTION_CADENCE_MONTHS,
+  SUBSCRIPTION_CADENCES,
+  type SubscriptionCadence,
+} from "../../../shared/subscriptions";
+
+export interface RecurringCharge {
+  expenseId: number;
+  date: Date;
+  grossAmountCents: number;
+  currency: string;
+}
+
+export interface DetectedSubscription {
+  cadence: SubscriptionCadence;
+  /** Amount of the latest charge */
+  expectedAmountCents: number;
+  currency: string;
+  firstChargedAt: Date;
+  lastChargedAt: Date;
+  lastExpenseId: number;
+  chargeCount: number;
+}
+
+export interface SubscriptionPriceChange {
+  previousAmountCents: number;
+  amountCents: number;
+  changedAt: Date;
+  changePct: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Days between two charges that still count as the cadence */
+const CADENCE_INTERVAL_DAYS: Record<SubscriptionCadence, { min: number; max: number }> = {
+  monthly: { min: 25, max: 35 },
+  quarterly: { min: 80, max: 100 },
+  yearly: { min: 350, max: 380 },
+};
+
+/** Charges needed before a supplier counts as recurring */
+const MIN_CHARGES: Record<SubscriptionCadence, number> = {
+  monthly: 3,
+  quarterly: 3,
+  yearly: 2,
+};
+
+/** Share of the intervals that have to match the cadence */
+const MIN_MATCHING_INTERVALS = 0.75;
+
+/** Charges may differ this much from the median amount, so price changes don't break detection */
+const MAX_AMOUNT_DEVIATION = 0.25;
+
+/** How far a charge may be from its expected date */
+const MATCH_TOLERANCE_DAYS: Record<SubscriptionCadence, number> = {
+  monthly: 10,
+  quarterly: 20,
+  yearly: 30,
+};
+
+/** Days after the expected date before a missing receipt is flagged */
+export const MISSING_RECEIPT_GRACE_DAYS = 7;
+
+function sortCharges(charges: RecurringCharge[]) {
+  return [...charges].sort((a, b) => a.date.getTime() - b.date.getTime() || a.expenseId - b.expenseId);
+}
+
+function median(values: number[]) {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[middle - 1] + sorted[middle]) / 2 : sorted[middle];
+}
+
+/** Same day in a later month, clamped to the month's last day */
+export function addMonths(date: Date, months: number): Date {
+  const result = new Date(date);
+  result.setDate(1);
+  result.setMonth(result.getMonth() + months);
+  const lastDay = new Date(result.getFullYear(), result.getMonth() + 1, 0).getDate();
+  result.setDate(Math.min(date.getDate(), lastDay));
+  return result;
+}
+
+function classifyInterval(days: number): SubscriptionCadence | null {
+  return SUBSCRIPTION_CADENCES.find((cadence) => {
+    const range = CADENCE_INTERVAL_DAYS[cadence];
+    return days >= range.min && days <= range.max;
+  }) ?? null;
+}
+
+/**
+ * Cadence and expected amount of a supplier's charges, or null if they don't
+ * recur: the intervals have to match one cadence and the amounts stay close
+ * to each other. Charges in another currency than the latest one are ignored.
+ */
+export function detectSubscription(charges: RecurringCharge[]): DetectedSubscription | null {
+  if (charges.length < 2) return null;
+  const latestCurrency = sortCharges(charges)[charges.length - 1].currency;
+  const sorted = sortCharges(charges.filter((charge) => charge.currency === latestCurrency));
+  if (sorted.length < 2) return null;
+
+  const intervals = sorted.slice(1).map((charge, index) =>
+    Math.round((charge.date.getTime() - sorted[index].date.getTime()) / DAY_MS)
+  );
+  const counts = new Map<SubscriptionCadence, number>();
+  for (const interval of intervals) {
+    const cadence = classifyInterval(interval);
+    if (cadence) counts.set(cadence, (counts.get(cadence) ?? 0) + 1);
+  }
+  const best = Array.from(counts.entries()).sort((a, b) => b[1] - a[1])[0];
+  if (!best) return null;
+  const [cadence, matching] = best;
+  if (matching / intervals.length < MIN_MATCHING_INTERVALS || sorted.length < MIN_CHARGES[cadence]) {
+    return null;
+  }
+
+  const typicalAmount = median(sorted.map((charge) => charge.grossAmountCents));
+  if (typicalAmount <= 0) return null;
+  const amountsRecur = sorted.every(
+    (charge) => Math.abs(charge.grossAmountCents - typicalAmount) / typicalAmount <= MAX_AMOUNT_DEVIATION
+  );
+  if (!amountsRecur) return null;
+
+  const latest = sorted[sorted.length - 1];
+  return {
+    cadence,
+    expectedAmountCents: latest.grossAmountCents,
+    currency: latestCurrency,
+    firstChargedAt: sorted[0].date,
+    lastChargedAt: latest.date,
+    lastExpenseId: latest.expenseId,
+    chargeCount: sorted.length,
+  };
+}
+
+/**
+ * Expected charge dates without a receipt, from the first charge until now.
+ * Each found charge moves the schedule to its own date; a date is only
+ * missing once the grace period after it has passed.
+ */
+export function findMissingCharges(
+  cadence: SubscriptionCadence,
+  charges: RecurringCharge[],
+  now: Date = new Date()
+): Date[] {
+  const sorted = sortCharges(charges);
+  if (sorted.length === 0) return [];
+
+  const months = SUBSCRIPTION_CADENCE_MONTHS[cadence];
+  const toleranceMs = MATCH_TOLERANCE_DAYS[cadence] * DAY_MS;
+  const missing: Date[] = [];
+  let anchor = sorted[0].date;
+
+  for (let step = 1; ; step++) {
+    const expected = addMonths(anchor, months);
+    if (expected.getTime() + MISSING_RECEIPT_GRACE_DAYS * DAY_MS > now.getTime()) break;
+    const match = sorted.find((charge) => Math.abs(charge.date.getTime() - expected.getTime()) <= toleranceMs);
+    if (match) {
+      anchor = match.date;
+    } else {
+      missing.push(expected);
+      anchor = expected;
+    }
+    // Guard against endless loops on corrupt dates
+    if (step > 1200) break;
+  }
+  return missing;
+}
+
+/** Difference between the latest charge and the one before, if the amount changed */
+export function findPriceChange(charges: RecurringCharge[]): SubscriptionPriceChange | null {
+  const sorted = sortCharges(charges);
+  if (sorted.length < 2) return null;
+  const latest = sorted[sorted.length - 1];
+  const previous = sorted[sorted.length - 2];
+  if (latest.grossAmountCents === previous.grossAmountCents || latest.currency !== previous.currency) {
+    return null;
+  }
+  return {
+    previousAmountCents: previous.grossAmountCents,
+    amountCents: latest.grossAmountCents,
+    changedAt: latest.date,
+    changePct: Math.round(((latest.grossAmountCents - previous.grossAmountCents) / previous.grossAmountCents) * 1000) / 10,
+  };
+}
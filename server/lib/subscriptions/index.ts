@@ -0,0 +1,8 @@
+export {
+  MISSING_RECEIPT_GRACE_DAYS,
+  addMonths,
+  detectSubscription,
+  findMissingCharges,
+  findPriceChange,
+} from "./detect";
+export type { DetectedSubscription, RecurringCharge, SubscriptionPriceChange } from "./detect";
@@ -0,0 +1,79 @@
+import { describe, expect, it } from "vitest";
+import { addMonths, detectSubscription, findMissingCharges, findPriceChange, type RecurringCharge } from "./index";
+
+const charge = (expenseId: number, date: Date, grossAmountCents = 1190, currency = "EUR"): RecurringCharge => ({
+  expenseId,
+  date,
+  grossAmountCents,
+  currency,
+});
+
+describe("detectSubscription", () => {
+  it("detects a monthly charge with a price change", () => {
+    const detected = detectSubscription([
+      charge(1, new Date(2025, 0, 3)),
+      charge(2, new Date(2025, 1, 3)),
+      charge(3, new Date(2025, 2, 4)),
+      charge(4, new Date(2025, 3, 3), 1428),
+    ]);
+
+    expect(detected).toMatchObject({
+      cadence: "monthly",
+      expectedAmountCents: 1428,
+      lastExpenseId: 4,
+      chargeCount: 4,
+    });
+  });
+
+  it("detects yearly charges from two payments", () => {
+    expect(detectSubscription([
+      charge(1, new Date(2024, 4, 1), 45000),
+      charge(2, new Date(2025, 4, 2), 45000),
+    ])?.cadence).toBe("yearly");
+  });
+
+  it("ignores irregular dates and amounts", () => {
+    expect(detectSubscription([
+      charge(1, new Date(2025, 0, 3)),
+      charge(2, new Date(2025, 0, 20)),
+      charge(3, new Date(2025, 3, 1)),
+    ])).toBeNull();
+    expect(detectSubscription([
+      charge(1, new Date(2025, 0, 3), 1000),
+      charge(2, new Date(2025, 1, 3), 5000),
+      charge(3, new Date(2025, 2, 3), 1000),
+    ])).toBeNull();
+  });
+});
+
+describe("findMissingCharges", () => {
+  it("flags expected dates without a receipt after the grace period", () => {
+    const charges = [
+      charge(1, new Date(2025, 0, 15)),
+      charge(2, new Date(2025, 1, 14)),
+      charge(3, new Date(2025, 3, 16)),
+    ];
+
+    expect(findMissingCharges("monthly", charges, new Date(2025, 4, 20))).toEqual([new Date(2025, 2, 14)]);
+    expect(findMissingCharges("monthly", charges, new Date(2025, 4, 24))).toEqual([
+      new Date(2025, 2, 14),
+      new Date(2025, 4, 16),
+    ]);
+  });
+
+  it("clamps month ends", () => {
+    expect(addMonths(new Date(2025, 0, 31), 1)).toEqual(new Date(2025, 1, 28));
+  });
+});
+
+describe("findPriceChange", () => {
+  it("compares the latest charge with the one before", () => {
+    expect(findPriceChange([charge(1, new Date(2025, 0, 3), 1000), charge(2, new Date(2025, 1, 3), 1250)])).toEqual({
+      previousAmountCents: 1000,
+      amountCents: 1250,
+      changedAt: new Date(2025, 1, 3),
+      changePct: 25,
+    });
+    expect(findPriceChange([charge(1, new Date(2025, 0, 3)), charge(2, new Date(2025, 1, 3))])).toBeNull();
+  });
+});
@@ -0,0 +1,317 @@
+import {
+  getInvoiceAccrualDate,
+  getInvoicePaymentShares,
+  resolveAccountingMethod,
+  resolveVatMethod,
+  type AccountingSettings,
+  type RecognizedShare,
+} from "../../../shared/accountingDate";
+import { isUnconvertedExpense } from "../../../shared/exchangeRates";
+import {
+  getExpenseAccountingLines,
+  getExpenseLineAmounts,
+  type ExpenseSplitLine,
+  type ExpenseVatMode,
+} from "../../../shared/expenseSplits";
+import {
+  calculateStoredInvoiceVatBreakdown,
+  type VatBreakdownEntry,
+  type VatLineInput,
+} from "../../../shared/invoiceVat";
+import {
+  USTVA_FIELD_CODES,
+  USTVA_FIELD_LABELS,
+  type TaxReport,
+  type TaxReportPeriod,
+  type TaxReportUnconvertedExpense,
+  type TaxReportVatGroup,
+  type UstvaFieldCode,
+  type UstvaLine,
+} from "../../../shared/taxReport";
+
+export interface TaxReportInvoice {
+  id: number;
+  type: "standard" | "cancellation";
+  cancelledInvoiceId: number | null;
+  issueDate: Date;
+  servicePeriodEnd: Date | null;
+  subtotal: number;
+  vatAmount: number;
+  total: number;
+  items: VatLineInput[];
+  /** Payments received on this invoice */
+  payments: Array<{ amount: number; paidAt: Date }>;
+}
+
+export interface TaxReportExpense {
+  id: number;
+  supplierName: string;
+  /** EUR once converted; foreign-currency expenses without an EUR amount are left out */
+  currency: string;
+  grossAmountEurCents?: number | null;
+  grossAmountCents: number;
+  vatMode: ExpenseVatMode;
+  vatRate: "0" | "7" | "19" | null;
+  vatAmountCents: number | null;
+  businessUsePct: number;
+  expenseDate: Date;
+  paymentStatus: "paid" | "unpaid";
+  paymentDate: Date | null;
+  /** Split lines replace the fields above */
+  splits?: ExpenseSplitLine[];
+}
+
+export interface TaxReportInput {
+  period: TaxReportPeriod;
+  settings: AccountingSettings & { vatRate?: string | number | null };
+  invoices: TaxReportInvoice[];
+  /** Totals of the invoices cancelled by cancellations in `invoices` */
+  cancelledInvoices: Array<{ id: number; total: number; amountPaid: number }>;
+  expenses: TaxReportExpense[];
+}
+
+interface InvoiceShare extends RecognizedShare {
+  invoiceId: number;
+}
+
+function round2(value: number) {
+  const rounded = Math.round((Math.abs(value) + Number.EPSILON) * 100) / 100;
+  return value < 0 ? -rounded : rounded;
+}
+
+function inPeriod(date: Date | null, period: TaxReportPeriod) {
+  return date !== null && date >= period.from && date <= period.to;
+}
+
+/**
+ * Accrual view (Bilanz, Soll-Versteuerung): the whole invoice on its accrual
+ * date (see shared/accountingDate)
+ */
+function accrualShares(invoice: TaxReportInvoice): InvoiceShare[] {
+  return [{ invoiceId: invoice.id, date: getInvoiceAccrualDate(invoice) ?? invoice.issueDate, share: 1 }];
+}
+
+/**
+ * Cash view (EÜR, Ist-Versteuerung): each payment in proportion to the invoice
+ * total. A cancellation reverses what had been received on the original.
+ */
+function cashShares(invoice: TaxReportInvoice, cancelledInvoices: Map<number, { total: number; amountPaid: number }>) {
+  if (invoice.type === "cancellation") {
+    const original = invoice.cancelledInvoiceId ? cancelledInvoices.get(invoice.cancelledInvoiceId) : undefined;
+    if (!original || original.total === 0 || original.amountPaid === 0) return [];
+    return [{ invoiceId: invoice.id, date: invoice.issueDate, share: Math.min(1, original.amountPaid / original.total) }];
+  }
+  return getInvoicePaymentShares(invoice).map((share) => ({ invoiceId: invoice.id, ...share }));
+}
+
+function groupKey(entry: { category: string; rate: number }) {
+  return `${entry.category}:${entry.rate}`;
+}
+
+function sumGroups(
+  shares: InvoiceShare[],
+  breakdowns: Map<number, VatBreakdownEntry[]>,
+  period: TaxReportPeriod
+) {
+  const groups = new Map<string, TaxReportVatGroup>();
+  const invoiceIds = new Set<number>();
+  for (const { invoiceId, date, share } of shares) {
+    if (!inPeriod(date, period)) continue;
+    invoiceIds.add(invoiceId);
+    for (const entry of breakdowns.get(invoiceId) ?? []) {
+      const group = groups.get(groupKey(entry)) ?? { category: entry.category, rate: entry.rate, net: 0, vat: 0 };
+      group.net += entry.netAmount * share;
+      group.vat += entry.vatAmount * share;
+      groups.set(groupKey(entry), group);
+    }
+  }
+  const rounded = Array.from(groups.values())
+    .map((group) => ({ ...group, net: round2(group.net), vat: round2(group.vat) }))
+    .filter((group) => group.net !== 0 || group.vat !== 0)
+    .sort((a, b) => b.rate - a.rate);
+  return { groups: rounded, invoiceCount: invoiceIds.size };
+}
+
+function expenseAmounts(expense: TaxReportExpense) {
+  let gross = 0;
+  let vat = 0;
+  let reverseChargeBase = 0;
+  let reverseChargeVat = 0;
+  for (const line of getExpenseAccountingLines(expense)) {
+    const amounts = getExpenseLineAmounts(line, expense.vatMode);
+    gross += amounts.grossCents / 100;
+    vat += amounts.vatCents / 100;
+    if (expense.vatMode === "reverse_charge") {
+      reverseChargeBase += line.grossAmountCents / 100;
+      reverseChargeVat += amounts.reverseChargeVatCents / 100;
+    }
+  }
+  return { gross, vat, reverseChargeBase, reverseChargeVat };
+}
+
+interface ReverseChargeTotals {
+  base: number;
+  vat: number;
+  inputVat: number;
+}
+
+/** Assessment bases are declared in whole euros, cents are dropped */
+function wholeEuros(amount: number) {
+  return Math.trunc(amount);
+}
+
+/**
+ * Reverse-charge services received are declared in Kz 84/85 with their
+ * deductible part in Kz 67; Kz 66 keeps the input VAT from invoices
+ */
+function buildUstva(
+  groups: TaxReportVatGroup[],
+  inputVat: number,
+  reverseCharge: ReverseChargeTotals,
+  vatBalance: number
+): UstvaLine[] {
+  const lines = new Map<UstvaFieldCode, { base: number; tax: number | null }>();
+  const add = (code: UstvaFieldCode, net: number, tax: number | null) => {
+    const line = lines.get(code) ?? { base: 0, tax: tax === null ? null : 0 };
+    line.base += net;
+    if (tax !== null) line.tax = (line.tax ?? 0) + tax;
+    lines.set(code, line);
+  };
+
+  for (const group of groups) {
+    switch (group.category) {
+      case "standard":
+        add(group.rate === 19 ? "81" : group.rate === 7 ? "86" : "35", group.net, group.vat);
+        break;
+      case "zero":
+        add("48", group.net, null);
+        break;
+      case "intra_eu":
+        add("41", group.net, null);
+        break;
+      case "reverse_charge":
+        add("60", group.net, null);
+        break;
+    }
+  }
+
+  if (reverseCharge.base !== 0) {
+    add("84", reverseCharge.base, reverseCharge.vat);
+  }
+
+  const ustva: UstvaLine[] = Array.from(lines.entries()).map(([code, line]) => ({
+    code,
+    label: USTVA_FIELD_LABELS[code],
+    base: wholeEuros(line.base),
+    tax: line.tax === null ? null : round2(line.tax),
+  }));
+  const invoiceInputVat = round2(inputVat - reverseCharge.inputVat);
+  if (invoiceInputVat !== 0) {
+    ustva.push({ code: "66", label: USTVA_FIELD_LABELS["66"], base: null, tax: invoiceInputVat });
+  }
+  if (reverseCharge.inputVat !== 0) {
+    ustva.push({ code: "67", label: USTVA_FIELD_LABELS["67"], base: null, tax: reverseCharge.inputVat });
+  }
+  ustva.push({ code: "83", label: USTVA_FIELD_LABELS["83"], base: null, tax: vatBalance });
+
+  return ustva.sort((a, b) => USTVA_FIELD_CODES.indexOf(a.code) - USTVA_FIELD_CODES.indexOf(b.code));
+}
+
+export function computeTaxReport(input: TaxReportInput): TaxReport {
+  const { period, settings } = input;
+  const accountingMethod = resolveAccountingMethod(settings);
+  const vatMethod = resolveVatMethod(settings);
+  const isKleinunternehmer = Boolean(settings.isKleinunternehmer);
+  const defaultRate = Number(settings.vatRate ?? 19) || 19;
+
+  // Kleinunternehmer invoices carry no VAT; their total is income
+  const breakdowns = new Map<number, VatBreakdownEntry[]>(
+    input.invoices.map((invoice) => [
+      invoice.id,
+      isKleinunternehmer
+        ? [{ category: "zero", rate: 0, netAmount: invoice.total, vatAmount: 0 }]
+        : calculateStoredInvoiceVatBreakdown(invoice, { defaultRate }),
+    ])
+  );
+  const cancelledInvoices = new Map(input.cancelledInvoices.map((invoice) => [invoice.id, invoice]));
+  const accrual = input.invoices.flatMap(accrualShares);
+  const cash = input.invoices.flatMap((invoice) => cashShares(invoice, cancelledInvoices));
+
+  const income = sumGroups(accountingMethod === "EÜR" ? cash : accrual, breakdowns, period);
+  const incomeNet = round2(income.groups.reduce((sum, group) => sum + group.net, 0));
+  const incomeVat = round2(income.groups.reduce((sum, group) => sum + group.vat, 0));
+
+  let expenseCount = 0;
+  let expenseGross = 0;
+  let expenseVat = 0;
+  let inputVat = 0;
+  const reverseCharge: ReverseChargeTotals = { base: 0, vat: 0, inputVat: 0 };
+  const unconvertedExpenses: TaxReportUnconvertedExpense[] = [];
+  for (const expense of input.expenses) {
+    const costDate = accountingMethod === "EÜR"
+      ? expense.paymentStatus === "paid" ? expense.paymentDate ?? expense.expenseDate : null
+      : expense.expenseDate;
+    if (isUnconvertedExpense(expense)) {
+      if (inPeriod(costDate, period) || (vatMethod && inPeriod(expense.expenseDate, period))) {
+        unconvertedExpenses.push({
+          id: expense.id,
+          supplierName: expense.supplierName,
+          expenseDate: expense.expenseDate,
+          currency: expense.currency,
+          grossAmountCents: expense.grossAmountCents,
+        });
+      }
+      continue;
+    }
+    const amounts = expenseAmounts(expense);
+    if (inPeriod(costDate, period)) {
+      expenseCount++;
+      expenseGross += amounts.gross;
+      expenseVat += isKleinunternehmer ? 0 : amounts.vat;
+    }
+    // Input tax is deductible once the invoice is received, regardless of payment;
+    // reverse-charge VAT is owed for the same period it is deducted in
+    if (vatMethod && inPeriod(expense.expenseDate, period)) {
+      inputVat += amounts.vat;
+      if (expense.vatMode === "reverse_charge") {
+        reverseCharge.base += amounts.reverseChargeBase;
+        reverseCharge.vat += amounts.reverseChargeVat;
+        reverseCharge.inputVat += amounts.vat;
+      }
+    }
+  }
+  expenseGross = round2(expenseGross);
+  expenseVat = round2(expenseVat);
+  inputVat = round2(inputVat);
+  reverseCharge.vat = round2(reverseCharge.vat);
+  reverseCharge.inputVat = round2(reverseCharge.inputVat);
+
+  const vatGroups = vatMethod
+    ? sumGroups(vatMethod === "IST" ? cash : accrual, breakdowns, period).groups
+    : [];
+  const outputVat = round2(vatGroups.reduce((sum, group) => sum + group.vat, 0));
+  const vatBalance = round2(outputVat + reverseCharge.vat - inputVat);
+  const expenseNet = round2(expenseGross - expenseVat);
+
+  return {
+    period,
+    accountingMethod,
+    vatMethod,
+    isKleinunternehmer,
+    income: {
+      net: incomeNet,
+      vat: incomeVat,
+      gross: round2(incomeNet + incomeVat),
+      invoiceCount: income.invoiceCount,
+    },
+    expenses: { net: expenseNet, vat: expenseVat, gross: expenseGross, expenseCount },
+    result: round2(incomeNet - expenseNet),
+    vatGroups,
+    outputVat,
+    reverseChargeVat: reverseCharge.vat,
+    inputVat,
+    vatBalance,
+    ustva: vatMethod ? buildUstva(vatGroups, inputVat, reverseCharge, vatBalance) : [],
+    unconvertedExpenses,
+  };
+}
@@ -0,0 +1,80 @@
+import { formatVatLabel } from "../../../shared/invoiceVat";
+import type { TaxReport } from "../../../shared/taxReport";
+
+type Cell = string | number | null;
+
+function formatAmount(value: number | null) {
+  return value === null ? "" : value.toFixed(2).replace(".", ",");
+}
+
+function formatDate(date: Date) {
+  return date.toLocaleDateString("de-DE", { day: "2-digit", month: "2-digit", year: "numeric" });
+}
+
+function cell(value: Cell) {
+  if (value === null) return "";
+  const text = String(value);
+  return /[";\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Semicolon separated with decimal commas, so German spreadsheet apps open
+ * it without an import dialog. The BOM marks the file as UTF-8 for Excel.
+ */
+export function buildTaxReportCsv(report: TaxReport): string {
+  const rows: Cell[][] = [
+    ["Bericht", `Steuerbericht ${report.period.label}`],
+    ["Zeitraum", `${formatDate(report.period.from)} - ${formatDate(report.period.to)}`],
+    ["Gewinnermittlung", report.accountingMethod === "EÜR" ? "Einnahmen-Überschuss-Rechnung" : "Bilanz"],
+    [
+      "Umsatzbesteuerung",
+      report.isKleinunternehmer
+        ? "Kleinunternehmer (§ 19 UStG)"
+        : report.vatMethod === "IST" ? "Ist-Versteuerung" : "Soll-Versteuerung",
+    ],
+    [],
+    ["Bereich", "Kennzahl", "Bezeichnung", "Netto / Bemessungsgrundlage", "Steuer", "Brutto"],
+    [
+      "Ergebnis",
+      null,
+      `Einnahmen (${report.income.invoiceCount} Rechnungen)`,
+      formatAmount(report.income.net),
+      formatAmount(report.income.vat),
+      formatAmount(report.income.gross),
+    ],
+    [
+      "Ergebnis",
+      null,
+      `Ausgaben (${report.expenses.expenseCount} Belege)`,
+      formatAmount(report.expenses.net),
+      formatAmount(report.expenses.vat),
+      formatAmount(report.expenses.gross),
+    ],
+    ["Ergebnis", null, "Überschuss / Verlust", formatAmount(report.result), null, null],
+    ...report.vatGroups.map((group): Cell[] => [
+      "Umsatzsteuer",
+      null,
+      `Umsätze ${formatVatLabel(group.category, group.rate)}`,
+      formatAmount(group.net),
+      formatAmount(group.vat),
+      formatAmount(group.net + group.vat),
+    ]),
+    ...report.ustva.map((line): Cell[] => [
+      "UStVA",
+      line.code,
+      line.label,
+      line.base === null ? null : String(line.base),
+      formatAmount(line.tax),
+      null,
+    ]),
+    ...report.unconvertedExpenses.map((expense): Cell[] => [
+      "Nicht enthalten",
+      null,
+      `Ohne EUR-Betrag: ${formatDate(expense.expenseDate)} ${expense.supplierName}`,
+      null,
+      null,
+      `${formatAmount(expense.grossAmountCents / 100)} ${expense.currency}`,
+    ]),
+  ];
+  return `\uFEFF${rows.map((row) => row.map(cell).join(";")).join("\r\n")}\r\n`;
+}
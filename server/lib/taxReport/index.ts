@@ -0,0 +1,3 @@
+export { computeTaxReport } from "./compute";
+export type { TaxReportExpense, TaxReportInput, TaxReportInvoice } from "./compute";
+export { buildTaxReportCsv } from "./csv";
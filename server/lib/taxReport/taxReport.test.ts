@@ -0,0 +1,197 @@
+import { describe, expect, it } from "vitest";
+import { resolveTaxReportPeriod } from "../../../shared/taxReport";
+import { buildTaxReportCsv, computeTaxReport, type TaxReportExpense, type TaxReportInvoice } from "./index";
+
+const q1 = resolveTaxReportPeriod("quarter", 2025, 1);
+
+const invoice: TaxReportInvoice = {
+  id: 1,
+  type: "standard",
+  cancelledInvoiceId: null,
+  issueDate: new Date(2025, 2, 10),
+  servicePeriodEnd: new Date(2025, 2, 5),
+  subtotal: 1100,
+  vatAmount: 197,
+  total: 1297,
+  items: [
+    { lineTotal: 1000, vatRate: 19, vatCategory: "standard" },
+    { lineTotal: 100, vatRate: 7, vatCategory: "standard" },
+  ],
+  payments: [
+    { amount: 648.5, paidAt: new Date(2025, 2, 20) },
+    { amount: 648.5, paidAt: new Date(2025, 3, 2) },
+  ],
+};
+
+const expense: TaxReportExpense = {
+  id: 1,
+  supplierName: "Baumarkt",
+  currency: "EUR",
+  grossAmountCents: 11900,
+  vatMode: "german",
+  vatRate: "19",
+  vatAmountCents: 1900,
+  businessUsePct: 100,
+  expenseDate: new Date(2025, 1, 1),
+  paymentStatus: "paid",
+  paymentDate: new Date(2025, 1, 3),
+};
+
+describe("resolveTaxReportPeriod", () => {
+  it("covers whole quarters and months", () => {
+    expect(q1.from).toEqual(new Date(2025, 0, 1));
+    expect(q1.to).toEqual(new Date(2025, 2, 31, 23, 59, 59, 999));
+    expect(resolveTaxReportPeriod("month", 2024, 2).to.getDate()).toBe(29);
+    expect(resolveTaxReportPeriod("month", 2025, 3).label).toBe("03/2025");
+  });
+});
+
+describe("computeTaxReport", () => {
+  it("books the whole invoice on the service date under Soll-Versteuerung", () => {
+    const report = computeTaxReport({
+      period: q1,
+      settings: { accountingMethod: "BILANZ", vatMethod: "SOLL", isKleinunternehmer: false, vatRate: "19.00" },
+      invoices: [invoice],
+      cancelledInvoices: [],
+      expenses: [expense],
+    });
+
+    expect(report.income).toEqual({ net: 1100, vat: 197, gross: 1297, invoiceCount: 1 });
+    expect(report.expenses).toEqual({ net: 100, vat: 19, gross: 119, expenseCount: 1 });
+    expect(report.result).toBe(1000);
+    expect(report.ustva.map((line) => [line.code, line.base, line.tax])).toEqual([
+      ["81", 1000, 190],
+      ["86", 100, 7],
+      ["66", null, 19],
+      ["83", null, 178],
+    ]);
+  });
+
+  it("taxes only the payments received under Ist-Versteuerung", () => {
+    const report = computeTaxReport({
+      period: q1,
+      settings: { accountingMethod: "EÜR", vatMethod: "IST", isKleinunternehmer: false },
+      invoices: [invoice],
+      cancelledInvoices: [],
+      expenses: [{ ...expense, businessUsePct: 50 }],
+    });
+
+    expect(report.income).toMatchObject({ net: 550, vat: 98.5 });
+    expect(report.outputVat).toBe(98.5);
+    expect(report.inputVat).toBe(9.5);
+    expect(report.vatBalance).toBe(89);
+  });
+
+  it("reverses the received share when a paid invoice is cancelled", () => {
+    const cancellation: TaxReportInvoice = {
+      ...invoice,
+      id: 2,
+      type: "cancellation",
+      cancelledInvoiceId: 1,
+      issueDate: new Date(2025, 1, 15),
+      subtotal: -1100,
+      vatAmount: -197,
+      total: -1297,
+      items: invoice.items.map((item) => ({ ...item, lineTotal: -item.lineTotal })),
+      payments: [],
+    };
+    const report = computeTaxReport({
+      period: q1,
+      settings: { accountingMethod: "EÜR", vatMethod: "IST", isKleinunternehmer: false },
+      invoices: [cancellation],
+      cancelledInvoices: [{ id: 1, total: 1297, amountPaid: 1297 }],
+      expenses: [],
+    });
+
+    expect(report.income).toMatchObject({ net: -1100, vat: -197 });
+    expect(report.ustva.find((line) => line.code === "81")).toMatchObject({ base: -1000, tax: -190 });
+  });
+
+  it("deducts input VAT and business use per split line", () => {
+    const report = computeTaxReport({
+      period: q1,
+      settings: { accountingMethod: "EÜR", vatMethod: "IST", isKleinunternehmer: false },
+      invoices: [],
+      cancelledInvoices: [],
+      expenses: [
+        {
+          ...expense,
+          grossAmountCents: 22600,
+          vatAmountCents: null,
+          splits: [
+            { grossAmountCents: 11900, category: "repairs", vatRate: "19", projectId: 3, businessUsePct: 100 },
+            { grossAmountCents: 10700, category: "meals", vatRate: "7", projectId: null, businessUsePct: 0 },
+          ],
+        },
+      ],
+    });
+
+    expect(report.expenses).toEqual({ net: 100, vat: 19, gross: 119, expenseCount: 1 });
+  });
+
+  it("owes and deducts reverse-charge VAT on subcontractor invoices", () => {
+    const report = computeTaxReport({
+      period: q1,
+      settings: { accountingMethod: "EÜR", vatMethod: "IST", isKleinunternehmer: false },
+      invoices: [],
+      cancelledInvoices: [],
+      expenses: [expense, { ...expense, grossAmountCents: 100000, vatMode: "reverse_charge", vatAmountCents: null }],
+    });
+
+    expect(report.expenses).toEqual({ net: 1100, vat: 209, gross: 1309, expenseCount: 2 });
+    expect(report.reverseChargeVat).toBe(190);
+    expect(report.inputVat).toBe(209);
+    expect(report.ustva.map((line) => [line.code, line.base, line.tax])).toEqual([
+      ["84", 1000, 190],
+      ["66", null, 19],
+      ["67", null, 190],
+      ["83", null, -19],
+    ]);
+  });
+
+  it("reports income without VAT for Kleinunternehmer", () => {
+    const report = computeTaxReport({
+      period: q1,
+      settings: { accountingMethod: "EÜR", vatMethod: "IST", isKleinunternehmer: true },
+      invoices: [{ ...invoice, vatAmount: 0, total: 1100, payments: [{ amount: 1100, paidAt: new Date(2025, 2, 20) }] }],
+      cancelledInvoices: [],
+      expenses: [expense],
+    });
+
+    expect(report.vatMethod).toBeNull();
+    expect(report.income).toMatchObject({ net: 1100, vat: 0, gross: 1100 });
+    expect(report.expenses).toMatchObject({ net: 119, vat: 0 });
+    expect(report.ustva).toEqual([]);
+  });
+
+  it("leaves foreign-currency expenses without an EUR amount out of the figures", () => {
+    const report = computeTaxReport({
+      period: q1,
+      settings: { accountingMethod: "EÜR", vatMethod: "IST", isKleinunternehmer: false },
+      invoices: [],
+      cancelledInvoices: [],
+      expenses: [expense, { ...expense, id: 2, supplierName: "AWS", currency: "USD", grossAmountEurCents: null }],
+    });
+
+    expect(report.expenses).toMatchObject({ gross: 119, expenseCount: 1 });
+    expect(report.inputVat).toBe(19);
+    expect(report.unconvertedExpenses).toEqual([
+      { id: 2, supplierName: "AWS", expenseDate: expense.expenseDate, currency: "USD", grossAmountCents: 11900 },
+    ]);
+    expect(buildTaxReportCsv(report).split("\r\n")).toContain("Nicht enthalten;;Ohne EUR-Betrag: 01.02.2025 AWS;;;119,00 USD");
+  });
+
+  it("exports the Kennzahlen as German CSV", () => {
+    const report = computeTaxReport({
+      period: q1,
+      settings: { accountingMethod: "EÜR", vatMethod: "SOLL", isKleinunternehmer: false },
+      invoices: [invoice],
+      cancelledInvoices: [],
+      expenses: [],
+    });
+    const lines = buildTaxReportCsv(report).split("\r\n");
+    expect(lines[0]).toBe("﻿Bericht;Steuerbericht Q1 2025");
+    expect(lines).toContain("UStVA;81;Steuerpflichtige Umsätze zum Steuersatz von 19 %;1000;190,00;");
+    expect(lines).toContain("UStVA;83;Verbleibende Umsatzsteuer-Vorauszahlung / Überschuss;;197,00;");
+  });
+});
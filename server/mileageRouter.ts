@@ -0,0 +1,223 @@
+import { TRPCError } from "@trpc/server";
+import { z } from "zod";
+import { protectedProcedure, router } from "./_core/trpc";
+import * as db from "./db";
+import { requireAccountAccess } from "./services/workspaceAccess";
+import { buildMileageLogbookCsv } from "./lib/mileage";
+import {
+  estimateTripDistance,
+  getMileageLogbook,
+  mileageLogbookFileName,
+  recordMileageTrip,
+  type MileageTripInput,
+} from "./services/mileage";
+import {
+  DISTANCE_SOURCES,
+  STATUTORY_MILEAGE_RATES,
+  TRIP_TYPES,
+  VEHICLE_KINDS,
+  roundDistanceKm,
+} from "../shared/mileage";
+
+async function getOwnedVehicle(id: number, userId: number) {
+  const vehicle = await db.getVehicleById(id);
+  if (!vehicle) {
+    throw new TRPCError({ code: "NOT_FOUND", message: "Vehicle not found" });
+  }
+  if (vehicle.userId !== userId) {
+    throw new TRPCError({ code: "FORBIDDEN", message: "You don't have access to this vehicle" });
+  }
+  return vehicle;
+}
+
+async function getOwnedMileageTrip(id: number, userId: number) {
+  const trip = await db.getMileageTripById(id);
+  if (!trip) {
+    throw new TRPCError({ code: "NOT_FOUND", message: "Trip not found" });
+  }
+  if (trip.userId !== userId) {
+    throw new TRPCError({ code: "FORBIDDEN", message: "You don't have access to this trip" });
+  }
+  return trip;
+}
+
+const vehicleSchema = z.object({
+  name: z.string().trim().min(1, "Name is required").max(255),
+  licensePlate: z.string().trim().max(20).nullable().optional(),
+  kind: z.enum(VEHICLE_KINDS),
+  ratePerKm: z.number().min(0).max(9.99).optional(),
+});
+
+const tripDateSchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Use the format YYYY-MM-DD");
+
+const endpointSchema = z.object({
+  projectId: z.number().int().positive().nullable().optional(),
+  address: z.string().max(500).nullable().optional(),
+});
+
+const tripSchema = z.object({
+  tripDate: tripDateSchema,
+  startAddress: z.string().trim().min(1, "Start is required").max(500),
+  endAddress: z.string().trim().min(1, "Destination is required").max(500),
+  distanceKm: z.number().positive("Distance must be greater than 0").max(100000),
+  distanceSource: z.enum(DISTANCE_SOURCES),
+  odometerStart: z.number().int().nonnegative().nullable().optional(),
+  odometerEnd: z.number().int().nonnegative().nullable().optional(),
+  tripType: z.enum(TRIP_TYPES),
+  purpose: z.string().trim().min(1, "Purpose is required").max(500),
+  businessPartner: z.string().trim().max(255).nullable().optional(),
+  projectId: z.number().int().positive().nullable().optional(),
+});
+
+type TripSchemaInput = z.infer<typeof tripSchema>;
+
+async function toTripInput(input: TripSchemaInput, userId: number): Promise<MileageTripInput> {
+  const odometerStart = input.odometerStart ?? null;
+  const odometerEnd = input.odometerEnd ?? null;
+  if (odometerStart !== null && odometerEnd !== null && odometerEnd < odometerStart) {
+    throw new TRPCError({ code: "BAD_REQUEST", message: "The final odometer reading is below the initial reading" });
+  }
+  if (input.projectId) {
+    const project = await db.getProjectById(input.projectId);
+    if (!project || project.createdBy !== userId) {
+      throw new TRPCError({ code: "NOT_FOUND", message: "Project not found" });
+    }
+  }
+
+  const [year, month, day] = input.tripDate.split("-").map(Number);
+  const tripDate = new Date(year, month - 1, day);
+  if (tripDate > new Date()) {
+    throw new TRPCError({ code: "BAD_REQUEST", message: "Trips can't be recorded in advance" });
+  }
+
+  return {
+    tripDate,
+    startAddress: input.startAddress,
+    endAddress: input.endAddress,
+    distanceKm: roundDistanceKm(input.distanceKm),
+    distanceSource: input.distanceSource,
+    odometerStart,
+    odometerEnd,
+    tripType: input.tripType,
+    purpose: input.purpose,
+    businessPartner: input.businessPartner?.trim() || null,
+    projectId: input.projectId ?? null,
+  };
+}
+
+const logbookInput = z.object({
+  vehicleId: z.number().int().positive(),
+  year: z.number().int().min(2000).max(2100),
+});
+
+export const mileageRouter = router({
+  vehicles: protectedProcedure.query(async ({ ctx }) =>
+    db.getVehiclesByUserId(await requireAccountAccess(ctx.user, "invoices", "view"))
+  ),
+
+  createVehicle: protectedProcedure
+    .input(vehicleSchema)
+    .mutation(async ({ input, ctx }) => {
+      return db.createVehicle({
+        userId: await requireAccountAccess(ctx.user, "invoices", "edit"),
+        name: input.name,
+        licensePlate: input.licensePlate || null,
+        kind: input.kind,
+        ratePerKm: (input.ratePerKm ?? STATUTORY_MILEAGE_RATES[input.kind]).toFixed(2),
+      });
+    }),
+
+  /** Rate changes apply to new trips; recorded trips keep their rate */
+  updateVehicle: protectedProcedure
+    .input(vehicleSchema.extend({ id: z.number().int().positive() }))
+    .mutation(async ({ input, ctx }) => {
+      await getOwnedVehicle(input.id, await requireAccountAccess(ctx.user, "invoices", "edit"));
+      return db.updateVehicle(input.id, {
+        name: input.name,
+        licensePlate: input.licensePlate || null,
+        kind: input.kind,
+        ratePerKm: (input.ratePerKm ?? STATUTORY_MILEAGE_RATES[input.kind]).toFixed(2),
+      });
+    }),
+
+  /**
+   * Vehicles with trips are archived, since their log must be kept
+   */
+  removeVehicle: protectedProcedure
+    .input(z.object({ id: z.number().int().positive() }))
+    .mutation(async ({ input, ctx }) => {
+      await getOwnedVehicle(input.id, await requireAccountAccess(ctx.user, "invoices", "edit"));
+      if ((await db.countMileageTripsByVehicleId(input.id)) > 0) {
+        await db.updateVehicle(input.id, { archivedAt: new Date() });
+        return { archived: true };
+      }
+      await db.deleteVehicle(input.id);
+      return { archived: false };
+    }),
+
+  restoreVehicle: protectedProcedure
+    .input(z.object({ id: z.number().int().positive() }))
+    .mutation(async ({ input, ctx }) => {
+      await getOwnedVehicle(input.id, await requireAccountAccess(ctx.user, "invoices", "edit"));
+      return db.updateVehicle(input.id, { archivedAt: null });
+    }),
+
+  /**
+   * The vehicle's log for a year, with totals and the result of the hash
+   * chain check
+   */
+  logbook: protectedProcedure
+    .input(logbookInput)
+    .query(async ({ input, ctx }) => {
+      const vehicle = await getOwnedVehicle(input.vehicleId, await requireAccountAccess(ctx.user, "invoices", "view"));
+      return getMileageLogbook(vehicle, input.year);
+    }),
+
+  /**
+   * Distance between two project sites or addresses; null if a location
+   * can't be resolved
+   */
+  estimateDistance: protectedProcedure
+    .input(z.object({ from: endpointSchema, to: endpointSchema }))
+    .mutation(async ({ input, ctx }) =>
+      estimateTripDistance(await requireAccountAccess(ctx.user, "invoices", "edit"), input.from, input.to)
+    ),
+
+  recordTrip: protectedProcedure
+    .input(tripSchema.extend({ vehicleId: z.number().int().positive() }))
+    .mutation(async ({ input, ctx }) => {
+      const userId = await requireAccountAccess(ctx.user, "invoices", "edit");
+      const vehicle = await getOwnedVehicle(input.vehicleId, userId);
+      if (vehicle.archivedAt) {
+        throw new TRPCError({ code: "BAD_REQUEST", message: "Restore the vehicle before recording trips" });
+      }
+      return recordMileageTrip(userId, vehicle, await toTripInput(input, userId));
+    }),
+
+  /**
+   * Trips can't be edited. A correction is appended as a new entry that
+   * replaces the original; both remain in the log.
+   */
+  correctTrip: protectedProcedure
+    .input(tripSchema.extend({ tripId: z.number().int().positive() }))
+    .mutation(async ({ input, ctx }) => {
+      const userId = await requireAccountAccess(ctx.user, "invoices", "edit");
+      const original = await getOwnedMileageTrip(input.tripId, userId);
+      if (await db.getMileageTripByReplacedId(original.id)) {
+        throw new TRPCError({ code: "CONFLICT", message: "This trip has already been corrected" });
+      }
+      const vehicle = await getOwnedVehicle(original.vehicleId, userId);
+      return recordMileageTrip(userId, vehicle, await toTripInput(input, userId), original);
+    }),
+
+  exportCsv: protectedProcedure
+    .input(logbookInput)
+    .mutation(async ({ input, ctx }) => {
+      const vehicle = await getOwnedVehicle(input.vehicleId, await requireAccountAccess(ctx.user, "invoices", "view"));
+      const logbook = await getMileageLogbook(vehicle, input.year);
+      return {
+        filename: mileageLogbookFileName(vehicle, input.year, "csv"),
+        content: buildMileageLogbookCsv(logbook),
+      };
+    }),
+});
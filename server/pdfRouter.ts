@@ -2,12 +2,17 @@ import { TRPCError } from "@trpc/server";
 import { z } from "zod";
 import { protectedProcedure, router } from "./_core/trpc";
 import { renderPDF } from "./services/pdfService";
+import { createZugferdPdf } from "./services/einvoiceService";
 import { generateProjectReportHTML } from "./templates/projectReport";
 import { generateInvoiceHTML } from "./templates/invoice";
 import { generateInspectionHTML } from "./templates/inspection";
 import { generateInspectionReportHTML } from "./templates/inspectionReport";
 import * as db from "./db";
+import type { Invoice, InvoiceItem } from "../drizzle/schema";
+import { INVOICE_VAT_CATEGORIES, calculateInvoiceTotals, resolveLineVat } from "../shared/invoiceVat";
 import { storagePut, createPresignedReadUrl, generateFileKey } from "./storage";
+import { getProjectAccess, getRecordAccess, requireAccountAccess } from "./services/workspaceAccess";
+import { satisfiesAccess } from "../shared/workspaces";
 import { nanoid } from "nanoid";
 import { ENV } from "./_core/env";
 import {
@@ -31,6 +36,12 @@ export const pdfRouter = router({
           message: "Project not found",
         });
       }
+      if ((await getProjectAccess(ctx.user, project)) === "none") {
+        throw new TRPCError({
+          code: "FORBIDDEN",
+          message: "Access denied",
+        });
+      }
 
       // Get client contact if linked
       let clientContact = null;
@@ -66,7 +77,7 @@ export const pdfRouter = router({
       );
 
       // Get company settings for logo/name
-      const companySettings = await db.getCompanySettingsByUserId(ctx.user.id);
+      const companySettings = await db.getCompanySettingsByUserId(project.createdBy);
       const logoUrl = companySettings ? '' : ''; // TODO: Add logo URL to settings
       const companyName = companySettings?.companyName || 'Mantodeus Manager';
 
@@ -130,22 +141,29 @@ export const pdfRouter = router({
             description: z.string(),
             quantity: z.number(),
             unitPrice: z.number(),
+            vatRate: z.number().min(0).max(100).optional().nullable(),
+            vatCategory: z.enum(INVOICE_VAT_CATEGORIES).optional(),
           })
         ),
         notes: z.string().optional(),
         terms: z.string().optional(),
         dueDate: z.date().optional(),
+        servicePeriodStart: z.date().optional(),
+        servicePeriodEnd: z.date().optional(),
+        /** Embed the invoice as ZUGFeRD/Factur-X CII (PDF/A-3 hybrid) */
+        zugferd: z.boolean().optional(),
       })
     )
     .mutation(async ({ input, ctx }) => {
+      const userId = await requireAccountAccess(ctx.user, "invoices", "edit");
       // Get company settings
-      let companySettings = await db.getCompanySettingsByUserId(ctx.user.id);
+      let companySettings = await db.getCompanySettingsByUserId(userId);
       
       // Create default settings if none exist
       if (!companySettings) {
         const year = new Date().getFullYear();
         await db.createCompanySettings({
-          userId: ctx.user.id,
+          userId: userId,
           companyName: ctx.user.name || 'Mantodeus Manager',
           address: null,
           streetName: null,
@@ -161,7 +179,7 @@ export const pdfRouter = router({
           invoiceAccountHolderName: null,
           nextInvoiceNumber: 1,
         });
-        companySettings = await db.getCompanySettingsByUserId(ctx.user.id);
+        companySettings = await db.getCompanySettingsByUserId(userId);
         if (!companySettings) {
           throw new TRPCError({
             code: "INTERNAL_SERVER_ERROR",
@@ -192,19 +210,22 @@ export const pdfRouter = router({
       }
 
       const issueDate = new Date();
+      const dueDate = input.dueDate || new Date(Date.now() + 14 * 24 * 60 * 60 * 1000); // Default 14 days
       const { invoiceNumber, invoiceCounter, invoiceYear } = await db.generateInvoiceNumber(
-        ctx.user.id,
+        userId,
         issueDate,
         companySettings.invoiceNumberFormat ?? null,
         companySettings.invoicePrefix ?? "RE"
       );
-      await db.ensureUniqueInvoiceNumber(ctx.user.id, invoiceNumber);
+      await db.ensureUniqueInvoiceNumber(userId, invoiceNumber);
 
       // Calculate totals
+      const defaultVatRate = Number(companySettings.vatRate ?? 19);
       const normalizedItems = input.items.map(item => {
         const quantity = Number(item.quantity);
         const unitPrice = Number(item.unitPrice);
         const lineTotal = Number((quantity * unitPrice).toFixed(2));
+        const vat = resolveLineVat(item, defaultVatRate);
         return {
           name: item.description,
           description: item.description,
@@ -213,24 +234,29 @@ export const pdfRouter = router({
           unitPrice,
           lineTotal,
           currency: 'EUR',
+          vatRate: vat.rate,
+          vatCategory: vat.category,
         };
       });
-      const subtotal = normalizedItems.reduce((sum, item) => sum + item.lineTotal, 0);
-      const vatAmount = companySettings.isKleinunternehmer ? 0 : subtotal * (Number(companySettings.vatRate) / 100);
-      const total = subtotal + vatAmount;
+      const { subtotal, vatAmount, total } = calculateInvoiceTotals(normalizedItems, {
+        defaultRate: defaultVatRate,
+        isKleinunternehmer: companySettings.isKleinunternehmer,
+      });
 
       const itemsForPdf = normalizedItems.map((item) => ({
         description: item.name || item.description || "",
         quantity: item.quantity,
         unitPrice: item.unitPrice,
         total: item.lineTotal,
+        vatRate: item.vatRate,
+        vatCategory: item.vatCategory,
       }));
 
       // Generate HTML
       const { html, footerTemplate } = generateInvoiceHTML({
         invoiceNumber,
         invoiceDate: issueDate,
-        dueDate: input.dueDate || new Date(Date.now() + 14 * 24 * 60 * 60 * 1000), // Default 14 days
+        dueDate,
         company: companySettings,
         client,
         items: itemsForPdf,
@@ -245,15 +271,40 @@ export const pdfRouter = router({
       });
 
       // Generate PDF
-      const pdfBuffer = await renderPDF(html, {
+      let pdfBuffer = await renderPDF(html, {
         displayHeaderFooter: true,
         headerTemplate: '<div></div>',
         footerTemplate,
       });
 
+      let zugferdEmbedded = false;
+      if (input.zugferd) {
+        const invoiceData = {
+          id: input.invoiceId ?? 0,
+          userId: userId,
+          invoiceNumber,
+          type: "standard",
+          clientId: input.clientId ?? null,
+          issueDate,
+          dueDate,
+          notes: input.notes ?? null,
+          terms: input.terms ?? null,
+          servicePeriodStart: input.servicePeriodStart ?? null,
+          servicePeriodEnd: input.servicePeriodEnd ?? null,
+          subtotal: subtotal.toFixed(2),
+          vatAmount: vatAmount.toFixed(2),
+          total: total.toFixed(2),
+          amountPaid: "0.00",
+          items: normalizedItems as unknown as InvoiceItem[],
+        } as Invoice & { items: InvoiceItem[] };
+        const zugferd = await createZugferdPdf(pdfBuffer, invoiceData, companySettings);
+        pdfBuffer = zugferd.pdf;
+        zugferdEmbedded = zugferd.embedded;
+      }
+
       // Upload to S3
       const timestamp = Date.now();
-      const fileKey = generateFileKey('pdfs', ctx.user.id, `invoice-${invoiceNumber}-${timestamp}.pdf`);
+      const fileKey = generateFileKey('pdfs', userId, `invoice-${invoiceNumber}-${timestamp}.pdf`);
       await storagePut(fileKey, pdfBuffer, 'application/pdf');
 
       // Create shared document record
@@ -268,7 +319,7 @@ export const pdfRouter = router({
         s3Key: fileKey,
         shareToken,
         expiresAt,
-        createdBy: ctx.user.id,
+        createdBy: userId,
       });
 
       // Generate shareable URL
@@ -279,6 +330,7 @@ export const pdfRouter = router({
         shareUrl,
         fileKey,
         invoiceNumber,
+        zugferdEmbedded,
       };
     }),
 
@@ -316,8 +368,14 @@ export const pdfRouter = router({
             message: "Invoice not found",
           });
         }
+        if (!satisfiesAccess(await getRecordAccess(ctx.user, "invoices", invoice.userId), "view")) {
+          throw new TRPCError({
+            code: "FORBIDDEN",
+            message: "Access denied",
+          });
+        }
 
-        const companySettings = await db.getCompanySettingsByUserId(ctx.user.id);
+        const companySettings = await db.getCompanySettingsByUserId(invoice.userId);
         if (!companySettings) {
           throw new TRPCError({
             code: "BAD_REQUEST",
@@ -356,6 +414,8 @@ export const pdfRouter = router({
           quantity: Number(item.quantity),
           unitPrice: Number(item.unitPrice),
           total: Number(item.lineTotal ?? item.total ?? 0),
+          vatRate: item.vatRate === null || item.vatRate === undefined ? null : Number(item.vatRate),
+          vatCategory: item.vatCategory ?? null,
         }));
 
         // Generate PDF with latest data
@@ -376,15 +436,18 @@ export const pdfRouter = router({
           servicePeriodEnd: invoice.servicePeriodEnd || undefined,
         });
 
-        const pdfBuffer = await renderPDF(html, {
+        const renderedPdf = await renderPDF(html, {
           displayHeaderFooter: true,
           headerTemplate: '<div></div>',
           footerTemplate,
         });
 
+        // Sent invoices carry the structured ZUGFeRD data for automatic import
+        const { pdf: pdfBuffer } = await createZugferdPdf(renderedPdf, invoice, companySettings);
+
         // Upload new PDF to S3
         const timestamp = Date.now();
-        const fileKey = generateFileKey('pdfs', ctx.user.id, `invoice-${invoice.invoiceNumber || invoice.id}-${timestamp}.pdf`);
+        const fileKey = generateFileKey('pdfs', invoice.userId, `invoice-${invoice.invoiceNumber || invoice.id}-${timestamp}.pdf`);
         await storagePut(fileKey, pdfBuffer, 'application/pdf');
 
         s3Key = fileKey;
@@ -469,7 +532,7 @@ export const pdfRouter = router({
 
       // Verify access (inspection belongs to user's project)
       const project = await db.getProjectById(inspection.projectId);
-      if (!project || project.createdBy !== ctx.user.id) {
+      if (!project || (await getProjectAccess(ctx.user, project)) === "none") {
         throw new TRPCError({
           code: "FORBIDDEN",
           message: "Access denied",
@@ -585,7 +648,7 @@ export const pdfRouter = router({
         .filter((name, index, self) => self.indexOf(name) === index); // Unique names
 
       // Get company settings
-      const companySettings = await db.getCompanySettingsByUserId(ctx.user.id);
+      const companySettings = await db.getCompanySettingsByUserId(project.createdBy);
       const logoUrl = companySettings ? '' : ''; // TODO: Add logo URL to settings
       const companyName = companySettings?.companyName || 'Mantodeus Manager';
 
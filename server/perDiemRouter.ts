@@ -0,0 +1,58 @@
+import { TRPCError } from "@trpc/server";
+import { z } from "zod";
+import { protectedProcedure, router } from "./_core/trpc";
+import { findPerDiemAbsence, getPerDiemAbsences, proposePerDiemExpense } from "./services/perDiem";
+import { calculatePerDiemClaim } from "./lib/perDiem";
+
+const mealsSchema = z.object({
+  breakfast: z.boolean(),
+  lunch: z.boolean(),
+  dinner: z.boolean(),
+});
+
+const mealsByDateSchema = z.record(z.string().regex(/^\d{4}-\d{2}-\d{2}$/), mealsSchema);
+
+export const perDiemRouter = router({
+  /**
+   * Absences derived from check-ins that started in the month
+   */
+  absences: protectedProcedure
+    .input(
+      z.object({
+        year: z.number().int().min(2000).max(2100),
+        month: z.number().int().min(1).max(12),
+      })
+    )
+    .query(async ({ input, ctx }) => {
+      return await getPerDiemAbsences(ctx.user.id, input.year, input.month);
+    }),
+
+  /**
+   * Propose the meal allowance of an absence as a `travel` expense for review
+   */
+  propose: protectedProcedure
+    .input(
+      z.object({
+        startsAt: z.date(),
+        meals: mealsByDateSchema.default({}),
+      })
+    )
+    .mutation(async ({ input, ctx }) => {
+      const absence = await findPerDiemAbsence(ctx.user.id, input.startsAt);
+      if (!absence) {
+        throw new TRPCError({ code: "NOT_FOUND", message: "Absence not found" });
+      }
+      if (absence.claim) {
+        throw new TRPCError({ code: "CONFLICT", message: "A meal allowance was already proposed for this absence" });
+      }
+      if (calculatePerDiemClaim(absence, input.meals).totalCents <= 0) {
+        throw new TRPCError({ code: "BAD_REQUEST", message: "There is no meal allowance for this absence" });
+      }
+
+      const result = await proposePerDiemExpense(ctx.user.id, absence, input.meals);
+      if (!result) {
+        throw new TRPCError({ code: "CONFLICT", message: "A meal allowance was already proposed for this absence" });
+      }
+      return result;
+    }),
+});
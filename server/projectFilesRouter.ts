@@ -23,6 +23,7 @@ import {
   storageGet,
 } from "./storage";
 import { nanoid } from "nanoid";
+import { getProjectAccess } from "./services/workspaceAccess";
 import type { TrpcContext } from "./_core/context";
 import { 
   processImage, 
@@ -114,7 +115,8 @@ function validateMimeType(mimeType: string): boolean {
 }
 
 /**
- * Check if user can access a project
+ * Check if user can access a project. Everyone working on a project,
+ * field workers included, can see and upload its files.
  */
 async function canAccessProject(
   user: NonNullable<TrpcContext["user"]>,
@@ -126,13 +128,7 @@ async function canAccessProject(
     return false;
   }
   
-  // Admin can access all projects
-  if (user.role === "admin") {
-    return true;
-  }
-  
-  // Regular user can only access their own projects
-  return project.createdBy === user.id;
+  return (await getProjectAccess(user, project)) !== "none";
 }
 
 /**
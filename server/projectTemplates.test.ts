@@ -0,0 +1,74 @@
+import { describe, expect, it } from "vitest";
+import {
+  formatChecklist,
+  getTemplateSpanDays,
+  instantiateTemplateJobs,
+  normalizeTags,
+  validateTemplateJob,
+  type ProjectTemplateJob,
+} from "../shared/projectTemplates";
+
+const job = (overrides: Partial<ProjectTemplateJob> = {}): ProjectTemplateJob => ({
+  title: "Anchor test",
+  category: "Testing",
+  description: null,
+  checklist: [],
+  startOffsetDays: 0,
+  endOffsetDays: 0,
+  ...overrides,
+});
+
+describe("instantiateTemplateJobs", () => {
+  it("places jobs relative to the start date", () => {
+    const [first, second] = instantiateTemplateJobs(
+      [job(), job({ title: "Report", startOffsetDays: 3, endOffsetDays: 5 })],
+      new Date(2026, 2, 30)
+    );
+    expect(first.startTime).toEqual(new Date(2026, 2, 30));
+    expect(first.endTime).toEqual(new Date(2026, 2, 30));
+    expect(second.startTime).toEqual(new Date(2026, 3, 2));
+    expect(second.endTime).toEqual(new Date(2026, 3, 4));
+  });
+
+  it("adds the checklist after the description", () => {
+    const [instance] = instantiateTemplateJobs(
+      [job({ description: "Roof anchors", checklist: ["Load test", " ", "Photos"] })],
+      new Date(2026, 0, 1)
+    );
+    expect(instance.description).toBe("Roof anchors\n\n☐ Load test\n☐ Photos");
+  });
+
+  it("leaves the description empty without text or checklist", () => {
+    const [instance] = instantiateTemplateJobs([job({ category: " " })], new Date(2026, 0, 1));
+    expect(instance.description).toBeNull();
+    expect(instance.category).toBeNull();
+  });
+});
+
+describe("validateTemplateJob", () => {
+  it("rejects jobs ending before they start", () => {
+    expect(validateTemplateJob(job({ startOffsetDays: 4, endOffsetDays: 2 }))).toMatch(/ends before it starts/);
+    expect(validateTemplateJob(job({ startOffsetDays: 2, endOffsetDays: 4 }))).toBeNull();
+  });
+
+  it("rejects blank titles and offsets beyond the limit", () => {
+    expect(validateTemplateJob(job({ title: "  " }))).toBe("Every job needs a title");
+    expect(validateTemplateJob(job({ endOffsetDays: 400 }))).toMatch(/365 days/);
+  });
+});
+
+describe("template helpers", () => {
+  it("normalizes tags", () => {
+    expect(normalizeTags([" Facade ", "facade", "", "Annual"])).toEqual(["Facade", "Annual"]);
+  });
+
+  it("formats checklists as open boxes", () => {
+    expect(formatChecklist(["A", "B"])).toBe("☐ A\n☐ B");
+    expect(formatChecklist([])).toBe("");
+  });
+
+  it("spans to the last job day", () => {
+    expect(getTemplateSpanDays([])).toBe(0);
+    expect(getTemplateSpanDays([job({ endOffsetDays: 2 }), job({ endOffsetDays: 9 })])).toBe(9);
+  });
+});
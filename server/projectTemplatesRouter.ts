@@ -0,0 +1,152 @@
+import { TRPCError } from "@trpc/server";
+import { z } from "zod";
+import { protectedProcedure, router } from "./_core/trpc";
+import type { TrpcContext } from "./_core/context";
+import * as db from "./db";
+import {
+  MAX_TEMPLATE_OFFSET_DAYS,
+  normalizeTags,
+  validateTemplateJob,
+} from "../shared/projectTemplates";
+import { satisfiesAccess } from "../shared/workspaces";
+import { createProjectFromTemplate } from "./services/projectTemplates";
+import { getRecordAccess, requireAccountAccess } from "./services/workspaceAccess";
+
+type User = NonNullable<TrpcContext["user"]>;
+
+const offsetSchema = z.number().int().min(0).max(MAX_TEMPLATE_OFFSET_DAYS);
+
+const templateJobSchema = z.object({
+  title: z.string().trim().min(1, "Job title is required").max(255),
+  category: z.string().trim().max(100).nullable().default(null),
+  description: z.string().nullable().default(null),
+  checklist: z.array(z.string().trim().min(1).max(255)).max(50).default([]),
+  startOffsetDays: offsetSchema,
+  endOffsetDays: offsetSchema,
+});
+
+const templateLineItemSchema = z.object({
+  name: z.string().trim().min(1, "Item name is required").max(255),
+  description: z.string().nullable().default(null),
+  category: z.string().trim().max(120).nullable().default(null),
+  quantity: z.number().positive("Quantity must be greater than 0"),
+  unitPrice: z.number().nonnegative(),
+  vatRate: z.number().min(0).max(100).nullable().default(null),
+});
+
+const templateInputSchema = z.object({
+  name: z.string().trim().min(1, "Template name is required").max(255),
+  description: z.string().nullable().default(null),
+  jobs: z.array(templateJobSchema).max(100).default([]),
+  tags: z.array(z.string().max(50)).max(20).default([]),
+  inspectionTemplateIds: z.array(z.number().int().positive()).max(20).default([]),
+  lineItems: z.array(templateLineItemSchema).max(100).default([]),
+});
+
+type TemplateInput = z.infer<typeof templateInputSchema>;
+
+/**
+ * Template of the user's account; throws when it belongs to another account
+ */
+async function requireTemplate(user: User, templateId: number, accountUserId: number) {
+  const template = await db.getProjectTemplateById(templateId);
+  if (!template || (template.createdBy !== accountUserId && user.role !== "admin")) {
+    throw new TRPCError({ code: "NOT_FOUND", message: "Project template not found" });
+  }
+  return template;
+}
+
+function toTemplateData(input: TemplateInput) {
+  for (const job of input.jobs) {
+    const error = validateTemplateJob(job);
+    if (error) throw new TRPCError({ code: "BAD_REQUEST", message: error });
+  }
+  return {
+    name: input.name,
+    description: input.description?.trim() || null,
+    jobs: input.jobs,
+    tags: normalizeTags(input.tags),
+    inspectionTemplateIds: Array.from(new Set(input.inspectionTemplateIds)),
+    lineItems: input.lineItems,
+  };
+}
+
+export const projectTemplatesRouter = router({
+  list: protectedProcedure.query(async ({ ctx }) => {
+    const accountUserId = await requireAccountAccess(ctx.user, "projects", "view");
+    return await db.getProjectTemplatesByUser(accountUserId);
+  }),
+
+  get: protectedProcedure
+    .input(z.object({ id: z.number() }))
+    .query(async ({ input, ctx }) => {
+      const accountUserId = await requireAccountAccess(ctx.user, "projects", "view");
+      return await requireTemplate(ctx.user, input.id, accountUserId);
+    }),
+
+  create: protectedProcedure
+    .input(templateInputSchema)
+    .mutation(async ({ input, ctx }) => {
+      const accountUserId = await requireAccountAccess(ctx.user, "projects", "edit");
+      return await db.createProjectTemplate({ ...toTemplateData(input), createdBy: accountUserId });
+    }),
+
+  update: protectedProcedure
+    .input(templateInputSchema.extend({ id: z.number() }))
+    .mutation(async ({ input, ctx }) => {
+      const accountUserId = await requireAccountAccess(ctx.user, "projects", "edit");
+      const { id, ...data } = input;
+      await requireTemplate(ctx.user, id, accountUserId);
+      await db.updateProjectTemplate(id, toTemplateData(data));
+      return { success: true };
+    }),
+
+  delete: protectedProcedure
+    .input(z.object({ id: z.number() }))
+    .mutation(async ({ input, ctx }) => {
+      const accountUserId = await requireAccountAccess(ctx.user, "projects", "edit");
+      await requireTemplate(ctx.user, input.id, accountUserId);
+      await db.deleteProjectTemplate(input.id);
+      return { success: true };
+    }),
+
+  /**
+   * New project from a template, with its jobs placed relative to startDate
+   */
+  createProject: protectedProcedure
+    .input(
+      z.object({
+        templateId: z.number(),
+        name: z.string().trim().min(1, "Project name is required"),
+        client: z.string().optional(),
+        clientId: z.number().int().positive().optional().nullable(),
+        description: z.string().optional(),
+        address: z.string().optional(),
+        status: z.enum(["planned", "active", "completed"]).default("planned"),
+        startDate: z.date(),
+      })
+    )
+    .mutation(async ({ input, ctx }) => {
+      const accountUserId = await requireAccountAccess(ctx.user, "projects", "edit");
+      const template = await requireTemplate(ctx.user, input.templateId, accountUserId);
+      const canQuote = satisfiesAccess(await getRecordAccess(ctx.user, "invoices", accountUserId), "edit");
+
+      const result = await createProjectFromTemplate(
+        template,
+        {
+          name: input.name,
+          client: input.client?.trim() || null,
+          clientId: input.clientId ?? null,
+          description: input.description?.trim() || null,
+          address: input.address?.trim() || null,
+          status: input.status,
+          startDate: input.startDate,
+        },
+        { accountUserId, userId: ctx.user.id, createQuote: canQuote }
+      );
+      if (accountUserId !== ctx.user.id) {
+        await db.addProjectMembers(result.projectId, [ctx.user.id], ctx.user.id);
+      }
+      return result;
+    }),
+});
@@ -1,12 +1,11 @@
 /**
  * Projects Router - tRPC procedures for Projects → Jobs hierarchy
  * 
- * Access Control (ownership-based):
+ * Access Control:
  * - Project creator has full access to their projects and nested jobs
  * - Admin users have full access to all projects
- * - Regular users can only access their own projects
- * 
- * Note: Full RBAC with project_members table deferred to future iteration.
+ * - Members of the creator's workspace get access by role; foremen and
+ *   field workers only to the projects they are members of
  */
 
 import { TRPCError } from "@trpc/server";
@@ -14,6 +13,23 @@ import { z } from "zod";
 import { protectedProcedure, router } from "./_core/trpc";
 import * as db from "./db";
 import { projectFilesRouter } from "./projectFilesRouter";
+import { computeProjectCosts } from "./lib/projectCosts";
+import {
+  MAX_GEOFENCE_RADIUS_METERS,
+  MIN_GEOFENCE_RADIUS_METERS,
+  checkGeofence,
+  getGeofenceRadius,
+} from "../shared/geofence";
+import { normalizeTags } from "../shared/projectTemplates";
+import {
+  findAssignmentConflicts,
+  getJobDays,
+  rescheduleJob,
+  wouldCreateCycle,
+  type JobScheduleChange,
+} from "../shared/jobSchedule";
+import { isLimitedToProjectMembership, satisfiesAccess, type AccessLevel } from "../shared/workspaces";
+import { getProjectAccess, getWorkspaceScope, requireAccountAccess } from "./services/workspaceAccess";
 import type { TrpcContext } from "./_core/context";
 
 // =============================================================================
@@ -44,6 +60,7 @@ const createProjectSchema = z.object({
   geo: geoSchema,
   scheduledDates: z.array(z.date()).optional(),
   status: projectStatusSchema.default("planned"),
+  tags: z.array(z.string().max(50)).max(20).optional(),
 });
 
 const updateProjectSchema = z.object({
@@ -56,10 +73,20 @@ const updateProjectSchema = z.object({
   endDate: z.date().optional(),
   address: z.string().optional(),
   geo: geoSchema,
+  geofenceRadiusMeters: z.number().int().min(MIN_GEOFENCE_RADIUS_METERS).max(MAX_GEOFENCE_RADIUS_METERS).nullable().optional(),
   scheduledDates: z.array(z.date()).optional(),
   status: projectStatusSchema.optional(),
+  tags: z.array(z.string().max(50)).max(20).optional(),
 });
 
+// Device position sent with a check-in or check-out
+const checkinPositionSchema = {
+  latitude: z.number().min(-90).max(90).optional(),
+  longitude: z.number().min(-180).max(180).optional(),
+  /** Accuracy radius reported by the device in meters */
+  accuracy: z.number().nonnegative().optional(),
+};
+
 function normalizeDateList(dates?: Date[]) {
   if (!dates || dates.length === 0) {
     return {
@@ -115,11 +142,13 @@ const updateJobSchema = z.object({
 /**
  * Check if user can access a project.
  * - Admin users can access all projects
- * - Regular users can only access projects they created
+ * - Regular users can access projects they created
+ * - Workspace members by their role and project membership
  */
 async function canAccessProject(
   user: NonNullable<TrpcContext["user"]>,
-  projectId: number
+  projectId: number,
+  level: AccessLevel = "edit"
 ): Promise<{ allowed: boolean; project: Awaited<ReturnType<typeof db.getProjectById>> }> {
   const project = await db.getProjectById(projectId);
   
@@ -127,13 +156,7 @@ async function canAccessProject(
     return { allowed: false, project: null };
   }
   
-  // Admin can access all projects
-  if (user.role === "admin") {
-    return { allowed: true, project };
-  }
-  
-  // Regular user can only access their own projects
-  return { allowed: project.createdBy === user.id, project };
+  return { allowed: satisfiesAccess(await getProjectAccess(user, project), level), project };
 }
 
 /**
@@ -142,9 +165,10 @@ async function canAccessProject(
 async function requireProjectAccess(
   user: NonNullable<TrpcContext["user"]>,
   projectId: number,
-  action: string = "access"
+  action: string = "access",
+  level: AccessLevel = "edit"
 ): Promise<NonNullable<Awaited<ReturnType<typeof db.getProjectById>>>> {
-  const { allowed, project } = await canAccessProject(user, projectId);
+  const { allowed, project } = await canAccessProject(user, projectId, level);
   
   if (!project) {
     throw new TRPCError({
@@ -163,6 +187,49 @@ async function requireProjectAccess(
   return project;
 }
 
+/**
+ * Projects the user can see: all for admins, the active workspace's projects
+ * for everyone else and only their own for foremen and field workers
+ */
+async function listAccessibleProjects(user: NonNullable<TrpcContext["user"]>) {
+  if (user.role === "admin") {
+    return await db.getAllProjects();
+  }
+  const scope = await getWorkspaceScope(user);
+  if (scope.role && isLimitedToProjectMembership(scope.role)) {
+    return await db.getProjectsForMember(user.id, scope.accountUserId);
+  }
+  return await db.getProjectsByUser(scope.accountUserId);
+}
+
+/**
+ * Distance of a check-in or check-out position to the project site; null
+ * when the project has no site or the device sent no position. A missing
+ * position at a site is flagged separately (see isLocationMissing).
+ */
+function locateAtSite(
+  project: { geo: { lat: number; lng: number } | null; geofenceRadiusMeters: number | null },
+  position: { latitude?: number; longitude?: number; accuracy?: number }
+) {
+  if (!project.geo || position.latitude === undefined || position.longitude === undefined) return null;
+  return checkGeofence(
+    project.geo,
+    { lat: position.latitude, lng: position.longitude, accuracy: position.accuracy },
+    getGeofenceRadius(project.geofenceRadiusMeters)
+  );
+}
+
+/**
+ * Whether a check-in or check-out at the project's site came without a
+ * position, so it can't be verified against the geofence
+ */
+function isLocationMissing(
+  project: { geo: { lat: number; lng: number } | null },
+  position: { latitude?: number; longitude?: number }
+) {
+  return project.geo !== null && (position.latitude === undefined || position.longitude === undefined);
+}
+
 /**
  * Verify job belongs to project and user has access
  */
@@ -170,10 +237,11 @@ async function requireJobAccess(
   user: NonNullable<TrpcContext["user"]>,
   projectId: number,
   jobId: number,
-  action: string = "access"
+  action: string = "access",
+  level: AccessLevel = "edit"
 ): Promise<NonNullable<Awaited<ReturnType<typeof db.getProjectJobById>>>> {
   // First verify project access
-  await requireProjectAccess(user, projectId, action);
+  await requireProjectAccess(user, projectId, action, level);
   
   // Then verify job exists and belongs to the project
   const job = await db.getProjectJobById(jobId);
@@ -195,6 +263,31 @@ async function requireJobAccess(
   return job;
 }
 
+/**
+ * Verify that assigned users belong to the project's workspace and make
+ * them members of the project so they can see it
+ */
+async function assignProjectUsers(
+  user: NonNullable<TrpcContext["user"]>,
+  project: { id: number; createdBy: number },
+  userIds: number[] | undefined
+): Promise<void> {
+  const others = Array.from(new Set(userIds ?? [])).filter((id) => id !== project.createdBy);
+  if (others.length === 0) return;
+
+  const workspace = await db.getWorkspaceByOwner(project.createdBy);
+  const memberIds = new Set(workspace ? (await db.getWorkspaceMembers(workspace.id)).map((m) => m.userId) : []);
+  const outsiders = others.filter((id) => !memberIds.has(id));
+  if (outsiders.length > 0) {
+    throw new TRPCError({
+      code: "BAD_REQUEST",
+      message: "Jobs can only be assigned to members of the project's workspace",
+    });
+  }
+
+  await db.addProjectMembers(project.id, others, user.id);
+}
+
 // =============================================================================
 // JOBS ROUTER (nested under projects)
 // =============================================================================
@@ -206,7 +299,7 @@ const jobsRouter = router({
   list: protectedProcedure
     .input(z.object({ projectId: z.number() }))
     .query(async ({ input, ctx }) => {
-      await requireProjectAccess(ctx.user, input.projectId, "view jobs in");
+      await requireProjectAccess(ctx.user, input.projectId, "view jobs in", "view");
       return await db.getProjectJobsByProjectId(input.projectId);
     }),
 
@@ -216,7 +309,7 @@ const jobsRouter = router({
   get: protectedProcedure
     .input(z.object({ projectId: z.number(), jobId: z.number() }))
     .query(async ({ input, ctx }) => {
-      return await requireJobAccess(ctx.user, input.projectId, input.jobId, "view");
+      return await requireJobAccess(ctx.user, input.projectId, input.jobId, "view", "view");
     }),
 
   /**
@@ -225,7 +318,8 @@ const jobsRouter = router({
   create: protectedProcedure
     .input(createJobSchema)
     .mutation(async ({ input, ctx }) => {
-      await requireProjectAccess(ctx.user, input.projectId, "add jobs to");
+      const project = await requireProjectAccess(ctx.user, input.projectId, "add jobs to");
+      await assignProjectUsers(ctx.user, project, input.assignedUsers);
       
       const result = await db.createProjectJob({
         projectId: input.projectId,
@@ -248,6 +342,10 @@ const jobsRouter = router({
     .input(updateJobSchema)
     .mutation(async ({ input, ctx }) => {
       await requireJobAccess(ctx.user, input.projectId, input.id, "update");
+      if (input.assignedUsers !== undefined) {
+        const project = await requireProjectAccess(ctx.user, input.projectId, "update");
+        await assignProjectUsers(ctx.user, project, input.assignedUsers);
+      }
       
       const { id, projectId, ...updates } = input;
       
@@ -277,6 +375,201 @@ const jobsRouter = router({
     }),
 });
 
+// =============================================================================
+// PROJECT MEMBERS ROUTER (nested under projects)
+// =============================================================================
+
+const membersRouter = router({
+  /**
+   * List the workspace members working on a project
+   */
+  list: protectedProcedure
+    .input(z.object({ projectId: z.number() }))
+    .query(async ({ input, ctx }) => {
+      await requireProjectAccess(ctx.user, input.projectId, "view members of", "view");
+      return await db.getProjectMembers(input.projectId);
+    }),
+
+  /**
+   * Add a workspace member to a project
+   */
+  add: protectedProcedure
+    .input(z.object({ projectId: z.number(), userId: z.number() }))
+    .mutation(async ({ input, ctx }) => {
+      const project = await requireProjectAccess(ctx.user, input.projectId, "add members to");
+      if (input.userId === project.createdBy) {
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message: "The workspace owner already has access to all projects",
+        });
+      }
+      await assignProjectUsers(ctx.user, project, [input.userId]);
+      return { success: true };
+    }),
+
+  /**
+   * Remove a member from a project
+   */
+  remove: protectedProcedure
+    .input(z.object({ projectId: z.number(), userId: z.number() }))
+    .mutation(async ({ input, ctx }) => {
+      await requireProjectAccess(ctx.user, input.projectId, "remove members from");
+      await db.removeProjectMember(input.projectId, input.userId);
+      return { success: true };
+    }),
+});
+
+// =============================================================================
+// TIMELINE ROUTER (nested under projects)
+// =============================================================================
+
+/**
+ * Save the new start and end times of rescheduled jobs
+ */
+async function applyScheduleChanges(changes: JobScheduleChange[]): Promise<void> {
+  for (const change of changes) {
+    await db.updateProjectJob(change.jobId, { startTime: change.startTime, endTime: change.endTime });
+  }
+}
+
+const timelineRouter = router({
+  /**
+   * Jobs and dependencies of one project or, without projectId, of every
+   * project the user can see. Double-bookings are checked against the jobs
+   * of all visible projects.
+   */
+  get: protectedProcedure
+    .input(z.object({ projectId: z.number().optional() }).optional())
+    .query(async ({ input, ctx }) => {
+      const accessibleProjects = await listAccessibleProjects(ctx.user);
+      const shownProjects = input?.projectId
+        ? [await requireProjectAccess(ctx.user, input.projectId, "view", "view")]
+        : accessibleProjects;
+      const shownProjectIds = new Set(shownProjects.map((project) => project.id));
+      const projectNames = new Map(
+        [...accessibleProjects, ...shownProjects].map((project) => [project.id, project.name])
+      );
+
+      const allJobs = await db.getProjectJobsByProjectIds(Array.from(projectNames.keys()));
+      const jobsById = new Map(allJobs.map((job) => [job.id, job]));
+      const jobs = allJobs.filter((job) => shownProjectIds.has(job.projectId));
+      const dependencies = await db.getJobDependenciesByProjectIds(Array.from(shownProjectIds));
+
+      const conflicts = findAssignmentConflicts(allJobs).flatMap((conflict) =>
+        [
+          { jobId: conflict.jobId, otherJobId: conflict.otherJobId },
+          { jobId: conflict.otherJobId, otherJobId: conflict.jobId },
+        ]
+          .filter(({ jobId }) => shownProjectIds.has(jobsById.get(jobId)!.projectId))
+          .map(({ jobId, otherJobId }) => {
+            const otherJob = jobsById.get(otherJobId)!;
+            return {
+              jobId,
+              userId: conflict.userId,
+              otherJobId,
+              otherJobTitle: otherJob.title,
+              otherProjectId: otherJob.projectId,
+              otherProjectName: projectNames.get(otherJob.projectId) ?? "",
+            };
+          })
+      );
+
+      return {
+        projects: shownProjects.map((project) => ({ id: project.id, name: project.name, status: project.status })),
+        jobs,
+        dependencies,
+        conflicts,
+      };
+    }),
+
+  /**
+   * Move a job to new days; jobs depending on it are pushed back as needed.
+   * Only the days of the input count, the jobs keep their times of day.
+   */
+  reschedule: protectedProcedure
+    .input(
+      z.object({
+        projectId: z.number(),
+        jobId: z.number(),
+        startTime: z.date(),
+        endTime: z.date(),
+      }).refine((data) => data.endTime >= data.startTime, {
+        message: "End date must be on or after the start date",
+        path: ["endTime"],
+      })
+    )
+    .mutation(async ({ input, ctx }) => {
+      await requireJobAccess(ctx.user, input.projectId, input.jobId, "reschedule jobs in");
+      const jobs = await db.getProjectJobsByProjectId(input.projectId);
+      const dependencies = await db.getJobDependenciesByProjectIds([input.projectId]);
+      const changes = rescheduleJob(jobs, dependencies, input.jobId, input.startTime, input.endTime);
+      await applyScheduleChanges(changes);
+      return { changes };
+    }),
+
+  /**
+   * Let a job start only after another job of the project has finished
+   */
+  addDependency: protectedProcedure
+    .input(
+      z.object({
+        projectId: z.number(),
+        predecessorJobId: z.number(),
+        successorJobId: z.number(),
+      })
+    )
+    .mutation(async ({ input, ctx }) => {
+      const predecessor = await requireJobAccess(ctx.user, input.projectId, input.predecessorJobId, "plan jobs in");
+      await requireJobAccess(ctx.user, input.projectId, input.successorJobId, "plan jobs in");
+
+      const dependencies = await db.getJobDependenciesByProjectIds([input.projectId]);
+      if (dependencies.some((link) =>
+        link.predecessorJobId === input.predecessorJobId && link.successorJobId === input.successorJobId
+      )) {
+        throw new TRPCError({ code: "BAD_REQUEST", message: "This dependency already exists" });
+      }
+      if (wouldCreateCycle(dependencies, input.predecessorJobId, input.successorJobId)) {
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message: "Jobs can't depend on each other in a circle",
+        });
+      }
+
+      const { id } = await db.createJobDependency(input);
+
+      // Push the successor (and its own successors) behind the predecessor
+      let changes: JobScheduleChange[] = [];
+      const predecessorDays = getJobDays(predecessor);
+      if (predecessorDays) {
+        const jobs = await db.getProjectJobsByProjectId(input.projectId);
+        changes = rescheduleJob(
+          jobs,
+          [...dependencies, input],
+          predecessor.id,
+          predecessorDays.start,
+          predecessorDays.end
+        ).filter((change) => change.jobId !== predecessor.id);
+        await applyScheduleChanges(changes);
+      }
+      return { id, changes };
+    }),
+
+  /**
+   * Remove a dependency; the jobs keep their days
+   */
+  removeDependency: protectedProcedure
+    .input(z.object({ projectId: z.number(), dependencyId: z.number() }))
+    .mutation(async ({ input, ctx }) => {
+      await requireProjectAccess(ctx.user, input.projectId, "plan jobs in");
+      const dependency = await db.getJobDependencyById(input.dependencyId);
+      if (!dependency || dependency.projectId !== input.projectId) {
+        throw new TRPCError({ code: "NOT_FOUND", message: "Dependency not found" });
+      }
+      await db.deleteJobDependency(dependency.id);
+      return { success: true };
+    }),
+});
+
 // =============================================================================
 // PROJECTS ROUTER
 // =============================================================================
@@ -285,13 +578,11 @@ export const projectsRouter = router({
   /**
    * List all projects for the current user
    * - Admin sees all projects
-   * - Regular users see only their own
+   * - Regular users see the projects of their active workspace, foremen and
+   *   field workers only those they are members of
    */
   list: protectedProcedure.query(async ({ ctx }) => {
-    if (ctx.user.role === "admin") {
-      return await db.getAllProjects();
-    }
-    return await db.getProjectsByUser(ctx.user.id);
+    return await listAccessibleProjects(ctx.user);
   }),
 
   /**
@@ -301,7 +592,11 @@ export const projectsRouter = router({
     if (ctx.user.role === "admin") {
       return await db.getAllArchivedProjects();
     }
-    return await db.getArchivedProjectsByUser(ctx.user.id);
+    const scope = await getWorkspaceScope(ctx.user);
+    if (scope.role && isLimitedToProjectMembership(scope.role)) {
+      return [];
+    }
+    return await db.getArchivedProjectsByUser(scope.accountUserId);
   }),
 
   /**
@@ -311,7 +606,11 @@ export const projectsRouter = router({
     if (ctx.user.role === "admin") {
       return await db.getAllTrashedProjects();
     }
-    return await db.getTrashedProjectsByUser(ctx.user.id);
+    const scope = await getWorkspaceScope(ctx.user);
+    if (scope.role && isLimitedToProjectMembership(scope.role)) {
+      return [];
+    }
+    return await db.getTrashedProjectsByUser(scope.accountUserId);
   }),
 
   /**
@@ -320,7 +619,7 @@ export const projectsRouter = router({
   getById: protectedProcedure
     .input(z.object({ id: z.number() }))
     .query(async ({ input, ctx }) => {
-      return await requireProjectAccess(ctx.user, input.id, "view");
+      return await requireProjectAccess(ctx.user, input.id, "view", "view");
     }),
 
   /**
@@ -329,6 +628,8 @@ export const projectsRouter = router({
   create: protectedProcedure
     .input(createProjectSchema)
     .mutation(async ({ input, ctx }) => {
+      // Projects created in a workspace belong to its owner's account
+      const accountUserId = await requireAccountAccess(ctx.user, "projects", "edit");
       try {
         const { serialized: scheduledDates, first, last } = normalizeDateList(input.scheduledDates);
         const startDate = input.startDate ?? first ?? null;
@@ -345,7 +646,8 @@ export const projectsRouter = router({
           geo: input.geo || null,
           scheduledDates,
           status: input.status,
-          createdBy: ctx.user.id,
+          tags: input.tags ? normalizeTags(input.tags) : null,
+          createdBy: accountUserId,
         });
         
         if (!result || !result[0] || !result[0].id) {
@@ -356,6 +658,10 @@ export const projectsRouter = router({
           });
         }
         
+        if (accountUserId !== ctx.user.id) {
+          await db.addProjectMembers(result[0].id, [ctx.user.id], ctx.user.id);
+        }
+        
         return { success: true, id: result[0].id };
       } catch (error) {
         console.error("[Projects] createProject error:", error);
@@ -389,6 +695,7 @@ export const projectsRouter = router({
       if (updates.endDate !== undefined) updateData.endDate = updates.endDate || null;
       if (updates.address !== undefined) updateData.address = updates.address || null;
       if (updates.geo !== undefined) updateData.geo = updates.geo || null;
+      if (updates.geofenceRadiusMeters !== undefined) updateData.geofenceRadiusMeters = updates.geofenceRadiusMeters;
       if (updates.scheduledDates !== undefined) {
         const { serialized, first, last } = normalizeDateList(updates.scheduledDates);
         updateData.scheduledDates = serialized;
@@ -401,6 +708,7 @@ export const projectsRouter = router({
         }
       }
       if (updates.status !== undefined) updateData.status = updates.status;
+      if (updates.tags !== undefined) updateData.tags = normalizeTags(updates.tags);
       
       await db.updateProject(id, updateData);
       return { success: true };
@@ -500,8 +808,12 @@ export const projectsRouter = router({
   duplicate: protectedProcedure
     .input(z.object({ projectId: z.number() }))
     .mutation(async ({ input, ctx }) => {
-      await requireProjectAccess(ctx.user, input.projectId, "duplicate");
-      return await db.duplicateProject(input.projectId, ctx.user.id);
+      const project = await requireProjectAccess(ctx.user, input.projectId, "duplicate");
+      const copy = await db.duplicateProject(input.projectId, project.createdBy);
+      if (project.createdBy !== ctx.user.id) {
+        await db.addProjectMembers(copy.id, [ctx.user.id], ctx.user.id);
+      }
+      return copy;
     }),
 
   /**
@@ -510,6 +822,18 @@ export const projectsRouter = router({
    */
   jobs: jobsRouter,
 
+  /**
+   * Nested members router
+   * Accessed as: projects.members.list, projects.members.add, etc.
+   */
+  members: membersRouter,
+
+  /**
+   * Nested timeline router
+   * Accessed as: projects.timeline.get, projects.timeline.reschedule, etc.
+   */
+  timeline: timelineRouter,
+
   /**
    * Check in to a project (start work)
    */
@@ -517,12 +841,11 @@ export const projectsRouter = router({
     .input(
       z.object({
         projectId: z.number(),
-        latitude: z.number().optional(),
-        longitude: z.number().optional(),
+        ...checkinPositionSchema,
       })
     )
     .mutation(async ({ input, ctx }) => {
-      await requireProjectAccess(ctx.user, input.projectId, "view");
+      const project = await requireProjectAccess(ctx.user, input.projectId, "view", "view");
       
       // Check if user already has an active check-in
       const activeCheckin = await db.getActiveCheckin(input.projectId, ctx.user.id);
@@ -533,6 +856,9 @@ export const projectsRouter = router({
         });
       }
       
+      // Check-ins far from the site or without a position are kept but flagged for the timesheet review
+      const location = locateAtSite(project, input);
+      const locationMissing = isLocationMissing(project, input);
       await db.createProjectCheckin({
         projectId: input.projectId,
         userId: ctx.user.id,
@@ -540,10 +866,18 @@ export const projectsRouter = router({
         checkOutTime: null,
         latitude: input.latitude ? String(input.latitude) : null,
         longitude: input.longitude ? String(input.longitude) : null,
+        checkInDistanceMeters: location?.distanceMeters ?? null,
+        outsideGeofence: location?.outside ?? false,
+        locationMissing,
         notes: null,
       });
       
-      return { success: true };
+      return {
+        success: true,
+        distanceMeters: location?.distanceMeters ?? null,
+        outsideGeofence: location?.outside ?? false,
+        locationMissing,
+      };
     }),
 
   /**
@@ -554,10 +888,11 @@ export const projectsRouter = router({
       z.object({
         projectId: z.number(),
         notes: z.string().optional(),
+        ...checkinPositionSchema,
       })
     )
     .mutation(async ({ input, ctx }) => {
-      await requireProjectAccess(ctx.user, input.projectId, "view");
+      const project = await requireProjectAccess(ctx.user, input.projectId, "view", "view");
       
       // Find active check-in
       const activeCheckin = await db.getActiveCheckin(input.projectId, ctx.user.id);
@@ -568,12 +903,26 @@ export const projectsRouter = router({
         });
       }
       
+      const location = locateAtSite(project, input);
+      const locationMissing = isLocationMissing(project, input);
       await db.updateProjectCheckin(activeCheckin.id, {
         checkOutTime: new Date(),
+        checkOutLatitude: input.latitude !== undefined ? String(input.latitude) : null,
+        checkOutLongitude: input.longitude !== undefined ? String(input.longitude) : null,
+        checkOutDistanceMeters: location?.distanceMeters ?? null,
+        outsideGeofence: activeCheckin.outsideGeofence || (location?.outside ?? false),
+        locationMissing: activeCheckin.locationMissing || locationMissing,
         notes: input.notes || null,
       });
+      // The finished check-in shows up on the user's timesheet
+      await db.createTimeEntryFromCheckin(activeCheckin.id);
       
-      return { success: true };
+      return {
+        success: true,
+        distanceMeters: location?.distanceMeters ?? null,
+        outsideGeofence: location?.outside ?? false,
+        locationMissing,
+      };
     }),
 
   /**
@@ -582,7 +931,7 @@ export const projectsRouter = router({
   getCheckins: protectedProcedure
     .input(z.object({ projectId: z.number() }))
     .query(async ({ input, ctx }) => {
-      await requireProjectAccess(ctx.user, input.projectId, "view");
+      await requireProjectAccess(ctx.user, input.projectId, "view", "view");
       return await db.getProjectCheckinsByProjectId(input.projectId);
     }),
 
@@ -592,10 +941,21 @@ export const projectsRouter = router({
   getActiveCheckin: protectedProcedure
     .input(z.object({ projectId: z.number() }))
     .query(async ({ input, ctx }) => {
-      await requireProjectAccess(ctx.user, input.projectId, "view");
+      await requireProjectAccess(ctx.user, input.projectId, "view", "view");
       return await db.getActiveCheckin(input.projectId, ctx.user.id);
     }),
 
+  /**
+   * Job costing: linked expenses, invoiced revenue and check-in hours
+   */
+  costs: protectedProcedure
+    .input(z.object({ projectId: z.number() }))
+    .query(async ({ input, ctx }) => {
+      await requireProjectAccess(ctx.user, input.projectId, "view", "view");
+      const data = await db.getProjectCostData(input.projectId);
+      return computeProjectCosts(input.projectId, data);
+    }),
+
   /**
    * Nested files router
    * Accessed as: projects.files.presignUpload, projects.files.register, etc.
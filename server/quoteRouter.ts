@@ -0,0 +1,260 @@
+import { TRPCError } from "@trpc/server";
+import { z } from "zod";
+import { protectedProcedure, router } from "./_core/trpc";
+import * as db from "./db";
+import { requireAccountAccess } from "./services/workspaceAccess";
+import {
+  lineItemSchema,
+  normalizeLineItems,
+  calculateTotals,
+  toStoredLineItems,
+  fromStoredLineItems,
+} from "./lib/lineItems";
+import { QUOTE_DEFAULT_VALIDITY_DAYS, getQuoteState } from "../shared/quoteState";
+
+const quoteMetadataSchema = z.object({
+  clientId: z.number().optional().nullable(),
+  projectId: z.number().optional().nullable(),
+  issueDate: z.date().optional(),
+  validUntil: z.date().optional().nullable(),
+  notes: z.string().optional().nullable(),
+  terms: z.string().optional().nullable(),
+  referenceNumber: z.string().optional().nullable(),
+});
+
+type QuoteWithItems = NonNullable<Awaited<ReturnType<typeof db.getQuoteById>>>;
+
+function defaultValidUntil(issueDate: Date) {
+  const validUntil = new Date(issueDate);
+  validUntil.setDate(validUntil.getDate() + QUOTE_DEFAULT_VALIDITY_DAYS);
+  return validUntil;
+}
+
+function mapQuoteToPayload(quote: QuoteWithItems) {
+  return {
+    ...quote,
+    items: quote.items.map((item) => ({
+      ...item,
+      quantity: Number(item.quantity),
+      unitPrice: Number(item.unitPrice),
+      lineTotal: Number(item.lineTotal),
+      vatRate: item.vatRate === null ? null : Number(item.vatRate),
+    })),
+    subtotal: Number(quote.subtotal),
+    vatAmount: Number(quote.vatAmount),
+    total: Number(quote.total),
+    state: getQuoteState(quote),
+  };
+}
+
+async function getOwnedQuote(quoteId: number, userId: number) {
+  const quote = await db.getQuoteById(quoteId);
+  if (!quote) {
+    throw new TRPCError({ code: "NOT_FOUND", message: "Quote not found" });
+  }
+  if (quote.userId !== userId) {
+    throw new TRPCError({ code: "FORBIDDEN", message: "You don't have access to this quote" });
+  }
+  return quote;
+}
+
+async function requireVatSettings(userId: number) {
+  const settings = await db.getCompanySettingsByUserId(userId);
+  if (!settings) {
+    throw new TRPCError({
+      code: "INTERNAL_SERVER_ERROR",
+      message: "Company settings not found. Please configure your company settings first.",
+    });
+  }
+  return settings;
+}
+
+export const quoteRouter = router({
+  list: protectedProcedure.query(async ({ ctx }) => {
+    const userId = await requireAccountAccess(ctx.user, "invoices", "view");
+    const quotes = await db.getQuotesByUserId(userId);
+    return quotes.map(mapQuoteToPayload);
+  }),
+
+  get: protectedProcedure
+    .input(z.object({ id: z.number() }))
+    .query(async ({ input, ctx }) => {
+      const userId = await requireAccountAccess(ctx.user, "invoices", "view");
+      const quote = await getOwnedQuote(input.id, userId);
+      return mapQuoteToPayload(quote);
+    }),
+
+  nextNumber: protectedProcedure
+    .input(z.object({ issueDate: z.date().optional() }).optional())
+    .query(async ({ input, ctx }) => {
+      const userId = await requireAccountAccess(ctx.user, "invoices", "view");
+      return db.generateQuoteNumber(userId, input?.issueDate ?? new Date());
+    }),
+
+  create: protectedProcedure
+    .input(
+      quoteMetadataSchema.extend({
+        items: z.array(lineItemSchema).min(1, "At least one line item is required"),
+      })
+    )
+    .mutation(async ({ input, ctx }) => {
+      const userId = await requireAccountAccess(ctx.user, "invoices", "edit");
+      const settings = await requireVatSettings(userId);
+      const issueDate = input.issueDate ?? new Date();
+      const { quoteNumber, quoteCounter, quoteYear } = await db.generateQuoteNumber(userId, issueDate);
+
+      const normalizedItems = normalizeLineItems(input.items, settings);
+      const totals = calculateTotals(normalizedItems, settings);
+
+      const created = await db.createQuote({
+        userId,
+        clientId: input.clientId ?? null,
+        projectId: input.projectId ?? null,
+        quoteNumber,
+        quoteCounter,
+        quoteYear,
+        issueDate,
+        validUntil: input.validUntil ?? defaultValidUntil(issueDate),
+        notes: input.notes ?? null,
+        terms: input.terms ?? null,
+        referenceNumber: input.referenceNumber ?? null,
+        subtotal: totals.subtotal.toFixed(2),
+        vatAmount: totals.vatAmount.toFixed(2),
+        total: totals.total.toFixed(2),
+        items: toStoredLineItems(normalizedItems),
+      });
+
+      return mapQuoteToPayload(created);
+    }),
+
+  update: protectedProcedure
+    .input(
+      quoteMetadataSchema.extend({
+        id: z.number(),
+        items: z.array(lineItemSchema).min(1, "At least one line item is required").optional(),
+      })
+    )
+    .mutation(async ({ input, ctx }) => {
+      const userId = await requireAccountAccess(ctx.user, "invoices", "edit");
+      const quote = await getOwnedQuote(input.id, userId);
+      if (quote.status !== "draft") {
+        throw new TRPCError({ code: "BAD_REQUEST", message: "Only draft quotes can be updated" });
+      }
+
+      const settings = await requireVatSettings(userId);
+      const normalizedItems = normalizeLineItems(input.items ?? fromStoredLineItems(quote.items), settings);
+      const totals = calculateTotals(normalizedItems, settings);
+
+      const updated = await db.updateQuote(quote.id, {
+        clientId: input.clientId === undefined ? quote.clientId : input.clientId,
+        projectId: input.projectId === undefined ? quote.projectId : input.projectId,
+        issueDate: input.issueDate ?? quote.issueDate,
+        validUntil: input.validUntil === undefined ? quote.validUntil : input.validUntil,
+        notes: input.notes ?? quote.notes,
+        terms: input.terms ?? quote.terms,
+        referenceNumber: input.referenceNumber ?? quote.referenceNumber,
+        subtotal: totals.subtotal.toFixed(2),
+        vatAmount: totals.vatAmount.toFixed(2),
+        total: totals.total.toFixed(2),
+        items: toStoredLineItems(normalizedItems),
+      });
+      if (!updated) {
+        throw new TRPCError({ code: "NOT_FOUND", message: "Quote not found" });
+      }
+
+      return mapQuoteToPayload(updated);
+    }),
+
+  markAsSent: protectedProcedure
+    .input(z.object({ id: z.number() }))
+    .mutation(async ({ input, ctx }) => {
+      const userId = await requireAccountAccess(ctx.user, "invoices", "edit");
+      const quote = await getOwnedQuote(input.id, userId);
+      if (quote.status !== "draft") {
+        throw new TRPCError({ code: "BAD_REQUEST", message: "Only draft quotes can be marked as sent" });
+      }
+      if (quote.items.length === 0) {
+        throw new TRPCError({ code: "BAD_REQUEST", message: "Add at least one line item before sending the quote" });
+      }
+      const updated = await db.updateQuote(quote.id, { status: "sent", sentAt: new Date() });
+      return mapQuoteToPayload(updated!);
+    }),
+
+  revertToDraft: protectedProcedure
+    .input(z.object({ id: z.number() }))
+    .mutation(async ({ input, ctx }) => {
+      const userId = await requireAccountAccess(ctx.user, "invoices", "edit");
+      const quote = await getOwnedQuote(input.id, userId);
+      if (quote.convertedInvoiceId) {
+        throw new TRPCError({ code: "BAD_REQUEST", message: "Converted quotes cannot be reverted" });
+      }
+      if (quote.status === "draft") {
+        return mapQuoteToPayload(quote);
+      }
+      const updated = await db.updateQuote(quote.id, {
+        status: "draft",
+        sentAt: null,
+        acceptedAt: null,
+        declinedAt: null,
+      });
+      return mapQuoteToPayload(updated!);
+    }),
+
+  accept: protectedProcedure
+    .input(z.object({ id: z.number() }))
+    .mutation(async ({ input, ctx }) => {
+      const userId = await requireAccountAccess(ctx.user, "invoices", "edit");
+      const quote = await getOwnedQuote(input.id, userId);
+      if (quote.status !== "sent") {
+        throw new TRPCError({ code: "BAD_REQUEST", message: "Only sent quotes can be accepted" });
+      }
+      const updated = await db.updateQuote(quote.id, { status: "accepted", acceptedAt: new Date(), declinedAt: null });
+      return mapQuoteToPayload(updated!);
+    }),
+
+  decline: protectedProcedure
+    .input(z.object({ id: z.number() }))
+    .mutation(async ({ input, ctx }) => {
+      const userId = await requireAccountAccess(ctx.user, "invoices", "edit");
+      const quote = await getOwnedQuote(input.id, userId);
+      if (quote.status !== "sent") {
+        throw new TRPCError({ code: "BAD_REQUEST", message: "Only sent quotes can be declined" });
+      }
+      const updated = await db.updateQuote(quote.id, { status: "declined", declinedAt: new Date(), acceptedAt: null });
+      return mapQuoteToPayload(updated!);
+    }),
+
+  /**
+   * Copy the quote into a new draft invoice (same contact, project and line items)
+   */
+  convertToInvoice: protectedProcedure
+    .input(z.object({ id: z.number() }))
+    .mutation(async ({ input, ctx }) => {
+      const userId = await requireAccountAccess(ctx.user, "invoices", "edit");
+      await getOwnedQuote(input.id, userId);
+      try {
+        const invoiceId = await db.convertQuoteToInvoice(userId, input.id);
+        return { success: true, invoiceId };
+      } catch (error) {
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message: error instanceof Error ? error.message : "Failed to convert quote",
+        });
+      }
+    }),
+
+  delete: protectedProcedure
+    .input(z.object({ id: z.number() }))
+    .mutation(async ({ input, ctx }) => {
+      const userId = await requireAccountAccess(ctx.user, "invoices", "edit");
+      const quote = await getOwnedQuote(input.id, userId);
+      if (quote.convertedInvoiceId) {
+        throw new TRPCError({
+          code: "FORBIDDEN",
+          message: "Quotes that were converted into an invoice cannot be deleted.",
+        });
+      }
+      await db.deleteQuote(quote.id);
+      return { success: true };
+    }),
+});
@@ -0,0 +1,32 @@
+import { describe, expect, it } from "vitest";
+import { formatQuoteNumber, getHighestQuoteCounter, getQuoteState } from "../shared/quoteState";
+
+describe("getQuoteState", () => {
+  const now = new Date(2025, 5, 15, 10, 0, 0);
+
+  it("reports a sent quote past its validity date as expired", () => {
+    expect(getQuoteState({ status: "sent", validUntil: new Date(2025, 5, 14) }, now)).toBe("expired");
+  });
+
+  it("keeps a sent quote valid through its validity date", () => {
+    expect(getQuoteState({ status: "sent", validUntil: new Date(2025, 5, 15) }, now)).toBe("sent");
+  });
+
+  it("never expires accepted or draft quotes", () => {
+    const validUntil = new Date(2025, 0, 1);
+    expect(getQuoteState({ status: "accepted", validUntil }, now)).toBe("accepted");
+    expect(getQuoteState({ status: "draft", validUntil }, now)).toBe("draft");
+  });
+});
+
+describe("quote numbering", () => {
+  it("formats numbers as AN-YYYY-NNN", () => {
+    expect(formatQuoteNumber(2025, 7)).toBe("AN-2025-007");
+  });
+
+  it("finds the highest counter of the year and ignores other formats", () => {
+    expect(
+      getHighestQuoteCounter(["AN-2025-002", "AN-2025-011", "AN-2024-099", "Angebot 12"], 2025)
+    ).toBe(11);
+  });
+});
@@ -0,0 +1,74 @@
+import { describe, expect, it } from "vitest";
+import {
+  getFollowingRunDate,
+  getNextOccurrence,
+  getOccurrence,
+  getServicePeriod,
+  getUpcomingRuns,
+  isRunDue,
+  isRunReclaimable,
+  type RecurringSchedule,
+} from "../shared/recurringInvoice";
+
+describe("getOccurrence", () => {
+  it("keeps the start day and clamps to the end of shorter months", () => {
+    const start = new Date(2025, 0, 31);
+    expect(getOccurrence(start, "monthly", 1)).toEqual(new Date(2025, 1, 28));
+    expect(getOccurrence(start, "monthly", 2)).toEqual(new Date(2025, 2, 31));
+    expect(getOccurrence(start, "quarterly", 1)).toEqual(new Date(2025, 3, 30));
+    expect(getOccurrence(new Date(2024, 1, 29), "yearly", 1)).toEqual(new Date(2025, 1, 28));
+  });
+});
+
+describe("getNextOccurrence", () => {
+  it("returns the first run after the given date", () => {
+    const start = new Date(2025, 0, 15);
+    expect(getNextOccurrence(start, "monthly", new Date(2024, 11, 1))).toEqual(start);
+    expect(getNextOccurrence(start, "monthly", new Date(2025, 0, 15))).toEqual(new Date(2025, 1, 15));
+    expect(getNextOccurrence(start, "quarterly", new Date(2025, 4, 20))).toEqual(new Date(2025, 6, 15));
+  });
+});
+
+describe("getServicePeriod", () => {
+  it("runs until the day before the next run", () => {
+    const period = getServicePeriod(new Date(2025, 0, 1), "quarterly", new Date(2025, 3, 1));
+    expect(period.start).toEqual(new Date(2025, 3, 1));
+    expect(period.end).toEqual(new Date(2025, 5, 30));
+  });
+});
+
+describe("schedule", () => {
+  const schedule: RecurringSchedule = {
+    interval: "monthly",
+    startDate: new Date(2025, 0, 1),
+    endDate: new Date(2025, 2, 31),
+    nextRunDate: new Date(2025, 1, 1),
+    isActive: true,
+  };
+
+  it("lists upcoming runs up to the end date", () => {
+    expect(getUpcomingRuns(schedule, 5)).toEqual([new Date(2025, 1, 1), new Date(2025, 2, 1)]);
+    expect(getFollowingRunDate(schedule, new Date(2025, 2, 1))).toBeNull();
+  });
+
+  it("is due from the run date on while active", () => {
+    expect(isRunDue(schedule, new Date(2025, 0, 31))).toBe(false);
+    expect(isRunDue(schedule, new Date(2025, 1, 1, 9))).toBe(true);
+    expect(isRunDue({ ...schedule, isActive: false }, new Date(2025, 1, 2))).toBe(false);
+  });
+});
+
+describe("isRunReclaimable", () => {
+  const now = new Date(2025, 1, 1, 12, 0);
+
+  it("retries failed runs and runs left pending by a crash", () => {
+    expect(isRunReclaimable({ status: "failed", invoiceId: null, updatedAt: now }, now)).toBe(true);
+    expect(isRunReclaimable({ status: "pending", invoiceId: null, updatedAt: new Date(2025, 1, 1, 11, 0) }, now)).toBe(true);
+  });
+
+  it("leaves runs in progress and runs with an invoice alone", () => {
+    expect(isRunReclaimable({ status: "pending", invoiceId: null, updatedAt: new Date(2025, 1, 1, 11, 50) }, now)).toBe(false);
+    expect(isRunReclaimable({ status: "pending", invoiceId: 7, updatedAt: new Date(2025, 1, 1, 11, 0) }, now)).toBe(false);
+    expect(isRunReclaimable({ status: "created", invoiceId: 7, updatedAt: new Date(2025, 1, 1, 11, 0) }, now)).toBe(false);
+  });
+});
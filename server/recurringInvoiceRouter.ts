@@ -0,0 +1,266 @@
+import { TRPCError } from "@trpc/server";
+import { z } from "zod";
+import { protectedProcedure, router } from "./_core/trpc";
+import * as db from "./db";
+import {
+  lineItemSchema,
+  normalizeLineItems,
+  calculateTotals,
+  toStoredLineItems,
+  fromStoredLineItems,
+} from "./lib/lineItems";
+import {
+  RECURRING_DEFAULT_PAYMENT_TERM_DAYS,
+  RECURRING_INTERVALS,
+  addDays,
+  getNextOccurrence,
+  getUpcomingRuns,
+  startOfDay,
+  type RecurringSchedule,
+} from "../shared/recurringInvoice";
+import { generateRecurringInvoice } from "./services/recurringInvoices";
+import { requireAccountAccess } from "./services/workspaceAccess";
+
+const UPCOMING_RUN_COUNT = 3;
+
+const recurringInvoiceMetadataSchema = z.object({
+  name: z.string().trim().min(1, "Name is required").max(255),
+  clientId: z.number().optional().nullable(),
+  projectId: z.number().optional().nullable(),
+  interval: z.enum(RECURRING_INTERVALS),
+  startDate: z.date(),
+  endDate: z.date().optional().nullable(),
+  autoIssue: z.boolean().optional(),
+  paymentTermDays: z.number().int().min(0).max(365).optional(),
+  notes: z.string().optional().nullable(),
+  terms: z.string().optional().nullable(),
+  referenceNumber: z.string().optional().nullable(),
+});
+
+function mapRecurringInvoiceToPayload(template: db.RecurringInvoiceWithItems) {
+  return {
+    ...template,
+    items: template.items.map((item) => ({
+      ...item,
+      quantity: Number(item.quantity),
+      unitPrice: Number(item.unitPrice),
+      lineTotal: Number(item.lineTotal),
+      vatRate: item.vatRate === null ? null : Number(item.vatRate),
+    })),
+    subtotal: Number(template.subtotal),
+    vatAmount: Number(template.vatAmount),
+    total: Number(template.total),
+    upcomingRuns: getUpcomingRuns(template, UPCOMING_RUN_COUNT),
+  };
+}
+
+async function getOwnedRecurringInvoice(id: number, userId: number) {
+  const template = await db.getRecurringInvoiceById(id);
+  if (!template) {
+    throw new TRPCError({ code: "NOT_FOUND", message: "Recurring invoice not found" });
+  }
+  if (template.userId !== userId) {
+    throw new TRPCError({ code: "FORBIDDEN", message: "You don't have access to this recurring invoice" });
+  }
+  return template;
+}
+
+async function requireVatSettings(userId: number) {
+  const settings = await db.getCompanySettingsByUserId(userId);
+  if (!settings) {
+    throw new TRPCError({
+      code: "INTERNAL_SERVER_ERROR",
+      message: "Company settings not found. Please configure your company settings first.",
+    });
+  }
+  return settings;
+}
+
+function assertValidPeriod(startDate: Date, endDate: Date | null | undefined) {
+  if (endDate && startOfDay(endDate).getTime() < startOfDay(startDate).getTime()) {
+    throw new TRPCError({ code: "BAD_REQUEST", message: "The end date must not be before the start date" });
+  }
+}
+
+/**
+ * First run from today on. Past runs are never created retroactively, e.g. for
+ * a start date in the past or when a paused template is resumed.
+ */
+function getFirstPendingRun(schedule: Pick<RecurringSchedule, "interval" | "startDate" | "endDate">) {
+  const runDate = getNextOccurrence(schedule.startDate, schedule.interval, addDays(new Date(), -1));
+  if (schedule.endDate && runDate.getTime() > startOfDay(schedule.endDate).getTime()) {
+    return null;
+  }
+  return runDate;
+}
+
+export const recurringInvoiceRouter = router({
+  list: protectedProcedure.query(async ({ ctx }) => {
+    const userId = await requireAccountAccess(ctx.user, "invoices", "view");
+    const templates = await db.getRecurringInvoicesByUserId(userId);
+    return templates.map(mapRecurringInvoiceToPayload);
+  }),
+
+  get: protectedProcedure
+    .input(z.object({ id: z.number() }))
+    .query(async ({ input, ctx }) => {
+      const userId = await requireAccountAccess(ctx.user, "invoices", "view");
+      const template = await getOwnedRecurringInvoice(input.id, userId);
+      return mapRecurringInvoiceToPayload(template);
+    }),
+
+  /**
+   * Generated invoices (and failed runs), newest first
+   */
+  runs: protectedProcedure
+    .input(z.object({ recurringInvoiceId: z.number().optional() }).optional())
+    .query(async ({ input, ctx }) => {
+      const userId = await requireAccountAccess(ctx.user, "invoices", "view");
+      if (input?.recurringInvoiceId) {
+        await getOwnedRecurringInvoice(input.recurringInvoiceId, userId);
+      }
+      const runs = await db.getRecurringInvoiceRunsByUserId(userId, input?.recurringInvoiceId);
+      return runs.map((run) => ({
+        ...run,
+        invoiceTotal: run.invoiceTotal === null ? null : Number(run.invoiceTotal),
+      }));
+    }),
+
+  create: protectedProcedure
+    .input(
+      recurringInvoiceMetadataSchema.extend({
+        items: z.array(lineItemSchema).min(1, "At least one line item is required"),
+      })
+    )
+    .mutation(async ({ input, ctx }) => {
+      const userId = await requireAccountAccess(ctx.user, "invoices", "edit");
+      assertValidPeriod(input.startDate, input.endDate);
+      const settings = await requireVatSettings(userId);
+      const normalizedItems = normalizeLineItems(input.items, settings);
+      const totals = calculateTotals(normalizedItems, settings);
+
+      const startDate = startOfDay(input.startDate);
+      const endDate = input.endDate ? startOfDay(input.endDate) : null;
+      const created = await db.createRecurringInvoice({
+        userId,
+        clientId: input.clientId ?? null,
+        projectId: input.projectId ?? null,
+        name: input.name,
+        interval: input.interval,
+        startDate,
+        endDate,
+        nextRunDate: getFirstPendingRun({ interval: input.interval, startDate, endDate }),
+        autoIssue: input.autoIssue ?? false,
+        paymentTermDays: input.paymentTermDays ?? RECURRING_DEFAULT_PAYMENT_TERM_DAYS,
+        notes: input.notes ?? null,
+        terms: input.terms ?? null,
+        referenceNumber: input.referenceNumber ?? null,
+        subtotal: totals.subtotal.toFixed(2),
+        vatAmount: totals.vatAmount.toFixed(2),
+        total: totals.total.toFixed(2),
+        isActive: true,
+        items: toStoredLineItems(normalizedItems),
+      });
+
+      return mapRecurringInvoiceToPayload(created);
+    }),
+
+  update: protectedProcedure
+    .input(
+      recurringInvoiceMetadataSchema.partial().extend({
+        id: z.number(),
+        items: z.array(lineItemSchema).min(1, "At least one line item is required").optional(),
+      })
+    )
+    .mutation(async ({ input, ctx }) => {
+      const userId = await requireAccountAccess(ctx.user, "invoices", "edit");
+      const template = await getOwnedRecurringInvoice(input.id, userId);
+
+      const interval = input.interval ?? template.interval;
+      const startDate = input.startDate ? startOfDay(input.startDate) : template.startDate;
+      const endDate =
+        input.endDate === undefined ? template.endDate : input.endDate ? startOfDay(input.endDate) : null;
+      assertValidPeriod(startDate, endDate);
+
+      const scheduleChanged =
+        interval !== template.interval ||
+        startDate.getTime() !== new Date(template.startDate).getTime() ||
+        (endDate?.getTime() ?? null) !== (template.endDate ? new Date(template.endDate).getTime() : null);
+
+      const settings = await requireVatSettings(userId);
+      const normalizedItems = normalizeLineItems(input.items ?? fromStoredLineItems(template.items), settings);
+      const totals = calculateTotals(normalizedItems, settings);
+
+      const updated = await db.updateRecurringInvoice(template.id, {
+        name: input.name ?? template.name,
+        clientId: input.clientId === undefined ? template.clientId : input.clientId,
+        projectId: input.projectId === undefined ? template.projectId : input.projectId,
+        interval,
+        startDate,
+        endDate,
+        nextRunDate: scheduleChanged ? getFirstPendingRun({ interval, startDate, endDate }) : template.nextRunDate,
+        autoIssue: input.autoIssue ?? template.autoIssue,
+        paymentTermDays: input.paymentTermDays ?? template.paymentTermDays,
+        notes: input.notes === undefined ? template.notes : input.notes,
+        terms: input.terms === undefined ? template.terms : input.terms,
+        referenceNumber: input.referenceNumber === undefined ? template.referenceNumber : input.referenceNumber,
+        subtotal: totals.subtotal.toFixed(2),
+        vatAmount: totals.vatAmount.toFixed(2),
+        total: totals.total.toFixed(2),
+        items: toStoredLineItems(normalizedItems),
+      });
+      if (!updated) {
+        throw new TRPCError({ code: "NOT_FOUND", message: "Recurring invoice not found" });
+      }
+
+      return mapRecurringInvoiceToPayload(updated);
+    }),
+
+  /**
+   * Pause or resume a template. Resuming continues with the next run from today on.
+   */
+  setActive: protectedProcedure
+    .input(z.object({ id: z.number(), isActive: z.boolean() }))
+    .mutation(async ({ input, ctx }) => {
+      const userId = await requireAccountAccess(ctx.user, "invoices", "edit");
+      const template = await getOwnedRecurringInvoice(input.id, userId);
+      if (template.isActive === input.isActive) {
+        return mapRecurringInvoiceToPayload(template);
+      }
+      const updated = await db.updateRecurringInvoice(template.id, {
+        isActive: input.isActive,
+        ...(input.isActive ? { nextRunDate: getFirstPendingRun(template) } : {}),
+      });
+      return mapRecurringInvoiceToPayload(updated!);
+    }),
+
+  /**
+   * Create the invoice for the pending run right away instead of waiting for the scheduler
+   */
+  runNow: protectedProcedure
+    .input(z.object({ id: z.number() }))
+    .mutation(async ({ input, ctx }) => {
+      const userId = await requireAccountAccess(ctx.user, "invoices", "edit");
+      const template = await getOwnedRecurringInvoice(input.id, userId);
+      if (!template.isActive || !template.nextRunDate) {
+        throw new TRPCError({ code: "BAD_REQUEST", message: "This recurring invoice has no pending run" });
+      }
+      const result = await generateRecurringInvoice(template, template.nextRunDate);
+      if (result.status === "failed") {
+        throw new TRPCError({ code: "BAD_REQUEST", message: result.error ?? "Failed to create invoice" });
+      }
+      if (result.status === "skipped") {
+        throw new TRPCError({ code: "CONFLICT", message: "The invoice for this run was already created" });
+      }
+      return result;
+    }),
+
+  delete: protectedProcedure
+    .input(z.object({ id: z.number() }))
+    .mutation(async ({ input, ctx }) => {
+      const userId = await requireAccountAccess(ctx.user, "invoices", "edit");
+      const template = await getOwnedRecurringInvoice(input.id, userId);
+      await db.deleteRecurringInvoice(template.id);
+      return { success: true };
+    }),
+});
@@ -20,8 +20,20 @@ import { projectsRouter } from "./projectsRouter";
 import { pdfRouter } from "./pdfRouter";
 import { settingsRouter } from "./settingsRouter";
 import { invoiceRouter } from "./invoiceRouter";
+import { quoteRouter } from "./quoteRouter";
+import { dunningRouter } from "./dunningRouter";
+import { recurringInvoiceRouter } from "./recurringInvoiceRouter";
+import { bankImportRouter } from "./bankImportRouter";
+import { taxReportRouter } from "./taxReportRouter";
+import { mileageRouter } from "./mileageRouter";
+import { perDiemRouter } from "./perDiemRouter";
+import { subscriptionsRouter } from "./subscriptionsRouter";
+import { exchangeRatesRouter } from "./exchangeRatesRouter";
 import { inspectionRouter } from "./inspectionRouter";
 import { expenseRouter } from "./expenseRouter";
+import { timesheetsRouter } from "./timesheetsRouter";
+import { workspacesRouter } from "./workspacesRouter";
+import { projectTemplatesRouter } from "./projectTemplatesRouter";
 import { aiRouter } from "./aiRouter";
 import { documentRouter } from "./documentRouter";
 import { geocodeAddress } from "./_core/geocoding";
@@ -32,7 +44,9 @@ import {
   deleteImageVariants,
   type ImageVariant,
 } from "./_core/imagePipeline";
-import type { StoredImageMetadata } from "../drizzle/schema";
+import type { StoredImageMetadata, User } from "../drizzle/schema";
+import { getRecordAccess, requireAccountAccess } from "./services/workspaceAccess";
+import { satisfiesAccess } from "../shared/workspaces";
 
 function deriveInvoiceNameFromFilename(filename: string) {
   const trimmed = filename.trim();
@@ -67,6 +81,13 @@ function resolveContactName(input: { clientName?: string | null; name?: string |
   return input.clientName || input.name || input.contactPerson || "Contact";
 }
 
+/**
+ * Contacts are shared within a workspace; the role decides who may change them
+ */
+async function canEditContact(user: User, createdBy: number) {
+  return satisfiesAccess(await getRecordAccess(user, "contacts", createdBy), "edit");
+}
+
 async function hydrateImageRecord<T extends { imageMetadata: StoredImageMetadata | null }>(
   image: T
 ): Promise<T & { imageUrls: Record<ImageVariant, string> | null }> {
@@ -83,10 +104,28 @@ export const appRouter = router({
   pdf: pdfRouter,
   settings: settingsRouter,
   invoices: invoiceRouter,
+  quotes: quoteRouter,
+  dunning: dunningRouter,
+  recurringInvoices: recurringInvoiceRouter,
+  bankImport: bankImportRouter,
+  taxReport: taxReportRouter,
+  mileage: mileageRouter,
+  perDiem: perDiemRouter,
+  subscriptions: subscriptionsRouter,
+  exchangeRates: exchangeRatesRouter,
   
   // New project-based structure
   projects: projectsRouter,
   
+  // Project templates
+  projectTemplates: projectTemplatesRouter,
+  
+  // Timesheets and billable hours
+  timesheets: timesheetsRouter,
+  
+  // Team workspaces, members and invitations
+  workspaces: workspacesRouter,
+  
   // Inspection module
   inspections: inspectionRouter,
   
@@ -609,21 +648,25 @@ export const appRouter = router({
   
   contacts: router({
     list: protectedProcedure.query(async ({ ctx }) => {
-      return await db.getContactsByUser(ctx.user.id);
+      return await db.getContactsByUser(await requireAccountAccess(ctx.user, "contacts", "view"));
     }),
 
     listArchived: protectedProcedure.query(async ({ ctx }) => {
-      return await db.getArchivedContactsByUser(ctx.user.id);
+      return await db.getArchivedContactsByUser(await requireAccountAccess(ctx.user, "contacts", "view"));
     }),
 
     listTrashed: protectedProcedure.query(async ({ ctx }) => {
-      return await db.getTrashedContactsByUser(ctx.user.id);
+      return await db.getTrashedContactsByUser(await requireAccountAccess(ctx.user, "contacts", "view"));
     }),
     
     getById: protectedProcedure
       .input(z.object({ id: z.number() }))
-      .query(async ({ input }) => {
-        return await db.getContactById(input.id);
+      .query(async ({ input, ctx }) => {
+        const contact = await db.getContactById(input.id);
+        if (contact && (await getRecordAccess(ctx.user, "contacts", contact.createdBy)) === "none") {
+          throw new TRPCError({ code: "FORBIDDEN", message: "You don't have permission to view this contact" });
+        }
+        return contact;
       }),
     
     create: protectedProcedure
@@ -660,6 +703,8 @@ export const appRouter = router({
         notes: z.string().optional(),
       }))
       .mutation(async ({ input, ctx }) => {
+        // Contacts created in a workspace belong to its owner's account
+        const accountUserId = await requireAccountAccess(ctx.user, "contacts", "edit");
         try {
           const clientName = normalizeNullableString(input.clientName);
           const contactPerson = normalizeNullableString(input.contactPerson);
@@ -779,7 +824,7 @@ export const appRouter = router({
             latitude: latitude || null,
             longitude: longitude || null,
             notes: notes,
-            createdBy: ctx.user.id,
+            createdBy: accountUserId,
           });
           
           if (!result || !result[0] || !result[0].id) {
@@ -864,7 +909,7 @@ export const appRouter = router({
         if (!existing) {
           throw new TRPCError({ code: "NOT_FOUND", message: "Contact not found" });
         }
-        if (ctx.user.role !== "admin" && existing.createdBy !== ctx.user.id) {
+        if (!(await canEditContact(ctx.user, existing.createdBy))) {
           throw new TRPCError({ code: "FORBIDDEN", message: "You don't have permission to update this contact" });
         }
         
@@ -1114,7 +1159,7 @@ export const appRouter = router({
         if (!existing) {
           throw new TRPCError({ code: "NOT_FOUND", message: "Contact not found" });
         }
-        if (ctx.user.role !== "admin" && existing.createdBy !== ctx.user.id) {
+        if (!(await canEditContact(ctx.user, existing.createdBy))) {
           throw new TRPCError({ code: "FORBIDDEN", message: "You don't have permission to archive this contact" });
         }
         await db.archiveContact(input.id);
@@ -1128,10 +1173,10 @@ export const appRouter = router({
         if (!existing) {
           throw new TRPCError({ code: "NOT_FOUND", message: "Contact not found" });
         }
-        if (ctx.user.role !== "admin" && existing.createdBy !== ctx.user.id) {
+        if (!(await canEditContact(ctx.user, existing.createdBy))) {
           throw new TRPCError({ code: "FORBIDDEN", message: "You don't have permission to duplicate this contact" });
         }
-        return await db.duplicateContact(input.id, ctx.user.id);
+        return await db.duplicateContact(input.id, existing.createdBy);
       }),
 
     restore: protectedProcedure
@@ -1141,7 +1186,7 @@ export const appRouter = router({
         if (!existing) {
           throw new TRPCError({ code: "NOT_FOUND", message: "Contact not found" });
         }
-        if (ctx.user.role !== "admin" && existing.createdBy !== ctx.user.id) {
+        if (!(await canEditContact(ctx.user, existing.createdBy))) {
           throw new TRPCError({ code: "FORBIDDEN", message: "You don't have permission to restore this contact" });
         }
         await db.restoreArchivedContact(input.id);
@@ -1155,7 +1200,7 @@ export const appRouter = router({
         if (!existing) {
           throw new TRPCError({ code: "NOT_FOUND", message: "Contact not found" });
         }
-        if (ctx.user.role !== "admin" && existing.createdBy !== ctx.user.id) {
+        if (!(await canEditContact(ctx.user, existing.createdBy))) {
           throw new TRPCError({ code: "FORBIDDEN", message: "You don't have permission to restore this contact" });
         }
         await db.restoreContactFromTrash(input.id);
@@ -1169,7 +1214,7 @@ export const appRouter = router({
         if (!existing) {
           throw new TRPCError({ code: "NOT_FOUND", message: "Contact not found" });
         }
-        if (ctx.user.role !== "admin" && existing.createdBy !== ctx.user.id) {
+        if (!(await canEditContact(ctx.user, existing.createdBy))) {
           throw new TRPCError({ code: "FORBIDDEN", message: "You don't have permission to delete this contact" });
         }
         await db.moveContactToTrash(input.id);
@@ -1183,7 +1228,7 @@ export const appRouter = router({
         if (!existing) {
           throw new TRPCError({ code: "NOT_FOUND", message: "Contact not found" });
         }
-        if (ctx.user.role !== "admin" && existing.createdBy !== ctx.user.id) {
+        if (!(await canEditContact(ctx.user, existing.createdBy))) {
           throw new TRPCError({ code: "FORBIDDEN", message: "You don't have permission to delete this contact" });
         }
         if (!existing.trashedAt) {
@@ -1253,9 +1298,10 @@ export const appRouter = router({
       .mutation(async ({ input, ctx }) => {
         const { filename, mimeType, fileSize, base64Data, jobId, contactId } = input;
         const contentType = mimeType || getContentType(filename);
+        const userId = await requireAccountAccess(ctx.user, "invoices", "edit");
 
         // Generate unique file key
-        const fileKey = generateFileKey("invoices", ctx.user.id, filename);
+        const fileKey = generateFileKey("invoices", userId, filename);
 
         // Upload to S3 via server (no CORS needed)
         const { url } = await storagePut(fileKey, base64Data, contentType);
@@ -1268,7 +1314,7 @@ export const appRouter = router({
         }
 
         try {
-          await db.ensureUniqueInvoiceName(ctx.user.id, invoiceName);
+          await db.ensureUniqueInvoiceName(userId, invoiceName);
         } catch (error) {
           const message = error instanceof Error ? error.message : "Invoice name must be unique.";
           throw new TRPCError({ code: "BAD_REQUEST", message });
@@ -1288,7 +1334,7 @@ export const appRouter = router({
           uploadDate,
           uploadedBy: ctx.user.id,
           uploadedAt: uploadDate,
-          userId: ctx.user.id,
+          userId,
           type: "standard",
           source: "uploaded",
           needsReview: true,
@@ -1313,7 +1359,8 @@ export const appRouter = router({
         })
       )
       .mutation(async ({ input, ctx }) => {
-        const fileKey = generateFileKey("invoices", ctx.user.id, input.filename);
+        const userId = await requireAccountAccess(ctx.user, "invoices", "edit");
+        const fileKey = generateFileKey("invoices", userId, input.filename);
         const contentType = input.mimeType || getContentType(input.filename);
 
         const { uploadUrl, publicUrl } = await createPresignedUploadUrl(
@@ -1343,6 +1390,7 @@ export const appRouter = router({
         })
       )
       .mutation(async ({ input, ctx }) => {
+        const userId = await requireAccountAccess(ctx.user, "invoices", "edit");
         const issueDate = input.uploadDate || new Date();
         const originalFileName = input.filename;
         const invoiceName = deriveInvoiceNameFromFilename(originalFileName);
@@ -1351,7 +1399,7 @@ export const appRouter = router({
         }
 
         try {
-          await db.ensureUniqueInvoiceName(ctx.user.id, invoiceName);
+          await db.ensureUniqueInvoiceName(userId, invoiceName);
         } catch (error) {
           const message = error instanceof Error ? error.message : "Invoice name must be unique.";
           throw new TRPCError({ code: "BAD_REQUEST", message });
@@ -1371,7 +1419,7 @@ export const appRouter = router({
           uploadDate: input.uploadDate || new Date(),
           uploadedBy: ctx.user.id,
           uploadedAt: input.uploadDate || new Date(),
-          userId: ctx.user.id,
+          userId,
           status: "draft", // Always 'draft' on creation (constitution)
           items: [],
           subtotal: "0.00",
@@ -6,71 +6,7 @@
  */
 
 import * as db from "../../../db";
-
-/**
- * Normalize string for matching
- * - lowercase
- * - strip legal suffixes (GmbH, UG, Ltd, Inc, etc.)
- * - trim punctuation
- */
-function normalizeForMatching(name: string): string {
-  return name
-    .toLowerCase()
-    .replace(/\b(gmbh|ug|haftungsbeschränkt|limited|ltd|inc|corp|corporation|llc)\b/gi, "")
-    .replace(/[^\w\s]/g, "")
-    .trim()
-    .replace(/\s+/g, " ");
-}
-
-/**
- * Calculate Levenshtein distance between two strings
- */
-function levenshteinDistance(str1: string, str2: string): number {
-  const len1 = str1.length;
-  const len2 = str2.length;
-  const matrix: number[][] = [];
-
-  for (let i = 0; i <= len1; i++) {
-    matrix[i] = [i];
-  }
-
-  for (let j = 0; j <= len2; j++) {
-    matrix[0][j] = j;
-  }
-
-  for (let i = 1; i <= len1; i++) {
-    for (let j = 1; j <= len2; j++) {
-      if (str1[i - 1] === str2[j - 1]) {
-        matrix[i][j] = matrix[i - 1][j - 1];
-      } else {
-        matrix[i][j] = Math.min(
-          matrix[i - 1][j] + 1, // deletion
-          matrix[i][j - 1] + 1, // insertion
-          matrix[i - 1][j - 1] + 1 // substitution
-        );
-      }
-    }
-  }
-
-  return matrix[len1][len2];
-}
-
-/**
- * Calculate similarity score (0-1) between two strings
- */
-function calculateSimilarity(str1: string, str2: string): number {
-  const normalized1 = normalizeForMatching(str1);
-  const normalized2 = normalizeForMatching(str2);
-
-  if (normalized1 === normalized2) return 1.0;
-
-  const distance = levenshteinDistance(normalized1, normalized2);
-  const maxLength = Math.max(normalized1.length, normalized2.length);
-  
-  if (maxLength === 0) return 1.0;
-  
-  return 1 - distance / maxLength;
-}
+import { calculateSimilarity, normalizeForMatching } from "./nameSimilarity";
 
 /**
  * Client match result
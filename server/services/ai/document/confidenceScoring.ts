@@ -18,8 +18,19 @@ export const CONFIDENCE_THRESHOLDS = {
   CRITICAL_FIELDS: ["invoiceNumber", "issueDate", "total", "clientName"] as const,
   /** Critical field confidence threshold */
   CRITICAL_FIELD_REVIEW: 0.8,
+  /** Local OCR results below this overall confidence always require review */
+  LOCAL_OCR_REVIEW: 0.85,
 } as const;
 
+/**
+ * Field confidence of the local backend: how sure the text parser is about a
+ * field, scaled by how well the OCR engine read the text (0-1)
+ */
+export function scoreLocalOcrField(parserConfidence: number, textConfidence: number): number {
+  const score = parserConfidence * Math.min(Math.max(textConfidence, 0), 1);
+  return Math.round(score * 100) / 100;
+}
+
 /**
  * Compute confidence metadata from raw extraction
  * Handles both new format (with per-field confidence) and legacy format
@@ -65,7 +76,10 @@ export function computeConfidenceMetadata(
     return {
       overall,
       fields,
-      requiresReview: normalized.flags.requiresReview,
+      requiresReview:
+        normalized.flags.requiresReview ||
+        (normalized.backend === "local" && overall < CONFIDENCE_THRESHOLDS.LOCAL_OCR_REVIEW),
+      backend: normalized.backend,
     };
   }
   
@@ -153,7 +167,10 @@ export function computeConfidenceMetadata(
     return {
       overall,
       fields,
-      requiresReview,
+      requiresReview:
+        requiresReview ||
+        (rawOutput.backend === "local" && overall < CONFIDENCE_THRESHOLDS.LOCAL_OCR_REVIEW),
+      backend: rawOutput.backend,
     };
   }
 
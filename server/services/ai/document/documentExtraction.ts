@@ -0,0 +1,56 @@
+/**
+ * Document Extraction
+ *
+ * Chooses the OCR backend per request:
+ * - "mistral": Mistral Document AI only
+ * - "local": local OCR only (offline)
+ * - "auto": Mistral when configured, local OCR when the key is missing or the
+ *   API call fails (quota exhausted, outage, timeout)
+ */
+
+import { ENV } from "../../../_core/env";
+import { DocumentOcrError, processDocumentOcr } from "./documentOcrClient";
+import { processDocumentLocalOcr } from "./localOcrClient";
+import { OCR_BACKEND_PREFERENCES, type OcrBackendPreference, type OcrInput, type RawExtractionOutput } from "./types";
+
+function defaultBackend(): OcrBackendPreference {
+  return (OCR_BACKEND_PREFERENCES as readonly string[]).includes(ENV.ocrBackend)
+    ? (ENV.ocrBackend as OcrBackendPreference)
+    : "auto";
+}
+
+/**
+ * Extract structured data from a document with the requested backend
+ * The result's `backend` tells which backend produced it.
+ */
+export async function extractDocument(input: OcrInput): Promise<RawExtractionOutput> {
+  const backend = input.backend ?? defaultBackend();
+
+  if (backend === "local" || (backend === "auto" && !ENV.mistralApiKey)) {
+    return processDocumentLocalOcr(input);
+  }
+
+  try {
+    const raw = await processDocumentOcr(input);
+    return { ...raw, backend: "mistral" };
+  } catch (mistralError) {
+    if (backend === "mistral") throw mistralError;
+
+    console.warn("[Document Extraction] Mistral failed, falling back to local OCR:", {
+      filename: input.filename,
+      statusCode: mistralError instanceof DocumentOcrError ? mistralError.statusCode : undefined,
+      message: mistralError instanceof Error ? mistralError.message : String(mistralError),
+    });
+
+    try {
+      return await processDocumentLocalOcr(input);
+    } catch (localError) {
+      throw new DocumentOcrError(
+        `Mistral OCR failed (${mistralError instanceof Error ? mistralError.message : "unknown error"}), ` +
+          `local OCR failed (${localError instanceof Error ? localError.message : "unknown error"})`,
+        mistralError instanceof DocumentOcrError ? mistralError.statusCode : undefined,
+        localError
+      );
+    }
+  }
+}
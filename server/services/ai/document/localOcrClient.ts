@@ -0,0 +1,142 @@
+/**
+ * Local OCR Client
+ *
+ * Offline alternative to Mistral Document AI, used when the API is not
+ * configured or its quota is exhausted.
+ *
+ * Two-step process like the Mistral client:
+ * 1. Text: PDF text layer, or tesseract on images and scanned PDF pages
+ * 2. Fields: deterministic text parsing (localTextExtraction)
+ */
+
+import sharp from "sharp";
+import { ENV } from "../../../_core/env";
+import { extractPdfText } from "../../../expenses/pdfTotalExtractor";
+import { DocumentOcrError } from "./documentOcrClient";
+import { extractFieldsFromText } from "./localTextExtraction";
+import type { OcrInput, RawExtractionOutput } from "./types";
+
+/** Scanned PDFs: only the first pages are rendered for OCR */
+const MAX_SCANNED_PDF_PAGES = 3;
+/** Text layers shorter than this are treated as scans */
+const MIN_TEXT_LAYER_LENGTH = 20;
+
+const TESSERACT_LANGUAGES: Record<string, string> = {
+  de: "deu",
+  en: "eng",
+};
+
+function tesseractLanguages(languageHint?: string): string[] {
+  const hinted = languageHint ? TESSERACT_LANGUAGES[languageHint.toLowerCase().slice(0, 2)] : undefined;
+  return hinted ? [hinted] : ["deu", "eng"];
+}
+
+/**
+ * Greyscale, contrast-stretched PNG: tesseract reads phone photos of
+ * receipts noticeably better after this
+ */
+async function prepareImage(image: Buffer): Promise<Buffer> {
+  try {
+    return await sharp(image).rotate().greyscale().normalise().png().toBuffer();
+  } catch (error) {
+    console.warn("[Local OCR] Image preprocessing failed, using the original:", error);
+    return image;
+  }
+}
+
+/**
+ * Run tesseract on the images
+ * Returns the text and the mean word confidence (0-1)
+ */
+async function recognizeImages(
+  images: Buffer[],
+  languageHint?: string
+): Promise<{ text: string; confidence: number }> {
+  const { createWorker } = await import("tesseract.js");
+  const worker = await createWorker(tesseractLanguages(languageHint), 1, {
+    ...(ENV.tesseractLangPath ? { langPath: ENV.tesseractLangPath, gzip: false } : {}),
+  });
+
+  try {
+    const pages: Array<{ text: string; confidence: number }> = [];
+    for (const image of images) {
+      const { data } = await worker.recognize(await prepareImage(image));
+      pages.push({ text: data.text, confidence: data.confidence / 100 });
+    }
+    const confidence = pages.length > 0 ? pages.reduce((sum, page) => sum + page.confidence, 0) / pages.length : 0;
+    return { text: pages.map((page) => page.text).join("\n\n"), confidence };
+  } finally {
+    await worker.terminate();
+  }
+}
+
+/** Render the first pages of a scanned PDF as PNG */
+async function renderPdfPages(pdfBuffer: Buffer): Promise<Buffer[]> {
+  const { PDFParse } = await import("pdf-parse");
+  const parser = new PDFParse({ data: pdfBuffer });
+  try {
+    const result = await parser.getScreenshot({ first: MAX_SCANNED_PDF_PAGES, scale: 2, imageBuffer: true });
+    return result.pages.map((page) => Buffer.from(page.data));
+  } finally {
+    await parser.destroy();
+  }
+}
+
+/**
+ * Process document with local OCR
+ * Never calls external services (except the tesseract language download
+ * when TESSERACT_LANG_PATH is not set)
+ */
+export async function processDocumentLocalOcr(input: OcrInput): Promise<RawExtractionOutput> {
+  console.log("[Local OCR] Starting document processing:", {
+    filename: input.filename,
+    mimeType: input.mimeType,
+    fileSize: input.fileBuffer.length,
+  });
+
+  const startTime = Date.now();
+
+  try {
+    let text: string;
+    let textConfidence: number;
+
+    if (input.mimeType.toLowerCase().includes("pdf")) {
+      const textLayer = (await extractPdfText(input.fileBuffer)) ?? "";
+      if (textLayer.trim().length >= MIN_TEXT_LAYER_LENGTH) {
+        text = textLayer;
+        textConfidence = 1;
+      } else {
+        console.log("[Local OCR] PDF has no text layer, running OCR on rendered pages");
+        const pages = await renderPdfPages(input.fileBuffer);
+        ({ text, confidence: textConfidence } = await recognizeImages(pages, input.languageHint));
+      }
+    } else if (input.mimeType.toLowerCase().startsWith("image/")) {
+      ({ text, confidence: textConfidence } = await recognizeImages([input.fileBuffer], input.languageHint));
+    } else {
+      throw new DocumentOcrError(`Unsupported file type for local OCR: ${input.mimeType}`);
+    }
+
+    if (text.trim().length === 0) {
+      throw new DocumentOcrError("Local OCR found no text in the document");
+    }
+
+    const result = extractFieldsFromText(text, textConfidence);
+    console.log("[Local OCR] Document processing complete:", {
+      durationMs: Date.now() - startTime,
+      documentType: result.documentType,
+      textConfidence,
+    });
+    return result;
+  } catch (error) {
+    console.error("[Local OCR] Error during processing:", {
+      durationMs: Date.now() - startTime,
+      errorMessage: error instanceof Error ? error.message : String(error),
+    });
+
+    if (error instanceof DocumentOcrError) {
+      throw error;
+    }
+
+    throw new DocumentOcrError(error instanceof Error ? error.message : "Unknown error", undefined, error);
+  }
+}
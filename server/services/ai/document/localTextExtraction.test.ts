@@ -0,0 +1,69 @@
+import { describe, expect, it } from "vitest";
+import { extractFieldsFromText } from "./localTextExtraction";
+import { normalizeExtractedData } from "./normalizeExtractedData";
+import { computeConfidenceMetadata } from "./confidenceScoring";
+
+const INVOICE_TEXT = `Malerbetrieb Schulz GmbH
+Hauptstraße 4, 10115 Berlin
+Rechnungsempfänger:
+Muster AG
+Rechnung
+Rechnungsnummer: RE-2025-0042
+Rechnungsdatum: 14.03.2025
+Leistungszeitraum: 01.03.2025 - 10.03.2025
+Malerarbeiten 1.000,00 €
+MwSt 19 % 190,00 €
+Gesamtbetrag 1.190,00 €
+Zahlbar bis 28.03.2025`;
+
+const RECEIPT_TEXT = `BAUMARKT HAGEBAU
+Filiale Köln
+Kassenbon
+Schrauben 4,99
+Farbe 45,00
+SUMME EUR 49,99
+12.02.25 14:31`;
+
+describe("extractFieldsFromText", () => {
+  it("reads invoice fields from a PDF text layer", () => {
+    const raw = extractFieldsFromText(INVOICE_TEXT, 1);
+
+    expect(raw.backend).toBe("local");
+    expect(raw.documentType).toBe("invoice");
+    expect(raw.supplier?.name).toBe("Malerbetrieb Schulz GmbH");
+    expect(raw.client.name).toBe("Muster AG");
+    expect(raw.invoiceNumber.value).toBe("RE-2025-0042");
+    expect(raw.invoiceDate).toEqual({ value: "2025-03-14", confidence: 0.9 });
+    expect(raw.dueDate.value).toBe("2025-03-28");
+    expect(raw.servicePeriod).toEqual({ from: "2025-03-01", to: "2025-03-10" });
+    expect(raw.total).toEqual({ amount: 1190, currency: "EUR", confidence: 0.9 });
+    expect(raw.flags).toEqual([]);
+  });
+
+  it("scales confidence by OCR quality and flags what is missing", () => {
+    const raw = extractFieldsFromText(RECEIPT_TEXT, 0.5);
+
+    expect(raw.documentType).toBe("receipt");
+    expect(raw.supplier?.name).toBe("BAUMARKT HAGEBAU");
+    expect(raw.invoiceDate).toEqual({ value: "2025-02-12", confidence: 0.3 });
+    expect(raw.total.amount).toBe(49.99);
+    expect(raw.total.confidence).toBe(0.45);
+    expect(raw.flags).toEqual([]);
+
+    const empty = extractFieldsFromText("unleserlich", 0.4);
+    expect(empty.total).toEqual({ amount: null, currency: null, confidence: 0 });
+    expect(empty.flags).toEqual(["missing_invoiceNumber", "missing_issueDate", "missing_total"]);
+  });
+
+  it("feeds local confidence into review scoring", () => {
+    const normalized = normalizeExtractedData(extractFieldsFromText(RECEIPT_TEXT, 0.5));
+    const meta = computeConfidenceMetadata(normalized);
+
+    expect(normalized.backend).toBe("local");
+    expect(normalized.supplierName).toBe("BAUMARKT HAGEBAU");
+    expect(normalized.totalCents).toBe(4999);
+    expect(meta.backend).toBe("local");
+    expect(meta.requiresReview).toBe(true);
+    expect(meta.fields.total.reason).toBe("Critical field with low confidence");
+  });
+});
@@ -0,0 +1,175 @@
+/**
+ * Local Text Extraction
+ *
+ * Deterministic extraction of invoice/receipt fields from plain document text
+ * (PDF text layer or local OCR). Produces the same RawExtractionOutput as
+ * Mistral so the rest of the pipeline stays unchanged.
+ * NEVER invents missing data - uses null with confidence 0.
+ */
+
+import { extractGermanTotalFromText } from "../../../expenses/pdfTotalExtractor";
+import { scoreLocalOcrField } from "./confidenceScoring";
+import type { DocumentType, RawExtractionOutput } from "./types";
+
+const DATE_REGEX = /\b(\d{1,2})\.(\d{1,2})\.(\d{4}|\d{2})\b|\b(\d{4})-(\d{2})-(\d{2})\b/g;
+
+const ISSUE_DATE_KEYWORDS = /(rechnungsdatum|belegdatum|datum|invoice date|date)/i;
+const DUE_DATE_KEYWORDS = /(fällig|faellig|zahlbar bis|zahlungsziel|due)/i;
+const SERVICE_PERIOD_KEYWORDS = /(leistungszeitraum|lieferzeitraum|service period)/i;
+const CLIENT_KEYWORDS = /^(rechnungsempfänger|rechnungsempfaenger|kunde|an|bill to|invoice to)\b\s*:?\s*(.*)$/i;
+const INVOICE_NUMBER_REGEX =
+  /(?:rechnungs?\s*-?\s*(?:nr|nummer)|beleg\s*-?\s*(?:nr|nummer)|bon\s*-?\s*nr|invoice\s*(?:no|number|#))\.?\s*[:#]?\s*([A-Z0-9][A-Z0-9\-/]{2,})/i;
+
+/** How sure the parser is, before scaling by the text quality */
+const PARSER_CONFIDENCE = {
+  keywordMatch: 0.9,
+  firstMatch: 0.6,
+  supplierFirstLine: 0.6,
+  totalHigh: 0.9,
+  totalMedium: 0.65,
+} as const;
+
+function detectDocumentType(text: string): DocumentType {
+  if (/\b(gutschrift|credit note)\b/i.test(text)) return "credit_note";
+  if (/\b(rechnung|invoice)\b/i.test(text)) return "invoice";
+  if (/\b(kassenbon|quittung|kassenbeleg|bon|receipt|beleg)\b/i.test(text)) return "receipt";
+  return "unknown";
+}
+
+function detectCurrency(text: string): string | null {
+  if (/€|\bEUR\b/i.test(text)) return "EUR";
+  if (/\bCHF\b/.test(text)) return "CHF";
+  if (/\bUSD\b|\$/.test(text)) return "USD";
+  if (/\bGBP\b|£/.test(text)) return "GBP";
+  return null;
+}
+
+/** Dates in a line as ISO strings (YYYY-MM-DD), in order of appearance */
+function findDates(line: string): string[] {
+  const dates: string[] = [];
+  for (const match of Array.from(line.matchAll(DATE_REGEX))) {
+    const [day, month, year] = match[1]
+      ? [Number(match[1]), Number(match[2]), Number(match[3].length === 2 ? `20${match[3]}` : match[3])]
+      : [Number(match[6]), Number(match[5]), Number(match[4])];
+    if (month < 1 || month > 12 || day < 1 || day > 31) continue;
+    dates.push(`${year}-${String(month).padStart(2, "0")}-${String(day).padStart(2, "0")}`);
+  }
+  return dates;
+}
+
+/** First date on a keyword line (or the line after it) */
+function findKeywordDate(lines: string[], keywords: RegExp): string | null {
+  for (let i = 0; i < lines.length; i++) {
+    if (!keywords.test(lines[i])) continue;
+    const dates = findDates(lines[i]);
+    if (dates.length > 0) return dates[0];
+    const next = lines[i + 1] ? findDates(lines[i + 1]) : [];
+    if (next.length > 0) return next[0];
+  }
+  return null;
+}
+
+/** First line that reads like a name: letters, no date, no amount */
+function isNameLine(line: string): boolean {
+  return (
+    /[A-Za-zÄÖÜäöüß]{3,}/.test(line) &&
+    findDates(line).length === 0 &&
+    !/\d+[.,]\d{2}\b/.test(line) &&
+    !/^(rechnung|invoice|gutschrift|kassenbon|quittung|beleg)\b/i.test(line)
+  );
+}
+
+function findClientName(lines: string[]): string | null {
+  for (let i = 0; i < lines.length; i++) {
+    const match = lines[i].match(CLIENT_KEYWORDS);
+    if (!match) continue;
+    const sameLine = match[2].trim();
+    if (sameLine && isNameLine(sameLine)) return sameLine;
+    if (lines[i + 1] && isNameLine(lines[i + 1])) return lines[i + 1];
+  }
+  return null;
+}
+
+/**
+ * Extract fields from document text
+ *
+ * @param text Plain text of the document
+ * @param textConfidence How reliably the text was read (0-1): 1 for a PDF
+ *   text layer, the OCR engine's mean confidence for scans
+ */
+export function extractFieldsFromText(text: string, textConfidence: number): RawExtractionOutput {
+  const lines = text
+    .split(/\r?\n/)
+    .map((line) => line.trim())
+    .filter(Boolean);
+  const score = (parserConfidence: number) => scoreLocalOcrField(parserConfidence, textConfidence);
+  const documentType = detectDocumentType(text);
+
+  const supplierLine = lines.slice(0, 5).find(isNameLine) ?? null;
+  const clientName = findClientName(lines);
+  const invoiceNumber = text.match(INVOICE_NUMBER_REGEX)?.[1] ?? null;
+
+  const keywordIssueDate = findKeywordDate(
+    lines.filter((line) => !DUE_DATE_KEYWORDS.test(line) && !SERVICE_PERIOD_KEYWORDS.test(line)),
+    ISSUE_DATE_KEYWORDS
+  );
+  const firstDate = lines.flatMap(findDates)[0] ?? null;
+  const issueDate = keywordIssueDate ?? firstDate;
+  const dueDate = findKeywordDate(lines, DUE_DATE_KEYWORDS);
+
+  const periodLine = lines.find((line) => SERVICE_PERIOD_KEYWORDS.test(line));
+  const periodDates = periodLine ? findDates(periodLine) : [];
+
+  const total = extractGermanTotalFromText(text);
+  const totalConfidence =
+    total.grossAmountCents === null
+      ? 0
+      : total.confidence === "high"
+        ? PARSER_CONFIDENCE.totalHigh
+        : PARSER_CONFIDENCE.totalMedium;
+
+  const flags: string[] = [];
+  if (!invoiceNumber && documentType !== "receipt") flags.push("missing_invoiceNumber");
+  if (!issueDate) flags.push("missing_issueDate");
+  if (total.grossAmountCents === null) flags.push("missing_total");
+  if (!clientName && documentType === "invoice") flags.push("missing_clientName");
+
+  return {
+    documentType,
+    backend: "local",
+    client: {
+      name: clientName,
+      confidence: clientName ? score(PARSER_CONFIDENCE.keywordMatch) : 0,
+    },
+    supplier: {
+      name: supplierLine,
+      confidence: supplierLine ? score(PARSER_CONFIDENCE.supplierFirstLine) : 0,
+    },
+    invoiceNumber: {
+      value: invoiceNumber,
+      confidence: invoiceNumber ? score(PARSER_CONFIDENCE.keywordMatch) : 0,
+    },
+    invoiceDate: {
+      value: issueDate,
+      confidence: keywordIssueDate
+        ? score(PARSER_CONFIDENCE.keywordMatch)
+        : issueDate
+          ? score(PARSER_CONFIDENCE.firstMatch)
+          : 0,
+    },
+    dueDate: {
+      value: dueDate,
+      confidence: dueDate ? score(PARSER_CONFIDENCE.keywordMatch) : 0,
+    },
+    servicePeriod: {
+      from: periodDates[0] ?? null,
+      to: periodDates[1] ?? null,
+    },
+    total: {
+      amount: total.grossAmountCents === null ? null : total.grossAmountCents / 100,
+      currency: detectCurrency(text),
+      confidence: score(totalConfidence),
+    },
+    flags,
+  };
+}
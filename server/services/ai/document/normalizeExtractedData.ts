@@ -136,6 +136,7 @@ export function normalizeExtractedData(
   const isNewFormat = "client" in raw && typeof raw.client === "object";
   
   let clientName: string | null = null;
+  let supplierName: string | null = null;
   let invoiceNumber: string | null = null;
   let issueDate: Date | null = null;
   let dueDate: Date | null = null;
@@ -150,6 +151,7 @@ export function normalizeExtractedData(
   if (isNewFormat) {
     // New format
     clientName = raw.client?.name?.trim() || null;
+    supplierName = raw.supplier?.name?.trim() || null;
     invoiceNumber = raw.invoiceNumber?.value?.trim() || null;
     issueDate = parseDate(raw.invoiceDate?.value);
     dueDate = parseDate(raw.dueDate?.value);
@@ -160,6 +162,7 @@ export function normalizeExtractedData(
     
     // Extract confidence scores
     if (raw.client) fieldConfidence.clientName = raw.client.confidence;
+    if (raw.supplier) fieldConfidence.supplierName = raw.supplier.confidence;
     if (raw.invoiceNumber) fieldConfidence.invoiceNumber = raw.invoiceNumber.confidence;
     if (raw.invoiceDate) fieldConfidence.issueDate = raw.invoiceDate.confidence;
     if (raw.dueDate) fieldConfidence.dueDate = raw.dueDate.confidence;
@@ -211,6 +214,7 @@ export function normalizeExtractedData(
   
   return {
     documentType: raw.documentType,
+    backend: raw.backend ?? "mistral",
     
     // Invoice identification
     invoiceNumber,
@@ -226,7 +230,7 @@ export function normalizeExtractedData(
     clientName,
     clientAddress: null, // Not in new format yet
     clientVatNumber: null, // Not in new format yet
-    supplierName: null, // Not in new format yet
+    supplierName,
     supplierAddress: null, // Not in new format yet
     supplierVatNumber: null, // Not in new format yet
     
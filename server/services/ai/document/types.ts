@@ -10,6 +10,19 @@
  */
 export type DocumentType = "invoice" | "receipt" | "credit_note" | "unknown";
 
+/**
+ * Extraction backends: Mistral Document AI or the local OCR engine
+ */
+export const OCR_BACKENDS = ["mistral", "local"] as const;
+export type OcrBackend = (typeof OCR_BACKENDS)[number];
+
+/**
+ * Backend requested per document; "auto" prefers Mistral and falls back to
+ * local OCR when the API is not configured or not available
+ */
+export const OCR_BACKEND_PREFERENCES = ["auto", ...OCR_BACKENDS] as const;
+export type OcrBackendPreference = (typeof OCR_BACKEND_PREFERENCES)[number];
+
 /**
  * OCR input - file data for processing
  */
@@ -22,6 +35,8 @@ export interface OcrInput {
   filename: string;
   /** Optional language hint (e.g., "de", "en") */
   languageHint?: string;
+  /** Extraction backend (default: "auto") */
+  backend?: OcrBackendPreference;
 }
 
 /**
@@ -56,6 +71,13 @@ export interface RawExtractionOutput {
     confidence: number;
   };
   flags: string[]; // Array of flag strings (e.g., ["missing_client", "low_confidence"])
+  /** Issuer of the document (only filled by the local backend so far) */
+  supplier?: {
+    name: string | null;
+    confidence: number;
+  };
+  /** Backend that produced this output */
+  backend?: OcrBackend;
   
   // Legacy fields for backward compatibility (may be present in old format)
   fields?: {
@@ -80,6 +102,8 @@ export interface RawExtractionOutput {
  */
 export interface NormalizedExtractionResult {
   documentType: DocumentType;
+  /** Backend that extracted the data */
+  backend: OcrBackend;
   
   // Invoice identification
   invoiceNumber: string | null;
@@ -147,4 +171,6 @@ export interface ConfidenceMetadata {
     reason?: string; // Why confidence is low/high
   }>;
   requiresReview: boolean;
+  /** Backend that extracted the data, when known */
+  backend?: OcrBackend;
 }
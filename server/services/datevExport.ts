@@ -0,0 +1,200 @@
+import { once } from "events";
+import type { Writable } from "stream";
+import * as db from "../db";
+import { storageGet } from "../storage";
+import { BadRequestError } from "@shared/_core/errors";
+import { isDatevChart, resolveDatevAccounts } from "../../shared/datev";
+import { isUnconvertedExpense } from "../../shared/exchangeRates";
+import {
+  buildExpenseBookings,
+  buildExtfBuchungsstapel,
+  buildInvoiceBookings,
+  datevBatchFileName,
+  datevReceiptPath,
+  encodeDatevFile,
+  expenseDocumentNumber,
+  ZipWriter,
+  type DatevBooking,
+  type ZipEntry,
+} from "../lib/datev";
+
+const PERIOD_DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+/** Receipt to be loaded from storage while the ZIP is written */
+export interface DatevReceiptSource {
+  name: string;
+  key: string;
+  /** Belegfeld 1 of the booking */
+  document: string;
+  modifiedAt: Date;
+}
+
+export interface DatevExport {
+  filename: string;
+  batch: ZipEntry;
+  bookingCount: number;
+  receipts: DatevReceiptSource[];
+  /** Documents of bookings without a stored receipt */
+  missingReceipts: string[];
+}
+
+const parsePeriodDate = (value: string, endOfDay = false) => {
+  const [year, month, day] = value.split("-").map(Number);
+  return endOfDay ? new Date(year, month - 1, day, 23, 59, 59, 999) : new Date(year, month - 1, day);
+};
+
+/**
+ * Bookings of the account in the period and the receipts to bundle with
+ * them. Receipts are only listed here; writeDatevZip loads them one at a time.
+ */
+export async function prepareDatevExport(
+  accountUserId: number,
+  exportedBy: string | null,
+  fromValue: string,
+  toValue: string
+): Promise<DatevExport> {
+  if (!PERIOD_DATE_PATTERN.test(fromValue) || !PERIOD_DATE_PATTERN.test(toValue)) {
+    throw BadRequestError("Use the format YYYY-MM-DD");
+  }
+  const from = parsePeriodDate(fromValue);
+  const to = parsePeriodDate(toValue, true);
+  if (Number.isNaN(from.getTime()) || Number.isNaN(to.getTime()) || from > to) {
+    throw BadRequestError("Invalid export period");
+  }
+  if (from.getFullYear() !== to.getFullYear()) {
+    throw BadRequestError("The export period must lie within one fiscal year");
+  }
+
+  const settings = await db.getCompanySettingsByUserId(accountUserId);
+  if (!settings?.datevConsultantNumber || !settings.datevClientNumber) {
+    throw BadRequestError("Enter your DATEV consultant and client number in the settings first");
+  }
+  const chart = isDatevChart(settings.datevChartOfAccounts) ? settings.datevChartOfAccounts : "SKR03";
+  const accounts = resolveDatevAccounts(chart, settings.datevAccounts);
+
+  const [invoices, expenses] = await Promise.all([
+    db.getDatevInvoicesForPeriod(accountUserId, from, to),
+    db.getDatevExpensesForPeriod(accountUserId, from, to),
+  ]);
+
+  // Bookings are in EUR; a receipt amount in another currency would be booked as euros
+  const unconverted = expenses.filter(isUnconvertedExpense);
+  if (unconverted.length > 0) {
+    throw BadRequestError(
+      `No EUR amount for ${unconverted.length} foreign-currency expense${unconverted.length === 1 ? "" : "s"} (${unconverted
+        .map((expense) => expenseDocumentNumber(expense.id))
+        .join(", ")}). Import the ECB reference rates or enter the rate manually before exporting.`
+    );
+  }
+
+  const bookings: DatevBooking[] = [];
+  const receipts: DatevReceiptSource[] = [];
+  const missingReceipts: string[] = [];
+  const usedPaths = new Set<string>();
+
+  for (const invoice of invoices) {
+    const invoiceBookings = buildInvoiceBookings(invoice, {
+      accounts,
+      defaultRate: Number(settings.vatRate || 19),
+      isKleinunternehmer: settings.isKleinunternehmer,
+    });
+    if (invoiceBookings.length === 0) continue;
+    bookings.push(...invoiceBookings);
+
+    const document = invoiceBookings[0].document;
+    const pdfKey = invoice.pdfFileKey ?? invoice.originalPdfS3Key;
+    if (!pdfKey) {
+      missingReceipts.push(document);
+      continue;
+    }
+    receipts.push({
+      name: datevReceiptPath(document, invoice.originalFileName ?? `${document || "Rechnung"}.pdf`, usedPaths),
+      key: pdfKey,
+      document,
+      modifiedAt: invoice.issueDate,
+    });
+  }
+
+  for (const expense of expenses) {
+    const expenseBookings = buildExpenseBookings(expense, accounts);
+    if (expenseBookings.length === 0) continue;
+    bookings.push(...expenseBookings);
+
+    const document = expenseBookings[0].document;
+    if (expense.files.length === 0) {
+      missingReceipts.push(document);
+      continue;
+    }
+    for (const file of expense.files) {
+      receipts.push({
+        name: datevReceiptPath(document, file.originalFilename, usedPaths),
+        key: file.s3Key,
+        document,
+        modifiedAt: file.createdAt,
+      });
+    }
+  }
+
+  bookings.sort((a, b) => a.date.getTime() - b.date.getTime());
+  const csv = buildExtfBuchungsstapel(bookings, {
+    chart,
+    consultantNumber: settings.datevConsultantNumber,
+    clientNumber: settings.datevClientNumber,
+    from,
+    to,
+    label: `Export ${fromValue} - ${toValue}`,
+    exportedBy: exportedBy || "",
+  });
+
+  return {
+    filename: `DATEV_${fromValue}_${toValue}.zip`,
+    batch: { name: datevBatchFileName(from, to), data: encodeDatevFile(csv) },
+    bookingCount: bookings.length,
+    receipts,
+    missingReceipts,
+  };
+}
+
+/** Load a receipt for the DATEV bundle; missing files are reported, not fatal */
+const loadReceipt = async (key: string) => {
+  try {
+    const { data } = await storageGet(key);
+    return data;
+  } catch (error) {
+    console.warn("[DATEV Export] Could not load receipt:", key, error);
+    return null;
+  }
+};
+
+/**
+ * Stream the ZIP: the Buchungsstapel, then the receipts loaded one at a time.
+ * Receipts that are missing or fail to load are listed in a text file at the
+ * end of the bundle. Returns the documents whose receipts are missing.
+ */
+export async function writeDatevZip(datevExport: DatevExport, output: Writable): Promise<string[]> {
+  const zip = new ZipWriter((chunk) => output.write(chunk));
+  const flush = async () => {
+    if (output.writableNeedDrain) await once(output, "drain");
+  };
+
+  zip.add(datevExport.batch);
+  await flush();
+
+  const missing = [...datevExport.missingReceipts];
+  for (const receipt of datevExport.receipts) {
+    const data = await loadReceipt(receipt.key);
+    if (!data) {
+      missing.push(receipt.document);
+      continue;
+    }
+    zip.add({ name: receipt.name, data, modifiedAt: receipt.modifiedAt });
+    await flush();
+  }
+
+  if (missing.length > 0) {
+    const lines = ["Buchungen ohne Beleg (Belegfeld 1):", ...Array.from(new Set(missing))];
+    zip.add({ name: "Fehlende_Belege.txt", data: Buffer.from(`${lines.join("\r\n")}\r\n`, "utf8") });
+  }
+  zip.finish();
+  return missing;
+}
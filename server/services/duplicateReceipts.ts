@@ -0,0 +1,102 @@
+import * as db from "../db";
+import type { Expense } from "../../drizzle/schema";
+import { normalizeSupplierName } from "../expenses/suggestionEngine";
+import {
+  findDuplicate,
+  hashReceiptContent,
+  isHashableImage,
+  perceptualHash,
+  type DuplicateCheckExpense,
+  type DuplicateMatchKind,
+  type ReceiptFingerprint,
+} from "../lib/receiptDuplicates";
+
+/** Content hash of a receipt file and, for images, its perceptual hash */
+export async function fingerprintReceipt(data: Buffer, mimeType: string): Promise<ReceiptFingerprint> {
+  let imageHash: string | null = null;
+  if (isHashableImage(mimeType)) {
+    try {
+      imageHash = await perceptualHash(data);
+    } catch (error) {
+      // Images sharp can't read (e.g. HEIC without codec) are still content hashed
+      console.error("[Expenses] Perceptual hashing failed:", error);
+    }
+  }
+  return { contentHash: hashReceiptContent(data), perceptualHash: imageHash };
+}
+
+export interface DuplicateWarning {
+  kind: DuplicateMatchKind;
+  confidence: number;
+  reason: string;
+  original: Pick<Expense, "id" | "supplierName" | "expenseDate" | "grossAmountCents" | "currency" | "status">;
+}
+
+function toCheckExpense(expense: Expense, files: ReceiptFingerprint[]): DuplicateCheckExpense {
+  return {
+    expenseId: expense.id,
+    supplierKey: normalizeSupplierName(expense.supplierName),
+    expenseDate: new Date(expense.expenseDate),
+    grossAmountCents: expense.grossAmountCents,
+    files,
+  };
+}
+
+/**
+ * Compare an expense with the user's other expenses by receipt file hashes
+ * and by supplier, date and amount. A match is stored as the suspected
+ * original and returned as a warning.
+ */
+export async function checkExpenseForDuplicate(expenseId: number, userId: number): Promise<DuplicateWarning | null> {
+  const expense = await db.getExpenseById(expenseId);
+  if (!expense || expense.status === "void") return null;
+
+  const files: ReceiptFingerprint[] = expense.files;
+  const contentHashes = files
+    .map((file) => file.contentHash)
+    .filter((hash): hash is string => Boolean(hash));
+  const [fingerprints, sameDetails] = await Promise.all([
+    db.getReceiptFingerprintsByUserId(userId, contentHashes),
+    expense.grossAmountCents > 0
+      ? db.getExpensesByDayAndAmount(userId, new Date(expense.expenseDate), expense.grossAmountCents)
+      : Promise.resolve([] as Expense[]),
+  ]);
+
+  const candidates = new Map<number, DuplicateCheckExpense>();
+  for (const candidate of sameDetails) {
+    candidates.set(candidate.id, toCheckExpense(candidate, []));
+  }
+  for (const fingerprint of fingerprints) {
+    const candidate = candidates.get(fingerprint.expenseId) ?? {
+      // Only the files matter for expenses found by their hashes
+      expenseId: fingerprint.expenseId,
+      supplierKey: "",
+      expenseDate: new Date(0),
+      grossAmountCents: 0,
+      files: [],
+    };
+    candidate.files.push({ contentHash: fingerprint.contentHash, perceptualHash: fingerprint.perceptualHash });
+    candidates.set(fingerprint.expenseId, candidate);
+  }
+
+  const match = findDuplicate(toCheckExpense(expense, files), Array.from(candidates.values()));
+  if (!match) return null;
+
+  const original = await db.getExpenseById(match.expenseId);
+  if (!original) return null;
+  await db.setExpenseDuplicateOf(expense.id, original.id, match.reason);
+
+  return {
+    kind: match.kind,
+    confidence: match.confidence,
+    reason: match.reason,
+    original: {
+      id: original.id,
+      supplierName: original.supplierName,
+      expenseDate: original.expenseDate,
+      grossAmountCents: original.grossAmountCents,
+      currency: original.currency,
+      status: original.status,
+    },
+  };
+}
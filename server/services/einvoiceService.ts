@@ -0,0 +1,113 @@
+import * as db from "../db";
+import type { CompanySettings, Invoice, InvoiceItem } from "../../drizzle/schema";
+import { buildEInvoiceDocument } from "../lib/einvoice/buildDocument";
+import { renderUblXml } from "../lib/einvoice/ubl";
+import { renderCiiXml, type CiiRenderOptions } from "../lib/einvoice/cii";
+import { embedFacturX, FACTURX_EN16931_GUIDELINE_ID } from "../lib/einvoice/facturx";
+import type { EInvoiceDocument, EInvoiceProfile, EInvoiceSyntax } from "../lib/einvoice/types";
+import { evaluateEInvoiceCompleteness } from "../lib/completeness/en16931";
+import {
+  buildInvoiceSnapshot,
+  buildCompanySnapshot,
+  buildSettingsSnapshot,
+  type Blocker,
+  type CompletenessResult,
+} from "../lib/completeness/ice";
+import { logger } from "../_core/logger";
+
+export interface PreparedEInvoice {
+  document: EInvoiceDocument;
+  completeness: CompletenessResult;
+}
+
+/**
+ * Load everything an e-invoice needs (client contact, original invoice for
+ * cancellations) and evaluate ICE + EN 16931 rules against it.
+ */
+export async function prepareEInvoice(
+  invoice: Invoice & { items: InvoiceItem[] },
+  companySettings: CompanySettings,
+  options: { profile?: EInvoiceProfile } = {}
+): Promise<PreparedEInvoice> {
+  const contactId = invoice.clientId ?? invoice.contactId;
+  const contact = contactId ? (await db.getContactById(contactId)) ?? null : null;
+
+  let precedingInvoiceNumber: string | null = null;
+  if (invoice.type === "cancellation" && invoice.cancelledInvoiceId) {
+    const numbers = await db.getInvoiceNumbersByIds([invoice.cancelledInvoiceId]);
+    precedingInvoiceNumber = numbers.get(invoice.cancelledInvoiceId) ?? null;
+  }
+
+  const document = buildEInvoiceDocument({ invoice, company: companySettings, contact, precedingInvoiceNumber });
+
+  const invoiceSnapshot = buildInvoiceSnapshot(invoice, contact);
+  if (invoice.type === "cancellation") {
+    // Cancellations are stored negated; the credit note carries positive amounts.
+    invoiceSnapshot.total = Math.abs(invoiceSnapshot.total);
+    invoiceSnapshot.items = document.lines.map((line) => ({
+      name: line.name,
+      quantity: line.quantity,
+      unitPrice: line.unitPrice,
+      vatCategory: line.vatCategory === "AE" ? "reverse_charge" : null,
+    }));
+  }
+
+  const completeness = evaluateEInvoiceCompleteness(
+    document,
+    invoiceSnapshot,
+    buildCompanySnapshot(companySettings),
+    buildSettingsSnapshot(companySettings),
+    options
+  );
+
+  return { document, completeness };
+}
+
+export function renderEInvoiceXml(
+  document: EInvoiceDocument,
+  syntax: EInvoiceSyntax,
+  ciiOptions?: CiiRenderOptions
+): string {
+  return syntax === "ubl" ? renderUblXml(document) : renderCiiXml(document, ciiOptions);
+}
+
+export function buildEInvoiceFilename(invoiceNumber: string, syntax: EInvoiceSyntax) {
+  const safeNumber = invoiceNumber.replace(/[^A-Za-z0-9._-]+/g, "_");
+  return `xrechnung-${safeNumber}-${syntax}.xml`;
+}
+
+export interface ZugferdPdfResult {
+  pdf: Buffer;
+  /** false when EN 16931 blockers prevented embedding; pdf is then the plain rendering */
+  embedded: boolean;
+  blockers: Blocker[];
+}
+
+/**
+ * Embed the invoice as ZUGFeRD 2.x / Factur-X (EN 16931 profile) CII into an
+ * already rendered invoice PDF. Invoices that fail the EN 16931 rules are
+ * returned unchanged so sending a readable PDF is never blocked by e-invoice data.
+ */
+export async function createZugferdPdf(
+  pdf: Buffer,
+  invoice: Invoice & { items: InvoiceItem[] },
+  companySettings: CompanySettings
+): Promise<ZugferdPdfResult> {
+  const { document, completeness } = await prepareEInvoice(invoice, companySettings, { profile: "en16931" });
+  if (completeness.blockers.length > 0) {
+    logger.warn(
+      { invoiceId: invoice.id, blockers: completeness.blockers.map((blocker) => blocker.ruleId) },
+      "Skipping ZUGFeRD embedding: invoice does not satisfy EN 16931"
+    );
+    return { pdf, embedded: false, blockers: completeness.blockers };
+  }
+
+  const xml = renderCiiXml(document, { guidelineId: FACTURX_EN16931_GUIDELINE_ID, businessProcessId: null });
+  const hybrid = await embedFacturX(pdf, xml, {
+    title: `${document.typeCode === "381" ? "Stornorechnung" : "Rechnung"} ${document.number}`,
+    author: document.seller.name || "Mantodeus Manager",
+    creator: "Mantodeus Manager",
+    createdAt: new Date(),
+  });
+  return { pdf: hybrid, embedded: true, blockers: [] };
+}
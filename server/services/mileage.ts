@@ -0,0 +1,185 @@
+import * as db from "../db";
+import type { MileageTrip, Vehicle } from "../../drizzle/schema";
+import { ENV } from "../_core/env";
+import { geocodeAddress } from "../_core/geocoding";
+import {
+  GENESIS_HASH,
+  buildMileageLogbook,
+  createOsrmRouter,
+  hashMileageTrip,
+  measureDistance,
+  straightLineRouter,
+  type DistanceRouter,
+  type MeasuredDistance,
+  type MileageLogbook,
+  type MileageLogbookTrip,
+} from "../lib/mileage";
+import {
+  calculateMileageAmountCents,
+  isGeoPoint,
+  type DistanceSource,
+  type GeoPoint,
+  type TripType,
+} from "../../shared/mileage";
+
+/** Routers in order of preference; straight-line always answers */
+export function getDistanceRouters(): DistanceRouter[] {
+  return ENV.osrmUrl ? [createOsrmRouter(ENV.osrmUrl), straightLineRouter] : [straightLineRouter];
+}
+
+export interface TripEndpoint {
+  projectId?: number | null;
+  address?: string | null;
+}
+
+/** Project coordinates first; free addresses are geocoded */
+async function resolveEndpoint(endpoint: TripEndpoint, userId: number): Promise<GeoPoint | null> {
+  if (endpoint.projectId) {
+    const project = await db.getProjectById(endpoint.projectId);
+    if (project && project.createdBy === userId && isGeoPoint(project.geo)) {
+      return project.geo;
+    }
+  }
+  if (endpoint.address?.trim()) {
+    const result = await geocodeAddress(endpoint.address);
+    if (result) {
+      const point = { lat: Number(result.latitude), lng: Number(result.longitude) };
+      if (isGeoPoint(point)) return point;
+    }
+  }
+  return null;
+}
+
+export async function estimateTripDistance(
+  userId: number,
+  from: TripEndpoint,
+  to: TripEndpoint
+): Promise<MeasuredDistance | null> {
+  const [start, end] = await Promise.all([resolveEndpoint(from, userId), resolveEndpoint(to, userId)]);
+  if (!start || !end) return null;
+  return measureDistance(start, end, getDistanceRouters());
+}
+
+export interface MileageTripInput {
+  tripDate: Date;
+  startAddress: string;
+  endAddress: string;
+  distanceKm: number;
+  distanceSource: DistanceSource;
+  odometerStart: number | null;
+  odometerEnd: number | null;
+  tripType: TripType;
+  purpose: string;
+  businessPartner: string | null;
+  projectId: number | null;
+}
+
+/**
+ * Generated expenses are retired with the trip they belong to: voided once
+ * in order, deleted while still under review.
+ */
+async function retireTripExpense(expenseId: number, userId: number, note: string) {
+  const expense = await db.getExpenseById(expenseId);
+  if (!expense) return;
+  if (expense.status === "in_order") {
+    await db.setExpenseStatus(expenseId, "void", userId, "mistake", note);
+  } else if (expense.status === "needs_review") {
+    await db.deleteExpense(expenseId);
+  }
+}
+
+/**
+ * Append a trip to the vehicle's log. Business trips get a `vehicle` expense
+ * at the vehicle's per-km rate. With `replaces`, the new trip corrects an
+ * earlier one whose expense is retired; the earlier trip stays in the log.
+ */
+export async function recordMileageTrip(
+  userId: number,
+  vehicle: Vehicle,
+  input: MileageTripInput,
+  replaces?: MileageTrip
+): Promise<MileageTrip> {
+  const ratePerKm = Number(vehicle.ratePerKm);
+  // Stored with second precision; the hash has to match what is read back
+  const recordedAt = new Date(Math.floor(Date.now() / 1000) * 1000);
+  const amountCents = input.tripType === "business" ? calculateMileageAmountCents(input.distanceKm, ratePerKm) : 0;
+
+  const expense = amountCents > 0
+    ? await db.createExpense({
+        createdBy: userId,
+        status: "needs_review",
+        source: "manual",
+        supplierName: `Fahrtenbuch ${vehicle.name}`.slice(0, 255),
+        description: `${input.distanceKm.toFixed(1)} km × ${ratePerKm.toFixed(2)} €: ${input.startAddress} → ${input.endAddress} (${input.purpose})`,
+        expenseDate: input.tripDate,
+        grossAmountCents: amountCents,
+        currency: "EUR",
+        vatMode: "none",
+        businessUsePct: 100,
+        category: "vehicle",
+        paymentStatus: "paid",
+        paymentDate: input.tripDate,
+      })
+    : null;
+
+  let trip: MileageTrip;
+  try {
+    const replacesTripId = replaces?.id ?? null;
+    trip = await db.appendMileageTrip(
+      {
+        ...input,
+        userId,
+        vehicleId: vehicle.id,
+        distanceKm: input.distanceKm.toFixed(1),
+        ratePerKm: ratePerKm.toFixed(2),
+        expenseId: expense?.id ?? null,
+        replacesTripId,
+        recordedAt,
+      },
+      (sequence, previousHash) =>
+        hashMileageTrip({
+          ...input,
+          vehicleId: vehicle.id,
+          sequence,
+          ratePerKm,
+          replacesTripId,
+          recordedAt,
+          previousHash,
+        }),
+      GENESIS_HASH
+    );
+  } catch (error) {
+    if (expense) await db.deleteExpense(expense.id);
+    throw error;
+  }
+
+  if (expense) {
+    await db.setExpenseStatus(expense.id, "in_order", userId);
+  }
+  if (replaces?.expenseId) {
+    await retireTripExpense(replaces.expenseId, userId, `Fahrtenbuch: corrected by entry ${trip.sequence}`);
+  }
+  return trip;
+}
+
+export function toLogbookTrip(trip: db.MileageTripWithProject): MileageLogbookTrip {
+  return {
+    ...trip,
+    distanceKm: Number(trip.distanceKm),
+    ratePerKm: Number(trip.ratePerKm),
+  };
+}
+
+export async function getMileageLogbook(vehicle: Vehicle, year: number): Promise<MileageLogbook> {
+  const trips = await db.getMileageTripsByVehicleId(vehicle.id);
+  return buildMileageLogbook(
+    { name: vehicle.name, licensePlate: vehicle.licensePlate, kind: vehicle.kind },
+    year,
+    trips.map(toLogbookTrip)
+  );
+}
+
+export function mileageLogbookFileName(vehicle: Vehicle, year: number, extension: "csv" | "pdf") {
+  const slug = (vehicle.licensePlate || vehicle.name).replace(/[^A-Za-z0-9]+/g, "-").replace(/^-|-$/g, "") || String(vehicle.id);
+  return `fahrtenbuch-${slug}-${year}.${extension}`;
+}
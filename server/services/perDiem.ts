@@ -0,0 +1,148 @@
+import * as db from "../db";
+import type { PerDiemClaimRecord } from "../../drizzle/schema";
+import { geocodeAddress } from "../_core/geocoding";
+import {
+  calculatePerDiemClaim,
+  deriveAbsences,
+  describePerDiemClaim,
+  type PerDiemAbsence,
+  type PerDiemCheckin,
+  type PerDiemClaim,
+} from "../lib/perDiem";
+import { isGeoPoint, type GeoPoint } from "../../shared/mileage";
+import type { ProvidedMeals } from "../../shared/perDiem";
+
+/** Check-ins this far around a month are read so trips over its edges are complete */
+const RANGE_MARGIN_DAYS = 14;
+
+/** Company address as the home base overnight stays are measured from */
+async function getHomeBase(userId: number): Promise<GeoPoint | null> {
+  const settings = await db.getCompanySettingsByUserId(userId);
+  if (!settings) return null;
+
+  const streetLine = [settings.streetName, settings.streetNumber].filter(Boolean).join(" ").trim();
+  const cityLine = [settings.postalCode, settings.city].filter(Boolean).join(" ").trim();
+  const address = [streetLine, cityLine, settings.country].filter(Boolean).join(", ") || settings.address;
+  if (!address?.trim()) return null;
+
+  const result = await geocodeAddress(address);
+  if (!result) return null;
+  const point = { lat: Number(result.latitude), lng: Number(result.longitude) };
+  return isGeoPoint(point) ? point : null;
+}
+
+function toPerDiemCheckin(checkin: db.CheckinWithProject): PerDiemCheckin | null {
+  if (!checkin.checkOutTime) return null;
+  const position = { lat: Number(checkin.latitude), lng: Number(checkin.longitude) };
+  const location =
+    checkin.latitude !== null && checkin.longitude !== null && isGeoPoint(position)
+      ? position
+      : isGeoPoint(checkin.projectGeo)
+        ? checkin.projectGeo
+        : null;
+  return {
+    id: checkin.id,
+    projectId: checkin.projectId,
+    checkInTime: checkin.checkInTime,
+    checkOutTime: checkin.checkOutTime,
+    location,
+  };
+}
+
+export interface PerDiemAbsenceView extends PerDiemAbsence {
+  projects: Array<{ id: number; name: string }>;
+  /** Allowance without provided meals */
+  estimate: PerDiemClaim;
+  claim: db.PerDiemClaimWithExpense | null;
+}
+
+/**
+ * Absences that started in the given month (1-12), with the claim already
+ * proposed for them
+ */
+export async function getPerDiemAbsences(userId: number, year: number, month: number): Promise<PerDiemAbsenceView[]> {
+  const monthStart = new Date(year, month - 1, 1);
+  const monthEnd = new Date(year, month, 1, 0, 0, -1);
+
+  const [checkins, claims, home] = await Promise.all([
+    db.getCompletedCheckinsByUserId(userId, {
+      from: new Date(year, month - 1, 1 - RANGE_MARGIN_DAYS),
+      to: new Date(year, month, RANGE_MARGIN_DAYS),
+    }),
+    db.getPerDiemClaimsByUserId(userId, { from: monthStart, to: monthEnd }),
+    getHomeBase(userId),
+  ]);
+
+  const projectNames = new Map(checkins.map((checkin) => [checkin.projectId, checkin.projectName]));
+  const claimsByStart = new Map(claims.map((claim) => [claim.startsAt.getTime(), claim]));
+
+  return deriveAbsences(
+    checkins.map(toPerDiemCheckin).filter((checkin): checkin is PerDiemCheckin => checkin !== null),
+    { home }
+  )
+    .filter((absence) => absence.startsAt >= monthStart && absence.startsAt <= monthEnd)
+    .map((absence) => ({
+      ...absence,
+      projects: absence.projectIds.map((id) => ({ id, name: projectNames.get(id) ?? `#${id}` })),
+      estimate: calculatePerDiemClaim(absence),
+      claim: claimsByStart.get(absence.startsAt.getTime()) ?? null,
+    }));
+}
+
+export async function findPerDiemAbsence(userId: number, startsAt: Date): Promise<PerDiemAbsenceView | null> {
+  const absences = await getPerDiemAbsences(userId, startsAt.getFullYear(), startsAt.getMonth() + 1);
+  return absences.find((absence) => absence.startsAt.getTime() === startsAt.getTime()) ?? null;
+}
+
+/**
+ * Propose the meal allowance of an absence as a `travel` expense in the
+ * review lane. Returns null if the absence was claimed in the meantime.
+ */
+export async function proposePerDiemExpense(
+  userId: number,
+  absence: PerDiemAbsenceView,
+  mealsByDate: Record<string, ProvidedMeals>
+): Promise<{ claim: PerDiemClaimRecord; expenseId: number } | null> {
+  const calculated = calculatePerDiemClaim(absence, mealsByDate);
+  const firstDay = absence.days[0].date.split("-").reverse().join(".");
+  const lastDay = absence.days[absence.days.length - 1].date.split("-").reverse().join(".");
+
+  const expense = await db.createExpense({
+    createdBy: userId,
+    status: "needs_review",
+    source: "manual",
+    supplierName: "Verpflegungsmehraufwand",
+    description: `Verpflegungspauschale ${firstDay === lastDay ? firstDay : `${firstDay} - ${lastDay}`}\n${describePerDiemClaim(
+      calculated,
+      absence.projects.map((project) => project.name)
+    )}`,
+    expenseDate: absence.endsAt,
+    grossAmountCents: calculated.totalCents,
+    currency: "EUR",
+    vatMode: "none",
+    businessUsePct: 100,
+    category: "travel",
+    paymentStatus: "paid",
+    paymentDate: absence.endsAt,
+  });
+
+  const claim = await db.createPerDiemClaim({
+    userId,
+    startsAt: absence.startsAt,
+    endsAt: absence.endsAt,
+    days: calculated.days.map((day) => ({
+      date: day.date,
+      kind: day.kind,
+      hours: day.hours,
+      meals: day.meals,
+      amountCents: day.amountCents,
+    })),
+    amountCents: calculated.totalCents,
+    expenseId: expense.id,
+  });
+  if (!claim) {
+    await db.deleteExpense(expense.id);
+    return null;
+  }
+  return { claim, expenseId: expense.id };
+}
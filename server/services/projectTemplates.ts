@@ -0,0 +1,126 @@
+import * as db from "../db";
+import type { ProjectTemplate } from "../../drizzle/schema";
+import { normalizeLineItems, calculateTotals, toStoredLineItems, type VatSettings } from "../lib/lineItems";
+import { addDays, startOfDay } from "../../shared/recurringInvoice";
+import { QUOTE_DEFAULT_VALIDITY_DAYS } from "../../shared/quoteState";
+import { getTemplateSpanDays, instantiateTemplateJobs, normalizeTags } from "../../shared/projectTemplates";
+
+export interface ProjectFromTemplateInput {
+  name: string;
+  client: string | null;
+  clientId: number | null;
+  description: string | null;
+  address: string | null;
+  status: "planned" | "active" | "completed";
+  startDate: Date;
+}
+
+export interface ProjectFromTemplateResult {
+  projectId: number;
+  jobCount: number;
+  inspectionCount: number;
+  /** Draft quote with the template's line items; null without line items or quote access */
+  quoteId: number | null;
+  /** Why no quote was created although the template has line items */
+  quoteSkippedReason: string | null;
+}
+
+async function createTemplateQuote(
+  template: ProjectTemplate,
+  settings: VatSettings,
+  userId: number,
+  projectId: number,
+  clientId: number | null
+): Promise<number> {
+  const issueDate = new Date();
+  const { quoteNumber, quoteCounter, quoteYear } = await db.generateQuoteNumber(userId, issueDate);
+  const normalizedItems = normalizeLineItems(
+    template.lineItems.map((item) => ({
+      name: item.name,
+      description: item.description ?? undefined,
+      category: item.category ?? undefined,
+      quantity: item.quantity,
+      unitPrice: item.unitPrice,
+      currency: "EUR",
+      vatRate: item.vatRate,
+    })),
+    settings
+  );
+  const totals = calculateTotals(normalizedItems, settings);
+  const quote = await db.createQuote({
+    userId,
+    clientId,
+    projectId,
+    quoteNumber,
+    quoteCounter,
+    quoteYear,
+    issueDate,
+    validUntil: addDays(issueDate, QUOTE_DEFAULT_VALIDITY_DAYS),
+    subtotal: totals.subtotal.toFixed(2),
+    vatAmount: totals.vatAmount.toFixed(2),
+    total: totals.total.toFixed(2),
+    items: toStoredLineItems(normalizedItems),
+  });
+  return quote.id;
+}
+
+/**
+ * Create a project from a template: jobs placed relative to the start date,
+ * the template's tags, an inspection per linked inspection template and a
+ * draft quote with the standard line items
+ */
+export async function createProjectFromTemplate(
+  template: ProjectTemplate,
+  input: ProjectFromTemplateInput,
+  options: { accountUserId: number; userId: number; createQuote: boolean }
+): Promise<ProjectFromTemplateResult> {
+  const startDate = startOfDay(input.startDate);
+  const jobs = instantiateTemplateJobs(template.jobs, startDate);
+
+  const created = await db.createProject({
+    name: input.name,
+    client: input.client,
+    clientId: input.clientId,
+    description: input.description ?? template.description,
+    address: input.address,
+    startDate,
+    endDate: addDays(startDate, getTemplateSpanDays(template.jobs)),
+    status: input.status,
+    tags: normalizeTags(template.tags),
+    createdBy: options.accountUserId,
+  });
+  const projectId = created[0].id;
+
+  for (const job of jobs) {
+    await db.createProjectJob({ projectId, ...job, status: "pending" });
+  }
+
+  let inspectionCount = 0;
+  for (const inspectionTemplateId of template.inspectionTemplateIds) {
+    const inspectionTemplate = await db.getInspectionTemplateById(inspectionTemplateId);
+    if (!inspectionTemplate) continue;
+    await db.createInspection({
+      projectId,
+      templateId: inspectionTemplate.id,
+      type: inspectionTemplate.inspectionType,
+      createdByUserId: options.userId,
+      syncStatus: "synced",
+    });
+    inspectionCount += 1;
+  }
+
+  let quoteId: number | null = null;
+  let quoteSkippedReason: string | null = null;
+  if (template.lineItems.length > 0 && !options.createQuote) {
+    quoteSkippedReason = "Your workspace role doesn't allow creating quotes";
+  } else if (template.lineItems.length > 0) {
+    const settings = await db.getCompanySettingsByUserId(options.accountUserId);
+    if (settings) {
+      quoteId = await createTemplateQuote(template, settings, options.accountUserId, projectId, input.clientId);
+    } else {
+      quoteSkippedReason = "Company settings not found. Please configure your company settings first.";
+    }
+  }
+
+  return { projectId, jobCount: jobs.length, inspectionCount, quoteId, quoteSkippedReason };
+}
@@ -0,0 +1,194 @@
+import * as db from "../db";
+import {
+  evaluateInvoiceCompleteness,
+  buildInvoiceSnapshot,
+  buildCompanySnapshot,
+  buildSettingsSnapshot,
+} from "../lib/completeness/ice";
+import { normalizeLineItems, calculateTotals, toStoredLineItems, fromStoredLineItems } from "../lib/lineItems";
+import { addDays, getFollowingRunDate, getServicePeriod, isRunDue, startOfDay } from "../../shared/recurringInvoice";
+import { logger } from "../_core/logger";
+
+/** Scheduler tick; runs are due per day, so hourly is plenty */
+const SCHEDULER_INTERVAL_MS = 60 * 60 * 1000;
+/** Missed runs caught up per template and tick (e.g. after downtime) */
+const MAX_CATCH_UP_RUNS = 12;
+
+export interface RecurringRunResult {
+  runDate: Date;
+  status: "created" | "issued" | "failed" | "skipped";
+  invoiceId: number | null;
+  error: string | null;
+}
+
+function errorMessage(error: unknown) {
+  return error instanceof Error ? error.message : String(error);
+}
+
+/**
+ * Issue a freshly created invoice when it passes the same completeness check
+ * as a manual issue. Returns the blockers when it does not.
+ */
+async function tryIssueInvoice(invoiceId: number, userId: number): Promise<string | null> {
+  const invoice = await db.getInvoiceById(invoiceId);
+  if (!invoice) return "Invoice not found";
+
+  const companySettings = await db.getCompanySettingsByUserId(userId);
+  const contact = invoice.clientId ? await db.getContactById(invoice.clientId) : null;
+  const completeness = evaluateInvoiceCompleteness(
+    buildInvoiceSnapshot(invoice, contact),
+    buildCompanySnapshot(companySettings ?? {}),
+    buildSettingsSnapshot(companySettings ?? {})
+  );
+  if (!completeness.allowedActions.includes("SEND")) {
+    return `Auto-issue skipped: ${completeness.blockers.map((blocker) => blocker.message).join(", ")}`;
+  }
+
+  await db.issueInvoice(invoiceId);
+  return null;
+}
+
+/**
+ * Create the invoice for one run of a template and move the template to its following run.
+ * The run is claimed first, so a run date never produces two invoices.
+ */
+export async function generateRecurringInvoice(
+  template: db.RecurringInvoiceWithItems,
+  runDate: Date = template.nextRunDate ?? template.startDate
+): Promise<RecurringRunResult> {
+  const normalizedRunDate = startOfDay(runDate);
+  const run = await db.claimRecurringInvoiceRun(template.id, template.userId, normalizedRunDate);
+  const advance = () =>
+    db.updateRecurringInvoice(template.id, {
+      nextRunDate: getFollowingRunDate(template, normalizedRunDate),
+      lastRunAt: new Date(),
+    });
+
+  if (!run) {
+    // Already handled elsewhere - only make sure the template moves on
+    await advance();
+    return { runDate: normalizedRunDate, status: "skipped", invoiceId: null, error: null };
+  }
+
+  let invoiceId: number;
+  try {
+    if (template.items.length === 0) {
+      throw new Error("Recurring invoice has no line items");
+    }
+    const settings = await db.getCompanySettingsByUserId(template.userId);
+    if (!settings) {
+      throw new Error("Company settings not found. Please configure your company settings first.");
+    }
+
+    const issueDate = new Date();
+    const { invoiceNumber, invoiceCounter, invoiceYear } = await db.generateInvoiceNumber(
+      template.userId,
+      issueDate,
+      settings.invoiceNumberFormat ?? null,
+      settings.invoicePrefix ?? "RE"
+    );
+    await db.ensureUniqueInvoiceNumber(template.userId, invoiceNumber);
+
+    // Re-normalize so lines without an explicit rate follow the current default VAT rate
+    const normalizedItems = normalizeLineItems(fromStoredLineItems(template.items), settings);
+    const totals = calculateTotals(normalizedItems, settings);
+    const servicePeriod = getServicePeriod(template.startDate, template.interval, normalizedRunDate);
+
+    const created = await db.createInvoice({
+      userId: template.userId,
+      clientId: template.clientId ?? null,
+      projectId: template.projectId ?? null,
+      invoiceNumber,
+      invoiceName: invoiceNumber,
+      invoiceCounter,
+      invoiceYear,
+      status: "draft",
+      issueDate,
+      dueDate: addDays(issueDate, template.paymentTermDays),
+      notes: template.notes ?? null,
+      terms: template.terms ?? null,
+      servicePeriodStart: servicePeriod.start,
+      servicePeriodEnd: servicePeriod.end,
+      referenceNumber: template.referenceNumber ?? null,
+      partialInvoice: false,
+      subtotal: totals.subtotal.toFixed(2),
+      vatAmount: totals.vatAmount.toFixed(2),
+      total: totals.total.toFixed(2),
+      items: toStoredLineItems(normalizedItems),
+    });
+    invoiceId = created.id;
+  } catch (error) {
+    const message = errorMessage(error);
+    await db.updateRecurringInvoiceRun(run.id, { status: "failed", error: message });
+    logger.warn({ recurringInvoiceId: template.id, runDate: normalizedRunDate, err: error }, "Recurring invoice run failed");
+    return { runDate: normalizedRunDate, status: "failed", invoiceId: null, error: message };
+  }
+
+  let status: RecurringRunResult["status"] = "created";
+  let issueError: string | null = null;
+  if (template.autoIssue) {
+    try {
+      issueError = await tryIssueInvoice(invoiceId, template.userId);
+    } catch (error) {
+      issueError = `Auto-issue failed: ${errorMessage(error)}`;
+    }
+    if (!issueError) status = "issued";
+  }
+
+  await db.updateRecurringInvoiceRun(run.id, { invoiceId, status, error: issueError });
+  await advance();
+  logger.info({ recurringInvoiceId: template.id, invoiceId, status }, "Recurring invoice generated");
+  return { runDate: normalizedRunDate, status, invoiceId, error: issueError };
+}
+
+/**
+ * Create invoices for every due run of all users, catching up missed runs
+ */
+export async function runDueRecurringInvoices(now: Date = new Date()) {
+  const templates = await db.getDueRecurringInvoices(now);
+  const results: RecurringRunResult[] = [];
+
+  for (const initial of templates) {
+    let template: db.RecurringInvoiceWithItems | null = initial;
+    for (let attempt = 0; template && attempt < MAX_CATCH_UP_RUNS && isRunDue(template, now); attempt += 1) {
+      const result = await generateRecurringInvoice(template);
+      results.push(result);
+      // Failed runs are retried on the next tick instead of being skipped
+      if (result.status === "failed") break;
+      template = await db.getRecurringInvoiceById(template.id);
+    }
+  }
+
+  return results;
+}
+
+let schedulerTimer: NodeJS.Timeout | null = null;
+
+/**
+ * Run due recurring invoices now and then every hour
+ */
+export function startRecurringInvoiceScheduler() {
+  if (schedulerTimer) return;
+
+  const tick = async () => {
+    try {
+      const results = await runDueRecurringInvoices();
+      if (results.length > 0) {
+        logger.info({ runs: results.length }, "Recurring invoice scheduler finished");
+      }
+    } catch (error) {
+      logger.error({ err: error }, "Recurring invoice scheduler failed");
+    }
+  };
+
+  schedulerTimer = setInterval(tick, SCHEDULER_INTERVAL_MS);
+  schedulerTimer.unref();
+  void tick();
+}
+
+export function stopRecurringInvoiceScheduler() {
+  if (schedulerTimer) {
+    clearInterval(schedulerTimer);
+    schedulerTimer = null;
+  }
+}
@@ -0,0 +1,109 @@
+import * as db from "../db";
+import type { Expense, SubscriptionRecord } from "../../drizzle/schema";
+import { getSupplierMemory } from "../expenses/suggestionEngine";
+import {
+  addMonths,
+  detectSubscription,
+  findMissingCharges,
+  findPriceChange,
+  type RecurringCharge,
+  type SubscriptionPriceChange,
+} from "../lib/subscriptions";
+import {
+  SUBSCRIPTION_CADENCE_MONTHS,
+  SUBSCRIPTION_CATEGORIES,
+  annualiseCents,
+} from "../../shared/subscriptions";
+
+function toCharge(expense: Expense): RecurringCharge {
+  return {
+    expenseId: expense.id,
+    date: new Date(expense.expenseDate),
+    grossAmountCents: expense.grossAmountCents,
+    currency: expense.currency,
+  };
+}
+
+/** Subscription category expenses of each supplier */
+async function getSubscriptionCharges(userId: number): Promise<Map<string, Expense[]>> {
+  const memory = await getSupplierMemory(userId);
+  const charges = new Map<string, Expense[]>();
+  for (const [supplierKey, expenses] of Array.from(memory.entries())) {
+    const relevant = expenses.filter((expense) => expense.category && SUBSCRIPTION_CATEGORIES.includes(expense.category));
+    if (relevant.length > 0) charges.set(supplierKey, relevant);
+  }
+  return charges;
+}
+
+/**
+ * Detect recurring suppliers and create or refresh their subscriptions.
+ * Returns how many suppliers were detected.
+ */
+export async function detectSubscriptions(userId: number): Promise<{ detected: number }> {
+  const charges = await getSubscriptionCharges(userId);
+  let detected = 0;
+
+  for (const [supplierKey, expenses] of Array.from(charges.entries())) {
+    const subscription = detectSubscription(expenses.map(toCharge));
+    if (!subscription) continue;
+    await db.upsertSubscription({
+      userId,
+      supplierKey,
+      // Expenses are newest first
+      supplierName: expenses[0].supplierName,
+      cadence: subscription.cadence,
+      expectedAmountCents: subscription.expectedAmountCents,
+      currency: subscription.currency,
+      firstChargedAt: subscription.firstChargedAt,
+      lastChargedAt: subscription.lastChargedAt,
+      lastExpenseId: subscription.lastExpenseId,
+    });
+    detected++;
+  }
+
+  return { detected };
+}
+
+export interface SubscriptionView extends SubscriptionRecord {
+  category: Expense["category"];
+  annualCostCents: number;
+  chargeCount: number;
+  nextExpectedAt: Date | null;
+  /** Expected charge dates without a receipt; only for active subscriptions */
+  missingCharges: Date[];
+  priceChange: SubscriptionPriceChange | null;
+}
+
+/**
+ * Subscriptions with their charges as currently recorded, missing receipts
+ * and price changes
+ */
+export async function listSubscriptions(userId: number, now: Date = new Date()): Promise<SubscriptionView[]> {
+  const [records, charges] = await Promise.all([db.getSubscriptionsByUserId(userId), getSubscriptionCharges(userId)]);
+
+  return records.map((record) => {
+    const expenses = (charges.get(record.supplierKey) ?? []).filter((expense) => expense.currency === record.currency);
+    const supplierCharges = expenses.map(toCharge);
+    const priceChange = findPriceChange(supplierCharges);
+    const amountCents = supplierCharges.length > 0
+      ? supplierCharges.reduce((latest, charge) => (charge.date > latest.date ? charge : latest)).grossAmountCents
+      : record.expectedAmountCents;
+    const missingCharges = record.status === "active" ? findMissingCharges(record.cadence, supplierCharges, now) : [];
+    const lastChargedAt = supplierCharges.length > 0
+      ? new Date(Math.max(...supplierCharges.map((charge) => charge.date.getTime())))
+      : record.lastChargedAt;
+
+    return {
+      ...record,
+      expectedAmountCents: amountCents,
+      lastChargedAt,
+      category: expenses[0]?.category ?? null,
+      annualCostCents: annualiseCents(amountCents, record.cadence),
+      chargeCount: supplierCharges.length,
+      nextExpectedAt:
+        record.status === "active" ? addMonths(lastChargedAt, SUBSCRIPTION_CADENCE_MONTHS[record.cadence]) : null,
+      missingCharges,
+      priceChange,
+    };
+  });
+}
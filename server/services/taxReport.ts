@@ -0,0 +1,38 @@
+import * as db from "../db";
+import { computeTaxReport } from "../lib/taxReport";
+import {
+  resolveTaxReportPeriod,
+  type TaxReport,
+  type TaxReportPeriodType,
+} from "../../shared/taxReport";
+
+/**
+ * Load everything that can fall into the period and compute the report with
+ * the user's accounting and VAT method.
+ */
+export async function buildTaxReport(
+  userId: number,
+  type: TaxReportPeriodType,
+  year: number,
+  index?: number
+): Promise<TaxReport> {
+  const period = resolveTaxReportPeriod(type, year, index);
+  const [settings, data] = await Promise.all([
+    db.getCompanySettingsByUserId(userId),
+    db.getTaxReportData(userId, period.from, period.to),
+  ]);
+
+  return computeTaxReport({
+    period,
+    settings: settings ?? {},
+    invoices: data.invoices,
+    cancelledInvoices: data.cancelledInvoices,
+    expenses: data.expenses,
+  });
+}
+
+export function taxReportFileName(report: TaxReport, extension: "csv" | "pdf") {
+  const { type, year, index } = report.period;
+  const suffix = type === "month" ? `-${String(index).padStart(2, "0")}` : type === "quarter" ? `-Q${index}` : "";
+  return `steuerbericht-${year}${suffix}.${extension}`;
+}
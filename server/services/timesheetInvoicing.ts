@@ -0,0 +1,103 @@
+import * as db from "../db";
+import { normalizeLineItems, calculateTotals, toStoredLineItems } from "../lib/lineItems";
+import { addDays } from "../../shared/recurringInvoice";
+import { buildTimeInvoiceLines, resolveHourlyRate } from "../../shared/timesheets";
+import { logger } from "../_core/logger";
+
+/** Payment term of invoices for worked hours */
+const PAYMENT_TERM_DAYS = 14;
+
+export interface TimeInvoiceResult {
+  invoiceId: number;
+  billedEntryIds: number[];
+  /** Entries left unbilled because neither their job nor the project has an hourly rate */
+  skippedEntryIds: number[];
+}
+
+/**
+ * Create a draft invoice for the approved, billable and unbilled hours of a
+ * project and mark the billed entries with it, both in one transaction
+ */
+export async function createInvoiceFromUnbilledHours(userId: number, projectId: number): Promise<TimeInvoiceResult> {
+  const project = await db.getProjectById(projectId);
+  if (!project) throw new Error("Project not found");
+
+  const unbilled = await db.getUnbilledTimeEntries(projectId);
+  const { lines, withoutRate } = buildTimeInvoiceLines(
+    unbilled.map((entry) => ({
+      id: entry.id,
+      jobId: entry.jobId,
+      jobTitle: entry.jobTitle,
+      hourlyRate: resolveHourlyRate(entry.jobRate, entry.projectRate),
+      startTime: entry.startTime,
+      endTime: entry.endTime,
+      breakMinutes: entry.breakMinutes,
+    }))
+  );
+  if (lines.length === 0) {
+    throw new Error(
+      withoutRate.length > 0
+        ? "The unbilled hours have no hourly rate. Set a rate on the project or its jobs first."
+        : "There are no approved, unbilled hours on this project"
+    );
+  }
+
+  const settings = await db.getCompanySettingsByUserId(userId);
+  if (!settings) {
+    throw new Error("Company settings not found. Please configure your company settings first.");
+  }
+
+  const issueDate = new Date();
+  const { invoiceNumber, invoiceCounter, invoiceYear } = await db.generateInvoiceNumber(
+    userId,
+    issueDate,
+    settings.invoiceNumberFormat ?? null,
+    settings.invoicePrefix ?? "RE"
+  );
+  await db.ensureUniqueInvoiceNumber(userId, invoiceNumber);
+
+  const normalizedItems = normalizeLineItems(
+    lines.map((line) => ({
+      name: line.name,
+      description: line.description,
+      category: "Arbeitszeit",
+      quantity: line.quantity,
+      unitPrice: line.unitPrice,
+      currency: "EUR",
+    })),
+    settings
+  );
+  const totals = calculateTotals(normalizedItems, settings);
+
+  const billedEntryIds = lines.flatMap((line) => line.entryIds);
+  const billed = unbilled.filter((entry) => billedEntryIds.includes(entry.id));
+  const times = billed.map((entry) => new Date(entry.startTime).getTime());
+
+  const created = await db.createTimeEntriesInvoice({
+    userId,
+    clientId: project.clientId ?? null,
+    projectId,
+    invoiceNumber,
+    invoiceName: invoiceNumber,
+    invoiceCounter,
+    invoiceYear,
+    status: "draft",
+    issueDate,
+    dueDate: addDays(issueDate, PAYMENT_TERM_DAYS),
+    servicePeriodStart: new Date(Math.min(...times)),
+    servicePeriodEnd: new Date(Math.max(...times)),
+    partialInvoice: false,
+    subtotal: totals.subtotal.toFixed(2),
+    vatAmount: totals.vatAmount.toFixed(2),
+    total: totals.total.toFixed(2),
+    items: toStoredLineItems(normalizedItems),
+  }, billedEntryIds);
+
+  logger.info({ projectId, invoiceId: created.id, entries: billedEntryIds.length }, "Invoice created from unbilled hours");
+
+  return {
+    invoiceId: created.id,
+    billedEntryIds,
+    skippedEntryIds: withoutRate.map((entry) => entry.id),
+  };
+}
@@ -0,0 +1,98 @@
+import { TRPCError } from "@trpc/server";
+import * as db from "../db";
+import type { User } from "../../drizzle/schema";
+import {
+  getProjectAccessForRole,
+  getRoleAccess,
+  satisfiesAccess,
+  type AccessLevel,
+  type WorkspaceResource,
+  type WorkspaceRole,
+} from "../../shared/workspaces";
+
+type ScopeUser = Pick<User, "id" | "role" | "activeWorkspaceId">;
+
+export interface WorkspaceScope {
+  workspaceId: number | null;
+  /** User whose account the records belong to; the user themselves outside a workspace */
+  accountUserId: number;
+  /** Role in the active workspace; null outside a workspace */
+  role: WorkspaceRole | null;
+}
+
+/**
+ * Workspace the user currently works in. Falls back to their own account
+ * when no workspace is active or they're no longer a member of it.
+ */
+export async function getWorkspaceScope(user: ScopeUser): Promise<WorkspaceScope> {
+  const personal: WorkspaceScope = { workspaceId: null, accountUserId: user.id, role: null };
+  if (!user.activeWorkspaceId) return personal;
+
+  const workspace = await db.getWorkspaceById(user.activeWorkspaceId);
+  if (!workspace) return personal;
+  const membership = await db.getWorkspaceMembership(workspace.id, user.id);
+  if (!membership) return personal;
+
+  return { workspaceId: workspace.id, accountUserId: workspace.ownerUserId, role: membership.role };
+}
+
+/**
+ * Account the user acts on for a resource, or null when their workspace role
+ * doesn't grant the required access
+ */
+export async function getAccountAccess(
+  user: ScopeUser,
+  resource: WorkspaceResource,
+  level: AccessLevel
+): Promise<number | null> {
+  const scope = await getWorkspaceScope(user);
+  if (scope.role && !satisfiesAccess(getRoleAccess(scope.role, resource), level)) return null;
+  return scope.accountUserId;
+}
+
+/**
+ * Account the user acts on for a resource. Throws when their workspace role
+ * doesn't grant the required access.
+ */
+export async function requireAccountAccess(
+  user: ScopeUser,
+  resource: WorkspaceResource,
+  level: AccessLevel
+): Promise<number> {
+  const accountUserId = await getAccountAccess(user, resource, level);
+  if (accountUserId === null) {
+    throw new TRPCError({
+      code: "FORBIDDEN",
+      message: `Your workspace role doesn't allow you to ${level === "view" ? "view" : "change"} ${resource}`,
+    });
+  }
+  return accountUserId;
+}
+
+/**
+ * Access to a contact or invoice belonging to an account
+ */
+export async function getRecordAccess(
+  user: ScopeUser,
+  resource: WorkspaceResource,
+  ownerUserId: number
+): Promise<AccessLevel> {
+  if (user.role === "admin" || ownerUserId === user.id) return "edit";
+  const scope = await getWorkspaceScope(user);
+  if (!scope.role || scope.accountUserId !== ownerUserId) return "none";
+  return getRoleAccess(scope.role, resource);
+}
+
+/**
+ * Access to a project: its creator and admins have full access, workspace
+ * members by role and, for foremen and field workers, project membership
+ */
+export async function getProjectAccess(
+  user: ScopeUser,
+  project: { id: number; createdBy: number }
+): Promise<AccessLevel> {
+  if (user.role === "admin" || project.createdBy === user.id) return "edit";
+  const scope = await getWorkspaceScope(user);
+  if (!scope.role || scope.accountUserId !== project.createdBy) return "none";
+  return getProjectAccessForRole(scope.role, await db.isProjectMember(project.id, user.id));
+}
@@ -4,6 +4,7 @@ import { protectedProcedure, router } from "./_core/trpc";
 import * as db from "./db";
 import { storagePut, deleteFromStorage, generateFileKey, getContentType, getReadUrl } from "./storage";
 import sharp from "sharp";
+import { DATEV_ACCOUNT_KEYS, DATEV_ACCOUNT_PATTERN, DATEV_CHARTS } from "../shared/datev";
 
 export const settingsRouter = router({
   /**
@@ -37,6 +38,10 @@ export const settingsRouter = router({
         invoiceNumberFormat: `RE-${year}-0001`,
         invoiceAccentColor: '#00ff88',
         invoiceAccountHolderName: null,
+        datevChartOfAccounts: 'SKR03',
+        datevConsultantNumber: null,
+        datevClientNumber: null,
+        datevAccounts: null,
         nextInvoiceNumber: 1,
       };
     }
@@ -81,6 +86,26 @@ export const settingsRouter = router({
             message: "Invoice accent color must be a valid hex color (e.g., #00ff88).",
           }),
         invoiceAccountHolderName: z.string().optional(),
+        datevChartOfAccounts: z.enum(DATEV_CHARTS).optional(),
+        datevConsultantNumber: z
+          .string()
+          .optional()
+          .refine((value) => !value?.trim() || /^\d{4,7}$/.test(value.trim()), {
+            message: "DATEV consultant number must have 4 to 7 digits.",
+          }),
+        datevClientNumber: z
+          .string()
+          .optional()
+          .refine((value) => !value?.trim() || /^\d{1,5}$/.test(value.trim()), {
+            message: "DATEV client number must have 1 to 5 digits.",
+          }),
+        datevAccounts: z
+          .record(z.string(), z.string())
+          .optional()
+          .refine(
+            (value) => value === undefined || Object.values(value).every((account) => !account.trim() || DATEV_ACCOUNT_PATTERN.test(account.trim())),
+            { message: "DATEV accounts must have 4 or 5 digits." }
+          ),
       })
     )
     .mutation(async ({ input, ctx }) => {
@@ -116,6 +141,10 @@ export const settingsRouter = router({
         invoiceNumberFormat: string | null;
         invoiceAccentColor: string | null;
         invoiceAccountHolderName: string | null;
+        datevChartOfAccounts: string;
+        datevConsultantNumber: string | null;
+        datevClientNumber: string | null;
+        datevAccounts: Record<string, string> | null;
       }> = {};
       
       // Process all fields that might be in the input
@@ -140,6 +169,18 @@ export const settingsRouter = router({
       if (input.invoiceNumberFormat !== undefined) normalizedInput.invoiceNumberFormat = normalizeString(input.invoiceNumberFormat);
       if (input.invoiceAccentColor !== undefined) normalizedInput.invoiceAccentColor = normalizeString(input.invoiceAccentColor);
       if (input.invoiceAccountHolderName !== undefined) normalizedInput.invoiceAccountHolderName = normalizeString(input.invoiceAccountHolderName);
+      if (input.datevChartOfAccounts !== undefined) normalizedInput.datevChartOfAccounts = input.datevChartOfAccounts;
+      if (input.datevConsultantNumber !== undefined) normalizedInput.datevConsultantNumber = normalizeString(input.datevConsultantNumber);
+      if (input.datevClientNumber !== undefined) normalizedInput.datevClientNumber = normalizeString(input.datevClientNumber);
+      if (input.datevAccounts !== undefined) {
+        // Only overrides for known accounts are kept; empty fields use the chart default
+        const overrides: Record<string, string> = {};
+        for (const key of DATEV_ACCOUNT_KEYS) {
+          const account = input.datevAccounts[key]?.trim();
+          if (account) overrides[key] = account;
+        }
+        normalizedInput.datevAccounts = Object.keys(overrides).length > 0 ? overrides : null;
+      }
       if (normalizedInput.vatRate === null) normalizedInput.vatRate = undefined;
 
       const hasStructuredAddress = [
@@ -187,6 +228,10 @@ export const settingsRouter = router({
           invoiceNumberFormat: normalizedInput.invoiceNumberFormat ?? `RE-${year}-0001`,
           invoiceAccentColor: normalizedInput.invoiceAccentColor ?? '#00ff88',
           invoiceAccountHolderName: normalizedInput.invoiceAccountHolderName ?? null,
+          datevChartOfAccounts: normalizedInput.datevChartOfAccounts ?? 'SKR03',
+          datevConsultantNumber: normalizedInput.datevConsultantNumber ?? null,
+          datevClientNumber: normalizedInput.datevClientNumber ?? null,
+          datevAccounts: normalizedInput.datevAccounts ?? null,
           nextInvoiceNumber: 1,
         });
       }
@@ -0,0 +1,47 @@
+import { TRPCError } from "@trpc/server";
+import { z } from "zod";
+import { protectedProcedure, router } from "./_core/trpc";
+import * as db from "./db";
+import { detectSubscriptions, listSubscriptions } from "./services/subscriptions";
+
+async function getOwnedSubscription(id: number, userId: number) {
+  const subscription = await db.getSubscriptionById(id);
+  if (!subscription) {
+    throw new TRPCError({ code: "NOT_FOUND", message: "Subscription not found" });
+  }
+  if (subscription.userId !== userId) {
+    throw new TRPCError({ code: "FORBIDDEN", message: "You don't have access to this subscription" });
+  }
+  return subscription;
+}
+
+export const subscriptionsRouter = router({
+  /**
+   * Subscriptions with annualised cost, missing receipts and price changes
+   */
+  list: protectedProcedure.query(async ({ ctx }) => {
+    return await listSubscriptions(ctx.user.id);
+  }),
+
+  /**
+   * Scan the supplier history for recurring charges
+   */
+  detect: protectedProcedure.mutation(async ({ ctx }) => {
+    return await detectSubscriptions(ctx.user.id);
+  }),
+
+  /**
+   * Cancel a subscription or reactivate it
+   */
+  setStatus: protectedProcedure
+    .input(
+      z.object({
+        id: z.number(),
+        status: z.enum(["active", "cancelled"]),
+      })
+    )
+    .mutation(async ({ input, ctx }) => {
+      await getOwnedSubscription(input.id, ctx.user.id);
+      return await db.setSubscriptionStatus(input.id, input.status);
+    }),
+});
@@ -0,0 +1,37 @@
+import { z } from "zod";
+import { protectedProcedure, router } from "./_core/trpc";
+import { buildTaxReportCsv } from "./lib/taxReport";
+import { buildTaxReport, taxReportFileName } from "./services/taxReport";
+import { requireAccountAccess } from "./services/workspaceAccess";
+import { TAX_REPORT_PERIOD_TYPES } from "../shared/taxReport";
+
+const periodInput = z
+  .object({
+    type: z.enum(TAX_REPORT_PERIOD_TYPES),
+    year: z.number().int().min(2000).max(2100),
+    index: z.number().int().min(1).max(12).default(1),
+  })
+  .refine((input) => input.type !== "quarter" || input.index <= 4, {
+    message: "Quarter must be between 1 and 4",
+    path: ["index"],
+  });
+
+export const taxReportRouter = router({
+  period: protectedProcedure
+    .input(periodInput)
+    .query(async ({ input, ctx }) => {
+      const userId = await requireAccountAccess(ctx.user, "invoices", "view");
+      return buildTaxReport(userId, input.type, input.year, input.index);
+    }),
+
+  exportCsv: protectedProcedure
+    .input(periodInput)
+    .mutation(async ({ input, ctx }) => {
+      const userId = await requireAccountAccess(ctx.user, "invoices", "view");
+      const report = await buildTaxReport(userId, input.type, input.year, input.index);
+      return {
+        filename: taxReportFileName(report, "csv"),
+        content: buildTaxReportCsv(report),
+      };
+    }),
+});
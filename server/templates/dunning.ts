@@ -0,0 +1,87 @@
+import { generateInvoiceHTML, type InvoiceData } from './invoice';
+
+/**
+ * Dunning notice (Zahlungserinnerung / Mahnung) PDF. Uses the invoice layout;
+ * the line items list the open invoice amount, fees and default interest.
+ */
+interface DunningData extends Pick<InvoiceData, 'company' | 'client' | 'logoUrl'> {
+  /** Level name, e.g. "1. Mahnung" */
+  title: string;
+  text: string | null;
+  invoiceNumber: string;
+  invoiceDate: Date;
+  invoiceDueDate: Date | null;
+  issuedAt: Date;
+  paymentDeadline: Date;
+  outstandingAmount: number;
+  previousFees: number;
+  feeAmount: number;
+  interestRate: number | null;
+  interestDays: number;
+  interestAmount: number;
+  totalDue: number;
+}
+
+const formatDate = (date: Date | null) => (date ? date.toLocaleDateString('de-DE') : '');
+
+export function generateDunningHTML(data: DunningData): { html: string; footerTemplate: string } {
+  const {
+    title,
+    text,
+    invoiceNumber,
+    invoiceDate,
+    invoiceDueDate,
+    issuedAt,
+    paymentDeadline,
+    outstandingAmount,
+    previousFees,
+    feeAmount,
+    interestRate,
+    interestDays,
+    interestAmount,
+    totalDue,
+    ...rest
+  } = data;
+
+  const lines: Array<{ description: string; amount: number }> = [
+    {
+      description: `Rechnung ${invoiceNumber} vom ${formatDate(invoiceDate)} - ${invoiceDueDate ? `fällig am ${formatDate(invoiceDueDate)}, ` : ''}offener Betrag`,
+      amount: outstandingAmount,
+    },
+  ];
+  if (previousFees > 0) {
+    lines.push({ description: 'Mahngebühren aus vorherigen Mahnungen', amount: previousFees });
+  }
+  if (feeAmount > 0) {
+    lines.push({ description: 'Mahngebühr', amount: feeAmount });
+  }
+  if (interestAmount > 0 && interestRate !== null) {
+    lines.push({
+      description: `Verzugszinsen - ${interestRate.toLocaleString('de-DE')} % p.a. für ${interestDays} Tage`,
+      amount: interestAmount,
+    });
+  }
+
+  return generateInvoiceHTML({
+    ...rest,
+    invoiceNumber,
+    invoiceDate: issuedAt,
+    dueDate: paymentDeadline,
+    items: lines.map((line) => ({
+      description: line.description,
+      quantity: 1,
+      unitPrice: line.amount,
+      total: line.amount,
+    })),
+    subtotal: totalDue,
+    vatAmount: 0,
+    total: totalDue,
+    labels: {
+      title,
+      dueDateLabel: 'Zahlbar bis',
+      totalLabel: 'Zu zahlender Betrag',
+    },
+    introText: text ? `Sehr geehrte Damen und Herren,\n\n${text}` : undefined,
+    showVat: false,
+  });
+}
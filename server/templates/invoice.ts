@@ -1,4 +1,11 @@
 import type { CompanySettings } from '../../drizzle/schema';
+import {
+  calculateVatBreakdown,
+  formatVatLabel,
+  resolveLineVat,
+  INVOICE_VAT_CATEGORY_NOTES,
+  type InvoiceVatCategory,
+} from '../../shared/invoiceVat';
 import fs from 'fs';
 import path from 'path';
 import { fileURLToPath } from 'url';
@@ -17,7 +24,20 @@ interface InvoiceClient {
   address: string | null;
 }
 
-interface InvoiceData {
+/** Wording that differs between invoices and other documents rendered with this layout (e.g. quotes) */
+export interface InvoiceDocumentLabels {
+  title: string;
+  dueDateLabel: string;
+  totalLabel?: string;
+}
+
+const INVOICE_LABELS: InvoiceDocumentLabels = {
+  title: 'Rechnung',
+  dueDateLabel: 'Zahlungsziel',
+  totalLabel: 'Gesamtbetrag',
+};
+
+export interface InvoiceData {
   invoiceNumber: string;
   invoiceDate: Date;
   dueDate: Date;
@@ -28,7 +48,8 @@ interface InvoiceData {
     quantity: number;
     unitPrice: number;
     total: number;
-    vatRate?: number;
+    vatRate?: number | null;
+    vatCategory?: InvoiceVatCategory | null;
   }>;
   subtotal: number;
   vatAmount: number;
@@ -38,6 +59,11 @@ interface InvoiceData {
   logoUrl?: string;
   servicePeriodStart?: Date | null;
   servicePeriodEnd?: Date | null;
+  labels?: InvoiceDocumentLabels;
+  /** Letter text shown above the items (e.g. dunning notices) */
+  introText?: string;
+  /** Set to false for documents without VAT (dunning fees and interest are not taxable) */
+  showVat?: boolean;
 }
 
 export function generateInvoiceHTML(data: InvoiceData): { html: string; footerTemplate: string } {
@@ -55,7 +81,10 @@ export function generateInvoiceHTML(data: InvoiceData): { html: string; footerTe
     terms,
     logoUrl = '',
     servicePeriodStart,
-    servicePeriodEnd
+    servicePeriodEnd,
+    labels = INVOICE_LABELS,
+    introText,
+    showVat = true,
   } = data;
 
   const formatDate = (date: Date | string | null | undefined) => {
@@ -152,11 +181,14 @@ export function generateInvoiceHTML(data: InvoiceData): { html: string; footerTe
     return escapeHtml(client.address).replace(/\n/g, '<br>');
   };
 
+  const defaultVatRate = Number(company.vatRate ?? 19);
+
   // Build items table rows with VAT rate column
   // Parse description to separate title and description (format: "Title - Description")
   const itemsHTML = items
     .map((item) => {
-      const vatRate = company.isKleinunternehmer ? 0 : (item.vatRate ?? Number(company.vatRate));
+      const lineVat = resolveLineVat(item, defaultVatRate);
+      const vatLabel = company.isKleinunternehmer ? '0 %' : formatVatLabel(lineVat.category, lineVat.rate);
       
       // Parse description: if it contains " - ", split into title and description
       const descParts = item.description.split(' - ');
@@ -171,7 +203,7 @@ export function generateInvoiceHTML(data: InvoiceData): { html: string; footerTe
           </td>
           <td class="right">${item.quantity}</td>
           <td class="right">${formatCurrency(item.unitPrice)}</td>
-          <td class="right">${vatRate} %</td>
+          ${showVat ? `<td class="right">${vatLabel}</td>` : ''}
           <td class="right">${formatCurrency(item.total)}</td>
         </tr>
       `;
@@ -190,21 +222,67 @@ export function generateInvoiceHTML(data: InvoiceData): { html: string; footerTe
       </div>`
     : '';
 
-  // VAT totals section
-  const vatRowHTML = !company.isKleinunternehmer && vatAmount > 0
+  // VAT breakdown per rate (one row per rate/category, § 14 Abs. 4 Nr. 8 UStG)
+  const vatBreakdown = calculateVatBreakdown(
+    items.map((item) => ({ lineTotal: item.total, vatRate: item.vatRate, vatCategory: item.vatCategory })),
+    { defaultRate: defaultVatRate, isKleinunternehmer: company.isKleinunternehmer }
+  );
+  const hasVatBreakdown = vatBreakdown.length > 1 || vatBreakdown.some((entry) => entry.category !== 'standard');
+  const vatRowHTML = showVat && !company.isKleinunternehmer && (vatAmount !== 0 || hasVatBreakdown)
     ? `<div class="totals-row">
+        <span>Nettobetrag</span>
+        <span>${formatCurrency(subtotal)}</span>
+      </div>
+      ${hasVatBreakdown
+        ? `<table class="vat-breakdown">
+            <thead>
+              <tr>
+                <th>USt.-Satz</th>
+                <th class="right">Netto</th>
+                <th class="right">USt.</th>
+              </tr>
+            </thead>
+            <tbody>
+              ${vatBreakdown
+                .map((entry) => `
+                <tr>
+                  <td>${formatVatLabel(entry.category, entry.rate)}</td>
+                  <td class="right">${formatCurrency(entry.netAmount)}</td>
+                  <td class="right">${formatCurrency(entry.vatAmount)}</td>
+                </tr>`)
+                .join('')}
+            </tbody>
+          </table>`
+        : ''}
+      <div class="totals-row">
         <span>Umsatzsteuer</span>
         <span>${formatCurrency(vatAmount)}</span>
       </div>`
     : '';
 
+  // Legal notes for untaxed categories (reverse charge, intra-EU supply)
+  const vatCategoryNotes = Array.from(new Set(vatBreakdown.map((entry) => INVOICE_VAT_CATEGORY_NOTES[entry.category])))
+    .filter((note): note is string => Boolean(note));
+  const vatCategoryNotesHTML = showVat && vatCategoryNotes.length > 0
+    ? `<div class="vat-note" style="margin-top: 16px; padding: 12px 16px; background: #fafafa; border-radius: 8px; font-size: 11px; color: #7A8087; text-align: center;">
+        ${vatCategoryNotes.map((note) => escapeHtml(note)).join('<br>')}
+      </div>`
+    : '';
+
   // Kleinunternehmer notice (directly under totals, subtle styling)
-  const kleinunternehmerCardHTML = company.isKleinunternehmer
+  const kleinunternehmerCardHTML = showVat && company.isKleinunternehmer
     ? `<div class="vat-note" style="margin-top: 16px; padding: 12px 16px; background: #fafafa; border-radius: 8px; font-size: 11px; color: #7A8087; text-align: center;">
         Umsatzsteuerbefreiung aufgrund des Kleinunternehmerstatus gemäß § 19 UStG
       </div>`
     : '';
 
+  // Letter text card (dunning notices)
+  const introCardHTML = introText
+    ? `<div class="card" style="margin-bottom: 8px;">
+        ${escapeHtml(introText).replace(/\n/g, '<br>')}
+      </div>`
+    : '';
+
   // Notes card
   const notesCardHTML = notes
     ? `<div class="card">
@@ -270,7 +348,7 @@ export function generateInvoiceHTML(data: InvoiceData): { html: string; footerTe
 <html lang="de">
 <head>
   <meta charset="UTF-8" />
-  <title>Rechnung ${escapeHtml(invoiceNumber)}</title>
+  <title>${escapeHtml(labels.title)} ${escapeHtml(invoiceNumber)}</title>
 
   <style>
     /* Embedded Kanit fonts (base64) - deterministic loading, no external requests */
@@ -489,6 +567,29 @@ export function generateInvoiceHTML(data: InvoiceData): { html: string; footerTe
       gap: 18px;
     }
 
+    .vat-breakdown {
+      width: 100%;
+      margin: 4px 0;
+      font-size: 11px;
+      color: var(--text-secondary);
+    }
+
+    .vat-breakdown th,
+    .vat-breakdown td {
+      padding: 3px 0;
+      font-size: 11px;
+      border-bottom: none;
+      background: none;
+    }
+
+    .vat-breakdown th {
+      font-weight: 400;
+      font-size: 9px;
+      text-transform: uppercase;
+      letter-spacing: 0.5px;
+      color: var(--text-muted);
+    }
+
     .vat-note {
       font-size: 11px;
       color: var(--text-muted);
@@ -507,14 +608,14 @@ export function generateInvoiceHTML(data: InvoiceData): { html: string; footerTe
   <!-- HEADER -->
   <div class="header">
     <div>
-      <h1>RECHNUNG</h1>
+      <h1>${escapeHtml(labels.title.toUpperCase())}</h1>
       <div class="invoice-number">${escapeHtml(invoiceNumber)}</div>
     </div>
 
     ${logoHTML}
 
     <div class="dates">
-      <div class="date-row"><span class="date-label">Zahlungsziel</span>${formatDate(dueDate)}</div>
+      <div class="date-row"><span class="date-label">${escapeHtml(labels.dueDateLabel)}</span>${formatDate(dueDate)}</div>
       ${servicePeriodHTML}
       <div class="date-row"><span class="date-label">Erstellt</span>${formatDate(invoiceDate)}</div>
     </div>
@@ -536,6 +637,8 @@ export function generateInvoiceHTML(data: InvoiceData): { html: string; footerTe
     </div>
   </div>
 
+  ${introCardHTML}
+
   <!-- ITEMS -->
   <div class="table-wrapper">
     <table>
@@ -543,8 +646,8 @@ export function generateInvoiceHTML(data: InvoiceData): { html: string; footerTe
         <tr>
           <th>Beschreibung</th>
           <th class="right">Anzahl</th>
-          <th class="right">Preis (ohne USt.)</th>
-          <th class="right">USt.-Satz</th>
+          <th class="right">${showVat ? 'Preis (ohne USt.)' : 'Betrag'}</th>
+          ${showVat ? '<th class="right">USt.-Satz</th>' : ''}
           <th class="right">Gesamt</th>
         </tr>
       </thead>
@@ -559,11 +662,12 @@ export function generateInvoiceHTML(data: InvoiceData): { html: string; footerTe
     <div class="totals">
       ${vatRowHTML}
       <div class="totals-row total">
-        <span>Gesamtbetrag</span>
+        <span>${escapeHtml(labels.totalLabel ?? INVOICE_LABELS.totalLabel)}</span>
         <span>${formatCurrency(total)}</span>
       </div>
     </div>
     ${kleinunternehmerCardHTML}
+    ${vatCategoryNotesHTML}
   </section>
 
   <!-- INFO SECTIONS -->
@@ -0,0 +1,157 @@
+import { TRIP_TYPE_EXPORT_LABELS, TRIP_TYPES } from '../../shared/mileage';
+import {
+  describeChainVerification,
+  describeLogbookEntryStatus,
+  type MileageLogbook,
+} from '../lib/mileage';
+
+interface MileageLogbookData {
+  logbook: MileageLogbook;
+  companyName?: string;
+}
+
+const escapeHtml = (text: string | null | undefined) => {
+  if (!text) return '';
+  return String(text)
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#039;');
+};
+
+const formatDate = (date: Date) => date.toLocaleDateString('de-DE');
+
+const formatKm = (km: number) => km.toLocaleString('de-DE', { minimumFractionDigits: 1, maximumFractionDigits: 1 });
+
+/**
+ * Fahrtenbuch printout for one vehicle and year. Each row shows the start of
+ * its hash; the footer carries the last hash of the chain so a printed copy
+ * can be matched against the stored log.
+ */
+export function generateMileageLogbookHTML(data: MileageLogbookData): { html: string; footerTemplate: string } {
+  const { logbook, companyName = 'Mantodeus Manager' } = data;
+  const { vehicle, verification, totals } = logbook;
+
+  const rowsHTML = logbook.entries
+    .map((entry) => {
+      const status = describeLogbookEntryStatus(entry);
+      return `
+      <tr class="${entry.replacedBySequence !== null ? 'replaced' : ''}">
+        <td>${entry.sequence}</td>
+        <td>${formatDate(entry.tripDate)}</td>
+        <td class="number">${entry.odometerStart ?? ''}</td>
+        <td class="number">${entry.odometerEnd ?? ''}</td>
+        <td class="number">${formatKm(entry.distanceKm)}</td>
+        <td>${TRIP_TYPE_EXPORT_LABELS[entry.tripType]}</td>
+        <td>${escapeHtml(entry.startAddress)}<br>→ ${escapeHtml(entry.endAddress)}</td>
+        <td>
+          ${escapeHtml(entry.purpose)}
+          ${entry.businessPartner ? `<br><span class="muted">${escapeHtml(entry.businessPartner)}</span>` : ''}
+          ${status ? `<br><span class="status">${escapeHtml(status)}</span>` : ''}
+        </td>
+        <td class="muted">${formatDate(entry.recordedAt)}</td>
+        <td class="hash">${entry.hash.slice(0, 12)}</td>
+      </tr>`;
+    })
+    .join('');
+
+  const totalsHTML = TRIP_TYPES
+    .map((type) => `<tr><td>${TRIP_TYPE_EXPORT_LABELS[type]}</td><td class="number">${formatKm(totals[type])} km</td></tr>`)
+    .join('');
+
+  const html = `
+<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="utf-8">
+  <title>Fahrtenbuch ${logbook.year} - ${escapeHtml(vehicle.name)}</title>
+  <style>
+    * { margin: 0; padding: 0; box-sizing: border-box; }
+    body {
+      font-family: Arial, sans-serif;
+      color: #333;
+      line-height: 1.35;
+      padding: 30px;
+      font-size: 9px;
+    }
+    .header {
+      display: flex;
+      justify-content: space-between;
+      margin-bottom: 20px;
+      padding-bottom: 12px;
+      border-bottom: 1px solid #e0e0e0;
+    }
+    .title { font-size: 18px; font-weight: bold; color: #0a0a0a; margin-bottom: 4px; }
+    .muted { color: #777; }
+    .check { margin-bottom: 15px; padding: 8px 12px; border-left: 3px solid ${verification.valid ? '#00ff88' : '#e53935'}; background: #f9f9f9; }
+    table { width: 100%; border-collapse: collapse; }
+    th {
+      background-color: #f0f0f0;
+      padding: 6px;
+      text-align: left;
+      font-size: 8px;
+    }
+    td { padding: 6px; border-bottom: 1px solid #e0e0e0; vertical-align: top; }
+    tr { page-break-inside: avoid; }
+    .number { text-align: right; white-space: nowrap; }
+    .hash { font-family: monospace; font-size: 8px; color: #777; }
+    .status { color: #e53935; }
+    .replaced td { color: #999; text-decoration: line-through; }
+    .replaced td .status, .replaced td.hash { text-decoration: none; }
+    .totals { width: 40%; margin-top: 20px; margin-left: auto; }
+    .totals tr:last-child td { font-weight: bold; border-top: 2px solid #0a0a0a; }
+  </style>
+</head>
+<body>
+  <div class="header">
+    <div>
+      <div class="title">Fahrtenbuch ${logbook.year}</div>
+      <div>${escapeHtml(vehicle.name)}${vehicle.licensePlate ? ` · ${escapeHtml(vehicle.licensePlate)}` : ''}</div>
+    </div>
+    <div style="text-align: right;">
+      <div><strong>${escapeHtml(companyName)}</strong></div>
+      <div class="muted">Erstellt am ${formatDate(new Date())}</div>
+    </div>
+  </div>
+
+  <div class="check">
+    <strong>Prüfung der Hash-Kette:</strong> ${escapeHtml(describeChainVerification(verification))}
+    <br><span class="hash">Letzter Hash: ${verification.lastHash}</span>
+  </div>
+
+  <table>
+    <thead>
+      <tr>
+        <th>Nr.</th>
+        <th>Datum</th>
+        <th class="number">Km-Stand Beginn</th>
+        <th class="number">Km-Stand Ende</th>
+        <th class="number">Km</th>
+        <th>Fahrtart</th>
+        <th>Strecke</th>
+        <th>Reisezweck / Geschäftspartner</th>
+        <th>Erfasst</th>
+        <th>Hash</th>
+      </tr>
+    </thead>
+    <tbody>${rowsHTML}</tbody>
+  </table>
+
+  <table class="totals">
+    <tbody>
+      ${totalsHTML}
+      <tr><td>Gesamt</td><td class="number">${formatKm(totals.total)} km</td></tr>
+    </tbody>
+  </table>
+</body>
+</html>`;
+
+  const footerTemplate = `
+    <div style="width: 100%; font-size: 7px; color: #999; padding: 0 30px; display: flex; justify-content: space-between; font-family: Arial, sans-serif;">
+      <span>${escapeHtml(vehicle.name)} · ${logbook.year} · ${verification.lastHash}</span>
+      <span>Seite <span class="pageNumber"></span> / <span class="totalPages"></span></span>
+    </div>`;
+
+  return { html, footerTemplate };
+}
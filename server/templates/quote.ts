@@ -0,0 +1,25 @@
+import { generateInvoiceHTML, type InvoiceData } from './invoice';
+
+/**
+ * Quote (Angebot) PDF. Uses the invoice layout so both documents share
+ * branding, line item table and VAT breakdown; only the wording differs.
+ */
+interface QuoteData extends Omit<InvoiceData, 'invoiceNumber' | 'invoiceDate' | 'dueDate' | 'labels'> {
+  quoteNumber: string;
+  quoteDate: Date;
+  validUntil: Date;
+}
+
+export function generateQuoteHTML(data: QuoteData): { html: string; footerTemplate: string } {
+  const { quoteNumber, quoteDate, validUntil, ...rest } = data;
+  return generateInvoiceHTML({
+    ...rest,
+    invoiceNumber: quoteNumber,
+    invoiceDate: quoteDate,
+    dueDate: validUntil,
+    labels: {
+      title: 'Angebot',
+      dueDateLabel: 'Gültig bis',
+    },
+  });
+}
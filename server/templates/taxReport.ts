@@ -0,0 +1,197 @@
+import { formatVatLabel } from '../../shared/invoiceVat';
+import type { TaxReport } from '../../shared/taxReport';
+
+interface TaxReportData {
+  report: TaxReport;
+  companyName?: string;
+  taxNumber?: string | null;
+}
+
+const escapeHtml = (text: string | null | undefined) => {
+  if (!text) return '';
+  return String(text)
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#039;');
+};
+
+const formatCurrency = (value: number) =>
+  value.toLocaleString('de-DE', { style: 'currency', currency: 'EUR' });
+
+const formatDate = (date: Date) => date.toLocaleDateString('de-DE');
+
+/**
+ * Period tax report (EÜR result, VAT and UStVA Kennzahlen) as a one-page
+ * summary for the tax advisor. It is not a filing; the UStVA is submitted via ELSTER.
+ */
+export function generateTaxReportHTML(data: TaxReportData): { html: string; footerTemplate: string } {
+  const { report, companyName = 'Mantodeus Manager', taxNumber } = data;
+  const { period, income, expenses } = report;
+
+  const vatMethodLabel = report.isKleinunternehmer
+    ? 'Kleinunternehmer (§ 19 UStG)'
+    : report.vatMethod === 'IST' ? 'Ist-Versteuerung' : 'Soll-Versteuerung';
+
+  const row = (label: string, ...cells: string[]) => `
+      <tr>
+        <td>${escapeHtml(label)}</td>
+        ${cells.map((value) => `<td class="amount">${value}</td>`).join('')}
+      </tr>`;
+
+  const unconvertedHTML = report.unconvertedExpenses
+    .map((expense) =>
+      row(
+        `${formatDate(expense.expenseDate)} ${expense.supplierName}`,
+        escapeHtml(`${(expense.grossAmountCents / 100).toFixed(2).replace('.', ',')} ${expense.currency}`)
+      )
+    )
+    .join('');
+
+  const vatGroupsHTML = report.vatGroups
+    .map((group) =>
+      row(`Umsätze ${formatVatLabel(group.category, group.rate)}`, formatCurrency(group.net), formatCurrency(group.vat))
+    )
+    .join('');
+
+  const ustvaHTML = report.ustva
+    .map(
+      (line) => `
+      <tr>
+        <td class="code">${line.code}</td>
+        <td>${escapeHtml(line.label)}</td>
+        <td class="amount">${line.base === null ? '' : `${line.base.toLocaleString('de-DE')} €`}</td>
+        <td class="amount">${line.tax === null ? '' : formatCurrency(line.tax)}</td>
+      </tr>`
+    )
+    .join('');
+
+  const html = `
+<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="utf-8">
+  <title>Steuerbericht ${escapeHtml(period.label)}</title>
+  <style>
+    * { margin: 0; padding: 0; box-sizing: border-box; }
+    body {
+      font-family: Arial, sans-serif;
+      color: #333;
+      line-height: 1.4;
+      padding: 40px;
+      font-size: 11px;
+    }
+    .header {
+      display: flex;
+      justify-content: space-between;
+      margin-bottom: 25px;
+      padding-bottom: 15px;
+      border-bottom: 1px solid #e0e0e0;
+    }
+    .title { font-size: 18px; font-weight: bold; color: #0a0a0a; margin-bottom: 4px; }
+    .muted { color: #777; }
+    .section { margin-bottom: 25px; page-break-inside: avoid; }
+    .section-header {
+      background-color: #00ff88;
+      padding: 8px 12px;
+      margin-bottom: 10px;
+      font-weight: bold;
+      letter-spacing: 1px;
+      color: #0a0a0a;
+    }
+    table { width: 100%; border-collapse: collapse; }
+    th {
+      background-color: #f0f0f0;
+      padding: 8px 12px;
+      text-align: left;
+      font-size: 10px;
+    }
+    td { padding: 8px 12px; border-bottom: 1px solid #e0e0e0; }
+    .amount { text-align: right; white-space: nowrap; }
+    .code { width: 50px; font-weight: bold; }
+    .total td { font-weight: bold; border-top: 2px solid #0a0a0a; }
+  </style>
+</head>
+<body>
+  <div class="header">
+    <div>
+      <div class="title">Steuerbericht ${escapeHtml(period.label)}</div>
+      <div class="muted">${formatDate(period.from)} - ${formatDate(period.to)}</div>
+    </div>
+    <div style="text-align: right;">
+      <div><strong>${escapeHtml(companyName)}</strong></div>
+      ${taxNumber ? `<div class="muted">Steuernummer ${escapeHtml(taxNumber)}</div>` : ''}
+      <div class="muted">${report.accountingMethod === 'EÜR' ? 'Einnahmen-Überschuss-Rechnung' : 'Bilanz'} · ${vatMethodLabel}</div>
+    </div>
+  </div>
+
+  <div class="section">
+    <div class="section-header">ERGEBNIS</div>
+    <table>
+      <thead>
+        <tr><th></th><th class="amount">Netto</th><th class="amount">Steuer</th><th class="amount">Brutto</th></tr>
+      </thead>
+      <tbody>
+        ${row(`Einnahmen (${income.invoiceCount} Rechnungen)`, formatCurrency(income.net), formatCurrency(income.vat), formatCurrency(income.gross))}
+        ${row(`Ausgaben (${expenses.expenseCount} Belege)`, formatCurrency(expenses.net), formatCurrency(expenses.vat), formatCurrency(expenses.gross))}
+        <tr class="total">
+          <td>${report.result < 0 ? 'Verlust' : 'Überschuss'}</td>
+          <td class="amount">${formatCurrency(report.result)}</td>
+          <td></td>
+          <td></td>
+        </tr>
+      </tbody>
+    </table>
+  </div>
+
+  ${report.vatMethod ? `
+  <div class="section">
+    <div class="section-header">UMSATZSTEUER</div>
+    <table>
+      <thead>
+        <tr><th></th><th class="amount">Bemessungsgrundlage</th><th class="amount">Steuer</th></tr>
+      </thead>
+      <tbody>
+        ${vatGroupsHTML}
+        ${row('Umsatzsteuer', '', formatCurrency(report.outputVat))}
+        ${row('Abziehbare Vorsteuer', '', formatCurrency(report.inputVat))}
+        <tr class="total">
+          <td>${report.vatBalance < 0 ? 'Erstattung' : 'Zahllast'}</td>
+          <td></td>
+          <td class="amount">${formatCurrency(report.vatBalance)}</td>
+        </tr>
+      </tbody>
+    </table>
+  </div>
+
+  <div class="section">
+    <div class="section-header">UMSATZSTEUER-VORANMELDUNG</div>
+    <table>
+      <thead>
+        <tr><th>Kz.</th><th></th><th class="amount">Bemessungsgrundlage</th><th class="amount">Steuer</th></tr>
+      </thead>
+      <tbody>${ustvaHTML}</tbody>
+    </table>
+  </div>` : `
+  <div class="section">
+    <p class="muted">Als Kleinunternehmer (§ 19 UStG) wird keine Umsatzsteuer ausgewiesen und keine Voranmeldung abgegeben.</p>
+  </div>`}
+  ${unconvertedHTML ? `
+  <div class="section">
+    <div class="section-header">NICHT ENTHALTEN: BELEGE OHNE EUR-BETRAG</div>
+    <table>
+      <tbody>${unconvertedHTML}</tbody>
+    </table>
+  </div>` : ''}
+</body>
+</html>`;
+
+  const footerTemplate = `
+    <div style="width: 100%; font-size: 8px; color: #999; padding: 0 40px; display: flex; justify-content: space-between; font-family: Arial, sans-serif;">
+      <span>Erstellt am ${formatDate(new Date())} - ohne Gewähr, keine Steuererklärung</span>
+      <span>Seite <span class="pageNumber"></span> / <span class="totalPages"></span></span>
+    </div>`;
+
+  return { html, footerTemplate };
+}
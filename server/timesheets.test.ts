@@ -0,0 +1,108 @@
+import { describe, expect, it } from "vitest";
+import {
+  buildTimeInvoiceLines,
+  formatMinutes,
+  getEntryMinutes,
+  isTimesheetLocked,
+  resolveHourlyRate,
+  shiftWeek,
+  toWeekStart,
+  validateTimeSpan,
+  type BillableTimeEntry,
+} from "../shared/timesheets";
+
+const at = (day: string, time: string) => new Date(`${day}T${time}:00`);
+
+const entry = (overrides: Partial<BillableTimeEntry> = {}): BillableTimeEntry => ({
+  id: 1,
+  jobId: null,
+  jobTitle: null,
+  hourlyRate: 60,
+  startTime: at("2026-03-10", "08:00"),
+  endTime: at("2026-03-10", "16:30"),
+  breakMinutes: 30,
+  ...overrides,
+});
+
+describe("weeks", () => {
+  it("starts weeks on Monday", () => {
+    expect(toWeekStart(at("2026-03-09", "00:00"))).toBe("2026-03-09");
+    expect(toWeekStart(at("2026-03-12", "13:00"))).toBe("2026-03-09");
+    expect(toWeekStart(at("2026-03-15", "23:59"))).toBe("2026-03-09");
+    expect(toWeekStart(at("2026-03-16", "00:00"))).toBe("2026-03-16");
+  });
+
+  it("moves across month and year ends", () => {
+    expect(shiftWeek("2026-03-30", 1)).toBe("2026-04-06");
+    expect(shiftWeek("2026-01-05", -1)).toBe("2025-12-29");
+  });
+
+  it("locks submitted and approved timesheets", () => {
+    expect(isTimesheetLocked("open")).toBe(false);
+    expect(isTimesheetLocked("rejected")).toBe(false);
+    expect(isTimesheetLocked("submitted")).toBe(true);
+    expect(isTimesheetLocked("approved")).toBe(true);
+  });
+});
+
+describe("entry times", () => {
+  it("subtracts the break", () => {
+    expect(getEntryMinutes(entry())).toBe(480);
+    expect(formatMinutes(getEntryMinutes(entry({ breakMinutes: 45 })))).toBe("7:45");
+  });
+
+  it("rejects impossible spans", () => {
+    expect(validateTimeSpan(entry())).toBeNull();
+    expect(validateTimeSpan(entry({ endTime: at("2026-03-10", "08:00") }))).toBe("The end has to be after the start");
+    expect(validateTimeSpan(entry({ endTime: at("2026-03-11", "09:00") }))).toBe("An entry can be at most 24 hours");
+    expect(validateTimeSpan(entry({ breakMinutes: 510 }))).toBe("The break has to be shorter than the entry");
+    expect(validateTimeSpan(entry({ breakMinutes: -5 }))).toBe("The break has to be shorter than the entry");
+  });
+});
+
+describe("hourly rates", () => {
+  it("prefers the job rate over the project rate", () => {
+    expect(resolveHourlyRate("75.00", "60.00")).toBe(75);
+    expect(resolveHourlyRate(null, "60.00")).toBe(60);
+    expect(resolveHourlyRate(null, null)).toBeNull();
+  });
+});
+
+describe("buildTimeInvoiceLines", () => {
+  it("groups entries per job and rate", () => {
+    const { lines, withoutRate } = buildTimeInvoiceLines([
+      entry({ id: 1 }),
+      entry({
+        id: 2,
+        startTime: at("2026-03-12", "09:00"),
+        endTime: at("2026-03-12", "11:20"),
+        breakMinutes: 0,
+      }),
+      entry({ id: 3, jobId: 7, jobTitle: "Montage", hourlyRate: 75 }),
+    ]);
+
+    expect(withoutRate).toEqual([]);
+    expect(lines).toEqual([
+      {
+        name: "Arbeitszeit",
+        description: "Leistungszeitraum 10.03.2026 – 12.03.2026",
+        quantity: 10.33,
+        unitPrice: 60,
+        entryIds: [1, 2],
+      },
+      {
+        name: "Arbeitszeit Montage",
+        description: "Leistungsdatum 10.03.2026",
+        quantity: 8,
+        unitPrice: 75,
+        entryIds: [3],
+      },
+    ]);
+  });
+
+  it("leaves entries without a rate out", () => {
+    const { lines, withoutRate } = buildTimeInvoiceLines([entry({ id: 1, hourlyRate: null }), entry({ id: 2 })]);
+    expect(lines.map((line) => line.entryIds)).toEqual([[2]]);
+    expect(withoutRate.map((item) => item.id)).toEqual([1]);
+  });
+});
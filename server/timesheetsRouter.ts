@@ -0,0 +1,358 @@
+import { TRPCError } from "@trpc/server";
+import { z } from "zod";
+import { protectedProcedure, router } from "./_core/trpc";
+import type { TrpcContext } from "./_core/context";
+import * as db from "./db";
+import {
+  buildTimeInvoiceLines,
+  getEntryMinutes,
+  isTimesheetLocked,
+  resolveHourlyRate,
+  toWeekStart,
+  validateTimeSpan,
+  type TimesheetStatus,
+} from "../shared/timesheets";
+import { createInvoiceFromUnbilledHours } from "./services/timesheetInvoicing";
+import { getProjectAccess, getWorkspaceScope, requireAccountAccess } from "./services/workspaceAccess";
+import { canApproveTimesheets, satisfiesAccess, type AccessLevel } from "../shared/workspaces";
+
+type User = NonNullable<TrpcContext["user"]>;
+
+const weekStartSchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Week must be a date (YYYY-MM-DD)");
+const hourlyRateSchema = z.number().nonnegative().max(100000).nullable();
+
+const timeEntryInputSchema = z.object({
+  projectId: z.number(),
+  jobId: z.number().nullable().optional(),
+  startTime: z.date(),
+  endTime: z.date(),
+  breakMinutes: z.number().int().min(0).default(0),
+  description: z.string().max(2000).nullable().optional(),
+  billable: z.boolean().default(true),
+});
+
+/**
+ * Projects are accessible to admins, their creator and workspace members by
+ * role and, for foremen and field workers, project membership
+ */
+async function requireProjectAccess(user: User, projectId: number, level: AccessLevel = "edit") {
+  const project = await db.getProjectById(projectId);
+  if (!project) {
+    throw new TRPCError({ code: "NOT_FOUND", message: `Project with id ${projectId} not found` });
+  }
+  if (!satisfiesAccess(await getProjectAccess(user, project), level)) {
+    throw new TRPCError({ code: "FORBIDDEN", message: "You don't have permission to access this project" });
+  }
+  return project;
+}
+
+/**
+ * Members whose timesheets the user approves: the other members of their
+ * active workspace, for owners and office staff
+ */
+async function getApprovableUserIds(user: User): Promise<number[]> {
+  const scope = await getWorkspaceScope(user);
+  if (!scope.workspaceId || !canApproveTimesheets(scope.role)) {
+    throw new TRPCError({
+      code: "FORBIDDEN",
+      message: "Only the workspace owner and office staff can approve timesheets",
+    });
+  }
+  const members = await db.getWorkspaceMembers(scope.workspaceId);
+  return members.map((member) => member.userId).filter((userId) => userId !== user.id);
+}
+
+async function requireApprovableUser(user: User, userId: number) {
+  if (!(await getApprovableUserIds(user)).includes(userId)) {
+    throw new TRPCError({ code: "NOT_FOUND", message: "Timesheet not found" });
+  }
+}
+
+async function requireJobOfProject(jobId: number, projectId: number) {
+  const job = await db.getProjectJobById(jobId);
+  if (!job || job.projectId !== projectId) {
+    throw new TRPCError({ code: "BAD_REQUEST", message: "The job doesn't belong to this project" });
+  }
+  return job;
+}
+
+async function getTimesheetStatus(userId: number, weekStart: string): Promise<TimesheetStatus> {
+  const timesheet = await db.getTimesheet(userId, weekStart);
+  return timesheet?.status ?? "open";
+}
+
+async function requireOpenWeek(userId: number, weekStart: string) {
+  if (isTimesheetLocked(await getTimesheetStatus(userId, weekStart))) {
+    throw new TRPCError({
+      code: "BAD_REQUEST",
+      message: "This week's timesheet is submitted or approved and can't be changed",
+    });
+  }
+}
+
+/**
+ * Entries can be changed by their user (or an admin) while unbilled and in an open week
+ */
+async function getEditableEntry(id: number, user: User) {
+  const entry = await db.getTimeEntryById(id);
+  if (!entry || (entry.userId !== user.id && user.role !== "admin")) {
+    throw new TRPCError({ code: "NOT_FOUND", message: "Time entry not found" });
+  }
+  if (entry.invoiceId) {
+    throw new TRPCError({ code: "BAD_REQUEST", message: "Billed time entries can't be changed" });
+  }
+  await requireOpenWeek(entry.userId, entry.weekStart);
+  return entry;
+}
+
+function requireValidSpan(span: { startTime: Date; endTime: Date; breakMinutes: number }) {
+  const error = validateTimeSpan(span);
+  if (error) {
+    throw new TRPCError({ code: "BAD_REQUEST", message: error });
+  }
+}
+
+function summarizeEntries(entries: Array<{ startTime: Date; endTime: Date; breakMinutes: number; billable: boolean }>) {
+  let totalMinutes = 0;
+  let billableMinutes = 0;
+  for (const entry of entries) {
+    const minutes = getEntryMinutes(entry);
+    totalMinutes += minutes;
+    if (entry.billable) billableMinutes += minutes;
+  }
+  return { totalMinutes, billableMinutes };
+}
+
+export const timesheetsRouter = router({
+  /**
+   * A user's timesheet for one week; approvers can look at the weeks of
+   * their workspace's members
+   */
+  week: protectedProcedure
+    .input(z.object({ weekStart: weekStartSchema, userId: z.number().optional() }))
+    .query(async ({ input, ctx }) => {
+      const userId = input.userId ?? ctx.user.id;
+      if (userId !== ctx.user.id) await requireApprovableUser(ctx.user, userId);
+      const weekStart = toWeekStart(`${input.weekStart}T00:00:00`);
+      const [timesheet, entries] = await Promise.all([
+        db.getTimesheet(userId, weekStart),
+        db.getTimeEntriesForWeek(userId, weekStart),
+      ]);
+      return {
+        weekStart,
+        status: timesheet?.status ?? ("open" as TimesheetStatus),
+        timesheet,
+        entries,
+        ...summarizeEntries(entries),
+      };
+    }),
+
+  /**
+   * Everyone's entries on a project in one week
+   */
+  projectWeek: protectedProcedure
+    .input(z.object({ projectId: z.number(), weekStart: weekStartSchema }))
+    .query(async ({ input, ctx }) => {
+      await requireProjectAccess(ctx.user, input.projectId, "view");
+      const weekStart = toWeekStart(`${input.weekStart}T00:00:00`);
+      const entries = await db.getProjectTimeEntriesForWeek(input.projectId, weekStart);
+      return { weekStart, entries, ...summarizeEntries(entries) };
+    }),
+
+  createEntry: protectedProcedure
+    .input(timeEntryInputSchema)
+    .mutation(async ({ input, ctx }) => {
+      await requireProjectAccess(ctx.user, input.projectId, "view");
+      if (input.jobId) await requireJobOfProject(input.jobId, input.projectId);
+      requireValidSpan(input);
+      await requireOpenWeek(ctx.user.id, toWeekStart(input.startTime));
+
+      return await db.createTimeEntry({
+        userId: ctx.user.id,
+        projectId: input.projectId,
+        jobId: input.jobId ?? null,
+        startTime: input.startTime,
+        endTime: input.endTime,
+        breakMinutes: input.breakMinutes,
+        description: input.description?.trim() || null,
+        billable: input.billable,
+      });
+    }),
+
+  /**
+   * Correct an entry, e.g. a forgotten check-out or a break
+   */
+  updateEntry: protectedProcedure
+    .input(timeEntryInputSchema.partial().extend({ id: z.number() }))
+    .mutation(async ({ input, ctx }) => {
+      const entry = await getEditableEntry(input.id, ctx.user);
+      const { id, ...updates } = input;
+
+      const projectId = updates.projectId ?? entry.projectId;
+      if (updates.projectId !== undefined) await requireProjectAccess(ctx.user, projectId, "view");
+      const jobId = updates.jobId === undefined ? entry.jobId : updates.jobId;
+      if (jobId && (updates.jobId !== undefined || updates.projectId !== undefined)) {
+        await requireJobOfProject(jobId, projectId);
+      }
+
+      const span = {
+        startTime: updates.startTime ?? entry.startTime,
+        endTime: updates.endTime ?? entry.endTime,
+        breakMinutes: updates.breakMinutes ?? entry.breakMinutes,
+      };
+      requireValidSpan(span);
+      // Moving an entry into another week needs that week to be open as well
+      if (updates.startTime) await requireOpenWeek(entry.userId, toWeekStart(updates.startTime));
+
+      return await db.updateTimeEntry(id, {
+        ...updates,
+        ...(updates.description !== undefined && { description: updates.description?.trim() || null }),
+      });
+    }),
+
+  deleteEntry: protectedProcedure
+    .input(z.object({ id: z.number() }))
+    .mutation(async ({ input, ctx }) => {
+      const entry = await getEditableEntry(input.id, ctx.user);
+      await db.deleteTimeEntry(entry.id);
+      return { success: true };
+    }),
+
+  /**
+   * Submit the current user's week for approval
+   */
+  submitWeek: protectedProcedure
+    .input(z.object({ weekStart: weekStartSchema }))
+    .mutation(async ({ input, ctx }) => {
+      const weekStart = toWeekStart(`${input.weekStart}T00:00:00`);
+      await requireOpenWeek(ctx.user.id, weekStart);
+      const entries = await db.getTimeEntriesForWeek(ctx.user.id, weekStart);
+      if (entries.length === 0) {
+        throw new TRPCError({ code: "BAD_REQUEST", message: "There are no time entries in this week" });
+      }
+      return await db.saveTimesheet(ctx.user.id, weekStart, {
+        status: "submitted",
+        submittedAt: new Date(),
+        reviewedByUserId: null,
+        reviewedAt: null,
+        rejectionReason: null,
+      });
+    }),
+
+  /**
+   * Submitted timesheets of the workspace's members with their worked hours
+   */
+  pendingApprovals: protectedProcedure.query(async ({ ctx }) => {
+    const submitted = await db.getSubmittedTimesheets(await getApprovableUserIds(ctx.user));
+    return await Promise.all(
+      submitted.map(async (timesheet) => {
+        const entries = await db.getTimeEntriesForWeek(timesheet.userId, timesheet.weekStart);
+        return {
+          ...timesheet,
+          ...summarizeEntries(entries),
+          outsideGeofenceCount: entries.filter((entry) => entry.outsideGeofence).length,
+          locationMissingCount: entries.filter((entry) => entry.locationMissing).length,
+        };
+      })
+    );
+  }),
+
+  approveWeek: protectedProcedure
+    .input(z.object({ userId: z.number(), weekStart: weekStartSchema }))
+    .mutation(async ({ input, ctx }) => {
+      await requireApprovableUser(ctx.user, input.userId);
+      if ((await getTimesheetStatus(input.userId, input.weekStart)) !== "submitted") {
+        throw new TRPCError({ code: "BAD_REQUEST", message: "Only submitted timesheets can be approved" });
+      }
+      return await db.saveTimesheet(input.userId, input.weekStart, {
+        status: "approved",
+        reviewedByUserId: ctx.user.id,
+        reviewedAt: new Date(),
+        rejectionReason: null,
+      });
+    }),
+
+  /**
+   * Send a submitted week back for corrections, or reopen an approved one
+   * whose hours aren't billed yet
+   */
+  rejectWeek: protectedProcedure
+    .input(z.object({ userId: z.number(), weekStart: weekStartSchema, reason: z.string().trim().min(1).max(2000) }))
+    .mutation(async ({ input, ctx }) => {
+      await requireApprovableUser(ctx.user, input.userId);
+      const status = await getTimesheetStatus(input.userId, input.weekStart);
+      if (status !== "submitted" && status !== "approved") {
+        throw new TRPCError({ code: "BAD_REQUEST", message: "Only submitted or approved timesheets can be rejected" });
+      }
+      const entries = await db.getTimeEntriesForWeek(input.userId, input.weekStart);
+      if (entries.some((entry) => entry.invoiceId)) {
+        throw new TRPCError({ code: "BAD_REQUEST", message: "Hours of this week are already billed" });
+      }
+      return await db.saveTimesheet(input.userId, input.weekStart, {
+        status: "rejected",
+        reviewedByUserId: ctx.user.id,
+        reviewedAt: new Date(),
+        rejectionReason: input.reason,
+      });
+    }),
+
+  /**
+   * Preview of the invoice for a project's approved, unbilled hours
+   */
+  unbilled: protectedProcedure
+    .input(z.object({ projectId: z.number() }))
+    .query(async ({ input, ctx }) => {
+      const project = await requireProjectAccess(ctx.user, input.projectId, "view");
+      await requireAccountAccess(ctx.user, "invoices", "view");
+      const entries = await db.getUnbilledTimeEntries(input.projectId);
+      const { lines, withoutRate } = buildTimeInvoiceLines(
+        entries.map((entry) => ({
+          id: entry.id,
+          jobId: entry.jobId,
+          jobTitle: entry.jobTitle,
+          hourlyRate: resolveHourlyRate(entry.jobRate, entry.projectRate),
+          startTime: entry.startTime,
+          endTime: entry.endTime,
+          breakMinutes: entry.breakMinutes,
+        }))
+      );
+      return {
+        projectRate: project.hourlyRate === null ? null : Number(project.hourlyRate),
+        lines,
+        netTotal: lines.reduce((sum, line) => sum + Math.round(line.quantity * line.unitPrice * 100) / 100, 0),
+        withoutRateCount: withoutRate.length,
+      };
+    }),
+
+  createInvoice: protectedProcedure
+    .input(z.object({ projectId: z.number() }))
+    .mutation(async ({ input, ctx }) => {
+      await requireProjectAccess(ctx.user, input.projectId, "view");
+      const accountUserId = await requireAccountAccess(ctx.user, "invoices", "edit");
+      try {
+        return await createInvoiceFromUnbilledHours(accountUserId, input.projectId);
+      } catch (error) {
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message: error instanceof Error ? error.message : "Failed to create invoice",
+        });
+      }
+    }),
+
+  /**
+   * Hourly rate of a project, or of one of its jobs when jobId is given
+   */
+  setHourlyRate: protectedProcedure
+    .input(z.object({ projectId: z.number(), jobId: z.number().optional(), hourlyRate: hourlyRateSchema }))
+    .mutation(async ({ input, ctx }) => {
+      await requireProjectAccess(ctx.user, input.projectId);
+      const hourlyRate = input.hourlyRate === null ? null : input.hourlyRate.toFixed(2);
+      if (input.jobId) {
+        await requireJobOfProject(input.jobId, input.projectId);
+        await db.updateProjectJob(input.jobId, { hourlyRate });
+      } else {
+        await db.updateProject(input.projectId, { hourlyRate });
+      }
+      return { success: true };
+    }),
+});
@@ -0,0 +1,66 @@
+import { describe, expect, it } from "vitest";
+import {
+  canApproveTimesheets,
+  canManageMembers,
+  canReviewExpenses,
+  getProjectAccessForRole,
+  getRoleAccess,
+  isInvitationUsable,
+  satisfiesAccess,
+} from "../shared/workspaces";
+
+describe("workspace roles", () => {
+  it("grants access by role and resource", () => {
+    expect(getRoleAccess("office", "invoices")).toBe("edit");
+    expect(getRoleAccess("foreman", "contacts")).toBe("view");
+    expect(getRoleAccess("field_worker", "invoices")).toBe("none");
+    expect(getRoleAccess("accountant", "projects")).toBe("view");
+  });
+
+  it("orders access levels", () => {
+    expect(satisfiesAccess("edit", "view")).toBe(true);
+    expect(satisfiesAccess("view", "edit")).toBe(false);
+    expect(satisfiesAccess("none", "view")).toBe(false);
+  });
+
+  it("limits foremen and field workers to their projects", () => {
+    expect(getProjectAccessForRole("foreman", true)).toBe("edit");
+    expect(getProjectAccessForRole("foreman", false)).toBe("none");
+    expect(getProjectAccessForRole("field_worker", true)).toBe("view");
+    expect(getProjectAccessForRole("office", false)).toBe("edit");
+    expect(getProjectAccessForRole("accountant", false)).toBe("view");
+  });
+
+  it("lets only the owner manage members", () => {
+    expect(canManageMembers("owner")).toBe(true);
+    expect(canManageMembers("office")).toBe(false);
+    expect(canManageMembers(null)).toBe(false);
+  });
+
+  it("lets the owner and office staff approve timesheets", () => {
+    expect(canApproveTimesheets("owner")).toBe(true);
+    expect(canApproveTimesheets("office")).toBe(true);
+    expect(canApproveTimesheets("foreman")).toBe(false);
+    expect(canApproveTimesheets(null)).toBe(false);
+  });
+
+  it("lets the owner, office staff and accountants review expenses", () => {
+    expect(canReviewExpenses("accountant")).toBe(true);
+    expect(canReviewExpenses("office")).toBe(true);
+    expect(canReviewExpenses("field_worker")).toBe(false);
+    expect(canReviewExpenses(null)).toBe(false);
+  });
+});
+
+describe("isInvitationUsable", () => {
+  const now = new Date("2026-03-10T12:00:00Z");
+
+  it("accepts open invitations until they expire", () => {
+    expect(isInvitationUsable({ acceptedAt: null, expiresAt: "2026-03-20T00:00:00Z" }, now)).toBe(true);
+    expect(isInvitationUsable({ acceptedAt: null, expiresAt: "2026-03-01T00:00:00Z" }, now)).toBe(false);
+  });
+
+  it("rejects accepted invitations", () => {
+    expect(isInvitationUsable({ acceptedAt: new Date("2026-03-09T00:00:00Z"), expiresAt: "2026-03-20T00:00:00Z" }, now)).toBe(false);
+  });
+});
@@ -0,0 +1,231 @@
+import { TRPCError } from "@trpc/server";
+import { z } from "zod";
+import { nanoid } from "nanoid";
+import { protectedProcedure, router } from "./_core/trpc";
+import type { TrpcContext } from "./_core/context";
+import { ENV } from "./_core/env";
+import * as db from "./db";
+import {
+  INVITABLE_WORKSPACE_ROLES,
+  WORKSPACE_INVITATION_DAYS,
+  canManageMembers,
+  isInvitationUsable,
+} from "../shared/workspaces";
+import { getWorkspaceScope } from "./services/workspaceAccess";
+
+type User = NonNullable<TrpcContext["user"]>;
+
+const workspaceNameSchema = z.string().trim().min(1, "Workspace name is required").max(255);
+const invitableRoleSchema = z.enum(INVITABLE_WORKSPACE_ROLES);
+
+function buildInviteUrl(token: string) {
+  return `${ENV.appUrl}/team?invite=${token}`;
+}
+
+/**
+ * Active workspace of a user who may manage its members
+ */
+async function requireManagedWorkspace(user: User) {
+  const scope = await getWorkspaceScope(user);
+  if (!scope.workspaceId || !canManageMembers(scope.role)) {
+    throw new TRPCError({ code: "FORBIDDEN", message: "Only the workspace owner can manage members" });
+  }
+  const workspace = await db.getWorkspaceById(scope.workspaceId);
+  if (!workspace) {
+    throw new TRPCError({ code: "NOT_FOUND", message: "Workspace not found" });
+  }
+  return workspace;
+}
+
+async function requireMemberOf(workspaceId: number, userId: number) {
+  const membership = await db.getWorkspaceMembership(workspaceId, userId);
+  if (!membership) {
+    throw new TRPCError({ code: "NOT_FOUND", message: "Member not found" });
+  }
+  if (membership.role === "owner") {
+    throw new TRPCError({ code: "BAD_REQUEST", message: "The owner's role can't be changed" });
+  }
+  return membership;
+}
+
+export const workspacesRouter = router({
+  /**
+   * Workspace the user currently works in; null in their own account
+   */
+  current: protectedProcedure.query(async ({ ctx }) => {
+    const scope = await getWorkspaceScope(ctx.user);
+    if (!scope.workspaceId || !scope.role) return null;
+    const workspace = await db.getWorkspaceById(scope.workspaceId);
+    if (!workspace) return null;
+    return { ...workspace, role: scope.role };
+  }),
+
+  /**
+   * Workspaces the user belongs to
+   */
+  mine: protectedProcedure.query(async ({ ctx }) => {
+    return await db.getUserWorkspaces(ctx.user.id);
+  }),
+
+  /**
+   * Turn the user's own account into a workspace they can invite their team to
+   */
+  create: protectedProcedure
+    .input(z.object({ name: workspaceNameSchema }))
+    .mutation(async ({ input, ctx }) => {
+      if (await db.getWorkspaceByOwner(ctx.user.id)) {
+        throw new TRPCError({ code: "CONFLICT", message: "You already have a workspace" });
+      }
+      return await db.createWorkspace(input.name, ctx.user.id);
+    }),
+
+  rename: protectedProcedure
+    .input(z.object({ name: workspaceNameSchema }))
+    .mutation(async ({ input, ctx }) => {
+      const workspace = await requireManagedWorkspace(ctx.user);
+      await db.updateWorkspace(workspace.id, { name: input.name });
+      return { success: true };
+    }),
+
+  /**
+   * Work in another workspace, or in the own account with null
+   */
+  switch: protectedProcedure
+    .input(z.object({ workspaceId: z.number().nullable() }))
+    .mutation(async ({ input, ctx }) => {
+      if (input.workspaceId !== null && !(await db.getWorkspaceMembership(input.workspaceId, ctx.user.id))) {
+        throw new TRPCError({ code: "FORBIDDEN", message: "You're not a member of this workspace" });
+      }
+      // The own account is the own workspace once there is one
+      const ownWorkspace = input.workspaceId === null ? await db.getWorkspaceByOwner(ctx.user.id) : null;
+      await db.setActiveWorkspace(ctx.user.id, input.workspaceId ?? ownWorkspace?.id ?? null);
+      return { success: true };
+    }),
+
+  /**
+   * Members of the active workspace, e.g. to assign jobs
+   */
+  members: protectedProcedure.query(async ({ ctx }) => {
+    const scope = await getWorkspaceScope(ctx.user);
+    if (!scope.workspaceId) return [];
+    return await db.getWorkspaceMembers(scope.workspaceId);
+  }),
+
+  updateRole: protectedProcedure
+    .input(z.object({ userId: z.number(), role: invitableRoleSchema }))
+    .mutation(async ({ input, ctx }) => {
+      const workspace = await requireManagedWorkspace(ctx.user);
+      await requireMemberOf(workspace.id, input.userId);
+      await db.updateWorkspaceMemberRole(workspace.id, input.userId, input.role);
+      return { success: true };
+    }),
+
+  removeMember: protectedProcedure
+    .input(z.object({ userId: z.number() }))
+    .mutation(async ({ input, ctx }) => {
+      const workspace = await requireManagedWorkspace(ctx.user);
+      await requireMemberOf(workspace.id, input.userId);
+      await db.removeWorkspaceMember(workspace.id, input.userId);
+      return { success: true };
+    }),
+
+  /**
+   * Leave a workspace the user was invited to
+   */
+  leave: protectedProcedure
+    .input(z.object({ workspaceId: z.number() }))
+    .mutation(async ({ input, ctx }) => {
+      await requireMemberOf(input.workspaceId, ctx.user.id);
+      await db.removeWorkspaceMember(input.workspaceId, ctx.user.id);
+      const ownWorkspace = await db.getWorkspaceByOwner(ctx.user.id);
+      if (ownWorkspace && ctx.user.activeWorkspaceId === input.workspaceId) {
+        await db.setActiveWorkspace(ctx.user.id, ownWorkspace.id);
+      }
+      return { success: true };
+    }),
+
+  /**
+   * Pending invitations of the active workspace
+   */
+  invitations: protectedProcedure.query(async ({ ctx }) => {
+    const workspace = await requireManagedWorkspace(ctx.user);
+    const invitations = await db.getPendingWorkspaceInvitations(workspace.id);
+    return invitations.map((invitation) => ({ ...invitation, inviteUrl: buildInviteUrl(invitation.token) }));
+  }),
+
+  /**
+   * Invite someone by email. Returns a link to pass on; it can be accepted
+   * once within WORKSPACE_INVITATION_DAYS.
+   */
+  invite: protectedProcedure
+    .input(z.object({ email: z.string().trim().email(), role: invitableRoleSchema }))
+    .mutation(async ({ input, ctx }) => {
+      const workspace = await requireManagedWorkspace(ctx.user);
+      const email = input.email.toLowerCase();
+      const members = await db.getWorkspaceMembers(workspace.id);
+      if (members.some((member) => member.email?.toLowerCase() === email)) {
+        throw new TRPCError({ code: "CONFLICT", message: "This person is already a member" });
+      }
+
+      const token = nanoid(32);
+      const expiresAt = new Date();
+      expiresAt.setDate(expiresAt.getDate() + WORKSPACE_INVITATION_DAYS);
+      const { id } = await db.createWorkspaceInvitation({
+        workspaceId: workspace.id,
+        email,
+        role: input.role,
+        token,
+        invitedByUserId: ctx.user.id,
+        expiresAt,
+      });
+      return { id, inviteUrl: buildInviteUrl(token), expiresAt };
+    }),
+
+  revokeInvitation: protectedProcedure
+    .input(z.object({ id: z.number() }))
+    .mutation(async ({ input, ctx }) => {
+      const workspace = await requireManagedWorkspace(ctx.user);
+      const invitation = await db.getWorkspaceInvitationById(input.id);
+      if (!invitation || invitation.workspaceId !== workspace.id) {
+        throw new TRPCError({ code: "NOT_FOUND", message: "Invitation not found" });
+      }
+      await db.deleteWorkspaceInvitation(invitation.id);
+      return { success: true };
+    }),
+
+  /**
+   * Invitation behind a link, shown before accepting it
+   */
+  invitation: protectedProcedure
+    .input(z.object({ token: z.string().min(1) }))
+    .query(async ({ input }) => {
+      const invitation = await db.getWorkspaceInvitationByToken(input.token);
+      if (!invitation || !isInvitationUsable(invitation)) return null;
+      const workspace = await db.getWorkspaceById(invitation.workspaceId);
+      if (!workspace) return null;
+      return { workspaceName: workspace.name, email: invitation.email, role: invitation.role, expiresAt: invitation.expiresAt };
+    }),
+
+  acceptInvitation: protectedProcedure
+    .input(z.object({ token: z.string().min(1) }))
+    .mutation(async ({ input, ctx }) => {
+      const invitation = await db.getWorkspaceInvitationByToken(input.token);
+      if (!invitation || !isInvitationUsable(invitation)) {
+        throw new TRPCError({ code: "NOT_FOUND", message: "This invitation is invalid or has expired" });
+      }
+      if (ctx.user.email && ctx.user.email.toLowerCase() !== invitation.email.toLowerCase()) {
+        throw new TRPCError({
+          code: "FORBIDDEN",
+          message: `This invitation was sent to ${invitation.email}`,
+        });
+      }
+      if (await db.getWorkspaceMembership(invitation.workspaceId, ctx.user.id)) {
+        throw new TRPCError({ code: "CONFLICT", message: "You're already a member of this workspace" });
+      }
+
+      await db.addWorkspaceMember(invitation.workspaceId, ctx.user.id, invitation.role);
+      await db.markWorkspaceInvitationAccepted(invitation.id, ctx.user.id);
+      await db.setActiveWorkspace(ctx.user.id, invitation.workspaceId);
+      return { workspaceId: invitation.workspaceId };
+    }),
+});
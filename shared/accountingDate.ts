@@ -0,0 +1,88 @@
+/**
+ * Income and VAT recognition rules from the company settings.
+ *
+ * - EÜR: income is recognized when payment is received (§ 11 EStG), each
+ *   payment in proportion to the invoice total
+ * - Bilanz: income is recognized when the service is completed (service period
+ *   end, else the issue date); cancellations (§ 17 UStG) when they are issued
+ * - VAT follows the VAT method: Ist-Versteuerung taxes payments received,
+ *   Soll-Versteuerung the service date. Kleinunternehmer (§ 19 UStG) charge no VAT.
+ *
+ * The tax report and the invoice list both use these rules.
+ */
+
+export type AccountingMethod = "EÜR" | "BILANZ";
+export type VatMethod = "IST" | "SOLL";
+
+export interface AccountingSettings {
+  accountingMethod?: string | null;
+  vatMethod?: string | null;
+  isKleinunternehmer?: boolean | null;
+}
+
+/** Defaults to EÜR if nothing is configured */
+export function resolveAccountingMethod(settings: AccountingSettings | null | undefined): AccountingMethod {
+  return settings?.accountingMethod === "BILANZ" ? "BILANZ" : "EÜR";
+}
+
+/**
+ * VAT method for reporting. Kleinunternehmer have none; without an explicit
+ * choice Soll-Versteuerung applies, the statutory default (§ 16 UStG).
+ */
+export function resolveVatMethod(settings: AccountingSettings | null | undefined): VatMethod | null {
+  if (settings?.isKleinunternehmer) return null;
+  return settings?.vatMethod === "IST" ? "IST" : "SOLL";
+}
+
+export interface AccountingInvoice {
+  type?: string | null;
+  issueDate?: Date | string | null;
+  servicePeriodEnd?: Date | string | null;
+  paidAt?: Date | string | null;
+}
+
+/** Part of an invoice's income recognized on a date (1 = the whole invoice) */
+export interface RecognizedShare {
+  date: Date;
+  share: number;
+}
+
+/**
+ * Service date an invoice accrues on (Bilanz, Soll-Versteuerung): the end of
+ * its service period, else its issue date. Cancellations take effect when
+ * they are issued.
+ */
+export function getInvoiceAccrualDate(invoice: AccountingInvoice): Date | null {
+  if (invoice.type !== "cancellation" && invoice.servicePeriodEnd) return new Date(invoice.servicePeriodEnd);
+  return invoice.issueDate ? new Date(invoice.issueDate) : null;
+}
+
+/**
+ * Income received with each payment (EÜR, Ist-Versteuerung), in proportion
+ * to the invoice total
+ */
+export function getInvoicePaymentShares(invoice: {
+  total: number;
+  payments: Array<{ amount: number; paidAt: Date | string }>;
+}): RecognizedShare[] {
+  if (invoice.total <= 0) return [];
+  return invoice.payments.map((payment) => ({
+    date: new Date(payment.paidAt),
+    share: payment.amount / invoice.total,
+  }));
+}
+
+/**
+ * Date an invoice's income is recognized on, null while it isn't recognized
+ * yet. Under EÜR that is the day it was paid in full, when the last payment
+ * share is recognized.
+ */
+export function getInvoiceAccountingDate(
+  invoice: AccountingInvoice,
+  settings: AccountingSettings | null | undefined
+): Date | null {
+  if (resolveAccountingMethod(settings) === "EÜR") {
+    return invoice.paidAt ? new Date(invoice.paidAt) : null;
+  }
+  return getInvoiceAccrualDate(invoice);
+}
@@ -0,0 +1,50 @@
+/**
+ * Bank statement import.
+ *
+ * Statements are imported as individual transactions; each transaction is
+ * reconciled against at most one invoice (incoming payment) or one expense
+ * (outgoing payment).
+ */
+
+export const BANK_STATEMENT_FORMATS = ["camt053", "mt940", "csv"] as const;
+export type BankStatementFormat = (typeof BANK_STATEMENT_FORMATS)[number];
+
+export const BANK_STATEMENT_FORMAT_LABELS: Record<BankStatementFormat, string> = {
+  camt053: "CAMT.053",
+  mt940: "MT940",
+  csv: "CSV",
+};
+
+export const BANK_TRANSACTION_STATUSES = ["unmatched", "matched", "ignored"] as const;
+export type BankTransactionStatus = (typeof BANK_TRANSACTION_STATUSES)[number];
+
+export const BANK_TRANSACTION_STATUS_LABELS: Record<BankTransactionStatus, string> = {
+  unmatched: "Open",
+  matched: "Matched",
+  ignored: "Ignored",
+};
+
+/** Why a transaction was proposed for an invoice or expense */
+export type BankMatchReason = "invoice_number" | "amount" | "partial_amount" | "name" | "date";
+
+export const BANK_MATCH_REASON_LABELS: Record<BankMatchReason, string> = {
+  invoice_number: "Invoice number in purpose",
+  amount: "Amount matches",
+  partial_amount: "Partial payment",
+  name: "Name matches",
+  date: "Date fits",
+};
+
+export interface BankMatchProposal {
+  kind: "invoice" | "expense";
+  id: number;
+  /** Invoice number or supplier name */
+  label: string;
+  /** Counterparty of the invoice or expense (client or supplier) */
+  counterpartyName: string | null;
+  /** Outstanding invoice amount or expense gross amount, always positive */
+  amount: number;
+  /** 0-1, proposals below the match threshold are dropped */
+  score: number;
+  reasons: BankMatchReason[];
+}
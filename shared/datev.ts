@@ -0,0 +1,136 @@
+/**
+ * DATEV export (Buchungsstapel).
+ *
+ * Issued invoices and expenses are exported as bookings for the tax advisor.
+ * Every expense category and revenue type maps to an account of the chosen
+ * chart of accounts (SKR03 or SKR04); users may override single accounts.
+ */
+
+import { EXPENSE_CATEGORIES, EXPENSE_CATEGORY_LABELS } from "./expenseCategories";
+
+export const DATEV_CHARTS = ["SKR03", "SKR04"] as const;
+export type DatevChart = (typeof DATEV_CHARTS)[number];
+
+export const DATEV_REVENUE_ACCOUNT_KEYS = [
+  "revenue_19",
+  "revenue_7",
+  "revenue_zero",
+  "revenue_reverse_charge",
+  "revenue_intra_eu",
+  "revenue_kleinunternehmer",
+] as const;
+
+export const DATEV_BALANCE_ACCOUNT_KEYS = ["debtors", "bank", "cash", "payables"] as const;
+
+export const DATEV_ACCOUNT_KEYS = [
+  ...EXPENSE_CATEGORIES,
+  ...DATEV_REVENUE_ACCOUNT_KEYS,
+  ...DATEV_BALANCE_ACCOUNT_KEYS,
+] as const;
+
+export type DatevAccountKey = (typeof DATEV_ACCOUNT_KEYS)[number];
+export type DatevAccounts = Record<DatevAccountKey, string>;
+
+export const DATEV_ACCOUNT_LABELS: Record<DatevAccountKey, string> = {
+  ...EXPENSE_CATEGORY_LABELS,
+  revenue_19: "Revenue 19 %",
+  revenue_7: "Revenue 7 %",
+  revenue_zero: "Revenue 0 %",
+  revenue_reverse_charge: "Revenue reverse charge (§ 13b)",
+  revenue_intra_eu: "Revenue intra-EU",
+  revenue_kleinunternehmer: "Revenue Kleinunternehmer (§ 19)",
+  debtors: "Debtors (collective account)",
+  bank: "Bank",
+  cash: "Cash",
+  payables: "Payables",
+};
+
+/**
+ * Standard accounts. Revenue accounts are DATEV automatic accounts, so the
+ * output VAT is split off without a tax key.
+ */
+export const DEFAULT_DATEV_ACCOUNTS: Record<DatevChart, DatevAccounts> = {
+  SKR03: {
+    office_supplies: "4930",
+    travel: "4670",
+    meals: "4650",
+    vehicle: "4530",
+    equipment: "4985",
+    software: "4964",
+    insurance: "4360",
+    marketing: "4600",
+    utilities: "4240",
+    rent: "4210",
+    professional_services: "4950",
+    shipping: "4910",
+    training: "4945",
+    subscriptions: "4940",
+    repairs: "4805",
+    taxes_fees: "4390",
+    other: "4900",
+    revenue_19: "8400",
+    revenue_7: "8300",
+    revenue_zero: "8100",
+    revenue_reverse_charge: "8337",
+    revenue_intra_eu: "8125",
+    revenue_kleinunternehmer: "8195",
+    debtors: "10000",
+    bank: "1200",
+    cash: "1000",
+    payables: "1600",
+  },
+  SKR04: {
+    office_supplies: "6815",
+    travel: "6670",
+    meals: "6640",
+    vehicle: "6530",
+    equipment: "6845",
+    software: "6837",
+    insurance: "6400",
+    marketing: "6600",
+    utilities: "6325",
+    rent: "6310",
+    professional_services: "6825",
+    shipping: "6800",
+    training: "6821",
+    subscriptions: "6820",
+    repairs: "6470",
+    taxes_fees: "6430",
+    other: "6300",
+    revenue_19: "4400",
+    revenue_7: "4300",
+    revenue_zero: "4100",
+    revenue_reverse_charge: "4337",
+    revenue_intra_eu: "4125",
+    revenue_kleinunternehmer: "4185",
+    debtors: "10000",
+    bank: "1800",
+    cash: "1600",
+    payables: "3300",
+  },
+};
+
+/** Accounts are 4-digit general ledger or 5-digit personal accounts */
+export const DATEV_ACCOUNT_PATTERN = /^\d{4,5}$/;
+
+export function isDatevChart(value: unknown): value is DatevChart {
+  return typeof value === "string" && (DATEV_CHARTS as readonly string[]).includes(value);
+}
+
+/**
+ * Accounts of the chart with the user's overrides applied. Invalid or empty
+ * overrides fall back to the standard account.
+ */
+export function resolveDatevAccounts(
+  chart: string | null | undefined,
+  overrides?: Partial<Record<string, string>> | null
+): DatevAccounts {
+  const accounts = { ...DEFAULT_DATEV_ACCOUNTS[isDatevChart(chart) ? chart : "SKR03"] };
+  for (const key of DATEV_ACCOUNT_KEYS) {
+    const override = overrides?.[key]?.trim();
+    if (override && DATEV_ACCOUNT_PATTERN.test(override)) {
+      accounts[key] = override;
+    }
+  }
+  return accounts;
+}
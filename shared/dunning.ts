@@ -0,0 +1,229 @@
+/**
+ * Dunning (Mahnwesen) for overdue invoices.
+ *
+ * Three levels run in order: payment reminder, 1st and 2nd Mahnung. The first
+ * level becomes due `waitDays` after the invoice due date, every further level
+ * `waitDays` after the previous notice. Each level may add a fee and statutory
+ * default interest (Verzugszinsen, § 288 BGB) on the outstanding amount.
+ */
+
+export const DUNNING_LEVELS = [1, 2, 3] as const;
+export type DunningLevel = (typeof DUNNING_LEVELS)[number];
+
+export interface DunningLevelConfig {
+  level: DunningLevel;
+  name: string;
+  /** Days after the due date (level 1) or after the previous notice */
+  waitDays: number;
+  /** Fixed fee charged with this notice */
+  fee: number;
+  /** Annual default interest in percent; null charges no interest */
+  interestRate: number | null;
+  /** Days the customer is given to pay after the notice */
+  paymentTermDays: number;
+  /** Letter text printed above the amounts */
+  text: string;
+}
+
+/**
+ * § 288 BGB: base rate (Basiszinssatz, 1.27 % since 07/2025) plus 5 percentage
+ * points for consumers; use base rate + 9 for business customers.
+ */
+export const DEFAULT_DUNNING_INTEREST_RATE = 6.27;
+
+export const DEFAULT_DUNNING_LEVELS: DunningLevelConfig[] = [
+  {
+    level: 1,
+    name: "Zahlungserinnerung",
+    waitDays: 7,
+    fee: 0,
+    interestRate: null,
+    paymentTermDays: 7,
+    text: "sicher haben Sie unsere Rechnung übersehen. Bitte überweisen Sie den offenen Betrag bis zum angegebenen Datum. Sollten Sie die Zahlung bereits veranlasst haben, betrachten Sie dieses Schreiben bitte als gegenstandslos.",
+  },
+  {
+    level: 2,
+    name: "1. Mahnung",
+    waitDays: 14,
+    fee: 5,
+    interestRate: DEFAULT_DUNNING_INTEREST_RATE,
+    paymentTermDays: 7,
+    text: "leider konnten wir bis heute keinen Zahlungseingang feststellen. Bitte begleichen Sie den offenen Betrag einschließlich Mahngebühr und Verzugszinsen bis zum angegebenen Datum.",
+  },
+  {
+    level: 3,
+    name: "2. Mahnung",
+    waitDays: 14,
+    fee: 10,
+    interestRate: DEFAULT_DUNNING_INTEREST_RATE,
+    paymentTermDays: 7,
+    text: "trotz unserer Mahnung ist der Rechnungsbetrag weiterhin offen. Bitte zahlen Sie den Gesamtbetrag bis zum angegebenen Datum. Andernfalls sehen wir uns gezwungen, weitere Schritte einzuleiten.",
+  },
+];
+
+/** Invoice fields needed to decide whether (and how much) to dun */
+export interface DunnableInvoice {
+  sentAt: Date | string | null;
+  paidAt: Date | string | null;
+  cancelledAt: Date | string | null;
+  dueDate: Date | string | null;
+  total: number | string;
+  amountPaid: number | string | null;
+}
+
+/** A previously issued notice */
+export interface DunningNoticeRecord {
+  level: number;
+  issuedAt: Date | string;
+  feeAmount: number | string;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function round2(value: number) {
+  return Math.round((value + Number.EPSILON) * 100) / 100;
+}
+
+function startOfDay(date: Date | string) {
+  const copy = new Date(date);
+  copy.setHours(0, 0, 0, 0);
+  return copy;
+}
+
+function addDays(date: Date | string, days: number) {
+  const copy = startOfDay(date);
+  copy.setDate(copy.getDate() + days);
+  return copy;
+}
+
+function daysBetween(from: Date | string, to: Date | string) {
+  return Math.max(0, Math.round((startOfDay(to).getTime() - startOfDay(from).getTime()) / DAY_MS));
+}
+
+/**
+ * Merge stored level settings over the defaults so all three levels always exist
+ */
+export function resolveDunningLevels(
+  stored: Array<Partial<Omit<DunningLevelConfig, "level">> & { level: number }>
+): DunningLevelConfig[] {
+  return DEFAULT_DUNNING_LEVELS.map((defaults) => {
+    const override = stored.find((entry) => entry.level === defaults.level);
+    if (!override) return defaults;
+    return {
+      level: defaults.level,
+      name: override.name ?? defaults.name,
+      waitDays: override.waitDays ?? defaults.waitDays,
+      fee: override.fee === undefined ? defaults.fee : Number(override.fee),
+      interestRate:
+        override.interestRate === undefined
+          ? defaults.interestRate
+          : override.interestRate === null
+            ? null
+            : Number(override.interestRate),
+      paymentTermDays: override.paymentTermDays ?? defaults.paymentTermDays,
+      text: override.text ?? defaults.text,
+    };
+  });
+}
+
+export function getOutstandingAmount(invoice: Pick<DunnableInvoice, "total" | "amountPaid">): number {
+  return Math.max(0, round2(Number(invoice.total || 0) - Number(invoice.amountPaid || 0)));
+}
+
+/**
+ * An invoice can be dunned once it was sent, is not settled or cancelled and its due date has passed
+ */
+export function isInvoiceOverdue(invoice: DunnableInvoice, now: Date = new Date()): boolean {
+  if (!invoice.sentAt || invoice.paidAt || invoice.cancelledAt || !invoice.dueDate) return false;
+  if (getOutstandingAmount(invoice) <= 0) return false;
+  return startOfDay(invoice.dueDate).getTime() < startOfDay(now).getTime();
+}
+
+export function getDaysOverdue(invoice: Pick<DunnableInvoice, "dueDate">, now: Date = new Date()): number {
+  return invoice.dueDate ? daysBetween(invoice.dueDate, now) : 0;
+}
+
+/**
+ * Simple default interest for the days since the due date (act/365)
+ */
+export function calculateDefaultInterest(principal: number, annualRate: number | null, dueDate: Date | string, until: Date | string) {
+  const days = daysBetween(dueDate, until);
+  if (!annualRate || principal <= 0 || days === 0) {
+    return { days, amount: 0 };
+  }
+  return { days, amount: round2((principal * annualRate * days) / (100 * 365)) };
+}
+
+function getLatestNotice(history: DunningNoticeRecord[]) {
+  return history.reduce<DunningNoticeRecord | null>(
+    (latest, notice) => (!latest || notice.level > latest.level ? notice : latest),
+    null
+  );
+}
+
+export interface NextDunningStep {
+  level: DunningLevelConfig;
+  /** Date from which the step may be sent */
+  dueAt: Date;
+  isDue: boolean;
+}
+
+/**
+ * Next level for an overdue invoice, or null when it is not overdue or all levels were sent
+ */
+export function getNextDunningStep(
+  invoice: DunnableInvoice,
+  history: DunningNoticeRecord[],
+  levels: DunningLevelConfig[],
+  now: Date = new Date()
+): NextDunningStep | null {
+  if (!isInvoiceOverdue(invoice, now)) return null;
+
+  const latest = getLatestNotice(history);
+  const level = levels.find((candidate) => candidate.level === (latest ? latest.level + 1 : 1));
+  if (!level) return null;
+
+  const dueAt = addDays(latest ? latest.issuedAt : invoice.dueDate!, level.waitDays);
+  return { level, dueAt, isDue: dueAt.getTime() <= startOfDay(now).getTime() };
+}
+
+export interface DunningAmounts {
+  outstandingAmount: number;
+  /** Fees of earlier notices that are still owed */
+  previousFees: number;
+  feeAmount: number;
+  interestRate: number | null;
+  interestDays: number;
+  interestAmount: number;
+  totalDue: number;
+  paymentDeadline: Date;
+}
+
+/**
+ * Amounts printed on a notice. Interest runs on the outstanding invoice amount only, never on fees.
+ */
+export function calculateDunningAmounts(
+  invoice: DunnableInvoice,
+  history: DunningNoticeRecord[],
+  level: DunningLevelConfig,
+  issuedAt: Date = new Date()
+): DunningAmounts {
+  const outstandingAmount = getOutstandingAmount(invoice);
+  const previousFees = round2(
+    history.filter((notice) => notice.level < level.level).reduce((sum, notice) => sum + Number(notice.feeAmount || 0), 0)
+  );
+  const interest = invoice.dueDate
+    ? calculateDefaultInterest(outstandingAmount, level.interestRate, invoice.dueDate, issuedAt)
+    : { days: 0, amount: 0 };
+
+  return {
+    outstandingAmount,
+    previousFees,
+    feeAmount: round2(level.fee),
+    interestRate: level.interestRate,
+    interestDays: interest.days,
+    interestAmount: interest.amount,
+    totalDue: round2(outstandingAmount + previousFees + level.fee + interest.amount),
+    paymentDeadline: addDays(issuedAt, level.paymentTermDays),
+  };
+}
@@ -0,0 +1,132 @@
+/**
+ * Foreign-currency expenses.
+ *
+ * Expenses keep their receipt amount in the receipt currency and store the
+ * EUR amount next to it. Rates are ECB reference rates (units of the currency
+ * per 1 EUR) for the expense date, or a rate entered by hand. Reports and
+ * exports only use the EUR amount.
+ */
+
+import type { SplittableExpense } from "./expenseSplits";
+
+export const BASE_CURRENCY = "EUR";
+
+export const EXCHANGE_RATE_SOURCES = ["ecb", "manual"] as const;
+export type ExchangeRateSource = (typeof EXCHANGE_RATE_SOURCES)[number];
+
+/**
+ * ECB rates are published on TARGET working days only; a rate up to this many
+ * days older than the expense date covers weekends and holidays
+ */
+export const MAX_EXCHANGE_RATE_AGE_DAYS = 7;
+
+/** Calendar day of a date as YYYY-MM-DD (local time), the key of stored rates */
+export function toRateDate(date: Date): string {
+  const month = String(date.getMonth() + 1).padStart(2, "0");
+  const day = String(date.getDate()).padStart(2, "0");
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+/** EUR cents for an amount in a currency quoted per 1 EUR */
+export function convertToEurCents(amountCents: number, rate: number): number {
+  return Math.round(amountCents / rate);
+}
+
+export interface EurConversion {
+  grossAmountEurCents: number | null;
+  /** Decimal string as stored, units of the currency per 1 EUR */
+  exchangeRate: string | null;
+  exchangeRateDate: string | null;
+  exchangeRateSource: ExchangeRateSource | null;
+}
+
+/**
+ * EUR amount of an expense: EUR expenses convert 1:1, a manual rate wins over
+ * the ECB rate, and without either the EUR amount stays empty
+ */
+export function resolveEurConversion(
+  expense: {
+    currency: string;
+    grossAmountCents: number;
+    exchangeRate: string | null;
+    exchangeRateSource: ExchangeRateSource | null;
+    exchangeRateDate: string | null;
+  },
+  ecbRate: { rate: string; rateDate: string } | null
+): EurConversion {
+  if (expense.currency === BASE_CURRENCY) {
+    return {
+      grossAmountEurCents: expense.grossAmountCents,
+      exchangeRate: null,
+      exchangeRateDate: null,
+      exchangeRateSource: null,
+    };
+  }
+  if (expense.exchangeRateSource === "manual" && expense.exchangeRate && Number(expense.exchangeRate) > 0) {
+    return {
+      grossAmountEurCents: convertToEurCents(expense.grossAmountCents, Number(expense.exchangeRate)),
+      exchangeRate: expense.exchangeRate,
+      exchangeRateDate: expense.exchangeRateDate,
+      exchangeRateSource: "manual",
+    };
+  }
+  if (ecbRate && Number(ecbRate.rate) > 0) {
+    return {
+      grossAmountEurCents: convertToEurCents(expense.grossAmountCents, Number(ecbRate.rate)),
+      exchangeRate: ecbRate.rate,
+      exchangeRateDate: ecbRate.rateDate,
+      exchangeRateSource: "ecb",
+    };
+  }
+  return { grossAmountEurCents: null, exchangeRate: null, exchangeRateDate: null, exchangeRateSource: null };
+}
+
+export interface ConvertibleExpense extends SplittableExpense {
+  currency: string;
+  grossAmountEurCents?: number | null;
+}
+
+/**
+ * Accounting view of an expense in EUR: the gross amount, stored VAT and
+ * split lines are scaled to the EUR amount. Splits keep adding up exactly;
+ * the rounding difference goes to the largest line. Expenses without an EUR
+ * amount are returned unchanged; check them with isUnconvertedExpense.
+ */
+export function toEurExpense<T extends ConvertibleExpense>(expense: T): T {
+  const eurCents = expense.grossAmountEurCents;
+  if (expense.currency === BASE_CURRENCY || eurCents === null || eurCents === undefined) {
+    return expense;
+  }
+
+  const factor = expense.grossAmountCents === 0 ? 0 : eurCents / expense.grossAmountCents;
+  let splits = expense.splits;
+  if (splits && splits.length > 0) {
+    const scaled = splits.map((split) => ({ ...split, grossAmountCents: Math.round(split.grossAmountCents * factor) }));
+    const difference = eurCents - scaled.reduce((sum, split) => sum + split.grossAmountCents, 0);
+    const largest = scaled.reduce(
+      (max, split, index) => (Math.abs(split.grossAmountCents) > Math.abs(scaled[max].grossAmountCents) ? index : max),
+      0
+    );
+    scaled[largest].grossAmountCents += difference;
+    splits = scaled;
+  }
+
+  return {
+    ...expense,
+    grossAmountCents: eurCents,
+    currency: BASE_CURRENCY,
+    vatAmountCents:
+      expense.vatAmountCents === null || expense.vatAmountCents === undefined
+        ? expense.vatAmountCents
+        : Math.round(expense.vatAmountCents * factor),
+    splits,
+  };
+}
+
+/**
+ * Foreign-currency expense still without an EUR amount. Its amounts are in the
+ * receipt currency, so it has to stay out of EUR totals until the rate is known.
+ */
+export function isUnconvertedExpense(expense: Pick<ConvertibleExpense, "currency" | "grossAmountEurCents">): boolean {
+  return expense.currency !== BASE_CURRENCY && (expense.grossAmountEurCents === null || expense.grossAmountEurCents === undefined);
+}
@@ -0,0 +1,108 @@
+/**
+ * Expense approval workflow
+ *
+ * The owner of an expense submits it to a reviewer, who approves it (the
+ * expense moves to in_order) or rejects it with a reason (it stays in
+ * needs_review and can be fixed and submitted again). Every status change is
+ * recorded as an expense event. Only admins and owners booking their own
+ * expenses may mark an expense in order without an approval.
+ */
+
+export const EXPENSE_APPROVAL_STATUSES = ["none", "submitted", "approved", "rejected"] as const;
+export type ExpenseApprovalStatus = (typeof EXPENSE_APPROVAL_STATUSES)[number];
+
+export const EXPENSE_EVENT_ACTIONS = [
+  "submitted",
+  "reviewer_changed",
+  "approved",
+  "rejected",
+  "status_changed",
+] as const;
+export type ExpenseEventAction = (typeof EXPENSE_EVENT_ACTIONS)[number];
+
+export type ExpenseApprovalAction = "submit" | "assign" | "approve" | "reject";
+
+export const MAX_EXPENSE_COMMENT_LENGTH = 2000;
+
+export interface ApprovableExpense {
+  status: "needs_review" | "in_order" | "void";
+  approvalStatus: ExpenseApprovalStatus;
+  createdBy: number;
+  approverUserId: number | null;
+}
+
+export interface ApprovalActor {
+  id: number;
+  role: string;
+}
+
+/**
+ * Why `actor` may not take `action` on the expense, or null when allowed.
+ * `reviewerId` is the reviewer chosen for submit and assign.
+ */
+export function getApprovalError(
+  expense: ApprovableExpense,
+  action: ExpenseApprovalAction,
+  actor: ApprovalActor,
+  reviewerId?: number
+): string | null {
+  const isOwner = expense.createdBy === actor.id;
+  const isAdmin = actor.role === "admin";
+
+  if (expense.status === "void") return "Void expenses can't be approved";
+
+  switch (action) {
+    case "submit":
+    case "assign":
+      if (!isOwner && !isAdmin) return "Only the owner of an expense can submit it";
+      if (action === "submit" && expense.status !== "needs_review") return "Only expenses in review can be submitted";
+      if (action === "submit" && expense.approvalStatus === "submitted") return "The expense is already waiting for approval";
+      if (action === "assign" && expense.approvalStatus !== "submitted") return "The expense hasn't been submitted";
+      if (reviewerId === undefined) return "Choose a reviewer";
+      if (reviewerId === expense.createdBy) return "You can't review your own expenses";
+      return null;
+
+    case "approve":
+    case "reject":
+      if (expense.approvalStatus !== "submitted") return "The expense isn't waiting for approval";
+      if (isOwner) return "You can't review your own expenses";
+      if (!isAdmin && expense.approverUserId !== actor.id) return "The expense is assigned to another reviewer";
+      return null;
+  }
+}
+
+/**
+ * Why `actor` may not mark the expense as in order directly, or null when
+ * allowed. Expenses need an approval first; only admins and owners who may
+ * book their own expenses (`canSelfApprove`, i.e. not working as an employee
+ * in a team workspace) can skip it. Expenses waiting for a decision or
+ * rejected can't be marked in order by anyone.
+ */
+export function getInOrderError(
+  expense: ApprovableExpense,
+  actor: ApprovalActor,
+  canSelfApprove: boolean
+): string | null {
+  switch (expense.approvalStatus) {
+    case "approved":
+      return null;
+    case "submitted":
+      return "The expense is waiting for approval by its reviewer";
+    case "rejected":
+      return "The expense was rejected. Fix it and submit it for approval again";
+    case "none":
+      if (actor.role === "admin" || (expense.createdBy === actor.id && canSelfApprove)) return null;
+      return "Submit the expense for approval first";
+  }
+}
+
+/**
+ * Whether the user may read an expense and its comments: the owner, the
+ * assigned reviewer and admins
+ */
+export function canViewExpense(
+  expense: Pick<ApprovableExpense, "createdBy" | "approverUserId">,
+  actor: ApprovalActor
+): boolean {
+  return actor.role === "admin" || expense.createdBy === actor.id || expense.approverUserId === actor.id;
+}
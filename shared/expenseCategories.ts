@@ -0,0 +1,45 @@
+/**
+ * Expense categories (expenses.category enum)
+ */
+
+export const EXPENSE_CATEGORIES = [
+  "office_supplies",
+  "travel",
+  "meals",
+  "vehicle",
+  "equipment",
+  "software",
+  "insurance",
+  "marketing",
+  "utilities",
+  "rent",
+  "professional_services",
+  "shipping",
+  "training",
+  "subscriptions",
+  "repairs",
+  "taxes_fees",
+  "other",
+] as const;
+
+export type ExpenseCategory = (typeof EXPENSE_CATEGORIES)[number];
+
+export const EXPENSE_CATEGORY_LABELS: Record<ExpenseCategory, string> = {
+  office_supplies: "Office Supplies",
+  travel: "Travel",
+  meals: "Food & Drinks",
+  vehicle: "Vehicle",
+  equipment: "Equipment",
+  software: "Software",
+  insurance: "Insurance",
+  marketing: "Marketing",
+  utilities: "Utilities",
+  rent: "Rent",
+  professional_services: "Professional Services",
+  shipping: "Shipping",
+  training: "Training",
+  subscriptions: "Subscriptions",
+  repairs: "Repairs",
+  taxes_fees: "Taxes & Fees",
+  other: "Other",
+};
@@ -0,0 +1,128 @@
+/**
+ * Expense line splits.
+ *
+ * A receipt can be split into lines with their own amount, category, VAT
+ * rate, project and business use. Split lines replace the expense's own
+ * accounting fields in reports and exports; an expense without splits is
+ * treated as a single line.
+ */
+
+import type { ExpenseCategory } from "./expenseCategories";
+
+export type ExpenseVatRate = "0" | "7" | "19";
+
+/**
+ * VAT treatment of a receipt: German VAT (deductible), foreign VAT (not
+ * deductible), none, or reverse charge (§ 13b UStG) - the receipt shows the
+ * net amount and the recipient owes the VAT, which is deductible again
+ */
+export const EXPENSE_VAT_MODES = ["none", "german", "foreign", "reverse_charge"] as const;
+export type ExpenseVatMode = (typeof EXPENSE_VAT_MODES)[number];
+
+export const MAX_EXPENSE_SPLITS = 20;
+
+export interface ExpenseSplitLine {
+  grossAmountCents: number;
+  category: ExpenseCategory;
+  vatRate: ExpenseVatRate | null;
+  projectId: number | null;
+  businessUsePct: number;
+  description?: string | null;
+}
+
+/** Accounting view of an expense or one of its splits */
+export interface ExpenseAccountingLine {
+  grossAmountCents: number;
+  category: ExpenseCategory | null;
+  vatRate: ExpenseVatRate | null;
+  /** Stored VAT amount; only expenses without splits have one */
+  vatAmountCents: number | null;
+  businessUsePct: number;
+  projectId: number | null;
+}
+
+export interface SplittableExpense {
+  grossAmountCents: number;
+  category?: ExpenseCategory | null;
+  vatRate: ExpenseVatRate | null;
+  vatAmountCents?: number | null;
+  businessUsePct: number;
+  projectId?: number | null;
+  splits?: ExpenseSplitLine[] | null;
+}
+
+export function sumExpenseSplits(splits: Array<Pick<ExpenseSplitLine, "grossAmountCents">>): number {
+  return splits.reduce((sum, split) => sum + split.grossAmountCents, 0);
+}
+
+/**
+ * Problem with the splits of an expense, or null if they are valid. No
+ * splits at all is valid; otherwise they have to add up to the gross amount.
+ */
+export function validateExpenseSplits(grossAmountCents: number, splits: ExpenseSplitLine[]): string | null {
+  if (splits.length === 0) return null;
+  if (splits.length > MAX_EXPENSE_SPLITS) {
+    return `An expense can have at most ${MAX_EXPENSE_SPLITS} splits`;
+  }
+  if (splits.some((split) => split.grossAmountCents === 0)) {
+    return "Every split needs an amount";
+  }
+  const total = sumExpenseSplits(splits);
+  if (total !== grossAmountCents) {
+    const difference = ((grossAmountCents - total) / 100).toFixed(2);
+    return `The splits add up to ${(total / 100).toFixed(2)} instead of ${(grossAmountCents / 100).toFixed(2)} (difference ${difference})`;
+  }
+  return null;
+}
+
+export function getExpenseAccountingLines(expense: SplittableExpense): ExpenseAccountingLine[] {
+  if (expense.splits && expense.splits.length > 0) {
+    return expense.splits.map((split) => ({
+      grossAmountCents: split.grossAmountCents,
+      category: split.category,
+      vatRate: split.vatRate,
+      vatAmountCents: null,
+      businessUsePct: split.businessUsePct,
+      // Lines without their own project belong to the expense's project
+      projectId: split.projectId ?? expense.projectId ?? null,
+    }));
+  }
+  return [
+    {
+      grossAmountCents: expense.grossAmountCents,
+      category: expense.category ?? null,
+      vatRate: expense.vatRate,
+      vatAmountCents: expense.vatAmountCents ?? null,
+      businessUsePct: expense.businessUsePct,
+      projectId: expense.projectId ?? null,
+    },
+  ];
+}
+
+/**
+ * Business share of a line's gross amount and deductible input VAT, in
+ * cents and unrounded. German VAT is deductible; under reverse charge the
+ * line amount is net, the VAT owed is added to the gross amount and
+ * deducted again. `reverseChargeVatCents` is the VAT owed in full,
+ * independent of the business share.
+ */
+export function getExpenseLineAmounts(
+  line: ExpenseAccountingLine,
+  vatMode: ExpenseVatMode
+): { grossCents: number; vatCents: number; reverseChargeVatCents: number } {
+  const share = line.businessUsePct / 100;
+  const rate = Number(line.vatRate ?? 0);
+  if (vatMode === "reverse_charge") {
+    const owedCents = line.vatAmountCents ?? Math.round((line.grossAmountCents * rate) / 100);
+    return {
+      grossCents: (line.grossAmountCents + owedCents) * share,
+      vatCents: owedCents * share,
+      reverseChargeVatCents: owedCents,
+    };
+  }
+  let vatCents = 0;
+  if (vatMode === "german") {
+    vatCents = line.vatAmountCents ?? Math.round((line.grossAmountCents * rate) / (100 + rate));
+  }
+  return { grossCents: line.grossAmountCents * share, vatCents: vatCents * share, reverseChargeVatCents: 0 };
+}
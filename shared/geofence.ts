@@ -0,0 +1,71 @@
+/**
+ * Project geofences
+ *
+ * A circle around a project's site (`projects.geo`). Check-ins and
+ * check-outs made outside it are flagged, and the client reminds users to
+ * check in or out when they enter or leave it.
+ */
+
+import { straightLineDistanceKm, type GeoPoint } from "./mileage";
+
+export const DEFAULT_GEOFENCE_RADIUS_METERS = 200;
+export const MIN_GEOFENCE_RADIUS_METERS = 25;
+export const MAX_GEOFENCE_RADIUS_METERS = 5000;
+
+/** GPS inaccuracy credited to a position at most, so a vague fix can't excuse any distance */
+const MAX_ACCURACY_TOLERANCE_METERS = 100;
+
+export interface GeofencePosition extends GeoPoint {
+  /** Accuracy radius reported by the device in meters */
+  accuracy?: number | null;
+}
+
+export function getGeofenceRadius(radiusMeters: number | null | undefined): number {
+  return radiusMeters ?? DEFAULT_GEOFENCE_RADIUS_METERS;
+}
+
+export function distanceMeters(from: GeoPoint, to: GeoPoint): number {
+  return Math.round(straightLineDistanceKm(from, to) * 1000);
+}
+
+/**
+ * Distance of a position to the site and whether it's clearly outside the
+ * radius, giving the position the benefit of its reported accuracy
+ */
+export function checkGeofence(
+  site: GeoPoint,
+  position: GeofencePosition,
+  radiusMeters: number
+): { distanceMeters: number; outside: boolean } {
+  const distance = distanceMeters(site, position);
+  const tolerance = Math.min(Math.max(position.accuracy ?? 0, 0), MAX_ACCURACY_TOLERANCE_METERS);
+  return { distanceMeters: distance, outside: distance - tolerance > radiusMeters };
+}
+
+export type GeofenceState = "inside" | "outside";
+
+/**
+ * State after a new position. Leaving needs a margin beyond the radius so a
+ * position jittering around the edge doesn't prompt over and over; fixes
+ * too vague to tell keep the previous state.
+ */
+export function nextGeofenceState(
+  previous: GeofenceState | null,
+  distance: number,
+  radiusMeters: number,
+  accuracy?: number | null
+): GeofenceState | null {
+  if (accuracy && accuracy > Math.max(radiusMeters, MAX_ACCURACY_TOLERANCE_METERS)) return previous;
+  if (distance <= radiusMeters) return "inside";
+  const margin = Math.max(MIN_GEOFENCE_RADIUS_METERS, radiusMeters * 0.2);
+  if (distance > radiusMeters + margin) return "outside";
+  return previous ?? "outside";
+}
+
+/**
+ * Distance for display, e.g. 80 m or 1.3 km
+ */
+export function formatDistance(meters: number): string {
+  if (meters < 1000) return `${meters} m`;
+  return `${(meters / 1000).toLocaleString("de-DE", { maximumFractionDigits: 1 })} km`;
+}
@@ -0,0 +1,93 @@
+/**
+ * Invoice payment ledger.
+ *
+ * Every incoming payment is stored as its own row. The invoice columns
+ * amountPaid, lastPaymentAt and paidAt are a cache derived from those rows:
+ * an invoice counts as paid on the date of the payment that settled it.
+ */
+
+export const INVOICE_PAYMENT_METHODS = [
+  "bank_transfer",
+  "cash",
+  "card",
+  "paypal",
+  "direct_debit",
+  "other",
+] as const;
+export type InvoicePaymentMethod = (typeof INVOICE_PAYMENT_METHODS)[number];
+
+export const INVOICE_PAYMENT_METHOD_LABELS: Record<InvoicePaymentMethod, string> = {
+  bank_transfer: "Bank transfer",
+  cash: "Cash",
+  card: "Card",
+  paypal: "PayPal",
+  direct_debit: "Direct debit",
+  other: "Other",
+};
+
+/**
+ * Where a payment came from: entered by hand, booked by "Mark as paid" for
+ * the outstanding amount, or matched from a bank import
+ */
+export const INVOICE_PAYMENT_SOURCES = ["manual", "mark_as_paid", "bank_import"] as const;
+export type InvoicePaymentSource = (typeof INVOICE_PAYMENT_SOURCES)[number];
+
+/** Payment fields needed to derive the invoice totals */
+export interface InvoicePaymentRecord {
+  id: number;
+  amount: number | string;
+  paidAt: Date | string;
+}
+
+export interface InvoicePaymentSummary {
+  amountPaid: number;
+  lastPaymentAt: Date | null;
+  /** Date of the payment that settled the invoice, null while an amount is outstanding */
+  paidAt: Date | null;
+}
+
+function round2(value: number) {
+  return Math.round((value + Number.EPSILON) * 100) / 100;
+}
+
+/**
+ * Payments in booking order: by payment date, then by id
+ */
+export function sortInvoicePayments<T extends InvoicePaymentRecord>(payments: T[]): T[] {
+  return [...payments].sort(
+    (a, b) => new Date(a.paidAt).getTime() - new Date(b.paidAt).getTime() || a.id - b.id
+  );
+}
+
+export function summarizeInvoicePayments(
+  total: number | string,
+  payments: InvoicePaymentRecord[]
+): InvoicePaymentSummary {
+  const invoiceTotal = round2(Number(total || 0));
+  let amountPaid = 0;
+  let paidAt: Date | null = null;
+  let lastPaymentAt: Date | null = null;
+
+  for (const payment of sortInvoicePayments(payments)) {
+    amountPaid = round2(amountPaid + Number(payment.amount || 0));
+    lastPaymentAt = new Date(payment.paidAt);
+    if (!paidAt && amountPaid >= invoiceTotal && amountPaid > 0) {
+      paidAt = lastPaymentAt;
+    }
+  }
+
+  return { amountPaid, lastPaymentAt, paidAt: amountPaid >= invoiceTotal ? paidAt : null };
+}
+
+/**
+ * Payment "Mark as not paid" may remove: the settling payment, if "Mark as
+ * paid" booked it. Payments entered by hand or imported from the bank are
+ * never removed that way, so null is returned for those.
+ */
+export function findMarkedAsPaidPayment<T extends InvoicePaymentRecord & { source: InvoicePaymentSource }>(
+  payments: T[]
+): T | null {
+  const sorted = sortInvoicePayments(payments);
+  const settling = sorted[sorted.length - 1];
+  return settling?.source === "mark_as_paid" ? settling : null;
+}
@@ -0,0 +1,155 @@
+/**
+ * Per-line VAT for invoices.
+ *
+ * Each invoice line carries a VAT category and rate. Totals are computed per
+ * (category, rate) group - VAT is rounded once per group, as German invoices
+ * show it in the VAT breakdown - and summed afterwards.
+ */
+
+export const INVOICE_VAT_CATEGORIES = ["standard", "zero", "reverse_charge", "intra_eu"] as const;
+
+export type InvoiceVatCategory = (typeof INVOICE_VAT_CATEGORIES)[number];
+
+export interface InvoiceVatOption {
+  value: string;
+  label: string;
+  category: InvoiceVatCategory;
+  rate: number;
+}
+
+/** Options offered per line item (values are stable identifiers for selects) */
+export const INVOICE_VAT_OPTIONS: InvoiceVatOption[] = [
+  { value: "19", label: "19 %", category: "standard", rate: 19 },
+  { value: "7", label: "7 %", category: "standard", rate: 7 },
+  { value: "0", label: "0 %", category: "zero", rate: 0 },
+  { value: "reverse_charge", label: "Reverse charge (§ 13b)", category: "reverse_charge", rate: 0 },
+  { value: "intra_eu", label: "Intra-EU exempt", category: "intra_eu", rate: 0 },
+];
+
+/** Legal notes printed on the invoice when a line uses a non-taxed category */
+export const INVOICE_VAT_CATEGORY_NOTES: Partial<Record<InvoiceVatCategory, string>> = {
+  reverse_charge: "Steuerschuldnerschaft des Leistungsempfängers (§ 13b UStG)",
+  intra_eu: "Steuerfreie innergemeinschaftliche Lieferung (§ 4 Nr. 1b i.V.m. § 6a UStG)",
+};
+
+export interface VatLineInput {
+  lineTotal: number;
+  vatRate?: number | null;
+  vatCategory?: InvoiceVatCategory | null;
+}
+
+export interface VatBreakdownEntry {
+  category: InvoiceVatCategory;
+  rate: number;
+  netAmount: number;
+  vatAmount: number;
+}
+
+export interface VatCalculationOptions {
+  /** Company default rate used for legacy lines without a stored rate */
+  defaultRate: number;
+  /** § 19 UStG: no VAT is charged on any line */
+  isKleinunternehmer?: boolean;
+}
+
+function round2(value: number) {
+  const rounded = Math.round((Math.abs(value) + Number.EPSILON) * 100) / 100;
+  return value < 0 ? -rounded : rounded;
+}
+
+/**
+ * Resolve the category and rate that apply to a line.
+ * Only the standard category is taxed; every other category is charged at 0 %.
+ */
+export function resolveLineVat(
+  line: Pick<VatLineInput, "vatRate" | "vatCategory">,
+  defaultRate: number
+): { category: InvoiceVatCategory; rate: number } {
+  const category = line.vatCategory ?? "standard";
+  if (category !== "standard") {
+    return { category, rate: 0 };
+  }
+  const rate = line.vatRate ?? defaultRate;
+  return { category: rate === 0 ? "zero" : "standard", rate };
+}
+
+/** Select value for a stored line (falls back to the company default rate) */
+export function getInvoiceVatOptionValue(
+  line: Pick<VatLineInput, "vatRate" | "vatCategory">,
+  defaultRate: number
+): string {
+  const { category, rate } = resolveLineVat(line, defaultRate);
+  return category === "standard" ? String(rate) : category === "zero" ? "0" : category;
+}
+
+export function parseInvoiceVatOption(value: string): { vatCategory: InvoiceVatCategory; vatRate: number } {
+  const option = INVOICE_VAT_OPTIONS.find((candidate) => candidate.value === value);
+  if (option) {
+    return { vatCategory: option.category, vatRate: option.rate };
+  }
+  const rate = Number(value);
+  return Number.isFinite(rate) && rate > 0
+    ? { vatCategory: "standard", vatRate: rate }
+    : { vatCategory: "zero", vatRate: 0 };
+}
+
+export function formatVatLabel(category: InvoiceVatCategory, rate: number): string {
+  if (category === "reverse_charge") return "RC";
+  if (category === "intra_eu") return "0 % (igL)";
+  return `${rate} %`;
+}
+
+/**
+ * Group lines by (category, rate). Kleinunternehmer invoices have no VAT
+ * breakdown at all; the § 19 notice replaces it.
+ */
+export function calculateVatBreakdown(lines: VatLineInput[], options: VatCalculationOptions): VatBreakdownEntry[] {
+  if (options.isKleinunternehmer) return [];
+
+  const groups = new Map<string, VatBreakdownEntry>();
+  for (const line of lines) {
+    const { category, rate } = resolveLineVat(line, options.defaultRate);
+    const key = `${category}:${rate}`;
+    const entry = groups.get(key) ?? { category, rate, netAmount: 0, vatAmount: 0 };
+    entry.netAmount += Number(line.lineTotal) || 0;
+    groups.set(key, entry);
+  }
+
+  return Array.from(groups.values())
+    .map((entry) => {
+      const netAmount = round2(entry.netAmount);
+      return { ...entry, netAmount, vatAmount: round2((netAmount * entry.rate) / 100) };
+    })
+    .sort((a, b) => b.rate - a.rate || INVOICE_VAT_CATEGORIES.indexOf(a.category) - INVOICE_VAT_CATEGORIES.indexOf(b.category));
+}
+
+export function calculateInvoiceTotals(lines: VatLineInput[], options: VatCalculationOptions) {
+  const subtotal = round2(lines.reduce((sum, line) => sum + (Number(line.lineTotal) || 0), 0));
+  const breakdown = calculateVatBreakdown(lines, options);
+  const vatAmount = round2(breakdown.reduce((sum, entry) => sum + entry.vatAmount, 0));
+  return {
+    subtotal,
+    vatAmount,
+    total: round2(subtotal + vatAmount),
+    breakdown,
+  };
+}
+
+/**
+ * VAT breakdown of a stored invoice. Uploaded invoices have no lines; their
+ * single group is inferred from the stored subtotal and VAT amount.
+ */
+export function calculateStoredInvoiceVatBreakdown(
+  invoice: { items: VatLineInput[]; subtotal: number; vatAmount: number },
+  options: VatCalculationOptions
+): VatBreakdownEntry[] {
+  if (invoice.items.length > 0 || options.isKleinunternehmer) {
+    return calculateVatBreakdown(invoice.items, options);
+  }
+  if (invoice.subtotal === 0 && invoice.vatAmount === 0) return [];
+  if (invoice.vatAmount === 0) {
+    return [{ category: "zero", rate: 0, netAmount: round2(invoice.subtotal), vatAmount: 0 }];
+  }
+  const rate = invoice.subtotal !== 0 ? Math.round((invoice.vatAmount / invoice.subtotal) * 100) : options.defaultRate;
+  return [{ category: "standard", rate, netAmount: round2(invoice.subtotal), vatAmount: round2(invoice.vatAmount) }];
+}
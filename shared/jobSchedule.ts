@@ -0,0 +1,210 @@
+/**
+ * Job scheduling for the project timeline (Gantt).
+ *
+ * Jobs are planned in whole days: a job runs from the day of its start time
+ * through the day of its end time. Rescheduling moves a job by whole days and
+ * keeps its times of day. Dependencies are finish-to-start, so a
+ * successor starts the day after its predecessor's last day at the earliest.
+ * Moving a job pushes later jobs that depend on it, and assigned users
+ * working on overlapping jobs are double-booked.
+ */
+
+import { addDays, startOfDay } from "./recurringInvoice";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Statuses whose jobs no longer occupy their assigned users */
+const INACTIVE_JOB_STATUSES = ["done", "cancelled"];
+
+export interface SchedulableJob {
+  id: number;
+  startTime: Date | string | null;
+  endTime: Date | string | null;
+}
+
+export interface StaffedJob extends SchedulableJob {
+  assignedUsers: number[] | null;
+  status: string;
+}
+
+export interface JobDependencyLink {
+  predecessorJobId: number;
+  successorJobId: number;
+}
+
+/** First and last day of a job, both at local midnight */
+export interface JobDays {
+  start: Date;
+  end: Date;
+}
+
+export interface JobScheduleChange {
+  jobId: number;
+  startTime: Date;
+  endTime: Date;
+}
+
+export interface AssignmentConflict {
+  userId: number;
+  jobId: number;
+  otherJobId: number;
+}
+
+/**
+ * Whole days from one date to another, safe across daylight saving changes
+ */
+export function daysBetween(from: Date | string, to: Date | string): number {
+  return Math.round((startOfDay(to).getTime() - startOfDay(from).getTime()) / DAY_MS);
+}
+
+/**
+ * Days a job occupies; null for jobs without any date. A job with only one
+ * of its dates set lasts that single day.
+ */
+export function getJobDays(job: Pick<SchedulableJob, "startTime" | "endTime">): JobDays | null {
+  const startValue = job.startTime ?? job.endTime;
+  const endValue = job.endTime ?? job.startTime;
+  if (!startValue || !endValue) return null;
+  const start = startOfDay(startValue);
+  const end = startOfDay(endValue);
+  return { start, end: end.getTime() < start.getTime() ? start : end };
+}
+
+const shiftDays = (days: JobDays, count: number): JobDays => ({
+  start: addDays(days.start, count),
+  end: addDays(days.end, count),
+});
+
+/** The same time of day, `count` days later */
+const shiftTime = (date: Date | string, count: number) => {
+  const copy = new Date(date);
+  copy.setDate(copy.getDate() + count);
+  return copy;
+};
+
+/**
+ * Whether linking the two jobs would make a job (indirectly) wait for itself
+ */
+export function wouldCreateCycle(
+  links: JobDependencyLink[],
+  predecessorJobId: number,
+  successorJobId: number
+): boolean {
+  if (predecessorJobId === successorJobId) return true;
+  const visited = new Set<number>();
+  const queue = [successorJobId];
+  while (queue.length > 0) {
+    const current = queue.shift()!;
+    if (current === predecessorJobId) return true;
+    if (visited.has(current)) continue;
+    visited.add(current);
+    for (const link of links) {
+      if (link.predecessorJobId === current) queue.push(link.successorJobId);
+    }
+  }
+  return false;
+}
+
+/**
+ * Move a job to new days and push every job depending on it, directly or
+ * indirectly, far enough to start after its predecessors. A job moved before
+ * one of its own predecessors ends is placed right after it instead. Jobs are
+ * only pushed later, never pulled earlier. The links must be acyclic.
+ *
+ * Only the days of `startTime` and `endTime` count: every job keeps its times
+ * of day, its start and end moving by whole days. Returns the new times of
+ * the moved job and of every job that had to shift.
+ */
+export function rescheduleJob(
+  jobs: SchedulableJob[],
+  links: JobDependencyLink[],
+  jobId: number,
+  startTime: Date | string,
+  endTime: Date | string
+): JobScheduleChange[] {
+  const days = new Map<number, JobDays>();
+  for (const job of jobs) {
+    const jobDays = getJobDays(job);
+    if (jobDays) days.set(job.id, jobDays);
+  }
+  const originalDays = new Map(days);
+
+  let moved = getJobDays({ startTime, endTime })!;
+  for (const link of links) {
+    if (link.successorJobId !== jobId) continue;
+    const predecessor = days.get(link.predecessorJobId);
+    if (!predecessor) continue;
+    const delay = daysBetween(moved.start, addDays(predecessor.end, 1));
+    if (delay > 0) moved = shiftDays(moved, delay);
+  }
+  days.set(jobId, moved);
+
+  const changed = new Set([jobId]);
+  const queue = [jobId];
+  while (queue.length > 0) {
+    const currentId = queue.shift()!;
+    const current = days.get(currentId)!;
+    for (const link of links) {
+      if (link.predecessorJobId !== currentId) continue;
+      const successor = days.get(link.successorJobId);
+      if (!successor) continue;
+      const delay = daysBetween(successor.start, addDays(current.end, 1));
+      if (delay <= 0) continue;
+      days.set(link.successorJobId, shiftDays(successor, delay));
+      changed.add(link.successorJobId);
+      queue.push(link.successorJobId);
+    }
+  }
+
+  const jobsById = new Map(jobs.map((job) => [job.id, job]));
+  return Array.from(changed).map((id) => {
+    const jobDays = days.get(id)!;
+    const job = jobsById.get(id);
+    const before = originalDays.get(id);
+    if (!job || !before) return { jobId: id, startTime: jobDays.start, endTime: jobDays.end };
+
+    const start = shiftTime((job.startTime ?? job.endTime)!, daysBetween(before.start, jobDays.start));
+    const end = shiftTime((job.endTime ?? job.startTime)!, daysBetween(before.end, jobDays.end));
+    return { jobId: id, startTime: start, endTime: end.getTime() < start.getTime() ? start : end };
+  });
+}
+
+/**
+ * Dependencies whose successor starts before its predecessor has finished
+ */
+export function findDependencyViolations<T extends JobDependencyLink>(jobs: SchedulableJob[], links: T[]): T[] {
+  const days = new Map(jobs.map((job) => [job.id, getJobDays(job)]));
+  return links.filter((link) => {
+    const predecessor = days.get(link.predecessorJobId);
+    const successor = days.get(link.successorJobId);
+    return !!predecessor && !!successor && successor.start.getTime() <= predecessor.end.getTime();
+  });
+}
+
+/**
+ * Users assigned to overlapping jobs, one entry per user and pair of jobs.
+ * Finished and cancelled jobs don't count.
+ */
+export function findAssignmentConflicts(jobs: StaffedJob[]): AssignmentConflict[] {
+  const scheduled = jobs
+    .filter((job) => !INACTIVE_JOB_STATUSES.includes(job.status) && (job.assignedUsers?.length ?? 0) > 0)
+    .map((job) => ({ job, days: getJobDays(job) }))
+    .filter((entry): entry is { job: StaffedJob; days: JobDays } => entry.days !== null)
+    .sort((a, b) => a.days.start.getTime() - b.days.start.getTime());
+
+  const conflicts: AssignmentConflict[] = [];
+  for (let i = 0; i < scheduled.length; i++) {
+    const current = scheduled[i];
+    for (let j = i + 1; j < scheduled.length; j++) {
+      const other = scheduled[j];
+      if (other.days.start.getTime() > current.days.end.getTime()) break;
+      const otherUsers = new Set(other.job.assignedUsers);
+      for (const userId of Array.from(new Set(current.job.assignedUsers))) {
+        if (otherUsers.has(userId)) {
+          conflicts.push({ userId, jobId: current.job.id, otherJobId: other.job.id });
+        }
+      }
+    }
+  }
+  return conflicts;
+}
@@ -0,0 +1,89 @@
+/**
+ * Mileage log (Fahrtenbuch).
+ *
+ * Trips are recorded per vehicle and never changed afterwards: a correction
+ * is a new trip that replaces the old one. Each trip is hash-chained to the
+ * previous trip of the same vehicle, so any later edit in the database breaks
+ * the chain and shows up in the export.
+ */
+
+export const VEHICLE_KINDS = ["car", "motorcycle", "other"] as const;
+export type VehicleKind = (typeof VEHICLE_KINDS)[number];
+
+export const VEHICLE_KIND_LABELS: Record<VehicleKind, string> = {
+  car: "Car",
+  motorcycle: "Motorcycle",
+  other: "Other motor vehicle",
+};
+
+/**
+ * Statutory flat rates per driven kilometre for business trips with a private
+ * vehicle (§ 9 Abs. 1 Satz 3 Nr. 4a EStG, BRKG)
+ */
+export const STATUTORY_MILEAGE_RATES: Record<VehicleKind, number> = {
+  car: 0.3,
+  motorcycle: 0.2,
+  other: 0.2,
+};
+
+export const TRIP_TYPES = ["business", "commute", "private"] as const;
+export type TripType = (typeof TRIP_TYPES)[number];
+
+export const TRIP_TYPE_LABELS: Record<TripType, string> = {
+  business: "Business trip",
+  commute: "Home to work",
+  private: "Private trip",
+};
+
+/** German terms used in the Fahrtenbuch export */
+export const TRIP_TYPE_EXPORT_LABELS: Record<TripType, string> = {
+  business: "Betrieblich",
+  commute: "Wohnung - Arbeitsstätte",
+  private: "Privat",
+};
+
+/** How the trip distance was determined */
+export const DISTANCE_SOURCES = ["manual", "odometer", "straight_line", "route"] as const;
+export type DistanceSource = (typeof DISTANCE_SOURCES)[number];
+
+export const DISTANCE_SOURCE_LABELS: Record<DistanceSource, string> = {
+  manual: "Entered manually",
+  odometer: "Odometer",
+  straight_line: "Straight line",
+  route: "Route",
+};
+
+export interface GeoPoint {
+  lat: number;
+  lng: number;
+}
+
+const EARTH_RADIUS_KM = 6371;
+
+const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+
+/** Great-circle (haversine) distance in km */
+export function straightLineDistanceKm(from: GeoPoint, to: GeoPoint): number {
+  const dLat = toRadians(to.lat - from.lat);
+  const dLng = toRadians(to.lng - from.lng);
+  const a =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(from.lat)) * Math.cos(toRadians(to.lat)) * Math.sin(dLng / 2) ** 2;
+  return 2 * EARTH_RADIUS_KM * Math.asin(Math.min(1, Math.sqrt(a)));
+}
+
+/** Trip distances are logged with one decimal place */
+export function roundDistanceKm(km: number): number {
+  return Math.round(km * 10) / 10;
+}
+
+/** Reimbursable amount in cents; only business trips produce an expense */
+export function calculateMileageAmountCents(distanceKm: number, ratePerKm: number): number {
+  return Math.round(distanceKm * ratePerKm * 100);
+}
+
+export function isGeoPoint(value: unknown): value is GeoPoint {
+  if (!value || typeof value !== "object") return false;
+  const { lat, lng } = value as Record<string, unknown>;
+  return typeof lat === "number" && typeof lng === "number" && Number.isFinite(lat) && Number.isFinite(lng);
+}
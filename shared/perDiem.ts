@@ -0,0 +1,80 @@
+/**
+ * Meal allowances (Verpflegungsmehraufwand, § 9 Abs. 4a EStG).
+ *
+ * Absences from home are derived from project check-ins. Every calendar day of
+ * an absence gets a flat allowance, reduced for meals that were provided.
+ */
+
+/** Domestic flat rates since 2024 */
+export const PER_DIEM_FULL_DAY_CENTS = 2800;
+export const PER_DIEM_PARTIAL_DAY_CENTS = 1400;
+
+/** A single-day absence has to last longer than this to qualify */
+export const PER_DIEM_MIN_SINGLE_DAY_HOURS = 8;
+
+/**
+ * - `single`: absence without overnight stay
+ * - `arrival` / `departure`: first and last day of a trip with overnight stays
+ * - `full`: day in between, away for 24 hours
+ */
+export const PER_DIEM_DAY_KINDS = ["single", "arrival", "departure", "full"] as const;
+export type PerDiemDayKind = (typeof PER_DIEM_DAY_KINDS)[number];
+
+export const PER_DIEM_DAY_KIND_LABELS: Record<PerDiemDayKind, string> = {
+  single: "Day trip",
+  arrival: "Arrival day",
+  departure: "Departure day",
+  full: "Full day",
+};
+
+/** German terms used in the generated expense */
+export const PER_DIEM_DAY_KIND_EXPORT_LABELS: Record<PerDiemDayKind, string> = {
+  single: "Eintägig",
+  arrival: "Anreisetag",
+  departure: "Abreisetag",
+  full: "24 Std.",
+};
+
+export const MEALS = ["breakfast", "lunch", "dinner"] as const;
+export type Meal = (typeof MEALS)[number];
+
+export const MEAL_LABELS: Record<Meal, string> = {
+  breakfast: "Breakfast",
+  lunch: "Lunch",
+  dinner: "Dinner",
+};
+
+/** Reduction per provided meal, in percent of the full-day rate */
+export const MEAL_REDUCTION_PCT: Record<Meal, number> = {
+  breakfast: 20,
+  lunch: 40,
+  dinner: 40,
+};
+
+export type ProvidedMeals = Record<Meal, boolean>;
+
+export const NO_MEALS_PROVIDED: ProvidedMeals = { breakfast: false, lunch: false, dinner: false };
+
+export interface PerDiemDayAmount {
+  allowanceCents: number;
+  reductionCents: number;
+  amountCents: number;
+}
+
+export function calculatePerDiemDay(kind: PerDiemDayKind, hours: number, meals: ProvidedMeals): PerDiemDayAmount {
+  let allowanceCents = 0;
+  if (kind === "full") {
+    allowanceCents = PER_DIEM_FULL_DAY_CENTS;
+  } else if (kind !== "single" || hours > PER_DIEM_MIN_SINGLE_DAY_HOURS) {
+    allowanceCents = PER_DIEM_PARTIAL_DAY_CENTS;
+  }
+
+  // Reductions are taken from the full-day rate but never exceed the allowance
+  const mealReductionCents = MEALS.reduce(
+    (sum, meal) => sum + (meals[meal] ? Math.round((PER_DIEM_FULL_DAY_CENTS * MEAL_REDUCTION_PCT[meal]) / 100) : 0),
+    0
+  );
+  const reductionCents = Math.min(mealReductionCents, allowanceCents);
+
+  return { allowanceCents, reductionCents, amountCents: allowanceCents - reductionCents };
+}
@@ -0,0 +1,103 @@
+/**
+ * Project templates
+ *
+ * Recurring kinds of projects (facade inspection, anchor testing, window
+ * cleaning, ...) captured once: their jobs with checklists and day offsets,
+ * default tags, inspection templates and standard line items. A new project
+ * from a template places every job relative to the chosen start date.
+ */
+
+import { addDays } from "./recurringInvoice";
+
+/** Longest supported template, in days from the project start */
+export const MAX_TEMPLATE_OFFSET_DAYS = 365;
+
+export interface ProjectTemplateJob {
+  title: string;
+  category: string | null;
+  description: string | null;
+  /** Checklist items, added to the job description as open boxes */
+  checklist: string[];
+  /** Day the job starts, counted from the project start (0 = first day) */
+  startOffsetDays: number;
+  /** Last day of the job, counted from the project start */
+  endOffsetDays: number;
+}
+
+export interface ProjectTemplateLineItem {
+  name: string;
+  description: string | null;
+  category: string | null;
+  quantity: number;
+  unitPrice: number;
+  /** null uses the company's default VAT rate */
+  vatRate: number | null;
+}
+
+export interface TemplateJobInstance {
+  title: string;
+  category: string | null;
+  description: string | null;
+  startTime: Date;
+  endTime: Date;
+}
+
+const CHECKLIST_BOX = "☐";
+
+export function validateTemplateJob(job: Pick<ProjectTemplateJob, "title" | "startOffsetDays" | "endOffsetDays">): string | null {
+  if (!job.title.trim()) return "Every job needs a title";
+  if (job.startOffsetDays < 0 || job.endOffsetDays > MAX_TEMPLATE_OFFSET_DAYS) {
+    return `Jobs must lie within ${MAX_TEMPLATE_OFFSET_DAYS} days of the project start`;
+  }
+  if (job.endOffsetDays < job.startOffsetDays) return `"${job.title}" ends before it starts`;
+  return null;
+}
+
+/**
+ * Trimmed tags without blanks and case-insensitive duplicates
+ */
+export function normalizeTags(tags: string[]): string[] {
+  const seen = new Set<string>();
+  const result: string[] = [];
+  for (const tag of tags) {
+    const trimmed = tag.trim();
+    const key = trimmed.toLowerCase();
+    if (!trimmed || seen.has(key)) continue;
+    seen.add(key);
+    result.push(trimmed);
+  }
+  return result;
+}
+
+export function formatChecklist(items: string[]): string {
+  return items
+    .map((item) => item.trim())
+    .filter(Boolean)
+    .map((item) => `${CHECKLIST_BOX} ${item}`)
+    .join("\n");
+}
+
+/**
+ * Days the template spans, i.e. the offset of its last job day
+ */
+export function getTemplateSpanDays(jobs: Pick<ProjectTemplateJob, "endOffsetDays">[]): number {
+  return jobs.reduce((span, job) => Math.max(span, job.endOffsetDays), 0);
+}
+
+/**
+ * Jobs of a template placed relative to the project start. The checklist
+ * follows the job description.
+ */
+export function instantiateTemplateJobs(jobs: ProjectTemplateJob[], startDate: Date | string): TemplateJobInstance[] {
+  return jobs.map((job) => {
+    const checklist = formatChecklist(job.checklist);
+    const description = [job.description?.trim(), checklist].filter(Boolean).join("\n\n");
+    return {
+      title: job.title.trim(),
+      category: job.category?.trim() || null,
+      description: description || null,
+      startTime: addDays(startDate, job.startOffsetDays),
+      endTime: addDays(startDate, job.endOffsetDays),
+    };
+  });
+}
@@ -0,0 +1,56 @@
+/**
+ * Quote (Angebot) lifecycle and numbering.
+ *
+ * Only draft/sent/accepted/declined are stored; a sent quote whose validity
+ * date has passed is reported as "expired" without touching the row.
+ */
+
+export const QUOTE_STATUSES = ["draft", "sent", "accepted", "declined"] as const;
+export type QuoteStatus = (typeof QUOTE_STATUSES)[number];
+
+export type QuoteState = QuoteStatus | "expired";
+
+export const QUOTE_NUMBER_PREFIX = "AN";
+
+/** Default validity of a new quote in days */
+export const QUOTE_DEFAULT_VALIDITY_DAYS = 30;
+
+const QUOTE_SEQUENCE_PADDING = 3;
+
+function startOfDay(date: Date) {
+  const copy = new Date(date);
+  copy.setHours(0, 0, 0, 0);
+  return copy;
+}
+
+export function isQuoteExpired(
+  quote: { status: QuoteStatus; validUntil: Date | string | null },
+  now: Date = new Date()
+): boolean {
+  if (quote.status !== "sent" || !quote.validUntil) return false;
+  // The validity date itself is still binding
+  return startOfDay(new Date(quote.validUntil)).getTime() < startOfDay(now).getTime();
+}
+
+export function getQuoteState(
+  quote: { status: QuoteStatus; validUntil: Date | string | null },
+  now: Date = new Date()
+): QuoteState {
+  return isQuoteExpired(quote, now) ? "expired" : quote.status;
+}
+
+export function formatQuoteNumber(year: number, counter: number): string {
+  return `${QUOTE_NUMBER_PREFIX}-${year}-${String(counter).padStart(QUOTE_SEQUENCE_PADDING, "0")}`;
+}
+
+/**
+ * Highest sequence used in a year, parsed from numbers in the AN-YYYY-NNN format.
+ * Manually entered numbers in other formats are ignored.
+ */
+export function getHighestQuoteCounter(quoteNumbers: string[], year: number): number {
+  const pattern = new RegExp(`^${QUOTE_NUMBER_PREFIX}-${year}-(\\d+)$`);
+  return quoteNumbers.reduce((max, quoteNumber) => {
+    const match = quoteNumber.match(pattern);
+    return match ? Math.max(max, Number(match[1])) : max;
+  }, 0);
+}
@@ -0,0 +1,144 @@
+/**
+ * Recurring invoices (Abo-/Wartungsrechnungen).
+ *
+ * A template runs on its start date and then every interval. Runs keep the
+ * day of month of the start date and fall back to the last day of shorter
+ * months (31 Jan → 28/29 Feb → 31 Mar). Each run bills the period from its run
+ * date until the day before the next run.
+ */
+
+export const RECURRING_INTERVALS = ["monthly", "quarterly", "half_yearly", "yearly"] as const;
+export type RecurringInterval = (typeof RECURRING_INTERVALS)[number];
+
+export const RECURRING_INTERVAL_MONTHS: Record<RecurringInterval, number> = {
+  monthly: 1,
+  quarterly: 3,
+  half_yearly: 6,
+  yearly: 12,
+};
+
+export const RECURRING_INTERVAL_LABELS: Record<RecurringInterval, string> = {
+  monthly: "Monthly",
+  quarterly: "Quarterly",
+  half_yearly: "Every 6 months",
+  yearly: "Yearly",
+};
+
+export const RECURRING_DEFAULT_PAYMENT_TERM_DAYS = 14;
+
+/** Template fields that define the schedule */
+export interface RecurringSchedule {
+  interval: RecurringInterval;
+  startDate: Date | string;
+  endDate: Date | string | null;
+  nextRunDate: Date | string | null;
+  isActive: boolean;
+}
+
+export function startOfDay(date: Date | string) {
+  const copy = new Date(date);
+  copy.setHours(0, 0, 0, 0);
+  return copy;
+}
+
+export function addDays(date: Date | string, days: number) {
+  const copy = startOfDay(date);
+  copy.setDate(copy.getDate() + days);
+  return copy;
+}
+
+/**
+ * The n-th run of a schedule (n = 0 is the start date)
+ */
+export function getOccurrence(startDate: Date | string, interval: RecurringInterval, index: number): Date {
+  const start = startOfDay(startDate);
+  const monthIndex = start.getMonth() + index * RECURRING_INTERVAL_MONTHS[interval];
+  const lastDayOfMonth = new Date(start.getFullYear(), monthIndex + 1, 0).getDate();
+  return new Date(start.getFullYear(), monthIndex, Math.min(start.getDate(), lastDayOfMonth));
+}
+
+/**
+ * First run strictly after the given date; the start date itself when `after` lies before it
+ */
+export function getNextOccurrence(startDate: Date | string, interval: RecurringInterval, after: Date | string): Date {
+  const start = startOfDay(startDate);
+  const threshold = startOfDay(after).getTime();
+  if (start.getTime() > threshold) return start;
+
+  const months = RECURRING_INTERVAL_MONTHS[interval];
+  const reference = startOfDay(after);
+  const monthsBetween = (reference.getFullYear() - start.getFullYear()) * 12 + reference.getMonth() - start.getMonth();
+  let index = Math.max(0, Math.floor(monthsBetween / months));
+  let candidate = getOccurrence(start, interval, index);
+  while (candidate.getTime() <= threshold) {
+    index += 1;
+    candidate = getOccurrence(start, interval, index);
+  }
+  return candidate;
+}
+
+/**
+ * Service period billed by a run: the run date until the day before the next run
+ */
+export function getServicePeriod(startDate: Date | string, interval: RecurringInterval, runDate: Date | string) {
+  const start = startOfDay(runDate);
+  const end = addDays(getNextOccurrence(startDate, interval, start), -1);
+  return { start, end };
+}
+
+function isWithinEndDate(schedule: Pick<RecurringSchedule, "endDate">, runDate: Date) {
+  return !schedule.endDate || runDate.getTime() <= startOfDay(schedule.endDate).getTime();
+}
+
+/**
+ * Whether the pending run of an active template has been reached
+ */
+export function isRunDue(schedule: RecurringSchedule, now: Date = new Date()): boolean {
+  if (!schedule.isActive || !schedule.nextRunDate) return false;
+  const runDate = startOfDay(schedule.nextRunDate);
+  return isWithinEndDate(schedule, runDate) && runDate.getTime() <= startOfDay(now).getTime();
+}
+
+/**
+ * Next runs of a template (pending run first), limited by the end date
+ */
+export function getUpcomingRuns(schedule: RecurringSchedule, count: number): Date[] {
+  if (!schedule.isActive || !schedule.nextRunDate) return [];
+  const runs: Date[] = [];
+  let runDate = startOfDay(schedule.nextRunDate);
+  while (runs.length < count && isWithinEndDate(schedule, runDate)) {
+    runs.push(runDate);
+    runDate = getNextOccurrence(schedule.startDate, schedule.interval, runDate);
+  }
+  return runs;
+}
+
+/**
+ * Run date after the given run, or null once the end date is passed
+ */
+export function getFollowingRunDate(
+  schedule: Pick<RecurringSchedule, "interval" | "startDate" | "endDate">,
+  runDate: Date | string
+): Date | null {
+  const next = getNextOccurrence(schedule.startDate, schedule.interval, runDate);
+  return isWithinEndDate(schedule, next) ? next : null;
+}
+
+/** Minutes after which a run still pending without an invoice is taken as abandoned, e.g. by a crash */
+export const RECURRING_RUN_STALE_MINUTES = 30;
+
+/**
+ * Whether a claimed run can be claimed again: it failed, or it was left
+ * pending without an invoice for longer than creating one takes
+ */
+export function isRunReclaimable(
+  run: { status: string; invoiceId: number | null; updatedAt: Date | string },
+  now: Date = new Date()
+): boolean {
+  if (run.status === "failed") return true;
+  return (
+    run.status === "pending" &&
+    run.invoiceId === null &&
+    new Date(run.updatedAt).getTime() < now.getTime() - RECURRING_RUN_STALE_MINUTES * 60 * 1000
+  );
+}
@@ -0,0 +1,30 @@
+/**
+ * Recurring expenses (subscriptions) detected from supplier history.
+ */
+
+import type { ExpenseCategory } from "./expenseCategories";
+
+export const SUBSCRIPTION_CADENCES = ["monthly", "quarterly", "yearly"] as const;
+
+export type SubscriptionCadence = (typeof SUBSCRIPTION_CADENCES)[number];
+
+export const SUBSCRIPTION_CADENCE_LABELS: Record<SubscriptionCadence, string> = {
+  monthly: "Monthly",
+  quarterly: "Quarterly",
+  yearly: "Yearly",
+};
+
+export const SUBSCRIPTION_CADENCE_MONTHS: Record<SubscriptionCadence, number> = {
+  monthly: 1,
+  quarterly: 3,
+  yearly: 12,
+};
+
+/** Categories whose expenses are checked for recurring charges */
+export const SUBSCRIPTION_CATEGORIES: ExpenseCategory[] = ["subscriptions", "software", "insurance"];
+
+export type SubscriptionStatus = "active" | "cancelled";
+
+export function annualiseCents(amountCents: number, cadence: SubscriptionCadence): number {
+  return Math.round((amountCents * 12) / SUBSCRIPTION_CADENCE_MONTHS[cadence]);
+}
@@ -0,0 +1,136 @@
+/**
+ * Period tax report: EÜR result and VAT pre-declaration (Umsatzsteuer-Voranmeldung).
+ *
+ * Income and expenses follow the accounting method, output VAT the VAT
+ * method (see ./accountingDate). The UStVA lines carry the Kennzahlen of the
+ * official form; assessment bases are whole euros as ELSTER expects them.
+ */
+
+import type { AccountingMethod, VatMethod } from "./accountingDate";
+import type { InvoiceVatCategory } from "./invoiceVat";
+
+export const TAX_REPORT_PERIOD_TYPES = ["month", "quarter", "year"] as const;
+export type TaxReportPeriodType = (typeof TAX_REPORT_PERIOD_TYPES)[number];
+
+export const TAX_REPORT_PERIOD_TYPE_LABELS: Record<TaxReportPeriodType, string> = {
+  month: "Month",
+  quarter: "Quarter",
+  year: "Year",
+};
+
+export interface TaxReportPeriod {
+  type: TaxReportPeriodType;
+  year: number;
+  /** Month 1-12, quarter 1-4, always 1 for years */
+  index: number;
+  from: Date;
+  /** Last millisecond of the period */
+  to: Date;
+  label: string;
+}
+
+export function resolveTaxReportPeriod(type: TaxReportPeriodType, year: number, index = 1): TaxReportPeriod {
+  if (type === "month") {
+    return {
+      type,
+      year,
+      index,
+      from: new Date(year, index - 1, 1),
+      to: new Date(year, index, 0, 23, 59, 59, 999),
+      label: `${String(index).padStart(2, "0")}/${year}`,
+    };
+  }
+  if (type === "quarter") {
+    return {
+      type,
+      year,
+      index,
+      from: new Date(year, (index - 1) * 3, 1),
+      to: new Date(year, index * 3, 0, 23, 59, 59, 999),
+      label: `Q${index} ${year}`,
+    };
+  }
+  return {
+    type,
+    year,
+    index: 1,
+    from: new Date(year, 0, 1),
+    to: new Date(year, 11, 31, 23, 59, 59, 999),
+    label: String(year),
+  };
+}
+
+/** Kennzahlen of the UStVA form covered by the report, in form order */
+export const USTVA_FIELD_CODES = ["81", "86", "35", "48", "41", "84", "60", "66", "67", "83"] as const;
+export type UstvaFieldCode = (typeof USTVA_FIELD_CODES)[number];
+
+export const USTVA_FIELD_LABELS: Record<UstvaFieldCode, string> = {
+  "81": "Steuerpflichtige Umsätze zum Steuersatz von 19 %",
+  "86": "Steuerpflichtige Umsätze zum Steuersatz von 7 %",
+  "35": "Umsätze zu anderen Steuersätzen",
+  "48": "Steuerfreie Umsätze ohne Vorsteuerabzug",
+  "41": "Innergemeinschaftliche Lieferungen an Abnehmer mit USt-IdNr.",
+  "84": "Leistungen, für die Sie als Leistungsempfänger die Steuer nach § 13b UStG schulden",
+  "60": "Steuerpflichtige Umsätze, für die der Leistungsempfänger die Steuer nach § 13b UStG schuldet",
+  "66": "Vorsteuerbeträge aus Rechnungen von anderen Unternehmern",
+  "67": "Vorsteuerbeträge aus Leistungen im Sinne des § 13b UStG",
+  "83": "Verbleibende Umsatzsteuer-Vorauszahlung / Überschuss",
+};
+
+export interface UstvaLine {
+  code: UstvaFieldCode;
+  label: string;
+  /** Assessment base in whole euros, null for pure tax lines */
+  base: number | null;
+  /** Tax amount, null for tax-free lines */
+  tax: number | null;
+}
+
+export interface TaxReportAmounts {
+  net: number;
+  vat: number;
+  gross: number;
+}
+
+export interface TaxReportVatGroup {
+  category: InvoiceVatCategory;
+  rate: number;
+  net: number;
+  vat: number;
+}
+
+/** Foreign-currency expense left out of the report for lack of an EUR amount */
+export interface TaxReportUnconvertedExpense {
+  id: number;
+  supplierName: string;
+  expenseDate: Date;
+  currency: string;
+  grossAmountCents: number;
+}
+
+export interface TaxReport {
+  period: TaxReportPeriod;
+  accountingMethod: AccountingMethod;
+  /** null for Kleinunternehmer */
+  vatMethod: VatMethod | null;
+  isKleinunternehmer: boolean;
+  /** Income recognized in the period (accounting method) */
+  income: TaxReportAmounts & { invoiceCount: number };
+  /** Business share of expenses recognized in the period (accounting method) */
+  expenses: TaxReportAmounts & { expenseCount: number };
+  /** Net income minus net expenses */
+  result: number;
+  /** Taxable revenue of the period (VAT method), grouped by VAT category and rate */
+  vatGroups: TaxReportVatGroup[];
+  outputVat: number;
+  /** VAT owed as recipient of reverse-charge services (§ 13b UStG) */
+  reverseChargeVat: number;
+  /** Deductible input VAT, including the deductible part of reverse-charge VAT */
+  inputVat: number;
+  /** Output and reverse-charge VAT minus input VAT; negative values are a refund (Überschuss) */
+  vatBalance: number;
+  /** Empty for Kleinunternehmer, who don't file a UStVA */
+  ustva: UstvaLine[];
+  /** Expenses of the period missing from all figures until their exchange rate is entered */
+  unconvertedExpenses: TaxReportUnconvertedExpense[];
+}
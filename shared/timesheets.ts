@@ -0,0 +1,155 @@
+/**
+ * Timesheets
+ *
+ * Worked time is recorded as time entries (taken over from project check-ins
+ * or entered by hand) and grouped into weekly timesheets per user, which are
+ * submitted for approval. Approved, billable entries that aren't billed yet
+ * can be invoiced per project at the hourly rate of their job or project.
+ */
+
+import { addDays, startOfDay } from "./recurringInvoice";
+
+export const TIMESHEET_STATUSES = ["open", "submitted", "approved", "rejected"] as const;
+export type TimesheetStatus = (typeof TIMESHEET_STATUSES)[number];
+
+export const TIMESHEET_STATUS_LABELS: Record<TimesheetStatus, string> = {
+  open: "Open",
+  submitted: "Submitted",
+  approved: "Approved",
+  rejected: "Rejected",
+};
+
+/** Longest single entry; longer ones are almost always a forgotten check-out */
+export const MAX_TIME_ENTRY_HOURS = 24;
+
+const pad = (value: number) => String(value).padStart(2, "0");
+
+/**
+ * Monday of the date's week as YYYY-MM-DD (local time); identifies a timesheet
+ */
+export function toWeekStart(date: Date | string): string {
+  const day = startOfDay(date);
+  const monday = addDays(day, -((day.getDay() + 6) % 7));
+  return `${monday.getFullYear()}-${pad(monday.getMonth() + 1)}-${pad(monday.getDate())}`;
+}
+
+/**
+ * Start of the week and start of the following week
+ */
+export function getWeekRange(weekStart: string): { from: Date; to: Date } {
+  const from = new Date(`${weekStart}T00:00:00`);
+  return { from, to: addDays(from, 7) };
+}
+
+export function shiftWeek(weekStart: string, weeks: number): string {
+  return toWeekStart(addDays(new Date(`${weekStart}T00:00:00`), weeks * 7));
+}
+
+/**
+ * Submitted and approved timesheets can't be changed
+ */
+export function isTimesheetLocked(status: TimesheetStatus): boolean {
+  return status === "submitted" || status === "approved";
+}
+
+export interface TimeSpan {
+  startTime: Date | string;
+  endTime: Date | string;
+  breakMinutes: number;
+}
+
+/**
+ * Worked minutes of an entry: duration minus break, never negative
+ */
+export function getEntryMinutes(entry: TimeSpan): number {
+  const minutes = Math.round((new Date(entry.endTime).getTime() - new Date(entry.startTime).getTime()) / 60000);
+  return Math.max(0, minutes - entry.breakMinutes);
+}
+
+/**
+ * Why the entry times are invalid, or null
+ */
+export function validateTimeSpan(entry: TimeSpan): string | null {
+  const start = new Date(entry.startTime).getTime();
+  const end = new Date(entry.endTime).getTime();
+  if (!(end > start)) return "The end has to be after the start";
+  if (end - start > MAX_TIME_ENTRY_HOURS * 60 * 60 * 1000) return `An entry can be at most ${MAX_TIME_ENTRY_HOURS} hours`;
+  if (entry.breakMinutes < 0 || entry.breakMinutes * 60000 >= end - start) return "The break has to be shorter than the entry";
+  return null;
+}
+
+/**
+ * Hours and minutes, e.g. 7:45
+ */
+export function formatMinutes(minutes: number): string {
+  return `${Math.floor(minutes / 60)}:${pad(minutes % 60)}`;
+}
+
+/**
+ * Hourly rate of a job, falling back to the project's rate
+ */
+export function resolveHourlyRate(
+  jobRate: string | number | null | undefined,
+  projectRate: string | number | null | undefined
+): number | null {
+  const rate = jobRate ?? projectRate;
+  return rate === null || rate === undefined ? null : Number(rate);
+}
+
+export interface BillableTimeEntry extends TimeSpan {
+  id: number;
+  jobId: number | null;
+  jobTitle: string | null;
+  hourlyRate: number | null;
+}
+
+export interface TimeInvoiceLine {
+  name: string;
+  description: string;
+  quantity: number;
+  unitPrice: number;
+  entryIds: number[];
+}
+
+const formatDay = (date: Date) => `${pad(date.getDate())}.${pad(date.getMonth() + 1)}.${date.getFullYear()}`;
+
+/**
+ * Invoice lines for billable entries: one line per job and hourly rate, with
+ * the hours rounded to two decimals and the period worked as description.
+ * Entries without an hourly rate can't be billed and are returned separately.
+ */
+export function buildTimeInvoiceLines(entries: BillableTimeEntry[]): {
+  lines: TimeInvoiceLine[];
+  withoutRate: BillableTimeEntry[];
+} {
+  const groups = new Map<string, { entries: BillableTimeEntry[]; rate: number }>();
+  const withoutRate: BillableTimeEntry[] = [];
+
+  for (const entry of entries) {
+    if (entry.hourlyRate === null) {
+      withoutRate.push(entry);
+      continue;
+    }
+    const key = `${entry.jobId ?? "project"}:${entry.hourlyRate}`;
+    const group = groups.get(key) ?? { entries: [], rate: entry.hourlyRate };
+    group.entries.push(entry);
+    groups.set(key, group);
+  }
+
+  const lines = Array.from(groups.values()).map((group) => {
+    const minutes = group.entries.reduce((sum, entry) => sum + getEntryMinutes(entry), 0);
+    const days = group.entries.map((entry) => new Date(entry.startTime)).sort((a, b) => a.getTime() - b.getTime());
+    const first = formatDay(days[0]);
+    const last = formatDay(days[days.length - 1]);
+    const jobTitle = group.entries[0].jobTitle;
+    return {
+      name: jobTitle ? `Arbeitszeit ${jobTitle}` : "Arbeitszeit",
+      description: first === last ? `Leistungsdatum ${first}` : `Leistungszeitraum ${first} – ${last}`,
+      quantity: Math.round((minutes / 60) * 100) / 100,
+      unitPrice: group.rate,
+      entryIds: group.entries.map((entry) => entry.id),
+    };
+  });
+
+  return { lines: lines.filter((line) => line.quantity > 0), withoutRate };
+}
@@ -0,0 +1,97 @@
+/**
+ * Team workspaces
+ *
+ * A workspace shares its owner's account (projects, contacts, invoices and
+ * the company settings behind them) with invited members. What a member may
+ * do depends on their role; foremen and field workers only see the projects
+ * they are members of.
+ */
+
+export const WORKSPACE_ROLES = ["owner", "office", "foreman", "field_worker", "accountant"] as const;
+export type WorkspaceRole = (typeof WORKSPACE_ROLES)[number];
+
+/** Roles that can be handed out by invitation; every workspace has exactly one owner */
+export const INVITABLE_WORKSPACE_ROLES = ["office", "foreman", "field_worker", "accountant"] as const;
+export type InvitableWorkspaceRole = (typeof INVITABLE_WORKSPACE_ROLES)[number];
+
+export const WORKSPACE_ROLE_LABELS: Record<WorkspaceRole, string> = {
+  owner: "Owner",
+  office: "Office",
+  foreman: "Foreman",
+  field_worker: "Field worker",
+  accountant: "Accountant",
+};
+
+export const WORKSPACE_ROLE_DESCRIPTIONS: Record<WorkspaceRole, string> = {
+  owner: "Everything, including members and company settings",
+  office: "Projects, contacts, invoices and the books",
+  foreman: "Runs the projects they're a member of; reads contacts",
+  field_worker: "Sees and checks in to the projects they're a member of",
+  accountant: "Invoices and the books; reads projects and contacts",
+};
+
+export const WORKSPACE_RESOURCES = ["projects", "contacts", "invoices"] as const;
+export type WorkspaceResource = (typeof WORKSPACE_RESOURCES)[number];
+
+export const ACCESS_LEVELS = ["none", "view", "edit"] as const;
+export type AccessLevel = (typeof ACCESS_LEVELS)[number];
+
+/** `invoices` also covers the books: tax report, bank import, DATEV export and mileage log */
+const ROLE_PERMISSIONS: Record<WorkspaceRole, Record<WorkspaceResource, AccessLevel>> = {
+  owner: { projects: "edit", contacts: "edit", invoices: "edit" },
+  office: { projects: "edit", contacts: "edit", invoices: "edit" },
+  foreman: { projects: "edit", contacts: "view", invoices: "none" },
+  field_worker: { projects: "view", contacts: "none", invoices: "none" },
+  accountant: { projects: "view", contacts: "view", invoices: "edit" },
+};
+
+/** Roles limited to the projects they're a member of */
+const PROJECT_MEMBER_ROLES: readonly WorkspaceRole[] = ["foreman", "field_worker"];
+
+/** Roles that approve the weekly timesheets of the other members */
+const TIMESHEET_APPROVER_ROLES: readonly WorkspaceRole[] = ["owner", "office"];
+
+/** Roles that expenses can be submitted to for approval */
+const EXPENSE_REVIEWER_ROLES: readonly WorkspaceRole[] = ["owner", "office", "accountant"];
+
+/** Days an invitation can be accepted */
+export const WORKSPACE_INVITATION_DAYS = 14;
+
+export function satisfiesAccess(granted: AccessLevel, required: AccessLevel): boolean {
+  return ACCESS_LEVELS.indexOf(granted) >= ACCESS_LEVELS.indexOf(required);
+}
+
+export function getRoleAccess(role: WorkspaceRole, resource: WorkspaceResource): AccessLevel {
+  return ROLE_PERMISSIONS[role][resource];
+}
+
+export function isLimitedToProjectMembership(role: WorkspaceRole): boolean {
+  return PROJECT_MEMBER_ROLES.includes(role);
+}
+
+/**
+ * Access of a workspace member to one of the workspace's projects
+ */
+export function getProjectAccessForRole(role: WorkspaceRole, isProjectMember: boolean): AccessLevel {
+  if (isLimitedToProjectMembership(role) && !isProjectMember) return "none";
+  return getRoleAccess(role, "projects");
+}
+
+export function canManageMembers(role: WorkspaceRole | null): boolean {
+  return role === "owner";
+}
+
+export function canApproveTimesheets(role: WorkspaceRole | null): boolean {
+  return role !== null && TIMESHEET_APPROVER_ROLES.includes(role);
+}
+
+export function canReviewExpenses(role: WorkspaceRole | null): boolean {
+  return role !== null && EXPENSE_REVIEWER_ROLES.includes(role);
+}
+
+export function isInvitationUsable(
+  invitation: { acceptedAt: Date | string | null; expiresAt: Date | string },
+  now: Date = new Date()
+): boolean {
+  return !invitation.acceptedAt && new Date(invitation.expiresAt).getTime() > now.getTime();
+}